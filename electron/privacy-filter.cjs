@@ -12,68 +12,8 @@
 // PII DETECTION & REDACTION
 // ============================================
 
-const PII_PATTERNS = [
-  {
-    name: 'credit_card',
-    // 13-19 digit sequences with optional separators (Visa, MC, Amex, etc.)
-    regex: /\b(?:\d[ \-]*?){13,19}\b/g,
-    replacement: '[REDACTED-CC]',
-  },
-  {
-    name: 'ssn',
-    // US Social Security Numbers: XXX-XX-XXXX
-    regex: /\b\d{3}[-.\s]\d{2}[-.\s]\d{4}\b/g,
-    replacement: '[REDACTED-SSN]',
-  },
-  {
-    name: 'email_personal',
-    // Personal email providers only (work emails are allowed)
-    regex: /\b[a-zA-Z0-9._%+\-]+@(?:gmail|yahoo|hotmail|outlook|aol|icloud|protonmail|proton|ymail|live|msn|me)\.[a-z]{2,}\b/gi,
-    replacement: '[REDACTED-EMAIL]',
-  },
-  {
-    name: 'phone',
-    // US/international phone numbers
-    regex: /\b(?:\+?1[-.\s]?)?\(?\d{3}\)?[-.\s]?\d{3}[-.\s]?\d{4}\b/g,
-    replacement: '[REDACTED-PHONE]',
-  },
-  {
-    name: 'api_key_assignment',
-    // API keys, tokens, secrets assigned with = or :
-    regex: /(?:api[_\-]?key|api[_\-]?secret|token|secret[_\-]?key|access[_\-]?token|auth[_\-]?token|bearer)\s*[:=]\s*\S{8,}/gi,
-    replacement: '[REDACTED-KEY]',
-  },
-  {
-    name: 'password_assignment',
-    // Password fields: password=xxx, passwd:xxx
-    regex: /(?:password|passwd|pwd)\s*[:=]\s*\S+/gi,
-    replacement: '[REDACTED-PASSWORD]',
-  },
-  {
-    name: 'aws_access_key',
-    // AWS Access Key IDs: AKIA followed by 16 alphanumeric chars
-    regex: /\bAKIA[0-9A-Z]{16}\b/g,
-    replacement: '[REDACTED-AWS]',
-  },
-  {
-    name: 'jwt_token',
-    // JWT tokens: eyJ... base64 segments
-    regex: /\beyJ[A-Za-z0-9_\-]{10,}\.[A-Za-z0-9_\-]{10,}/g,
-    replacement: '[REDACTED-JWT]',
-  },
-  {
-    name: 'private_key',
-    // PEM private key headers
-    regex: /-----BEGIN\s+(?:RSA\s+)?PRIVATE\s+KEY-----/gi,
-    replacement: '[REDACTED-PRIVATE-KEY]',
-  },
-  {
-    name: 'connection_string',
-    // Database connection strings with credentials
-    regex: /(?:mongodb|postgres|mysql|redis|amqp):\/\/[^\s]+:[^\s]+@[^\s]+/gi,
-    replacement: '[REDACTED-CONNECTION]',
-  },
-];
+// Shared with the change pipeline and the hub, so all three redact the same things
+const sensitiveData = require('../src/utils/sensitive-data.cjs');
 
 /**
  * Check if text contains any sensitive data.
@@ -81,17 +21,7 @@ const PII_PATTERNS = [
  * @returns {{ hasSensitive: boolean, types: string[] }}
  */
 function containsSensitiveData(text) {
-  if (!text || typeof text !== 'string') return { hasSensitive: false, types: [] };
-
-  const types = [];
-  for (const pattern of PII_PATTERNS) {
-    // Reset regex state (global flag)
-    pattern.regex.lastIndex = 0;
-    if (pattern.regex.test(text)) {
-      types.push(pattern.name);
-    }
-  }
-  return { hasSensitive: types.length > 0, types };
+  return sensitiveData.containsSensitiveData(text);
 }
 
 /**
@@ -100,14 +30,7 @@ function containsSensitiveData(text) {
  * @returns {string} Text with PII replaced by [REDACTED-*] tokens
  */
 function redactSensitiveData(text) {
-  if (!text || typeof text !== 'string') return text;
-
-  let redacted = text;
-  for (const pattern of PII_PATTERNS) {
-    pattern.regex.lastIndex = 0;
-    redacted = redacted.replace(pattern.regex, pattern.replacement);
-  }
-  return redacted;
+  return sensitiveData.redactText(text);
 }
 
 /**
@@ -204,7 +127,6 @@ module.exports = {
   containsSensitiveData,
   redactSensitiveData,
   redactContextObject,
-  PII_PATTERNS,
 
   // Work-only filter
   isWorkApp,
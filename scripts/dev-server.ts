@@ -15,8 +15,11 @@ import { OrchestrationServiceImpl } from '../src/services/orchestration';
 import { ChangeDetectionServiceImpl } from '../src/services/change-detection';
 import { ChangeNormalizationServiceImpl } from '../src/services/change-normalization';
 import { AIInterpretationServiceImpl } from '../src/services/ai-interpretation';
+import { generateJson } from '../server/ai-service';
 import { RoleBasedRoutingServiceImpl } from '../src/services/role-based-routing';
 import { NotificationServiceImpl } from '../src/services/notification';
+import { openSyncDatabase } from '../src/db/database';
+import { SqliteNotificationRepository } from '../src/db/notification-repository';
 import { Role } from '../src/types/core';
 
 const app = express();
@@ -27,8 +30,9 @@ app.use(express.static(path.join(__dirname, '../public')));
 
 // Initialize services
 const onboarding = new OnboardingServiceImpl();
-const notification = new NotificationServiceImpl();
-const aiInterpretation = new AIInterpretationServiceImpl();
+const db = openSyncDatabase(process.env.SYNC_DB_PATH);
+const notification = new NotificationServiceImpl(new SqliteNotificationRepository(db));
+const aiInterpretation = new AIInterpretationServiceImpl(generateJson);
 const routing = new RoleBasedRoutingServiceImpl(
   (event) => aiInterpretation.interpretChangeEvent(event)
 );
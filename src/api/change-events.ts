@@ -0,0 +1,112 @@
+/**
+ * Change Events API
+ *
+ * Read-only access to the change history: filter persisted change events
+ * and inspect the timeline of each one (interpretation, routing decisions,
+ * notifications and approvals).
+ *
+ * Every route is scoped to one company group: change events of other
+ * groups are never listed and are not found by ID.
+ */
+
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { ChangeClassificationSchema, RoleSchema, SourceToolSchema } from '../types/core';
+import type { ChangeEventRepository } from '../db/change-event-repository';
+import { describeIssues } from './validation';
+
+const GroupQuerySchema = z.object({
+  companyGroupId: z.string().uuid(),
+});
+
+const ChangeEventQuerySchema = GroupQuerySchema.extend({
+  tool: SourceToolSchema.optional(),
+  resourceId: z.string().optional(),
+  classification: ChangeClassificationSchema.optional(),
+  role: RoleSchema.optional(),
+  since: z.coerce.date().optional(),
+  until: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export function registerChangeEventRoutes(app: FastifyInstance, changeEvents: ChangeEventRepository) {
+  /**
+   * List change events, newest first
+   * Query: companyGroupId, tool, resourceId, classification, role, since, until, limit, offset
+   */
+  app.get('/api/change-events', async (
+    request: FastifyRequest<{ Querystring: Record<string, string> }>,
+    reply: FastifyReply
+  ) => {
+    const parsed = ChangeEventQuerySchema.safeParse(request.query);
+    if (!parsed.success) {
+      return reply.status(400).send({ error: 'Invalid query', details: describeIssues(parsed.error) });
+    }
+
+    const query = parsed.data;
+    const results = changeEvents.listChangeEvents({
+      companyGroupId: query.companyGroupId,
+      sourceTool: query.tool,
+      sourceResourceId: query.resourceId,
+      classification: query.classification,
+      affectedRole: query.role,
+      since: query.since,
+      until: query.until,
+      limit: query.limit,
+      offset: query.offset,
+    });
+
+    return reply.send({
+      changeEvents: results,
+      limit: query.limit,
+      offset: query.offset,
+    });
+  });
+
+  /**
+   * Get a single change event
+   * Query: companyGroupId
+   */
+  app.get('/api/change-events/:changeEventId', async (
+    request: FastifyRequest<{ Params: { changeEventId: string }; Querystring: Record<string, string> }>,
+    reply: FastifyReply
+  ) => {
+    const parsed = GroupQuerySchema.safeParse(request.query);
+    if (!parsed.success) {
+      return reply.status(400).send({ error: 'Invalid query', details: describeIssues(parsed.error) });
+    }
+
+    const changeEvent = changeEvents.getChangeEvent(request.params.changeEventId);
+    if (!changeEvent || changeEvent.companyGroupId !== parsed.data.companyGroupId) {
+      return reply.status(404).send({ error: 'Change event not found' });
+    }
+
+    return reply.send({ changeEvent });
+  });
+
+  /**
+   * Get everything that happened to a change event, oldest first
+   * Query: companyGroupId
+   */
+  app.get('/api/change-events/:changeEventId/timeline', async (
+    request: FastifyRequest<{ Params: { changeEventId: string }; Querystring: Record<string, string> }>,
+    reply: FastifyReply
+  ) => {
+    const parsed = GroupQuerySchema.safeParse(request.query);
+    if (!parsed.success) {
+      return reply.status(400).send({ error: 'Invalid query', details: describeIssues(parsed.error) });
+    }
+
+    const { changeEventId } = request.params;
+    const changeEvent = changeEvents.getChangeEvent(changeEventId);
+    if (!changeEvent || changeEvent.companyGroupId !== parsed.data.companyGroupId) {
+      return reply.status(404).send({ error: 'Change event not found' });
+    }
+
+    return reply.send({
+      changeEventId,
+      timeline: changeEvents.getTimeline(changeEventId),
+    });
+  });
+}
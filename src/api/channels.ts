@@ -0,0 +1,153 @@
+/**
+ * Channels API
+ *
+ * Manage a company group's channels: the "everyone" channel and one channel
+ * per role, where each one is delivered and whether it receives digests.
+ * Webhook delivery secrets are write-only and never returned.
+ */
+
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import {
+  Channel,
+  ChannelTypeSchema,
+  DeliveryTargetSchema,
+  DigestFrequencySchema,
+  RoleSchema,
+} from '../types/core';
+import type { ChannelRepository } from '../db/channel-repository';
+import { describeIssues } from './validation';
+
+const ChannelBodySchema = z.object({
+  companyGroupId: z.string().uuid(),
+  type: ChannelTypeSchema,
+  name: z.string().trim().min(1).max(100),
+  role: RoleSchema.optional(),
+  description: z.string().max(500).optional(),
+  delivery: z.array(DeliveryTargetSchema).optional(),
+  digest: DigestFrequencySchema.optional(),
+}).refine(body => (body.type === 'role') === (body.role !== undefined), {
+  message: 'Role channels need a role, and only role channels may have one',
+  path: ['role'],
+});
+
+const ChannelUpdateSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  description: z.string().max(500).nullable().optional(),
+  delivery: z.array(DeliveryTargetSchema).nullable().optional(),
+  digest: DigestFrequencySchema.nullable().optional(),
+});
+
+const GroupQuerySchema = z.object({
+  companyGroupId: z.string().uuid(),
+});
+
+export function registerChannelRoutes(app: FastifyInstance, channels: ChannelRepository) {
+  /**
+   * Query: companyGroupId
+   */
+  app.get('/api/channels', async (
+    request: FastifyRequest<{ Querystring: Record<string, string> }>,
+    reply: FastifyReply
+  ) => {
+    const parsed = GroupQuerySchema.safeParse(request.query);
+    if (!parsed.success) {
+      return reply.status(400).send({ error: 'Invalid query', details: describeIssues(parsed.error) });
+    }
+
+    return reply.send({ channels: channels.listChannels(parsed.data.companyGroupId).map(publicChannel) });
+  });
+
+  /**
+   * A group has one "everyone" channel and at most one channel per role
+   */
+  app.post('/api/channels', async (
+    request: FastifyRequest<{ Body: unknown }>,
+    reply: FastifyReply
+  ) => {
+    const parsed = ChannelBodySchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: describeIssues(parsed.error) });
+    }
+
+    const channel: Channel = { id: randomUUID(), ...parsed.data, createdAt: new Date() };
+    try {
+      channels.saveChannel(channel);
+    } catch {
+      return reply.status(409).send({
+        error: channel.type === 'role'
+          ? `Company group already has a channel for ${channel.role}`
+          : 'Company group already has an everyone channel',
+      });
+    }
+
+    return reply.status(201).send({ channel: publicChannel(channel) });
+  });
+
+  app.get('/api/channels/:channelId', async (
+    request: FastifyRequest<{ Params: { channelId: string } }>,
+    reply: FastifyReply
+  ) => {
+    const channel = channels.getChannel(request.params.channelId);
+    if (!channel) {
+      return reply.status(404).send({ error: 'Channel not found' });
+    }
+
+    return reply.send({ channel: publicChannel(channel) });
+  });
+
+  /**
+   * Null clears the description, delivery targets or digest frequency
+   */
+  app.patch('/api/channels/:channelId', async (
+    request: FastifyRequest<{ Params: { channelId: string }; Body: unknown }>,
+    reply: FastifyReply
+  ) => {
+    const parsed = ChannelUpdateSchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: describeIssues(parsed.error) });
+    }
+
+    const existing = channels.getChannel(request.params.channelId);
+    if (!existing) {
+      return reply.status(404).send({ error: 'Channel not found' });
+    }
+
+    const update = parsed.data;
+    const channel: Channel = {
+      ...existing,
+      name: update.name ?? existing.name,
+      description: update.description === undefined ? existing.description : update.description ?? undefined,
+      delivery: update.delivery === undefined ? existing.delivery : update.delivery ?? undefined,
+      digest: update.digest === undefined ? existing.digest : update.digest ?? undefined,
+    };
+    channels.saveChannel(channel);
+
+    return reply.send({ channel: publicChannel(channel) });
+  });
+
+  app.delete('/api/channels/:channelId', async (
+    request: FastifyRequest<{ Params: { channelId: string } }>,
+    reply: FastifyReply
+  ) => {
+    if (!channels.deleteChannel(request.params.channelId)) {
+      return reply.status(404).send({ error: 'Channel not found' });
+    }
+    return reply.status(204).send();
+  });
+}
+
+/**
+ * A channel without the secrets of its webhook delivery targets
+ */
+function publicChannel(channel: Channel) {
+  return {
+    ...channel,
+    delivery: channel.delivery?.map(target => {
+      if (target.adapter !== 'webhook') return target;
+      const { secret, ...rest } = target;
+      return rest;
+    }),
+  };
+}
@@ -0,0 +1,101 @@
+/**
+ * Cursors API
+ *
+ * Start polling an installed tool account, and pause or resume its cursor.
+ * The polling scheduler picks new and resumed cursors up on its next tick.
+ */
+
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import type { CursorRepository } from '../db/cursor-repository';
+import type { InstallationService } from '../services/installations';
+import type { PollingScheduler } from '../services/polling-scheduler';
+import { initialCursorPosition } from '../services/installation-polling';
+import { describeIssues } from './validation';
+
+const GroupQuerySchema = z.object({
+  companyGroupId: z.string().uuid(),
+});
+
+const CursorBodySchema = z.object({
+  since: z.string().datetime().optional(), // Timestamp cursors only; defaults to now
+});
+
+export function registerCursorRoutes(
+  app: FastifyInstance,
+  cursors: CursorRepository,
+  installations: InstallationService,
+  scheduler: PollingScheduler
+) {
+  /**
+   * Query: companyGroupId
+   */
+  app.get('/api/cursors', async (
+    request: FastifyRequest<{ Querystring: Record<string, string> }>,
+    reply: FastifyReply
+  ) => {
+    const parsed = GroupQuerySchema.safeParse(request.query);
+    if (!parsed.success) {
+      return reply.status(400).send({ error: 'Invalid query', details: describeIssues(parsed.error) });
+    }
+
+    return reply.send({ cursors: cursors.listCursors({ companyGroupId: parsed.data.companyGroupId }) });
+  });
+
+  /**
+   * Poll an installation from now (or `since`); an installation has one cursor
+   */
+  app.post('/api/installations/:installationId/cursor', async (
+    request: FastifyRequest<{ Params: { installationId: string }; Body: unknown }>,
+    reply: FastifyReply
+  ) => {
+    const parsed = CursorBodySchema.safeParse(request.body ?? {});
+    if (!parsed.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: describeIssues(parsed.error) });
+    }
+
+    const installation = await installations.getInstallation(request.params.installationId);
+    if (!installation) {
+      return reply.status(404).send({ error: 'Installation not found' });
+    }
+    if (cursors.listCursors({ installationId: installation.id }).length > 0) {
+      return reply.status(409).send({ error: `Installation ${installation.id} is already polled` });
+    }
+
+    const start = initialCursorPosition(installation.sourceTool);
+    const cursor = cursors.createCursor({
+      companyGroupId: installation.companyGroupId,
+      sourceTool: installation.sourceTool,
+      installationId: installation.id,
+      position: parsed.data.since && start.positionType === 'timestamp'
+        ? new Date(parsed.data.since).toISOString()
+        : start.position,
+      positionType: start.positionType,
+    });
+
+    return reply.status(201).send({ cursor });
+  });
+
+  app.post('/api/cursors/:cursorId/pause', async (
+    request: FastifyRequest<{ Params: { cursorId: string } }>,
+    reply: FastifyReply
+  ) => {
+    if (!cursors.getCursor(request.params.cursorId)) {
+      return reply.status(404).send({ error: 'Cursor not found' });
+    }
+    return reply.send({ cursor: await scheduler.pauseCursor(request.params.cursorId) });
+  });
+
+  /**
+   * Resuming also clears the error streak of a cursor deactivated by errors
+   */
+  app.post('/api/cursors/:cursorId/resume', async (
+    request: FastifyRequest<{ Params: { cursorId: string } }>,
+    reply: FastifyReply
+  ) => {
+    if (!cursors.getCursor(request.params.cursorId)) {
+      return reply.status(404).send({ error: 'Cursor not found' });
+    }
+    return reply.send({ cursor: await scheduler.resumeCursor(request.params.cursorId) });
+  });
+}
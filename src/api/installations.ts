@@ -0,0 +1,164 @@
+/**
+ * Installations API
+ *
+ * Connect tool accounts (GitHub orgs and repos, Notion workspaces, Figma
+ * teams, Jira sites, ...) to a company group, and rotate their webhook
+ * secrets. Secrets and credentials are write-only: a webhook secret is
+ * returned once, when it is created or rotated, and never again.
+ */
+
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { SourceToolSchema } from '../types/core';
+import { InstallationAccountTypeSchema, IntegrationInstallation } from '../types/installations';
+import type { InstallationService } from '../services/installations';
+import { describeIssues } from './validation';
+
+const MAX_GRACE_PERIOD_HOURS = 7 * 24;
+
+const WebhookSecretSchema = z.string().min(16, 'Webhook secrets must be at least 16 characters');
+
+const InstallationBodySchema = z.object({
+  companyGroupId: z.string().uuid(),
+  sourceTool: SourceToolSchema,
+  accountType: InstallationAccountTypeSchema,
+  externalAccountId: z.string().min(1),
+  webhookIds: z.array(z.string().min(1)).optional(),
+  webhookSecret: WebhookSecretSchema.optional(),
+  credentials: z.record(z.string()).optional(),
+});
+
+const InstallationUpdateSchema = z.object({
+  webhookIds: z.array(z.string().min(1)).optional(),
+  credentials: z.record(z.string()).optional(),
+  isActive: z.boolean().optional(),
+});
+
+const RotateBodySchema = z.object({
+  webhookSecret: WebhookSecretSchema.optional(),
+  gracePeriodHours: z.number().min(0).max(MAX_GRACE_PERIOD_HOURS).optional(),
+});
+
+const GroupQuerySchema = z.object({
+  companyGroupId: z.string().uuid(),
+});
+
+export function registerInstallationRoutes(app: FastifyInstance, installations: InstallationService) {
+  /**
+   * Query: companyGroupId
+   */
+  app.get('/api/installations', async (
+    request: FastifyRequest<{ Querystring: Record<string, string> }>,
+    reply: FastifyReply
+  ) => {
+    const parsed = GroupQuerySchema.safeParse(request.query);
+    if (!parsed.success) {
+      return reply.status(400).send({ error: 'Invalid query', details: describeIssues(parsed.error) });
+    }
+
+    const list = await installations.listInstallations(parsed.data.companyGroupId);
+    return reply.send({ installations: list.map(publicInstallation) });
+  });
+
+  /**
+   * A webhook secret is generated when none is given
+   */
+  app.post('/api/installations', async (
+    request: FastifyRequest<{ Body: unknown }>,
+    reply: FastifyReply
+  ) => {
+    const parsed = InstallationBodySchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: describeIssues(parsed.error) });
+    }
+
+    let installation;
+    try {
+      installation = await installations.createInstallation(parsed.data);
+    } catch (error) {
+      return reply.status(409).send({ error: error instanceof Error ? error.message : String(error) });
+    }
+
+    return reply.status(201).send({
+      installation: publicInstallation(installation),
+      webhookSecret: installation.webhookSecret,
+    });
+  });
+
+  app.get('/api/installations/:installationId', async (
+    request: FastifyRequest<{ Params: { installationId: string } }>,
+    reply: FastifyReply
+  ) => {
+    const installation = await installations.getInstallation(request.params.installationId);
+    if (!installation) {
+      return reply.status(404).send({ error: 'Installation not found' });
+    }
+
+    return reply.send({ installation: publicInstallation(installation) });
+  });
+
+  app.patch('/api/installations/:installationId', async (
+    request: FastifyRequest<{ Params: { installationId: string }; Body: unknown }>,
+    reply: FastifyReply
+  ) => {
+    const parsed = InstallationUpdateSchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: describeIssues(parsed.error) });
+    }
+
+    const { installationId } = request.params;
+    if (!await installations.getInstallation(installationId)) {
+      return reply.status(404).send({ error: 'Installation not found' });
+    }
+
+    const installation = await installations.updateInstallation(installationId, parsed.data);
+    return reply.send({ installation: publicInstallation(installation) });
+  });
+
+  app.delete('/api/installations/:installationId', async (
+    request: FastifyRequest<{ Params: { installationId: string } }>,
+    reply: FastifyReply
+  ) => {
+    if (!await installations.deleteInstallation(request.params.installationId)) {
+      return reply.status(404).send({ error: 'Installation not found' });
+    }
+    return reply.status(204).send();
+  });
+
+  /**
+   * Replace the webhook secret; the old one keeps working for gracePeriodHours (default 24)
+   */
+  app.post('/api/installations/:installationId/rotate-secret', async (
+    request: FastifyRequest<{ Params: { installationId: string }; Body: unknown }>,
+    reply: FastifyReply
+  ) => {
+    const parsed = RotateBodySchema.safeParse(request.body ?? {});
+    if (!parsed.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: describeIssues(parsed.error) });
+    }
+
+    const { installationId } = request.params;
+    if (!await installations.getInstallation(installationId)) {
+      return reply.status(404).send({ error: 'Installation not found' });
+    }
+
+    const { webhookSecret, gracePeriodHours } = parsed.data;
+    const installation = await installations.rotateWebhookSecret(installationId, {
+      webhookSecret,
+      gracePeriodMs: gracePeriodHours !== undefined ? gracePeriodHours * 60 * 60 * 1000 : undefined,
+    });
+
+    return reply.send({
+      installation: publicInstallation(installation),
+      webhookSecret: installation.webhookSecret,
+    });
+  });
+}
+
+/**
+ * An installation without its secrets; credentials are listed by name only
+ */
+function publicInstallation(installation: IntegrationInstallation) {
+  const { webhookSecret, previousWebhookSecret, credentials, ...rest } = installation;
+  return { ...rest, credentialKeys: Object.keys(credentials) };
+}
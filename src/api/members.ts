@@ -0,0 +1,125 @@
+/**
+ * Members API
+ *
+ * Company group membership: list members, and let group admins change a
+ * member's roles or admin rights. Every role change is audited; the trail
+ * records who changed which roles.
+ *
+ * The server has no authentication yet, so the acting admin is whoever the
+ * body names in `changedBy`. Until requests carry an authenticated user the
+ * admin check is advisory: it catches mistakes, not impersonation.
+ */
+
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { RoleSchema } from '../types/core';
+import type { OnboardingService } from '../services/onboarding';
+import { describeIssues } from './validation';
+
+const SetRolesBodySchema = z.object({
+  roles: z.array(RoleSchema).min(1, 'At least one role is required'),
+  changedBy: z.string().min(1),
+});
+
+const SetAdminBodySchema = z.object({
+  isAdmin: z.boolean(),
+  changedBy: z.string().min(1),
+});
+
+const RoleChangeQuerySchema = z.object({
+  userId: z.string().optional(),
+});
+
+export function registerMemberRoutes(app: FastifyInstance, onboarding: OnboardingService) {
+  app.get('/api/company-groups/:groupId/members', async (
+    request: FastifyRequest<{ Params: { groupId: string } }>,
+    reply: FastifyReply
+  ) => {
+    if (!(await onboarding.getCompanyGroup(request.params.groupId))) {
+      return reply.status(404).send({ error: 'Company group not found' });
+    }
+    const members = await onboarding.listMembers(request.params.groupId);
+    return reply.send({ members });
+  });
+
+  /**
+   * Replace a member's roles; channels for new roles are created
+   * Admins only, checked against the unauthenticated `changedBy`.
+   */
+  app.put('/api/company-groups/:groupId/members/:userId/roles', async (
+    request: FastifyRequest<{ Params: { groupId: string; userId: string }; Body: unknown }>,
+    reply: FastifyReply
+  ) => {
+    const parsed = SetRolesBodySchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: describeIssues(parsed.error) });
+    }
+
+    try {
+      const member = await onboarding.setMemberRoles(
+        request.params.groupId,
+        request.params.userId,
+        parsed.data.roles,
+        parsed.data.changedBy
+      );
+      return reply.send({ member });
+    } catch (error) {
+      return sendMembershipError(reply, error);
+    }
+  });
+
+  /**
+   * Grant or revoke admin rights
+   * Admins only, checked against the unauthenticated `changedBy`.
+   */
+  app.put('/api/company-groups/:groupId/members/:userId/admin', async (
+    request: FastifyRequest<{ Params: { groupId: string; userId: string }; Body: unknown }>,
+    reply: FastifyReply
+  ) => {
+    const parsed = SetAdminBodySchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: describeIssues(parsed.error) });
+    }
+
+    try {
+      const member = await onboarding.setAdmin(
+        request.params.groupId,
+        request.params.userId,
+        parsed.data.isAdmin,
+        parsed.data.changedBy
+      );
+      return reply.send({ member });
+    } catch (error) {
+      return sendMembershipError(reply, error);
+    }
+  });
+
+  /**
+   * Role change audit trail, oldest first
+   * Query: userId
+   */
+  app.get('/api/company-groups/:groupId/role-changes', async (
+    request: FastifyRequest<{ Params: { groupId: string }; Querystring: Record<string, string> }>,
+    reply: FastifyReply
+  ) => {
+    const parsed = RoleChangeQuerySchema.safeParse(request.query);
+    if (!parsed.success) {
+      return reply.status(400).send({ error: 'Invalid query', details: describeIssues(parsed.error) });
+    }
+
+    const roleChanges = await onboarding.getRoleChanges(request.params.groupId, parsed.data.userId);
+    return reply.send({ roleChanges });
+  });
+}
+
+function sendMembershipError(reply: FastifyReply, error: unknown) {
+  const message = error instanceof Error ? error.message : String(error);
+  if (message.startsWith('Only group admins')) {
+    return reply.status(403).send({ error: message });
+  }
+  if (message.startsWith('Member not found')) {
+    return reply.status(404).send({ error: 'Member not found' });
+  }
+  // Removing the last admin
+  return reply.status(409).send({ error: message });
+}
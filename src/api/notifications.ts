@@ -0,0 +1,246 @@
+/**
+ * Notifications API
+ *
+ * The approval queue: list pending notifications, approve or reject them
+ * one at a time or in bulk, and inspect a notification's status history.
+ *
+ * Single approvals/rejections accept the version the approver was looking
+ * at; acting on a notification someone else already handled returns 409.
+ * Users read what was fanned out to them from their inbox.
+ *
+ * When approval sends, an approved notification is delivered right away;
+ * one that fails to deliver stays approved and the reply carries the error.
+ */
+
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { RoleSchema } from '../types/core';
+import type { Notification } from '../types/core';
+import type { NotificationService } from '../services/notification';
+import { logger } from '../utils/logger';
+import { describeIssues } from './validation';
+
+const MINUTE_MS = 60 * 1000;
+
+const ApprovalQueueQuerySchema = z.object({
+  channelId: z.string().optional(),
+  role: RoleSchema.optional(),
+  minAgeMinutes: z.coerce.number().min(0).optional(),
+  maxAgeMinutes: z.coerce.number().min(0).optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+const ApproveBodySchema = z.object({
+  approvedBy: z.string().uuid(),
+  expectedVersion: z.number().int().min(1).optional(),
+});
+
+const RejectBodySchema = z.object({
+  rejectedBy: z.string().uuid(),
+  reason: z.string().optional(),
+  expectedVersion: z.number().int().min(1).optional(),
+});
+
+const BulkIdsSchema = z.array(z.string()).min(1).max(200);
+
+const InboxQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export interface NotificationRouteOptions {
+  /**
+   * Send notifications as soon as they are approved
+   */
+  sendOnApprove?: boolean;
+}
+
+export function registerNotificationRoutes(
+  app: FastifyInstance,
+  notifications: NotificationService,
+  options: NotificationRouteOptions = {}
+) {
+  /**
+   * Send a just-approved notification, returning it as it is afterwards
+   */
+  const send = async (approved: Notification): Promise<{ notification: Notification; sendError?: string }> => {
+    if (!options.sendOnApprove) {
+      return { notification: approved };
+    }
+
+    try {
+      await notifications.sendNotification(approved.id);
+    } catch (error) {
+      const sendError = error instanceof Error ? error.message : String(error);
+      logger.warn(`Approved notification was not sent`, { notificationId: approved.id, error: sendError });
+      return { notification: (await notifications.getNotification(approved.id)) ?? approved, sendError };
+    }
+    return { notification: (await notifications.getNotification(approved.id)) ?? approved };
+  };
+
+  /**
+   * Pending notifications awaiting approval, oldest first
+   * Query: channelId, role, minAgeMinutes, maxAgeMinutes, limit, offset
+   */
+  app.get('/api/notifications/queue', async (
+    request: FastifyRequest<{ Querystring: Record<string, string> }>,
+    reply: FastifyReply
+  ) => {
+    const parsed = ApprovalQueueQuerySchema.safeParse(request.query);
+    if (!parsed.success) {
+      return reply.status(400).send({ error: 'Invalid query', details: describeIssues(parsed.error) });
+    }
+
+    const query = parsed.data;
+    const now = Date.now();
+    const queue = await notifications.getApprovalQueue({
+      channelId: query.channelId,
+      role: query.role,
+      olderThan: query.minAgeMinutes !== undefined ? new Date(now - query.minAgeMinutes * MINUTE_MS) : undefined,
+      newerThan: query.maxAgeMinutes !== undefined ? new Date(now - query.maxAgeMinutes * MINUTE_MS) : undefined,
+      limit: query.limit,
+      offset: query.offset,
+    });
+
+    return reply.send({ notifications: queue });
+  });
+
+  /**
+   * A user's inbox, newest first; notifications held by quiet hours appear once they end
+   * Query: limit, offset
+   */
+  app.get('/api/users/:userId/notifications', async (
+    request: FastifyRequest<{ Params: { userId: string }; Querystring: Record<string, string> }>,
+    reply: FastifyReply
+  ) => {
+    const parsed = InboxQuerySchema.safeParse(request.query);
+    if (!parsed.success) {
+      return reply.status(400).send({ error: 'Invalid query', details: describeIssues(parsed.error) });
+    }
+
+    return reply.send({ notifications: await notifications.getUserNotifications(request.params.userId, parsed.data) });
+  });
+
+  /**
+   * Get a notification with its status history
+   */
+  app.get('/api/notifications/:notificationId', async (
+    request: FastifyRequest<{ Params: { notificationId: string } }>,
+    reply: FastifyReply
+  ) => {
+    const { notificationId } = request.params;
+    const notification = await notifications.getNotification(notificationId);
+    if (!notification) {
+      return reply.status(404).send({ error: 'Notification not found' });
+    }
+
+    return reply.send({
+      notification,
+      history: await notifications.getStatusHistory(notificationId),
+    });
+  });
+
+  app.post('/api/notifications/:notificationId/approve', async (
+    request: FastifyRequest<{ Params: { notificationId: string }; Body: unknown }>,
+    reply: FastifyReply
+  ) => {
+    const parsed = ApproveBodySchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: describeIssues(parsed.error) });
+    }
+
+    const { notificationId } = request.params;
+    if (!await notifications.getNotification(notificationId)) {
+      return reply.status(404).send({ error: 'Notification not found' });
+    }
+
+    try {
+      const notification = await notifications.approveNotification(
+        notificationId,
+        parsed.data.approvedBy,
+        parsed.data.expectedVersion
+      );
+      return reply.send(await send(notification));
+    } catch (error) {
+      return reply.status(409).send({ error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  app.post('/api/notifications/:notificationId/reject', async (
+    request: FastifyRequest<{ Params: { notificationId: string }; Body: unknown }>,
+    reply: FastifyReply
+  ) => {
+    const parsed = RejectBodySchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: describeIssues(parsed.error) });
+    }
+
+    const { notificationId } = request.params;
+    if (!await notifications.getNotification(notificationId)) {
+      return reply.status(404).send({ error: 'Notification not found' });
+    }
+
+    try {
+      const notification = await notifications.rejectNotification(
+        notificationId,
+        parsed.data.rejectedBy,
+        parsed.data.reason,
+        parsed.data.expectedVersion
+      );
+      return reply.send({ notification });
+    } catch (error) {
+      return reply.status(409).send({ error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  /**
+   * Bulk approve; notifications that can't be approved are reported in `failed`,
+   * approved ones that could not be sent in `sendErrors`
+   */
+  app.post('/api/notifications/bulk/approve', async (
+    request: FastifyRequest<{ Body: unknown }>,
+    reply: FastifyReply
+  ) => {
+    const parsed = z.object({ notificationIds: BulkIdsSchema, approvedBy: z.string().uuid() }).safeParse(request.body);
+    if (!parsed.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: describeIssues(parsed.error) });
+    }
+
+    const result = await notifications.bulkApprove(parsed.data.notificationIds, parsed.data.approvedBy);
+    const succeeded = [];
+    const sendErrors = [];
+    for (const approved of result.succeeded) {
+      const sent = await send(approved);
+      succeeded.push(sent.notification);
+      if (sent.sendError) {
+        sendErrors.push({ notificationId: approved.id, error: sent.sendError });
+      }
+    }
+
+    return reply.send({ ...result, succeeded, ...(options.sendOnApprove ? { sendErrors } : {}) });
+  });
+
+  /**
+   * Bulk reject; notifications that can't be rejected are reported in `failed`
+   */
+  app.post('/api/notifications/bulk/reject', async (
+    request: FastifyRequest<{ Body: unknown }>,
+    reply: FastifyReply
+  ) => {
+    const parsed = z.object({
+      notificationIds: BulkIdsSchema,
+      rejectedBy: z.string().uuid(),
+      reason: z.string().optional(),
+    }).safeParse(request.body);
+    if (!parsed.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: describeIssues(parsed.error) });
+    }
+
+    return reply.send(await notifications.bulkReject(
+      parsed.data.notificationIds,
+      parsed.data.rejectedBy,
+      parsed.data.reason
+    ));
+  });
+}
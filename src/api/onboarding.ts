@@ -0,0 +1,177 @@
+/**
+ * Onboarding API
+ *
+ * First-time setup: a user picks a display name and roles, and creates a
+ * company group or joins one with an invite. Creating a group also creates
+ * its default channels.
+ *
+ * Group admins create invites; an invite's code can be shared as a link.
+ */
+
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { RoleSchema } from '../types/core';
+import { isInviteUsable, OnboardingService } from '../services/onboarding';
+import type { GroupInvite } from '../db/user-repository';
+import { describeIssues } from './validation';
+
+const HOUR = 60 * 60 * 1000;
+
+const OnboardingBodySchema = z.object({
+  displayName: z.string().trim().min(1, 'Display name is required').max(100),
+  roles: z.array(RoleSchema).min(1, 'At least one role is required'),
+  companyGroupName: z.string().trim().min(1).max(200).optional(),
+  isCreatingNewGroup: z.boolean().default(false),
+  inviteCode: z.string().min(1).optional(),
+}).refine(body => !body.isCreatingNewGroup || body.companyGroupName, {
+  message: 'A new company group needs a name',
+  path: ['companyGroupName'],
+});
+
+const CreateInviteBodySchema = z.object({
+  createdBy: z.string().min(1),
+  maxUses: z.number().int().positive().optional(),
+  expiresInHours: z.number().positive().max(24 * 90).optional(),
+});
+
+const RevokeInviteBodySchema = z.object({
+  revokedBy: z.string().min(1),
+});
+
+const AcceptInviteBodySchema = z.object({
+  userId: z.string().min(1),
+});
+
+export interface OnboardingRouteOptions {
+  /**
+   * Invite links are `${inviteBaseUrl}/<code>`; only codes are returned when omitted
+   */
+  inviteBaseUrl?: string;
+}
+
+export function registerOnboardingRoutes(
+  app: FastifyInstance,
+  onboarding: OnboardingService,
+  options: OnboardingRouteOptions = {}
+) {
+  const withLink = (invite: GroupInvite) => ({
+    invite,
+    link: options.inviteBaseUrl ? `${options.inviteBaseUrl.replace(/\/$/, '')}/${invite.code}` : undefined,
+  });
+
+  /**
+   * Without a group to create or join, the user gets a group of their own
+   */
+  app.post('/api/onboarding/complete', async (
+    request: FastifyRequest<{ Body: unknown }>,
+    reply: FastifyReply
+  ) => {
+    const parsed = OnboardingBodySchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: describeIssues(parsed.error) });
+    }
+
+    try {
+      const result = await onboarding.completeOnboarding(parsed.data);
+      return reply.status(201).send(result);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (message.startsWith('Invite not found')) {
+        return reply.status(404).send({ error: 'Invite not found' });
+      }
+      // Slug already taken, or the invite expired or was used up
+      return reply.status(409).send({ error: message });
+    }
+  });
+
+  app.post('/api/company-groups/:groupId/invites', async (
+    request: FastifyRequest<{ Params: { groupId: string }; Body: unknown }>,
+    reply: FastifyReply
+  ) => {
+    const parsed = CreateInviteBodySchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: describeIssues(parsed.error) });
+    }
+    if (!(await onboarding.getCompanyGroup(request.params.groupId))) {
+      return reply.status(404).send({ error: 'Company group not found' });
+    }
+
+    try {
+      const invite = await onboarding.createInvite(request.params.groupId, parsed.data.createdBy, {
+        maxUses: parsed.data.maxUses,
+        expiresInMs: parsed.data.expiresInHours !== undefined ? parsed.data.expiresInHours * HOUR : undefined,
+      });
+      return reply.status(201).send(withLink(invite));
+    } catch (error) {
+      return reply.status(403).send({ error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  /**
+   * What an invite link shows before the user accepts it
+   */
+  app.get('/api/invites/:code', async (
+    request: FastifyRequest<{ Params: { code: string } }>,
+    reply: FastifyReply
+  ) => {
+    const invite = await onboarding.getInvite(request.params.code);
+    const companyGroup = invite && await onboarding.getCompanyGroup(invite.companyGroupId);
+    if (!invite || !companyGroup) {
+      return reply.status(404).send({ error: 'Invite not found' });
+    }
+
+    return reply.send({
+      companyGroup: { id: companyGroup.id, name: companyGroup.name, slug: companyGroup.slug },
+      expiresAt: invite.expiresAt,
+      valid: isInviteUsable(invite),
+    });
+  });
+
+  app.post('/api/invites/:code/revoke', async (
+    request: FastifyRequest<{ Params: { code: string }; Body: unknown }>,
+    reply: FastifyReply
+  ) => {
+    const parsed = RevokeInviteBodySchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: describeIssues(parsed.error) });
+    }
+
+    try {
+      const invite = await onboarding.revokeInvite(request.params.code, parsed.data.revokedBy);
+      return reply.send({ invite });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (message.startsWith('Invite not found')) {
+        return reply.status(404).send({ error: 'Invite not found' });
+      }
+      return reply.status(403).send({ error: message });
+    }
+  });
+
+  /**
+   * An onboarded user moves to the invite's group
+   */
+  app.post('/api/invites/:code/accept', async (
+    request: FastifyRequest<{ Params: { code: string }; Body: unknown }>,
+    reply: FastifyReply
+  ) => {
+    const parsed = AcceptInviteBodySchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: describeIssues(parsed.error) });
+    }
+
+    try {
+      const member = await onboarding.joinCompanyGroup(parsed.data.userId, request.params.code);
+      return reply.send({ member });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (message.startsWith('Invite not found')) {
+        return reply.status(404).send({ error: 'Invite not found' });
+      }
+      if (message.startsWith('User not found')) {
+        return reply.status(404).send({ error: 'User not found' });
+      }
+      return reply.status(409).send({ error: message });
+    }
+  });
+}
@@ -0,0 +1,188 @@
+/**
+ * Ownership API
+ *
+ * Edit the ownership registry of a company group: manual path rules,
+ * owner → role/team mappings and CODEOWNERS imports. The resolve endpoint
+ * explains which roles, teams and components a set of paths maps to.
+ */
+
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { RoleSchema } from '../types/core';
+import type { OwnershipService } from '../services/ownership';
+import { describeIssues } from './validation';
+
+const RuleBodySchema = z.object({
+  companyGroupId: z.string().uuid(),
+  repository: z.string().min(1).optional(),
+  pattern: z.string().min(1),
+  component: z.string().min(1).optional(),
+  roles: z.array(RoleSchema).default([]),
+  teams: z.array(z.string().min(1)).default([]),
+}).refine(rule => rule.roles.length > 0 || rule.teams.length > 0, {
+  message: 'A rule needs at least one role or team',
+});
+
+const RuleUpdateSchema = z.object({
+  repository: z.string().min(1).optional(),
+  pattern: z.string().min(1).optional(),
+  component: z.string().min(1).optional(),
+  roles: z.array(RoleSchema).optional(),
+  teams: z.array(z.string().min(1)).optional(),
+});
+
+const OwnerMappingBodySchema = z.object({
+  companyGroupId: z.string().uuid(),
+  owner: z.string().min(1),
+  roles: z.array(RoleSchema).default([]),
+  teams: z.array(z.string().min(1)).default([]),
+});
+
+const CodeOwnersBodySchema = z.object({
+  companyGroupId: z.string().uuid(),
+  repository: z.string().regex(/^[^/\s]+\/[^\s]+$/, 'Repository must be "owner/repo"'),
+  content: z.string(),
+});
+
+const GroupQuerySchema = z.object({
+  companyGroupId: z.string().uuid(),
+});
+
+const ResolveQuerySchema = z.object({
+  companyGroupId: z.string().uuid(),
+  repository: z.string().optional(),
+  path: z.union([z.string(), z.array(z.string())]).transform(path => (Array.isArray(path) ? path : [path])),
+});
+
+export function registerOwnershipRoutes(app: FastifyInstance, ownership: OwnershipService) {
+  /**
+   * Manual rules and owner mappings of a company group
+   * Query: companyGroupId
+   */
+  app.get('/api/ownership', async (
+    request: FastifyRequest<{ Querystring: Record<string, string> }>,
+    reply: FastifyReply
+  ) => {
+    const parsed = GroupQuerySchema.safeParse(request.query);
+    if (!parsed.success) {
+      return reply.status(400).send({ error: 'Invalid query', details: describeIssues(parsed.error) });
+    }
+
+    const { companyGroupId } = parsed.data;
+    return reply.send({
+      rules: await ownership.listRules(companyGroupId),
+      owners: await ownership.listOwnerMappings(companyGroupId),
+    });
+  });
+
+  app.post('/api/ownership/rules', async (
+    request: FastifyRequest<{ Body: unknown }>,
+    reply: FastifyReply
+  ) => {
+    const parsed = RuleBodySchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: describeIssues(parsed.error) });
+    }
+
+    return reply.status(201).send({ rule: await ownership.createRule(parsed.data) });
+  });
+
+  app.patch('/api/ownership/rules/:ruleId', async (
+    request: FastifyRequest<{ Params: { ruleId: string }; Body: unknown }>,
+    reply: FastifyReply
+  ) => {
+    const parsed = RuleUpdateSchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: describeIssues(parsed.error) });
+    }
+
+    try {
+      return reply.send({ rule: await ownership.updateRule(request.params.ruleId, parsed.data) });
+    } catch (error) {
+      if (error instanceof Error && error.message.startsWith('Ownership rule not found')) {
+        return reply.status(404).send({ error: 'Ownership rule not found' });
+      }
+      throw error;
+    }
+  });
+
+  app.delete('/api/ownership/rules/:ruleId', async (
+    request: FastifyRequest<{ Params: { ruleId: string } }>,
+    reply: FastifyReply
+  ) => {
+    if (!await ownership.deleteRule(request.params.ruleId)) {
+      return reply.status(404).send({ error: 'Ownership rule not found' });
+    }
+    return reply.status(204).send();
+  });
+
+  /**
+   * Set the roles and teams of a CODEOWNERS owner or commit author ("@acme/payments", "alice")
+   */
+  app.put('/api/ownership/owners', async (
+    request: FastifyRequest<{ Body: unknown }>,
+    reply: FastifyReply
+  ) => {
+    const parsed = OwnerMappingBodySchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: describeIssues(parsed.error) });
+    }
+
+    const { companyGroupId, owner, roles, teams } = parsed.data;
+    return reply.send({ owner: await ownership.setOwnerMapping(companyGroupId, owner, { roles, teams }) });
+  });
+
+  /**
+   * Query: companyGroupId, owner
+   */
+  app.delete('/api/ownership/owners', async (
+    request: FastifyRequest<{ Querystring: Record<string, string> }>,
+    reply: FastifyReply
+  ) => {
+    const parsed = GroupQuerySchema.extend({ owner: z.string().min(1) }).safeParse(request.query);
+    if (!parsed.success) {
+      return reply.status(400).send({ error: 'Invalid query', details: describeIssues(parsed.error) });
+    }
+
+    if (!await ownership.deleteOwnerMapping(parsed.data.companyGroupId, parsed.data.owner)) {
+      return reply.status(404).send({ error: 'Owner mapping not found' });
+    }
+    return reply.status(204).send();
+  });
+
+  /**
+   * Replace a repository's CODEOWNERS with the given file content
+   */
+  app.put('/api/ownership/codeowners', async (
+    request: FastifyRequest<{ Body: unknown }>,
+    reply: FastifyReply
+  ) => {
+    const parsed = CodeOwnersBodySchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: describeIssues(parsed.error) });
+    }
+
+    const { companyGroupId, repository, content } = parsed.data;
+    return reply.send({
+      repository,
+      entries: await ownership.importCodeOwners(companyGroupId, repository, content),
+    });
+  });
+
+  /**
+   * Explain who owns a set of paths
+   * Query: companyGroupId, repository, path (repeatable)
+   */
+  app.get('/api/ownership/resolve', async (
+    request: FastifyRequest<{ Querystring: Record<string, string | string[]> }>,
+    reply: FastifyReply
+  ) => {
+    const parsed = ResolveQuerySchema.safeParse(request.query);
+    if (!parsed.success) {
+      return reply.status(400).send({ error: 'Invalid query', details: describeIssues(parsed.error) });
+    }
+
+    const { companyGroupId, repository, path } = parsed.data;
+    return reply.send(await ownership.resolve(companyGroupId, repository, path));
+  });
+}
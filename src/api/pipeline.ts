@@ -0,0 +1,80 @@
+/**
+ * Pipeline API
+ *
+ * Inspect the jobs waiting between pipeline stages and the ones that failed
+ * on every attempt, and replay change events through interpretation,
+ * routing or proposals. Replays are queued; the worker picks them up on its
+ * next tick. Replayed routing only notifies channels that were not notified yet.
+ */
+
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import type { PipelineWorker } from '../services/pipeline-worker';
+import { describeIssues } from './validation';
+
+const DeadLetterQuerySchema = z.object({
+  changeEventId: z.string().optional(),
+  includeReplayed: z.enum(['true', 'false']).default('false'),
+});
+
+const ReplayBodySchema = z.object({
+  stage: z.enum(['interpret', 'route', 'propose']).default('interpret'),
+});
+
+export function registerPipelineRoutes(app: FastifyInstance, worker: PipelineWorker) {
+  /**
+   * Failed jobs, oldest first
+   * Query: changeEventId, includeReplayed (default false)
+   */
+  app.get('/api/pipeline/dead-letters', async (
+    request: FastifyRequest<{ Querystring: Record<string, string> }>,
+    reply: FastifyReply
+  ) => {
+    const parsed = DeadLetterQuerySchema.safeParse(request.query);
+    if (!parsed.success) {
+      return reply.status(400).send({ error: 'Invalid query', details: describeIssues(parsed.error) });
+    }
+
+    const deadLetters = await worker.listDeadLetters({
+      changeEventId: parsed.data.changeEventId,
+      unreplayedOnly: parsed.data.includeReplayed === 'false',
+    });
+    return reply.send({ deadLetters });
+  });
+
+  app.post('/api/pipeline/dead-letters/:deadLetterId/retry', async (
+    request: FastifyRequest<{ Params: { deadLetterId: string } }>,
+    reply: FastifyReply
+  ) => {
+    try {
+      const job = await worker.retryDeadLetter(request.params.deadLetterId);
+      return reply.status(202).send({ job });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (message.startsWith('Dead letter not found')) {
+        return reply.status(404).send({ error: 'Dead letter not found' });
+      }
+      return reply.status(409).send({ error: message });
+    }
+  });
+
+  /**
+   * Run a change event again from interpretation (default), routing or proposals
+   */
+  app.post('/api/change-events/:changeEventId/replay', async (
+    request: FastifyRequest<{ Params: { changeEventId: string }; Body: unknown }>,
+    reply: FastifyReply
+  ) => {
+    const parsed = ReplayBodySchema.safeParse(request.body ?? {});
+    if (!parsed.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: describeIssues(parsed.error) });
+    }
+
+    try {
+      const job = await worker.replayChangeEvent(request.params.changeEventId, parsed.data.stage);
+      return reply.status(202).send({ job });
+    } catch {
+      return reply.status(404).send({ error: 'Change event not found' });
+    }
+  });
+}
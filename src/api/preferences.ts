@@ -0,0 +1,123 @@
+/**
+ * Notification Preferences API
+ *
+ * Read and edit a user's notification preferences (mutes, minimum
+ * classification, quiet hours) and the resources they follow. Preferences
+ * narrow what the user's role channels send them; they can't widen it.
+ */
+
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import {
+  ChangeClassificationSchema,
+  FollowedResourceSchema,
+  QuietHoursSchema,
+  SourceToolSchema,
+} from '../types/core';
+import type { NotificationPreferenceService } from '../services/notification-preferences';
+import { describeIssues } from './validation';
+
+const GroupQuerySchema = z.object({
+  companyGroupId: z.string().uuid(),
+});
+
+const PreferencesBodySchema = z.object({
+  companyGroupId: z.string().uuid(),
+  mutedRepositories: z.array(z.string().regex(/^[^/\s]+\/[^\s]+$/, 'Repository must be "owner/repo"')).optional(),
+  mutedComponents: z.array(z.string().min(1)).optional(),
+  mutedTools: z.array(SourceToolSchema).optional(),
+  minimumClassification: ChangeClassificationSchema.nullable().optional(),
+  quietHours: QuietHoursSchema.nullable().optional(),
+});
+
+const FollowBodySchema = FollowedResourceSchema.extend({
+  companyGroupId: z.string().uuid(),
+});
+
+const UnfollowQuerySchema = FollowedResourceSchema.extend({
+  companyGroupId: z.string().uuid(),
+});
+
+export function registerPreferenceRoutes(app: FastifyInstance, preferences: NotificationPreferenceService) {
+  /**
+   * Query: companyGroupId
+   */
+  app.get('/api/users/:userId/preferences', async (
+    request: FastifyRequest<{ Params: { userId: string }; Querystring: Record<string, string> }>,
+    reply: FastifyReply
+  ) => {
+    const parsed = GroupQuerySchema.safeParse(request.query);
+    if (!parsed.success) {
+      return reply.status(400).send({ error: 'Invalid query', details: describeIssues(parsed.error) });
+    }
+
+    try {
+      return reply.send({ preferences: await preferences.getPreferences(request.params.userId, parsed.data.companyGroupId) });
+    } catch (error) {
+      return reply.status(409).send({ error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  /**
+   * Update the given fields; null clears minimumClassification or quietHours
+   */
+  app.put('/api/users/:userId/preferences', async (
+    request: FastifyRequest<{ Params: { userId: string }; Body: unknown }>,
+    reply: FastifyReply
+  ) => {
+    const parsed = PreferencesBodySchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: describeIssues(parsed.error) });
+    }
+
+    const { companyGroupId, ...update } = parsed.data;
+    try {
+      return reply.send({
+        preferences: await preferences.updatePreferences(request.params.userId, companyGroupId, update),
+      });
+    } catch (error) {
+      return reply.status(409).send({ error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  app.post('/api/users/:userId/follows', async (
+    request: FastifyRequest<{ Params: { userId: string }; Body: unknown }>,
+    reply: FastifyReply
+  ) => {
+    const parsed = FollowBodySchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: describeIssues(parsed.error) });
+    }
+
+    const { companyGroupId, ...resource } = parsed.data;
+    try {
+      return reply.status(201).send({
+        preferences: await preferences.follow(request.params.userId, companyGroupId, resource),
+      });
+    } catch (error) {
+      return reply.status(409).send({ error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  /**
+   * Query: companyGroupId, tool, resourceId
+   */
+  app.delete('/api/users/:userId/follows', async (
+    request: FastifyRequest<{ Params: { userId: string }; Querystring: Record<string, string> }>,
+    reply: FastifyReply
+  ) => {
+    const parsed = UnfollowQuerySchema.safeParse(request.query);
+    if (!parsed.success) {
+      return reply.status(400).send({ error: 'Invalid query', details: describeIssues(parsed.error) });
+    }
+
+    const { userId } = request.params;
+    const { companyGroupId, ...resource } = parsed.data;
+    const current = await preferences.getPreferences(userId, companyGroupId).catch(() => null);
+    if (!current?.follows.some(follow => follow.tool === resource.tool && follow.resourceId === resource.resourceId)) {
+      return reply.status(404).send({ error: 'Follow not found' });
+    }
+
+    return reply.send({ preferences: await preferences.unfollow(userId, companyGroupId, resource) });
+  });
+}
@@ -0,0 +1,126 @@
+/**
+ * Proposals API
+ *
+ * Review engineering proposals generated for code changes: list them,
+ * approve (which applies them to their target), reject, or retry applying
+ * an approved proposal whose first attempt failed.
+ */
+
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { CodeChangeProposalSchema } from '../types/code-changes';
+import type { CodeChangeProposalService } from '../services/proposals';
+import { describeIssues } from './validation';
+
+const ProposalQuerySchema = z.object({
+  changeEventId: z.string().optional(),
+  status: CodeChangeProposalSchema.shape.status.optional(),
+  type: CodeChangeProposalSchema.shape.type.optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+const ApproveBodySchema = z.object({
+  approvedBy: z.string().uuid(),
+});
+
+const RejectBodySchema = z.object({
+  rejectedBy: z.string().uuid(),
+  reason: z.string().optional(),
+});
+
+export function registerProposalRoutes(app: FastifyInstance, proposals: CodeChangeProposalService) {
+  /**
+   * List proposals, oldest first
+   * Query: changeEventId, status, type, limit, offset
+   */
+  app.get('/api/proposals', async (
+    request: FastifyRequest<{ Querystring: Record<string, string> }>,
+    reply: FastifyReply
+  ) => {
+    const parsed = ProposalQuerySchema.safeParse(request.query);
+    if (!parsed.success) {
+      return reply.status(400).send({ error: 'Invalid query', details: describeIssues(parsed.error) });
+    }
+
+    return reply.send({ proposals: await proposals.listProposals(parsed.data) });
+  });
+
+  app.get('/api/proposals/:proposalId', async (
+    request: FastifyRequest<{ Params: { proposalId: string } }>,
+    reply: FastifyReply
+  ) => {
+    const proposal = await proposals.getProposal(request.params.proposalId);
+    if (!proposal) {
+      return reply.status(404).send({ error: 'Proposal not found' });
+    }
+
+    return reply.send({ proposal });
+  });
+
+  /**
+   * Approve and apply; a failed apply still returns 200 with lastApplyError set
+   */
+  app.post('/api/proposals/:proposalId/approve', async (
+    request: FastifyRequest<{ Params: { proposalId: string }; Body: unknown }>,
+    reply: FastifyReply
+  ) => {
+    const parsed = ApproveBodySchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: describeIssues(parsed.error) });
+    }
+
+    const { proposalId } = request.params;
+    if (!await proposals.getProposal(proposalId)) {
+      return reply.status(404).send({ error: 'Proposal not found' });
+    }
+
+    try {
+      return reply.send({ proposal: await proposals.approveProposal(proposalId, parsed.data.approvedBy) });
+    } catch (error) {
+      return reply.status(409).send({ error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  app.post('/api/proposals/:proposalId/reject', async (
+    request: FastifyRequest<{ Params: { proposalId: string }; Body: unknown }>,
+    reply: FastifyReply
+  ) => {
+    const parsed = RejectBodySchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: describeIssues(parsed.error) });
+    }
+
+    const { proposalId } = request.params;
+    if (!await proposals.getProposal(proposalId)) {
+      return reply.status(404).send({ error: 'Proposal not found' });
+    }
+
+    try {
+      return reply.send({
+        proposal: await proposals.rejectProposal(proposalId, parsed.data.rejectedBy, parsed.data.reason),
+      });
+    } catch (error) {
+      return reply.status(409).send({ error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  /**
+   * Retry applying an approved proposal
+   */
+  app.post('/api/proposals/:proposalId/apply', async (
+    request: FastifyRequest<{ Params: { proposalId: string } }>,
+    reply: FastifyReply
+  ) => {
+    const { proposalId } = request.params;
+    if (!await proposals.getProposal(proposalId)) {
+      return reply.status(404).send({ error: 'Proposal not found' });
+    }
+
+    try {
+      return reply.send({ proposal: await proposals.applyProposal(proposalId) });
+    } catch (error) {
+      return reply.status(409).send({ error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+}
@@ -0,0 +1,75 @@
+/**
+ * Release Notes API
+ *
+ * Compile release notes for a repository from a tag range (fromTag, toTag)
+ * or a date range (since, until). Returns every audience as JSON, or one
+ * audience as Markdown or HTML when `format` is given.
+ */
+
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import type { ReleaseNotesService, ReleaseRange } from '../services/release-notes';
+import { describeIssues } from './validation';
+
+const ReleaseNotesQuerySchema = z.object({
+  companyGroupId: z.string().uuid(),
+  repository: z.string().regex(/^[^/\s]+\/[^\s]+$/, 'Repository must be "owner/repo"'),
+  fromTag: z.string().min(1).optional(),
+  toTag: z.string().min(1).optional(),
+  since: z.coerce.date().optional(),
+  until: z.coerce.date().optional(),
+  title: z.string().min(1).optional(),
+  audience: z.enum(['engineering', 'customer', 'executive']).optional(),
+  format: z.enum(['markdown', 'html']).optional(),
+}).refine(query => Boolean(query.fromTag && query.toTag) !== Boolean(query.since && query.until), {
+  message: 'Give either fromTag and toTag, or since and until',
+}).refine(query => !query.format || query.audience, {
+  message: 'format needs an audience',
+  path: ['audience'],
+});
+
+const CONTENT_TYPES = {
+  markdown: 'text/markdown; charset=utf-8',
+  html: 'text/html; charset=utf-8',
+};
+
+export function registerReleaseNotesRoutes(app: FastifyInstance, releaseNotes: ReleaseNotesService) {
+  /**
+   * Query: companyGroupId, repository, fromTag + toTag or since + until, title,
+   * audience, format (markdown | html)
+   */
+  app.get('/api/release-notes', async (
+    request: FastifyRequest<{ Querystring: Record<string, string> }>,
+    reply: FastifyReply
+  ) => {
+    const parsed = ReleaseNotesQuerySchema.safeParse(request.query);
+    if (!parsed.success) {
+      return reply.status(400).send({ error: 'Invalid query', details: describeIssues(parsed.error) });
+    }
+
+    const query = parsed.data;
+    const range: ReleaseRange = query.fromTag && query.toTag
+      ? { fromTag: query.fromTag, toTag: query.toTag }
+      : { since: query.since!, until: query.until! };
+
+    let notes;
+    try {
+      notes = await releaseNotes.compileReleaseNotes({
+        companyGroupId: query.companyGroupId,
+        repository: query.repository,
+        range,
+        title: query.title,
+      });
+    } catch (error) {
+      return reply.status(400).send({ error: error instanceof Error ? error.message : String(error) });
+    }
+
+    if (query.audience && query.format) {
+      return reply.type(CONTENT_TYPES[query.format]).send(notes.audiences[query.audience][query.format]);
+    }
+    if (query.audience) {
+      return reply.send({ releaseNotes: { ...notes, audiences: { [query.audience]: notes.audiences[query.audience] } } });
+    }
+    return reply.send({ releaseNotes: notes });
+  });
+}
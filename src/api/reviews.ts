@@ -0,0 +1,117 @@
+/**
+ * Interpretation Review API
+ *
+ * The triage queue for low-confidence interpretations: list held changes,
+ * resolve one with corrected classification, intent and affected roles (it
+ * is then routed, and the notifications still wait for approval), or dismiss
+ * it so nobody is notified.
+ */
+
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { ChangeClassificationSchema, ChangeIntentSchema, RoleSchema } from '../types/core';
+import type { InterpretationReviewService } from '../services/interpretation-review';
+import type { OrchestrationService } from '../services/orchestration';
+import { describeIssues } from './validation';
+
+const ReviewQuerySchema = z.object({
+  companyGroupId: z.string().uuid().optional(),
+  status: z.enum(['pending', 'resolved', 'dismissed']).default('pending'),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+const ResolveBodySchema = z.object({
+  reviewedBy: z.string().uuid(),
+  classification: ChangeClassificationSchema.optional(),
+  intent: ChangeIntentSchema.optional(),
+  affectedRoles: z.array(RoleSchema).min(1, 'At least one role must be affected').optional(),
+});
+
+const DismissBodySchema = z.object({
+  reviewedBy: z.string().uuid(),
+  reason: z.string().optional(),
+});
+
+export function registerReviewRoutes(
+  app: FastifyInstance,
+  reviews: InterpretationReviewService,
+  orchestration: OrchestrationService
+) {
+  /**
+   * Held interpretations, oldest first
+   * Query: companyGroupId, status (default pending), limit, offset
+   */
+  app.get('/api/reviews', async (
+    request: FastifyRequest<{ Querystring: Record<string, string> }>,
+    reply: FastifyReply
+  ) => {
+    const parsed = ReviewQuerySchema.safeParse(request.query);
+    if (!parsed.success) {
+      return reply.status(400).send({ error: 'Invalid query', details: describeIssues(parsed.error) });
+    }
+
+    return reply.send({ reviews: await reviews.listReviews(parsed.data) });
+  });
+
+  app.get('/api/reviews/:reviewId', async (
+    request: FastifyRequest<{ Params: { reviewId: string } }>,
+    reply: FastifyReply
+  ) => {
+    const review = await reviews.getReview(request.params.reviewId);
+    if (!review) {
+      return reply.status(404).send({ error: 'Review not found' });
+    }
+
+    return reply.send({ review });
+  });
+
+  /**
+   * Fields left out confirm the interpreter's value
+   */
+  app.post('/api/reviews/:reviewId/resolve', async (
+    request: FastifyRequest<{ Params: { reviewId: string }; Body: unknown }>,
+    reply: FastifyReply
+  ) => {
+    const parsed = ResolveBodySchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: describeIssues(parsed.error) });
+    }
+
+    const { reviewId } = request.params;
+    if (!await reviews.getReview(reviewId)) {
+      return reply.status(404).send({ error: 'Review not found' });
+    }
+
+    const { reviewedBy, ...correction } = parsed.data;
+    let review;
+    try {
+      review = await reviews.resolve(reviewId, reviewedBy, correction);
+    } catch (error) {
+      return reply.status(409).send({ error: error instanceof Error ? error.message : String(error) });
+    }
+
+    return reply.send({ review, notifications: await orchestration.routeReviewedChange(review) });
+  });
+
+  app.post('/api/reviews/:reviewId/dismiss', async (
+    request: FastifyRequest<{ Params: { reviewId: string }; Body: unknown }>,
+    reply: FastifyReply
+  ) => {
+    const parsed = DismissBodySchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: describeIssues(parsed.error) });
+    }
+
+    const { reviewId } = request.params;
+    if (!await reviews.getReview(reviewId)) {
+      return reply.status(404).send({ error: 'Review not found' });
+    }
+
+    try {
+      return reply.send({ review: await reviews.dismiss(reviewId, parsed.data.reviewedBy, parsed.data.reason) });
+    } catch (error) {
+      return reply.status(409).send({ error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+}
@@ -0,0 +1,112 @@
+/**
+ * Routing Policy API
+ *
+ * Read and replace a company group's routing policy (JSON rules evaluated in
+ * order), reset it to the defaults, and dry-run it against a ChangeEvent to
+ * see which rule fired for each role and the company-wide channel. The base
+ * guardrails are listed with every policy; rules can't remove them.
+ */
+
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { ChangeEventSchema, RoleSchema } from '../types/core';
+import { PolicyRuleSchema } from '../types/routing';
+import { BASE_GUARDRAILS, RoutingPolicyService } from '../services/routing-policy';
+import { describeIssues } from './validation';
+
+const ParamsSchema = z.object({
+  companyGroupId: z.string().uuid(),
+});
+
+const PolicyBodySchema = z.object({
+  rules: z.array(PolicyRuleSchema),
+  updatedBy: z.string().min(1).optional(),
+});
+
+const ExplainBodySchema = z.object({
+  changeEvent: ChangeEventSchema.extend({
+    changedAt: z.coerce.date(),
+    normalizedAt: z.coerce.date(),
+  }),
+  affectedRoles: z.array(RoleSchema).optional(), // Defaults to the change event's own
+  summary: z.string().default(''),
+  impact: z.string().default(''),
+  rules: z.array(PolicyRuleSchema).optional(), // Draft rules to try instead of the stored policy
+});
+
+const guardrails = Object.values(BASE_GUARDRAILS);
+
+export function registerRoutingPolicyRoutes(app: FastifyInstance, policies: RoutingPolicyService) {
+  app.get('/api/routing-policies/:companyGroupId', async (
+    request: FastifyRequest<{ Params: Record<string, string> }>,
+    reply: FastifyReply
+  ) => {
+    const params = ParamsSchema.safeParse(request.params);
+    if (!params.success) {
+      return reply.status(400).send({ error: 'Invalid company group', details: describeIssues(params.error) });
+    }
+
+    return reply.send({ policy: await policies.getPolicy(params.data.companyGroupId), guardrails });
+  });
+
+  /**
+   * Replace the group's rules; the version goes up by one
+   */
+  app.put('/api/routing-policies/:companyGroupId', async (
+    request: FastifyRequest<{ Params: Record<string, string>; Body: unknown }>,
+    reply: FastifyReply
+  ) => {
+    const params = ParamsSchema.safeParse(request.params);
+    if (!params.success) {
+      return reply.status(400).send({ error: 'Invalid company group', details: describeIssues(params.error) });
+    }
+    const parsed = PolicyBodySchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.status(400).send({ error: 'Invalid policy', details: describeIssues(parsed.error) });
+    }
+
+    try {
+      const { rules, updatedBy } = parsed.data;
+      return reply.send({ policy: await policies.setPolicy(params.data.companyGroupId, rules, updatedBy), guardrails });
+    } catch (error) {
+      return reply.status(400).send({ error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  app.delete('/api/routing-policies/:companyGroupId', async (
+    request: FastifyRequest<{ Params: Record<string, string> }>,
+    reply: FastifyReply
+  ) => {
+    const params = ParamsSchema.safeParse(request.params);
+    if (!params.success) {
+      return reply.status(400).send({ error: 'Invalid company group', details: describeIssues(params.error) });
+    }
+
+    return reply.send({ policy: await policies.resetPolicy(params.data.companyGroupId), guardrails });
+  });
+
+  /**
+   * Dry run: nothing is routed or stored
+   */
+  app.post('/api/routing-policies/:companyGroupId/explain', async (
+    request: FastifyRequest<{ Params: Record<string, string>; Body: unknown }>,
+    reply: FastifyReply
+  ) => {
+    const params = ParamsSchema.safeParse(request.params);
+    if (!params.success) {
+      return reply.status(400).send({ error: 'Invalid company group', details: describeIssues(params.error) });
+    }
+    const parsed = ExplainBodySchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: describeIssues(parsed.error) });
+    }
+
+    const { changeEvent, affectedRoles, summary, impact, rules } = parsed.data;
+    const explanation = await policies.explain(
+      params.data.companyGroupId,
+      { changeEvent, affectedRoles: affectedRoles ?? changeEvent.affectedRoles ?? [], summary, impact },
+      rules
+    );
+    return reply.send({ explanation, guardrails });
+  });
+}
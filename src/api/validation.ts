@@ -0,0 +1,12 @@
+/**
+ * Request validation helpers shared by the route modules
+ */
+
+import type { z } from 'zod';
+
+/**
+ * One "path: message" line per zod issue, for 400 responses
+ */
+export function describeIssues(error: z.ZodError): string[] {
+  return error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`);
+}
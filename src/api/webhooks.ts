@@ -0,0 +1,94 @@
+/**
+ * Webhooks API
+ *
+ * Ingress for tool webhooks. Signatures are computed over the exact bytes
+ * the tool sent, so these routes keep the raw body and hand it to the
+ * pipeline unparsed; re-serialized JSON would not verify.
+ *
+ * When the pipeline queues interpretation and routing, a verified delivery
+ * is answered with 202 as soon as its changes are queued.
+ */
+
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { SourceToolSchema, SourceTool } from '../types/core';
+import type { OrchestrationService } from '../services/orchestration';
+
+/**
+ * Header each tool signs its deliveries with
+ * Figma carries its passcode in the body instead.
+ */
+const SIGNATURE_HEADERS: Partial<Record<SourceTool, string>> = {
+  github: 'x-hub-signature-256',
+  gitlab: 'x-gitlab-token',
+  bitbucket: 'x-hub-signature',
+  jira: 'x-hub-signature',
+  notion: 'x-notion-signature',
+  linear: 'linear-signature',
+};
+
+export interface WebhookRouteOptions {
+  /**
+   * Interpretation and routing run from the pipeline queue
+   */
+  queued?: boolean;
+}
+
+export function registerWebhookRoutes(
+  app: FastifyInstance,
+  orchestration: OrchestrationService,
+  options: WebhookRouteOptions = {}
+) {
+  // Encapsulated so the raw-body parser only applies to webhook routes
+  app.register(async webhooks => {
+    webhooks.addContentTypeParser(
+      ['application/json', 'text/plain'],
+      { parseAs: 'string' },
+      (_request, body, done) => done(null, body)
+    );
+
+    /**
+     * Responds 401 when no installation's secret verifies the delivery and 422
+     * when a verified delivery comes from an account no active installation
+     * covers. Other failures answer 500 so the tool redelivers.
+     */
+    webhooks.post('/webhooks/:tool', async (
+      request: FastifyRequest<{ Params: { tool: string }; Body: string }>,
+      reply: FastifyReply
+    ) => {
+      const tool = SourceToolSchema.safeParse(request.params.tool);
+      if (!tool.success) {
+        return reply.status(404).send({ error: 'Unknown tool' });
+      }
+      if (typeof request.body !== 'string' || request.body.length === 0) {
+        return reply.status(400).send({ error: 'Invalid request', details: ['body: Expected a JSON payload'] });
+      }
+
+      const header = SIGNATURE_HEADERS[tool.data];
+      const signature = header ? request.headers[header] : undefined;
+
+      try {
+        const notifications = await orchestration.processWebhook(
+          tool.data,
+          request.body,
+          typeof signature === 'string' ? signature : undefined
+        );
+        if (options.queued) {
+          return reply.status(202).send({ status: 'queued' });
+        }
+        return reply.send({ notificationsCreated: notifications.length });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        if (message.startsWith('Invalid webhook signature')) {
+          return reply.status(401).send({ error: 'Invalid signature' });
+        }
+        if (message.startsWith('No webhook verifier configured')) {
+          return reply.status(404).send({ error: 'Unknown tool' });
+        }
+        if (message.startsWith('Could not determine company group')) {
+          return reply.status(422).send({ error: `No active ${tool.data} installation covers this account` });
+        }
+        throw error;
+      }
+    });
+  });
+}
@@ -0,0 +1,274 @@
+/**
+ * Change Event Repository
+ *
+ * Persists every ChangeEvent the pipeline produces, together with an
+ * append-only timeline of what happened to it afterwards: correlation,
+ * interpretation, routing decisions, notifications and approvals.
+ *
+ * Events are upserted (the interpreted event replaces the normalized one);
+ * timeline entries are never updated or deleted.
+ */
+
+import { ChangeClassification, ChangeEvent, Role, SourceTool } from '../types/core';
+import { SyncDatabase } from './database';
+
+/**
+ * ChangeEvent as stored, with the company group it was processed for
+ */
+export type StoredChangeEvent = ChangeEvent & {
+  companyGroupId: string;
+};
+
+export type ChangeEventTimelineKind =
+  | 'detected'
+  | 'blocked_sensitive_data'
+  | 'correlated'
+  | 'interpreted'
+  | 'held_for_review'
+  | 'review_resolved'
+  | 'review_dismissed'
+  | 'pipeline_dead_lettered'
+  | 'pipeline_replayed'
+  | 'routed'
+  | 'notification_created'
+  | 'notification_approved'
+  | 'notification_rejected'
+  | 'notification_digested'
+  | 'notification_fanned_out'
+  | 'notification_sent'
+  | 'proposal_created'
+  | 'proposal_approved'
+  | 'proposal_rejected'
+  | 'proposal_applied';
+
+/**
+ * Entry in the append-only change event timeline
+ * `actor` is set for human actions (approvals, rejections)
+ */
+export interface ChangeEventTimelineEntry {
+  sequence: number;
+  changeEventId: string;
+  kind: ChangeEventTimelineKind;
+  occurredAt: Date;
+  actor?: string;
+  notificationId?: string;
+  details: Record<string, unknown>;
+}
+
+export interface ChangeEventQuery {
+  companyGroupId?: string;
+  sourceTool?: SourceTool;
+  sourceResourceId?: string;
+  classification?: ChangeClassification;
+  affectedRole?: Role;
+  since?: Date; // changedAt >= since
+  until?: Date; // changedAt < until
+  limit?: number;
+  offset?: number;
+}
+
+export interface ChangeEventRepository {
+  /**
+   * Insert or replace a change event
+   */
+  saveChangeEvent(companyGroupId: string, changeEvent: ChangeEvent): StoredChangeEvent;
+
+  getChangeEvent(changeEventId: string): StoredChangeEvent | null;
+
+  /**
+   * Newest changes first
+   */
+  listChangeEvents(query?: ChangeEventQuery): StoredChangeEvent[];
+
+  appendTimeline(entry: Omit<ChangeEventTimelineEntry, 'sequence' | 'occurredAt'> & { occurredAt?: Date }): ChangeEventTimelineEntry;
+
+  /**
+   * Oldest entries first
+   */
+  getTimeline(changeEventId: string): ChangeEventTimelineEntry[];
+
+  /**
+   * Run `work` all or nothing
+   * Writes of other repositories on the same database join the transaction.
+   */
+  transaction<T>(work: () => T): T;
+}
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+/**
+ * SQLite implementation of ChangeEventRepository
+ */
+export class SqliteChangeEventRepository implements ChangeEventRepository {
+  constructor(private db: SyncDatabase) {
+    this.initSchema();
+  }
+
+  private initSchema(): void {
+    // Filterable fields are columns; the full event is kept as JSON
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS change_events (
+        id TEXT PRIMARY KEY,
+        company_group_id TEXT NOT NULL,
+        source_tool TEXT NOT NULL,
+        source_resource_id TEXT NOT NULL,
+        source_resource_type TEXT NOT NULL,
+        classification TEXT,
+        affected_roles TEXT NOT NULL,
+        changed_at INTEGER NOT NULL,
+        event TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      )
+    `);
+
+    // Append-only: rows are never updated or deleted
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS change_event_timeline (
+        sequence INTEGER PRIMARY KEY AUTOINCREMENT,
+        change_event_id TEXT NOT NULL,
+        kind TEXT NOT NULL,
+        occurred_at INTEGER NOT NULL,
+        actor TEXT,
+        notification_id TEXT,
+        details TEXT NOT NULL,
+        FOREIGN KEY (change_event_id) REFERENCES change_events(id)
+      )
+    `);
+
+    this.db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_change_events_group_changed ON change_events(company_group_id, changed_at);
+      CREATE INDEX IF NOT EXISTS idx_change_events_resource ON change_events(source_tool, source_resource_id);
+      CREATE INDEX IF NOT EXISTS idx_change_event_timeline_event ON change_event_timeline(change_event_id, sequence);
+    `);
+  }
+
+  saveChangeEvent(companyGroupId: string, changeEvent: ChangeEvent): StoredChangeEvent {
+    const now = Date.now();
+    this.db.prepare(`
+      INSERT INTO change_events (id, company_group_id, source_tool, source_resource_id, source_resource_type, classification, affected_roles, changed_at, event, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET
+        classification = excluded.classification,
+        affected_roles = excluded.affected_roles,
+        event = excluded.event,
+        updated_at = excluded.updated_at
+    `).run(
+      changeEvent.id,
+      companyGroupId,
+      changeEvent.sourceTool,
+      changeEvent.sourceResourceId,
+      changeEvent.sourceResourceType,
+      changeEvent.classification ?? null,
+      JSON.stringify(changeEvent.affectedRoles ?? []),
+      changeEvent.changedAt.getTime(),
+      JSON.stringify(changeEvent),
+      now,
+      now
+    );
+
+    return { ...changeEvent, companyGroupId };
+  }
+
+  getChangeEvent(changeEventId: string): StoredChangeEvent | null {
+    const row = this.db.prepare('SELECT * FROM change_events WHERE id = ?').get(changeEventId) as any;
+    if (!row) return null;
+    return this.rowToChangeEvent(row);
+  }
+
+  listChangeEvents(query: ChangeEventQuery = {}): StoredChangeEvent[] {
+    const clauses: string[] = [];
+    const params: unknown[] = [];
+
+    if (query.companyGroupId) {
+      clauses.push('company_group_id = ?');
+      params.push(query.companyGroupId);
+    }
+    if (query.sourceTool) {
+      clauses.push('source_tool = ?');
+      params.push(query.sourceTool);
+    }
+    if (query.sourceResourceId) {
+      clauses.push('source_resource_id = ?');
+      params.push(query.sourceResourceId);
+    }
+    if (query.classification) {
+      clauses.push('classification = ?');
+      params.push(query.classification);
+    }
+    if (query.affectedRole) {
+      clauses.push('EXISTS (SELECT 1 FROM json_each(change_events.affected_roles) WHERE value = ?)');
+      params.push(query.affectedRole);
+    }
+    if (query.since) {
+      clauses.push('changed_at >= ?');
+      params.push(query.since.getTime());
+    }
+    if (query.until) {
+      clauses.push('changed_at < ?');
+      params.push(query.until.getTime());
+    }
+
+    const where = clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '';
+    const limit = Math.min(query.limit ?? DEFAULT_LIMIT, MAX_LIMIT);
+    const rows = this.db.prepare(`
+      SELECT * FROM change_events ${where} ORDER BY changed_at DESC, created_at DESC LIMIT ? OFFSET ?
+    `).all(...params, limit, query.offset ?? 0) as any[];
+
+    return rows.map(row => this.rowToChangeEvent(row));
+  }
+
+  appendTimeline(
+    entry: Omit<ChangeEventTimelineEntry, 'sequence' | 'occurredAt'> & { occurredAt?: Date }
+  ): ChangeEventTimelineEntry {
+    const occurredAt = entry.occurredAt ?? new Date();
+    const result = this.db.prepare(`
+      INSERT INTO change_event_timeline (change_event_id, kind, occurred_at, actor, notification_id, details)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(
+      entry.changeEventId,
+      entry.kind,
+      occurredAt.getTime(),
+      entry.actor ?? null,
+      entry.notificationId ?? null,
+      JSON.stringify(entry.details)
+    );
+
+    return {
+      ...entry,
+      sequence: Number(result.lastInsertRowid),
+      occurredAt,
+    };
+  }
+
+  getTimeline(changeEventId: string): ChangeEventTimelineEntry[] {
+    const rows = this.db.prepare(`
+      SELECT * FROM change_event_timeline WHERE change_event_id = ? ORDER BY sequence
+    `).all(changeEventId) as any[];
+
+    return rows.map(row => ({
+      sequence: row.sequence,
+      changeEventId: row.change_event_id,
+      kind: row.kind,
+      occurredAt: new Date(row.occurred_at),
+      actor: row.actor || undefined,
+      notificationId: row.notification_id || undefined,
+      details: JSON.parse(row.details),
+    }));
+  }
+  transaction<T>(work: () => T): T {
+    return this.db.transaction(work)();
+  }
+
+
+  private rowToChangeEvent(row: any): StoredChangeEvent {
+    const event = JSON.parse(row.event);
+    return {
+      ...event,
+      changedAt: new Date(event.changedAt),
+      normalizedAt: new Date(event.normalizedAt),
+      companyGroupId: row.company_group_id,
+    };
+  }
+}
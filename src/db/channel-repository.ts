@@ -0,0 +1,117 @@
+/**
+ * Channel Repository
+ *
+ * Persists the channels of each company group: one "everyone" channel and
+ * at most one channel per role. Routing reads a group's channels from here.
+ * The type, role and group of a channel never change once it is created.
+ */
+
+import { Channel, Role } from '../types/core';
+import { SyncDatabase } from './database';
+
+export interface ChannelRepository {
+  /**
+   * Insert or replace a channel
+   * Throws when the group already has an "everyone" channel or a channel for the role.
+   */
+  saveChannel(channel: Channel): Channel;
+
+  getChannel(channelId: string): Channel | null;
+
+  /**
+   * Channels of a company group, oldest first
+   */
+  listChannels(companyGroupId: string): Channel[];
+
+  findRoleChannel(companyGroupId: string, role: Role): Channel | null;
+
+  deleteChannel(channelId: string): boolean;
+}
+
+/**
+ * SQLite implementation of ChannelRepository
+ */
+export class SqliteChannelRepository implements ChannelRepository {
+  constructor(private db: SyncDatabase) {
+    this.initSchema();
+  }
+
+  private initSchema(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS channels (
+        id TEXT PRIMARY KEY,
+        company_group_id TEXT NOT NULL,
+        type TEXT NOT NULL,
+        name TEXT NOT NULL,
+        role TEXT,
+        description TEXT,
+        delivery TEXT,
+        digest TEXT,
+        created_at INTEGER NOT NULL
+      );
+
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_channels_group_role
+        ON channels(company_group_id, type, COALESCE(role, ''));
+    `);
+  }
+
+  saveChannel(channel: Channel): Channel {
+    this.db.prepare(`
+      INSERT INTO channels (id, company_group_id, type, name, role, description, delivery, digest, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET
+        name = excluded.name,
+        description = excluded.description,
+        delivery = excluded.delivery,
+        digest = excluded.digest
+    `).run(
+      channel.id,
+      channel.companyGroupId,
+      channel.type,
+      channel.name,
+      channel.role ?? null,
+      channel.description ?? null,
+      channel.delivery ? JSON.stringify(channel.delivery) : null,
+      channel.digest ?? null,
+      channel.createdAt.getTime()
+    );
+    return channel;
+  }
+
+  getChannel(channelId: string): Channel | null {
+    const row = this.db.prepare('SELECT * FROM channels WHERE id = ?').get(channelId);
+    return row ? rowToChannel(row) : null;
+  }
+
+  listChannels(companyGroupId: string): Channel[] {
+    const rows = this.db.prepare(`
+      SELECT * FROM channels WHERE company_group_id = ? ORDER BY created_at, rowid
+    `).all(companyGroupId) as any[];
+    return rows.map(rowToChannel);
+  }
+
+  findRoleChannel(companyGroupId: string, role: Role): Channel | null {
+    const row = this.db.prepare(`
+      SELECT * FROM channels WHERE company_group_id = ? AND type = 'role' AND role = ?
+    `).get(companyGroupId, role);
+    return row ? rowToChannel(row) : null;
+  }
+
+  deleteChannel(channelId: string): boolean {
+    return this.db.prepare('DELETE FROM channels WHERE id = ?').run(channelId).changes > 0;
+  }
+}
+
+function rowToChannel(row: any): Channel {
+  return {
+    id: row.id,
+    companyGroupId: row.company_group_id,
+    type: row.type,
+    name: row.name,
+    role: row.role ?? undefined,
+    description: row.description ?? undefined,
+    delivery: row.delivery ? JSON.parse(row.delivery) : undefined,
+    digest: row.digest ?? undefined,
+    createdAt: new Date(row.created_at),
+  };
+}
@@ -0,0 +1,149 @@
+/**
+ * Correlation Index Repository
+ *
+ * Remembers which resources each change event is and mentions, so later
+ * events that share an issue key, spec, design or PR can be linked to it.
+ * Every entry belongs to a company group and lookups never cross groups.
+ */
+
+import { SourceTool } from '../types/core';
+import { SyncDatabase } from './database';
+
+export interface IndexedChangeEvent {
+  companyGroupId: string;
+  changeEventId: string;
+  sourceTool: SourceTool;
+  sourceResourceType: string;
+  sourceResourceId: string;
+  sourceResourceUrl?: string;
+  title?: string;
+  changedAt: Date;
+  keys: string[];
+}
+
+/**
+ * Storage for correlation keys
+ */
+export interface CorrelationIndex {
+  /**
+   * Index an event, replacing any earlier entry for the same change event
+   */
+  record(entry: IndexedChangeEvent): void;
+
+  /**
+   * Events in the company group that share at least one key, changed at or after `since`
+   */
+  findByKeys(companyGroupId: string, keys: string[], since: Date): IndexedChangeEvent[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * SQLite implementation of CorrelationIndex
+ * Entries older than the retention window (relative to the newest write) are pruned on write
+ */
+export class SqliteCorrelationIndex implements CorrelationIndex {
+  constructor(private db: SyncDatabase, private retentionDays: number = 30) {
+    this.initSchema();
+  }
+
+  private initSchema(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS correlation_events (
+        change_event_id TEXT PRIMARY KEY,
+        company_group_id TEXT NOT NULL,
+        source_tool TEXT NOT NULL,
+        source_resource_type TEXT NOT NULL,
+        source_resource_id TEXT NOT NULL,
+        source_resource_url TEXT,
+        title TEXT,
+        changed_at INTEGER NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS correlation_keys (
+        company_group_id TEXT NOT NULL,
+        key TEXT NOT NULL,
+        change_event_id TEXT NOT NULL REFERENCES correlation_events(change_event_id) ON DELETE CASCADE,
+        PRIMARY KEY (company_group_id, key, change_event_id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_correlation_events_group_time
+        ON correlation_events(company_group_id, changed_at);
+      CREATE INDEX IF NOT EXISTS idx_correlation_keys_event
+        ON correlation_keys(change_event_id);
+    `);
+  }
+
+  record(entry: IndexedChangeEvent): void {
+    const cutoff = entry.changedAt.getTime() - this.retentionDays * DAY_MS;
+
+    this.db.transaction(() => {
+      this.db.prepare(`
+        DELETE FROM correlation_events
+        WHERE change_event_id = ? OR (company_group_id = ? AND changed_at < ?)
+      `).run(entry.changeEventId, entry.companyGroupId, cutoff);
+
+      this.db.prepare(`
+        INSERT INTO correlation_events (
+          change_event_id, company_group_id, source_tool, source_resource_type,
+          source_resource_id, source_resource_url, title, changed_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        entry.changeEventId,
+        entry.companyGroupId,
+        entry.sourceTool,
+        entry.sourceResourceType,
+        entry.sourceResourceId,
+        entry.sourceResourceUrl ?? null,
+        entry.title ?? null,
+        entry.changedAt.getTime()
+      );
+
+      const insertKey = this.db.prepare(`
+        INSERT OR IGNORE INTO correlation_keys (company_group_id, key, change_event_id) VALUES (?, ?, ?)
+      `);
+      for (const key of entry.keys) {
+        insertKey.run(entry.companyGroupId, key, entry.changeEventId);
+      }
+    })();
+  }
+
+  findByKeys(companyGroupId: string, keys: string[], since: Date): IndexedChangeEvent[] {
+    if (keys.length === 0) {
+      return [];
+    }
+
+    const rows = this.db.prepare(`
+      SELECT e.* FROM correlation_events e
+      WHERE e.company_group_id = ? AND e.changed_at >= ?
+        AND e.change_event_id IN (
+          SELECT change_event_id FROM correlation_keys
+          WHERE company_group_id = ? AND key IN (${keys.map(() => '?').join(', ')})
+        )
+      ORDER BY e.changed_at ASC, e.rowid ASC
+    `).all(companyGroupId, since.getTime(), companyGroupId, ...keys) as any[];
+
+    const keysFor = this.db.prepare(`
+      SELECT key FROM correlation_keys WHERE company_group_id = ? AND change_event_id = ? ORDER BY rowid ASC
+    `);
+
+    return rows.map(row => rowToIndexedChangeEvent(
+      row,
+      (keysFor.all(companyGroupId, row.change_event_id) as any[]).map(keyRow => keyRow.key)
+    ));
+  }
+}
+
+function rowToIndexedChangeEvent(row: any, keys: string[]): IndexedChangeEvent {
+  return {
+    companyGroupId: row.company_group_id,
+    changeEventId: row.change_event_id,
+    sourceTool: row.source_tool,
+    sourceResourceType: row.source_resource_type,
+    sourceResourceId: row.source_resource_id,
+    sourceResourceUrl: row.source_resource_url ?? undefined,
+    title: row.title ?? undefined,
+    changedAt: new Date(row.changed_at),
+    keys,
+  };
+}
@@ -0,0 +1,459 @@
+/**
+ * Cursor Repository
+ *
+ * Persists Cursor rows and an append-only log of every position change.
+ *
+ * Guarantees (see src/types/cursors.ts):
+ * - Idempotent: re-applying an advance that was already recorded is a no-op
+ * - Monotonic: a cursor never moves backwards through a normal advance
+ * - Replayable: an explicit replay moves a cursor to any earlier position
+ * - Auditable: every advance and replay is written to cursor_advances
+ */
+
+import { randomUUID } from 'crypto';
+import { SourceTool } from '../types/core';
+import { Cursor, CursorAdvance } from '../types/cursors';
+import { SyncDatabase } from './database';
+
+/**
+ * Entry in the append-only cursor log
+ * Replays have no change event, nor do advances past an empty page.
+ */
+export interface CursorAdvanceRecord {
+  sequence: number;
+  cursorId: string;
+  kind: 'advance' | 'replay';
+  previousPosition: string;
+  newPosition: string;
+  changeEventId?: string;
+  advancedAt: Date;
+  advancedBy?: string;
+}
+
+export interface CursorRepository {
+  createCursor(data: {
+    companyGroupId: string;
+    sourceTool: SourceTool;
+    installationId?: string;
+    position: string;
+    positionType: Cursor['positionType'];
+  }): Cursor;
+
+  getCursor(cursorId: string): Cursor | null;
+
+  listCursors(filter?: {
+    companyGroupId?: string;
+    sourceTool?: SourceTool;
+    installationId?: string;
+    activeOnly?: boolean;
+  }): Cursor[];
+
+  /**
+   * Persist poll bookkeeping (lastPolledAt, error counters, isActive)
+   * Never changes the position - only advance() and replayFrom() do that
+   */
+  recordPoll(cursor: Cursor): Cursor;
+
+  /**
+   * Pause or resume a cursor
+   * Resuming clears the error streak so an error-deactivated cursor starts fresh
+   */
+  setActive(cursorId: string, isActive: boolean): Cursor;
+
+  /**
+   * Move a cursor forward after successful normalization
+   * `applied` is false when this advance was already recorded (no-op).
+   * Throws if the new position is behind the current one.
+   */
+  advance(advance: CursorAdvance): { cursor: Cursor; applied: boolean };
+
+  /**
+   * Explicitly rewind (or fast-forward) a cursor to reprocess from a position
+   */
+  replayFrom(cursorId: string, position: string, requestedBy?: string): Cursor;
+
+  getAdvanceHistory(cursorId: string, limit?: number): CursorAdvanceRecord[];
+}
+
+/**
+ * Compare two cursor positions of the same type
+ * Returns null when the position type has no natural ordering.
+ */
+export function compareCursorPositions(
+  positionType: Cursor['positionType'],
+  a: string,
+  b: string
+): number | null {
+  if (positionType === 'timestamp') {
+    const aTime = Date.parse(a);
+    const bTime = Date.parse(b);
+    if (!Number.isNaN(aTime) && !Number.isNaN(bTime)) {
+      return aTime - bTime;
+    }
+    // Epoch-millisecond positions
+    const aNum = Number(a);
+    const bNum = Number(b);
+    return Number.isFinite(aNum) && Number.isFinite(bNum) ? aNum - bNum : null;
+  }
+
+  if (positionType === 'sequence') {
+    try {
+      const diff = BigInt(a) - BigInt(b);
+      return diff === 0n ? 0 : diff > 0n ? 1 : -1;
+    } catch {
+      return null;
+    }
+  }
+
+  // version-id, change-token, other: opaque
+  return null;
+}
+
+/**
+ * SQLite implementation of CursorRepository
+ */
+export class SqliteCursorRepository implements CursorRepository {
+  constructor(private db: SyncDatabase) {
+    this.initSchema();
+  }
+
+  private initSchema(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS cursors (
+        id TEXT PRIMARY KEY,
+        company_group_id TEXT NOT NULL,
+        source_tool TEXT NOT NULL,
+        installation_id TEXT,
+        position TEXT NOT NULL,
+        position_type TEXT NOT NULL,
+        last_polled_at INTEGER NOT NULL,
+        last_change_detected_at INTEGER,
+        last_change_event_id TEXT,
+        consecutive_errors INTEGER NOT NULL DEFAULT 0,
+        last_error TEXT,
+        last_error_at INTEGER,
+        is_active INTEGER NOT NULL DEFAULT 1,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      )
+    `);
+
+    // Append-only: rows are never updated or deleted
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS cursor_advances (
+        sequence INTEGER PRIMARY KEY AUTOINCREMENT,
+        cursor_id TEXT NOT NULL,
+        kind TEXT NOT NULL,
+        previous_position TEXT NOT NULL,
+        new_position TEXT NOT NULL,
+        change_event_id TEXT,
+        advanced_at INTEGER NOT NULL,
+        advanced_by TEXT,
+        FOREIGN KEY (cursor_id) REFERENCES cursors(id)
+      )
+    `);
+
+    this.db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_cursors_group_tool ON cursors(company_group_id, source_tool);
+      CREATE INDEX IF NOT EXISTS idx_cursor_advances_cursor ON cursor_advances(cursor_id, sequence);
+    `);
+  }
+
+  createCursor(data: {
+    companyGroupId: string;
+    sourceTool: SourceTool;
+    installationId?: string;
+    position: string;
+    positionType: Cursor['positionType'];
+  }): Cursor {
+    const now = new Date();
+    const cursor: Cursor = {
+      id: randomUUID(),
+      companyGroupId: data.companyGroupId,
+      sourceTool: data.sourceTool,
+      installationId: data.installationId,
+      position: data.position,
+      positionType: data.positionType,
+      lastPolledAt: now,
+      consecutiveErrors: 0,
+      isActive: true,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.db.prepare(`
+      INSERT INTO cursors (id, company_group_id, source_tool, installation_id, position, position_type, last_polled_at, consecutive_errors, is_active, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, 0, 1, ?, ?)
+    `).run(
+      cursor.id,
+      cursor.companyGroupId,
+      cursor.sourceTool,
+      cursor.installationId ?? null,
+      cursor.position,
+      cursor.positionType,
+      now.getTime(),
+      now.getTime(),
+      now.getTime()
+    );
+
+    return cursor;
+  }
+
+  getCursor(cursorId: string): Cursor | null {
+    const row = this.db.prepare('SELECT * FROM cursors WHERE id = ?').get(cursorId) as any;
+    if (!row) return null;
+    return this.rowToCursor(row);
+  }
+
+  listCursors(filter: {
+    companyGroupId?: string;
+    sourceTool?: SourceTool;
+    installationId?: string;
+    activeOnly?: boolean;
+  } = {}): Cursor[] {
+    const clauses: string[] = [];
+    const params: unknown[] = [];
+
+    if (filter.companyGroupId) {
+      clauses.push('company_group_id = ?');
+      params.push(filter.companyGroupId);
+    }
+    if (filter.sourceTool) {
+      clauses.push('source_tool = ?');
+      params.push(filter.sourceTool);
+    }
+    if (filter.installationId) {
+      clauses.push('installation_id = ?');
+      params.push(filter.installationId);
+    }
+    if (filter.activeOnly) {
+      clauses.push('is_active = 1');
+    }
+
+    const where = clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '';
+    const rows = this.db.prepare(`SELECT * FROM cursors ${where} ORDER BY created_at`).all(...params) as any[];
+    return rows.map(row => this.rowToCursor(row));
+  }
+
+  recordPoll(cursor: Cursor): Cursor {
+    const existing = this.getCursor(cursor.id);
+    if (!existing) {
+      throw new Error(`Cursor not found: ${cursor.id}`);
+    }
+
+    const updatedAt = new Date();
+    this.db.prepare(`
+      UPDATE cursors
+      SET last_polled_at = ?, consecutive_errors = ?, last_error = ?, last_error_at = ?, is_active = ?, updated_at = ?
+      WHERE id = ?
+    `).run(
+      cursor.lastPolledAt.getTime(),
+      cursor.consecutiveErrors,
+      cursor.lastError ?? null,
+      cursor.lastErrorAt?.getTime() ?? null,
+      cursor.isActive ? 1 : 0,
+      updatedAt.getTime(),
+      cursor.id
+    );
+
+    return {
+      ...existing,
+      lastPolledAt: cursor.lastPolledAt,
+      consecutiveErrors: cursor.consecutiveErrors,
+      lastError: cursor.lastError,
+      lastErrorAt: cursor.lastErrorAt,
+      isActive: cursor.isActive,
+      updatedAt,
+    };
+  }
+
+  setActive(cursorId: string, isActive: boolean): Cursor {
+    const cursor = this.getCursor(cursorId);
+    if (!cursor) {
+      throw new Error(`Cursor not found: ${cursorId}`);
+    }
+
+    const updatedAt = new Date();
+    if (isActive) {
+      this.db.prepare(`
+        UPDATE cursors SET is_active = 1, consecutive_errors = 0, updated_at = ? WHERE id = ?
+      `).run(updatedAt.getTime(), cursorId);
+      return { ...cursor, isActive: true, consecutiveErrors: 0, updatedAt };
+    }
+
+    this.db.prepare(`
+      UPDATE cursors SET is_active = 0, updated_at = ? WHERE id = ?
+    `).run(updatedAt.getTime(), cursorId);
+    return { ...cursor, isActive: false, updatedAt };
+  }
+
+  advance(advance: CursorAdvance): { cursor: Cursor; applied: boolean } {
+    const apply = this.db.transaction((): { cursor: Cursor; applied: boolean } => {
+      const cursor = this.getCursor(advance.cursorId);
+      if (!cursor) {
+        throw new Error(`Cursor not found: ${advance.cursorId}`);
+      }
+
+      // Only log entries since the latest replay count - a replay starts a new pass
+      const epochStart = this.getLatestReplaySequence(cursor.id);
+
+      // Idempotency: same advance already applied in this pass
+      const duplicate = this.db.prepare(`
+        SELECT sequence FROM cursor_advances
+        WHERE cursor_id = ? AND kind = 'advance' AND new_position = ? AND change_event_id IS ? AND sequence > ?
+      `).get(cursor.id, advance.newPosition, advance.changeEventId ?? null, epochStart);
+      if (duplicate || advance.newPosition === cursor.position) {
+        return { cursor, applied: false };
+      }
+
+      const comparison = compareCursorPositions(cursor.positionType, advance.newPosition, cursor.position);
+      if (comparison !== null && comparison < 0) {
+        throw new Error(
+          `Refusing to move cursor ${cursor.id} backwards from ${cursor.position} to ${advance.newPosition}; use replayFrom() to reprocess`
+        );
+      }
+
+      if (comparison === null) {
+        // Opaque positions: returning to a position already passed in this pass is a rewind
+        const previouslyPassed = this.db.prepare(`
+          SELECT sequence FROM cursor_advances
+          WHERE cursor_id = ? AND previous_position = ? AND sequence > ?
+        `).get(cursor.id, advance.newPosition, epochStart);
+        if (previouslyPassed) {
+          throw new Error(
+            `Refusing to move cursor ${cursor.id} back to earlier position ${advance.newPosition}; use replayFrom() to reprocess`
+          );
+        }
+      }
+
+      // Moving past an empty page detected nothing, so the last change stays as it was
+      const updatedAt = new Date();
+      const lastChangeEventId = advance.changeEventId ?? cursor.lastChangeEventId;
+      const lastChangeDetectedAt = advance.changeEventId ? advance.advancedAt : cursor.lastChangeDetectedAt;
+      this.db.prepare(`
+        UPDATE cursors
+        SET position = ?, last_change_event_id = ?, last_change_detected_at = ?, updated_at = ?
+        WHERE id = ?
+      `).run(
+        advance.newPosition,
+        lastChangeEventId ?? null,
+        lastChangeDetectedAt?.getTime() ?? null,
+        updatedAt.getTime(),
+        cursor.id
+      );
+
+      this.appendLog({
+        cursorId: cursor.id,
+        kind: 'advance',
+        previousPosition: cursor.position,
+        newPosition: advance.newPosition,
+        changeEventId: advance.changeEventId,
+        advancedAt: advance.advancedAt,
+        advancedBy: advance.advancedBy,
+      });
+
+      return {
+        cursor: {
+          ...cursor,
+          position: advance.newPosition,
+          lastChangeEventId,
+          lastChangeDetectedAt,
+          updatedAt,
+        },
+        applied: true,
+      };
+    });
+
+    return apply();
+  }
+
+  replayFrom(cursorId: string, position: string, requestedBy?: string): Cursor {
+    const apply = this.db.transaction((): Cursor => {
+      const cursor = this.getCursor(cursorId);
+      if (!cursor) {
+        throw new Error(`Cursor not found: ${cursorId}`);
+      }
+
+      const now = new Date();
+      this.db.prepare(`
+        UPDATE cursors SET position = ?, updated_at = ? WHERE id = ?
+      `).run(position, now.getTime(), cursorId);
+
+      this.appendLog({
+        cursorId,
+        kind: 'replay',
+        previousPosition: cursor.position,
+        newPosition: position,
+        advancedAt: now,
+        advancedBy: requestedBy,
+      });
+
+      return {
+        ...cursor,
+        position,
+        updatedAt: now,
+      };
+    });
+
+    return apply();
+  }
+
+  getAdvanceHistory(cursorId: string, limit: number = 100): CursorAdvanceRecord[] {
+    const rows = this.db.prepare(`
+      SELECT * FROM cursor_advances WHERE cursor_id = ? ORDER BY sequence DESC LIMIT ?
+    `).all(cursorId, limit) as any[];
+
+    return rows.map(row => ({
+      sequence: row.sequence,
+      cursorId: row.cursor_id,
+      kind: row.kind,
+      previousPosition: row.previous_position,
+      newPosition: row.new_position,
+      changeEventId: row.change_event_id || undefined,
+      advancedAt: new Date(row.advanced_at),
+      advancedBy: row.advanced_by || undefined,
+    }));
+  }
+
+  private getLatestReplaySequence(cursorId: string): number {
+    const row = this.db.prepare(`
+      SELECT MAX(sequence) AS sequence FROM cursor_advances WHERE cursor_id = ? AND kind = 'replay'
+    `).get(cursorId) as { sequence: number | null };
+    return row.sequence ?? 0;
+  }
+
+  private appendLog(entry: Omit<CursorAdvanceRecord, 'sequence'>): void {
+    this.db.prepare(`
+      INSERT INTO cursor_advances (cursor_id, kind, previous_position, new_position, change_event_id, advanced_at, advanced_by)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      entry.cursorId,
+      entry.kind,
+      entry.previousPosition,
+      entry.newPosition,
+      entry.changeEventId ?? null,
+      entry.advancedAt.getTime(),
+      entry.advancedBy ?? null
+    );
+  }
+
+  private rowToCursor(row: any): Cursor {
+    return {
+      id: row.id,
+      companyGroupId: row.company_group_id,
+      sourceTool: row.source_tool,
+      installationId: row.installation_id ?? undefined,
+      position: row.position,
+      positionType: row.position_type,
+      lastPolledAt: new Date(row.last_polled_at),
+      lastChangeDetectedAt: row.last_change_detected_at ? new Date(row.last_change_detected_at) : undefined,
+      lastChangeEventId: row.last_change_event_id || undefined,
+      consecutiveErrors: row.consecutive_errors,
+      lastError: row.last_error || undefined,
+      lastErrorAt: row.last_error_at ? new Date(row.last_error_at) : undefined,
+      isActive: row.is_active === 1,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+}
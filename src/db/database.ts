@@ -0,0 +1,22 @@
+/**
+ * SQLite connection for the change-sync pipeline
+ *
+ * Mirrors the Moltbook Hub setup (better-sqlite3 + WAL) so the platform
+ * stays easy to self-host. Each repository owns its own tables and creates
+ * them on construction, so repositories can share a single connection.
+ */
+
+import Database from 'better-sqlite3';
+
+export type SyncDatabase = Database.Database;
+
+/**
+ * Open (or create) the sync database
+ * Pass ':memory:' for an ephemeral database (tests, dry runs)
+ */
+export function openSyncDatabase(dbPath: string = './syncup.db'): SyncDatabase {
+  const db = new Database(dbPath);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  return db;
+}
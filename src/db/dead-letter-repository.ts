@@ -0,0 +1,144 @@
+/**
+ * Dead Letter Repository
+ *
+ * Notification deliveries that still failed after every retry are parked
+ * here with the notification as it was sent, so they can be inspected and
+ * retried later without losing what was approved.
+ */
+
+import { randomUUID } from 'crypto';
+import { DeliveryTarget, Notification } from '../types/core';
+import { SyncDatabase } from './database';
+
+export interface DeadLetter {
+  id: string;
+  notificationId: string;
+  channelId: string;
+  target: DeliveryTarget;
+  notification: Notification;
+  attempts: number;
+  lastError: string;
+  failedAt: Date;
+  resolvedAt?: Date; // Set once a retry succeeds
+}
+
+export interface DeadLetterRepository {
+  addDeadLetter(entry: Omit<DeadLetter, 'id' | 'resolvedAt'>): DeadLetter;
+
+  getDeadLetter(deadLetterId: string): DeadLetter | null;
+
+  /**
+   * Oldest failures first
+   */
+  listDeadLetters(filter?: { notificationId?: string; unresolvedOnly?: boolean }): DeadLetter[];
+
+  /**
+   * Record another failed retry
+   */
+  recordFailure(deadLetterId: string, attempts: number, lastError: string, failedAt: Date): void;
+
+  markResolved(deadLetterId: string, resolvedAt: Date): void;
+}
+
+/**
+ * SQLite implementation of DeadLetterRepository
+ */
+export class SqliteDeadLetterRepository implements DeadLetterRepository {
+  constructor(private db: SyncDatabase) {
+    this.initSchema();
+  }
+
+  private initSchema(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS delivery_dead_letters (
+        id TEXT PRIMARY KEY,
+        notification_id TEXT NOT NULL,
+        channel_id TEXT NOT NULL,
+        target TEXT NOT NULL,
+        notification TEXT NOT NULL,
+        attempts INTEGER NOT NULL,
+        last_error TEXT NOT NULL,
+        failed_at INTEGER NOT NULL,
+        resolved_at INTEGER
+      )
+    `);
+
+    this.db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_dead_letters_notification ON delivery_dead_letters(notification_id);
+    `);
+  }
+
+  addDeadLetter(entry: Omit<DeadLetter, 'id' | 'resolvedAt'>): DeadLetter {
+    const deadLetter: DeadLetter = { ...entry, id: randomUUID() };
+
+    this.db.prepare(`
+      INSERT INTO delivery_dead_letters (id, notification_id, channel_id, target, notification, attempts, last_error, failed_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      deadLetter.id,
+      deadLetter.notificationId,
+      deadLetter.channelId,
+      JSON.stringify(deadLetter.target),
+      JSON.stringify(deadLetter.notification),
+      deadLetter.attempts,
+      deadLetter.lastError,
+      deadLetter.failedAt.getTime()
+    );
+
+    return deadLetter;
+  }
+
+  getDeadLetter(deadLetterId: string): DeadLetter | null {
+    const row = this.db.prepare('SELECT * FROM delivery_dead_letters WHERE id = ?').get(deadLetterId) as any;
+    if (!row) return null;
+    return this.rowToDeadLetter(row);
+  }
+
+  listDeadLetters(filter: { notificationId?: string; unresolvedOnly?: boolean } = {}): DeadLetter[] {
+    const clauses: string[] = [];
+    const params: unknown[] = [];
+
+    if (filter.notificationId) {
+      clauses.push('notification_id = ?');
+      params.push(filter.notificationId);
+    }
+    if (filter.unresolvedOnly) {
+      clauses.push('resolved_at IS NULL');
+    }
+
+    const where = clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '';
+    const rows = this.db.prepare(`SELECT * FROM delivery_dead_letters ${where} ORDER BY failed_at`).all(...params) as any[];
+    return rows.map(row => this.rowToDeadLetter(row));
+  }
+
+  recordFailure(deadLetterId: string, attempts: number, lastError: string, failedAt: Date): void {
+    this.db.prepare(`
+      UPDATE delivery_dead_letters SET attempts = ?, last_error = ?, failed_at = ? WHERE id = ?
+    `).run(attempts, lastError, failedAt.getTime(), deadLetterId);
+  }
+
+  markResolved(deadLetterId: string, resolvedAt: Date): void {
+    this.db.prepare(`
+      UPDATE delivery_dead_letters SET resolved_at = ? WHERE id = ?
+    `).run(resolvedAt.getTime(), deadLetterId);
+  }
+
+  private rowToDeadLetter(row: any): DeadLetter {
+    const notification = JSON.parse(row.notification);
+    return {
+      id: row.id,
+      notificationId: row.notification_id,
+      channelId: row.channel_id,
+      target: JSON.parse(row.target),
+      notification: {
+        ...notification,
+        createdAt: new Date(notification.createdAt),
+        approvedAt: notification.approvedAt ? new Date(notification.approvedAt) : undefined,
+      },
+      attempts: row.attempts,
+      lastError: row.last_error,
+      failedAt: new Date(row.failed_at),
+      resolvedAt: row.resolved_at ? new Date(row.resolved_at) : undefined,
+    };
+  }
+}
@@ -0,0 +1,261 @@
+/**
+ * Digest Repository
+ *
+ * Persists notification digests: per channel, one open digest collects
+ * approved notifications until it is due, then it is sent and a new one is
+ * opened by the next notification.
+ *
+ * Notifications about the same source resource (e.g. ten pushes to one PR)
+ * are coalesced into a single entry that keeps the latest summary.
+ */
+
+import { randomUUID } from 'crypto';
+import { DigestFrequency } from '../types/core';
+import { SyncDatabase } from './database';
+
+export interface DigestEntry {
+  resourceKey: string; // "<sourceTool>:<sourceResourceId>"
+  resourceUrl?: string;
+  summary: string; // Of the latest notification
+  impact: string;
+  notificationIds: string[];
+  changeEventIds: string[];
+  firstAt: Date;
+  lastAt: Date;
+}
+
+export interface NotificationDigest {
+  id: string;
+  channelId: string;
+  frequency: DigestFrequency;
+  status: 'open' | 'sent';
+  dueAt: Date;
+  entries: DigestEntry[]; // In order of first notification
+  createdAt: Date;
+  sentAt?: Date;
+}
+
+export interface DigestNotification {
+  notificationId: string;
+  changeEventId: string;
+  resourceKey: string;
+  resourceUrl?: string;
+  summary: string;
+  impact: string;
+  at: Date;
+}
+
+export interface DigestRepository {
+  /**
+   * Add a notification to the channel's open digest, opening one due at `dueAt` if there is none
+   * Adding a notification that is already in the digest changes nothing.
+   */
+  addNotification(
+    channelId: string,
+    frequency: DigestFrequency,
+    dueAt: Date,
+    notification: DigestNotification
+  ): NotificationDigest;
+
+  getDigest(digestId: string): NotificationDigest | null;
+
+  /**
+   * Newest first
+   */
+  listDigests(filter?: { channelId?: string; status?: NotificationDigest['status']; limit?: number }): NotificationDigest[];
+
+  /**
+   * Open digests due at or before `now`, oldest first
+   */
+  listDueDigests(now: Date): NotificationDigest[];
+
+  /**
+   * Returns false when the digest was not open
+   */
+  markSent(digestId: string, sentAt: Date): boolean;
+}
+
+const DEFAULT_LIMIT = 100;
+
+/**
+ * SQLite implementation of DigestRepository
+ */
+export class SqliteDigestRepository implements DigestRepository {
+  constructor(private db: SyncDatabase) {
+    this.initSchema();
+  }
+
+  private initSchema(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS notification_digests (
+        id TEXT PRIMARY KEY,
+        channel_id TEXT NOT NULL,
+        frequency TEXT NOT NULL,
+        status TEXT NOT NULL,
+        due_at INTEGER NOT NULL,
+        created_at INTEGER NOT NULL,
+        sent_at INTEGER
+      )
+    `);
+
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS notification_digest_entries (
+        digest_id TEXT NOT NULL,
+        resource_key TEXT NOT NULL,
+        resource_url TEXT,
+        summary TEXT NOT NULL,
+        impact TEXT NOT NULL,
+        notification_ids TEXT NOT NULL,
+        change_event_ids TEXT NOT NULL,
+        first_at INTEGER NOT NULL,
+        last_at INTEGER NOT NULL,
+        PRIMARY KEY (digest_id, resource_key),
+        FOREIGN KEY (digest_id) REFERENCES notification_digests(id)
+      )
+    `);
+
+    this.db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_digests_channel_status ON notification_digests(channel_id, status);
+      CREATE INDEX IF NOT EXISTS idx_digests_due ON notification_digests(status, due_at);
+    `);
+  }
+
+  addNotification(
+    channelId: string,
+    frequency: DigestFrequency,
+    dueAt: Date,
+    notification: DigestNotification
+  ): NotificationDigest {
+    const add = this.db.transaction((): string => {
+      const open = this.db.prepare(`
+        SELECT id FROM notification_digests WHERE channel_id = ? AND status = 'open' ORDER BY created_at LIMIT 1
+      `).get(channelId) as { id: string } | undefined;
+
+      const digestId = open?.id ?? randomUUID();
+      if (!open) {
+        this.db.prepare(`
+          INSERT INTO notification_digests (id, channel_id, frequency, status, due_at, created_at)
+          VALUES (?, ?, ?, 'open', ?, ?)
+        `).run(digestId, channelId, frequency, dueAt.getTime(), notification.at.getTime());
+      }
+
+      const row = this.db.prepare(`
+        SELECT * FROM notification_digest_entries WHERE digest_id = ? AND resource_key = ?
+      `).get(digestId, notification.resourceKey) as any;
+
+      if (!row) {
+        this.db.prepare(`
+          INSERT INTO notification_digest_entries
+            (digest_id, resource_key, resource_url, summary, impact, notification_ids, change_event_ids, first_at, last_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `).run(
+          digestId,
+          notification.resourceKey,
+          notification.resourceUrl ?? null,
+          notification.summary,
+          notification.impact,
+          JSON.stringify([notification.notificationId]),
+          JSON.stringify([notification.changeEventId]),
+          notification.at.getTime(),
+          notification.at.getTime()
+        );
+        return digestId;
+      }
+
+      const entry = this.rowToEntry(row);
+      if (entry.notificationIds.includes(notification.notificationId)) {
+        return digestId;
+      }
+
+      this.db.prepare(`
+        UPDATE notification_digest_entries
+        SET resource_url = ?, summary = ?, impact = ?, notification_ids = ?, change_event_ids = ?, last_at = ?
+        WHERE digest_id = ? AND resource_key = ?
+      `).run(
+        notification.resourceUrl ?? entry.resourceUrl ?? null,
+        notification.summary,
+        notification.impact,
+        JSON.stringify([...entry.notificationIds, notification.notificationId]),
+        JSON.stringify(Array.from(new Set([...entry.changeEventIds, notification.changeEventId]))),
+        Math.max(entry.lastAt.getTime(), notification.at.getTime()),
+        digestId,
+        notification.resourceKey
+      );
+      return digestId;
+    });
+
+    return this.getDigest(add())!;
+  }
+
+  getDigest(digestId: string): NotificationDigest | null {
+    const row = this.db.prepare('SELECT * FROM notification_digests WHERE id = ?').get(digestId) as any;
+    if (!row) return null;
+    return this.rowToDigest(row);
+  }
+
+  listDigests(filter: { channelId?: string; status?: NotificationDigest['status']; limit?: number } = {}): NotificationDigest[] {
+    const clauses: string[] = [];
+    const params: unknown[] = [];
+
+    if (filter.channelId) {
+      clauses.push('channel_id = ?');
+      params.push(filter.channelId);
+    }
+    if (filter.status) {
+      clauses.push('status = ?');
+      params.push(filter.status);
+    }
+
+    const where = clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '';
+    const rows = this.db.prepare(`
+      SELECT * FROM notification_digests ${where} ORDER BY created_at DESC, rowid DESC LIMIT ?
+    `).all(...params, filter.limit ?? DEFAULT_LIMIT) as any[];
+
+    return rows.map(row => this.rowToDigest(row));
+  }
+
+  listDueDigests(now: Date): NotificationDigest[] {
+    const rows = this.db.prepare(`
+      SELECT * FROM notification_digests WHERE status = 'open' AND due_at <= ? ORDER BY due_at, created_at
+    `).all(now.getTime()) as any[];
+
+    return rows.map(row => this.rowToDigest(row));
+  }
+
+  markSent(digestId: string, sentAt: Date): boolean {
+    const result = this.db.prepare(`
+      UPDATE notification_digests SET status = 'sent', sent_at = ? WHERE id = ? AND status = 'open'
+    `).run(sentAt.getTime(), digestId);
+    return result.changes > 0;
+  }
+
+  private rowToDigest(row: any): NotificationDigest {
+    const entries = this.db.prepare(`
+      SELECT * FROM notification_digest_entries WHERE digest_id = ? ORDER BY first_at, rowid
+    `).all(row.id) as any[];
+
+    return {
+      id: row.id,
+      channelId: row.channel_id,
+      frequency: row.frequency,
+      status: row.status,
+      dueAt: new Date(row.due_at),
+      entries: entries.map(entry => this.rowToEntry(entry)),
+      createdAt: new Date(row.created_at),
+      sentAt: row.sent_at ? new Date(row.sent_at) : undefined,
+    };
+  }
+
+  private rowToEntry(row: any): DigestEntry {
+    return {
+      resourceKey: row.resource_key,
+      resourceUrl: row.resource_url ?? undefined,
+      summary: row.summary,
+      impact: row.impact,
+      notificationIds: JSON.parse(row.notification_ids),
+      changeEventIds: JSON.parse(row.change_event_ids),
+      firstAt: new Date(row.first_at),
+      lastAt: new Date(row.last_at),
+    };
+  }
+}
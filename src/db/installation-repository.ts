@@ -0,0 +1,158 @@
+/**
+ * Installation Repository
+ *
+ * Persists integration installations: which tool account belongs to which
+ * company group, with its webhook secrets and credentials. An account can be
+ * installed for only one company group.
+ */
+
+import { SourceTool } from '../types/core';
+import { IntegrationInstallation } from '../types/installations';
+import { SyncDatabase } from './database';
+
+export interface InstallationRepository {
+  /**
+   * Insert or replace an installation
+   * Throws when another installation already has the same tool account.
+   */
+  saveInstallation(installation: IntegrationInstallation): IntegrationInstallation;
+
+  getInstallation(installationId: string): IntegrationInstallation | null;
+
+  /**
+   * Installations of a company group (or all), oldest first
+   */
+  listInstallations(companyGroupId?: string): IntegrationInstallation[];
+
+  findByAccount(sourceTool: SourceTool, externalAccountId: string): IntegrationInstallation | null;
+
+  findByWebhookId(sourceTool: SourceTool, webhookId: string): IntegrationInstallation | null;
+
+  deleteInstallation(installationId: string): boolean;
+}
+
+/**
+ * SQLite implementation of InstallationRepository
+ */
+export class SqliteInstallationRepository implements InstallationRepository {
+  constructor(private db: SyncDatabase) {
+    this.initSchema();
+  }
+
+  private initSchema(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS integration_installations (
+        id TEXT PRIMARY KEY,
+        company_group_id TEXT NOT NULL,
+        source_tool TEXT NOT NULL,
+        account_type TEXT NOT NULL,
+        external_account_id TEXT NOT NULL,
+        webhook_ids TEXT NOT NULL,
+        webhook_secret TEXT NOT NULL,
+        previous_webhook_secret TEXT,
+        previous_secret_expires_at INTEGER,
+        credentials TEXT NOT NULL,
+        is_active INTEGER NOT NULL,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL,
+        secret_rotated_at INTEGER,
+        UNIQUE (source_tool, external_account_id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_installations_group
+        ON integration_installations(company_group_id, created_at);
+    `);
+  }
+
+  saveInstallation(installation: IntegrationInstallation): IntegrationInstallation {
+    this.db.prepare(`
+      INSERT INTO integration_installations (
+        id, company_group_id, source_tool, account_type, external_account_id, webhook_ids,
+        webhook_secret, previous_webhook_secret, previous_secret_expires_at, credentials,
+        is_active, created_at, updated_at, secret_rotated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET
+        company_group_id = excluded.company_group_id,
+        source_tool = excluded.source_tool,
+        account_type = excluded.account_type,
+        external_account_id = excluded.external_account_id,
+        webhook_ids = excluded.webhook_ids,
+        webhook_secret = excluded.webhook_secret,
+        previous_webhook_secret = excluded.previous_webhook_secret,
+        previous_secret_expires_at = excluded.previous_secret_expires_at,
+        credentials = excluded.credentials,
+        is_active = excluded.is_active,
+        updated_at = excluded.updated_at,
+        secret_rotated_at = excluded.secret_rotated_at
+    `).run(
+      installation.id,
+      installation.companyGroupId,
+      installation.sourceTool,
+      installation.accountType,
+      installation.externalAccountId,
+      JSON.stringify(installation.webhookIds),
+      installation.webhookSecret,
+      installation.previousWebhookSecret ?? null,
+      installation.previousSecretExpiresAt?.getTime() ?? null,
+      JSON.stringify(installation.credentials),
+      installation.isActive ? 1 : 0,
+      installation.createdAt.getTime(),
+      installation.updatedAt.getTime(),
+      installation.secretRotatedAt?.getTime() ?? null
+    );
+    return installation;
+  }
+
+  getInstallation(installationId: string): IntegrationInstallation | null {
+    const row = this.db.prepare('SELECT * FROM integration_installations WHERE id = ?').get(installationId);
+    return row ? rowToInstallation(row) : null;
+  }
+
+  listInstallations(companyGroupId?: string): IntegrationInstallation[] {
+    const rows = companyGroupId
+      ? this.db.prepare(`
+          SELECT * FROM integration_installations WHERE company_group_id = ? ORDER BY created_at, id
+        `).all(companyGroupId) as any[]
+      : this.db.prepare('SELECT * FROM integration_installations ORDER BY created_at, id').all() as any[];
+    return rows.map(rowToInstallation);
+  }
+
+  findByAccount(sourceTool: SourceTool, externalAccountId: string): IntegrationInstallation | null {
+    const row = this.db.prepare(`
+      SELECT * FROM integration_installations WHERE source_tool = ? AND external_account_id = ?
+    `).get(sourceTool, externalAccountId);
+    return row ? rowToInstallation(row) : null;
+  }
+
+  findByWebhookId(sourceTool: SourceTool, webhookId: string): IntegrationInstallation | null {
+    const row = this.db.prepare(`
+      SELECT installations.* FROM integration_installations installations, json_each(installations.webhook_ids) webhook
+      WHERE installations.source_tool = ? AND webhook.value = ?
+      LIMIT 1
+    `).get(sourceTool, webhookId);
+    return row ? rowToInstallation(row) : null;
+  }
+
+  deleteInstallation(installationId: string): boolean {
+    return this.db.prepare('DELETE FROM integration_installations WHERE id = ?').run(installationId).changes > 0;
+  }
+}
+
+function rowToInstallation(row: any): IntegrationInstallation {
+  return {
+    id: row.id,
+    companyGroupId: row.company_group_id,
+    sourceTool: row.source_tool,
+    accountType: row.account_type,
+    externalAccountId: row.external_account_id,
+    webhookIds: JSON.parse(row.webhook_ids),
+    webhookSecret: row.webhook_secret,
+    previousWebhookSecret: row.previous_webhook_secret ?? undefined,
+    previousSecretExpiresAt: row.previous_secret_expires_at != null ? new Date(row.previous_secret_expires_at) : undefined,
+    credentials: JSON.parse(row.credentials),
+    isActive: row.is_active === 1,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+    secretRotatedAt: row.secret_rotated_at != null ? new Date(row.secret_rotated_at) : undefined,
+  };
+}
@@ -0,0 +1,379 @@
+/**
+ * Notification Repository
+ *
+ * Persists notifications and an append-only log of every status change
+ * (pending -> approved/rejected -> sent), including who made it and why.
+ *
+ * Each notification carries a version that is incremented on every status
+ * change. Updates only apply when the stored version still matches, so two
+ * approvers acting on the same notification can't both succeed.
+ *
+ * Sent notifications are fanned out to individual users as recipients,
+ * each with the time it may be shown to them (later during quiet hours).
+ */
+
+import { Notification, NotificationStatus, Role } from '../types/core';
+import { SyncDatabase } from './database';
+
+/**
+ * Entry in the append-only status log
+ * The first entry of every notification has no previous status.
+ */
+export interface NotificationStatusChange {
+  sequence: number;
+  notificationId: string;
+  fromStatus?: NotificationStatus;
+  toStatus: NotificationStatus;
+  actor?: string;
+  reason?: string;
+  changedAt: Date;
+}
+
+/**
+ * A user a notification was fanned out to
+ */
+export interface NotificationRecipient {
+  userId: string;
+  deliverAt: Date;
+}
+
+/**
+ * A notification in a user's inbox
+ */
+export interface UserNotification {
+  notification: Notification;
+  deliverAt: Date;
+}
+
+export interface NotificationFilter {
+  status?: NotificationStatus;
+  channelId?: string;
+  role?: Role;
+  createdBefore?: Date;
+  createdAfter?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+export interface NotificationRepository {
+  /**
+   * Insert a new notification at version 1
+   */
+  createNotification(notification: Notification): Notification;
+
+  getNotification(notificationId: string): Notification | null;
+
+  /**
+   * The notification a channel got for a change event (there is at most one)
+   */
+  findNotification(changeEventId: string, channelId: string): Notification | null;
+
+  /**
+   * Oldest notifications first
+   */
+  listNotifications(filter?: NotificationFilter): Notification[];
+
+  /**
+   * Persist a status change if the stored notification is still at `expectedVersion`
+   * Returns null (and writes nothing) when it has been changed since it was read.
+   */
+  updateStatus(
+    notification: Notification,
+    expectedVersion: number,
+    change: { actor?: string; reason?: string }
+  ): Notification | null;
+
+  getStatusHistory(notificationId: string): NotificationStatusChange[];
+
+  /**
+   * Record who a notification was fanned out to (existing recipients are kept)
+   */
+  addRecipients(notificationId: string, recipients: NotificationRecipient[]): void;
+
+  /**
+   * A user's notifications, newest delivery first
+   * `deliverableAt` leaves out those still held back by quiet hours at that time.
+   */
+  listUserNotifications(
+    userId: string,
+    filter?: { deliverableAt?: Date; limit?: number; offset?: number }
+  ): UserNotification[];
+}
+
+const DEFAULT_LIMIT = 100;
+
+/**
+ * SQLite implementation of NotificationRepository
+ */
+export class SqliteNotificationRepository implements NotificationRepository {
+  constructor(private db: SyncDatabase) {
+    this.initSchema();
+  }
+
+  private initSchema(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS notifications (
+        id TEXT PRIMARY KEY,
+        change_event_id TEXT NOT NULL,
+        channel_id TEXT NOT NULL,
+        role TEXT,
+        summary TEXT NOT NULL,
+        impact TEXT NOT NULL,
+        relevance TEXT NOT NULL,
+        suggested_action TEXT,
+        status TEXT NOT NULL,
+        approved_by TEXT,
+        approved_at INTEGER,
+        rejected_by TEXT,
+        rejected_at INTEGER,
+        rejection_reason TEXT,
+        sent_at INTEGER,
+        version INTEGER NOT NULL,
+        created_at INTEGER NOT NULL
+      )
+    `);
+
+    // Append-only: rows are never updated or deleted
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS notification_status_history (
+        sequence INTEGER PRIMARY KEY AUTOINCREMENT,
+        notification_id TEXT NOT NULL,
+        from_status TEXT,
+        to_status TEXT NOT NULL,
+        actor TEXT,
+        reason TEXT,
+        changed_at INTEGER NOT NULL,
+        FOREIGN KEY (notification_id) REFERENCES notifications(id)
+      )
+    `);
+
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS notification_recipients (
+        notification_id TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        deliver_at INTEGER NOT NULL,
+        PRIMARY KEY (notification_id, user_id),
+        FOREIGN KEY (notification_id) REFERENCES notifications(id)
+      )
+    `);
+
+    this.db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_notification_recipients_user ON notification_recipients(user_id, deliver_at);
+      CREATE INDEX IF NOT EXISTS idx_notifications_status_created ON notifications(status, created_at);
+      CREATE INDEX IF NOT EXISTS idx_notifications_change_event ON notifications(change_event_id);
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_notifications_change_event_channel ON notifications(change_event_id, channel_id);
+      CREATE INDEX IF NOT EXISTS idx_notification_status_history ON notification_status_history(notification_id, sequence);
+    `);
+  }
+
+  createNotification(notification: Notification): Notification {
+    const created: Notification = { ...notification, version: 1 };
+
+    const insert = this.db.transaction(() => {
+      this.db.prepare(`
+        INSERT INTO notifications (id, change_event_id, channel_id, role, summary, impact, relevance, suggested_action, status, version, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 1, ?)
+      `).run(
+        created.id,
+        created.changeEventId,
+        created.channelId,
+        created.role ?? null,
+        created.summary,
+        created.impact,
+        created.relevance,
+        created.suggestedAction ?? null,
+        created.status,
+        created.createdAt.getTime()
+      );
+
+      this.appendHistory({
+        notificationId: created.id,
+        toStatus: created.status,
+        changedAt: created.createdAt,
+      });
+    });
+
+    insert();
+    return created;
+  }
+
+  getNotification(notificationId: string): Notification | null {
+    const row = this.db.prepare('SELECT * FROM notifications WHERE id = ?').get(notificationId) as any;
+    if (!row) return null;
+    return this.rowToNotification(row);
+  }
+
+  findNotification(changeEventId: string, channelId: string): Notification | null {
+    const row = this.db.prepare(
+      'SELECT * FROM notifications WHERE change_event_id = ? AND channel_id = ?'
+    ).get(changeEventId, channelId) as any;
+    if (!row) return null;
+    return this.rowToNotification(row);
+  }
+
+  listNotifications(filter: NotificationFilter = {}): Notification[] {
+    const clauses: string[] = [];
+    const params: unknown[] = [];
+
+    if (filter.status) {
+      clauses.push('status = ?');
+      params.push(filter.status);
+    }
+    if (filter.channelId) {
+      clauses.push('channel_id = ?');
+      params.push(filter.channelId);
+    }
+    if (filter.role) {
+      clauses.push('role = ?');
+      params.push(filter.role);
+    }
+    if (filter.createdBefore) {
+      clauses.push('created_at <= ?');
+      params.push(filter.createdBefore.getTime());
+    }
+    if (filter.createdAfter) {
+      clauses.push('created_at >= ?');
+      params.push(filter.createdAfter.getTime());
+    }
+
+    const where = clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '';
+    const rows = this.db.prepare(`
+      SELECT * FROM notifications ${where} ORDER BY created_at, id LIMIT ? OFFSET ?
+    `).all(...params, filter.limit ?? DEFAULT_LIMIT, filter.offset ?? 0) as any[];
+
+    return rows.map(row => this.rowToNotification(row));
+  }
+
+  updateStatus(
+    notification: Notification,
+    expectedVersion: number,
+    change: { actor?: string; reason?: string }
+  ): Notification | null {
+    const apply = this.db.transaction((): Notification | null => {
+      const previous = this.getNotification(notification.id);
+      if (!previous || previous.version !== expectedVersion) {
+        return null;
+      }
+
+      const updated: Notification = { ...notification, version: expectedVersion + 1 };
+      this.db.prepare(`
+        UPDATE notifications
+        SET status = ?, approved_by = ?, approved_at = ?, rejected_by = ?, rejected_at = ?, rejection_reason = ?, sent_at = ?, version = ?
+        WHERE id = ? AND version = ?
+      `).run(
+        updated.status,
+        updated.approvedBy ?? null,
+        updated.approvedAt?.getTime() ?? null,
+        updated.rejectedBy ?? null,
+        updated.rejectedAt?.getTime() ?? null,
+        updated.rejectionReason ?? null,
+        updated.sentAt?.getTime() ?? null,
+        updated.version,
+        updated.id,
+        expectedVersion
+      );
+
+      this.appendHistory({
+        notificationId: updated.id,
+        fromStatus: previous.status,
+        toStatus: updated.status,
+        actor: change.actor,
+        reason: change.reason,
+        changedAt: new Date(),
+      });
+
+      return updated;
+    });
+
+    return apply();
+  }
+
+  getStatusHistory(notificationId: string): NotificationStatusChange[] {
+    const rows = this.db.prepare(`
+      SELECT * FROM notification_status_history WHERE notification_id = ? ORDER BY sequence
+    `).all(notificationId) as any[];
+
+    return rows.map(row => ({
+      sequence: row.sequence,
+      notificationId: row.notification_id,
+      fromStatus: row.from_status || undefined,
+      toStatus: row.to_status,
+      actor: row.actor || undefined,
+      reason: row.reason || undefined,
+      changedAt: new Date(row.changed_at),
+    }));
+  }
+
+  addRecipients(notificationId: string, recipients: NotificationRecipient[]): void {
+    const insert = this.db.prepare(`
+      INSERT OR IGNORE INTO notification_recipients (notification_id, user_id, deliver_at) VALUES (?, ?, ?)
+    `);
+    const insertAll = this.db.transaction(() => {
+      for (const recipient of recipients) {
+        insert.run(notificationId, recipient.userId, recipient.deliverAt.getTime());
+      }
+    });
+    insertAll();
+  }
+
+  listUserNotifications(
+    userId: string,
+    filter: { deliverableAt?: Date; limit?: number; offset?: number } = {}
+  ): UserNotification[] {
+    const params: unknown[] = [userId];
+    let deliverable = '';
+    if (filter.deliverableAt) {
+      deliverable = 'AND r.deliver_at <= ?';
+      params.push(filter.deliverableAt.getTime());
+    }
+
+    const rows = this.db.prepare(`
+      SELECT n.*, r.deliver_at AS recipient_deliver_at
+      FROM notification_recipients r JOIN notifications n ON n.id = r.notification_id
+      WHERE r.user_id = ? ${deliverable}
+      ORDER BY r.deliver_at DESC, n.id
+      LIMIT ? OFFSET ?
+    `).all(...params, filter.limit ?? DEFAULT_LIMIT, filter.offset ?? 0) as any[];
+
+    return rows.map(row => ({
+      notification: this.rowToNotification(row),
+      deliverAt: new Date(row.recipient_deliver_at),
+    }));
+  }
+
+  private appendHistory(entry: Omit<NotificationStatusChange, 'sequence'>): void {
+    this.db.prepare(`
+      INSERT INTO notification_status_history (notification_id, from_status, to_status, actor, reason, changed_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(
+      entry.notificationId,
+      entry.fromStatus ?? null,
+      entry.toStatus,
+      entry.actor ?? null,
+      entry.reason ?? null,
+      entry.changedAt.getTime()
+    );
+  }
+
+  private rowToNotification(row: any): Notification {
+    return {
+      id: row.id,
+      changeEventId: row.change_event_id,
+      channelId: row.channel_id,
+      role: row.role || undefined,
+      summary: row.summary,
+      impact: row.impact,
+      relevance: row.relevance,
+      suggestedAction: row.suggested_action || undefined,
+      status: row.status,
+      approvedBy: row.approved_by || undefined,
+      approvedAt: row.approved_at ? new Date(row.approved_at) : undefined,
+      rejectedBy: row.rejected_by || undefined,
+      rejectedAt: row.rejected_at ? new Date(row.rejected_at) : undefined,
+      rejectionReason: row.rejection_reason || undefined,
+      sentAt: row.sent_at ? new Date(row.sent_at) : undefined,
+      version: row.version,
+      createdAt: new Date(row.created_at),
+    };
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * Notion Snapshot Repository
+ *
+ * Stores the last-seen text of each Notion page so the Notion integration
+ * can compute block-level diffs between versions. Notion itself has no
+ * version history API, so without a snapshot every edit looks like a new page.
+ */
+
+import { SyncDatabase } from './database';
+
+export interface NotionBlockSnapshot {
+  id: string;
+  type: string;
+  text: string;
+}
+
+export interface NotionPageSnapshot {
+  pageId: string;
+  lastEditedTime: string;
+  title: string;
+  blocks: NotionBlockSnapshot[];
+  properties: Record<string, { type: string; value: string }>;
+}
+
+export interface NotionSnapshotRepository {
+  getSnapshot(pageId: string): NotionPageSnapshot | null;
+  saveSnapshot(snapshot: NotionPageSnapshot): void;
+}
+
+/**
+ * SQLite implementation of NotionSnapshotRepository
+ */
+export class SqliteNotionSnapshotRepository implements NotionSnapshotRepository {
+  constructor(private db: SyncDatabase) {
+    this.initSchema();
+  }
+
+  private initSchema(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS notion_page_snapshots (
+        page_id TEXT PRIMARY KEY,
+        last_edited_time TEXT NOT NULL,
+        title TEXT NOT NULL,
+        blocks TEXT NOT NULL,
+        properties TEXT NOT NULL,
+        saved_at INTEGER NOT NULL
+      )
+    `);
+  }
+
+  getSnapshot(pageId: string): NotionPageSnapshot | null {
+    const row = this.db.prepare('SELECT * FROM notion_page_snapshots WHERE page_id = ?').get(pageId) as any;
+    if (!row) return null;
+
+    return {
+      pageId: row.page_id,
+      lastEditedTime: row.last_edited_time,
+      title: row.title,
+      blocks: JSON.parse(row.blocks),
+      properties: JSON.parse(row.properties),
+    };
+  }
+
+  saveSnapshot(snapshot: NotionPageSnapshot): void {
+    this.db.prepare(`
+      INSERT INTO notion_page_snapshots (page_id, last_edited_time, title, blocks, properties, saved_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT(page_id) DO UPDATE SET
+        last_edited_time = excluded.last_edited_time,
+        title = excluded.title,
+        blocks = excluded.blocks,
+        properties = excluded.properties,
+        saved_at = excluded.saved_at
+    `).run(
+      snapshot.pageId,
+      snapshot.lastEditedTime,
+      snapshot.title,
+      JSON.stringify(snapshot.blocks),
+      JSON.stringify(snapshot.properties),
+      Date.now()
+    );
+  }
+}
@@ -0,0 +1,310 @@
+/**
+ * Ownership Repository
+ *
+ * Stores the three ownership sources the registry merges:
+ * - Manual path-glob rules per company group
+ * - Imported CODEOWNERS files per repository
+ * - Historical commit authorship per file path
+ * plus the mapping from owners (CODEOWNERS entries, commit authors) to roles and teams.
+ */
+
+import { CodeOwnership, OwnerMapping, OwnershipRule } from '../types/code-changes';
+import { SyncDatabase } from './database';
+
+export interface ImportedCodeOwners {
+  companyGroupId: string;
+  repository: string;
+  entries: CodeOwnership[]; // In file order; the last matching entry wins
+  importedAt: Date;
+}
+
+export interface PathAuthorship {
+  author: string;
+  commits: number;
+  lastCommittedAt: Date;
+}
+
+export interface OwnershipRepository {
+  /**
+   * Insert or replace a manual rule
+   */
+  saveRule(rule: OwnershipRule): OwnershipRule;
+
+  getRule(ruleId: string): OwnershipRule | null;
+
+  /**
+   * Rules for a company group, oldest first
+   * With a repository, only rules for that repository or for every repository
+   */
+  listRules(companyGroupId: string, repository?: string): OwnershipRule[];
+
+  deleteRule(ruleId: string): boolean;
+
+  /**
+   * Insert or replace the roles and teams of an owner
+   */
+  saveOwnerMapping(mapping: OwnerMapping): OwnerMapping;
+
+  getOwnerMapping(companyGroupId: string, owner: string): OwnerMapping | null;
+
+  listOwnerMappings(companyGroupId: string): OwnerMapping[];
+
+  deleteOwnerMapping(companyGroupId: string, owner: string): boolean;
+
+  /**
+   * Replace a repository's CODEOWNERS entries
+   */
+  saveCodeOwners(codeOwners: ImportedCodeOwners): void;
+
+  getCodeOwners(companyGroupId: string, repository: string): ImportedCodeOwners | null;
+
+  /**
+   * Count one commit by `author` to each path
+   */
+  recordAuthorship(
+    companyGroupId: string,
+    repository: string,
+    paths: string[],
+    author: string,
+    committedAt: Date
+  ): void;
+
+  /**
+   * Authors of a path, most commits first
+   */
+  getPathAuthors(companyGroupId: string, repository: string, path: string): PathAuthorship[];
+}
+
+/**
+ * Owners are matched case-insensitively with or without the leading "@",
+ * so a commit author "alice" matches the CODEOWNERS entry "@Alice"
+ */
+export function ownerKey(owner: string): string {
+  return owner.trim().replace(/^@/, '').toLowerCase();
+}
+
+/**
+ * SQLite implementation of OwnershipRepository
+ */
+export class SqliteOwnershipRepository implements OwnershipRepository {
+  constructor(private db: SyncDatabase) {
+    this.initSchema();
+  }
+
+  private initSchema(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS ownership_rules (
+        id TEXT PRIMARY KEY,
+        company_group_id TEXT NOT NULL,
+        repository TEXT,
+        pattern TEXT NOT NULL,
+        component TEXT,
+        roles TEXT NOT NULL,
+        teams TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      )
+    `);
+
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS ownership_owner_mappings (
+        company_group_id TEXT NOT NULL,
+        owner_key TEXT NOT NULL,
+        owner TEXT NOT NULL,
+        roles TEXT NOT NULL,
+        teams TEXT NOT NULL,
+        updated_at INTEGER NOT NULL,
+        PRIMARY KEY (company_group_id, owner_key)
+      )
+    `);
+
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS ownership_codeowners (
+        company_group_id TEXT NOT NULL,
+        repository TEXT NOT NULL,
+        entries TEXT NOT NULL,
+        imported_at INTEGER NOT NULL,
+        PRIMARY KEY (company_group_id, repository)
+      )
+    `);
+
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS ownership_authorship (
+        company_group_id TEXT NOT NULL,
+        repository TEXT NOT NULL,
+        path TEXT NOT NULL,
+        author_key TEXT NOT NULL,
+        author TEXT NOT NULL,
+        commits INTEGER NOT NULL,
+        last_committed_at INTEGER NOT NULL,
+        PRIMARY KEY (company_group_id, repository, path, author_key)
+      )
+    `);
+
+    this.db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_ownership_rules_group ON ownership_rules(company_group_id, created_at);
+    `);
+  }
+
+  saveRule(rule: OwnershipRule): OwnershipRule {
+    this.db.prepare(`
+      INSERT OR REPLACE INTO ownership_rules (id, company_group_id, repository, pattern, component, roles, teams, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      rule.id,
+      rule.companyGroupId,
+      rule.repository ?? null,
+      rule.pattern,
+      rule.component ?? null,
+      JSON.stringify(rule.roles),
+      JSON.stringify(rule.teams),
+      rule.createdAt.getTime(),
+      rule.updatedAt.getTime()
+    );
+    return rule;
+  }
+
+  getRule(ruleId: string): OwnershipRule | null {
+    const row = this.db.prepare('SELECT * FROM ownership_rules WHERE id = ?').get(ruleId) as any;
+    if (!row) return null;
+    return this.rowToRule(row);
+  }
+
+  listRules(companyGroupId: string, repository?: string): OwnershipRule[] {
+    const rows = repository === undefined
+      ? this.db.prepare(`
+          SELECT * FROM ownership_rules WHERE company_group_id = ? ORDER BY created_at, rowid
+        `).all(companyGroupId) as any[]
+      : this.db.prepare(`
+          SELECT * FROM ownership_rules
+          WHERE company_group_id = ? AND (repository IS NULL OR repository = ?)
+          ORDER BY created_at, rowid
+        `).all(companyGroupId, repository) as any[];
+    return rows.map(row => this.rowToRule(row));
+  }
+
+  deleteRule(ruleId: string): boolean {
+    return this.db.prepare('DELETE FROM ownership_rules WHERE id = ?').run(ruleId).changes > 0;
+  }
+
+  saveOwnerMapping(mapping: OwnerMapping): OwnerMapping {
+    this.db.prepare(`
+      INSERT OR REPLACE INTO ownership_owner_mappings (company_group_id, owner_key, owner, roles, teams, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(
+      mapping.companyGroupId,
+      ownerKey(mapping.owner),
+      mapping.owner,
+      JSON.stringify(mapping.roles),
+      JSON.stringify(mapping.teams),
+      mapping.updatedAt.getTime()
+    );
+    return mapping;
+  }
+
+  getOwnerMapping(companyGroupId: string, owner: string): OwnerMapping | null {
+    const row = this.db.prepare(`
+      SELECT * FROM ownership_owner_mappings WHERE company_group_id = ? AND owner_key = ?
+    `).get(companyGroupId, ownerKey(owner)) as any;
+    if (!row) return null;
+    return this.rowToOwnerMapping(row);
+  }
+
+  listOwnerMappings(companyGroupId: string): OwnerMapping[] {
+    const rows = this.db.prepare(`
+      SELECT * FROM ownership_owner_mappings WHERE company_group_id = ? ORDER BY owner_key
+    `).all(companyGroupId) as any[];
+    return rows.map(row => this.rowToOwnerMapping(row));
+  }
+
+  deleteOwnerMapping(companyGroupId: string, owner: string): boolean {
+    return this.db.prepare(`
+      DELETE FROM ownership_owner_mappings WHERE company_group_id = ? AND owner_key = ?
+    `).run(companyGroupId, ownerKey(owner)).changes > 0;
+  }
+
+  saveCodeOwners(codeOwners: ImportedCodeOwners): void {
+    this.db.prepare(`
+      INSERT OR REPLACE INTO ownership_codeowners (company_group_id, repository, entries, imported_at)
+      VALUES (?, ?, ?, ?)
+    `).run(
+      codeOwners.companyGroupId,
+      codeOwners.repository,
+      JSON.stringify(codeOwners.entries),
+      codeOwners.importedAt.getTime()
+    );
+  }
+
+  getCodeOwners(companyGroupId: string, repository: string): ImportedCodeOwners | null {
+    const row = this.db.prepare(`
+      SELECT * FROM ownership_codeowners WHERE company_group_id = ? AND repository = ?
+    `).get(companyGroupId, repository) as any;
+    if (!row) return null;
+    return {
+      companyGroupId: row.company_group_id,
+      repository: row.repository,
+      entries: JSON.parse(row.entries),
+      importedAt: new Date(row.imported_at),
+    };
+  }
+
+  recordAuthorship(
+    companyGroupId: string,
+    repository: string,
+    paths: string[],
+    author: string,
+    committedAt: Date
+  ): void {
+    const upsert = this.db.prepare(`
+      INSERT INTO ownership_authorship (company_group_id, repository, path, author_key, author, commits, last_committed_at)
+      VALUES (?, ?, ?, ?, ?, 1, ?)
+      ON CONFLICT (company_group_id, repository, path, author_key) DO UPDATE SET
+        commits = commits + 1,
+        last_committed_at = MAX(last_committed_at, excluded.last_committed_at)
+    `);
+
+    const record = this.db.transaction((uniquePaths: string[]) => {
+      for (const path of uniquePaths) {
+        upsert.run(companyGroupId, repository, path, ownerKey(author), author, committedAt.getTime());
+      }
+    });
+    record(Array.from(new Set(paths)));
+  }
+
+  getPathAuthors(companyGroupId: string, repository: string, path: string): PathAuthorship[] {
+    const rows = this.db.prepare(`
+      SELECT * FROM ownership_authorship
+      WHERE company_group_id = ? AND repository = ? AND path = ?
+      ORDER BY commits DESC, last_committed_at DESC
+    `).all(companyGroupId, repository, path) as any[];
+    return rows.map(row => ({
+      author: row.author,
+      commits: row.commits,
+      lastCommittedAt: new Date(row.last_committed_at),
+    }));
+  }
+
+  private rowToRule(row: any): OwnershipRule {
+    return {
+      id: row.id,
+      companyGroupId: row.company_group_id,
+      repository: row.repository ?? undefined,
+      pattern: row.pattern,
+      component: row.component ?? undefined,
+      roles: JSON.parse(row.roles),
+      teams: JSON.parse(row.teams),
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  private rowToOwnerMapping(row: any): OwnerMapping {
+    return {
+      companyGroupId: row.company_group_id,
+      owner: row.owner,
+      roles: JSON.parse(row.roles),
+      teams: JSON.parse(row.teams),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+}
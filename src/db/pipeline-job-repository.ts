@@ -0,0 +1,311 @@
+/**
+ * Pipeline Job Repository
+ *
+ * Durable queue between the pipeline stages. A normalized change event is
+ * queued for interpretation, an interpreted one for routing, and a routed
+ * code change for proposals, so a slow or failing model call never blocks
+ * ingress and never loses the change.
+ *
+ * A job is locked while a worker runs it and deleted once it succeeds, in the
+ * same transaction that queues the stage after it.
+ * Jobs that still fail after every retry move to the dead-letter table,
+ * where they stay until someone replays them.
+ */
+
+import { randomUUID } from 'crypto';
+import { SyncDatabase } from './database';
+
+export type PipelineStage = 'interpret' | 'route' | 'propose';
+
+export interface PipelineJob {
+  id: string;
+  companyGroupId: string;
+  changeEventId: string;
+  stage: PipelineStage;
+  correlationSummary?: string; // Carried from correlation into the notification summary
+  attempts: number;
+  runAt: Date;
+  lockedAt?: Date; // Set while a worker is running the job
+  lastError?: string;
+  createdAt: Date;
+}
+
+export interface PipelineDeadLetter {
+  id: string;
+  jobId: string;
+  companyGroupId: string;
+  changeEventId: string;
+  stage: PipelineStage;
+  correlationSummary?: string;
+  attempts: number;
+  lastError: string;
+  failedAt: Date;
+  replayedAt?: Date; // Set once the job is queued again
+}
+
+export interface NewPipelineJob {
+  companyGroupId: string;
+  changeEventId: string;
+  stage: PipelineStage;
+  correlationSummary?: string;
+  runAt?: Date;
+}
+
+export interface PipelineJobRepository {
+  enqueue(job: NewPipelineJob): PipelineJob;
+
+  getJob(jobId: string): PipelineJob | null;
+
+  /**
+   * Queued and running jobs, soonest first
+   */
+  listJobs(filter?: { changeEventId?: string }): PipelineJob[];
+
+  /**
+   * Lock up to `limit` due jobs, soonest first
+   * Jobs locked before `staleBefore` belong to a worker that died and are taken over.
+   */
+  claimDueJobs(now: Date, limit: number, staleBefore: Date): PipelineJob[];
+
+  /**
+   * Delete a finished job and queue the jobs that follow it, all or nothing
+   */
+  completeJob(jobId: string, next?: NewPipelineJob[]): PipelineJob[];
+
+  /**
+   * Unlock a failed job so it runs again at `runAt`
+   */
+  retryJob(jobId: string, attempts: number, lastError: string, runAt: Date): void;
+
+  /**
+   * Move a job that used up its attempts to the dead-letter table
+   */
+  deadLetterJob(jobId: string, attempts: number, lastError: string, failedAt: Date): PipelineDeadLetter;
+
+  getDeadLetter(deadLetterId: string): PipelineDeadLetter | null;
+
+  /**
+   * Oldest failures first
+   */
+  listDeadLetters(filter?: { changeEventId?: string; unreplayedOnly?: boolean }): PipelineDeadLetter[];
+
+  markReplayed(deadLetterId: string, replayedAt: Date): void;
+}
+
+/**
+ * SQLite implementation of PipelineJobRepository
+ */
+export class SqlitePipelineJobRepository implements PipelineJobRepository {
+  constructor(private db: SyncDatabase) {
+    this.initSchema();
+  }
+
+  private initSchema(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS pipeline_jobs (
+        id TEXT PRIMARY KEY,
+        company_group_id TEXT NOT NULL,
+        change_event_id TEXT NOT NULL,
+        stage TEXT NOT NULL,
+        correlation_summary TEXT,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        run_at INTEGER NOT NULL,
+        locked_at INTEGER,
+        last_error TEXT,
+        created_at INTEGER NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_pipeline_jobs_run_at ON pipeline_jobs(run_at);
+      CREATE INDEX IF NOT EXISTS idx_pipeline_jobs_change_event ON pipeline_jobs(change_event_id);
+
+      CREATE TABLE IF NOT EXISTS pipeline_dead_letters (
+        id TEXT PRIMARY KEY,
+        job_id TEXT NOT NULL,
+        company_group_id TEXT NOT NULL,
+        change_event_id TEXT NOT NULL,
+        stage TEXT NOT NULL,
+        correlation_summary TEXT,
+        attempts INTEGER NOT NULL,
+        last_error TEXT NOT NULL,
+        failed_at INTEGER NOT NULL,
+        replayed_at INTEGER
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_pipeline_dead_letters_change_event ON pipeline_dead_letters(change_event_id);
+    `);
+  }
+
+  enqueue(job: NewPipelineJob): PipelineJob {
+    const now = new Date();
+    const queued: PipelineJob = {
+      id: randomUUID(),
+      companyGroupId: job.companyGroupId,
+      changeEventId: job.changeEventId,
+      stage: job.stage,
+      correlationSummary: job.correlationSummary,
+      attempts: 0,
+      runAt: job.runAt ?? now,
+      createdAt: now,
+    };
+
+    this.db.prepare(`
+      INSERT INTO pipeline_jobs (id, company_group_id, change_event_id, stage, correlation_summary, attempts, run_at, created_at)
+      VALUES (?, ?, ?, ?, ?, 0, ?, ?)
+    `).run(
+      queued.id,
+      queued.companyGroupId,
+      queued.changeEventId,
+      queued.stage,
+      queued.correlationSummary ?? null,
+      queued.runAt.getTime(),
+      queued.createdAt.getTime()
+    );
+
+    return queued;
+  }
+
+  getJob(jobId: string): PipelineJob | null {
+    const row = this.db.prepare('SELECT * FROM pipeline_jobs WHERE id = ?').get(jobId);
+    return row ? rowToJob(row) : null;
+  }
+
+  listJobs(filter: { changeEventId?: string } = {}): PipelineJob[] {
+    const rows = filter.changeEventId
+      ? this.db.prepare('SELECT * FROM pipeline_jobs WHERE change_event_id = ? ORDER BY run_at, created_at').all(filter.changeEventId) as any[]
+      : this.db.prepare('SELECT * FROM pipeline_jobs ORDER BY run_at, created_at').all() as any[];
+    return rows.map(rowToJob);
+  }
+
+  claimDueJobs(now: Date, limit: number, staleBefore: Date): PipelineJob[] {
+    const claim = this.db.transaction((): PipelineJob[] => {
+      const rows = this.db.prepare(`
+        SELECT * FROM pipeline_jobs
+        WHERE (locked_at IS NULL AND run_at <= ?) OR locked_at <= ?
+        ORDER BY run_at, created_at
+        LIMIT ?
+      `).all(now.getTime(), staleBefore.getTime(), limit) as any[];
+
+      const lock = this.db.prepare('UPDATE pipeline_jobs SET locked_at = ? WHERE id = ?');
+      for (const row of rows) {
+        lock.run(now.getTime(), row.id);
+      }
+
+      return rows.map(row => rowToJob({ ...row, locked_at: now.getTime() }));
+    });
+
+    return claim();
+  }
+
+  completeJob(jobId: string, next: NewPipelineJob[] = []): PipelineJob[] {
+    const complete = this.db.transaction((): PipelineJob[] => {
+      this.db.prepare('DELETE FROM pipeline_jobs WHERE id = ?').run(jobId);
+      return next.map(job => this.enqueue(job));
+    });
+
+    return complete();
+  }
+
+  retryJob(jobId: string, attempts: number, lastError: string, runAt: Date): void {
+    this.db.prepare(`
+      UPDATE pipeline_jobs SET attempts = ?, last_error = ?, run_at = ?, locked_at = NULL WHERE id = ?
+    `).run(attempts, lastError, runAt.getTime(), jobId);
+  }
+
+  deadLetterJob(jobId: string, attempts: number, lastError: string, failedAt: Date): PipelineDeadLetter {
+    const move = this.db.transaction((): PipelineDeadLetter => {
+      const job = this.getJob(jobId);
+      if (!job) {
+        throw new Error(`Pipeline job not found: ${jobId}`);
+      }
+
+      const deadLetter: PipelineDeadLetter = {
+        id: randomUUID(),
+        jobId,
+        companyGroupId: job.companyGroupId,
+        changeEventId: job.changeEventId,
+        stage: job.stage,
+        correlationSummary: job.correlationSummary,
+        attempts,
+        lastError,
+        failedAt,
+      };
+
+      this.db.prepare(`
+        INSERT INTO pipeline_dead_letters (
+          id, job_id, company_group_id, change_event_id, stage, correlation_summary, attempts, last_error, failed_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        deadLetter.id,
+        jobId,
+        deadLetter.companyGroupId,
+        deadLetter.changeEventId,
+        deadLetter.stage,
+        deadLetter.correlationSummary ?? null,
+        attempts,
+        lastError,
+        failedAt.getTime()
+      );
+      this.completeJob(jobId);
+
+      return deadLetter;
+    });
+
+    return move();
+  }
+
+  getDeadLetter(deadLetterId: string): PipelineDeadLetter | null {
+    const row = this.db.prepare('SELECT * FROM pipeline_dead_letters WHERE id = ?').get(deadLetterId);
+    return row ? rowToDeadLetter(row) : null;
+  }
+
+  listDeadLetters(filter: { changeEventId?: string; unreplayedOnly?: boolean } = {}): PipelineDeadLetter[] {
+    const clauses: string[] = [];
+    const params: unknown[] = [];
+
+    if (filter.changeEventId) {
+      clauses.push('change_event_id = ?');
+      params.push(filter.changeEventId);
+    }
+    if (filter.unreplayedOnly) {
+      clauses.push('replayed_at IS NULL');
+    }
+
+    const where = clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '';
+    const rows = this.db.prepare(`SELECT * FROM pipeline_dead_letters ${where} ORDER BY failed_at`).all(...params) as any[];
+    return rows.map(rowToDeadLetter);
+  }
+
+  markReplayed(deadLetterId: string, replayedAt: Date): void {
+    this.db.prepare('UPDATE pipeline_dead_letters SET replayed_at = ? WHERE id = ?').run(replayedAt.getTime(), deadLetterId);
+  }
+}
+
+function rowToJob(row: any): PipelineJob {
+  return {
+    id: row.id,
+    companyGroupId: row.company_group_id,
+    changeEventId: row.change_event_id,
+    stage: row.stage,
+    correlationSummary: row.correlation_summary ?? undefined,
+    attempts: row.attempts,
+    runAt: new Date(row.run_at),
+    lockedAt: row.locked_at ? new Date(row.locked_at) : undefined,
+    lastError: row.last_error ?? undefined,
+    createdAt: new Date(row.created_at),
+  };
+}
+
+function rowToDeadLetter(row: any): PipelineDeadLetter {
+  return {
+    id: row.id,
+    jobId: row.job_id,
+    companyGroupId: row.company_group_id,
+    changeEventId: row.change_event_id,
+    stage: row.stage,
+    correlationSummary: row.correlation_summary ?? undefined,
+    attempts: row.attempts,
+    lastError: row.last_error,
+    failedAt: new Date(row.failed_at),
+    replayedAt: row.replayed_at ? new Date(row.replayed_at) : undefined,
+  };
+}
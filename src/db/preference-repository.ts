@@ -0,0 +1,102 @@
+/**
+ * Preference Repository
+ *
+ * Persists per-user notification preferences (mutes, minimum
+ * classification, quiet hours) and the resources each user follows.
+ */
+
+import { NotificationPreferences } from '../types/core';
+import { SyncDatabase } from './database';
+
+export interface PreferenceRepository {
+  /**
+   * Insert or replace a user's preferences, follows included
+   */
+  savePreferences(preferences: NotificationPreferences): NotificationPreferences;
+
+  getPreferences(userId: string): NotificationPreferences | null;
+}
+
+/**
+ * SQLite implementation of PreferenceRepository
+ */
+export class SqlitePreferenceRepository implements PreferenceRepository {
+  constructor(private db: SyncDatabase) {
+    this.initSchema();
+  }
+
+  private initSchema(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS notification_preferences (
+        user_id TEXT PRIMARY KEY,
+        company_group_id TEXT NOT NULL,
+        muted_repositories TEXT NOT NULL,
+        muted_components TEXT NOT NULL,
+        muted_tools TEXT NOT NULL,
+        minimum_classification TEXT,
+        quiet_hours TEXT,
+        updated_at INTEGER NOT NULL
+      )
+    `);
+
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS notification_follows (
+        user_id TEXT NOT NULL,
+        tool TEXT NOT NULL,
+        resource_id TEXT NOT NULL,
+        PRIMARY KEY (user_id, tool, resource_id)
+      )
+    `);
+  }
+
+  savePreferences(preferences: NotificationPreferences): NotificationPreferences {
+    const save = this.db.transaction(() => {
+      this.db.prepare(`
+        INSERT OR REPLACE INTO notification_preferences
+          (user_id, company_group_id, muted_repositories, muted_components, muted_tools, minimum_classification, quiet_hours, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        preferences.userId,
+        preferences.companyGroupId,
+        JSON.stringify(preferences.mutedRepositories),
+        JSON.stringify(preferences.mutedComponents),
+        JSON.stringify(preferences.mutedTools),
+        preferences.minimumClassification ?? null,
+        preferences.quietHours ? JSON.stringify(preferences.quietHours) : null,
+        preferences.updatedAt.getTime()
+      );
+
+      this.db.prepare('DELETE FROM notification_follows WHERE user_id = ?').run(preferences.userId);
+      const follow = this.db.prepare(`
+        INSERT OR IGNORE INTO notification_follows (user_id, tool, resource_id) VALUES (?, ?, ?)
+      `);
+      for (const resource of preferences.follows) {
+        follow.run(preferences.userId, resource.tool, resource.resourceId);
+      }
+    });
+
+    save();
+    return preferences;
+  }
+
+  getPreferences(userId: string): NotificationPreferences | null {
+    const row = this.db.prepare('SELECT * FROM notification_preferences WHERE user_id = ?').get(userId) as any;
+    if (!row) return null;
+
+    const follows = this.db.prepare(`
+      SELECT tool, resource_id FROM notification_follows WHERE user_id = ? ORDER BY rowid
+    `).all(userId) as any[];
+
+    return {
+      userId: row.user_id,
+      companyGroupId: row.company_group_id,
+      mutedRepositories: JSON.parse(row.muted_repositories),
+      mutedComponents: JSON.parse(row.muted_components),
+      mutedTools: JSON.parse(row.muted_tools),
+      minimumClassification: row.minimum_classification ?? undefined,
+      quietHours: row.quiet_hours ? JSON.parse(row.quiet_hours) : undefined,
+      follows: follows.map(follow => ({ tool: follow.tool, resourceId: follow.resource_id })),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+}
@@ -0,0 +1,168 @@
+/**
+ * Proposal Repository
+ *
+ * Persists CodeChangeProposals. Status changes are conditional on the
+ * status the caller read, so a proposal can't be approved twice or applied
+ * after someone rejected it.
+ */
+
+import { CodeChangeProposal } from '../types/code-changes';
+import { SyncDatabase } from './database';
+
+export interface ProposalFilter {
+  changeEventId?: string;
+  status?: CodeChangeProposal['status'];
+  type?: CodeChangeProposal['type'];
+  limit?: number;
+  offset?: number;
+}
+
+export interface ProposalRepository {
+  createProposal(proposal: CodeChangeProposal): CodeChangeProposal;
+
+  getProposal(proposalId: string): CodeChangeProposal | null;
+
+  /**
+   * Oldest first
+   */
+  listProposals(filter?: ProposalFilter): CodeChangeProposal[];
+
+  /**
+   * Write `proposal` only if the stored status is still `expectedStatus`
+   * Returns false when another update got there first.
+   */
+  updateProposal(proposal: CodeChangeProposal, expectedStatus: CodeChangeProposal['status']): boolean;
+}
+
+/**
+ * SQLite implementation of ProposalRepository
+ */
+export class SqliteProposalRepository implements ProposalRepository {
+  constructor(private db: SyncDatabase) {
+    this.initSchema();
+  }
+
+  private initSchema(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS code_change_proposals (
+        id TEXT PRIMARY KEY,
+        change_event_id TEXT NOT NULL,
+        type TEXT NOT NULL,
+        title TEXT,
+        content TEXT NOT NULL,
+        target_resource TEXT,
+        status TEXT NOT NULL,
+        approved_by TEXT,
+        approved_at INTEGER,
+        rejected_by TEXT,
+        rejected_at INTEGER,
+        rejection_reason TEXT,
+        applied_at INTEGER,
+        applied_resource_url TEXT,
+        last_apply_error TEXT,
+        created_at INTEGER NOT NULL
+      )
+    `);
+
+    this.db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_proposals_change_event ON code_change_proposals(change_event_id);
+      CREATE INDEX IF NOT EXISTS idx_proposals_status ON code_change_proposals(status, created_at);
+    `);
+  }
+
+  createProposal(proposal: CodeChangeProposal): CodeChangeProposal {
+    this.db.prepare(`
+      INSERT INTO code_change_proposals (id, change_event_id, type, title, content, target_resource, status, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      proposal.id,
+      proposal.changeEventId,
+      proposal.type,
+      proposal.title ?? null,
+      proposal.content,
+      proposal.targetResource ? JSON.stringify(proposal.targetResource) : null,
+      proposal.status,
+      proposal.createdAt.getTime()
+    );
+    return proposal;
+  }
+
+  getProposal(proposalId: string): CodeChangeProposal | null {
+    const row = this.db.prepare('SELECT * FROM code_change_proposals WHERE id = ?').get(proposalId) as any;
+    if (!row) return null;
+    return this.rowToProposal(row);
+  }
+
+  listProposals(filter: ProposalFilter = {}): CodeChangeProposal[] {
+    const clauses: string[] = [];
+    const params: unknown[] = [];
+
+    if (filter.changeEventId) {
+      clauses.push('change_event_id = ?');
+      params.push(filter.changeEventId);
+    }
+    if (filter.status) {
+      clauses.push('status = ?');
+      params.push(filter.status);
+    }
+    if (filter.type) {
+      clauses.push('type = ?');
+      params.push(filter.type);
+    }
+
+    const where = clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '';
+    const rows = this.db.prepare(`
+      SELECT * FROM code_change_proposals ${where}
+      ORDER BY created_at, rowid
+      LIMIT ? OFFSET ?
+    `).all(...params, filter.limit ?? 100, filter.offset ?? 0) as any[];
+    return rows.map(row => this.rowToProposal(row));
+  }
+
+  updateProposal(proposal: CodeChangeProposal, expectedStatus: CodeChangeProposal['status']): boolean {
+    const result = this.db.prepare(`
+      UPDATE code_change_proposals SET
+        title = ?, content = ?, target_resource = ?, status = ?,
+        approved_by = ?, approved_at = ?, rejected_by = ?, rejected_at = ?, rejection_reason = ?,
+        applied_at = ?, applied_resource_url = ?, last_apply_error = ?
+      WHERE id = ? AND status = ?
+    `).run(
+      proposal.title ?? null,
+      proposal.content,
+      proposal.targetResource ? JSON.stringify(proposal.targetResource) : null,
+      proposal.status,
+      proposal.approvedBy ?? null,
+      proposal.approvedAt?.getTime() ?? null,
+      proposal.rejectedBy ?? null,
+      proposal.rejectedAt?.getTime() ?? null,
+      proposal.rejectionReason ?? null,
+      proposal.appliedAt?.getTime() ?? null,
+      proposal.appliedResourceUrl ?? null,
+      proposal.lastApplyError ?? null,
+      proposal.id,
+      expectedStatus
+    );
+    return result.changes > 0;
+  }
+
+  private rowToProposal(row: any): CodeChangeProposal {
+    return {
+      id: row.id,
+      changeEventId: row.change_event_id,
+      type: row.type,
+      title: row.title ?? undefined,
+      content: row.content,
+      targetResource: row.target_resource ? JSON.parse(row.target_resource) : undefined,
+      status: row.status,
+      approvedBy: row.approved_by ?? undefined,
+      approvedAt: row.approved_at ? new Date(row.approved_at) : undefined,
+      rejectedBy: row.rejected_by ?? undefined,
+      rejectedAt: row.rejected_at ? new Date(row.rejected_at) : undefined,
+      rejectionReason: row.rejection_reason ?? undefined,
+      appliedAt: row.applied_at ? new Date(row.applied_at) : undefined,
+      appliedResourceUrl: row.applied_resource_url ?? undefined,
+      lastApplyError: row.last_apply_error ?? undefined,
+      createdAt: new Date(row.created_at),
+    };
+  }
+}
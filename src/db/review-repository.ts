@@ -0,0 +1,279 @@
+/**
+ * Review Repository
+ *
+ * Persists the human review queue for low-confidence interpretations, and
+ * the labeled examples reviewers' corrections leave behind. Held change
+ * events are stored whole, so a resolved review can be routed without
+ * re-running detection or interpretation.
+ */
+
+import {
+  ChangeClassification,
+  ChangeEvent,
+  ChangeIntent,
+  ConfidenceLevel,
+  Role,
+  SourceTool,
+} from '../types/core';
+import { SyncDatabase } from './database';
+
+export type InterpretationReviewStatus = 'pending' | 'resolved' | 'dismissed';
+
+/**
+ * The parts of an interpretation a reviewer can correct
+ */
+export interface InterpretationLabel {
+  classification: ChangeClassification;
+  intent: ChangeIntent;
+  affectedRoles: Role[];
+}
+
+export interface HeldInterpretation extends InterpretationLabel {
+  confidence: ConfidenceLevel;
+  summary: string;
+  impact: string;
+  evidence: string[];
+}
+
+export interface InterpretationReview {
+  id: string;
+  companyGroupId: string;
+  changeEvent: ChangeEvent; // As interpreted, before routing
+  interpretation: HeldInterpretation;
+  correlationSummary?: string;
+  status: InterpretationReviewStatus;
+  correction?: InterpretationLabel;
+  reviewedBy?: string;
+  reviewedAt?: Date;
+  createdAt: Date;
+}
+
+/**
+ * A reviewer-labeled change, used as few-shot context for later interpretations
+ */
+export interface LabeledExample {
+  id: string;
+  companyGroupId: string;
+  changeEventId: string;
+  sourceTool: SourceTool;
+  sourceResourceType: string;
+  input: string; // The change as the interpreter is shown it, abbreviated
+  label: InterpretationLabel;
+  createdAt: Date;
+}
+
+export interface ReviewQuery {
+  companyGroupId?: string;
+  status?: InterpretationReviewStatus;
+  limit?: number;
+  offset?: number;
+}
+
+export interface ReviewRepository {
+  saveReview(review: InterpretationReview): InterpretationReview;
+
+  getReview(reviewId: string): InterpretationReview | null;
+
+  /**
+   * Oldest first, so the queue is worked in arrival order
+   */
+  listReviews(query?: ReviewQuery): InterpretationReview[];
+
+  /**
+   * Close a pending review; returns null when it isn't pending
+   */
+  closeReview(
+    reviewId: string,
+    status: Exclude<InterpretationReviewStatus, 'pending'>,
+    reviewedBy: string,
+    correction?: InterpretationLabel
+  ): InterpretationReview | null;
+
+  saveExample(example: LabeledExample): LabeledExample;
+
+  /**
+   * Newest first; examples from the same tool and resource type when given
+   */
+  listExamples(companyGroupId: string, filter?: { sourceTool?: SourceTool; sourceResourceType?: string; limit?: number }): LabeledExample[];
+}
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+/**
+ * SQLite implementation of ReviewRepository
+ */
+export class SqliteReviewRepository implements ReviewRepository {
+  constructor(private db: SyncDatabase) {
+    this.initSchema();
+  }
+
+  private initSchema(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS interpretation_reviews (
+        id TEXT PRIMARY KEY,
+        company_group_id TEXT NOT NULL,
+        change_event_id TEXT NOT NULL,
+        change_event TEXT NOT NULL,
+        interpretation TEXT NOT NULL,
+        correlation_summary TEXT,
+        status TEXT NOT NULL,
+        correction TEXT,
+        reviewed_by TEXT,
+        reviewed_at INTEGER,
+        created_at INTEGER NOT NULL
+      )
+    `);
+
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS interpretation_examples (
+        id TEXT PRIMARY KEY,
+        company_group_id TEXT NOT NULL,
+        change_event_id TEXT NOT NULL,
+        source_tool TEXT NOT NULL,
+        source_resource_type TEXT NOT NULL,
+        input TEXT NOT NULL,
+        label TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      )
+    `);
+
+    this.db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_interpretation_reviews_queue ON interpretation_reviews(company_group_id, status, created_at);
+      CREATE INDEX IF NOT EXISTS idx_interpretation_examples_group ON interpretation_examples(company_group_id, source_tool, created_at);
+    `);
+  }
+
+  saveReview(review: InterpretationReview): InterpretationReview {
+    this.db.prepare(`
+      INSERT OR REPLACE INTO interpretation_reviews
+        (id, company_group_id, change_event_id, change_event, interpretation, correlation_summary, status, correction, reviewed_by, reviewed_at, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      review.id,
+      review.companyGroupId,
+      review.changeEvent.id,
+      JSON.stringify(review.changeEvent),
+      JSON.stringify(review.interpretation),
+      review.correlationSummary ?? null,
+      review.status,
+      review.correction ? JSON.stringify(review.correction) : null,
+      review.reviewedBy ?? null,
+      review.reviewedAt?.getTime() ?? null,
+      review.createdAt.getTime()
+    );
+    return review;
+  }
+
+  getReview(reviewId: string): InterpretationReview | null {
+    const row = this.db.prepare('SELECT * FROM interpretation_reviews WHERE id = ?').get(reviewId) as any;
+    return row ? this.rowToReview(row) : null;
+  }
+
+  listReviews(query: ReviewQuery = {}): InterpretationReview[] {
+    const clauses: string[] = [];
+    const params: unknown[] = [];
+
+    if (query.companyGroupId) {
+      clauses.push('company_group_id = ?');
+      params.push(query.companyGroupId);
+    }
+    if (query.status) {
+      clauses.push('status = ?');
+      params.push(query.status);
+    }
+
+    const where = clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '';
+    const limit = Math.min(query.limit ?? DEFAULT_LIMIT, MAX_LIMIT);
+    const rows = this.db.prepare(`
+      SELECT * FROM interpretation_reviews ${where} ORDER BY created_at, rowid LIMIT ? OFFSET ?
+    `).all(...params, limit, query.offset ?? 0) as any[];
+
+    return rows.map(row => this.rowToReview(row));
+  }
+
+  closeReview(
+    reviewId: string,
+    status: Exclude<InterpretationReviewStatus, 'pending'>,
+    reviewedBy: string,
+    correction?: InterpretationLabel
+  ): InterpretationReview | null {
+    // Conditional on still being pending, so two reviewers can't both resolve it
+    const result = this.db.prepare(`
+      UPDATE interpretation_reviews SET status = ?, correction = ?, reviewed_by = ?, reviewed_at = ?
+      WHERE id = ? AND status = 'pending'
+    `).run(status, correction ? JSON.stringify(correction) : null, reviewedBy, Date.now(), reviewId);
+
+    return result.changes > 0 ? this.getReview(reviewId) : null;
+  }
+
+  saveExample(example: LabeledExample): LabeledExample {
+    this.db.prepare(`
+      INSERT OR REPLACE INTO interpretation_examples
+        (id, company_group_id, change_event_id, source_tool, source_resource_type, input, label, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      example.id,
+      example.companyGroupId,
+      example.changeEventId,
+      example.sourceTool,
+      example.sourceResourceType,
+      example.input,
+      JSON.stringify(example.label),
+      example.createdAt.getTime()
+    );
+    return example;
+  }
+
+  listExamples(
+    companyGroupId: string,
+    filter: { sourceTool?: SourceTool; sourceResourceType?: string; limit?: number } = {}
+  ): LabeledExample[] {
+    const clauses = ['company_group_id = ?'];
+    const params: unknown[] = [companyGroupId];
+
+    if (filter.sourceTool) {
+      clauses.push('source_tool = ?');
+      params.push(filter.sourceTool);
+    }
+    if (filter.sourceResourceType) {
+      clauses.push('source_resource_type = ?');
+      params.push(filter.sourceResourceType);
+    }
+
+    const rows = this.db.prepare(`
+      SELECT * FROM interpretation_examples WHERE ${clauses.join(' AND ')} ORDER BY created_at DESC, rowid DESC LIMIT ?
+    `).all(...params, Math.min(filter.limit ?? DEFAULT_LIMIT, MAX_LIMIT)) as any[];
+
+    return rows.map(row => ({
+      id: row.id,
+      companyGroupId: row.company_group_id,
+      changeEventId: row.change_event_id,
+      sourceTool: row.source_tool,
+      sourceResourceType: row.source_resource_type,
+      input: row.input,
+      label: JSON.parse(row.label),
+      createdAt: new Date(row.created_at),
+    }));
+  }
+
+  private rowToReview(row: any): InterpretationReview {
+    const event = JSON.parse(row.change_event);
+    return {
+      id: row.id,
+      companyGroupId: row.company_group_id,
+      changeEvent: {
+        ...event,
+        changedAt: new Date(event.changedAt),
+        normalizedAt: new Date(event.normalizedAt),
+      },
+      interpretation: JSON.parse(row.interpretation),
+      correlationSummary: row.correlation_summary ?? undefined,
+      status: row.status,
+      correction: row.correction ? JSON.parse(row.correction) : undefined,
+      reviewedBy: row.reviewed_by ?? undefined,
+      reviewedAt: row.reviewed_at ? new Date(row.reviewed_at) : undefined,
+      createdAt: new Date(row.created_at),
+    };
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Routing Policy Repository
+ *
+ * Persists one routing policy per company group. Saving a policy replaces
+ * the previous one; groups without a stored policy use the defaults.
+ */
+
+import { RoutingPolicy } from '../types/routing';
+import { SyncDatabase } from './database';
+
+export interface RoutingPolicyRepository {
+  /**
+   * Insert or replace the policy of a company group
+   */
+  savePolicy(policy: RoutingPolicy): RoutingPolicy;
+
+  getPolicy(companyGroupId: string): RoutingPolicy | null;
+
+  deletePolicy(companyGroupId: string): boolean;
+}
+
+/**
+ * SQLite implementation of RoutingPolicyRepository
+ */
+export class SqliteRoutingPolicyRepository implements RoutingPolicyRepository {
+  constructor(private db: SyncDatabase) {
+    this.initSchema();
+  }
+
+  private initSchema(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS routing_policies (
+        company_group_id TEXT PRIMARY KEY,
+        version INTEGER NOT NULL,
+        rules TEXT NOT NULL,
+        updated_by TEXT,
+        updated_at INTEGER NOT NULL
+      )
+    `);
+  }
+
+  savePolicy(policy: RoutingPolicy): RoutingPolicy {
+    this.db.prepare(`
+      INSERT OR REPLACE INTO routing_policies (company_group_id, version, rules, updated_by, updated_at)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(
+      policy.companyGroupId,
+      policy.version,
+      JSON.stringify(policy.rules),
+      policy.updatedBy ?? null,
+      policy.updatedAt.getTime()
+    );
+    return policy;
+  }
+
+  getPolicy(companyGroupId: string): RoutingPolicy | null {
+    const row = this.db.prepare('SELECT * FROM routing_policies WHERE company_group_id = ?').get(companyGroupId) as any;
+    if (!row) return null;
+
+    return {
+      companyGroupId: row.company_group_id,
+      version: row.version,
+      rules: JSON.parse(row.rules),
+      updatedBy: row.updated_by ?? undefined,
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  deletePolicy(companyGroupId: string): boolean {
+    return this.db.prepare('DELETE FROM routing_policies WHERE company_group_id = ?').run(companyGroupId).changes > 0;
+  }
+}
@@ -0,0 +1,357 @@
+/**
+ * User Repository
+ *
+ * Persists identities, users and their company group membership, the
+ * company groups themselves, invite codes for joining a group, and an
+ * append-only audit trail of role changes.
+ *
+ * An identity is stored as soon as it is created; it becomes a member once
+ * it has roles and a company group.
+ */
+
+import { CompanyGroup, Role, User, UserIdentity } from '../types/core';
+import { SyncDatabase } from './database';
+
+/**
+ * A user together with their standing in their company group
+ */
+export type GroupMember = User & {
+  isAdmin: boolean;
+};
+
+export interface GroupInvite {
+  code: string;
+  companyGroupId: string;
+  createdBy: string;
+  maxUses?: number; // Unlimited when omitted
+  uses: number;
+  expiresAt?: Date;
+  revokedAt?: Date;
+  createdAt: Date;
+}
+
+/**
+ * Entry in the role change audit trail
+ * `changedBy` is the member who made the change (the user themselves at onboarding)
+ */
+export interface RoleChange {
+  id: number;
+  companyGroupId: string;
+  userId: string;
+  changedBy: string;
+  previousRoles: Role[];
+  roles: Role[];
+  changedAt: Date;
+}
+
+export interface UserRepository {
+  /**
+   * Store a new identity
+   * Throws when the tag is already taken.
+   */
+  saveIdentity(identity: UserIdentity): UserIdentity;
+
+  getIdentity(identityId: string): UserIdentity | null;
+
+  isTagTaken(tag: string): boolean;
+
+  /**
+   * Roles chosen before the identity joins a group
+   */
+  getSelectedRoles(identityId: string): Role[];
+
+  setSelectedRoles(identityId: string, roles: Role[]): void;
+
+  /**
+   * Insert or update a member (their identity must already be stored)
+   */
+  saveMember(member: GroupMember): GroupMember;
+
+  getMember(userId: string): GroupMember | null;
+
+  /**
+   * Members of a company group, earliest joined first
+   */
+  listMembers(companyGroupId: string): GroupMember[];
+
+  /**
+   * Store a new group
+   * Throws when the slug is already taken.
+   */
+  saveGroup(group: CompanyGroup, createdBy: string): CompanyGroup;
+
+  getGroup(companyGroupId: string): CompanyGroup | null;
+
+  findGroupBySlug(slug: string): CompanyGroup | null;
+
+  saveInvite(invite: GroupInvite): GroupInvite;
+
+  getInvite(code: string): GroupInvite | null;
+
+  /**
+   * Count one use of an invite, unless it is used up, expired or revoked
+   * Returns false when the invite could not be used.
+   */
+  useInvite(code: string, now: Date): boolean;
+
+  revokeInvite(code: string, revokedAt: Date): void;
+
+  appendRoleChange(entry: Omit<RoleChange, 'id'>): RoleChange;
+
+  /**
+   * Oldest changes first
+   */
+  listRoleChanges(companyGroupId: string, userId?: string): RoleChange[];
+}
+
+/**
+ * SQLite implementation of UserRepository
+ */
+export class SqliteUserRepository implements UserRepository {
+  constructor(private db: SyncDatabase) {
+    this.initSchema();
+  }
+
+  private initSchema(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS users (
+        id TEXT PRIMARY KEY,
+        display_name TEXT NOT NULL,
+        tag TEXT NOT NULL UNIQUE,
+        full_identifier TEXT NOT NULL,
+        roles TEXT NOT NULL DEFAULT '[]',
+        company_group_id TEXT,
+        is_admin INTEGER NOT NULL DEFAULT 0,
+        joined_at INTEGER,
+        created_at INTEGER NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_users_group ON users(company_group_id);
+
+      CREATE TABLE IF NOT EXISTS company_groups (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        slug TEXT NOT NULL UNIQUE,
+        created_by TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS group_invites (
+        code TEXT PRIMARY KEY,
+        company_group_id TEXT NOT NULL,
+        created_by TEXT NOT NULL,
+        max_uses INTEGER,
+        uses INTEGER NOT NULL DEFAULT 0,
+        expires_at INTEGER,
+        revoked_at INTEGER,
+        created_at INTEGER NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS role_changes (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        company_group_id TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        changed_by TEXT NOT NULL,
+        previous_roles TEXT NOT NULL,
+        roles TEXT NOT NULL,
+        changed_at INTEGER NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_role_changes_group ON role_changes(company_group_id, user_id);
+    `);
+  }
+
+  saveIdentity(identity: UserIdentity): UserIdentity {
+    this.db.prepare(`
+      INSERT INTO users (id, display_name, tag, full_identifier, created_at)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(identity.id, identity.displayName, identity.tag, identity.fullIdentifier, identity.createdAt.getTime());
+    return identity;
+  }
+
+  getIdentity(identityId: string): UserIdentity | null {
+    const row = this.db.prepare('SELECT * FROM users WHERE id = ?').get(identityId);
+    return row ? rowToIdentity(row) : null;
+  }
+
+  isTagTaken(tag: string): boolean {
+    return this.db.prepare('SELECT 1 FROM users WHERE tag = ?').get(tag) !== undefined;
+  }
+
+  getSelectedRoles(identityId: string): Role[] {
+    const row = this.db.prepare('SELECT roles FROM users WHERE id = ?').get(identityId) as any;
+    return row ? JSON.parse(row.roles) : [];
+  }
+
+  setSelectedRoles(identityId: string, roles: Role[]): void {
+    this.db.prepare('UPDATE users SET roles = ? WHERE id = ?').run(JSON.stringify(roles), identityId);
+  }
+
+  saveMember(member: GroupMember): GroupMember {
+    const result = this.db.prepare(`
+      UPDATE users SET
+        display_name = ?,
+        roles = ?,
+        is_admin = ?,
+        joined_at = CASE WHEN company_group_id IS ? THEN joined_at ELSE ? END,
+        company_group_id = ?
+      WHERE id = ?
+    `).run(
+      member.displayName,
+      JSON.stringify(member.roles),
+      member.isAdmin ? 1 : 0,
+      member.companyGroupId,
+      Date.now(),
+      member.companyGroupId,
+      member.id
+    );
+    if (result.changes === 0) {
+      throw new Error(`Identity not found: ${member.id}`);
+    }
+    return member;
+  }
+
+  getMember(userId: string): GroupMember | null {
+    const row = this.db.prepare('SELECT * FROM users WHERE id = ? AND company_group_id IS NOT NULL').get(userId);
+    return row ? rowToMember(row) : null;
+  }
+
+  listMembers(companyGroupId: string): GroupMember[] {
+    const rows = this.db.prepare(`
+      SELECT * FROM users WHERE company_group_id = ? ORDER BY joined_at, rowid
+    `).all(companyGroupId) as any[];
+    return rows.map(rowToMember);
+  }
+
+  saveGroup(group: CompanyGroup, createdBy: string): CompanyGroup {
+    this.db.prepare(`
+      INSERT INTO company_groups (id, name, slug, created_by, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(group.id, group.name, group.slug, createdBy, group.createdAt.getTime(), group.updatedAt.getTime());
+    return group;
+  }
+
+  getGroup(companyGroupId: string): CompanyGroup | null {
+    const row = this.db.prepare('SELECT * FROM company_groups WHERE id = ?').get(companyGroupId);
+    return row ? rowToGroup(row) : null;
+  }
+
+  findGroupBySlug(slug: string): CompanyGroup | null {
+    const row = this.db.prepare('SELECT * FROM company_groups WHERE slug = ?').get(slug);
+    return row ? rowToGroup(row) : null;
+  }
+
+  saveInvite(invite: GroupInvite): GroupInvite {
+    this.db.prepare(`
+      INSERT INTO group_invites (code, company_group_id, created_by, max_uses, uses, expires_at, revoked_at, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      invite.code,
+      invite.companyGroupId,
+      invite.createdBy,
+      invite.maxUses ?? null,
+      invite.uses,
+      invite.expiresAt?.getTime() ?? null,
+      invite.revokedAt?.getTime() ?? null,
+      invite.createdAt.getTime()
+    );
+    return invite;
+  }
+
+  getInvite(code: string): GroupInvite | null {
+    const row = this.db.prepare('SELECT * FROM group_invites WHERE code = ?').get(code);
+    return row ? rowToInvite(row) : null;
+  }
+
+  useInvite(code: string, now: Date): boolean {
+    // One statement, so two people cannot both take the last use
+    return this.db.prepare(`
+      UPDATE group_invites SET uses = uses + 1
+      WHERE code = ?
+        AND revoked_at IS NULL
+        AND (expires_at IS NULL OR expires_at > ?)
+        AND (max_uses IS NULL OR uses < max_uses)
+    `).run(code, now.getTime()).changes > 0;
+  }
+
+  revokeInvite(code: string, revokedAt: Date): void {
+    this.db.prepare('UPDATE group_invites SET revoked_at = ? WHERE code = ? AND revoked_at IS NULL').run(revokedAt.getTime(), code);
+  }
+
+  appendRoleChange(entry: Omit<RoleChange, 'id'>): RoleChange {
+    const result = this.db.prepare(`
+      INSERT INTO role_changes (company_group_id, user_id, changed_by, previous_roles, roles, changed_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(
+      entry.companyGroupId,
+      entry.userId,
+      entry.changedBy,
+      JSON.stringify(entry.previousRoles),
+      JSON.stringify(entry.roles),
+      entry.changedAt.getTime()
+    );
+    return { ...entry, id: Number(result.lastInsertRowid) };
+  }
+
+  listRoleChanges(companyGroupId: string, userId?: string): RoleChange[] {
+    const rows = userId
+      ? this.db.prepare('SELECT * FROM role_changes WHERE company_group_id = ? AND user_id = ? ORDER BY id').all(companyGroupId, userId) as any[]
+      : this.db.prepare('SELECT * FROM role_changes WHERE company_group_id = ? ORDER BY id').all(companyGroupId) as any[];
+    return rows.map(rowToRoleChange);
+  }
+}
+
+function rowToIdentity(row: any): UserIdentity {
+  return {
+    id: row.id,
+    displayName: row.display_name,
+    tag: row.tag,
+    fullIdentifier: row.full_identifier,
+    createdAt: new Date(row.created_at),
+  };
+}
+
+function rowToMember(row: any): GroupMember {
+  return {
+    ...rowToIdentity(row),
+    roles: JSON.parse(row.roles),
+    companyGroupId: row.company_group_id,
+    isAdmin: row.is_admin === 1,
+  };
+}
+
+function rowToGroup(row: any): CompanyGroup {
+  return {
+    id: row.id,
+    name: row.name,
+    slug: row.slug,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+function rowToInvite(row: any): GroupInvite {
+  return {
+    code: row.code,
+    companyGroupId: row.company_group_id,
+    createdBy: row.created_by,
+    maxUses: row.max_uses ?? undefined,
+    uses: row.uses,
+    expiresAt: row.expires_at ? new Date(row.expires_at) : undefined,
+    revokedAt: row.revoked_at ? new Date(row.revoked_at) : undefined,
+    createdAt: new Date(row.created_at),
+  };
+}
+
+function rowToRoleChange(row: any): RoleChange {
+  return {
+    id: row.id,
+    companyGroupId: row.company_group_id,
+    userId: row.user_id,
+    changedBy: row.changed_by,
+    previousRoles: JSON.parse(row.previous_roles),
+    roles: JSON.parse(row.roles),
+    changedAt: new Date(row.changed_at),
+  };
+}
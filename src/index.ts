@@ -1,20 +1,71 @@
 /**
  * SyncUp: Role-Aware Cross-Tool Change Synchronization Platform
- * 
+ *
  * Main entry point for the application
  */
 
+import { webApi } from '@slack/bolt';
 import { logger } from './utils/logger';
+import { buildSyncServer } from './server';
+import { startDigestFlush } from './services/notification-digest';
+import { SmtpConfig } from './integrations/email-delivery';
+import { generateJson } from '../server/ai-service';
+
+// Configuration
+const PORT = parseInt(process.env.SYNC_PORT || '3200', 10);
+const HOST = process.env.SYNC_HOST || '0.0.0.0';
+const DB_PATH = process.env.SYNC_DB_PATH || './syncup.db';
+const INVITE_BASE_URL = process.env.SYNC_INVITE_BASE_URL;
+const SLACK_BOT_TOKEN = process.env.SLACK_BOT_TOKEN;
+const GITHUB_TOKEN = process.env.SYNC_GITHUB_TOKEN;
+
+function smtpConfig(): SmtpConfig | undefined {
+  const host = process.env.SYNC_SMTP_HOST;
+  const from = process.env.SYNC_SMTP_FROM;
+  if (!host || !from) {
+    return undefined;
+  }
+
+  return {
+    host,
+    port: parseInt(process.env.SYNC_SMTP_PORT || '587', 10),
+    from,
+    secure: process.env.SYNC_SMTP_SECURE === 'true',
+    username: process.env.SYNC_SMTP_USERNAME,
+    password: process.env.SYNC_SMTP_PASSWORD,
+  };
+}
 
 async function main() {
   logger.info('SyncUp starting...');
-  
-  // TODO: Initialize services, database, integrations
-  // TODO: Set up webhook endpoints
-  // TODO: Start cursor-based polling workers
+
+  const { app, worker, scheduler, digests } = buildSyncServer({
+    dbPath: DB_PATH,
+    generateJson,
+    slackClient: SLACK_BOT_TOKEN ? new webApi.WebClient(SLACK_BOT_TOKEN) : undefined,
+    smtp: smtpConfig(),
+    github: GITHUB_TOKEN ? { token: GITHUB_TOKEN, apiBaseUrl: process.env.SYNC_GITHUB_API_URL } : undefined,
+    inviteBaseUrl: INVITE_BASE_URL,
+    logger: true,
+  });
+
   // TODO: Initialize desktop app UI (Tauri)
-  
-  logger.info('SyncUp ready');
+
+  let digestFlush: { stop(): void } | undefined;
+  const shutdown = async (signal: string) => {
+    logger.info(`Received ${signal}, shutting down`);
+    digestFlush?.stop();
+    await app.close();
+    process.exit(0);
+  };
+  process.once('SIGINT', () => void shutdown('SIGINT'));
+  process.once('SIGTERM', () => void shutdown('SIGTERM'));
+
+  await app.listen({ port: PORT, host: HOST });
+  worker.start();
+  scheduler.start();
+  digestFlush = startDigestFlush(digests);
+  logger.info('SyncUp ready', { port: PORT, host: HOST });
 }
 
 main().catch((error) => {
@@ -0,0 +1,394 @@
+/**
+ * Bitbucket Cloud Integration
+ *
+ * Handles Bitbucket Cloud webhooks and cursor-based polling for:
+ * - Pull Requests (created/updated/fulfilled/rejected)
+ * - Pushes (commits and tags)
+ *
+ * Produces the same PullRequest/Commit/FileDiff shapes as the GitHub integration
+ * so everything downstream of detection is platform-agnostic.
+ */
+
+import { SourceTool } from '../types/core';
+import { PullRequest, Commit, Release, FileDiff, PRState } from '../types/code-changes';
+import { Cursor, CursorPollResult } from '../types/cursors';
+import { RawChangeData } from '../services/change-detection';
+import { HttpClient, FetchHttpClient } from './http-client';
+import { extractLinkedIssues } from './github';
+import { asRecord, asRecordArray, optionalString } from './payload';
+import { verifyHmacSignature } from './webhook-signature';
+import { logger } from '../utils/logger';
+
+export interface BitbucketIntegration {
+  /**
+   * Verify webhook signature
+   * Bitbucket Cloud signs the raw body like GitHub: X-Hub-Signature "sha256=<hex>"
+   */
+  verifyWebhook(payload: unknown, signature: string, secret: string): Promise<boolean>;
+
+  /**
+   * Extract PR from webhook payload
+   */
+  extractPRFromWebhook(payload: unknown): Promise<PullRequest | null>;
+
+  /**
+   * Extract commits from push webhook payload
+   */
+  extractCommitsFromWebhook(payload: unknown): Promise<Commit[]>;
+
+  /**
+   * Extract tags from push webhook payload
+   */
+  extractTagsFromWebhook(payload: unknown): Promise<Release[]>;
+
+  /**
+   * Convert any supported webhook payload into raw changes for normalization
+   */
+  extractRawChanges(payload: unknown): Promise<RawChangeData[]>;
+
+  /**
+   * Poll for changes since cursor
+   */
+  pollChanges(cursor: Cursor, config: BitbucketConfig): Promise<CursorPollResult<RawChangeData>>;
+}
+
+export interface BitbucketConfig {
+  /** Repository/workspace access token; alternatively username + appPassword */
+  accessToken?: string;
+  username?: string;
+  appPassword?: string;
+  repositories: string[]; // "workspace/repo" format
+  pageSize?: number;
+}
+
+export type BitbucketWebhookEvent = 'pullrequest' | 'push' | 'unknown';
+
+export function detectBitbucketEvent(payload: unknown): BitbucketWebhookEvent {
+  const data = asRecord(payload);
+  if (!data) return 'unknown';
+  if (data.pullrequest) return 'pullrequest';
+  if (asRecord(data.push)) return 'push';
+  return 'unknown';
+}
+
+/**
+ * Build a verifier for ChangeDetectionServiceImpl's webhookVerifiers map
+ */
+export function createBitbucketWebhookVerifier(
+  secret: string,
+  integration: BitbucketIntegration = new BitbucketIntegrationImpl()
+): (payload: unknown, signature?: string) => Promise<boolean> {
+  return async (payload, signature) => {
+    if (!signature) return false;
+    return integration.verifyWebhook(payload, signature, secret);
+  };
+}
+
+const API_BASE_URL = 'https://api.bitbucket.org/2.0';
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_COMMIT_PAGES = 10;
+const PR_STATES = ['OPEN', 'MERGED', 'DECLINED', 'SUPERSEDED'];
+
+/**
+ * Implementation of BitbucketIntegration
+ */
+export class BitbucketIntegrationImpl implements BitbucketIntegration {
+  constructor(private httpClient?: HttpClient) {}
+
+  async verifyWebhook(payload: unknown, signature: string, secret: string): Promise<boolean> {
+    return verifyHmacSignature(payload, signature, secret);
+  }
+
+  async extractPRFromWebhook(payload: unknown): Promise<PullRequest | null> {
+    const data = asRecord(payload);
+    const pr = asRecord(data?.pullrequest);
+    if (!pr) {
+      return null;
+    }
+
+    const repository = String(asRecord(data?.repository)?.full_name
+      ?? asRecord(asRecord(asRecord(pr.destination)?.repository))?.full_name
+      ?? '');
+    return mapPullRequest(pr, repository);
+  }
+
+  async extractCommitsFromWebhook(payload: unknown): Promise<Commit[]> {
+    const data = asRecord(payload);
+    if (!data || detectBitbucketEvent(data) !== 'push') {
+      return [];
+    }
+
+    const repository = String(asRecord(data.repository)?.full_name ?? '');
+    const commits: Commit[] = [];
+
+    for (const change of asRecordArray(asRecord(data.push)?.changes)) {
+      const target = asRecord(change.new);
+      if (!target || target.type !== 'branch') continue;
+
+      for (const commit of asRecordArray(change.commits)) {
+        // Push payloads carry no file list; the poller fetches diffstats instead
+        commits.push(mapCommit(commit, repository, String(target.name), []));
+      }
+    }
+
+    return commits;
+  }
+
+  async extractTagsFromWebhook(payload: unknown): Promise<Release[]> {
+    const data = asRecord(payload);
+    if (!data || detectBitbucketEvent(data) !== 'push') {
+      return [];
+    }
+
+    const repo = asRecord(data.repository);
+    const repository = String(repo?.full_name ?? '');
+    const repoUrl = String(asRecord(asRecord(repo?.links)?.html)?.href ?? `https://bitbucket.org/${repository}`);
+    const actor = displayName(data.actor);
+
+    return asRecordArray(asRecord(data.push)?.changes)
+      .map(change => asRecord(change.new))
+      .filter((target): target is Record<string, unknown> => target?.type === 'tag')
+      .map(tag => {
+        const tagName = String(tag.name);
+        const tagTarget = asRecord(tag.target);
+        const createdAt = new Date(String(tagTarget?.date ?? new Date().toISOString()));
+
+        return {
+          id: `bitbucket:${repository}:${tagName}`,
+          tagName,
+          body: optionalString(tag.message),
+          repository,
+          author: actor,
+          url: `${repoUrl}/src/${encodeURIComponent(tagName)}`,
+          isDraft: false,
+          isPrerelease: /-(alpha|beta|rc)/i.test(tagName),
+          createdAt,
+          publishedAt: createdAt,
+        };
+      });
+  }
+
+  async extractRawChanges(payload: unknown): Promise<RawChangeData[]> {
+    switch (detectBitbucketEvent(payload)) {
+      case 'pullrequest': {
+        const pr = await this.extractPRFromWebhook(payload);
+        return pr ? [pullRequestToRaw(pr)] : [];
+      }
+      case 'push': {
+        const commits = await this.extractCommitsFromWebhook(payload);
+        const tags = await this.extractTagsFromWebhook(payload);
+        return [
+          ...commits.map(commitToRaw),
+          ...tags.map(tag => ({
+            tool: 'bitbucket' as SourceTool,
+            resourceId: tag.id,
+            resourceType: 'release',
+            rawData: { event: 'push', release: tag },
+            timestamp: tag.createdAt,
+          })),
+        ];
+      }
+      default:
+        logger.debug('Unsupported Bitbucket webhook payload');
+        return [];
+    }
+  }
+
+  async pollChanges(cursor: Cursor, config: BitbucketConfig): Promise<CursorPollResult<RawChangeData>> {
+    // Cursor position is an ISO timestamp: everything updated strictly after it is new
+    const client = this.httpClient ?? new FetchHttpClient({ Authorization: authorizationHeader(config) });
+    const pageSize = config.pageSize ?? DEFAULT_PAGE_SIZE;
+    const since = new Date(cursor.position);
+
+    logger.info(`Polling Bitbucket for changes`, {
+      cursorId: cursor.id,
+      position: cursor.position,
+      repositories: config.repositories.length,
+    });
+
+    const changes: RawChangeData[] = [];
+    let hasMore = false;
+    let safeUntil: Date | undefined;
+
+    for (const repository of config.repositories) {
+      const repoUrl = `${API_BASE_URL}/repositories/${repository}`;
+
+      // Commits come newest first with no "since" filter: page until we pass the cursor
+      let nextUrl: string | undefined = `${repoUrl}/commits`;
+      for (let page = 1; nextUrl && page <= MAX_COMMIT_PAGES; page++) {
+        const commitPage: { data: Record<string, unknown> } = await client.request<Record<string, unknown>>(
+          'GET',
+          nextUrl,
+          page === 1 ? { query: { pagelen: pageSize } } : undefined
+        );
+        const values = asRecordArray(commitPage.data.values);
+        let reachedCursor = false;
+
+        for (const commit of values) {
+          if (new Date(String(commit.date)) <= since) {
+            reachedCursor = true;
+            break;
+          }
+          const diffstat = await client.request<Record<string, unknown>>('GET', `${repoUrl}/diffstat/${commit.hash}`);
+          const files = asRecordArray(diffstat.data.values).map(mapDiffstat);
+          changes.push(commitToRaw(mapCommit(commit, repository, '', files)));
+        }
+
+        nextUrl = reachedCursor ? undefined : optionalString(commitPage.data.next);
+      }
+
+      // Pull requests, oldest update first so a partial page is still a valid cursor step
+      // The list only returns OPEN pull requests unless every state is requested explicitly
+      const prStates = PR_STATES.map(state => `state=${state}`).join('&');
+      const prPage = await client.request<Record<string, unknown>>('GET', `${repoUrl}/pullrequests?${prStates}`, {
+        query: {
+          q: `updated_on > ${since.toISOString()}`,
+          sort: 'updated_on',
+          pagelen: pageSize,
+        },
+      });
+      const pullRequests = asRecordArray(prPage.data.values);
+
+      for (const prData of pullRequests) {
+        const pr = mapPullRequest(prData, repository);
+        if (pr.updatedAt <= since) continue;
+
+        const diffstat = await client.request<Record<string, unknown>>(
+          'GET',
+          `${repoUrl}/pullrequests/${prData.id}/diffstat`
+        );
+        pr.files = asRecordArray(diffstat.data.values).map(mapDiffstat);
+        pr.totalAdditions = pr.files.reduce((sum, f) => sum + f.additions, 0);
+        pr.totalDeletions = pr.files.reduce((sum, f) => sum + f.deletions, 0);
+        changes.push(pullRequestToRaw(pr));
+      }
+
+      if (prPage.data.next && pullRequests.length > 0) {
+        hasMore = true;
+        const lastUpdated = new Date(String(pullRequests[pullRequests.length - 1].updated_on));
+        safeUntil = safeUntil && safeUntil < lastUpdated ? safeUntil : lastUpdated;
+      }
+    }
+
+    const consumable = changes
+      .filter(change => !safeUntil || change.timestamp <= safeUntil)
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    const latest = consumable[consumable.length - 1];
+
+    return {
+      cursor: {
+        ...cursor,
+        lastPolledAt: new Date(),
+      },
+      changes: consumable,
+      nextPosition: latest ? latest.timestamp.toISOString() : undefined,
+      hasMore,
+    };
+  }
+}
+
+function authorizationHeader(config: BitbucketConfig): string {
+  if (config.accessToken) {
+    return `Bearer ${config.accessToken}`;
+  }
+  if (config.username && config.appPassword) {
+    return `Basic ${Buffer.from(`${config.username}:${config.appPassword}`).toString('base64')}`;
+  }
+  throw new Error('Bitbucket config requires accessToken or username + appPassword');
+}
+
+function mapPullRequest(pr: Record<string, unknown>, repository: string): PullRequest {
+  const description = optionalString(pr.description);
+
+  return {
+    id: `bitbucket:${repository}:${pr.id}`,
+    number: Number(pr.id),
+    title: String(pr.title ?? ''),
+    body: description,
+    state: mapPRState(pr),
+    author: displayName(pr.author),
+    baseBranch: String(asRecord(asRecord(pr.destination)?.branch)?.name ?? ''),
+    headBranch: String(asRecord(asRecord(pr.source)?.branch)?.name ?? ''),
+    repository,
+    url: String(asRecord(asRecord(pr.links)?.html)?.href),
+    files: [],
+    totalAdditions: 0,
+    totalDeletions: 0,
+    reviewers: asRecordArray(pr.reviewers).map(displayName),
+    linkedIssues: description ? extractLinkedIssues(description) : undefined,
+    createdAt: new Date(String(pr.created_on)),
+    updatedAt: new Date(String(pr.updated_on)),
+    mergedAt: pr.state === 'MERGED' ? new Date(String(pr.updated_on)) : undefined,
+    closedAt: pr.state === 'DECLINED' || pr.state === 'SUPERSEDED' ? new Date(String(pr.updated_on)) : undefined,
+  };
+}
+
+function mapPRState(pr: Record<string, unknown>): PRState {
+  if (pr.state === 'MERGED') return 'merged';
+  if (pr.state === 'DECLINED' || pr.state === 'SUPERSEDED') return 'closed';
+  if (pr.draft) return 'draft';
+  return pr.created_on === pr.updated_on ? 'opened' : 'updated';
+}
+
+function mapCommit(
+  commit: Record<string, unknown>,
+  repository: string,
+  branch: string,
+  files: FileDiff[]
+): Commit {
+  const author = asRecord(commit.author);
+  const authorName = author?.user ? displayName(author.user) : String(author?.raw ?? 'unknown');
+
+  return {
+    id: String(commit.hash),
+    message: String(commit.message ?? ''),
+    author: authorName,
+    committer: authorName, // Bitbucket only reports the author
+    repository,
+    branch,
+    url: String(asRecord(asRecord(commit.links)?.html)?.href),
+    files,
+    createdAt: new Date(String(commit.date)),
+  };
+}
+
+function mapDiffstat(entry: Record<string, unknown>): FileDiff {
+  const newFile = asRecord(entry.new);
+  const oldFile = asRecord(entry.old);
+  const additions = Number(entry.lines_added ?? 0);
+  const deletions = Number(entry.lines_removed ?? 0);
+
+  return {
+    path: String(newFile?.path ?? oldFile?.path),
+    oldPath: entry.status === 'renamed' ? optionalString(oldFile?.path) : undefined,
+    additions,
+    deletions,
+    changes: additions + deletions,
+    isRedacted: false,
+  };
+}
+
+function displayName(user: unknown): string {
+  const record = asRecord(user);
+  return String(record?.nickname ?? record?.display_name ?? record?.account_id ?? 'unknown');
+}
+
+function pullRequestToRaw(pr: PullRequest): RawChangeData {
+  return {
+    tool: 'bitbucket' as SourceTool,
+    resourceId: pr.id,
+    resourceType: 'pull_request',
+    rawData: { event: 'pullrequest', pullRequest: pr },
+    timestamp: pr.updatedAt,
+  };
+}
+
+function commitToRaw(commit: Commit): RawChangeData {
+  return {
+    tool: 'bitbucket' as SourceTool,
+    resourceId: commit.id,
+    resourceType: 'commit',
+    rawData: { event: 'push', commit },
+    timestamp: commit.createdAt,
+  };
+}
@@ -0,0 +1,291 @@
+/**
+ * Email delivery adapter
+ *
+ * Sends notifications as multipart (plain text + HTML) email over SMTP.
+ * The adapter takes an EmailTransport so tests can capture messages;
+ * SmtpEmailTransport is a small SMTP client (implicit TLS or STARTTLS,
+ * AUTH PLAIN) that works with any standard relay.
+ */
+
+import { connect as connectTcp, Socket } from 'net';
+import { connect as connectTls, TLSSocket } from 'tls';
+import { randomUUID } from 'crypto';
+import { Channel, DeliveryTarget, Notification } from '../types/core';
+import { DeliveryAdapter, notificationSections } from '../services/notification-delivery';
+
+export interface EmailMessage {
+  to: string[];
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface EmailTransport {
+  send(message: EmailMessage): Promise<void>;
+}
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  from: string; // Envelope and header sender
+  secure?: boolean; // Implicit TLS (port 465); otherwise STARTTLS is used when offered
+  requireTls?: boolean; // Refuse to send in plain text when STARTTLS isn't offered
+  username?: string; // Never sent without TLS, whatever requireTls says
+  password?: string;
+  clientName?: string; // EHLO name
+  timeoutMs?: number;
+}
+
+export class EmailDeliveryAdapter implements DeliveryAdapter {
+  constructor(private transport: EmailTransport) {}
+
+  async deliver(notification: Notification, target: DeliveryTarget, channel: Channel): Promise<void> {
+    if (target.adapter !== 'email') {
+      throw new Error(`Email adapter cannot deliver to ${target.adapter} targets`);
+    }
+
+    await this.transport.send(formatEmail(notification, channel, target.to));
+  }
+}
+
+export function formatEmail(notification: Notification, channel: Channel, to: string[]): EmailMessage {
+  const sections = notificationSections(notification);
+
+  const text = [
+    notification.summary,
+    '',
+    ...sections.flatMap(section => [`${section.label}:`, section.text, '']),
+    `Approved for ${channel.name}`,
+  ].join('\n');
+
+  const html = [
+    `<h2 style="margin:0 0 12px">${escapeHtml(notification.summary)}</h2>`,
+    ...sections.map(section =>
+      `<p style="margin:0 0 12px"><strong>${escapeHtml(section.label)}</strong><br>${escapeHtml(section.text).replace(/\n/g, '<br>')}</p>`
+    ),
+    `<p style="color:#6b7280;font-size:12px">Approved for ${escapeHtml(channel.name)}</p>`,
+  ].join('\n');
+
+  return {
+    to,
+    subject: `[${channel.name}] ${notification.summary}`.slice(0, 200),
+    text,
+    html,
+  };
+}
+
+const DEFAULT_TIMEOUT_MS = 30000;
+
+/**
+ * Minimal SMTP client: EHLO, optional STARTTLS, AUTH PLAIN (over TLS only), one message per connection
+ */
+export class SmtpEmailTransport implements EmailTransport {
+  constructor(private config: SmtpConfig) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    let session = await SmtpSession.open(this.config);
+
+    try {
+      await session.expect(220);
+      let capabilities = await session.ehlo(this.config.clientName ?? 'localhost');
+
+      let encrypted = !!this.config.secure;
+      if (!encrypted) {
+        if (capabilities.includes('STARTTLS')) {
+          await session.command('STARTTLS', 220);
+          session = await session.upgrade(this.config.host);
+          capabilities = await session.ehlo(this.config.clientName ?? 'localhost');
+          encrypted = true;
+        } else if (this.config.requireTls) {
+          throw new Error(`SMTP server ${this.config.host} does not offer STARTTLS`);
+        }
+      }
+
+      if (this.config.username) {
+        if (!encrypted) {
+          throw new Error(`SMTP server ${this.config.host} does not offer STARTTLS; refusing to send credentials in plain text`);
+        }
+        const credentials = Buffer.from(`\0${this.config.username}\0${this.config.password ?? ''}`).toString('base64');
+        await session.command(`AUTH PLAIN ${credentials}`, 235);
+      }
+
+      await session.command(`MAIL FROM:<${this.config.from}>`, 250);
+      for (const recipient of message.to) {
+        await session.command(`RCPT TO:<${recipient}>`, [250, 251]);
+      }
+      await session.command('DATA', 354);
+      await session.command(`${dotStuff(buildMimeMessage(this.config.from, message))}\r\n.`, 250);
+      await session.command('QUIT', 221).catch(() => undefined);
+    } finally {
+      session.close();
+    }
+  }
+}
+
+/**
+ * One SMTP connection; replies are read in order as complete (possibly multi-line) responses
+ */
+class SmtpSession {
+  private buffer = '';
+  private replies: Array<{ code: number; lines: string[] }> = [];
+  private waiting?: { resolve: (reply: { code: number; lines: string[] }) => void; reject: (error: Error) => void };
+  private failure?: Error;
+  private pendingLines: string[] = [];
+
+  private constructor(private socket: Socket | TLSSocket, private config: SmtpConfig) {
+    socket.setTimeout(config.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+    socket.on('data', this.onData);
+    socket.on('timeout', () => this.fail(new Error(`SMTP connection to ${config.host} timed out`)));
+    socket.on('error', (error: Error) => this.fail(error));
+    socket.on('close', () => this.fail(new Error(`SMTP connection to ${config.host} closed`)));
+  }
+
+  static open(config: SmtpConfig): Promise<SmtpSession> {
+    return new Promise((resolve, reject) => {
+      const socket: Socket = config.secure
+        ? connectTls({ host: config.host, port: config.port, servername: config.host })
+        : connectTcp({ host: config.host, port: config.port });
+      const session = new SmtpSession(socket, config);
+      socket.once(config.secure ? 'secureConnect' : 'connect', () => resolve(session));
+      socket.once('error', reject);
+    });
+  }
+
+  async ehlo(name: string): Promise<string[]> {
+    const reply = await this.command(`EHLO ${name}`, 250);
+    return reply.lines.slice(1).map(line => line.split(' ')[0].toUpperCase());
+  }
+
+  async command(line: string, expected: number | number[]): Promise<{ code: number; lines: string[] }> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(expected);
+  }
+
+  async expect(expected: number | number[]): Promise<{ code: number; lines: string[] }> {
+    const reply = await this.nextReply();
+    const codes = Array.isArray(expected) ? expected : [expected];
+    if (!codes.includes(reply.code)) {
+      throw new Error(`SMTP error ${reply.code}: ${reply.lines.join(' ')}`);
+    }
+    return reply;
+  }
+
+  /**
+   * Switch the connection to TLS after a successful STARTTLS
+   */
+  upgrade(servername: string): Promise<SmtpSession> {
+    this.socket.removeAllListeners();
+    return new Promise((resolve, reject) => {
+      const secure = connectTls({ socket: this.socket, servername });
+      const session = new SmtpSession(secure, this.config);
+      secure.once('secureConnect', () => resolve(session));
+      secure.once('error', reject);
+    });
+  }
+
+  close(): void {
+    this.socket.removeAllListeners();
+    this.socket.on('error', () => undefined);
+    this.socket.destroy();
+  }
+
+  private nextReply(): Promise<{ code: number; lines: string[] }> {
+    const reply = this.replies.shift();
+    if (reply) return Promise.resolve(reply);
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  private onData = (chunk: Buffer): void => {
+    this.buffer += chunk.toString('utf8');
+
+    let newline: number;
+    while ((newline = this.buffer.indexOf('\r\n')) >= 0) {
+      const line = this.buffer.slice(0, newline);
+      this.buffer = this.buffer.slice(newline + 2);
+      this.pendingLines.push(line.slice(4));
+
+      // "250-..." continues a reply, "250 ..." ends it
+      if (line.charAt(3) !== '-') {
+        this.deliver({ code: Number(line.slice(0, 3)), lines: this.pendingLines });
+        this.pendingLines = [];
+      }
+    }
+  };
+
+  private deliver(reply: { code: number; lines: string[] }): void {
+    if (this.waiting) {
+      const { resolve } = this.waiting;
+      this.waiting = undefined;
+      resolve(reply);
+    } else {
+      this.replies.push(reply);
+    }
+  }
+
+  private fail(error: Error): void {
+    this.failure ??= error;
+    if (this.waiting) {
+      const { reject } = this.waiting;
+      this.waiting = undefined;
+      reject(error);
+    }
+  }
+}
+
+function buildMimeMessage(from: string, message: EmailMessage): string {
+  const boundary = `zinc-${randomUUID()}`;
+  const domain = from.split('@')[1] ?? 'localhost';
+
+  return [
+    `From: ${from}`,
+    `To: ${message.to.join(', ')}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    wrapBase64(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    wrapBase64(message.html),
+    `--${boundary}--`,
+  ].join('\r\n');
+}
+
+/**
+ * RFC 2047 encoded-word for non-ASCII subjects
+ */
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+function wrapBase64(text: string): string {
+  return Buffer.from(text, 'utf8').toString('base64').replace(/.{76}/g, '$&\r\n');
+}
+
+/**
+ * Lines starting with "." get an extra "." so they can't end the DATA section
+ */
+function dotStuff(data: string): string {
+  return data.replace(/(^|\r\n)\./g, '$1..');
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
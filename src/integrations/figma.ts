@@ -0,0 +1,432 @@
+/**
+ * Figma Integration
+ *
+ * Handles Figma webhooks (v2) and version-id cursor polling for:
+ * - FILE_VERSION_UPDATE (a named version was saved)
+ * - LIBRARY_PUBLISH (components/styles were published to the team library)
+ *
+ * Component and style names are compared between versions so events say
+ * which components were added, removed or renamed instead of just "file changed".
+ */
+
+import { SourceTool } from '../types/core';
+import { Cursor, CursorPollResult } from '../types/cursors';
+import { RawChangeData } from '../services/change-detection';
+import { HttpClient, FetchHttpClient } from './http-client';
+import { asRecord, asRecordArray, optionalString, safeEqual } from './payload';
+import { logger } from '../utils/logger';
+
+export interface FigmaIntegration {
+  /**
+   * Verify webhook passcode
+   * Figma does not sign requests; it echoes the passcode set on the webhook in the body
+   */
+  verifyWebhook(payload: unknown, passcode: string): Promise<boolean>;
+
+  /**
+   * Convert a webhook event into raw changes
+   * FILE_VERSION_UPDATE fetches both versions to diff their component libraries
+   */
+  extractRawChanges(payload: unknown, config: FigmaConfig): Promise<RawChangeData[]>;
+
+  /**
+   * Poll for named versions saved since the cursor
+   */
+  pollChanges(cursor: Cursor, config: FigmaConfig): Promise<CursorPollResult<RawChangeData>>;
+}
+
+export interface FigmaConfig {
+  token: string;
+  apiBaseUrl?: string;
+  fileKeys: string[];
+}
+
+export type FigmaWebhookEvent = 'FILE_VERSION_UPDATE' | 'LIBRARY_PUBLISH' | 'unknown';
+
+/**
+ * Published names keyed by node ID
+ * Node IDs survive renames, so they are what lets a rename be told apart from remove+add
+ */
+export interface FigmaLibrary {
+  components: Record<string, string>;
+  styles: Record<string, string>;
+}
+
+export interface FigmaNameChanges {
+  added: string[];
+  removed: string[];
+  renamed: Array<{ from: string; to: string }>;
+  modified: string[];
+}
+
+export function detectFigmaEvent(payload: unknown): FigmaWebhookEvent {
+  const type = asRecord(payload)?.event_type;
+  if (type === 'FILE_VERSION_UPDATE' || type === 'LIBRARY_PUBLISH') {
+    return type;
+  }
+  return 'unknown';
+}
+
+/**
+ * Build a verifier for ChangeDetectionServiceImpl's webhookVerifiers map
+ */
+export function createFigmaWebhookVerifier(
+  passcode: string
+): (payload: unknown, signature?: string) => Promise<boolean> {
+  return async payload => verifyFigmaPasscode(payload, passcode);
+}
+
+/**
+ * Build an extractor for ChangeDetectionServiceImpl's webhookExtractors map
+ * Unlike the built-in Figma extractor this one fetches versions, so version updates carry diffs
+ */
+export function createFigmaWebhookExtractor(
+  integration: FigmaIntegration,
+  config: FigmaConfig
+): (payload: unknown) => Promise<RawChangeData[]> {
+  return payload => integration.extractRawChanges(payload, config);
+}
+
+async function verifyFigmaPasscode(payload: unknown, passcode: string): Promise<boolean> {
+  if (!passcode) {
+    return false;
+  }
+
+  const data = typeof payload === 'string' || Buffer.isBuffer(payload)
+    ? asRecord(JSON.parse(payload.toString()))
+    : asRecord(payload);
+  const received = optionalString(data?.passcode);
+
+  return received !== undefined && safeEqual(received, passcode);
+}
+
+/**
+ * Webhook-only raw changes for change detection without Figma credentials
+ * Library publishes list their components, so only version updates lack a diff
+ */
+export function figmaWebhookToRawChanges(payload: unknown): RawChangeData[] {
+  const data = asRecord(payload);
+  if (!data) return [];
+
+  switch (detectFigmaEvent(data)) {
+    case 'LIBRARY_PUBLISH':
+      return [libraryPublishToRaw(data)];
+    case 'FILE_VERSION_UPDATE':
+      return [versionToRaw({
+        event: 'FILE_VERSION_UPDATE',
+        fileKey: String(data.file_key),
+        fileName: optionalString(data.file_name),
+        versionId: String(data.version_id),
+        label: optionalString(data.label),
+        description: optionalString(data.description),
+        triggeredBy: optionalString(asRecord(data.triggered_by)?.handle),
+        timestamp: new Date(String(data.timestamp)),
+      })];
+    default:
+      logger.debug('Unsupported Figma webhook payload', { eventType: data.event_type });
+      return [];
+  }
+}
+
+const API_BASE_URL = 'https://api.figma.com/v1';
+
+/**
+ * Implementation of FigmaIntegration
+ */
+export class FigmaIntegrationImpl implements FigmaIntegration {
+  constructor(private httpClient?: HttpClient) {}
+
+  async verifyWebhook(payload: unknown, passcode: string): Promise<boolean> {
+    return verifyFigmaPasscode(payload, passcode);
+  }
+
+  async extractRawChanges(payload: unknown, config: FigmaConfig): Promise<RawChangeData[]> {
+    const data = asRecord(payload);
+    if (!data || detectFigmaEvent(data) !== 'FILE_VERSION_UPDATE') {
+      return figmaWebhookToRawChanges(payload);
+    }
+
+    const fileKey = String(data.file_key);
+    const versionId = String(data.version_id);
+
+    // Versions are listed newest first; diff against the named version before ours,
+    // matching what polling would report for the same version
+    const named = (await this.listVersions(fileKey, config)).filter(version => optionalString(version.label));
+    const index = named.findIndex(version => String(version.id) === versionId);
+    const previous = index >= 0 ? named[index + 1] : undefined;
+
+    return [await this.diffVersions(fileKey, previous ? String(previous.id) : undefined, {
+      event: 'FILE_VERSION_UPDATE',
+      fileKey,
+      fileName: optionalString(data.file_name),
+      versionId,
+      label: optionalString(data.label),
+      description: optionalString(data.description),
+      triggeredBy: optionalString(asRecord(data.triggered_by)?.handle),
+      timestamp: new Date(String(data.timestamp)),
+    }, config)];
+  }
+
+  async pollChanges(cursor: Cursor, config: FigmaConfig): Promise<CursorPollResult<RawChangeData>> {
+    // One cursor tracks every configured file: the position is a JSON map of
+    // file key -> last processed version ID. Files missing from the map start
+    // from their previous named version so the first poll reports one diff.
+    const positions = parsePositions(cursor.position);
+
+    logger.info(`Polling Figma for changes`, {
+      cursorId: cursor.id,
+      files: config.fileKeys.length,
+    });
+
+    const changes: RawChangeData[] = [];
+    const nextPositions = { ...positions };
+
+    for (const fileKey of config.fileKeys) {
+      // Autosaves happen constantly; only named versions are worth a notification.
+      // Component edits made in autosaves still show up in the next named version's diff.
+      const named = (await this.listVersions(fileKey, config)).filter(version => optionalString(version.label));
+      const lastSeen = positions[fileKey];
+      const seenIndex = lastSeen ? named.findIndex(version => String(version.id) === lastSeen) : -1;
+
+      let pending: Record<string, unknown>[];
+      if (lastSeen && seenIndex >= 0) {
+        pending = named.slice(0, seenIndex);
+      } else {
+        if (lastSeen) {
+          logger.warn(`Figma cursor version not found, starting from latest`, { fileKey, versionId: lastSeen });
+        }
+        pending = named.slice(0, 1);
+      }
+
+      // Oldest first, each diffed against the named version before it
+      pending.reverse();
+      let previousId = lastSeen && seenIndex >= 0
+        ? lastSeen
+        : optionalString(named[pending.length]?.id);
+
+      for (const version of pending) {
+        changes.push(await this.diffVersions(fileKey, previousId, {
+          event: 'FILE_VERSION_UPDATE',
+          fileKey,
+          versionId: String(version.id),
+          label: optionalString(version.label),
+          description: optionalString(version.description),
+          triggeredBy: optionalString(asRecord(version.user)?.handle),
+          timestamp: new Date(String(version.created_at)),
+        }, config));
+        previousId = String(version.id);
+      }
+
+      if (previousId) {
+        nextPositions[fileKey] = previousId;
+      }
+    }
+
+    changes.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+    return {
+      cursor: {
+        ...cursor,
+        lastPolledAt: new Date(),
+      },
+      changes,
+      nextPosition: changes.length > 0 ? JSON.stringify(nextPositions) : undefined,
+      hasMore: false,
+    };
+  }
+
+  /**
+   * Fetch two versions of a file and attach the component/style diff
+   */
+  private async diffVersions(
+    fileKey: string,
+    previousVersionId: string | undefined,
+    version: FigmaVersionInfo & { versionId: string },
+    config: FigmaConfig
+  ): Promise<RawChangeData> {
+    const current = await this.fetchLibrary(fileKey, version.versionId, config);
+    const previous = previousVersionId
+      ? await this.fetchLibrary(fileKey, previousVersionId, config)
+      : { components: {}, styles: {} };
+
+    return versionToRaw({
+      ...version,
+      fileName: version.fileName ?? current.fileName,
+      previousVersionId,
+      components: diffNames(previous.components, current.components),
+      styles: diffNames(previous.styles, current.styles),
+    });
+  }
+
+  private async listVersions(fileKey: string, config: FigmaConfig): Promise<Record<string, unknown>[]> {
+    const response = await this.client(config).request<Record<string, unknown>>(
+      'GET',
+      `${apiUrl(config)}/files/${fileKey}/versions`
+    );
+    return asRecordArray(response.data.versions);
+  }
+
+  /**
+   * Read component and style names at a version
+   * The file endpoint returns top-level components/styles maps keyed by node ID
+   */
+  private async fetchLibrary(
+    fileKey: string,
+    versionId: string,
+    config: FigmaConfig
+  ): Promise<FigmaLibrary & { fileName?: string }> {
+    const response = await this.client(config).request<Record<string, unknown>>(
+      'GET',
+      `${apiUrl(config)}/files/${fileKey}`,
+      { query: { version: versionId } }
+    );
+
+    return {
+      fileName: optionalString(response.data.name),
+      components: namesById(response.data.components),
+      styles: namesById(response.data.styles),
+    };
+  }
+
+  private client(config: FigmaConfig): HttpClient {
+    return this.httpClient ?? new FetchHttpClient({ 'X-Figma-Token': config.token });
+  }
+}
+
+/**
+ * Compare two name maps keyed by node ID
+ */
+export function diffNames(previous: Record<string, string>, current: Record<string, string>): FigmaNameChanges {
+  const changes: FigmaNameChanges = { added: [], removed: [], renamed: [], modified: [] };
+
+  for (const [id, name] of Object.entries(current)) {
+    if (!(id in previous)) {
+      changes.added.push(name);
+    } else if (previous[id] !== name) {
+      changes.renamed.push({ from: previous[id], to: name });
+    }
+  }
+  for (const [id, name] of Object.entries(previous)) {
+    if (!(id in current)) {
+      changes.removed.push(name);
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * One-line summary, e.g. "2 components added, 1 component renamed, 1 style removed"
+ */
+export function summarizeFigmaChanges(components: FigmaNameChanges, styles: FigmaNameChanges): string {
+  const parts: string[] = [];
+
+  for (const [noun, changes] of [['component', components], ['style', styles]] as const) {
+    for (const verb of ['added', 'removed', 'renamed', 'modified'] as const) {
+      const count = changes[verb].length;
+      if (count > 0) {
+        parts.push(`${count} ${noun}${count === 1 ? '' : 's'} ${verb}`);
+      }
+    }
+  }
+
+  return parts.length > 0 ? parts.join(', ') : 'No component or style changes';
+}
+
+interface FigmaVersionInfo {
+  event: 'FILE_VERSION_UPDATE' | 'LIBRARY_PUBLISH';
+  fileKey: string;
+  fileName?: string;
+  versionId?: string;
+  previousVersionId?: string;
+  label?: string;
+  description?: string;
+  triggeredBy?: string;
+  timestamp: Date;
+  components?: FigmaNameChanges;
+  styles?: FigmaNameChanges;
+}
+
+function versionToRaw(version: FigmaVersionInfo): RawChangeData {
+  const { timestamp, components, styles, ...info } = version;
+  const hasNames = components !== undefined && styles !== undefined;
+
+  return {
+    tool: 'figma' as SourceTool,
+    resourceId: version.fileKey,
+    resourceType: version.event === 'LIBRARY_PUBLISH' ? 'library_publish' : 'file_version',
+    rawData: {
+      ...info,
+      url: `https://www.figma.com/file/${version.fileKey}`,
+      components,
+      styles,
+      summary: hasNames ? summarizeFigmaChanges(components, styles) : undefined,
+      diff: hasNames ? formatNameDiff(components, styles) : undefined,
+    },
+    timestamp,
+  };
+}
+
+function libraryPublishToRaw(data: Record<string, unknown>): RawChangeData {
+  const names = (value: unknown) => asRecordArray(value).map(item => String(item.name));
+
+  return versionToRaw({
+    event: 'LIBRARY_PUBLISH',
+    fileKey: String(data.file_key),
+    fileName: optionalString(data.file_name),
+    description: optionalString(data.description),
+    triggeredBy: optionalString(asRecord(data.triggered_by)?.handle),
+    timestamp: new Date(String(data.timestamp)),
+    // Publish payloads report edits but not old names, so renames arrive as modified
+    components: {
+      added: names(data.created_components),
+      removed: names(data.deleted_components),
+      renamed: [],
+      modified: names(data.modified_components),
+    },
+    styles: {
+      added: names(data.created_styles),
+      removed: names(data.deleted_styles),
+      renamed: [],
+      modified: names(data.modified_styles),
+    },
+  });
+}
+
+function formatNameDiff(components: FigmaNameChanges, styles: FigmaNameChanges): string {
+  const lines: string[] = [];
+
+  for (const [noun, changes] of [['component', components], ['style', styles]] as const) {
+    lines.push(
+      ...changes.added.map(name => `+ ${noun}: ${name}`),
+      ...changes.removed.map(name => `- ${noun}: ${name}`),
+      ...changes.renamed.map(({ from, to }) => `~ ${noun}: ${from} → ${to}`),
+      ...changes.modified.map(name => `* ${noun}: ${name}`)
+    );
+  }
+
+  return lines.join('\n');
+}
+
+function namesById(value: unknown): Record<string, string> {
+  const names: Record<string, string> = {};
+  for (const [id, entry] of Object.entries(asRecord(value) ?? {})) {
+    const name = optionalString(asRecord(entry)?.name);
+    if (name) names[id] = name;
+  }
+  return names;
+}
+
+function parsePositions(position: string): Record<string, string> {
+  if (!position) return {};
+  try {
+    const parsed = asRecord(JSON.parse(position));
+    return parsed ? Object.fromEntries(Object.entries(parsed).map(([key, value]) => [key, String(value)])) : {};
+  } catch {
+    throw new Error(`Invalid Figma cursor position: ${position}`);
+  }
+}
+
+function apiUrl(config: FigmaConfig): string {
+  return (config.apiBaseUrl ?? API_BASE_URL).replace(/\/$/, '');
+}
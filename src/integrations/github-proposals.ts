@@ -0,0 +1,107 @@
+/**
+ * GitHub proposal applier
+ *
+ * Applies approved CodeChangeProposals to GitHub:
+ * - Summaries, documentation and alignment reminders → PR comment
+ * - Migration checklists and integration tasks → new issue
+ * - Review routing → review request for the listed users and teams
+ *
+ * Targets are "owner/repo#123" for pull requests and "owner/repo" for issues.
+ * Review requests are read from the approved content, so exactly what the
+ * approver saw is what gets requested.
+ */
+
+import { CodeChangeProposal } from '../types/code-changes';
+import { ProposalApplier } from '../services/proposals';
+import { GitHubConfig } from './github';
+import { HttpClient, FetchHttpClient } from './http-client';
+import { optionalString } from './payload';
+
+const DEFAULT_API_BASE_URL = 'https://api.github.com';
+
+export class GitHubProposalApplier implements ProposalApplier {
+  constructor(
+    private config: Pick<GitHubConfig, 'token' | 'apiBaseUrl'>,
+    private httpClient?: HttpClient
+  ) {}
+
+  async apply(proposal: CodeChangeProposal): Promise<{ resourceUrl?: string }> {
+    const target = parseTarget(proposal.targetResource?.resourceId ?? '');
+    const baseUrl = `${this.config.apiBaseUrl ?? DEFAULT_API_BASE_URL}/repos/${target.repository}`;
+
+    switch (proposal.type) {
+      case 'migration-checklist':
+      case 'integration-task': {
+        const response = await this.client().request<Record<string, unknown>>('POST', `${baseUrl}/issues`, {
+          body: { title: proposal.title ?? proposal.type, body: proposal.content },
+        });
+        return { resourceUrl: optionalString(response.data.html_url) };
+      }
+
+      case 'review-routing': {
+        const number = requirePullRequest(target, proposal);
+        const requested = parseReviewers(proposal.content);
+        if (requested.reviewers.length === 0 && requested.team_reviewers.length === 0) {
+          throw new Error(`Proposal ${proposal.id} lists no reviewers`);
+        }
+        const response = await this.client().request<Record<string, unknown>>(
+          'POST',
+          `${baseUrl}/pulls/${number}/requested_reviewers`,
+          { body: requested }
+        );
+        return { resourceUrl: optionalString(response.data.html_url) };
+      }
+
+      default: {
+        const number = requirePullRequest(target, proposal);
+        const body = proposal.title ? `### ${proposal.title}\n\n${proposal.content}` : proposal.content;
+        const response = await this.client().request<Record<string, unknown>>(
+          'POST',
+          `${baseUrl}/issues/${number}/comments`,
+          { body: { body } }
+        );
+        return { resourceUrl: optionalString(response.data.html_url) };
+      }
+    }
+  }
+
+  private client(): HttpClient {
+    return this.httpClient ?? new FetchHttpClient({
+      Authorization: `Bearer ${this.config.token}`,
+      Accept: 'application/vnd.github+json',
+    });
+  }
+}
+
+/**
+ * "@alice" → reviewers, "@acme/payments" → team_reviewers (team slug only)
+ */
+export function parseReviewers(content: string): { reviewers: string[]; team_reviewers: string[] } {
+  const reviewers = new Set<string>();
+  const teams = new Set<string>();
+
+  for (const match of content.matchAll(/^\s*[-*]\s+@([\w.-]+)(?:\/([\w.-]+))?\s*$/gm)) {
+    if (match[2]) {
+      teams.add(match[2]);
+    } else {
+      reviewers.add(match[1]);
+    }
+  }
+
+  return { reviewers: Array.from(reviewers), team_reviewers: Array.from(teams) };
+}
+
+function parseTarget(resourceId: string): { repository: string; number?: number } {
+  const match = /^([\w.-]+\/[\w.-]+)(?:#(\d+))?$/.exec(resourceId);
+  if (!match) {
+    throw new Error(`Invalid GitHub proposal target: ${resourceId || '(none)'}`);
+  }
+  return { repository: match[1], number: match[2] ? Number(match[2]) : undefined };
+}
+
+function requirePullRequest(target: { repository: string; number?: number }, proposal: CodeChangeProposal): number {
+  if (target.number === undefined) {
+    throw new Error(`${proposal.type} proposals need a pull request target, got ${target.repository}`);
+  }
+  return target.number;
+}
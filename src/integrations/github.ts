@@ -11,13 +11,31 @@
  */
 
 import { SourceTool } from '../types/core';
-import { PullRequest, Commit, FileDiff, CodeOwnership } from '../types/code-changes';
+import {
+  PullRequest,
+  PullRequestReview,
+  Commit,
+  Release,
+  FileDiff,
+  CodeOwnership,
+  PRState,
+  SensitiveFindingSummary,
+  TagDateLookup,
+} from '../types/code-changes';
 import { Cursor, CursorPollResult } from '../types/cursors';
+import { LinkedPullRequest } from '../types/issues';
+import { RawChangeData } from '../services/change-detection';
+import { HttpClient, FetchHttpClient } from './http-client';
+import { PullRequestLookup } from './issue-tracking';
+import { asRecord, isPresent, optionalString, stringArray } from './payload';
+import { verifyHmacSignature } from './webhook-signature';
 import { logger } from '../utils/logger';
+import { redact } from '../utils/sensitive-data.cjs';
 
 export interface GitHubIntegration {
   /**
    * Verify webhook signature
+   * `payload` should be the raw request body; objects are re-serialized as a fallback
    */
   verifyWebhook(payload: unknown, signature: string, secret: string): Promise<boolean>;
 
@@ -31,10 +49,35 @@ export interface GitHubIntegration {
    */
   extractCommitsFromWebhook(payload: unknown): Promise<Commit[]>;
 
+  /**
+   * Extract a release from webhook payload
+   */
+  extractReleaseFromWebhook(payload: unknown): Promise<Release | null>;
+
+  /**
+   * Extract a PR review from webhook payload
+   */
+  extractReviewFromWebhook(payload: unknown): Promise<PullRequestReview | null>;
+
+  /**
+   * Convert any supported webhook payload into raw changes for normalization
+   */
+  extractRawChanges(payload: unknown): Promise<RawChangeData[]>;
+
   /**
    * Poll for changes since cursor
    */
-  pollChanges(cursor: Cursor, config: GitHubConfig): Promise<CursorPollResult>;
+  pollChanges(cursor: Cursor, config: GitHubConfig): Promise<CursorPollResult<RawChangeData>>;
+
+  /**
+   * Find pull requests whose title or body mention an issue key
+   */
+  findPullRequestsMentioning(issueKey: string, config: GitHubConfig): Promise<LinkedPullRequest[]>;
+
+  /**
+   * Commit date of the commit a tag points to
+   */
+  getTagDate(repository: string, tag: string, config: GitHubConfig): Promise<Date>;
 
   /**
    * Parse CODEOWNERS file
@@ -44,81 +87,460 @@ export interface GitHubIntegration {
   /**
    * Redact secrets from diff
    */
-  redactSecrets(diff: string): { redacted: string; detectedSecrets: string[] };
+  redactSecrets(diff: string): DiffRedaction;
+}
+
+export interface DiffRedaction {
+  redacted: string;
+  detectedSecrets: string[]; // Secret types found, e.g. "github_token"
+  findings: SensitiveFindingSummary[];
 }
 
 export interface GitHubConfig {
   token: string;
   organization?: string;
   repositories: string[]; // "owner/repo" format
+  apiBaseUrl?: string; // GitHub Enterprise, defaults to https://api.github.com
+  pageSize?: number;
 }
 
+/**
+ * GitHub webhook event inferred from payload shape
+ * (the X-GitHub-Event header is not always available downstream)
+ */
+export type GitHubWebhookEvent = 'pull_request' | 'pull_request_review' | 'push' | 'release' | 'unknown';
+
+export function detectGitHubEvent(payload: unknown): GitHubWebhookEvent {
+  const data = asRecord(payload);
+  if (!data) return 'unknown';
+  if (data.review && data.pull_request) return 'pull_request_review';
+  if (data.pull_request) return 'pull_request';
+  if (data.release) return 'release';
+  if (Array.isArray(data.commits) && typeof data.ref === 'string') return 'push';
+  return 'unknown';
+}
+
+/**
+ * Build a verifier for ChangeDetectionServiceImpl's webhookVerifiers map
+ */
+export function createGitHubWebhookVerifier(
+  secret: string,
+  integration: GitHubIntegration = new GitHubIntegrationImpl()
+): (payload: unknown, signature?: string) => Promise<boolean> {
+  return async (payload, signature) => {
+    if (!signature) return false;
+    return integration.verifyWebhook(payload, signature, secret);
+  };
+}
+
+/**
+ * Build a lookup for issue tracker integrations (Jira, Linear)
+ */
+export function createGitHubPullRequestLookup(
+  config: GitHubConfig,
+  integration: GitHubIntegration = new GitHubIntegrationImpl()
+): PullRequestLookup {
+  return issueKey => integration.findPullRequestsMentioning(issueKey, config);
+}
+
+/**
+ * Build a tag date lookup for ReleaseNotesServiceImpl
+ */
+export function createGitHubTagDateLookup(
+  config: GitHubConfig,
+  integration: GitHubIntegration = new GitHubIntegrationImpl()
+): TagDateLookup {
+  return (repository, tag) => integration.getTagDate(repository, tag, config);
+}
+
+const DEFAULT_API_BASE_URL = 'https://api.github.com';
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_COMMIT_PAGES = 10;
+
+// "Fixes #12", "closes owner/repo#34", "resolves #5"
+const LINKED_ISSUE_PATTERN = /\b(?:close[sd]?|fix(?:e[sd])?|resolve[sd]?)\s*:?\s+((?:[\w.-]+\/[\w.-]+)?#\d+)/gi;
+
 /**
  * Implementation of GitHubIntegration
  */
 export class GitHubIntegrationImpl implements GitHubIntegration {
+  constructor(private httpClient?: HttpClient) {}
+
   async verifyWebhook(
     payload: unknown,
     signature: string,
     secret: string
   ): Promise<boolean> {
-    // GitHub webhook signature verification
-    // Uses HMAC-SHA256
-    // TODO: Implement proper signature verification
-    return true; // Placeholder
+    // GitHub signs the raw body with HMAC-SHA256: "sha256=<hex digest>"
+    return verifyHmacSignature(payload, signature, secret);
   }
 
   async extractPRFromWebhook(payload: unknown): Promise<PullRequest | null> {
-    // TODO: Parse GitHub webhook payload for PR events
-    // Handle: pull_request.opened, pull_request.edited, pull_request.merged, etc.
-    logger.debug('Extracting PR from webhook', { payload });
-    return null;
+    const data = asRecord(payload);
+    const pr = asRecord(data?.pull_request);
+    const repo = asRecord(data?.repository);
+    if (!data || !pr || !repo) {
+      logger.debug('Webhook payload has no pull_request', { action: data?.action });
+      return null;
+    }
+
+    return this.mapPullRequest(pr, String(repo.full_name), data.action as string | undefined);
   }
 
   async extractCommitsFromWebhook(payload: unknown): Promise<Commit[]> {
-    // TODO: Parse GitHub webhook payload for push events
-    // Extract commits from push payload
-    logger.debug('Extracting commits from webhook', { payload });
-    return [];
-  }
-
-  async pollChanges(cursor: Cursor, config: GitHubConfig): Promise<CursorPollResult> {
-    // TODO: Implement cursor-based polling for GitHub
-    // Use GitHub API to fetch changes since cursor position
-    // 
-    // For each repository:
-    // 1. Fetch commits since cursor timestamp
-    // 2. Fetch PRs updated since cursor timestamp
-    // 3. Normalize into raw changes
-    // 4. Return with new cursor position
+    const data = asRecord(payload);
+    if (!data || detectGitHubEvent(data) !== 'push') {
+      return [];
+    }
+
+    const repository = String(asRecord(data.repository)?.full_name ?? '');
+    const branch = String(data.ref).replace(/^refs\/(heads|tags)\//, '');
+    const commits = (data.commits as unknown[]).map(asRecord).filter(isPresent);
+
+    return commits.map(commit => {
+      const author = asRecord(commit.author);
+      const committer = asRecord(commit.committer);
+
+      // Push payloads only list paths, not line counts or patches
+      const files: FileDiff[] = [
+        ...stringArray(commit.added),
+        ...stringArray(commit.modified),
+        ...stringArray(commit.removed),
+      ].map(path => ({
+        path,
+        additions: 0,
+        deletions: 0,
+        changes: 0,
+        isRedacted: false,
+      }));
+
+      return {
+        id: String(commit.id),
+        message: String(commit.message ?? ''),
+        author: String(author?.username ?? author?.name ?? 'unknown'),
+        committer: String(committer?.username ?? committer?.name ?? 'unknown'),
+        repository,
+        branch,
+        url: String(commit.url),
+        files,
+        createdAt: new Date(String(commit.timestamp)),
+      };
+    });
+  }
+
+  async extractReleaseFromWebhook(payload: unknown): Promise<Release | null> {
+    const data = asRecord(payload);
+    const release = asRecord(data?.release);
+    const repo = asRecord(data?.repository);
+    if (!release || !repo) {
+      return null;
+    }
+
+    return this.mapRelease(release, String(repo.full_name));
+  }
+
+  async extractReviewFromWebhook(payload: unknown): Promise<PullRequestReview | null> {
+    const data = asRecord(payload);
+    const review = asRecord(data?.review);
+    const pullRequest = await this.extractPRFromWebhook(payload);
+    if (!review || !pullRequest) {
+      return null;
+    }
+
+    const reviewStates: Record<string, PullRequestReview['state']> = {
+      approved: 'approved',
+      changes_requested: 'changes-requested',
+      commented: 'commented',
+      dismissed: 'dismissed',
+    };
+
+    return {
+      id: String(review.id),
+      pullRequest,
+      reviewer: login(review.user),
+      state: reviewStates[String(review.state).toLowerCase()] ?? 'commented',
+      body: optionalString(review.body),
+      url: String(review.html_url),
+      submittedAt: new Date(String(review.submitted_at ?? pullRequest.updatedAt.toISOString())),
+    };
+  }
+
+  async extractRawChanges(payload: unknown): Promise<RawChangeData[]> {
+    const event = detectGitHubEvent(payload);
+    const action = asRecord(payload)?.action as string | undefined;
+
+    switch (event) {
+      case 'pull_request': {
+        const pr = await this.extractPRFromWebhook(payload);
+        return pr ? [pullRequestToRaw(pr, action)] : [];
+      }
+      case 'pull_request_review': {
+        const review = await this.extractReviewFromWebhook(payload);
+        if (!review) return [];
+        return [{
+          tool: 'github',
+          resourceId: review.id,
+          resourceType: 'pull_request_review',
+          rawData: { event, action, review },
+          timestamp: review.submittedAt,
+        }];
+      }
+      case 'push': {
+        const commits = await this.extractCommitsFromWebhook(payload);
+        return commits.map(commit => commitToRaw(commit));
+      }
+      case 'release': {
+        const release = await this.extractReleaseFromWebhook(payload);
+        if (!release) return [];
+        return [{
+          tool: 'github',
+          resourceId: release.id,
+          resourceType: 'release',
+          rawData: { event, action, release },
+          timestamp: release.publishedAt ?? release.createdAt,
+        }];
+      }
+      default:
+        logger.debug('Unsupported GitHub webhook payload');
+        return [];
+    }
+  }
+
+  async pollChanges(cursor: Cursor, config: GitHubConfig): Promise<CursorPollResult<RawChangeData>> {
+    // Cursor position is an ISO timestamp: everything updated strictly after it is new
+    const client = this.client(config);
+    const baseUrl = config.apiBaseUrl ?? DEFAULT_API_BASE_URL;
+    const pageSize = config.pageSize ?? DEFAULT_PAGE_SIZE;
+    const since = new Date(cursor.position);
 
     logger.info(`Polling GitHub for changes`, {
       cursorId: cursor.id,
       position: cursor.position,
+      repositories: config.repositories.length,
     });
 
-    // Placeholder - would fetch from GitHub API
+    const changes: RawChangeData[] = [];
+    let hasMore = false;
+    // When a repo has more PRs than one page, only changes up to its last returned PR are safe to consume
+    let safeUntil: Date | undefined;
+
+    for (const repository of config.repositories) {
+      // Commits come newest first. With more pages pending than one poll reads,
+      // read the last (oldest) pages and leave the newer ones for the next poll.
+      const listCommits = (page: number) => client.request<unknown[]>('GET', `${baseUrl}/repos/${repository}/commits`, {
+        query: { since: since.toISOString(), per_page: pageSize, page },
+      });
+      const firstPage = await listCommits(1);
+      const lastPage = lastPageFromLink(firstPage.headers.link) ?? 1;
+      const firstPageRead = Math.max(1, lastPage - MAX_COMMIT_PAGES + 1);
+      const commitPages = firstPageRead === 1 ? [firstPage] : [];
+      for (let page = Math.max(2, firstPageRead); page <= lastPage; page++) {
+        commitPages.push(await listCommits(page));
+      }
+
+      let newestCommitRead: Date | undefined;
+      for (const summary of commitPages.flatMap(page => page.data.map(asRecord).filter(isPresent))) {
+        const detail = await client.request<Record<string, unknown>>(
+          'GET',
+          `${baseUrl}/repos/${repository}/commits/${summary.sha}`
+        );
+        const commit = this.mapCommit(detail.data, repository);
+        if (commit.createdAt > since) {
+          changes.push(commitToRaw(commit));
+          newestCommitRead = newestCommitRead && newestCommitRead > commit.createdAt ? newestCommitRead : commit.createdAt;
+        }
+      }
+
+      if (firstPageRead > 1 && newestCommitRead) {
+        logger.info(`GitHub commit page limit reached, continuing next poll`, { repository, cursorId: cursor.id, lastPage });
+        hasMore = true;
+        safeUntil = safeUntil && safeUntil < newestCommitRead ? safeUntil : newestCommitRead;
+      }
+
+      // Pull requests via search, oldest update first so a partial page is still a valid cursor step
+      const search = await client.request<{ total_count: number; items: unknown[] }>('GET', `${baseUrl}/search/issues`, {
+        query: {
+          q: `repo:${repository} is:pr updated:>${since.toISOString().replace(/\.\d{3}Z$/, 'Z')}`,
+          sort: 'updated',
+          order: 'asc',
+          per_page: pageSize,
+        },
+      });
+      const items = search.data.items.map(asRecord).filter(isPresent);
+
+      for (const item of items) {
+        const prResponse = await client.request<Record<string, unknown>>(
+          'GET',
+          `${baseUrl}/repos/${repository}/pulls/${item.number}`
+        );
+        const pr = this.mapPullRequest(prResponse.data, repository);
+        if (pr.updatedAt <= since) continue;
+
+        const filesResponse = await client.request<unknown[]>(
+          'GET',
+          `${baseUrl}/repos/${repository}/pulls/${item.number}/files`,
+          { query: { per_page: 100 } }
+        );
+        pr.files = filesResponse.data.map(asRecord).filter(isPresent).map(file => this.mapFile(file));
+        pr.totalAdditions = pr.files.reduce((sum, f) => sum + f.additions, 0);
+        pr.totalDeletions = pr.files.reduce((sum, f) => sum + f.deletions, 0);
+        changes.push(pullRequestToRaw(pr));
+      }
+
+      if (search.data.total_count > items.length && items.length > 0) {
+        hasMore = true;
+        const lastUpdated = new Date(String(items[items.length - 1].updated_at));
+        safeUntil = safeUntil && safeUntil < lastUpdated ? safeUntil : lastUpdated;
+      }
+    }
+
+    const consumable = changes
+      .filter(change => !safeUntil || change.timestamp <= safeUntil)
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    const latest = consumable[consumable.length - 1];
+
     return {
       cursor: {
         ...cursor,
         lastPolledAt: new Date(),
       },
-      changes: [],
-      hasMore: false,
+      changes: consumable,
+      nextPosition: latest ? latest.timestamp.toISOString() : undefined,
+      hasMore,
+    };
+  }
+
+  async findPullRequestsMentioning(issueKey: string, config: GitHubConfig): Promise<LinkedPullRequest[]> {
+    const repositories = config.repositories.map(repository => `repo:${repository}`).join(' ');
+    const search = await this.client(config).request<{ items: unknown[] }>(
+      'GET',
+      `${config.apiBaseUrl ?? DEFAULT_API_BASE_URL}/search/issues`,
+      { query: { q: `"${issueKey}" is:pr ${repositories}`.trim(), per_page: config.pageSize ?? DEFAULT_PAGE_SIZE } }
+    );
+
+    return search.data.items.map(asRecord).filter(isPresent).map(item => ({
+      tool: 'github' as SourceTool,
+      resourceId: String(item.node_id),
+      resourceUrl: optionalString(item.html_url),
+    }));
+  }
+
+  async getTagDate(repository: string, tag: string, config: GitHubConfig): Promise<Date> {
+    const response = await this.client(config).request<Record<string, unknown>>(
+      'GET',
+      `${config.apiBaseUrl ?? DEFAULT_API_BASE_URL}/repos/${repository}/commits/${encodeURIComponent(tag)}`
+    );
+    const commit = asRecord(response.data.commit);
+    const date = optionalString(asRecord(commit?.committer)?.date) ?? optionalString(asRecord(commit?.author)?.date);
+    if (!date) {
+      throw new Error(`No commit date for tag ${tag} in ${repository}`);
+    }
+    return new Date(date);
+  }
+
+  private client(config: GitHubConfig): HttpClient {
+    return this.httpClient ?? new FetchHttpClient({
+      Authorization: `Bearer ${config.token}`,
+      Accept: 'application/vnd.github+json',
+    });
+  }
+
+  private mapPullRequest(pr: Record<string, unknown>, repository: string, action?: string): PullRequest {
+    const base = asRecord(pr.base);
+    const head = asRecord(pr.head);
+    const body = optionalString(pr.body);
+
+    return {
+      id: String(pr.node_id ?? pr.id),
+      number: Number(pr.number),
+      title: String(pr.title ?? ''),
+      body,
+      state: mapPRState(pr, action),
+      author: login(pr.user),
+      baseBranch: String(base?.ref ?? ''),
+      headBranch: String(head?.ref ?? ''),
+      repository,
+      url: String(pr.html_url),
+      files: [],
+      totalAdditions: Number(pr.additions ?? 0),
+      totalDeletions: Number(pr.deletions ?? 0),
+      mergeable: typeof pr.mergeable === 'boolean' ? pr.mergeable : undefined,
+      labels: (Array.isArray(pr.labels) ? pr.labels : []).map(label => String(asRecord(label)?.name ?? label)),
+      reviewers: (Array.isArray(pr.requested_reviewers) ? pr.requested_reviewers : []).map(login),
+      assignees: (Array.isArray(pr.assignees) ? pr.assignees : []).map(login),
+      milestone: optionalString(asRecord(pr.milestone)?.title),
+      linkedIssues: body ? extractLinkedIssues(body) : undefined,
+      createdAt: new Date(String(pr.created_at)),
+      updatedAt: new Date(String(pr.updated_at)),
+      mergedAt: pr.merged_at ? new Date(String(pr.merged_at)) : undefined,
+      closedAt: pr.closed_at ? new Date(String(pr.closed_at)) : undefined,
+    };
+  }
+
+  private mapCommit(commit: Record<string, unknown>, repository: string): Commit {
+    const detail = asRecord(commit.commit);
+    const author = asRecord(detail?.author);
+    const committer = asRecord(detail?.committer);
+    const files = Array.isArray(commit.files) ? commit.files : [];
+
+    return {
+      id: String(commit.sha),
+      message: String(detail?.message ?? ''),
+      author: asRecord(commit.author) ? login(commit.author) : String(author?.name ?? 'unknown'),
+      committer: asRecord(commit.committer) ? login(commit.committer) : String(committer?.name ?? 'unknown'),
+      repository,
+      branch: '', // The commits API does not report a branch
+      url: String(commit.html_url),
+      files: files.map(asRecord).filter(isPresent).map(file => this.mapFile(file)),
+      createdAt: new Date(String(committer?.date ?? author?.date)),
+    };
+  }
+
+  private mapFile(file: Record<string, unknown>): FileDiff {
+    const patch = optionalString(file.patch);
+    const redaction = patch ? this.redactSecrets(patch) : undefined;
+
+    return {
+      path: String(file.filename),
+      oldPath: optionalString(file.previous_filename),
+      additions: Number(file.additions ?? 0),
+      deletions: Number(file.deletions ?? 0),
+      changes: Number(file.changes ?? 0),
+      patch: redaction?.redacted,
+      isRedacted: (redaction?.findings.length ?? 0) > 0,
+      detectedSecrets: redaction?.detectedSecrets.length ? redaction.detectedSecrets : undefined,
+      findings: redaction?.findings.length ? redaction.findings : undefined,
+    };
+  }
+
+  private mapRelease(release: Record<string, unknown>, repository: string): Release {
+    return {
+      id: String(release.node_id ?? release.id),
+      tagName: String(release.tag_name),
+      name: optionalString(release.name),
+      body: optionalString(release.body),
+      repository,
+      author: login(release.author),
+      url: String(release.html_url),
+      isDraft: Boolean(release.draft),
+      isPrerelease: Boolean(release.prerelease),
+      targetBranch: optionalString(release.target_commitish),
+      createdAt: new Date(String(release.created_at)),
+      publishedAt: release.published_at ? new Date(String(release.published_at)) : undefined,
     };
   }
 
   async parseCODEOWNERS(content: string): Promise<CodeOwnership[]> {
-    // TODO: Parse CODEOWNERS file format
-    // Format: path [@owner1 @owner2 ...]
-    // Map owners to roles if possible
-    
+    // Format: path [@owner1 @org/team email@example.com ...]
+    // Owners are mapped to roles by the ownership registry (services/ownership.ts)
+
     const ownerships: CodeOwnership[] = [];
     const lines = content.split('\n');
 
-    for (const line of lines) {
-      // Skip comments and empty lines
-      if (line.trim().startsWith('#') || !line.trim()) {
+    for (const rawLine of lines) {
+      // Skip comments and empty lines; drop trailing comments
+      const line = rawLine.replace(/\s+#.*$/, '').trim();
+      if (line.startsWith('#') || !line) {
         continue;
       }
 
@@ -130,9 +552,9 @@ export class GitHubIntegrationImpl implements GitHubIntegration {
           .split(/\s+/)
           .filter(o => o.startsWith('@') || o.includes('@'))
           .map(owner => ({
-            type: owner.includes('@') && !owner.startsWith('@') ? 'email' as const : 'user' as const,
+            type: !owner.startsWith('@') ? 'email' as const : owner.includes('/') ? 'team' as const : 'user' as const,
             identifier: owner,
-            roles: undefined, // Would need mapping from GitHub username to role
+            roles: undefined,
           }));
 
         if (owners.length > 0) {
@@ -147,45 +569,73 @@ export class GitHubIntegrationImpl implements GitHubIntegration {
     return ownerships;
   }
 
-  redactSecrets(diff: string): { redacted: string; detectedSecrets: string[] } {
-    // Common secret patterns
-    const secretPatterns = [
-      {
-        pattern: /(?:api[_-]?key|apikey)\s*[:=]\s*['"]?([A-Za-z0-9_\-]{20,})['"]?/gi,
-        type: 'API Key',
-        replacement: 'REDACTED_API_KEY',
-      },
-      {
-        pattern: /(?:secret|password|passwd|pwd)\s*[:=]\s*['"]?([^\s'"]{8,})['"]?/gi,
-        type: 'Secret',
-        replacement: 'REDACTED_SECRET',
-      },
-      {
-        pattern: /(?:token)\s*[:=]\s*['"]?([A-Za-z0-9_\-]{20,})['"]?/gi,
-        type: 'Token',
-        replacement: 'REDACTED_TOKEN',
-      },
-      {
-        pattern: /(?:private[_-]?key|privkey)\s*[:=]\s*['"]?-----BEGIN.*?-----.*?-----END.*?-----['"]?/gis,
-        type: 'Private Key',
-        replacement: 'REDACTED_PRIVATE_KEY',
-      },
-    ];
+  redactSecrets(diff: string): DiffRedaction {
+    return redactSecretsFromDiff(diff);
+  }
+}
 
-    let redacted = diff;
-    const detectedSecrets: string[] = [];
+/**
+ * Redact secrets and PII from a diff/patch
+ * Shared by every Git platform integration
+ */
+export function redactSecretsFromDiff(diff: string): DiffRedaction {
+  const { text, findings } = redact(diff);
 
-    for (const { pattern, type, replacement } of secretPatterns) {
-      const matches = redacted.match(pattern);
-      if (matches) {
-        detectedSecrets.push(type);
-        redacted = redacted.replace(pattern, replacement);
-      }
-    }
+  return {
+    redacted: text,
+    detectedSecrets: [...new Set(findings.filter(finding => finding.category === 'secret').map(finding => finding.type))],
+    findings: findings.map(({ type, category, start, end, line }) => ({ type, category, start, end, line })),
+  };
+}
 
-    return {
-      redacted,
-      detectedSecrets,
-    };
+/**
+ * Issue references that a PR body declares it closes
+ */
+export function extractLinkedIssues(body: string): string[] {
+  const issues = new Set<string>();
+  for (const match of body.matchAll(LINKED_ISSUE_PATTERN)) {
+    issues.add(match[1]);
   }
+  return Array.from(issues);
+}
+
+function mapPRState(pr: Record<string, unknown>, action?: string): PRState {
+  if (pr.merged || pr.merged_at) return 'merged';
+  if (pr.state === 'closed') return 'closed';
+  if (pr.draft) return 'draft';
+  if (action === 'opened' || action === 'reopened') return 'opened';
+  return action ? 'updated' : 'opened';
+}
+
+function pullRequestToRaw(pr: PullRequest, action?: string): RawChangeData {
+  return {
+    tool: 'github' as SourceTool,
+    resourceId: pr.id,
+    resourceType: 'pull_request',
+    rawData: { event: 'pull_request', action, pullRequest: pr },
+    timestamp: pr.updatedAt,
+  };
+}
+
+function commitToRaw(commit: Commit): RawChangeData {
+  return {
+    tool: 'github' as SourceTool,
+    resourceId: commit.id,
+    resourceType: 'commit',
+    rawData: { event: 'push', commit },
+    timestamp: commit.createdAt,
+  };
+}
+
+/**
+ * Page number of the rel="last" link; GitHub omits the header when there is one page
+ */
+function lastPageFromLink(link: string | undefined): number | undefined {
+  const last = link?.split(',').find(part => /rel="last"/.test(part));
+  const page = last?.match(/[?&]page=(\d+)/)?.[1];
+  return page ? Number(page) : undefined;
+}
+
+function login(user: unknown): string {
+  return String(asRecord(user)?.login ?? 'unknown');
 }
@@ -0,0 +1,419 @@
+/**
+ * GitLab Integration
+ *
+ * Handles GitLab (gitlab.com or self-hosted) webhooks and cursor-based polling for:
+ * - Merge Requests (opened/updated/merged/closed)
+ * - Pushes (commits)
+ * - Tag pushes (treated as releases)
+ *
+ * Produces the same PullRequest/Commit/FileDiff shapes as the GitHub integration
+ * so everything downstream of detection is platform-agnostic.
+ */
+
+import { SourceTool } from '../types/core';
+import { PullRequest, Commit, Release, FileDiff, PRState } from '../types/code-changes';
+import { Cursor, CursorPollResult } from '../types/cursors';
+import { RawChangeData } from '../services/change-detection';
+import { HttpClient, FetchHttpClient } from './http-client';
+import { extractLinkedIssues, redactSecretsFromDiff } from './github';
+import { asRecord, asRecordArray, countPatchLines, optionalString, safeEqual, stringArray } from './payload';
+import { logger } from '../utils/logger';
+
+export interface GitLabIntegration {
+  /**
+   * Verify webhook token
+   * GitLab sends the configured secret verbatim in the X-Gitlab-Token header
+   */
+  verifyWebhook(token: string, secret: string): Promise<boolean>;
+
+  /**
+   * Extract merge request from webhook payload
+   */
+  extractMergeRequestFromWebhook(payload: unknown): Promise<PullRequest | null>;
+
+  /**
+   * Extract commits from push webhook payload
+   */
+  extractCommitsFromWebhook(payload: unknown): Promise<Commit[]>;
+
+  /**
+   * Extract tag from tag push webhook payload
+   */
+  extractTagFromWebhook(payload: unknown): Promise<Release | null>;
+
+  /**
+   * Convert any supported webhook payload into raw changes for normalization
+   */
+  extractRawChanges(payload: unknown): Promise<RawChangeData[]>;
+
+  /**
+   * Poll for changes since cursor
+   */
+  pollChanges(cursor: Cursor, config: GitLabConfig): Promise<CursorPollResult<RawChangeData>>;
+}
+
+export interface GitLabConfig {
+  token: string;
+  baseUrl?: string; // Self-hosted instance, defaults to https://gitlab.com
+  projects: string[]; // "group/subgroup/project" format
+  pageSize?: number;
+}
+
+export type GitLabWebhookEvent = 'merge_request' | 'push' | 'tag_push' | 'unknown';
+
+export function detectGitLabEvent(payload: unknown): GitLabWebhookEvent {
+  const kind = asRecord(payload)?.object_kind;
+  if (kind === 'merge_request' || kind === 'push' || kind === 'tag_push') {
+    return kind;
+  }
+  return 'unknown';
+}
+
+/**
+ * Build a verifier for ChangeDetectionServiceImpl's webhookVerifiers map
+ * The "signature" passed through is the X-Gitlab-Token header value
+ */
+export function createGitLabWebhookVerifier(
+  secret: string,
+  integration: GitLabIntegration = new GitLabIntegrationImpl()
+): (payload: unknown, signature?: string) => Promise<boolean> {
+  return async (_payload, token) => {
+    if (!token) return false;
+    return integration.verifyWebhook(token, secret);
+  };
+}
+
+const DEFAULT_BASE_URL = 'https://gitlab.com';
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_COMMIT_PAGES = 10;
+
+/**
+ * Implementation of GitLabIntegration
+ */
+export class GitLabIntegrationImpl implements GitLabIntegration {
+  constructor(private httpClient?: HttpClient) {}
+
+  async verifyWebhook(token: string, secret: string): Promise<boolean> {
+    if (!secret || !token) {
+      return false;
+    }
+    return safeEqual(token, secret);
+  }
+
+  async extractMergeRequestFromWebhook(payload: unknown): Promise<PullRequest | null> {
+    const data = asRecord(payload);
+    const mr = asRecord(data?.object_attributes);
+    const project = asRecord(data?.project);
+    if (!data || detectGitLabEvent(data) !== 'merge_request' || !mr || !project) {
+      return null;
+    }
+
+    return {
+      id: `gitlab:${mr.id}`,
+      number: Number(mr.iid),
+      title: String(mr.title ?? ''),
+      body: optionalString(mr.description),
+      state: mapMergeRequestState(mr),
+      author: String(asRecord(data.user)?.username ?? 'unknown'),
+      baseBranch: String(mr.target_branch ?? ''),
+      headBranch: String(mr.source_branch ?? ''),
+      repository: String(project.path_with_namespace),
+      url: String(mr.url),
+      files: [],
+      totalAdditions: 0,
+      totalDeletions: 0,
+      mergeable: mr.merge_status ? mr.merge_status === 'can_be_merged' : undefined,
+      labels: asRecordArray(data.labels ?? mr.labels).map(label => String(label.title)),
+      reviewers: asRecordArray(data.reviewers).map(user => String(user.username)),
+      assignees: asRecordArray(data.assignees).map(user => String(user.username)),
+      milestone: optionalString(asRecord(mr.milestone)?.title),
+      linkedIssues: optionalString(mr.description) ? extractLinkedIssues(String(mr.description)) : undefined,
+      createdAt: parseGitLabDate(mr.created_at),
+      updatedAt: parseGitLabDate(mr.updated_at),
+      mergedAt: mr.merged_at ? parseGitLabDate(mr.merged_at) : undefined,
+      closedAt: mr.closed_at ? parseGitLabDate(mr.closed_at) : undefined,
+    };
+  }
+
+  async extractCommitsFromWebhook(payload: unknown): Promise<Commit[]> {
+    const data = asRecord(payload);
+    if (!data || detectGitLabEvent(data) !== 'push') {
+      return [];
+    }
+
+    const repository = String(asRecord(data.project)?.path_with_namespace ?? '');
+    const branch = String(data.ref).replace(/^refs\/heads\//, '');
+    const pusher = String(data.user_username ?? 'unknown');
+
+    return asRecordArray(data.commits).map(commit => {
+      const author = asRecord(commit.author);
+
+      // Push payloads only list paths, not line counts or patches
+      const files: FileDiff[] = [
+        ...stringArray(commit.added),
+        ...stringArray(commit.modified),
+        ...stringArray(commit.removed),
+      ].map(path => ({
+        path,
+        additions: 0,
+        deletions: 0,
+        changes: 0,
+        isRedacted: false,
+      }));
+
+      return {
+        id: String(commit.id),
+        message: String(commit.message ?? ''),
+        author: String(author?.name ?? pusher),
+        committer: pusher,
+        repository,
+        branch,
+        url: String(commit.url),
+        files,
+        createdAt: parseGitLabDate(commit.timestamp),
+      };
+    });
+  }
+
+  async extractTagFromWebhook(payload: unknown): Promise<Release | null> {
+    const data = asRecord(payload);
+    const project = asRecord(data?.project);
+    if (!data || detectGitLabEvent(data) !== 'tag_push' || !project) {
+      return null;
+    }
+
+    // A tag push with an all-zero checkout SHA is a tag deletion
+    if (!data.checkout_sha || /^0+$/.test(String(data.after ?? ''))) {
+      return null;
+    }
+
+    const tagName = String(data.ref).replace(/^refs\/tags\//, '');
+    const latestCommit = asRecordArray(data.commits)[0];
+    const createdAt = latestCommit ? parseGitLabDate(latestCommit.timestamp) : new Date();
+
+    return {
+      id: `gitlab:${project.id}:${tagName}`,
+      tagName,
+      body: optionalString(data.message),
+      repository: String(project.path_with_namespace),
+      author: String(data.user_username ?? 'unknown'),
+      url: `${project.web_url}/-/tags/${encodeURIComponent(tagName)}`,
+      isDraft: false,
+      isPrerelease: /-(alpha|beta|rc)/i.test(tagName),
+      createdAt,
+      publishedAt: createdAt,
+    };
+  }
+
+  async extractRawChanges(payload: unknown): Promise<RawChangeData[]> {
+    const event = detectGitLabEvent(payload);
+    const action = asRecord(asRecord(payload)?.object_attributes)?.action as string | undefined;
+
+    switch (event) {
+      case 'merge_request': {
+        const mr = await this.extractMergeRequestFromWebhook(payload);
+        return mr ? [mergeRequestToRaw(mr, action)] : [];
+      }
+      case 'push': {
+        const commits = await this.extractCommitsFromWebhook(payload);
+        return commits.map(commitToRaw);
+      }
+      case 'tag_push': {
+        const tag = await this.extractTagFromWebhook(payload);
+        if (!tag) return [];
+        return [{
+          tool: 'gitlab' as SourceTool,
+          resourceId: tag.id,
+          resourceType: 'release',
+          rawData: { event, release: tag },
+          timestamp: tag.createdAt,
+        }];
+      }
+      default:
+        logger.debug('Unsupported GitLab webhook payload');
+        return [];
+    }
+  }
+
+  async pollChanges(cursor: Cursor, config: GitLabConfig): Promise<CursorPollResult<RawChangeData>> {
+    // Cursor position is an ISO timestamp: everything updated strictly after it is new
+    const client = this.httpClient ?? new FetchHttpClient({ 'PRIVATE-TOKEN': config.token });
+    const apiUrl = `${(config.baseUrl ?? DEFAULT_BASE_URL).replace(/\/$/, '')}/api/v4`;
+    const pageSize = config.pageSize ?? DEFAULT_PAGE_SIZE;
+    const since = new Date(cursor.position);
+
+    logger.info(`Polling GitLab for changes`, {
+      cursorId: cursor.id,
+      position: cursor.position,
+      projects: config.projects.length,
+    });
+
+    const changes: RawChangeData[] = [];
+    let hasMore = false;
+    let safeUntil: Date | undefined;
+
+    for (const projectPath of config.projects) {
+      const projectUrl = `${apiUrl}/projects/${encodeURIComponent(projectPath)}`;
+      const project = await client.request<Record<string, unknown>>('GET', projectUrl);
+      const webUrl = String(project.data.web_url);
+
+      // Commits (newest first, so read every page since the cursor)
+      for (let page = 1; page <= MAX_COMMIT_PAGES; page++) {
+        const commitList = await client.request<unknown[]>('GET', `${projectUrl}/repository/commits`, {
+          query: { since: since.toISOString(), per_page: pageSize, page },
+        });
+
+        for (const summary of asRecordArray(commitList.data)) {
+          const createdAt = parseGitLabDate(summary.committed_date ?? summary.created_at);
+          if (createdAt <= since) continue;
+
+          const diff = await client.request<unknown[]>(
+            'GET',
+            `${projectUrl}/repository/commits/${summary.id}/diff`
+          );
+          changes.push(commitToRaw({
+            id: String(summary.id),
+            message: String(summary.message ?? ''),
+            author: String(summary.author_name ?? 'unknown'),
+            committer: String(summary.committer_name ?? 'unknown'),
+            repository: projectPath,
+            branch: '', // The commits API does not report a branch
+            url: String(summary.web_url ?? `${webUrl}/-/commit/${summary.id}`),
+            files: asRecordArray(diff.data).map(mapGitLabDiff),
+            createdAt,
+          }));
+        }
+
+        if (commitList.data.length < pageSize) break;
+        if (page === MAX_COMMIT_PAGES) {
+          logger.warn(`GitLab commit page limit reached`, { project: projectPath, cursorId: cursor.id });
+        }
+      }
+
+      // Merge requests, oldest update first so a partial page is still a valid cursor step
+      const mrList = await client.request<unknown[]>('GET', `${projectUrl}/merge_requests`, {
+        query: {
+          updated_after: since.toISOString(),
+          order_by: 'updated_at',
+          sort: 'asc',
+          scope: 'all',
+          per_page: pageSize,
+        },
+      });
+      const mergeRequests = asRecordArray(mrList.data);
+
+      for (const mr of mergeRequests) {
+        const updatedAt = parseGitLabDate(mr.updated_at);
+        if (updatedAt <= since) continue;
+
+        const changesResponse = await client.request<Record<string, unknown>>(
+          'GET',
+          `${projectUrl}/merge_requests/${mr.iid}/changes`
+        );
+        const files = asRecordArray(changesResponse.data.changes).map(mapGitLabDiff);
+        const description = optionalString(mr.description);
+
+        changes.push(mergeRequestToRaw({
+          id: `gitlab:${mr.id}`,
+          number: Number(mr.iid),
+          title: String(mr.title ?? ''),
+          body: description,
+          state: mapMergeRequestState(mr),
+          author: String(asRecord(mr.author)?.username ?? 'unknown'),
+          baseBranch: String(mr.target_branch ?? ''),
+          headBranch: String(mr.source_branch ?? ''),
+          repository: projectPath,
+          url: String(mr.web_url),
+          files,
+          totalAdditions: files.reduce((sum, f) => sum + f.additions, 0),
+          totalDeletions: files.reduce((sum, f) => sum + f.deletions, 0),
+          labels: stringArray(mr.labels),
+          reviewers: asRecordArray(mr.reviewers).map(user => String(user.username)),
+          assignees: asRecordArray(mr.assignees).map(user => String(user.username)),
+          milestone: optionalString(asRecord(mr.milestone)?.title),
+          linkedIssues: description ? extractLinkedIssues(description) : undefined,
+          createdAt: parseGitLabDate(mr.created_at),
+          updatedAt,
+          mergedAt: mr.merged_at ? parseGitLabDate(mr.merged_at) : undefined,
+          closedAt: mr.closed_at ? parseGitLabDate(mr.closed_at) : undefined,
+        }));
+      }
+
+      if (mergeRequests.length >= pageSize) {
+        hasMore = true;
+        const lastUpdated = parseGitLabDate(mergeRequests[mergeRequests.length - 1].updated_at);
+        safeUntil = safeUntil && safeUntil < lastUpdated ? safeUntil : lastUpdated;
+      }
+    }
+
+    const consumable = changes
+      .filter(change => !safeUntil || change.timestamp <= safeUntil)
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    const latest = consumable[consumable.length - 1];
+
+    return {
+      cursor: {
+        ...cursor,
+        lastPolledAt: new Date(),
+      },
+      changes: consumable,
+      nextPosition: latest ? latest.timestamp.toISOString() : undefined,
+      hasMore,
+    };
+  }
+}
+
+/**
+ * GitLab webhooks use "2024-05-02 09:14:03 UTC"; the REST API uses ISO 8601
+ */
+export function parseGitLabDate(value: unknown): Date {
+  const text = String(value ?? '');
+  const match = text.match(/^(\d{4}-\d{2}-\d{2}) (\d{2}:\d{2}:\d{2}) UTC$/);
+  return new Date(match ? `${match[1]}T${match[2]}Z` : text);
+}
+
+function mapMergeRequestState(mr: Record<string, unknown>): PRState {
+  if (mr.state === 'merged' || mr.action === 'merge') return 'merged';
+  if (mr.state === 'closed' || mr.state === 'locked') return 'closed';
+  if (mr.draft || mr.work_in_progress) return 'draft';
+  if (mr.action === 'update') return 'updated';
+  return 'opened';
+}
+
+function mapGitLabDiff(diff: Record<string, unknown>): FileDiff {
+  const patch = optionalString(diff.diff);
+  const counts = patch ? countPatchLines(patch) : { additions: 0, deletions: 0 };
+  const redaction = patch ? redactSecretsFromDiff(patch) : undefined;
+
+  return {
+    path: String(diff.new_path ?? diff.old_path),
+    oldPath: diff.renamed_file ? optionalString(diff.old_path) : undefined,
+    additions: counts.additions,
+    deletions: counts.deletions,
+    changes: counts.additions + counts.deletions,
+    patch: redaction?.redacted,
+    isRedacted: (redaction?.findings.length ?? 0) > 0,
+    detectedSecrets: redaction?.detectedSecrets.length ? redaction.detectedSecrets : undefined,
+    findings: redaction?.findings.length ? redaction.findings : undefined,
+  };
+}
+
+function mergeRequestToRaw(mr: PullRequest, action?: string): RawChangeData {
+  return {
+    tool: 'gitlab' as SourceTool,
+    resourceId: mr.id,
+    resourceType: 'pull_request',
+    rawData: { event: 'merge_request', action, pullRequest: mr },
+    timestamp: mr.updatedAt,
+  };
+}
+
+function commitToRaw(commit: Commit): RawChangeData {
+  return {
+    tool: 'gitlab' as SourceTool,
+    resourceId: commit.id,
+    resourceType: 'commit',
+    rawData: { event: 'push', commit },
+    timestamp: commit.createdAt,
+  };
+}
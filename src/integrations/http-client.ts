@@ -0,0 +1,97 @@
+/**
+ * HTTP client for tool integrations
+ *
+ * Integrations take an HttpClient instead of calling fetch directly so
+ * polling can be exercised offline against recorded fixtures or a fake API.
+ */
+
+export interface HttpRequestOptions {
+  headers?: Record<string, string>;
+  query?: Record<string, string | number | undefined>;
+  body?: unknown;
+}
+
+export interface HttpResponse<T = unknown> {
+  status: number;
+  headers: Record<string, string>;
+  data: T;
+}
+
+export interface HttpClient {
+  request<T = unknown>(method: string, url: string, options?: HttpRequestOptions): Promise<HttpResponse<T>>;
+}
+
+/**
+ * Append query parameters to a URL, skipping undefined values
+ */
+export function buildUrl(url: string, query?: HttpRequestOptions['query']): string {
+  if (!query) return url;
+
+  const parsed = new URL(url);
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined) {
+      parsed.searchParams.set(key, String(value));
+    }
+  }
+  return parsed.toString();
+}
+
+/**
+ * Default HttpClient backed by the global fetch (Node 20+)
+ * Non-2xx responses throw so pollers surface them as cursor errors.
+ */
+export class FetchHttpClient implements HttpClient {
+  constructor(private defaultHeaders: Record<string, string> = {}) {}
+
+  async request<T = unknown>(
+    method: string,
+    url: string,
+    options: HttpRequestOptions = {}
+  ): Promise<HttpResponse<T>> {
+    const headers: Record<string, string> = {
+      ...this.defaultHeaders,
+      ...options.headers,
+    };
+    if (options.body !== undefined && !headers['Content-Type']) {
+      headers['Content-Type'] = 'application/json';
+    }
+
+    const response = await fetch(buildUrl(url, options.query), {
+      method,
+      headers,
+      body: options.body === undefined
+        ? undefined
+        : typeof options.body === 'string' ? options.body : JSON.stringify(options.body),
+      signal: AbortSignal.timeout(30000),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`HTTP ${method} ${url} failed (${response.status}): ${errorText}`);
+    }
+
+    const responseHeaders: Record<string, string> = {};
+    response.headers.forEach((value, key) => {
+      responseHeaders[key] = value;
+    });
+
+    const text = await response.text();
+    return {
+      status: response.status,
+      headers: responseHeaders,
+      data: parseBody(text) as T,
+    };
+  }
+}
+
+/**
+ * APIs answer with JSON; outbound webhooks (Teams, custom receivers) often answer with plain text
+ */
+function parseBody(text: string): unknown {
+  if (!text) return {};
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
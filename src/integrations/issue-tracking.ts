@@ -0,0 +1,85 @@
+/**
+ * Shared helpers for issue tracker integrations (Jira, Linear)
+ *
+ * Both trackers are reduced to the same raw change: an Issue snapshot plus
+ * the tracked field changes (state, priority, assignee) or a new epic.
+ */
+
+import { SourceTool } from '../types/core';
+import { Issue, IssueFieldChange, LinkedPullRequest } from '../types/issues';
+import { RawChangeData } from '../services/change-detection';
+import { logger } from '../utils/logger';
+
+/**
+ * Finds pull requests that mention an issue key (e.g. via Git platform search)
+ */
+export type PullRequestLookup = (issueKey: string) => Promise<LinkedPullRequest[]>;
+
+export type IssueChangeKind = 'issue_updated' | 'epic_created';
+
+export interface IssueChange {
+  kind: IssueChangeKind;
+  issue: Issue;
+  changes: IssueFieldChange[];
+  changedBy: string;
+  changedAt: Date;
+  linkedPullRequests?: LinkedPullRequest[]; // Links the tracker itself knows about
+}
+
+/**
+ * Attach linked pull requests and convert issue changes into raw changes
+ * Lookups are cached per issue key; a failing lookup only drops the links
+ */
+export async function issueChangesToRaw(
+  tool: SourceTool,
+  issueChanges: IssueChange[],
+  pullRequestLookup?: PullRequestLookup
+): Promise<RawChangeData[]> {
+  const linksByKey = new Map<string, LinkedPullRequest[]>();
+
+  const raw: RawChangeData[] = [];
+  for (const change of issueChanges) {
+    let found = linksByKey.get(change.issue.key);
+    if (!found) {
+      found = await lookupPullRequests(change.issue.key, pullRequestLookup);
+      linksByKey.set(change.issue.key, found);
+    }
+
+    const linkedPullRequests = [...(change.linkedPullRequests ?? [])];
+    for (const link of found) {
+      if (!linkedPullRequests.some(existing => (existing.resourceUrl ?? existing.resourceId) === (link.resourceUrl ?? link.resourceId))) {
+        linkedPullRequests.push(link);
+      }
+    }
+
+    raw.push({
+      tool,
+      resourceId: change.issue.key,
+      resourceType: 'issue',
+      rawData: {
+        event: change.kind,
+        issue: change.issue,
+        changes: change.changes,
+        changedBy: change.changedBy,
+        linkedPullRequests,
+      },
+      timestamp: change.changedAt,
+    });
+  }
+
+  return raw;
+}
+
+async function lookupPullRequests(issueKey: string, lookup?: PullRequestLookup): Promise<LinkedPullRequest[]> {
+  if (!lookup) return [];
+
+  try {
+    return await lookup(issueKey);
+  } catch (error) {
+    logger.warn(`Pull request lookup failed`, {
+      issueKey,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return [];
+  }
+}
@@ -0,0 +1,298 @@
+/**
+ * Jira Integration
+ *
+ * Handles Jira Cloud webhooks and cursor-based polling for:
+ * - Status transitions, priority changes and (re)assignments (from the changelog)
+ * - Newly created epics
+ *
+ * Other edits (descriptions, comments, custom fields) are ignored.
+ */
+
+import { Issue, IssueFieldChange, IssueStateCategory } from '../types/issues';
+import { Cursor, CursorPollResult } from '../types/cursors';
+import { RawChangeData } from '../services/change-detection';
+import { HttpClient, FetchHttpClient } from './http-client';
+import { IssueChange, PullRequestLookup, issueChangesToRaw } from './issue-tracking';
+import { asRecord, asRecordArray, optionalString, stringArray } from './payload';
+import { verifyHmacSignature } from './webhook-signature';
+import { logger } from '../utils/logger';
+
+export interface JiraIntegration {
+  /**
+   * Verify webhook signature
+   * Jira Cloud signs webhooks that have a secret with HMAC-SHA256 (X-Hub-Signature)
+   */
+  verifyWebhook(payload: unknown, signature: string, secret: string): Promise<boolean>;
+
+  /**
+   * Extract tracked issue changes from a webhook payload
+   */
+  extractIssueChangesFromWebhook(payload: unknown): Promise<IssueChange[]>;
+
+  /**
+   * Convert any supported webhook payload into raw changes for normalization
+   */
+  extractRawChanges(payload: unknown): Promise<RawChangeData[]>;
+
+  /**
+   * Poll for changes since cursor
+   */
+  pollChanges(cursor: Cursor, config: JiraConfig): Promise<CursorPollResult<RawChangeData>>;
+}
+
+export interface JiraConfig {
+  baseUrl: string; // https://your-site.atlassian.net
+  email: string;
+  apiToken: string;
+  projects?: string[]; // Project keys; all visible projects when omitted
+  timeZone?: string; // Time zone of the API user, which JQL dates are interpreted in
+  pageSize?: number;
+}
+
+/**
+ * Build a verifier for ChangeDetectionServiceImpl's webhookVerifiers map
+ */
+export function createJiraWebhookVerifier(
+  secret: string,
+  integration: JiraIntegration = new JiraIntegrationImpl()
+): (payload: unknown, signature?: string) => Promise<boolean> {
+  return async (payload, signature) => {
+    if (!signature) return false;
+    return integration.verifyWebhook(payload, signature, secret);
+  };
+}
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_SEARCH_PAGES = 10;
+const SEARCH_FIELDS = 'summary,status,priority,assignee,reporter,issuetype,project,labels,created,updated,resolution';
+
+// Changelog field names -> tracked fields
+const TRACKED_FIELDS: Record<string, IssueFieldChange['field']> = {
+  status: 'state',
+  priority: 'priority',
+  assignee: 'assignee',
+};
+
+/**
+ * Implementation of JiraIntegration
+ */
+export class JiraIntegrationImpl implements JiraIntegration {
+  constructor(
+    private httpClient?: HttpClient,
+    private pullRequestLookup?: PullRequestLookup
+  ) {}
+
+  async verifyWebhook(payload: unknown, signature: string, secret: string): Promise<boolean> {
+    return verifyHmacSignature(payload, signature, secret);
+  }
+
+  async extractIssueChangesFromWebhook(payload: unknown): Promise<IssueChange[]> {
+    const data = asRecord(payload);
+    const issueData = asRecord(data?.issue);
+    if (!data || !issueData) {
+      return [];
+    }
+
+    const issue = mapJiraIssue(issueData);
+    const changedBy = String(asRecord(data.user)?.displayName ?? 'unknown');
+    const changedAt = data.timestamp ? new Date(Number(data.timestamp)) : issue.updatedAt;
+
+    switch (data.webhookEvent) {
+      case 'jira:issue_created':
+        return issue.isEpic
+          ? [{ kind: 'epic_created', issue, changes: [], changedBy, changedAt }]
+          : [];
+      case 'jira:issue_updated': {
+        const changes = mapChangelogItems(asRecord(data.changelog)?.items);
+        return changes.length > 0
+          ? [{ kind: 'issue_updated', issue, changes, changedBy, changedAt }]
+          : [];
+      }
+      default:
+        return [];
+    }
+  }
+
+  async extractRawChanges(payload: unknown): Promise<RawChangeData[]> {
+    const issueChanges = await this.extractIssueChangesFromWebhook(payload);
+    if (issueChanges.length === 0) {
+      logger.debug('No tracked changes in Jira webhook payload');
+    }
+    return issueChangesToRaw('jira', issueChanges, this.pullRequestLookup);
+  }
+
+  async pollChanges(cursor: Cursor, config: JiraConfig): Promise<CursorPollResult<RawChangeData>> {
+    // Cursor position is an ISO timestamp. JQL only has minute precision, so the
+    // search starts at the cursor's minute and changelog entries are filtered exactly.
+    const client = this.httpClient ?? new FetchHttpClient({
+      Authorization: `Basic ${Buffer.from(`${config.email}:${config.apiToken}`).toString('base64')}`,
+      Accept: 'application/json',
+    });
+    const baseUrl = config.baseUrl.replace(/\/$/, '');
+    const pageSize = config.pageSize ?? DEFAULT_PAGE_SIZE;
+    const since = new Date(cursor.position);
+
+    const clauses = [`updated >= "${formatJqlDate(since, config.timeZone ?? 'UTC')}"`];
+    if (config.projects?.length) {
+      clauses.push(`project in (${config.projects.map(key => `"${key}"`).join(', ')})`);
+    }
+    const jql = `${clauses.join(' AND ')} ORDER BY updated ASC`;
+
+    logger.info(`Polling Jira for changes`, {
+      cursorId: cursor.id,
+      position: cursor.position,
+      jql,
+    });
+
+    const issueChanges: IssueChange[] = [];
+    let hasMore = false;
+    let safeUntil: Date | undefined;
+
+    for (let page = 0; page < MAX_SEARCH_PAGES; page++) {
+      const search = await client.request<Record<string, unknown>>('GET', `${baseUrl}/rest/api/3/search`, {
+        query: { jql, expand: 'changelog', fields: SEARCH_FIELDS, startAt: page * pageSize, maxResults: pageSize },
+      });
+      const issues = asRecordArray(search.data.issues);
+
+      for (const issueData of issues) {
+        issueChanges.push(...changesFromHistory(issueData, since, baseUrl));
+      }
+
+      const total = Number(search.data.total ?? 0);
+      if (issues.length < pageSize || (page + 1) * pageSize >= total) break;
+
+      // Oldest update first: anything after the last issue read is left for the next run
+      if (page === MAX_SEARCH_PAGES - 1) {
+        hasMore = true;
+        const lastFields = asRecord(issues[issues.length - 1].fields);
+        safeUntil = new Date(String(lastFields?.updated));
+      }
+    }
+
+    const consumable = issueChanges
+      .filter(change => !safeUntil || change.changedAt <= safeUntil)
+      .sort((a, b) => a.changedAt.getTime() - b.changedAt.getTime());
+    const changes = await issueChangesToRaw('jira', consumable, this.pullRequestLookup);
+    const latest = consumable[consumable.length - 1];
+
+    return {
+      cursor: {
+        ...cursor,
+        lastPolledAt: new Date(),
+      },
+      changes,
+      nextPosition: latest ? latest.changedAt.toISOString() : undefined,
+      hasMore,
+    };
+  }
+}
+
+/**
+ * Map a Jira issue (webhook or REST search result) into the shared Issue shape
+ */
+export function mapJiraIssue(issue: Record<string, unknown>, baseUrl?: string): Issue {
+  const fields = asRecord(issue.fields) ?? {};
+  const status = asRecord(fields.status);
+  const issueType = asRecord(fields.issuetype);
+  const key = String(issue.key);
+  const site = baseUrl ?? (issue.self ? new URL(String(issue.self)).origin : '');
+
+  return {
+    id: String(issue.id),
+    key,
+    title: String(fields.summary ?? ''),
+    state: String(status?.name ?? 'Unknown'),
+    stateCategory: mapStatusCategory(status, asRecord(fields.resolution)),
+    priority: optionalString(asRecord(fields.priority)?.name),
+    assignee: optionalString(asRecord(fields.assignee)?.displayName),
+    reporter: optionalString(asRecord(fields.reporter)?.displayName),
+    issueType: String(issueType?.name ?? 'Issue'),
+    isEpic: issueType?.name === 'Epic' || issueType?.hierarchyLevel === 1,
+    project: String(asRecord(fields.project)?.key ?? key.split('-')[0]),
+    labels: stringArray(fields.labels),
+    url: `${site}/browse/${key}`,
+    createdAt: new Date(String(fields.created)),
+    updatedAt: new Date(String(fields.updated)),
+  };
+}
+
+function mapStatusCategory(
+  status: Record<string, unknown> | null,
+  resolution: Record<string, unknown> | null
+): IssueStateCategory | undefined {
+  switch (asRecord(status?.statusCategory)?.key) {
+    case 'new':
+      return 'todo';
+    case 'indeterminate':
+      return 'in-progress';
+    case 'done':
+      // Jira has no "canceled" category; the resolution says how it was done
+      return /won'?t|cancel|duplicate|declined/i.test(String(resolution?.name ?? '')) ? 'canceled' : 'done';
+    default:
+      return undefined;
+  }
+}
+
+function mapChangelogItems(items: unknown): IssueFieldChange[] {
+  return asRecordArray(items)
+    .filter(item => String(item.field) in TRACKED_FIELDS)
+    .map(item => ({
+      field: TRACKED_FIELDS[String(item.field)],
+      from: optionalString(item.fromString),
+      to: optionalString(item.toString),
+    }));
+}
+
+/**
+ * Turn an issue's expanded changelog into issue changes newer than `since`
+ */
+function changesFromHistory(issueData: Record<string, unknown>, since: Date, baseUrl: string): IssueChange[] {
+  const issue = mapJiraIssue(issueData, baseUrl);
+  const changes: IssueChange[] = [];
+
+  if (issue.isEpic && issue.createdAt > since) {
+    changes.push({
+      kind: 'epic_created',
+      issue,
+      changes: [],
+      changedBy: issue.reporter ?? 'unknown',
+      changedAt: issue.createdAt,
+    });
+  }
+
+  for (const history of asRecordArray(asRecord(issueData.changelog)?.histories)) {
+    const changedAt = new Date(String(history.created));
+    if (changedAt <= since) continue;
+
+    const fieldChanges = mapChangelogItems(history.items);
+    if (fieldChanges.length === 0) continue;
+
+    changes.push({
+      kind: 'issue_updated',
+      issue,
+      changes: fieldChanges,
+      changedBy: String(asRecord(history.author)?.displayName ?? 'unknown'),
+      changedAt,
+    });
+  }
+
+  return changes;
+}
+
+/**
+ * JQL dates are "yyyy/MM/dd HH:mm" in the searching user's time zone
+ */
+export function formatJqlDate(date: Date, timeZone: string): string {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(date).map(part => [part.type, part.value])
+  );
+  return `${parts.year}/${parts.month}/${parts.day} ${parts.hour}:${parts.minute}`;
+}
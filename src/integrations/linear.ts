@@ -0,0 +1,368 @@
+/**
+ * Linear Integration
+ *
+ * Handles Linear webhooks and cursor-based polling (GraphQL) for:
+ * - Issue state, priority and assignee changes
+ * - New projects (Linear's equivalent of epics)
+ */
+
+import { SourceTool } from '../types/core';
+import { Issue, IssueFieldChange, IssueStateCategory, LinkedPullRequest } from '../types/issues';
+import { Cursor, CursorPollResult } from '../types/cursors';
+import { RawChangeData } from '../services/change-detection';
+import { HttpClient, FetchHttpClient } from './http-client';
+import { IssueChange, PullRequestLookup, issueChangesToRaw } from './issue-tracking';
+import { asRecord, asRecordArray, optionalString } from './payload';
+import { verifyHmacSignature } from './webhook-signature';
+import { logger } from '../utils/logger';
+
+export interface LinearIntegration {
+  /**
+   * Verify webhook signature
+   * Linear sends the hex HMAC-SHA256 of the raw body in the Linear-Signature header
+   */
+  verifyWebhook(payload: unknown, signature: string, secret: string): Promise<boolean>;
+
+  /**
+   * Extract tracked issue changes from a webhook payload
+   */
+  extractIssueChangesFromWebhook(payload: unknown): Promise<IssueChange[]>;
+
+  /**
+   * Convert any supported webhook payload into raw changes for normalization
+   */
+  extractRawChanges(payload: unknown): Promise<RawChangeData[]>;
+
+  /**
+   * Poll for changes since cursor
+   */
+  pollChanges(cursor: Cursor, config: LinearConfig): Promise<CursorPollResult<RawChangeData>>;
+}
+
+export interface LinearConfig {
+  apiKey: string;
+  apiUrl?: string;
+  teams?: string[]; // Team keys; all teams when omitted
+  pageSize?: number;
+}
+
+/**
+ * Build a verifier for ChangeDetectionServiceImpl's webhookVerifiers map
+ */
+export function createLinearWebhookVerifier(
+  secret: string,
+  integration: LinearIntegration = new LinearIntegrationImpl()
+): (payload: unknown, signature?: string) => Promise<boolean> {
+  return async (payload, signature) => {
+    if (!signature) return false;
+    return integration.verifyWebhook(payload, signature, secret);
+  };
+}
+
+const API_URL = 'https://api.linear.app/graphql';
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_ISSUE_PAGES = 10;
+
+const PRIORITY_LABELS = ['No priority', 'Urgent', 'High', 'Medium', 'Low'];
+
+const ISSUE_FIELDS = `
+  id identifier title description url priority createdAt updatedAt
+  state { name type }
+  assignee { name }
+  creator { name }
+  team { key }
+  labels { nodes { name } }
+  attachments { nodes { url sourceType } }
+`;
+
+const POLL_QUERY = `
+  query Poll($filter: IssueFilter, $projectFilter: ProjectFilter, $first: Int!, $after: String) {
+    issues(filter: $filter, first: $first, after: $after, orderBy: updatedAt) {
+      nodes {
+        ${ISSUE_FIELDS}
+        history(first: 50) {
+          nodes {
+            createdAt
+            actor { name }
+            fromState { name }
+            toState { name }
+            fromPriority
+            toPriority
+            fromAssignee { name }
+            toAssignee { name }
+          }
+        }
+      }
+      pageInfo { hasNextPage endCursor }
+    }
+    projects(filter: $projectFilter, first: $first) {
+      nodes { id name description url createdAt updatedAt state creator { name } teams { nodes { key } } }
+    }
+  }
+`;
+
+/**
+ * Implementation of LinearIntegration
+ */
+export class LinearIntegrationImpl implements LinearIntegration {
+  constructor(
+    private httpClient?: HttpClient,
+    private pullRequestLookup?: PullRequestLookup
+  ) {}
+
+  async verifyWebhook(payload: unknown, signature: string, secret: string): Promise<boolean> {
+    // Linear sends the bare hex digest
+    return verifyHmacSignature(payload, signature, secret, { prefix: '' });
+  }
+
+  async extractIssueChangesFromWebhook(payload: unknown): Promise<IssueChange[]> {
+    const data = asRecord(payload);
+    const entity = asRecord(data?.data);
+    if (!data || !entity) {
+      return [];
+    }
+
+    const changedBy = String(asRecord(data.actor)?.name ?? 'unknown');
+    const changedAt = new Date(String(entity.updatedAt ?? data.createdAt));
+
+    if (data.type === 'Project' && data.action === 'create') {
+      const project = mapLinearProject(entity);
+      return [{ kind: 'epic_created', issue: project, changes: [], changedBy, changedAt: project.createdAt }];
+    }
+
+    if (data.type !== 'Issue' || data.action !== 'update') {
+      return [];
+    }
+
+    // updatedFrom holds the previous values of changed fields; relations only as IDs
+    const updatedFrom = asRecord(data.updatedFrom) ?? {};
+    const issue = mapLinearIssue(entity);
+    const changes: IssueFieldChange[] = [];
+
+    if ('stateId' in updatedFrom) {
+      changes.push({ field: 'state', to: issue.state });
+    }
+    if ('priority' in updatedFrom) {
+      changes.push({ field: 'priority', from: priorityLabel(updatedFrom.priority), to: issue.priority });
+    }
+    if ('assigneeId' in updatedFrom) {
+      changes.push({ field: 'assignee', to: issue.assignee });
+    }
+
+    return changes.length > 0
+      ? [{ kind: 'issue_updated', issue, changes, changedBy, changedAt }]
+      : [];
+  }
+
+  async extractRawChanges(payload: unknown): Promise<RawChangeData[]> {
+    const issueChanges = await this.extractIssueChangesFromWebhook(payload);
+    if (issueChanges.length === 0) {
+      logger.debug('No tracked changes in Linear webhook payload');
+    }
+    return issueChangesToRaw('linear', issueChanges, this.pullRequestLookup);
+  }
+
+  async pollChanges(cursor: Cursor, config: LinearConfig): Promise<CursorPollResult<RawChangeData>> {
+    // Cursor position is an ISO timestamp; history entries newer than it are changes
+    const client = this.httpClient ?? new FetchHttpClient({ Authorization: config.apiKey });
+    const since = new Date(cursor.position);
+    const teamFilter = config.teams?.length ? { key: { in: config.teams } } : undefined;
+
+    logger.info(`Polling Linear for changes`, {
+      cursorId: cursor.id,
+      position: cursor.position,
+    });
+
+    // Results come newest first, so read every page before ordering changes
+    const issueChanges: IssueChange[] = [];
+    let projects: Record<string, unknown>[] = [];
+    let after: string | undefined;
+
+    for (let page = 1; page <= MAX_ISSUE_PAGES; page++) {
+      const response = await client.request<Record<string, unknown>>('POST', config.apiUrl ?? API_URL, {
+        body: {
+          query: POLL_QUERY,
+          variables: {
+            filter: { updatedAt: { gt: since.toISOString() }, team: teamFilter },
+            projectFilter: { createdAt: { gt: since.toISOString() }, accessibleTeams: teamFilter ? { some: teamFilter } : undefined },
+            first: config.pageSize ?? DEFAULT_PAGE_SIZE,
+            after,
+          },
+        },
+      });
+
+      const errors = asRecordArray(response.data.errors);
+      if (errors.length > 0) {
+        throw new Error(`Linear API error: ${errors.map(error => error.message).join('; ')}`);
+      }
+
+      const data = asRecord(response.data.data);
+      const issues = asRecord(data?.issues);
+      if (page === 1) {
+        projects = asRecordArray(asRecord(data?.projects)?.nodes);
+      }
+
+      for (const issueData of asRecordArray(issues?.nodes)) {
+        issueChanges.push(...changesFromHistory(issueData, since));
+      }
+
+      const pageInfo = asRecord(issues?.pageInfo);
+      after = optionalString(pageInfo?.endCursor);
+      if (!pageInfo?.hasNextPage || !after) break;
+      if (page === MAX_ISSUE_PAGES) {
+        logger.warn(`Linear issue page limit reached, older edits were skipped`, { cursorId: cursor.id });
+      }
+    }
+
+    for (const projectData of projects) {
+      const project = mapLinearProject(projectData);
+      issueChanges.push({
+        kind: 'epic_created',
+        issue: project,
+        changes: [],
+        changedBy: String(asRecord(projectData.creator)?.name ?? 'unknown'),
+        changedAt: project.createdAt,
+      });
+    }
+
+    issueChanges.sort((a, b) => a.changedAt.getTime() - b.changedAt.getTime());
+    const changes = await issueChangesToRaw('linear', issueChanges, this.pullRequestLookup);
+    const latest = issueChanges[issueChanges.length - 1];
+
+    return {
+      cursor: {
+        ...cursor,
+        lastPolledAt: new Date(),
+      },
+      changes,
+      nextPosition: latest ? latest.changedAt.toISOString() : undefined,
+      hasMore: false,
+    };
+  }
+}
+
+/**
+ * Map a Linear issue (webhook data or GraphQL node) into the shared Issue shape
+ */
+export function mapLinearIssue(issue: Record<string, unknown>): Issue {
+  const state = asRecord(issue.state);
+  const identifier = String(issue.identifier);
+
+  return {
+    id: String(issue.id),
+    key: identifier,
+    title: String(issue.title ?? ''),
+    description: optionalString(issue.description),
+    state: String(state?.name ?? 'Unknown'),
+    stateCategory: mapStateType(state?.type),
+    priority: priorityLabel(issue.priority),
+    assignee: optionalString(asRecord(issue.assignee)?.name),
+    reporter: optionalString(asRecord(issue.creator)?.name),
+    issueType: 'Issue',
+    isEpic: false,
+    project: String(asRecord(issue.team)?.key ?? identifier.split('-')[0]),
+    // Webhooks send labels as an array, GraphQL as a connection
+    labels: asRecordArray(Array.isArray(issue.labels) ? issue.labels : asRecord(issue.labels)?.nodes)
+      .map(label => String(label.name)),
+    url: String(issue.url),
+    createdAt: new Date(String(issue.createdAt)),
+    updatedAt: new Date(String(issue.updatedAt)),
+  };
+}
+
+/**
+ * Linear projects group issues the way Jira epics do
+ */
+function mapLinearProject(project: Record<string, unknown>): Issue {
+  const teams = asRecordArray(asRecord(project.teams)?.nodes);
+
+  return {
+    id: String(project.id),
+    key: String(project.id),
+    title: String(project.name ?? ''),
+    description: optionalString(project.description),
+    state: String(project.state ?? 'planned'),
+    issueType: 'Project',
+    isEpic: true,
+    project: String(teams[0]?.key ?? ''),
+    labels: [],
+    url: String(project.url),
+    createdAt: new Date(String(project.createdAt)),
+    updatedAt: new Date(String(project.updatedAt ?? project.createdAt)),
+  };
+}
+
+function mapStateType(type: unknown): IssueStateCategory | undefined {
+  switch (type) {
+    case 'triage':
+    case 'backlog':
+      return 'backlog';
+    case 'unstarted':
+      return 'todo';
+    case 'started':
+      return 'in-progress';
+    case 'completed':
+      return 'done';
+    case 'canceled':
+      return 'canceled';
+    default:
+      return undefined;
+  }
+}
+
+function priorityLabel(priority: unknown): string | undefined {
+  return typeof priority === 'number' ? PRIORITY_LABELS[priority] : undefined;
+}
+
+/**
+ * Turn an issue's history into issue changes newer than `since`
+ */
+function changesFromHistory(issueData: Record<string, unknown>, since: Date): IssueChange[] {
+  const issue = mapLinearIssue(issueData);
+
+  // Linear's own GitHub/GitLab integration attaches PRs to issues
+  const linkedPullRequests: LinkedPullRequest[] = asRecordArray(asRecord(issueData.attachments)?.nodes)
+    .filter(attachment => ['github', 'gitlab'].includes(String(attachment.sourceType)))
+    .map(attachment => ({
+      tool: String(attachment.sourceType) as SourceTool,
+      resourceId: String(attachment.url),
+      resourceUrl: String(attachment.url),
+    }));
+
+  const changes: IssueChange[] = [];
+  for (const history of asRecordArray(asRecord(issueData.history)?.nodes)) {
+    const changedAt = new Date(String(history.createdAt));
+    if (changedAt <= since) continue;
+
+    const fieldChanges: IssueFieldChange[] = [];
+    if (history.toState) {
+      fieldChanges.push({
+        field: 'state',
+        from: optionalString(asRecord(history.fromState)?.name),
+        to: optionalString(asRecord(history.toState)?.name),
+      });
+    }
+    if (typeof history.toPriority === 'number') {
+      fieldChanges.push({ field: 'priority', from: priorityLabel(history.fromPriority), to: priorityLabel(history.toPriority) });
+    }
+    if (history.toAssignee || history.fromAssignee) {
+      fieldChanges.push({
+        field: 'assignee',
+        from: optionalString(asRecord(history.fromAssignee)?.name),
+        to: optionalString(asRecord(history.toAssignee)?.name),
+      });
+    }
+    if (fieldChanges.length === 0) continue;
+
+    changes.push({
+      kind: 'issue_updated',
+      issue,
+      changes: fieldChanges,
+      changedBy: String(asRecord(history.actor)?.name ?? 'unknown'),
+      changedAt,
+      linkedPullRequests,
+    });
+  }
+
+  return changes;
+}
@@ -0,0 +1,553 @@
+/**
+ * Notion Integration
+ *
+ * Handles Notion webhooks and cursor-based polling for page edits.
+ *
+ * Notion has no version history API, so each fetched page is compared to the
+ * last snapshot we stored for it. That comparison produces:
+ * - A block-level text diff (ChangeEvent.diff)
+ * - Database property changes such as status moves (ChangeEvent.tags)
+ */
+
+import { SourceTool } from '../types/core';
+import { Cursor, CursorPollResult } from '../types/cursors';
+import { RawChangeData } from '../services/change-detection';
+import { NotionBlockSnapshot, NotionPageSnapshot, NotionSnapshotRepository } from '../db/notion-snapshot-repository';
+import { HttpClient, FetchHttpClient } from './http-client';
+import { asRecord, asRecordArray, optionalString } from './payload';
+import { verifyHmacSignature } from './webhook-signature';
+import { logger } from '../utils/logger';
+
+export interface NotionIntegration {
+  /**
+   * Verify webhook signature
+   * Notion signs the raw body with the subscription's verification token (X-Notion-Signature)
+   */
+  verifyWebhook(payload: unknown, signature: string, verificationToken: string): Promise<boolean>;
+
+  /**
+   * Convert a webhook event into raw changes, fetching the page to compute its diff
+   */
+  extractRawChanges(payload: unknown, config: NotionConfig): Promise<RawChangeData[]>;
+
+  /**
+   * Fetch a page and diff it against its stored snapshot
+   * Returns null when nothing visible changed since the snapshot. The new
+   * snapshot is stored once the pipeline has persisted the change.
+   */
+  fetchPageChange(pageId: string, config: NotionConfig, event?: string): Promise<RawChangeData | null>;
+
+  /**
+   * Poll for changes since cursor
+   */
+  pollChanges(cursor: Cursor, config: NotionConfig): Promise<CursorPollResult<RawChangeData>>;
+}
+
+export interface NotionConfig {
+  token: string;
+  apiBaseUrl?: string;
+  pageSize?: number;
+  maxBlockDepth?: number; // How deep to follow nested blocks (toggles, lists)
+}
+
+export interface NotionPropertyChange {
+  name: string;
+  type: string;
+  from?: string;
+  to?: string;
+}
+
+export interface NotionWebhookEvent {
+  type: string;
+  pageId: string;
+  authors: string[];
+  updatedProperties: string[];
+  timestamp: Date;
+}
+
+/**
+ * Parse a Notion webhook event without calling the API
+ * Returns null for non-page events and the one-time subscription verification request
+ */
+export function parseNotionWebhookEvent(payload: unknown): NotionWebhookEvent | null {
+  const data = asRecord(payload);
+  const entity = asRecord(data?.entity);
+  if (!data || typeof data.type !== 'string' || !data.type.startsWith('page.') || entity?.type !== 'page') {
+    return null;
+  }
+
+  return {
+    type: data.type,
+    pageId: String(entity.id),
+    authors: asRecordArray(data.authors).map(author => String(author.id)),
+    updatedProperties: (asRecord(data.data)?.updated_properties as unknown[] | undefined)?.map(String) ?? [],
+    timestamp: new Date(String(data.timestamp)),
+  };
+}
+
+/**
+ * Build a verifier for ChangeDetectionServiceImpl's webhookVerifiers map
+ */
+export function createNotionWebhookVerifier(
+  verificationToken: string,
+  integration: Pick<NotionIntegration, 'verifyWebhook'> = { verifyWebhook: verifyNotionSignature }
+): (payload: unknown, signature?: string) => Promise<boolean> {
+  return async (payload, signature) => {
+    if (!signature) return false;
+    return integration.verifyWebhook(payload, signature, verificationToken);
+  };
+}
+
+/**
+ * Build an extractor for ChangeDetectionServiceImpl's webhookExtractors map
+ * Unlike the built-in Notion extractor this one fetches pages, so events carry diffs
+ */
+export function createNotionWebhookExtractor(
+  integration: NotionIntegration,
+  config: NotionConfig
+): (payload: unknown) => Promise<RawChangeData[]> {
+  return payload => integration.extractRawChanges(payload, config);
+}
+
+async function verifyNotionSignature(payload: unknown, signature: string, verificationToken: string): Promise<boolean> {
+  return verifyHmacSignature(payload, signature, verificationToken);
+}
+
+const API_BASE_URL = 'https://api.notion.com/v1';
+const NOTION_VERSION = '2022-06-28';
+const DEFAULT_PAGE_SIZE = 100;
+const DEFAULT_MAX_BLOCK_DEPTH = 3;
+const MAX_SEARCH_PAGES = 10;
+
+/**
+ * Implementation of NotionIntegration
+ */
+export class NotionIntegrationImpl implements NotionIntegration {
+  constructor(
+    private snapshots: NotionSnapshotRepository,
+    private httpClient?: HttpClient
+  ) {}
+
+  async verifyWebhook(payload: unknown, signature: string, verificationToken: string): Promise<boolean> {
+    return verifyNotionSignature(payload, signature, verificationToken);
+  }
+
+  async extractRawChanges(payload: unknown, config: NotionConfig): Promise<RawChangeData[]> {
+    const event = parseNotionWebhookEvent(payload);
+    if (!event) {
+      logger.debug('Unsupported Notion webhook payload');
+      return [];
+    }
+
+    // Deleted pages can no longer be fetched; report them from the event alone
+    if (event.type === 'page.deleted') {
+      return [webhookEventToRaw(event)];
+    }
+
+    const change = await this.fetchPageChange(event.pageId, config, event.type);
+    if (!change) return [];
+
+    return [{
+      ...change,
+      rawData: {
+        ...change.rawData,
+        lastEditedBy: change.rawData.lastEditedBy ?? event.authors[0],
+      },
+    }];
+  }
+
+  async fetchPageChange(pageId: string, config: NotionConfig, event?: string): Promise<RawChangeData | null> {
+    const client = this.client(config);
+    const page = await client.request<Record<string, unknown>>('GET', `${apiUrl(config)}/pages/${pageId}`);
+    return this.diffPage(page.data, config, event);
+  }
+
+  async pollChanges(cursor: Cursor, config: NotionConfig): Promise<CursorPollResult<RawChangeData>> {
+    // Cursor position is an ISO timestamp. Notion rounds last_edited_time down to
+    // the minute, so pages edited in the cursor's own minute are re-read and
+    // deduplicated against their snapshot instead of being skipped.
+    const client = this.client(config);
+    const since = new Date(cursor.position);
+
+    logger.info(`Polling Notion for changes`, {
+      cursorId: cursor.id,
+      position: cursor.position,
+    });
+
+    // Search only sorts by last_edited_time, newest first, so collect every
+    // candidate before diffing them oldest first
+    const candidates: Record<string, unknown>[] = [];
+    let startCursor: string | undefined;
+
+    for (let page = 1; page <= MAX_SEARCH_PAGES; page++) {
+      const search = await client.request<Record<string, unknown>>('POST', `${apiUrl(config)}/search`, {
+        body: {
+          filter: { property: 'object', value: 'page' },
+          sort: { direction: 'descending', timestamp: 'last_edited_time' },
+          page_size: config.pageSize ?? DEFAULT_PAGE_SIZE,
+          start_cursor: startCursor,
+        },
+      });
+
+      const results = asRecordArray(search.data.results);
+      const recent = results.filter(result => new Date(String(result.last_edited_time)) >= since);
+      candidates.push(...recent);
+
+      startCursor = optionalString(search.data.next_cursor);
+      if (recent.length < results.length || !search.data.has_more || !startCursor) break;
+      if (page === MAX_SEARCH_PAGES) {
+        logger.warn(`Notion search page limit reached, older edits were skipped`, { cursorId: cursor.id });
+      }
+    }
+
+    candidates.sort((a, b) =>
+      new Date(String(a.last_edited_time)).getTime() - new Date(String(b.last_edited_time)).getTime()
+    );
+
+    const changes: RawChangeData[] = [];
+    for (const candidate of candidates) {
+      const change = await this.diffPage(candidate, config);
+      if (change) changes.push(change);
+    }
+
+    const latest = candidates[candidates.length - 1];
+
+    return {
+      cursor: {
+        ...cursor,
+        lastPolledAt: new Date(),
+      },
+      changes,
+      nextPosition: latest ? new Date(String(latest.last_edited_time)).toISOString() : undefined,
+      hasMore: false,
+    };
+  }
+
+  /**
+   * Compare a page object with its snapshot
+   * The new snapshot is only stored from onPersisted: saving it here would
+   * lose the edit for good if the pipeline failed on it.
+   */
+  private async diffPage(
+    page: Record<string, unknown>,
+    config: NotionConfig,
+    event?: string
+  ): Promise<RawChangeData | null> {
+    const pageId = String(page.id);
+    const properties = serializeProperties(asRecord(page.properties));
+    const blocks = await this.fetchBlocks(pageId, config, 1);
+
+    const current: NotionPageSnapshot = {
+      pageId,
+      lastEditedTime: String(page.last_edited_time),
+      title: pageTitle(asRecord(page.properties)),
+      blocks,
+      properties,
+    };
+    const previous = this.snapshots.getSnapshot(pageId);
+
+    const propertyChanges = diffProperties(previous?.properties ?? {}, current.properties);
+    const diff = diffNotionPages(previous, current, propertyChanges);
+    if (previous && !diff) {
+      return null;
+    }
+
+    const parent = asRecord(page.parent);
+    const databaseId = parent?.type === 'database_id' ? optionalString(parent.database_id) : undefined;
+
+    return {
+      tool: 'notion' as SourceTool,
+      resourceId: pageId,
+      resourceType: 'page',
+      rawData: {
+        event: event ?? (previous ? 'page.content_updated' : 'page.created'),
+        pageId,
+        title: current.title,
+        url: optionalString(page.url),
+        databaseId,
+        lastEditedBy: optionalString(asRecord(page.last_edited_by)?.id),
+        lastEditedTime: current.lastEditedTime,
+        propertyChanges,
+        diff,
+        tags: propertyChangeTags(propertyChanges, !previous),
+      },
+      timestamp: new Date(current.lastEditedTime),
+      onPersisted: () => this.snapshots.saveSnapshot(current),
+    };
+  }
+
+  /**
+   * Read all child blocks of a page or block, following nested blocks up to maxBlockDepth
+   * Child pages and databases are their own pages and are not descended into
+   */
+  private async fetchBlocks(blockId: string, config: NotionConfig, depth: number): Promise<NotionBlockSnapshot[]> {
+    const client = this.client(config);
+    const blocks: NotionBlockSnapshot[] = [];
+    let startCursor: string | undefined;
+
+    do {
+      const response = await client.request<Record<string, unknown>>(
+        'GET',
+        `${apiUrl(config)}/blocks/${blockId}/children`,
+        { query: { page_size: config.pageSize ?? DEFAULT_PAGE_SIZE, start_cursor: startCursor } }
+      );
+
+      for (const block of asRecordArray(response.data.results)) {
+        const type = String(block.type);
+        blocks.push({ id: String(block.id), type, text: blockText(block) });
+
+        const isSubPage = type === 'child_page' || type === 'child_database';
+        if (block.has_children && !isSubPage && depth < (config.maxBlockDepth ?? DEFAULT_MAX_BLOCK_DEPTH)) {
+          blocks.push(...await this.fetchBlocks(String(block.id), config, depth + 1));
+        }
+      }
+
+      startCursor = response.data.has_more ? optionalString(response.data.next_cursor) : undefined;
+    } while (startCursor);
+
+    return blocks;
+  }
+
+  private client(config: NotionConfig): HttpClient {
+    return this.httpClient ?? new FetchHttpClient({
+      Authorization: `Bearer ${config.token}`,
+      'Notion-Version': NOTION_VERSION,
+    });
+  }
+}
+
+/**
+ * Render a readable block-level diff between two versions of a page
+ *
+ * Blocks keep their IDs across edits, so blocks are aligned by ID (longest
+ * common subsequence) rather than by text. Unchanged blocks are omitted.
+ * Returns an empty string when nothing changed.
+ */
+export function diffNotionPages(
+  previous: NotionPageSnapshot | null,
+  current: NotionPageSnapshot,
+  propertyChanges: NotionPropertyChange[] = []
+): string {
+  const lines: string[] = [];
+
+  if (previous && previous.title !== current.title) {
+    lines.push(`~ title: ${previous.title} → ${current.title}`);
+  }
+  for (const change of propertyChanges) {
+    lines.push(`~ ${change.name}: ${change.from ?? '(empty)'} → ${change.to ?? '(empty)'}`);
+  }
+
+  const before = previous?.blocks ?? [];
+  const after = current.blocks;
+
+  // LCS table over block IDs
+  const table: number[][] = Array.from({ length: before.length + 1 }, () => new Array(after.length + 1).fill(0));
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      table[i][j] = before[i].id === after[j].id
+        ? table[i + 1][j + 1] + 1
+        : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && before[i].id === after[j].id) {
+      if (before[i].text !== after[j].text || before[i].type !== after[j].type) {
+        lines.push(`- ${formatBlock(before[i])}`, `+ ${formatBlock(after[j])}`);
+      }
+      i++;
+      j++;
+    } else if (i < before.length && (j >= after.length || table[i + 1][j] >= table[i][j + 1])) {
+      lines.push(`- ${formatBlock(before[i])}`);
+      i++;
+    } else {
+      lines.push(`+ ${formatBlock(after[j])}`);
+      j++;
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Compare serialized database properties between two versions
+ */
+export function diffProperties(
+  previous: NotionPageSnapshot['properties'],
+  current: NotionPageSnapshot['properties']
+): NotionPropertyChange[] {
+  const changes: NotionPropertyChange[] = [];
+  const names = new Set([...Object.keys(previous), ...Object.keys(current)]);
+
+  for (const name of names) {
+    const from = previous[name];
+    const to = current[name];
+    // Titles are reported on their own diff line, and timestamps change on every edit
+    const type = to?.type ?? from?.type;
+    if (type === 'title' || type === 'last_edited_time' || type === 'last_edited_by') continue;
+    if (from?.value === to?.value) continue;
+
+    changes.push({
+      name,
+      type,
+      from: from?.value || undefined,
+      to: to?.value || undefined,
+    });
+  }
+
+  return changes;
+}
+
+/**
+ * Tags for database property changes
+ * Status moves get dedicated tags so routing can match on them
+ */
+function propertyChangeTags(changes: NotionPropertyChange[], isNewPage: boolean): string[] {
+  if (isNewPage) return ['new-page'];
+
+  const tags = new Set<string>();
+  for (const change of changes) {
+    tags.add('property-change');
+    tags.add(`property:${change.name}`);
+
+    const isStatus = change.type === 'status' || (change.type === 'select' && /^(status|stage|state)$/i.test(change.name));
+    if (isStatus) {
+      tags.add('status-change');
+      if (change.to) tags.add(`status:${change.to}`);
+    }
+  }
+  return [...tags];
+}
+
+function webhookEventToRaw(event: NotionWebhookEvent): RawChangeData {
+  return {
+    tool: 'notion' as SourceTool,
+    resourceId: event.pageId,
+    resourceType: 'page',
+    rawData: {
+      event: event.type,
+      pageId: event.pageId,
+      lastEditedBy: event.authors[0],
+      updatedProperties: event.updatedProperties,
+    },
+    timestamp: event.timestamp,
+  };
+}
+
+/**
+ * Webhook-only raw changes (no diff) for change detection without Notion credentials
+ */
+export function notionWebhookToRawChanges(payload: unknown): RawChangeData[] {
+  const event = parseNotionWebhookEvent(payload);
+  return event ? [webhookEventToRaw(event)] : [];
+}
+
+function apiUrl(config: NotionConfig): string {
+  return (config.apiBaseUrl ?? API_BASE_URL).replace(/\/$/, '');
+}
+
+function formatBlock(block: NotionBlockSnapshot): string {
+  return block.text ? `[${block.type}] ${block.text}` : `[${block.type}]`;
+}
+
+function richText(value: unknown): string {
+  return asRecordArray(value).map(part => String(part.plain_text ?? '')).join('');
+}
+
+function blockText(block: Record<string, unknown>): string {
+  const type = String(block.type);
+  const content = asRecord(block[type]);
+  if (!content) return '';
+
+  switch (type) {
+    case 'to_do':
+      return `[${content.checked ? 'x' : ' '}] ${richText(content.rich_text)}`;
+    case 'child_page':
+    case 'child_database':
+      return String(content.title ?? '');
+    case 'equation':
+      return String(content.expression ?? '');
+    case 'bookmark':
+    case 'embed':
+    case 'link_preview':
+      return String(content.url ?? '');
+    case 'image':
+    case 'file':
+    case 'pdf':
+    case 'video':
+      return richText(content.caption) || fileIdentity(content);
+    default:
+      return richText(content.rich_text);
+  }
+}
+
+/**
+ * A stable name for a file block without a caption
+ * Notion-hosted file URLs are pre-signed and change on every fetch, so the
+ * signature in the query string is dropped; external URLs are kept as is.
+ */
+function fileIdentity(content: Record<string, unknown>): string {
+  const external = optionalString(asRecord(content.external)?.url);
+  if (external) return external;
+
+  const hosted = optionalString(asRecord(content.file)?.url);
+  return hosted ? hosted.split('?')[0] : '';
+}
+
+function pageTitle(properties: Record<string, unknown> | null): string {
+  for (const property of Object.values(properties ?? {})) {
+    const record = asRecord(property);
+    if (record?.type === 'title') {
+      return richText(record.title);
+    }
+  }
+  return '';
+}
+
+/**
+ * Flatten database property values into comparable strings
+ */
+function serializeProperties(properties: Record<string, unknown> | null): NotionPageSnapshot['properties'] {
+  const serialized: NotionPageSnapshot['properties'] = {};
+
+  for (const [name, property] of Object.entries(properties ?? {})) {
+    const record = asRecord(property);
+    if (!record) continue;
+    const type = String(record.type);
+    serialized[name] = { type, value: propertyValue(type, record[type]) };
+  }
+
+  return serialized;
+}
+
+function propertyValue(type: string, value: unknown): string {
+  const record = asRecord(value);
+
+  switch (type) {
+    case 'title':
+    case 'rich_text':
+      return richText(value);
+    case 'select':
+    case 'status':
+      return String(record?.name ?? '');
+    case 'multi_select':
+      return asRecordArray(value).map(option => String(option.name)).join(', ');
+    case 'people':
+      return asRecordArray(value).map(person => String(person.name ?? person.id)).join(', ');
+    case 'relation':
+      return asRecordArray(value).map(relation => String(relation.id)).join(', ');
+    case 'date':
+      return record ? [record.start, record.end].filter(Boolean).join(' → ') : '';
+    case 'checkbox':
+      return value ? 'checked' : 'unchecked';
+    case 'number':
+    case 'url':
+    case 'email':
+    case 'phone_number':
+      return value === null || value === undefined ? '' : String(value);
+    default:
+      return value === null || value === undefined ? '' : JSON.stringify(value);
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * Slack delivery adapter
+ *
+ * Posts notifications as Block Kit messages with chat.postMessage.
+ * Takes the same WebClient the Slack bot uses (`app.client` from
+ * server/slack-bot), so one bot token covers both.
+ */
+
+import type { webApi } from '@slack/bolt';
+import { Channel, DeliveryTarget, Notification } from '../types/core';
+import { DeliveryAdapter, notificationSections } from '../services/notification-delivery';
+
+type KnownBlock = webApi.KnownBlock;
+
+export type SlackChatClient = Pick<webApi.WebClient, 'chat'>;
+
+/**
+ * Block Kit text fields are limited to 3000 characters
+ */
+const MAX_TEXT_LENGTH = 3000;
+
+export class SlackDeliveryAdapter implements DeliveryAdapter {
+  constructor(private client: SlackChatClient) {}
+
+  async deliver(notification: Notification, target: DeliveryTarget, channel: Channel): Promise<void> {
+    if (target.adapter !== 'slack') {
+      throw new Error(`Slack adapter cannot deliver to ${target.adapter} targets`);
+    }
+
+    const result = await this.client.chat.postMessage({
+      channel: target.slackChannelId,
+      text: notification.summary, // Fallback for notifications and clients without blocks
+      blocks: formatSlackBlocks(notification, channel),
+      unfurl_links: false,
+    });
+
+    if (!result.ok) {
+      throw new Error(`Slack chat.postMessage failed: ${result.error ?? 'unknown error'}`);
+    }
+  }
+}
+
+export function formatSlackBlocks(notification: Notification, channel: Channel): KnownBlock[] {
+  return [
+    {
+      type: 'section',
+      text: { type: 'mrkdwn', text: truncate(`*${escapeSlack(notification.summary)}*`) },
+    },
+    ...notificationSections(notification).map((section): KnownBlock => ({
+      type: 'section',
+      text: { type: 'mrkdwn', text: truncate(`*${section.label}*\n${escapeSlack(section.text)}`) },
+    })),
+    {
+      type: 'context',
+      elements: [{ type: 'mrkdwn', text: `Approved for #${escapeSlack(channel.name)}` }],
+    },
+  ];
+}
+
+/**
+ * Slack only needs &, < and > escaped in mrkdwn
+ */
+function escapeSlack(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_TEXT_LENGTH ? `${text.slice(0, MAX_TEXT_LENGTH - 1)}…` : text;
+}
@@ -0,0 +1,59 @@
+/**
+ * Microsoft Teams delivery adapter
+ *
+ * Posts notifications as Adaptive Cards to a Teams incoming webhook
+ * (or a Workflows "post to a channel when a webhook request is received" URL).
+ */
+
+import { Channel, DeliveryTarget, Notification } from '../types/core';
+import { DeliveryAdapter, notificationSections } from '../services/notification-delivery';
+import { HttpClient, FetchHttpClient } from './http-client';
+
+export class TeamsDeliveryAdapter implements DeliveryAdapter {
+  constructor(private httpClient: HttpClient = new FetchHttpClient()) {}
+
+  async deliver(notification: Notification, target: DeliveryTarget, channel: Channel): Promise<void> {
+    if (target.adapter !== 'teams') {
+      throw new Error(`Teams adapter cannot deliver to ${target.adapter} targets`);
+    }
+
+    await this.httpClient.request('POST', target.webhookUrl, {
+      body: {
+        type: 'message',
+        attachments: [{
+          contentType: 'application/vnd.microsoft.card.adaptive',
+          contentUrl: null,
+          content: formatAdaptiveCard(notification, channel),
+        }],
+      },
+    });
+  }
+}
+
+export function formatAdaptiveCard(notification: Notification, channel: Channel): Record<string, unknown> {
+  return {
+    $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+    type: 'AdaptiveCard',
+    version: '1.4',
+    body: [
+      {
+        type: 'TextBlock',
+        text: notification.summary,
+        weight: 'Bolder',
+        size: 'Medium',
+        wrap: true,
+      },
+      ...notificationSections(notification).flatMap(section => [
+        { type: 'TextBlock', text: section.label, weight: 'Bolder', spacing: 'Medium', wrap: true },
+        { type: 'TextBlock', text: section.text, spacing: 'None', wrap: true },
+      ]),
+      {
+        type: 'TextBlock',
+        text: `Approved for ${channel.name}`,
+        isSubtle: true,
+        size: 'Small',
+        wrap: true,
+      },
+    ],
+  };
+}
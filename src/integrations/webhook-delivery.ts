@@ -0,0 +1,59 @@
+/**
+ * Outbound webhook delivery adapter
+ *
+ * POSTs notifications as JSON to any URL. Requests are signed the same way
+ * the tools we receive webhooks from sign theirs, so receivers can verify them:
+ *
+ *   X-Zinc-Timestamp: <unix seconds>
+ *   X-Zinc-Signature: sha256=<hex HMAC-SHA256 of "<timestamp>.<body>" with the target secret>
+ *
+ * Including the timestamp lets receivers reject replayed requests.
+ */
+
+import { createHmac } from 'crypto';
+import { Channel, DeliveryTarget, Notification } from '../types/core';
+import { DeliveryAdapter } from '../services/notification-delivery';
+import { HttpClient, FetchHttpClient } from './http-client';
+
+export class WebhookDeliveryAdapter implements DeliveryAdapter {
+  constructor(private httpClient: HttpClient = new FetchHttpClient()) {}
+
+  async deliver(notification: Notification, target: DeliveryTarget, channel: Channel): Promise<void> {
+    if (target.adapter !== 'webhook') {
+      throw new Error(`Webhook adapter cannot deliver to ${target.adapter} targets`);
+    }
+
+    const body = JSON.stringify({
+      type: 'notification.approved',
+      channel: { id: channel.id, name: channel.name, role: channel.role },
+      notification: {
+        id: notification.id,
+        changeEventId: notification.changeEventId,
+        role: notification.role,
+        summary: notification.summary,
+        impact: notification.impact,
+        relevance: notification.relevance,
+        suggestedAction: notification.suggestedAction,
+        approvedBy: notification.approvedBy,
+        approvedAt: notification.approvedAt?.toISOString(),
+      },
+    });
+    const timestamp = String(Math.floor(Date.now() / 1000));
+
+    await this.httpClient.request('POST', target.url, {
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Zinc-Timestamp': timestamp,
+        'X-Zinc-Signature': signWebhookBody(body, timestamp, target.secret),
+      },
+      body,
+    });
+  }
+}
+
+/**
+ * Signature receivers should recompute and compare (in constant time)
+ */
+export function signWebhookBody(body: string, timestamp: string, secret: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
@@ -0,0 +1,40 @@
+/**
+ * Webhook signature verification shared by tool integrations
+ *
+ * GitHub, Bitbucket, Jira, Notion and Linear all sign the raw request body
+ * with HMAC-SHA256 and send the hex digest in a header; most prefix it with
+ * "sha256=".
+ */
+
+import { createHmac } from 'crypto';
+import { safeEqual } from './payload';
+
+export interface HmacSignatureOptions {
+  /**
+   * Prefix the tool puts before the hex digest; "sha256=" when omitted
+   */
+  prefix?: string;
+}
+
+/**
+ * Check an HMAC-SHA256 signature over the raw webhook body
+ * Parsed payloads are re-serialized, which only verifies if the tool sent compact JSON.
+ */
+export function verifyHmacSignature(
+  payload: unknown,
+  signature: string | undefined,
+  secret: string,
+  options: HmacSignatureOptions = {}
+): boolean {
+  const prefix = options.prefix ?? 'sha256=';
+  if (!secret || !signature?.startsWith(prefix)) {
+    return false;
+  }
+
+  const body = typeof payload === 'string' || Buffer.isBuffer(payload)
+    ? payload
+    : JSON.stringify(payload);
+  const expected = `${prefix}${createHmac('sha256', secret).update(body).digest('hex')}`;
+
+  return safeEqual(expected, signature);
+}
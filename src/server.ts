@@ -0,0 +1,246 @@
+/**
+ * Sync Server
+ *
+ * Wires the sync pipeline to persistent storage and exposes it over HTTP:
+ * webhook ingress, onboarding and membership, channels, installations and
+ * their polling cursors, ownership, the approval queue, interpretation
+ * reviews, preferences, proposals and release notes, all in one Fastify app.
+ *
+ * Interpretation and routing run from a durable job queue, so webhooks are
+ * answered as soon as their changes are queued. Installations without
+ * webhooks are polled through cursors. Approved notifications are sent
+ * right away, through the channel's delivery targets or its digest, and
+ * fanned out to users' inboxes.
+ *
+ * The caller starts the returned worker, scheduler and digest flush; tests
+ * drive them with runOnce() and flushDue().
+ */
+
+import Fastify, { FastifyInstance } from 'fastify';
+import { openSyncDatabase, SyncDatabase } from './db/database';
+import { SqliteChangeEventRepository } from './db/change-event-repository';
+import { SqliteChannelRepository } from './db/channel-repository';
+import { SqliteInstallationRepository } from './db/installation-repository';
+import { SqliteNotificationRepository } from './db/notification-repository';
+import { SqliteReviewRepository } from './db/review-repository';
+import { SqliteRoutingPolicyRepository } from './db/routing-policy-repository';
+import { SqlitePipelineJobRepository } from './db/pipeline-job-repository';
+import { SqliteUserRepository } from './db/user-repository';
+import { SqliteCorrelationIndex } from './db/correlation-repository';
+import { SqliteCursorRepository } from './db/cursor-repository';
+import { SqliteNotionSnapshotRepository } from './db/notion-snapshot-repository';
+import { SqliteDeadLetterRepository } from './db/dead-letter-repository';
+import { SqliteDigestRepository } from './db/digest-repository';
+import { SqlitePreferenceRepository } from './db/preference-repository';
+import { SqliteOwnershipRepository } from './db/ownership-repository';
+import { SqliteProposalRepository } from './db/proposal-repository';
+import { ChangeDetectionServiceImpl, RawChangeData } from './services/change-detection';
+import { ChangeNormalizationServiceImpl, Normalizers } from './services/change-normalization';
+import { AIInterpretationServiceImpl, JsonGenerator } from './services/ai-interpretation';
+import { RoleBasedRoutingServiceImpl } from './services/role-based-routing';
+import { RoutingPolicyServiceImpl } from './services/routing-policy';
+import { NotificationServiceImpl } from './services/notification';
+import { InterpretationReviewServiceImpl } from './services/interpretation-review';
+import { InstallationServiceImpl, createInstallationWebhookVerifiers } from './services/installations';
+import { OnboardingServiceImpl } from './services/onboarding';
+import { OrchestrationServiceImpl } from './services/orchestration';
+import { CorrelationServiceImpl } from './services/correlation';
+import { PipelineWorker, PipelineWorkerConfig, PipelineWorkerImpl } from './services/pipeline-worker';
+import { PollingScheduler, PollingSchedulerConfig, PollingSchedulerImpl } from './services/polling-scheduler';
+import { createInstallationCursorPollers, createInstallationPollers } from './services/installation-polling';
+import { DeliveryAdapter, NotificationDeliveryServiceImpl } from './services/notification-delivery';
+import { NotificationDigestService, NotificationDigestServiceImpl } from './services/notification-digest';
+import { NotificationPreferenceServiceImpl } from './services/notification-preferences';
+import { OwnershipServiceImpl } from './services/ownership';
+import { CodeChangeProposalServiceImpl, ProposalApplier } from './services/proposals';
+import { ReleaseNotesServiceImpl } from './services/release-notes';
+import { GitHubConfig, createGitHubTagDateLookup } from './integrations/github';
+import { GitHubProposalApplier } from './integrations/github-proposals';
+import { SlackChatClient, SlackDeliveryAdapter } from './integrations/slack-delivery';
+import { EmailDeliveryAdapter, SmtpConfig, SmtpEmailTransport } from './integrations/email-delivery';
+import { TeamsDeliveryAdapter } from './integrations/teams-delivery';
+import { WebhookDeliveryAdapter } from './integrations/webhook-delivery';
+import { registerWebhookRoutes } from './api/webhooks';
+import { registerOnboardingRoutes } from './api/onboarding';
+import { registerMemberRoutes } from './api/members';
+import { registerChannelRoutes } from './api/channels';
+import { registerInstallationRoutes } from './api/installations';
+import { registerNotificationRoutes } from './api/notifications';
+import { registerReviewRoutes } from './api/reviews';
+import { registerRoutingPolicyRoutes } from './api/routing-policies';
+import { registerChangeEventRoutes } from './api/change-events';
+import { registerPipelineRoutes } from './api/pipeline';
+import { registerCursorRoutes } from './api/cursors';
+import { registerOwnershipRoutes } from './api/ownership';
+import { registerPreferenceRoutes } from './api/preferences';
+import { registerProposalRoutes } from './api/proposals';
+import { registerReleaseNotesRoutes } from './api/release-notes';
+import { SourceTool, ChangeEvent, DeliveryTarget } from './types/core';
+
+export interface SyncServerOptions {
+  /**
+   * SQLite file; ':memory:' for an ephemeral server
+   */
+  dbPath?: string;
+
+  /**
+   * Model used to interpret changes; rule-based interpretation only when omitted
+   */
+  generateJson?: JsonGenerator;
+
+  pipeline?: Partial<PipelineWorkerConfig>;
+
+  polling?: Partial<PollingSchedulerConfig>;
+
+  /**
+   * Slack Web API client for Slack delivery targets, e.g. the bot's `app.client`
+   */
+  slackClient?: SlackChatClient;
+
+  /**
+   * SMTP server for email delivery targets
+   */
+  smtp?: SmtpConfig;
+
+  /**
+   * GitHub access for applying approved proposals and dating release tags
+   */
+  github?: Pick<GitHubConfig, 'token' | 'apiBaseUrl'>;
+
+  /**
+   * Where invite links point, e.g. https://sync.example.com/join
+   */
+  inviteBaseUrl?: string;
+
+  logger?: boolean;
+}
+
+export interface SyncServer {
+  app: FastifyInstance;
+  db: SyncDatabase;
+  worker: PipelineWorker;
+  scheduler: PollingScheduler;
+  digests: NotificationDigestService;
+}
+
+const WEBHOOK_NORMALIZERS = new Map<SourceTool, (raw: RawChangeData) => Promise<ChangeEvent>>([
+  ['github', raw => Normalizers.normalizeGitChange(raw, 'webhook')],
+  ['gitlab', raw => Normalizers.normalizeGitChange(raw, 'webhook')],
+  ['bitbucket', raw => Normalizers.normalizeGitChange(raw, 'webhook')],
+  ['jira', raw => Normalizers.normalizeIssueChange(raw, 'webhook')],
+  ['linear', raw => Normalizers.normalizeIssueChange(raw, 'webhook')],
+  ['notion', raw => Normalizers.normalizeNotionPage(raw, 'webhook')],
+  ['figma', raw => Normalizers.normalizeFigmaFile(raw, 'webhook')],
+]);
+
+export function buildSyncServer(options: SyncServerOptions = {}): SyncServer {
+  const db = openSyncDatabase(options.dbPath);
+
+  const changeEvents = new SqliteChangeEventRepository(db);
+  const channels = new SqliteChannelRepository(db);
+  const installations = new InstallationServiceImpl(new SqliteInstallationRepository(db));
+  const policies = new RoutingPolicyServiceImpl(new SqliteRoutingPolicyRepository(db));
+  const reviews = new InterpretationReviewServiceImpl(new SqliteReviewRepository(db), changeEvents);
+  const users = new SqliteUserRepository(db);
+  const onboarding = new OnboardingServiceImpl(channels, users);
+  const jobs = new SqlitePipelineJobRepository(db);
+  const cursors = new SqliteCursorRepository(db);
+  const ownership = new OwnershipServiceImpl(new SqliteOwnershipRepository(db));
+
+  const channelLookup = async (channelId: string) => channels.getChannel(channelId);
+  const adapters = new Map<DeliveryTarget['adapter'], DeliveryAdapter>([
+    ['webhook', new WebhookDeliveryAdapter()],
+    ['teams', new TeamsDeliveryAdapter()],
+  ]);
+  if (options.slackClient) {
+    adapters.set('slack', new SlackDeliveryAdapter(options.slackClient));
+  }
+  if (options.smtp) {
+    adapters.set('email', new EmailDeliveryAdapter(new SmtpEmailTransport(options.smtp)));
+  }
+
+  const notificationRepository = new SqliteNotificationRepository(db);
+  const delivery = new NotificationDeliveryServiceImpl(adapters, channelLookup, new SqliteDeadLetterRepository(db));
+  const digests = new NotificationDigestServiceImpl(
+    new SqliteDigestRepository(db),
+    notificationRepository,
+    changeEvents,
+    channelLookup,
+    delivery
+  );
+  const preferences = new NotificationPreferenceServiceImpl(
+    new SqlitePreferenceRepository(db),
+    changeEvents,
+    channelLookup,
+    async companyGroupId => users.listMembers(companyGroupId)
+  );
+  const notifications = new NotificationServiceImpl(notificationRepository, changeEvents, delivery, digests, preferences);
+
+  const appliers = new Map<string, ProposalApplier>();
+  if (options.github) {
+    appliers.set('github', new GitHubProposalApplier(options.github));
+  }
+  const proposals = new CodeChangeProposalServiceImpl(new SqliteProposalRepository(db), appliers, changeEvents);
+
+  const aiInterpretation = new AIInterpretationServiceImpl(options.generateJson);
+  const releaseNotes = new ReleaseNotesServiceImpl(
+    changeEvents,
+    aiInterpretation,
+    options.github ? createGitHubTagDateLookup({ ...options.github, repositories: [] }) : undefined
+  );
+
+  const changeDetection = new ChangeDetectionServiceImpl(
+    createInstallationWebhookVerifiers(installations),
+    createInstallationCursorPollers(installations, createInstallationPollers(new SqliteNotionSnapshotRepository(db))),
+    cursors
+  );
+  const orchestration = new OrchestrationServiceImpl(
+    changeDetection,
+    new ChangeNormalizationServiceImpl(WEBHOOK_NORMALIZERS),
+    aiInterpretation,
+    // Routing reads the interpretation stored by the interpret stage; it never asks the model again
+    new RoleBasedRoutingServiceImpl(async changeEvent => aiInterpretation.describeInterpretation(changeEvent), policies),
+    notifications,
+    async companyGroupId => channels.listChannels(companyGroupId),
+    {
+      correlation: new CorrelationServiceImpl(new SqliteCorrelationIndex(db)),
+      changeEvents,
+      ownership,
+      proposals,
+      reviews,
+      installations,
+      jobs,
+    }
+  );
+  const worker = new PipelineWorkerImpl(jobs, changeEvents, orchestration, options.pipeline);
+  const scheduler = new PollingSchedulerImpl(cursors, changeDetection, orchestration, options.polling);
+
+  const app = Fastify({ logger: options.logger ?? false });
+
+  app.get('/health', async () => {
+    return { status: 'ok', timestamp: Date.now() };
+  });
+
+  registerWebhookRoutes(app, orchestration, { queued: true });
+  registerOnboardingRoutes(app, onboarding, { inviteBaseUrl: options.inviteBaseUrl });
+  registerMemberRoutes(app, onboarding);
+  registerChannelRoutes(app, channels);
+  registerInstallationRoutes(app, installations);
+  registerCursorRoutes(app, cursors, installations, scheduler);
+  registerOwnershipRoutes(app, ownership);
+  registerNotificationRoutes(app, notifications, { sendOnApprove: true });
+  registerPreferenceRoutes(app, preferences);
+  registerReviewRoutes(app, reviews, orchestration);
+  registerRoutingPolicyRoutes(app, policies);
+  registerChangeEventRoutes(app, changeEvents);
+  registerPipelineRoutes(app, worker);
+  registerProposalRoutes(app, proposals);
+  registerReleaseNotesRoutes(app, releaseNotes);
+
+  app.addHook('onClose', async () => {
+    await Promise.all([worker.stop(), scheduler.stop()]);
+    db.close();
+  });
+
+  return { app, db, worker, scheduler, digests };
+}
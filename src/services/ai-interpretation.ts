@@ -9,28 +9,89 @@
  * 
  * All interpretations must include evidence citations.
  * Must never fabricate intent or hide uncertainty.
+ *
+ * When an LLM is configured its answer is validated against
+ * CodeChangeInterpretationSchema and every citation is checked against the
+ * change itself; uncited claims are dropped, and an answer with no grounded
+ * evidence, or whose summary or impact names code its evidence doesn't
+ * cite, is discarded in favour of the heuristics.
+ *
+ * Code changes are also run through the static diff analyzer; what it finds
+ * (contract changes, migrations, rollout risk) is merged into either result,
+ * so breaking changes are flagged even without an LLM.
+ *
+ * Interpretations reviewers corrected can be passed in as labeled examples;
+ * they are shown to the LLM as few-shot context.
  */
 
-import { ChangeEvent, Role, ConfidenceLevel } from '../types/core';
-import { CodeChangeInterpretation } from '../types/code-changes';
+import { z } from 'zod';
+import { ChangeEvent, Role, ConfidenceLevel, ConfidenceLevelSchema, RoleSchema, ChangeClassificationSchema, ChangeIntentSchema } from '../types/core';
+import { CodeChangeInterpretation, CodeChangeInterpretationSchema } from '../types/code-changes';
+import { categorizeRelatedResources } from './correlation';
+import { collectEvidenceSources, findUncitedIdentifiers, isClaimGrounded, isEvidenceGrounded } from './evidence';
+import { analyzeChangeEvent, DiffAnalysis } from './diff-analysis';
+import { LabeledExample } from '../db/review-repository';
 import { logger } from '../utils/logger';
 
+/**
+ * Structured generation function with the shape of `generateJson` in server/ai-service.ts
+ */
+export type JsonGenerator = (
+  prompt: string,
+  options?: { systemPrompt?: string; maxTokens?: number; temperature?: number }
+) => Promise<{ success: boolean; data: unknown; raw?: string; error?: string }>;
+
+/**
+ * What the model is asked to return: a code change interpretation plus the
+ * human-readable explanation the notification needs
+ */
+const LlmInterpretationSchema = CodeChangeInterpretationSchema.extend({
+  summary: z.string().min(1),
+  impact: z.string().min(1),
+  suggestedAction: z.string().optional(),
+});
+
+type LlmInterpretation = z.infer<typeof LlmInterpretationSchema>;
+
+const LLM_SYSTEM_PROMPT = `You interpret changes made in software tools (code, specs, designs, tickets) for a team notification system.
+Rules:
+- Respond with a single JSON object and nothing else.
+- Every evidence "value" must be copied verbatim from the change you are given: a changed file path, a line of the diff, or text from the title/description/message.
+- Do not infer intent the change does not show. If the change is ambiguous, say so and use confidence "low".
+- Only list affected roles that would actually need to act on or know about this change.`;
+
+const MAX_PROMPT_DIFF_LENGTH = 12000;
+const ROLLOUT_RISKS: Array<NonNullable<CodeChangeInterpretation['rolloutRisk']>> = ['low', 'medium', 'high'];
+
+export interface InterpretationOptions {
+  examples?: LabeledExample[]; // Reviewer-labeled changes, most relevant first
+  force?: boolean; // Interpret again even when the event already carries an interpretation
+}
+
+export interface ChangeEventInterpretation {
+  classification: 'cosmetic' | 'functional' | 'breaking';
+  intent: 'bug-fix' | 'refactor' | 'feature-addition' | 'migration' | 'documentation' | 'other';
+  confidence: ConfidenceLevel;
+  affectedRoles: Role[];
+  summary: string;
+  impact: string;
+  relevance: Record<Role, string>;
+  suggestedAction?: string;
+  evidence: string[];
+}
+
 export interface AIInterpretationService {
   /**
    * Interpret a change event semantically
    * Returns classification, intent, impact, and confidence with evidence
    */
-  interpretChangeEvent(changeEvent: ChangeEvent): Promise<{
-    classification: 'cosmetic' | 'functional' | 'breaking';
-    intent: 'bug-fix' | 'refactor' | 'feature-addition' | 'migration' | 'documentation' | 'other';
-    confidence: ConfidenceLevel;
-    affectedRoles: Role[];
-    summary: string;
-    impact: string;
-    relevance: Record<Role, string>;
-    suggestedAction?: string;
-    evidence: string[];
-  }>;
+  interpretChangeEvent(changeEvent: ChangeEvent, options?: InterpretationOptions): Promise<ChangeEventInterpretation>;
+
+  /**
+   * The interpretation already stored on an interpreted change event
+   * Never calls the LLM; throws when the event hasn't been interpreted.
+   */
+  describeInterpretation(changeEvent: ChangeEvent): ChangeEventInterpretation;
 
   /**
    * Interpret code change specifically
@@ -44,54 +105,33 @@ export interface AIInterpretationService {
 
 /**
  * Implementation of AIInterpretationService
- * 
- * This is a placeholder - in production, this would integrate with:
- * - LLM API (OpenAI, Anthropic, etc.)
- * - Rule-based analysis
- * - Heuristic patterns
+ *
+ * Uses the LLM when a generator is given (wire in `generateJson` from
+ * server/ai-service.ts) and heuristics otherwise or when the LLM fails.
  */
 export class AIInterpretationServiceImpl implements AIInterpretationService {
-  constructor(
-    private llmClient?: {
-      interpretChange: (changeEvent: ChangeEvent) => Promise<{
-        classification: string;
-        intent: string;
-        summary: string;
-        impact: string;
-        affectedRoles: string[];
-      }>;
-    }
-  ) {}
-
-  async interpretChangeEvent(changeEvent: ChangeEvent): Promise<{
-    classification: 'cosmetic' | 'functional' | 'breaking';
-    intent: 'bug-fix' | 'refactor' | 'feature-addition' | 'migration' | 'documentation' | 'other';
-    confidence: ConfidenceLevel;
-    affectedRoles: Role[];
-    summary: string;
-    impact: string;
-    relevance: Record<Role, string>;
-    suggestedAction?: string;
-    evidence: string[];
-  }> {
+  constructor(private generateJson?: JsonGenerator) {}
+
+  async interpretChangeEvent(changeEvent: ChangeEvent, options: InterpretationOptions = {}): Promise<ChangeEventInterpretation> {
     // Use existing interpretation if available
-    if (changeEvent.classification && changeEvent.intent && changeEvent.affectedRoles) {
-      return {
-        classification: changeEvent.classification,
-        intent: changeEvent.intent,
-        confidence: changeEvent.confidence || 'medium',
-        affectedRoles: changeEvent.affectedRoles,
-        summary: `Change to ${changeEvent.sourceResourceType} in ${changeEvent.sourceTool}`,
-        impact: 'Change detected and needs review',
-        relevance: this.buildRelevanceMap(changeEvent.affectedRoles, changeEvent),
-        evidence: changeEvent.evidence || [],
-      };
+    if (!options.force && changeEvent.classification && changeEvent.intent && changeEvent.affectedRoles) {
+      return this.describeInterpretation(changeEvent);
     }
 
-    // TODO: Integrate with LLM or rule-based interpretation
-    // For now, use heuristics
-
-    const interpretation = await this.interpretWithHeuristics(changeEvent);
+    const llmInterpretation = await this.interpretWithLlm(changeEvent, options.examples);
+    const interpretation = llmInterpretation
+      ? {
+        classification: llmInterpretation.classification,
+        intent: llmInterpretation.intent,
+        confidence: llmInterpretation.confidence,
+        affectedRoles: llmInterpretation.affectedRoles,
+        summary: llmInterpretation.summary,
+        impact: llmInterpretation.impact,
+        relevance: this.buildRelevanceMap(llmInterpretation.affectedRoles, changeEvent),
+        suggestedAction: llmInterpretation.suggestedAction,
+        evidence: llmInterpretation.evidence.map(item => `${item.relevance} (${item.type}: ${item.value})`),
+      }
+      : await this.interpretWithHeuristics(changeEvent);
 
     logger.info(`Interpreted change event`, {
       changeEventId: changeEvent.id,
@@ -104,49 +144,110 @@ export class AIInterpretationServiceImpl implements AIInterpretationService {
     return interpretation;
   }
 
+  describeInterpretation(changeEvent: ChangeEvent): ChangeEventInterpretation {
+    const { classification, intent, affectedRoles } = changeEvent;
+    if (!classification || !intent || !affectedRoles) {
+      throw new Error(`Change event ${changeEvent.id} has not been interpreted`);
+    }
+
+    return {
+      classification,
+      intent,
+      confidence: changeEvent.confidence || 'medium',
+      affectedRoles,
+      // Events interpreted before the explanation was stored fall back to generic text
+      summary: changeEvent.summary ?? `Change to ${changeEvent.sourceResourceType} in ${changeEvent.sourceTool}`,
+      impact: changeEvent.impact ?? 'Change detected and needs review',
+      relevance: this.buildRelevanceMap(affectedRoles, changeEvent),
+      suggestedAction: changeEvent.suggestedAction,
+      evidence: changeEvent.evidence || [],
+    };
+  }
+
   async interpretCodeChange(
     changeEvent: ChangeEvent,
     prData?: unknown
   ): Promise<CodeChangeInterpretation> {
-    // TODO: Implement code-specific interpretation
-    // Analyze:
-    // - File paths for API contracts
-    // - Function signatures
-    // - Import/export changes
-    // - Test changes
-    // - Migration files
+    const analysis = analyzeChangeEvent(changeEvent);
+    const alreadyInterpreted = Boolean(changeEvent.classification && changeEvent.intent && changeEvent.affectedRoles);
+
+    // An event the pipeline already interpreted isn't sent to the LLM a second time
+    const llmInterpretation = alreadyInterpreted ? null : await this.interpretWithLlm(changeEvent);
+    if (llmInterpretation) {
+      const { summary, impact, suggestedAction, ...interpretation } = llmInterpretation;
+      const related = categorizeRelatedResources(changeEvent.relatedResources);
+      return applyDiffAnalysis({
+        ...interpretation,
+        relatedSpecs: mergeIds(interpretation.relatedSpecs, related.relatedSpecs),
+        relatedDesigns: mergeIds(interpretation.relatedDesigns, related.relatedDesigns),
+        relatedTickets: mergeIds(interpretation.relatedTickets, related.relatedTickets),
+      }, analysis);
+    }
 
     const baseInterpretation = await this.interpretChangeEvent(changeEvent);
 
-    return {
+    return applyDiffAnalysis({
       classification: baseInterpretation.classification,
       intent: baseInterpretation.intent,
       confidence: baseInterpretation.confidence,
       impactedComponents: changeEvent.impactedComponents || [],
       affectedRoles: baseInterpretation.affectedRoles,
+      dependentTeams: changeEvent.dependentTeams,
       evidence: baseInterpretation.evidence.map(e => ({
         type: 'file-path' as const,
         value: e,
         relevance: 'Found in change event',
       })),
-    };
+      // Filled from relatedResources once the correlation service has linked the event
+      ...categorizeRelatedResources(changeEvent.relatedResources),
+    }, analysis);
+  }
+
+  /**
+   * Ask the LLM for an interpretation and keep only what the change supports
+   * Returns null when there is no LLM, it fails, or it cites nothing real.
+   */
+  private async interpretWithLlm(changeEvent: ChangeEvent, examples: LabeledExample[] = []): Promise<LlmInterpretation | null> {
+    if (!this.generateJson) {
+      return null;
+    }
+
+    let result: Awaited<ReturnType<JsonGenerator>>;
+    try {
+      result = await this.generateJson(buildInterpretationPrompt(changeEvent, examples), {
+        systemPrompt: LLM_SYSTEM_PROMPT,
+        maxTokens: 2048,
+        temperature: 0,
+      });
+    } catch (error) {
+      result = { success: false, data: null, error: error instanceof Error ? error.message : String(error) };
+    }
+
+    if (!result.success || !result.data) {
+      logger.warn(`LLM interpretation failed; falling back to heuristics`, {
+        changeEventId: changeEvent.id,
+        error: result.error ?? 'No JSON in response',
+      });
+      return null;
+    }
+
+    const parsed = LlmInterpretationSchema.safeParse(result.data);
+    if (!parsed.success) {
+      logger.warn(`LLM interpretation did not match schema; falling back to heuristics`, {
+        changeEventId: changeEvent.id,
+        issues: parsed.error.issues.slice(0, 5).map(issue => `${issue.path.join('.')}: ${issue.message}`),
+      });
+      return null;
+    }
+
+    return groundInterpretation(parsed.data, changeEvent);
   }
 
   /**
    * Heuristic-based interpretation (fallback)
-   * In production, this would be replaced/combined with LLM interpretation
+   * Used when no LLM is configured or its answer can't be trusted
    */
-  private async interpretWithHeuristics(changeEvent: ChangeEvent): Promise<{
-    classification: 'cosmetic' | 'functional' | 'breaking';
-    intent: 'bug-fix' | 'refactor' | 'feature-addition' | 'migration' | 'documentation' | 'other';
-    confidence: ConfidenceLevel;
-    affectedRoles: Role[];
-    summary: string;
-    impact: string;
-    relevance: Record<Role, string>;
-    suggestedAction?: string;
-    evidence: string[];
-  }> {
+  private async interpretWithHeuristics(changeEvent: ChangeEvent): Promise<ChangeEventInterpretation> {
     const evidence: string[] = [];
     const sourceTool = changeEvent.sourceTool;
     const resourceType = changeEvent.sourceResourceType;
@@ -158,7 +259,7 @@ export class AIInterpretationServiceImpl implements AIInterpretationService {
     const affectedRoles: Role[] = [];
 
     // Tool-specific heuristics
-    if (sourceTool === 'github') {
+    if (sourceTool === 'github' || sourceTool === 'gitlab' || sourceTool === 'bitbucket') {
       if (resourceType === 'pull_request') {
         const prData = changeEvent.rawChangeData;
         const title = (prData?.title as string)?.toLowerCase() || '';
@@ -208,9 +309,49 @@ export class AIInterpretationServiceImpl implements AIInterpretationService {
         // Figma changes affect design and potentially frontend engineering
         affectedRoles.push('design', 'engineering-frontend');
         classification = 'functional';
+      } else if (resourceType === 'component') {
+        // Component library changes ripple into shipped UI and brand material
+        affectedRoles.push('design', 'engineering-frontend', 'marketing-brand');
+        classification = 'functional';
+
+        const components = changeEvent.rawChangeData?.components as { removed?: string[]; renamed?: unknown[] } | undefined;
+        if (components?.removed?.length || components?.renamed?.length) {
+          classification = 'breaking';
+          evidence.push('Components were removed or renamed in the design library');
+        }
+      }
+    } else if (sourceTool === 'jira' || sourceTool === 'linear') {
+      if (resourceType === 'issue') {
+        // Issue movement matters to whoever plans and whoever builds the work
+        affectedRoles.push('product-manager', 'engineering-fullstack');
+        classification = 'cosmetic';
+
+        const changes = (changeEvent.rawChangeData?.changes as Array<{ field: string; to?: string }>) || [];
+        if (changeEvent.rawChangeData?.event === 'epic_created') {
+          classification = 'functional';
+          intent = 'feature-addition';
+          evidence.push('New epic created');
+        } else if (changes.some(change => change.field === 'priority' && /urgent|highest|blocker/i.test(change.to ?? ''))) {
+          classification = 'functional';
+          evidence.push('Issue priority raised to urgent');
+        }
       }
     }
 
+    // Static analysis catches contract changes the title and labels don't mention
+    if (changeEvent.sourceResourceType === 'pull_request' || changeEvent.sourceResourceType === 'commit') {
+      const analysis = analyzeChangeEvent(changeEvent);
+      if (analysis.breaking) {
+        classification = 'breaking';
+      }
+      if (analysis.migrationRisk && intent === 'other') {
+        intent = 'migration';
+      }
+      evidence.push(...analysis.findings
+        .filter(finding => finding.breaking || finding.kind === 'sql-migration')
+        .map(finding => `${finding.description} in ${finding.path}`));
+    }
+
     // Build summary and impact
     const summary = `${changeEvent.sourceTool} ${changeEvent.sourceResourceType} changed by ${changeEvent.changedBy}`;
     const impact = this.buildImpactStatement(classification, intent, affectedRoles);
@@ -260,3 +401,144 @@ export class AIInterpretationServiceImpl implements AIInterpretationService {
     return relevance;
   }
 }
+
+/**
+ * Drop citations and claims the change doesn't support
+ * Rejects the interpretation outright when no evidence survives or the
+ * summary or impact names code that no grounded citation contains, and
+ * lowers confidence when some citations had to be dropped.
+ */
+function groundInterpretation(interpretation: LlmInterpretation, changeEvent: ChangeEvent): LlmInterpretation | null {
+  const sources = collectEvidenceSources(changeEvent);
+  const evidence = interpretation.evidence.filter(item => isEvidenceGrounded(item, sources));
+  const rejected = interpretation.evidence.filter(item => !evidence.includes(item));
+
+  if (evidence.length === 0) {
+    logger.warn(`LLM interpretation cited nothing found in the change; falling back to heuristics`, {
+      changeEventId: changeEvent.id,
+      rejectedEvidence: rejected.map(item => item.value),
+    });
+    return null;
+  }
+
+  const uncited = findUncitedIdentifiers(`${interpretation.summary}\n${interpretation.impact}`, evidence);
+  if (uncited.length > 0) {
+    logger.warn(`LLM summary names code its evidence does not cite; falling back to heuristics`, {
+      changeEventId: changeEvent.id,
+      uncitedIdentifiers: uncited,
+    });
+    return null;
+  }
+
+  const grounded = (claims?: string[]) => claims?.filter(claim => isClaimGrounded(claim, sources));
+  let confidence = interpretation.confidence;
+  if (rejected.length > 0) {
+    const levels = ConfidenceLevelSchema.options;
+    confidence = levels[Math.max(0, levels.indexOf(confidence) - 1)];
+    logger.warn(`Rejected uncited LLM evidence`, {
+      changeEventId: changeEvent.id,
+      rejectedEvidence: rejected.map(item => item.value),
+    });
+  }
+
+  return {
+    ...interpretation,
+    confidence,
+    evidence,
+    impactedComponents: grounded(interpretation.impactedComponents) ?? [],
+    apiContractChanges: grounded(interpretation.apiContractChanges),
+    uiBehaviorChanges: grounded(interpretation.uiBehaviorChanges),
+    dependentTeams: grounded(interpretation.dependentTeams),
+    relatedSpecs: grounded(interpretation.relatedSpecs),
+    relatedDesigns: grounded(interpretation.relatedDesigns),
+    relatedTickets: grounded(interpretation.relatedTickets),
+  };
+}
+
+/**
+ * Merge static diff findings into an interpretation
+ * Breaking findings override a non-breaking classification; risks only ever go up.
+ */
+function applyDiffAnalysis(interpretation: CodeChangeInterpretation, analysis: DiffAnalysis): CodeChangeInterpretation {
+  if (analysis.findings.length === 0) {
+    return interpretation;
+  }
+
+  const cited = new Set(interpretation.evidence.map(item => item.value));
+  const rolloutRisk = ROLLOUT_RISKS[Math.max(
+    ROLLOUT_RISKS.indexOf(interpretation.rolloutRisk ?? 'low'),
+    ROLLOUT_RISKS.indexOf(analysis.rolloutRisk)
+  )];
+
+  return {
+    ...interpretation,
+    classification: analysis.breaking ? 'breaking' : interpretation.classification,
+    apiContractChanges: mergeIds(interpretation.apiContractChanges, analysis.apiContractChanges),
+    migrationRisk: Boolean(interpretation.migrationRisk) || analysis.migrationRisk,
+    rolloutRisk,
+    evidence: [...interpretation.evidence, ...analysis.evidence.filter(item => !cited.has(item.value))],
+  };
+}
+
+/**
+ * The change as the interpreter is shown it, without the diff
+ * Also what labeled examples record of the change they were made for.
+ */
+export function describeChangeInput(changeEvent: ChangeEvent): string {
+  const raw = changeEvent.rawChangeData ?? {};
+  const files = Array.isArray(raw.files) ? raw.files as Array<{ path: string }> : [];
+
+  return `Source: ${changeEvent.sourceTool} ${changeEvent.sourceResourceType} ${changeEvent.sourceResourceId}
+Changed by: ${changeEvent.changedBy}
+Title: ${typeof raw.title === 'string' ? raw.title : '(none)'}
+Description: ${typeof raw.body === 'string' ? raw.body : typeof raw.message === 'string' ? raw.message : '(none)'}
+Labels: ${Array.isArray(raw.labels) ? raw.labels.join(', ') : '(none)'}
+Changed files: ${files.map(file => file.path).join(', ') || '(none)'}`;
+}
+
+function buildInterpretationPrompt(changeEvent: ChangeEvent, examples: LabeledExample[] = []): string {
+  const raw = changeEvent.rawChangeData ?? {};
+  const files = Array.isArray(raw.files) ? raw.files as Array<{ path: string; patch?: string }> : [];
+  const patches = files
+    .map(file => (file.patch ? `--- ${file.path}\n${file.patch}` : `--- ${file.path}`))
+    .join('\n');
+  const diff = [changeEvent.diff, patches].filter(Boolean).join('\n').slice(0, MAX_PROMPT_DIFF_LENGTH);
+
+  const fewShot = examples.length > 0
+    ? `Reviewers corrected these earlier interpretations. Follow their judgement for similar changes.
+
+${examples.map((example, index) => `Example ${index + 1}:
+${example.input}
+Correct interpretation: ${JSON.stringify(example.label)}`).join('\n\n')}
+
+`
+    : '';
+
+  return `${fewShot}Interpret this change.
+
+${describeChangeInput(changeEvent)}
+
+Diff:
+${diff || '(none)'}
+
+Respond with JSON:
+{
+  "classification": one of ${JSON.stringify(ChangeClassificationSchema.options)},
+  "intent": one of ${JSON.stringify(ChangeIntentSchema.options)},
+  "confidence": "low" | "medium" | "high",
+  "summary": one sentence describing what changed,
+  "impact": one sentence on why it matters,
+  "suggestedAction": optional next step for the people notified,
+  "apiContractChanges": endpoints or exported functions whose contract changed,
+  "uiBehaviorChanges": user-visible behaviour that changed,
+  "migrationRisk": boolean,
+  "rolloutRisk": "low" | "medium" | "high",
+  "impactedComponents": modules, packages or services touched,
+  "affectedRoles": roles from ${JSON.stringify(RoleSchema.options)},
+  "evidence": [{ "type": "file-path" | "function-name" | "api-signature" | "import" | "comment" | "commit-message", "value": verbatim text from the change, "relevance": why it supports the interpretation }]
+}`;
+}
+
+function mergeIds(first: string[] = [], second: string[] = []): string[] {
+  return Array.from(new Set([...first, ...second]));
+}
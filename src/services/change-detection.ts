@@ -12,6 +12,14 @@
 
 import { ChangeEvent, SourceTool } from '../types/core';
 import { Cursor, CursorPollResult, CursorAdvance } from '../types/cursors';
+import { CursorRepository } from '../db/cursor-repository';
+import { GitHubIntegrationImpl } from '../integrations/github';
+import { GitLabIntegrationImpl } from '../integrations/gitlab';
+import { BitbucketIntegrationImpl } from '../integrations/bitbucket';
+import { notionWebhookToRawChanges } from '../integrations/notion';
+import { figmaWebhookToRawChanges } from '../integrations/figma';
+import { JiraIntegrationImpl } from '../integrations/jira';
+import { LinearIntegrationImpl } from '../integrations/linear';
 import { logger } from '../utils/logger';
 
 export interface ChangeDetectionService {
@@ -29,13 +37,19 @@ export interface ChangeDetectionService {
    * Poll tool for changes using cursor-based detection
    * Returns raw changes to be normalized
    */
-  pollWithCursor(cursor: Cursor): Promise<CursorPollResult>;
+  pollWithCursor(cursor: Cursor): Promise<CursorPollResult<RawChangeData>>;
 
   /**
    * Advance cursor after successful normalization
    * Idempotent - safe to call multiple times with same parameters
    */
   advanceCursor(advance: CursorAdvance): Promise<void>;
+
+  /**
+   * Rewind a cursor so changes from the given position are detected again
+   * Recorded in the cursor audit log like any other advance
+   */
+  replayCursor(cursorId: string, position: string, requestedBy?: string): Promise<Cursor>;
 }
 
 /**
@@ -48,15 +62,30 @@ export interface RawChangeData {
   resourceType: string;
   rawData: Record<string, unknown>;
   timestamp: Date;
+
+  /**
+   * Called once the change event normalized from this change is stored
+   * Integrations that remember what they already reported (Notion page
+   * snapshots) update that memory here, so a change the pipeline dropped
+   * is detected again.
+   */
+  onPersisted?: () => void;
 }
 
+/**
+ * Converts a verified webhook payload into raw changes
+ */
+export type WebhookExtractor = (payload: unknown) => Promise<RawChangeData[]>;
+
 /**
  * Implementation of ChangeDetectionService
  */
 export class ChangeDetectionServiceImpl implements ChangeDetectionService {
   constructor(
     private webhookVerifiers: Map<SourceTool, (payload: unknown, signature?: string) => Promise<boolean>>,
-    private cursorPollers: Map<SourceTool, (cursor: Cursor) => Promise<CursorPollResult>>
+    private cursorPollers: Map<SourceTool, (cursor: Cursor) => Promise<CursorPollResult<RawChangeData>>>,
+    private cursorRepository?: CursorRepository,
+    private webhookExtractors: Map<SourceTool, WebhookExtractor> = new Map()
   ) {}
 
   async processWebhook(
@@ -87,7 +116,7 @@ export class ChangeDetectionServiceImpl implements ChangeDetectionService {
     return rawChanges;
   }
 
-  async pollWithCursor(cursor: Cursor): Promise<CursorPollResult> {
+  async pollWithCursor(cursor: Cursor): Promise<CursorPollResult<RawChangeData>> {
     const poller = this.cursorPollers.get(cursor.sourceTool);
     if (!poller) {
       throw new Error(`No cursor poller configured for tool: ${cursor.sourceTool}`);
@@ -103,8 +132,20 @@ export class ChangeDetectionServiceImpl implements ChangeDetectionService {
     }
 
     try {
-      const result = await poller(cursor);
-      
+      const polled = await poller(cursor);
+
+      // A successful poll clears the error streak
+      const result: CursorPollResult<RawChangeData> = {
+        ...polled,
+        cursor: this.persistPollState({
+          ...polled.cursor,
+          lastPolledAt: new Date(),
+          consecutiveErrors: 0,
+          lastError: undefined,
+          lastErrorAt: undefined,
+        }),
+      };
+
       logger.info(`Polled cursor for ${cursor.sourceTool}`, {
         cursorId: cursor.id,
         changeCount: result.changes.length,
@@ -121,14 +162,15 @@ export class ChangeDetectionServiceImpl implements ChangeDetectionService {
       });
 
       // Update cursor with error state
-      const updatedCursor = {
+      const updatedCursor = this.persistPollState({
         ...cursor,
+        lastPolledAt: new Date(),
         consecutiveErrors: cursor.consecutiveErrors + 1,
         lastError: errorMessage,
         lastErrorAt: new Date(),
         // Deactivate cursor if too many consecutive errors
         isActive: cursor.consecutiveErrors + 1 < 10,
-      };
+      });
 
       return {
         cursor: updatedCursor,
@@ -139,19 +181,53 @@ export class ChangeDetectionServiceImpl implements ChangeDetectionService {
   }
 
   async advanceCursor(advance: CursorAdvance): Promise<void> {
-    // Implementation should:
-    // 1. Load current cursor
-    // 2. Verify cursor position hasn't advanced beyond this point (idempotency)
-    // 3. Update cursor position atomically
-    // 4. Log the advance for audit trail
-    
-    logger.info(`Advancing cursor`, {
+    if (!this.cursorRepository) {
+      throw new Error('No cursor repository configured - cannot advance cursor');
+    }
+
+    const { applied } = this.cursorRepository.advance(advance);
+
+    if (!applied) {
+      logger.debug(`Cursor advance already applied`, {
+        cursorId: advance.cursorId,
+        newPosition: advance.newPosition,
+        changeEventId: advance.changeEventId,
+      });
+      return;
+    }
+
+    logger.info(`Advanced cursor`, {
       cursorId: advance.cursorId,
       newPosition: advance.newPosition,
       changeEventId: advance.changeEventId,
     });
+  }
+
+  async replayCursor(cursorId: string, position: string, requestedBy?: string): Promise<Cursor> {
+    if (!this.cursorRepository) {
+      throw new Error('No cursor repository configured - cannot replay cursor');
+    }
+
+    const cursor = this.cursorRepository.replayFrom(cursorId, position, requestedBy);
+
+    logger.info(`Replaying cursor from position`, {
+      cursorId,
+      position,
+      requestedBy,
+    });
+
+    return cursor;
+  }
 
-    // TODO: Implement cursor persistence (database)
+  /**
+   * Save poll bookkeeping when a repository is configured
+   * Position is never touched here - only advances move a cursor
+   */
+  private persistPollState(cursor: Cursor): Cursor {
+    if (!this.cursorRepository) {
+      return cursor;
+    }
+    return this.cursorRepository.recordPoll(cursor);
   }
 
   /**
@@ -162,16 +238,32 @@ export class ChangeDetectionServiceImpl implements ChangeDetectionService {
     sourceTool: SourceTool,
     payload: unknown
   ): Promise<RawChangeData[]> {
-    // Tool-specific extraction logic
-    // This is a placeholder - each tool integration will implement its own extractor
-    
+    // Verifiers see the raw body; extractors work on parsed JSON
+    if (typeof payload === 'string' || Buffer.isBuffer(payload)) {
+      payload = JSON.parse(payload.toString());
+    }
+
+    // Configured extractors take precedence over the built-in ones
+    const extractor = this.webhookExtractors.get(sourceTool);
+    if (extractor) {
+      return extractor(payload);
+    }
+
     switch (sourceTool) {
       case 'github':
         return this.extractGithubWebhookChanges(payload);
+      case 'gitlab':
+        return new GitLabIntegrationImpl().extractRawChanges(payload);
+      case 'bitbucket':
+        return new BitbucketIntegrationImpl().extractRawChanges(payload);
       case 'notion':
         return this.extractNotionWebhookChanges(payload);
       case 'figma':
         return this.extractFigmaWebhookChanges(payload);
+      case 'jira':
+        return new JiraIntegrationImpl().extractRawChanges(payload);
+      case 'linear':
+        return new LinearIntegrationImpl().extractRawChanges(payload);
       default:
         logger.warn(`No webhook extractor for ${sourceTool}`, { payload });
         return [];
@@ -179,18 +271,18 @@ export class ChangeDetectionServiceImpl implements ChangeDetectionService {
   }
 
   private async extractGithubWebhookChanges(payload: unknown): Promise<RawChangeData[]> {
-    // TODO: Implement GitHub webhook extraction
-    // Extract: PR opened/updated/merged, commits, releases, etc.
-    return [];
+    // Payload parsing is stateless - no credentials needed
+    return new GitHubIntegrationImpl().extractRawChanges(payload);
   }
 
   private async extractNotionWebhookChanges(payload: unknown): Promise<RawChangeData[]> {
-    // TODO: Implement Notion webhook extraction
-    return [];
+    // Without credentials only the event metadata is available; configure
+    // createNotionWebhookExtractor to fetch the page and attach a diff
+    return notionWebhookToRawChanges(payload);
   }
 
   private async extractFigmaWebhookChanges(payload: unknown): Promise<RawChangeData[]> {
-    // TODO: Implement Figma webhook extraction
-    return [];
+    // Version updates need an API call to diff; configure createFigmaWebhookExtractor for that
+    return figmaWebhookToRawChanges(payload);
   }
 }
@@ -9,7 +9,9 @@
 
 import { ChangeEvent, SourceTool } from '../types/core';
 import { RawChangeData } from './change-detection';
-import { PullRequest, Commit, CodeChangeInterpretation } from '../types/code-changes';
+import { PullRequest, PullRequestReview, Commit, Release, CodeChangeInterpretation } from '../types/code-changes';
+import { Issue, IssueFieldChange, LinkedPullRequest } from '../types/issues';
+import { FigmaNameChanges } from '../integrations/figma';
 import { logger } from '../utils/logger';
 import { randomUUID } from 'crypto';
 
@@ -51,24 +53,52 @@ export class ChangeNormalizationServiceImpl implements ChangeNormalizationServic
  * Tool-specific normalizers
  */
 export class Normalizers {
+  /**
+   * Normalize any raw change produced by a Git platform integration
+   * (GitHub, GitLab, Bitbucket all emit the same PullRequest/Commit/Release shapes)
+   */
+  static async normalizeGitChange(
+    raw: RawChangeData,
+    detectionMethod: 'webhook' | 'cursor-polling'
+  ): Promise<ChangeEvent> {
+    switch (raw.resourceType) {
+      case 'pull_request':
+        return Normalizers.normalizeGithubPR(raw.rawData.pullRequest as PullRequest, detectionMethod, raw.tool);
+      case 'commit':
+        return Normalizers.normalizeGithubCommit(raw.rawData.commit as Commit, detectionMethod, raw.tool);
+      case 'pull_request_review':
+        return Normalizers.normalizeGithubReview(raw.rawData.review as PullRequestReview, detectionMethod, raw.tool);
+      case 'release':
+        return Normalizers.normalizeGithubRelease(raw.rawData.release as Release, detectionMethod, raw.tool);
+      default:
+        throw new Error(`Unsupported ${raw.tool} resource type: ${raw.resourceType}`);
+    }
+  }
+
   /**
    * Normalize GitHub PR into ChangeEvent
    */
   static async normalizeGithubPR(
     pr: PullRequest,
-    detectionMethod: 'webhook' | 'cursor-polling'
+    detectionMethod: 'webhook' | 'cursor-polling',
+    sourceTool: SourceTool = 'github'
   ): Promise<ChangeEvent> {
     return {
       id: randomUUID(),
       changedBy: pr.author,
       changedAt: pr.updatedAt,
-      sourceTool: 'github',
+      sourceTool,
       sourceResourceId: pr.id,
       sourceResourceUrl: pr.url,
       sourceResourceType: 'pull_request',
       diff: pr.files.map(f => `${f.path}: +${f.additions}/-${f.deletions}`).join('\n'),
       rawChangeData: {
         number: pr.number,
+        title: pr.title,
+        body: pr.body,
+        repository: pr.repository,
+        baseBranch: pr.baseBranch,
+        headBranch: pr.headBranch,
         state: pr.state,
         files: pr.files,
         labels: pr.labels,
@@ -77,7 +107,7 @@ export class Normalizers {
       },
       relatedResources: [
         ...(pr.linkedIssues?.map(issue => ({
-          tool: 'github' as SourceTool,
+          tool: sourceTool,
           resourceId: issue,
           resourceUrl: undefined,
         })) || []),
@@ -102,13 +132,14 @@ export class Normalizers {
    */
   static async normalizeGithubCommit(
     commit: Commit,
-    detectionMethod: 'webhook' | 'cursor-polling'
+    detectionMethod: 'webhook' | 'cursor-polling',
+    sourceTool: SourceTool = 'github'
   ): Promise<ChangeEvent> {
     return {
       id: randomUUID(),
       changedBy: commit.author,
       changedAt: commit.createdAt,
-      sourceTool: 'github',
+      sourceTool,
       sourceResourceId: commit.id,
       sourceResourceUrl: commit.url,
       sourceResourceType: 'commit',
@@ -124,6 +155,118 @@ export class Normalizers {
     };
   }
 
+  /**
+   * Normalize GitHub PR review into ChangeEvent
+   */
+  static async normalizeGithubReview(
+    review: PullRequestReview,
+    detectionMethod: 'webhook' | 'cursor-polling',
+    sourceTool: SourceTool = 'github'
+  ): Promise<ChangeEvent> {
+    return {
+      id: randomUUID(),
+      changedBy: review.reviewer,
+      changedAt: review.submittedAt,
+      sourceTool,
+      sourceResourceId: review.id,
+      sourceResourceUrl: review.url,
+      sourceResourceType: 'pull_request_review',
+      rawChangeData: {
+        state: review.state,
+        body: review.body,
+        number: review.pullRequest.number,
+        title: review.pullRequest.title,
+        repository: review.pullRequest.repository,
+        author: review.pullRequest.author,
+      },
+      relatedResources: [{
+        tool: sourceTool,
+        resourceId: review.pullRequest.id,
+        resourceUrl: review.pullRequest.url,
+      }],
+      normalizedAt: new Date(),
+      detectionMethod,
+    };
+  }
+
+  /**
+   * Normalize GitHub release into ChangeEvent
+   */
+  static async normalizeGithubRelease(
+    release: Release,
+    detectionMethod: 'webhook' | 'cursor-polling',
+    sourceTool: SourceTool = 'github'
+  ): Promise<ChangeEvent> {
+    return {
+      id: randomUUID(),
+      changedBy: release.author,
+      changedAt: release.publishedAt ?? release.createdAt,
+      sourceTool,
+      sourceResourceId: release.id,
+      sourceResourceUrl: release.url,
+      sourceResourceType: 'release',
+      version: release.tagName,
+      rawChangeData: {
+        name: release.name,
+        body: release.body,
+        repository: release.repository,
+        isDraft: release.isDraft,
+        isPrerelease: release.isPrerelease,
+      },
+      normalizedAt: new Date(),
+      detectionMethod,
+    };
+  }
+
+  /**
+   * Normalize an issue tracker change (Jira, Linear) into ChangeEvent
+   */
+  static async normalizeIssueChange(
+    raw: RawChangeData,
+    detectionMethod: 'webhook' | 'cursor-polling'
+  ): Promise<ChangeEvent> {
+    const issue = raw.rawData.issue as Issue;
+    const changes = (raw.rawData.changes as IssueFieldChange[]) || [];
+    const linkedPullRequests = (raw.rawData.linkedPullRequests as LinkedPullRequest[]) || [];
+    const isNewEpic = raw.rawData.event === 'epic_created';
+
+    const tags = changes.map(change => `${change.field}-change`);
+    const stateChange = changes.find(change => change.field === 'state');
+    if (stateChange?.to) tags.push(`state:${stateChange.to}`);
+    if (isNewEpic) tags.push('new-epic');
+
+    return {
+      id: randomUUID(),
+      changedBy: (raw.rawData.changedBy as string) || 'unknown',
+      changedAt: raw.timestamp,
+      sourceTool: raw.tool,
+      sourceResourceId: issue.key,
+      sourceResourceUrl: issue.url,
+      sourceResourceType: 'issue',
+      diff: isNewEpic
+        ? `+ ${issue.issueType.toLowerCase()}: ${issue.title}`
+        : changes.map(change => `~ ${change.field}: ${change.from ?? '(none)'} → ${change.to ?? '(none)'}`).join('\n'),
+      rawChangeData: {
+        event: raw.rawData.event,
+        key: issue.key,
+        title: issue.title,
+        issueType: issue.issueType,
+        isEpic: issue.isEpic,
+        state: issue.state,
+        stateCategory: issue.stateCategory,
+        priority: issue.priority,
+        assignee: issue.assignee,
+        project: issue.project,
+        labels: issue.labels,
+        changes,
+      },
+      tags,
+      relatedResources: linkedPullRequests.length > 0 ? linkedPullRequests : undefined,
+      normalizedAt: new Date(),
+      detectionMethod,
+    };
+  }
+
   /**
    * Normalize Notion page update into ChangeEvent
    */
@@ -131,16 +274,20 @@ export class Normalizers {
     raw: RawChangeData,
     detectionMethod: 'webhook' | 'cursor-polling'
   ): Promise<ChangeEvent> {
-    const data = raw.rawData;
-    
+    const { diff, tags, ...data } = raw.rawData;
+
     return {
       id: randomUUID(),
-      changedBy: (data.user_id as string) || 'unknown',
+      changedBy: (data.lastEditedBy as string) || 'unknown',
       changedAt: raw.timestamp,
       sourceTool: 'notion',
       sourceResourceId: raw.resourceId,
+      sourceResourceUrl: (data.url as string) || undefined,
       sourceResourceType: 'page',
+      diff: (diff as string) || undefined,
+      version: (data.lastEditedTime as string) || undefined,
       rawChangeData: data,
+      tags: (tags as string[] | undefined)?.length ? tags as string[] : undefined,
       normalizedAt: new Date(),
       detectionMethod,
     };
@@ -153,17 +300,27 @@ export class Normalizers {
     raw: RawChangeData,
     detectionMethod: 'webhook' | 'cursor-polling'
   ): Promise<ChangeEvent> {
-    const data = raw.rawData;
-    
+    const { diff, ...data } = raw.rawData;
+    const components = data.components as FigmaNameChanges | undefined;
+    const styles = data.styles as FigmaNameChanges | undefined;
+
+    // Events that touch published names are about components; other saves are about the file
+    const changedNames = [components, styles].some(changes =>
+      changes && (changes.added.length + changes.removed.length + changes.renamed.length + changes.modified.length) > 0
+    );
+
     return {
       id: randomUUID(),
-      changedBy: (data.triggered_by?.handle as string) || 'unknown',
+      changedBy: (data.triggeredBy as string) || 'unknown',
       changedAt: raw.timestamp,
       sourceTool: 'figma',
       sourceResourceId: raw.resourceId,
-      sourceResourceType: 'file',
-      version: (data.version_id as string) || undefined,
+      sourceResourceUrl: (data.url as string) || undefined,
+      sourceResourceType: changedNames ? 'component' : 'file',
+      diff: (diff as string) || undefined,
+      version: (data.versionId as string) || undefined,
       rawChangeData: data,
+      tags: [data.event === 'LIBRARY_PUBLISH' ? 'library-publish' : 'version-update'],
       normalizedAt: new Date(),
       detectionMethod,
     };
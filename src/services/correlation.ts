@@ -0,0 +1,482 @@
+/**
+ * Change Correlation Service
+ *
+ * Links change events across tools after normalization:
+ * - Issue keys in branch names, commit messages, PR titles/bodies (LIN-123, PAY-42)
+ * - URLs embedded in PR bodies and specs (GitHub/GitLab/Bitbucket PRs, Jira, Linear)
+ * - Figma file links and Notion page links
+ *
+ * Every correlated event is indexed by the resources it is and the resources it
+ * mentions, so a PR that mentions LIN-123 is linked to the LIN-123 state change
+ * and to the spec page that also links LIN-123.
+ *
+ * Correlation never crosses company groups: events are indexed and looked up
+ * under the group they were detected for.
+ */
+
+import { ChangeEvent, SourceTool } from '../types/core';
+import { CorrelationIndex, IndexedChangeEvent } from '../db/correlation-repository';
+import { logger } from '../utils/logger';
+
+export type RelatedResource = NonNullable<ChangeEvent['relatedResources']>[number];
+
+/**
+ * Something a change event mentions, keyed so mentions and identities can be matched
+ * Keys: "issue:LIN-123", "notion:<page uuid>", "figma:<file key>", "url:<normalized url>"
+ */
+export interface ResourceReference {
+  key: string;
+  kind: 'issue' | 'spec' | 'design' | 'pull-request' | 'link';
+  tool: SourceTool;
+  resourceId: string;
+  resourceUrl?: string;
+}
+
+/**
+ * A previously seen change event that shares a resource with the current one
+ */
+export interface RelatedChangeEvent extends Omit<IndexedChangeEvent, 'companyGroupId' | 'keys'> {
+  sharedKeys: string[];
+}
+
+export interface CorrelationResult {
+  changeEvent: ChangeEvent; // relatedResources filled in
+  references: ResourceReference[];
+  relatedEvents: RelatedChangeEvent[];
+  summary?: string; // e.g. 'Implements LIN-123; the spec "Checkout" changed yesterday'
+}
+
+export interface CorrelationService {
+  /**
+   * Find references in a normalized event, link it to earlier events of the
+   * same company group and index it
+   */
+  correlate(companyGroupId: string, changeEvent: ChangeEvent): Promise<CorrelationResult>;
+}
+
+export interface CorrelationConfig {
+  /**
+   * Known issue key prefixes and their tracker, e.g. { LIN: 'linear', PAY: 'jira' }
+   * When set, only these prefixes count as issue keys (cuts "UTF-8" style false positives)
+   */
+  issueKeyPrefixes?: Record<string, SourceTool>;
+  windowDays?: number; // How far back to look for related events (default 30)
+}
+
+/**
+ * In-memory CorrelationIndex
+ * Entries older than the retention window (relative to the newest write) are pruned on write
+ */
+export class InMemoryCorrelationIndex implements CorrelationIndex {
+  private entries: IndexedChangeEvent[] = [];
+
+  constructor(private retentionDays: number = 30) {}
+
+  record(entry: IndexedChangeEvent): void {
+    const cutoff = entry.changedAt.getTime() - this.retentionDays * DAY_MS;
+    this.entries = this.entries.filter(existing =>
+      existing.changeEventId !== entry.changeEventId &&
+      (existing.companyGroupId !== entry.companyGroupId || existing.changedAt.getTime() >= cutoff)
+    );
+    this.entries.push(entry);
+  }
+
+  findByKeys(companyGroupId: string, keys: string[], since: Date): IndexedChangeEvent[] {
+    const wanted = new Set(keys);
+    return this.entries.filter(entry =>
+      entry.companyGroupId === companyGroupId &&
+      entry.changedAt >= since &&
+      entry.keys.some(key => wanted.has(key))
+    );
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_WINDOW_DAYS = 30;
+
+// Common uppercase-dash-number tokens that are not issue keys
+const NON_ISSUE_PREFIXES = new Set(['UTF', 'ISO', 'SHA', 'RFC', 'HTTP', 'TLS', 'SSL', 'AES', 'RSA', 'CVE', 'GPT', 'ES', 'X']);
+
+const ISSUE_KEY_PATTERN = /\b([A-Za-z][A-Za-z0-9]{1,9})-(\d{1,6})\b/g;
+const URL_PATTERN = /https?:\/\/[^\s<>()"'\]]+/g;
+
+/**
+ * Implementation of CorrelationService
+ */
+export class CorrelationServiceImpl implements CorrelationService {
+  constructor(
+    private index: CorrelationIndex = new InMemoryCorrelationIndex(),
+    private config: CorrelationConfig = {}
+  ) {}
+
+  async correlate(companyGroupId: string, changeEvent: ChangeEvent): Promise<CorrelationResult> {
+    const references = extractReferences(changeEvent, this.config);
+    const identity = identityKeys(changeEvent);
+    const keys = unique([...identity, ...references.map(ref => ref.key)]);
+
+    const windowDays = this.config.windowDays ?? DEFAULT_WINDOW_DAYS;
+    const since = new Date(changeEvent.changedAt.getTime() - windowDays * DAY_MS);
+    const matches = this.index.findByKeys(companyGroupId, keys, since)
+      // Earlier events on the same resource are history, not correlations
+      .filter(entry => !(entry.sourceTool === changeEvent.sourceTool && entry.sourceResourceId === changeEvent.sourceResourceId))
+      .filter(entry => entry.changeEventId !== changeEvent.id);
+
+    // Keep the latest event per related resource
+    const latestByResource = new Map<string, RelatedChangeEvent>();
+    for (const entry of matches) {
+      const resourceKey = `${entry.sourceTool}:${entry.sourceResourceId}`;
+      const existing = latestByResource.get(resourceKey);
+      if (!existing || existing.changedAt < entry.changedAt) {
+        const { keys: entryKeys, companyGroupId: _group, ...rest } = entry;
+        latestByResource.set(resourceKey, { ...rest, sharedKeys: entryKeys.filter(key => keys.includes(key)) });
+      }
+    }
+    const relatedEvents = [...latestByResource.values()]
+      .sort((a, b) => b.changedAt.getTime() - a.changedAt.getTime());
+
+    this.index.record({
+      companyGroupId,
+      changeEventId: changeEvent.id,
+      sourceTool: changeEvent.sourceTool,
+      sourceResourceType: changeEvent.sourceResourceType,
+      sourceResourceId: changeEvent.sourceResourceId,
+      sourceResourceUrl: changeEvent.sourceResourceUrl,
+      title: eventTitle(changeEvent),
+      changedAt: changeEvent.changedAt,
+      keys,
+    });
+
+    const relatedResources = mergeRelatedResources(changeEvent.relatedResources ?? [], [
+      ...references.map(ref => resolveReferenceTool(ref, relatedEvents)).map(ref => ({
+        tool: ref.tool,
+        resourceId: ref.resourceId,
+        resourceUrl: ref.resourceUrl,
+      })),
+      ...relatedEvents.map(related => ({
+        tool: related.sourceTool,
+        resourceId: related.sourceResourceId,
+        resourceUrl: related.sourceResourceUrl,
+      })),
+    ]);
+
+    if (relatedEvents.length > 0) {
+      logger.info(`Correlated change event`, {
+        changeEventId: changeEvent.id,
+        relatedEvents: relatedEvents.map(related => related.changeEventId),
+      });
+    }
+
+    return {
+      changeEvent: {
+        ...changeEvent,
+        relatedResources: relatedResources.length > 0 ? relatedResources : undefined,
+      },
+      references,
+      relatedEvents,
+      summary: describeCorrelation(changeEvent, references, relatedEvents),
+    };
+  }
+}
+
+/**
+ * Find issue keys and tool links mentioned by a change event
+ * Only human-written text is scanned (titles, bodies, branches, messages, spec text);
+ * code diffs are skipped because they are full of key-like tokens.
+ */
+export function extractReferences(changeEvent: ChangeEvent, config: CorrelationConfig = {}): ResourceReference[] {
+  const data = changeEvent.rawChangeData ?? {};
+  const references = new Map<string, ResourceReference>();
+  const add = (reference: ResourceReference | null) => {
+    if (reference && !references.has(reference.key)) references.set(reference.key, reference);
+  };
+
+  const pullRequest = asObject(data.pullRequest);
+  const commit = asObject(data.commit);
+  const texts = [
+    data.title, data.body, data.message, data.description,
+    pullRequest?.title, pullRequest?.body, commit?.message,
+  ];
+  if (changeEvent.sourceTool === 'notion' || changeEvent.sourceTool === 'jira' || changeEvent.sourceTool === 'linear') {
+    texts.push(changeEvent.diff);
+  }
+  const branches = [data.headBranch, data.branch, pullRequest?.headBranch, commit?.branch];
+
+  for (const text of texts.filter(isString)) {
+    for (const url of text.match(URL_PATTERN) ?? []) {
+      add(referenceFromUrl(url));
+    }
+    // URLs were handled above; strip them so path segments are not read as keys
+    for (const key of findIssueKeys(text.replace(URL_PATTERN, ' '), config, false)) {
+      add(issueReference(key, config));
+    }
+  }
+
+  // Branch names are usually lowercased: feature/lin-123-saved-searches
+  for (const branch of branches.filter(isString)) {
+    for (const key of findIssueKeys(branch, config, true)) {
+      add(issueReference(key, config));
+    }
+  }
+
+  // Links the source tool already knows about (e.g. PRs attached to an issue)
+  for (const resource of changeEvent.relatedResources ?? []) {
+    if (resource.resourceUrl) add(referenceFromUrl(resource.resourceUrl));
+  }
+
+  // An event never references itself
+  const own = new Set(identityKeys(changeEvent));
+  return [...references.values()].filter(reference => !own.has(reference.key));
+}
+
+/**
+ * Keys that identify the resource a change event is about
+ */
+export function identityKeys(changeEvent: ChangeEvent): string[] {
+  const keys: string[] = [];
+
+  switch (changeEvent.sourceTool) {
+    case 'jira':
+    case 'linear':
+      keys.push(`issue:${changeEvent.sourceResourceId.toUpperCase()}`);
+      break;
+    case 'notion':
+      keys.push(`notion:${normalizeNotionId(changeEvent.sourceResourceId)}`);
+      break;
+    case 'figma':
+      keys.push(`figma:${changeEvent.sourceResourceId}`);
+      break;
+  }
+
+  if (changeEvent.sourceResourceUrl) {
+    const urlReference = referenceFromUrl(changeEvent.sourceResourceUrl);
+    keys.push(urlReference?.key ?? `url:${normalizeUrl(changeEvent.sourceResourceUrl)}`);
+  }
+
+  return unique(keys);
+}
+
+/**
+ * Split related resources into the CodeChangeInterpretation buckets
+ */
+export function categorizeRelatedResources(relatedResources: RelatedResource[] = []): {
+  relatedSpecs: string[];
+  relatedDesigns: string[];
+  relatedTickets: string[];
+} {
+  const pick = (tools: SourceTool[]) => unique(
+    relatedResources.filter(resource => tools.includes(resource.tool)).map(resource => resource.resourceId)
+  );
+
+  return {
+    relatedSpecs: pick(['notion']),
+    relatedDesigns: pick(['figma']),
+    relatedTickets: pick(['jira', 'linear']),
+  };
+}
+
+function referenceFromUrl(rawUrl: string): ResourceReference | null {
+  const url = rawUrl.replace(/[.,;:!?]+$/, '');
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+
+  const host = parsed.hostname.replace(/^www\./, '');
+  const path = parsed.pathname;
+
+  if (host === 'figma.com') {
+    const match = path.match(/^\/(?:file|design|proto|board)\/([A-Za-z0-9]+)/);
+    if (match) {
+      return { key: `figma:${match[1]}`, kind: 'design', tool: 'figma', resourceId: match[1], resourceUrl: url };
+    }
+  }
+
+  if (host === 'notion.so' || host.endsWith('.notion.site') || host.endsWith('.notion.so')) {
+    const match = path.match(/([0-9a-f]{32})$/i) ?? path.match(/([0-9a-f]{8}-(?:[0-9a-f]{4}-){3}[0-9a-f]{12})$/i);
+    if (match) {
+      const id = normalizeNotionId(match[1]);
+      return { key: `notion:${id}`, kind: 'spec', tool: 'notion', resourceId: id, resourceUrl: url };
+    }
+  }
+
+  if (host === 'linear.app') {
+    const match = path.match(/\/issue\/([A-Za-z][A-Za-z0-9]*-\d+)/);
+    if (match) {
+      const key = match[1].toUpperCase();
+      return { key: `issue:${key}`, kind: 'issue', tool: 'linear', resourceId: key, resourceUrl: url };
+    }
+  }
+
+  if (host.endsWith('.atlassian.net')) {
+    const match = path.match(/\/browse\/([A-Z][A-Z0-9]*-\d+)/);
+    if (match) {
+      return { key: `issue:${match[1]}`, kind: 'issue', tool: 'jira', resourceId: match[1], resourceUrl: url };
+    }
+  }
+
+  const pullRequestTool: Record<string, SourceTool> = {
+    'github.com': 'github',
+    'gitlab.com': 'gitlab',
+    'bitbucket.org': 'bitbucket',
+  };
+  if (host in pullRequestTool && /\/(pull|merge_requests|pull-requests)\/\d+/.test(path)) {
+    const normalized = normalizeUrl(url).replace(/(\/(?:pull|merge_requests|pull-requests)\/\d+).*$/, '$1');
+    return { key: `url:${normalized}`, kind: 'pull-request', tool: pullRequestTool[host], resourceId: normalized, resourceUrl: normalized };
+  }
+
+  return null;
+}
+
+function findIssueKeys(text: string, config: CorrelationConfig, caseInsensitive: boolean): string[] {
+  const keys: string[] = [];
+  for (const match of text.matchAll(ISSUE_KEY_PATTERN)) {
+    const prefix = match[1];
+    const upperPrefix = prefix.toUpperCase();
+
+    // In prose only uppercase keys count; branch names are matched case-insensitively
+    if (!caseInsensitive && prefix !== upperPrefix) continue;
+    if (config.issueKeyPrefixes) {
+      if (!(upperPrefix in config.issueKeyPrefixes)) continue;
+    } else if (NON_ISSUE_PREFIXES.has(upperPrefix) || !/^[A-Za-z]+$/.test(prefix)) {
+      continue;
+    }
+
+    keys.push(`${upperPrefix}-${match[2]}`);
+  }
+  return keys;
+}
+
+function issueReference(key: string, config: CorrelationConfig): ResourceReference {
+  const prefix = key.split('-')[0];
+  return {
+    key: `issue:${key}`,
+    kind: 'issue',
+    tool: config.issueKeyPrefixes?.[prefix] ?? 'other',
+    resourceId: key,
+  };
+}
+
+/**
+ * Issue keys alone do not say which tracker they belong to; an indexed event for the key does
+ */
+function resolveReferenceTool(reference: ResourceReference, relatedEvents: RelatedChangeEvent[]): ResourceReference {
+  if (reference.tool !== 'other') return reference;
+
+  const owner = relatedEvents.find(related =>
+    (related.sourceTool === 'jira' || related.sourceTool === 'linear') &&
+    related.sourceResourceId.toUpperCase() === reference.resourceId
+  );
+  return owner
+    ? { ...reference, tool: owner.sourceTool, resourceUrl: reference.resourceUrl ?? owner.sourceResourceUrl }
+    : reference;
+}
+
+function mergeRelatedResources(existing: RelatedResource[], additions: RelatedResource[]): RelatedResource[] {
+  const merged: RelatedResource[] = [];
+  const seen = new Set<string>();
+
+  for (const resource of [...existing, ...additions]) {
+    // The same PR can arrive as a node ID from one source and a URL from another
+    const keys = [`${resource.tool}:${resource.resourceId}`];
+    if (resource.resourceUrl) keys.push(`url:${normalizeUrl(resource.resourceUrl)}`);
+    if (keys.some(key => seen.has(key))) continue;
+    // Drop an unresolved issue key once its tracker is known
+    if (resource.tool === 'other' && additions.some(other => other.tool !== 'other' && other.resourceId === resource.resourceId)) continue;
+
+    keys.forEach(key => seen.add(key));
+    merged.push(resource);
+  }
+
+  return merged;
+}
+
+/**
+ * One line of cross-tool context for notifications
+ */
+function describeCorrelation(
+  changeEvent: ChangeEvent,
+  references: ResourceReference[],
+  relatedEvents: RelatedChangeEvent[]
+): string | undefined {
+  const parts: string[] = [];
+  const isCode = ['pull_request', 'commit'].includes(changeEvent.sourceResourceType);
+
+  const isIssueEvent = (related: RelatedChangeEvent) => related.sourceTool === 'jira' || related.sourceTool === 'linear';
+  const issueKeys = references.filter(ref => ref.kind === 'issue').map(ref => ref.resourceId);
+  if (issueKeys.length > 0) {
+    const phrases = issueKeys.map(key => {
+      const issueEvent = relatedEvents.find(related => isIssueEvent(related) && related.sourceResourceId === key);
+      return issueEvent ? `${key} (updated ${relativeDay(issueEvent.changedAt, changeEvent.changedAt)})` : key;
+    });
+    parts.push(`${isCode ? 'Implements' : 'References'} ${phrases.join(', ')}`);
+  }
+
+  for (const related of relatedEvents) {
+    const when = relativeDay(related.changedAt, changeEvent.changedAt);
+    const name = related.title ? ` "${related.title}"` : '';
+    if (isIssueEvent(related) && issueKeys.includes(related.sourceResourceId)) continue;
+
+    switch (related.sourceTool) {
+      case 'notion':
+        parts.push(`the spec${name} changed ${when}`);
+        break;
+      case 'figma':
+        parts.push(`the design${name} changed ${when}`);
+        break;
+      case 'jira':
+      case 'linear':
+        parts.push(`${related.sourceResourceId} was updated ${when}`);
+        break;
+      default:
+        parts.push(`${related.sourceTool} ${related.sourceResourceType.replace('_', ' ')}${name} changed ${when}`);
+    }
+  }
+
+  if (parts.length === 0) return undefined;
+  const sentence = parts.join('; ');
+  return sentence.charAt(0).toUpperCase() + sentence.slice(1);
+}
+
+function relativeDay(then: Date, now: Date): string {
+  const startOfDay = (date: Date) => Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  const days = Math.round((startOfDay(now) - startOfDay(then)) / DAY_MS);
+
+  if (days <= 0) return 'today';
+  if (days === 1) return 'yesterday';
+  return `${days} days ago`;
+}
+
+function eventTitle(changeEvent: ChangeEvent): string | undefined {
+  const data = changeEvent.rawChangeData ?? {};
+  const title = data.title ?? data.fileName ?? asObject(data.pullRequest)?.title;
+  return isString(title) && title.length > 0 ? title : undefined;
+}
+
+function normalizeNotionId(id: string): string {
+  const hex = id.replace(/-/g, '').toLowerCase();
+  if (!/^[0-9a-f]{32}$/.test(hex)) return id;
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+function normalizeUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.protocol}//${parsed.hostname.replace(/^www\./, '')}${parsed.pathname.replace(/\/$/, '')}`;
+  } catch {
+    return url;
+  }
+}
+
+function asObject(value: unknown): Record<string, unknown> | undefined {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : undefined;
+}
+
+function isString(value: unknown): value is string {
+  return typeof value === 'string';
+}
+
+function unique<T>(values: T[]): T[] {
+  return [...new Set(values)];
+}
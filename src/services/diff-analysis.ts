@@ -0,0 +1,656 @@
+/**
+ * Static Diff Analysis
+ *
+ * Deterministic detection over FileDiff patches, so contract and rollout
+ * risks are flagged even without an LLM:
+ * - Exported TypeScript signatures added, removed or changed
+ * - OpenAPI paths and GraphQL types/fields added or removed
+ * - SQL migration files (and destructive statements in them)
+ * - Environment variables introduced
+ * - Dependency manifest changes (major version bumps)
+ * - Feature flags introduced, removed or toggled
+ *
+ * Every finding cites the diff line it came from, so its evidence is
+ * grounded by construction.
+ */
+
+import { ChangeEvent } from '../types/core';
+import { CodeChangeInterpretation, FileDiff } from '../types/code-changes';
+import { EvidenceItem } from './evidence';
+
+export type DiffFindingKind =
+  | 'exported-signature'
+  | 'openapi'
+  | 'graphql'
+  | 'sql-migration'
+  | 'env-var'
+  | 'dependency'
+  | 'feature-flag';
+
+export interface DiffFinding {
+  kind: DiffFindingKind;
+  path: string;
+  subject: string; // Export, endpoint, field, table, variable, package or flag name
+  description: string; // e.g. 'Removed export createOrder'
+  breaking: boolean;
+  line: string; // Diff line (without its +/- marker) the finding was read from
+}
+
+export interface DiffAnalysis {
+  findings: DiffFinding[];
+  breaking: boolean;
+  apiContractChanges: string[];
+  migrationRisk: boolean;
+  rolloutRisk: NonNullable<CodeChangeInterpretation['rolloutRisk']>;
+  evidence: EvidenceItem[];
+}
+
+interface PatchLines {
+  added: string[];
+  removed: string[];
+}
+
+/**
+ * A hunk as it read before and after the change; context lines are on both sides
+ */
+interface PatchHunk {
+  before: string[];
+  after: string[];
+}
+
+/**
+ * An export statement as a whole, however many lines it spans
+ */
+interface ExportStatement {
+  keyword: string;
+  text: string; // The statement's lines, trimmed and joined
+  signature: string; // Up to the body of a function, class or interface
+}
+
+const TS_FILE = /\.(ts|tsx|mts|cts)$/;
+const TS_EXPORT = /^export\s+(?:declare\s+)?(?:default\s+)?(?:abstract\s+)?(?:async\s+)?(function\*?|const|let|var|class|interface|type|enum)\s+([A-Za-z_$][\w$]*)/;
+const BODY_KEYWORDS = new Set(['function', 'function*', 'class', 'interface']);
+const MAX_STATEMENT_LINES = 40;
+
+const OPENAPI_FILE = /(openapi|swagger)[^/]*\.(ya?ml|json)$/i;
+const OPENAPI_PATH = /^\s*["']?(\/[^"'\s:]*)["']?\s*:/;
+
+const GRAPHQL_FILE = /\.(graphql|gql|graphqls)$/;
+const GRAPHQL_TYPE = /^\s*(?:extend\s+)?(type|input|interface|enum|union|scalar)\s+([A-Za-z_]\w*)/;
+const GRAPHQL_FIELD = /^\s*([A-Za-z_]\w*)\s*(\([^)]*\))?\s*:\s*([^#]+?)\s*(?:#.*)?$/;
+
+const MIGRATION_FILE = /(^|\/)(migrations?|migrate|db\/changelog)\/|\.sql$/i;
+const DESTRUCTIVE_SQL = /\b(DROP\s+(TABLE|COLUMN|INDEX|CONSTRAINT|TYPE|VIEW)|ALTER\s+COLUMN\s+\S+\s+(SET\s+DATA\s+)?TYPE|RENAME\s+(COLUMN|TO)|TRUNCATE|SET\s+NOT\s+NULL)\b/i;
+const SQL_TABLE = /\b(?:TABLE|INTO|UPDATE|FROM)\s+(?:IF\s+(?:NOT\s+)?EXISTS\s+)?["`]?([\w.]+)["`]?/i;
+
+const ENV_FILE = /(^|\/)\.env(\.[\w-]+)?$|(^|\/)[\w-]*\.env$/;
+const ENV_ASSIGNMENT = /^\s*(?:export\s+)?([A-Z][A-Z0-9_]*)\s*=/;
+const ENV_REFERENCE = /(?:process\.env|import\.meta\.env|Deno\.env\.get\(|os\.environ(?:\.get\()?|os\.getenv\(|ENV\[|System\.getenv\()\s*\.?\[?\s*["']?([A-Z][A-Z0-9_]*)/g;
+
+const DEPENDENCY_MANIFESTS: Array<{ file: RegExp; entry: RegExp }> = [
+  { file: /(^|\/)package\.json$/, entry: /^\s*"(@?[\w./-]+)"\s*:\s*"([~^>=<]*\s*v?\d[^"]*)"/ },
+  { file: /(^|\/)requirements[\w-]*\.txt$/, entry: /^\s*([A-Za-z0-9_.-]+)\s*(?:\[[^\]]*\])?\s*[=~<>!]=?\s*(\d[^\s;#]*)/ },
+  { file: /(^|\/)pyproject\.toml$|(^|\/)Cargo\.toml$/, entry: /^\s*([A-Za-z0-9_.-]+)\s*=\s*(?:\{[^}]*version\s*=\s*)?"([~^>=<]*\d[^"]*)"/ },
+  { file: /(^|\/)go\.mod$/, entry: /^\s*(?:require\s+)?([\w.-]+\.[\w./-]+)\s+(v\d[^\s]*)/ },
+  { file: /(^|\/)Gemfile$/, entry: /^\s*gem\s+["']([\w-]+)["']\s*,\s*["'][~><=\s]*(\d[^"']*)["']/ },
+];
+
+const FLAG_FILE = /(^|\/)[\w.-]*(feature[-_]?flags?|flags|toggles)[\w.-]*\.(json|ya?ml|ts|js)$/i;
+const FLAG_CALL = /\b(?:isEnabled|isFeatureEnabled|featureEnabled|useFeatureFlag|useFlag|getFlag|getFeatureFlag|variation|boolVariation)\(\s*["']([\w.:-]+)["']/g;
+const FLAG_SETTING = /^\s*["']?([\w.-]+)["']?\s*[:=]\s*(true|false)\b/;
+
+/**
+ * Analyze a set of file diffs
+ * Files without a patch contribute only what their path shows (migrations, manifests).
+ */
+export function analyzeDiff(files: FileDiff[]): DiffAnalysis {
+  const findings: DiffFinding[] = [];
+
+  for (const file of files) {
+    const lines = splitPatch(file.patch);
+
+    if (TS_FILE.test(file.path) && !/\.(test|spec)\.tsx?$/.test(file.path)) {
+      findings.push(...detectExportChanges(file.path, splitHunks(file.patch)));
+    }
+    if (OPENAPI_FILE.test(file.path) || lines.added.concat(lines.removed).some(line => /^\s*["']?(openapi|swagger)["']?\s*:/.test(line))) {
+      findings.push(...detectOpenApiChanges(file.path, lines));
+    }
+    if (GRAPHQL_FILE.test(file.path)) {
+      findings.push(...detectGraphQlChanges(file.path, lines));
+    }
+    if (MIGRATION_FILE.test(file.path)) {
+      findings.push(...detectMigration(file.path, lines));
+    }
+    findings.push(...detectEnvVars(file.path, lines));
+
+    const manifest = DEPENDENCY_MANIFESTS.find(candidate => candidate.file.test(file.path));
+    if (manifest) {
+      findings.push(...detectDependencyChanges(file.path, lines, manifest.entry));
+    }
+    findings.push(...detectFeatureFlags(file.path, lines));
+  }
+
+  return summarize(findings);
+}
+
+/**
+ * Analyze the files carried in a code change event's raw data (PRs, commits)
+ */
+export function analyzeChangeEvent(changeEvent: ChangeEvent): DiffAnalysis {
+  const files = changeEvent.rawChangeData?.files;
+  return analyzeDiff(Array.isArray(files) ? files.filter(isFileDiff) : []);
+}
+
+function isFileDiff(file: unknown): file is FileDiff {
+  return typeof file === 'object' && file !== null && typeof (file as FileDiff).path === 'string';
+}
+
+/**
+ * Split a unified diff patch into added and removed lines (markers stripped)
+ */
+function splitPatch(patch?: string): PatchLines {
+  const lines: PatchLines = { added: [], removed: [] };
+  if (!patch) {
+    return lines;
+  }
+
+  for (const line of patch.split('\n')) {
+    if (line.startsWith('+++') || line.startsWith('---')) {
+      continue;
+    }
+    if (line.startsWith('+')) {
+      lines.added.push(line.slice(1));
+    } else if (line.startsWith('-')) {
+      lines.removed.push(line.slice(1));
+    }
+  }
+  return lines;
+}
+
+/**
+ * Split a unified diff patch into hunks, each as its old and new text
+ * Lines before the first hunk header (patches without headers) form one hunk.
+ */
+function splitHunks(patch?: string): PatchHunk[] {
+  const hunks: PatchHunk[] = [];
+  let hunk: PatchHunk = { before: [], after: [] };
+  if (!patch) {
+    return hunks;
+  }
+
+  for (const line of patch.split('\n')) {
+    if (line.startsWith('+++') || line.startsWith('---') || line.startsWith('\\')) {
+      continue;
+    }
+    if (line.startsWith('@@')) {
+      if (hunk.before.length > 0 || hunk.after.length > 0) {
+        hunks.push(hunk);
+      }
+      hunk = { before: [], after: [] };
+    } else if (line.startsWith('+')) {
+      hunk.after.push(line.slice(1));
+    } else if (line.startsWith('-')) {
+      hunk.before.push(line.slice(1));
+    } else {
+      hunk.before.push(line.slice(1));
+      hunk.after.push(line.slice(1));
+    }
+  }
+
+  if (hunk.before.length > 0 || hunk.after.length > 0) {
+    hunks.push(hunk);
+  }
+  return hunks;
+}
+
+/**
+ * Compare every export whose statement the diff shows, old against new
+ * Statements are read whole, so a parameter changed on its own line is
+ * still a signature change. Unchanged context reads the same on both sides.
+ */
+function detectExportChanges(path: string, hunks: PatchHunk[]): DiffFinding[] {
+  const exportsIn = (sides: string[][]) => {
+    const found = new Map<string, ExportStatement>();
+    for (const lines of sides) {
+      lines.forEach((line, index) => {
+        const match = TS_EXPORT.exec(line.trim());
+        if (match) {
+          found.set(match[2], readExportStatement(lines, index, match[1]));
+        }
+      });
+    }
+    return found;
+  };
+
+  const before = exportsIn(hunks.map(hunk => hunk.before));
+  const after = exportsIn(hunks.map(hunk => hunk.after));
+  const findings: DiffFinding[] = [];
+
+  for (const [name, removed] of before) {
+    const added = after.get(name);
+    if (!added) {
+      findings.push({
+        kind: 'exported-signature',
+        path,
+        subject: name,
+        description: `Removed export ${name}`,
+        breaking: true,
+        line: removed.text,
+      });
+    } else if (normalizeSignature(added.text) !== normalizeSignature(removed.text)) {
+      findings.push({
+        kind: 'exported-signature',
+        path,
+        subject: name,
+        description: `Changed signature of ${name}`,
+        breaking: !isCompatibleSignatureChange(removed.signature, added.signature),
+        line: added.text,
+      });
+    }
+  }
+
+  for (const [name, added] of after) {
+    if (!before.has(name)) {
+      findings.push({
+        kind: 'exported-signature',
+        path,
+        subject: name,
+        description: `Added export ${name}`,
+        breaking: false,
+        line: added.text,
+      });
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Read the export statement starting at `start` until it ends: at a `;` or
+ * the line end outside brackets, or where a function, class or interface
+ * body opens
+ */
+function readExportStatement(lines: string[], start: number, keyword: string): ExportStatement {
+  const parts: string[] = [];
+  let signature = '';
+  let depth = 0;
+
+  for (let index = start; index < Math.min(lines.length, start + MAX_STATEMENT_LINES); index++) {
+    const line = lines[index].trim();
+    parts.push(line);
+
+    let ended = false;
+    for (const char of line) {
+      const opensBody = char === '{' && (BODY_KEYWORDS.has(keyword) || /=>\s*$/.test(signature));
+      if (depth === 0 && (char === ';' || opensBody)) {
+        ended = true;
+        break;
+      }
+      if ('([{'.includes(char)) {
+        depth++;
+      } else if (')]}'.includes(char)) {
+        depth--;
+      }
+      signature += char;
+    }
+    signature += ' ';
+
+    const continues = /(?:[,(=|&:<]|=>|\bextends|\bimplements)$/.test(line) || /^[|&.?:]/.test(lines[index + 1]?.trim() ?? '');
+    if (ended || (depth <= 0 && !continues)) {
+      break;
+    }
+  }
+
+  return { keyword, text: parts.join(' '), signature: signature.trim() };
+}
+
+function normalizeSignature(line: string): string {
+  return line.replace(/\s+/g, '').replace(/[{;,]$/, '');
+}
+
+/**
+ * Parameters and return type of a function signature, split at top-level commas
+ */
+function parseSignature(signature: string): { params: string[]; returns: string } | null {
+  const open = signature.indexOf('(');
+  if (open < 0) {
+    return null;
+  }
+
+  const params: string[] = [];
+  let current = '';
+  let depth = 0;
+  for (let index = open + 1; index < signature.length; index++) {
+    const char = signature[index];
+    if (depth === 0 && char === ')') {
+      params.push(current);
+      const returns = /^\s*:\s*(.*?)\s*(?:=>.*)?$/.exec(signature.slice(index + 1))?.[1] ?? '';
+      return {
+        params: params.map(param => param.replace(/\s+/g, '')).filter(Boolean),
+        returns: returns.replace(/\s+/g, ''),
+      };
+    }
+
+    if ('([{<'.includes(char)) {
+      depth++;
+    } else if (')]}'.includes(char) || (char === '>' && signature[index - 1] !== '=')) {
+      depth--;
+    }
+
+    if (depth === 0 && char === ',') {
+      params.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  return null;
+}
+
+/**
+ * A function signature change is compatible when the old parameters are kept
+ * as-is, new ones are optional, and the return type is unchanged
+ */
+function isCompatibleSignatureChange(before: string, after: string): boolean {
+  const old = parseSignature(before);
+  const updated = parseSignature(after);
+  if (!old || !updated || old.returns !== updated.returns || updated.params.length < old.params.length) {
+    return false;
+  }
+
+  return old.params.every((param, index) => param === updated.params[index])
+    && updated.params.slice(old.params.length).every(param => /^[\w$]+\?:|=/.test(param));
+}
+
+function detectOpenApiChanges(path: string, lines: PatchLines): DiffFinding[] {
+  const endpointsIn = (source: string[]) => {
+    const found = new Map<string, string>();
+    for (const line of source) {
+      const match = OPENAPI_PATH.exec(line);
+      if (match && match[1].length > 1) {
+        found.set(match[1], line.trim());
+      }
+    }
+    return found;
+  };
+
+  const before = endpointsIn(lines.removed);
+  const after = endpointsIn(lines.added);
+  const findings: DiffFinding[] = [];
+
+  for (const [endpoint, line] of before) {
+    if (!after.has(endpoint)) {
+      findings.push({ kind: 'openapi', path, subject: endpoint, description: `Removed API path ${endpoint}`, breaking: true, line });
+    }
+  }
+  for (const [endpoint, line] of after) {
+    if (!before.has(endpoint)) {
+      findings.push({ kind: 'openapi', path, subject: endpoint, description: `Added API path ${endpoint}`, breaking: false, line });
+    }
+  }
+
+  // A parameter that became required breaks existing callers too
+  const requiredBefore = lines.removed.filter(line => /["']?required["']?\s*:\s*true\b/.test(line)).length;
+  const requiredAfter = lines.added.filter(line => /["']?required["']?\s*:\s*true\b/.test(line));
+  if (requiredAfter.length > requiredBefore) {
+    findings.push({
+      kind: 'openapi',
+      path,
+      subject: path,
+      description: 'Made a parameter required',
+      breaking: true,
+      line: requiredAfter[0].trim(),
+    });
+  }
+
+  return findings;
+}
+
+function detectGraphQlChanges(path: string, lines: PatchLines): DiffFinding[] {
+  const definitionsIn = (source: string[]) => {
+    const types = new Map<string, string>();
+    const fields = new Map<string, { type: string; line: string }>();
+    for (const line of source) {
+      const typeMatch = GRAPHQL_TYPE.exec(line);
+      if (typeMatch) {
+        types.set(typeMatch[2], line.trim());
+        continue;
+      }
+      const fieldMatch = GRAPHQL_FIELD.exec(line);
+      if (fieldMatch) {
+        fields.set(fieldMatch[1], { type: `${fieldMatch[2] ?? ''}${fieldMatch[3]}`.replace(/\s+/g, ''), line: line.trim() });
+      }
+    }
+    return { types, fields };
+  };
+
+  const before = definitionsIn(lines.removed);
+  const after = definitionsIn(lines.added);
+  const findings: DiffFinding[] = [];
+
+  for (const [name, line] of before.types) {
+    if (!after.types.has(name)) {
+      findings.push({ kind: 'graphql', path, subject: name, description: `Removed GraphQL type ${name}`, breaking: true, line });
+    }
+  }
+  for (const [name, line] of after.types) {
+    if (!before.types.has(name)) {
+      findings.push({ kind: 'graphql', path, subject: name, description: `Added GraphQL type ${name}`, breaking: false, line });
+    }
+  }
+  for (const [name, field] of before.fields) {
+    const updated = after.fields.get(name);
+    if (!updated) {
+      findings.push({ kind: 'graphql', path, subject: name, description: `Removed GraphQL field ${name}`, breaking: true, line: field.line });
+    } else if (updated.type !== field.type) {
+      findings.push({
+        kind: 'graphql',
+        path,
+        subject: name,
+        description: `Changed GraphQL field ${name} from ${field.type} to ${updated.type}`,
+        breaking: true,
+        line: updated.line,
+      });
+    }
+  }
+  for (const [name, field] of after.fields) {
+    if (!before.fields.has(name)) {
+      findings.push({
+        kind: 'graphql',
+        path,
+        subject: name,
+        description: `Added GraphQL field ${name}`,
+        // A new non-null argument on an input breaks callers; plain new fields don't
+        breaking: /\([^)]*!\s*[,)]/.test(field.type),
+        line: field.line,
+      });
+    }
+  }
+
+  return findings;
+}
+
+function detectMigration(path: string, lines: PatchLines): DiffFinding[] {
+  const statements = lines.added.filter(line => line.trim() && !line.trim().startsWith('--'));
+  const destructive = statements.filter(line => DESTRUCTIVE_SQL.test(line));
+
+  if (destructive.length > 0) {
+    return destructive.map(line => ({
+      kind: 'sql-migration' as const,
+      path,
+      subject: SQL_TABLE.exec(line)?.[1] ?? path,
+      description: `Destructive migration: ${DESTRUCTIVE_SQL.exec(line)![0].toUpperCase()}`,
+      breaking: true,
+      line: line.trim(),
+    }));
+  }
+
+  return [{
+    kind: 'sql-migration',
+    path,
+    subject: statements.map(line => SQL_TABLE.exec(line)?.[1]).find(Boolean) ?? path,
+    description: `Database migration ${path.split('/').pop()}`,
+    breaking: false,
+    line: path,
+  }];
+}
+
+function detectEnvVars(path: string, lines: PatchLines): DiffFinding[] {
+  const namesIn = (source: string[]) => {
+    const found = new Map<string, string>();
+    for (const line of source) {
+      if (ENV_FILE.test(path)) {
+        const assignment = ENV_ASSIGNMENT.exec(line);
+        if (assignment) {
+          found.set(assignment[1], line.trim());
+        }
+        continue;
+      }
+      for (const match of line.matchAll(ENV_REFERENCE)) {
+        found.set(match[1], line.trim());
+      }
+    }
+    return found;
+  };
+
+  const before = namesIn(lines.removed);
+  const findings: DiffFinding[] = [];
+  for (const [name, line] of namesIn(lines.added)) {
+    if (!before.has(name)) {
+      findings.push({ kind: 'env-var', path, subject: name, description: `New environment variable ${name}`, breaking: false, line });
+    }
+  }
+  return findings;
+}
+
+function detectDependencyChanges(path: string, lines: PatchLines, entry: RegExp): DiffFinding[] {
+  const versionsIn = (source: string[]) => {
+    const found = new Map<string, { version: string; line: string }>();
+    for (const line of source) {
+      const match = entry.exec(line);
+      if (match) {
+        found.set(match[1], { version: match[2].trim(), line: line.trim() });
+      }
+    }
+    return found;
+  };
+
+  const before = versionsIn(lines.removed);
+  const after = versionsIn(lines.added);
+  const findings: DiffFinding[] = [];
+
+  for (const [name, updated] of after) {
+    const previous = before.get(name);
+    if (!previous) {
+      findings.push({ kind: 'dependency', path, subject: name, description: `Added dependency ${name}@${updated.version}`, breaking: false, line: updated.line });
+    } else if (previous.version !== updated.version) {
+      const major = majorVersion(previous.version) !== majorVersion(updated.version);
+      findings.push({
+        kind: 'dependency',
+        path,
+        subject: name,
+        description: `${major ? 'Major upgrade' : 'Updated'} ${name} ${previous.version} → ${updated.version}`,
+        breaking: false, // A major bump is a rollout risk, not a contract change of ours
+        line: updated.line,
+      });
+    }
+  }
+  for (const [name, previous] of before) {
+    if (!after.has(name)) {
+      findings.push({ kind: 'dependency', path, subject: name, description: `Removed dependency ${name}`, breaking: false, line: previous.line });
+    }
+  }
+
+  return findings;
+}
+
+function majorVersion(version: string): string {
+  const parts = /(\d+)(?:\.(\d+))?/.exec(version);
+  if (!parts) {
+    return version;
+  }
+  // 0.x releases treat the minor version as the major one
+  return parts[1] === '0' ? `0.${parts[2] ?? '0'}` : parts[1];
+}
+
+function detectFeatureFlags(path: string, lines: PatchLines): DiffFinding[] {
+  const flagsIn = (source: string[]) => {
+    const found = new Map<string, string>();
+    for (const line of source) {
+      for (const match of line.matchAll(FLAG_CALL)) {
+        found.set(match[1], line.trim());
+      }
+    }
+    return found;
+  };
+  const settingsIn = (source: string[]) => {
+    const found = new Map<string, { value: string; line: string }>();
+    if (!FLAG_FILE.test(path)) {
+      return found;
+    }
+    for (const line of source) {
+      const match = FLAG_SETTING.exec(line);
+      if (match) {
+        found.set(match[1], { value: match[2], line: line.trim() });
+      }
+    }
+    return found;
+  };
+
+  const findings: DiffFinding[] = [];
+  const calledBefore = flagsIn(lines.removed);
+  const calledAfter = flagsIn(lines.added);
+  for (const [flag, line] of calledAfter) {
+    if (!calledBefore.has(flag)) {
+      findings.push({ kind: 'feature-flag', path, subject: flag, description: `Code gated behind feature flag ${flag}`, breaking: false, line });
+    }
+  }
+  for (const [flag, line] of calledBefore) {
+    if (!calledAfter.has(flag)) {
+      findings.push({ kind: 'feature-flag', path, subject: flag, description: `Feature flag ${flag} removed from code`, breaking: false, line });
+    }
+  }
+
+  const settingsBefore = settingsIn(lines.removed);
+  for (const [flag, setting] of settingsIn(lines.added)) {
+    const previous = settingsBefore.get(flag);
+    if (!previous || previous.value !== setting.value) {
+      findings.push({
+        kind: 'feature-flag',
+        path,
+        subject: flag,
+        description: `Feature flag ${flag} ${setting.value === 'true' ? 'enabled' : 'disabled'}`,
+        breaking: false,
+        line: setting.line,
+      });
+    }
+  }
+
+  return findings;
+}
+
+function summarize(findings: DiffFinding[]): DiffAnalysis {
+  const breaking = findings.some(finding => finding.breaking);
+  const migrationRisk = findings.some(finding => finding.kind === 'sql-migration');
+  const rolloutConcern = findings.some(finding =>
+    finding.kind === 'sql-migration'
+    || finding.kind === 'env-var'
+    || finding.kind === 'feature-flag'
+    || (finding.kind === 'dependency' && finding.description.startsWith('Major upgrade'))
+  );
+
+  return {
+    findings,
+    breaking,
+    apiContractChanges: findings
+      .filter(finding => finding.kind === 'exported-signature' || finding.kind === 'openapi' || finding.kind === 'graphql')
+      .map(finding => `${finding.description} (${finding.path})`),
+    migrationRisk,
+    rolloutRisk: breaking ? 'high' : rolloutConcern ? 'medium' : 'low',
+    evidence: findings.map(finding => ({
+      type: finding.kind === 'dependency' ? 'import' as const : finding.line === finding.path ? 'file-path' as const : 'api-signature' as const,
+      value: finding.line,
+      relevance: finding.breaking ? `${finding.description} (breaking)` : finding.description,
+    })),
+  };
+}
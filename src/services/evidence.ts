@@ -0,0 +1,124 @@
+/**
+ * Evidence grounding
+ *
+ * Interpretations must cite evidence from the change itself. These helpers
+ * collect what a change event actually contains (diff, patches, file paths,
+ * titles, messages) and check whether a cited value really appears there,
+ * so fabricated citations can be rejected in code rather than by convention.
+ *
+ * Values are compared as whole tokens (identifiers, words, numbers and
+ * single punctuation marks): "order" is not found in "reorder_items", and
+ * "total" is not found in "subtotal".
+ */
+
+import { ChangeEvent } from '../types/core';
+import { CodeChangeInterpretation } from '../types/code-changes';
+
+export type EvidenceItem = CodeChangeInterpretation['evidence'][number];
+
+/**
+ * Everything a citation may point at
+ */
+export interface EvidenceSources {
+  paths: string[];
+  text: string; // Tokens of the diff, patches and descriptive fields, lower-cased and space-separated
+}
+
+const MIN_CITATION_LENGTH = 3;
+const WORD_TOKEN = /^[\p{L}\p{N}_$]+$/u;
+
+/**
+ * Code-like mentions in prose: `quoted` spans, calls, snake_case and
+ * camelCase names, dotted members or files, and paths
+ */
+const IDENTIFIER_PATTERNS = [
+  /`([^`]+)`/g,
+  /\b([A-Za-z_$][\w$]*)\(/g,
+  /(?<![\w$])([A-Za-z_$][\w$]*_[\w$]+)/g,
+  /(?<![\w$])([a-z]{2,}[A-Z][\w$]*)/g,
+  /(?<![\w$/])([A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)+)/g,
+  /(?<![\w$.-])(\/[\w.-]+(?:\/[\w.-]+)*)/g,
+  /(?<![\w$./-])([\w.-]+(?:\/[\w.-]+)+\.[A-Za-z]\w*)/g,
+];
+const MIN_IDENTIFIER_LENGTH = 4;
+const TEXT_FIELDS = ['title', 'body', 'message', 'name', 'description'];
+
+export function collectEvidenceSources(changeEvent: ChangeEvent): EvidenceSources {
+  const raw = changeEvent.rawChangeData ?? {};
+  const files = Array.isArray(raw.files) ? raw.files as Array<{ path?: unknown; oldPath?: unknown; patch?: unknown }> : [];
+
+  const paths = files
+    .flatMap(file => [file.path, file.oldPath])
+    .filter((path): path is string => typeof path === 'string' && path.length > 0);
+
+  const fragments = [
+    changeEvent.diff ?? '',
+    ...files.map(file => (typeof file.patch === 'string' ? file.patch : '')),
+    ...TEXT_FIELDS.map(field => (typeof raw[field] === 'string' ? raw[field] as string : '')),
+    ...(Array.isArray(raw.labels) ? raw.labels.filter((label): label is string => typeof label === 'string') : []),
+    ...(changeEvent.tags ?? []),
+    ...paths,
+  ];
+
+  return { paths, text: tokenize(fragments.join('\n')) };
+}
+
+/**
+ * True when the cited value can be found in the change
+ * File paths must match a changed file (or a trailing part of one); every
+ * other kind of evidence must appear in the diff or descriptive text.
+ */
+export function isEvidenceGrounded(evidence: Pick<EvidenceItem, 'type' | 'value'>, sources: EvidenceSources): boolean {
+  const value = evidence.value.trim();
+  if (value.length < MIN_CITATION_LENGTH || !tokenize(value).split(' ').some(token => WORD_TOKEN.test(token))) {
+    return false;
+  }
+
+  if (evidence.type === 'file-path') {
+    const path = value.replace(/^\.?\//, '');
+    return sources.paths.some(candidate => candidate === path || candidate.endsWith(`/${path}`))
+      || containsTokens(sources.text, path);
+  }
+
+  return containsTokens(sources.text, value);
+}
+
+/**
+ * True when a free-form claim (component, endpoint, UI element) is mentioned in the change
+ */
+export function isClaimGrounded(claim: string, sources: EvidenceSources): boolean {
+  return isEvidenceGrounded({ type: 'comment', value: claim }, sources);
+}
+
+/**
+ * Identifiers a summary or impact statement mentions that none of the cited evidence contains
+ */
+export function findUncitedIdentifiers(text: string, evidence: Array<Pick<EvidenceItem, 'value'>>): string[] {
+  const cited = evidence.map(item => tokenize(item.value));
+  return mentionedIdentifiers(text).filter(identifier => !cited.some(tokens => containsTokens(tokens, identifier)));
+}
+
+function mentionedIdentifiers(text: string): string[] {
+  const identifiers = new Set<string>();
+  for (const pattern of IDENTIFIER_PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      const identifier = match[1].trim().replace(/[.]+$/, '');
+      if (identifier.length >= MIN_IDENTIFIER_LENGTH) {
+        identifiers.add(identifier);
+      }
+    }
+  }
+  return [...identifiers];
+}
+
+/**
+ * True when `value`'s tokens appear, in order and next to each other, in the tokenized text
+ */
+function containsTokens(tokens: string, value: string): boolean {
+  const needle = tokenize(value);
+  return needle.length > 0 && ` ${tokens} `.includes(` ${needle} `);
+}
+
+function tokenize(text: string): string {
+  return (text.toLowerCase().match(/[\p{L}\p{N}_$]+|[^\s\p{L}\p{N}_$]/gu) ?? []).join(' ');
+}
@@ -0,0 +1,164 @@
+/**
+ * Installation Polling
+ *
+ * Cursor pollers for ChangeDetectionServiceImpl that poll each cursor's tool
+ * account with the credentials of its own installation. Which repositories,
+ * projects, teams or files are polled comes from the installation too:
+ * repository installations poll themselves, broader ones list what to poll
+ * in their credentials (comma-separated, e.g. { repositories: "acme/web,acme/api" }).
+ */
+
+import { SourceTool } from '../types/core';
+import { Cursor, CursorPollResult } from '../types/cursors';
+import { IntegrationInstallation } from '../types/installations';
+import { NotionSnapshotRepository } from '../db/notion-snapshot-repository';
+import { HttpClient } from '../integrations/http-client';
+import { GitHubIntegrationImpl } from '../integrations/github';
+import { GitLabIntegrationImpl } from '../integrations/gitlab';
+import { BitbucketIntegrationImpl } from '../integrations/bitbucket';
+import { JiraIntegrationImpl } from '../integrations/jira';
+import { LinearIntegrationImpl } from '../integrations/linear';
+import { NotionIntegrationImpl } from '../integrations/notion';
+import { FigmaIntegrationImpl } from '../integrations/figma';
+import { InstallationService } from './installations';
+import { RawChangeData } from './change-detection';
+
+export type CursorPoller = (cursor: Cursor) => Promise<CursorPollResult<RawChangeData>>;
+
+/**
+ * Polls one tool account with its installation's credentials
+ */
+export type InstallationPoller = (
+  cursor: Cursor,
+  installation: IntegrationInstallation
+) => Promise<CursorPollResult<RawChangeData>>;
+
+/**
+ * Pollers for every tool with a polling API
+ */
+export function createInstallationPollers(
+  notionSnapshots: NotionSnapshotRepository,
+  httpClient?: HttpClient
+): Map<SourceTool, InstallationPoller> {
+  const github = new GitHubIntegrationImpl(httpClient);
+  const gitlab = new GitLabIntegrationImpl(httpClient);
+  const bitbucket = new BitbucketIntegrationImpl(httpClient);
+  const jira = new JiraIntegrationImpl(httpClient);
+  const linear = new LinearIntegrationImpl(httpClient);
+  const notion = new NotionIntegrationImpl(notionSnapshots, httpClient);
+  const figma = new FigmaIntegrationImpl(httpClient);
+
+  return new Map<SourceTool, InstallationPoller>([
+    ['github', (cursor, installation) => github.pollChanges(cursor, {
+      token: credential(installation, 'token'),
+      apiBaseUrl: installation.credentials.apiBaseUrl,
+      repositories: accountList(installation, 'repositories'),
+    })],
+    ['gitlab', (cursor, installation) => gitlab.pollChanges(cursor, {
+      token: credential(installation, 'token'),
+      baseUrl: installation.credentials.baseUrl,
+      projects: accountList(installation, 'projects'),
+    })],
+    ['bitbucket', (cursor, installation) => bitbucket.pollChanges(cursor, {
+      accessToken: installation.credentials.accessToken,
+      username: installation.credentials.username,
+      appPassword: installation.credentials.appPassword,
+      repositories: accountList(installation, 'repositories'),
+    })],
+    ['jira', (cursor, installation) => jira.pollChanges(cursor, {
+      baseUrl: `https://${installation.externalAccountId}`,
+      email: credential(installation, 'email'),
+      apiToken: credential(installation, 'apiToken'),
+      projects: list(installation.credentials.projects),
+      timeZone: installation.credentials.timeZone,
+    })],
+    ['linear', (cursor, installation) => linear.pollChanges(cursor, {
+      apiKey: credential(installation, 'apiKey'),
+      teams: list(installation.credentials.teams),
+    })],
+    ['notion', (cursor, installation) => notion.pollChanges(cursor, {
+      token: credential(installation, 'token'),
+    })],
+    ['figma', (cursor, installation) => figma.pollChanges(cursor, {
+      token: credential(installation, 'token'),
+      fileKeys: requiredList(installation, 'fileKeys'),
+    })],
+  ]);
+}
+
+/**
+ * Pollers for ChangeDetectionServiceImpl's cursorPollers map
+ * A cursor is polled only through the active installation it was created for.
+ */
+export function createInstallationCursorPollers(
+  installations: InstallationService,
+  pollers: Map<SourceTool, InstallationPoller>
+): Map<SourceTool, CursorPoller> {
+  return new Map(Array.from(pollers, ([tool, poll]) => [
+    tool,
+    async (cursor: Cursor) => {
+      if (!cursor.installationId) {
+        throw new Error(`Cursor ${cursor.id} has no installation to poll with`);
+      }
+
+      const installation = await installations.getInstallation(cursor.installationId);
+      if (
+        !installation ||
+        installation.companyGroupId !== cursor.companyGroupId ||
+        installation.sourceTool !== cursor.sourceTool
+      ) {
+        throw new Error(`Installation not found: ${cursor.installationId}`);
+      }
+      if (!installation.isActive) {
+        throw new Error(`Installation ${installation.id} is not active`);
+      }
+
+      return poll(cursor, installation);
+    },
+  ]));
+}
+
+/**
+ * Where a new cursor starts: now for timestamp cursors, and the latest
+ * versions for Figma, whose position maps file keys to version IDs
+ */
+export function initialCursorPosition(
+  sourceTool: SourceTool,
+  now: Date = new Date()
+): { position: string; positionType: Cursor['positionType'] } {
+  if (sourceTool === 'figma') {
+    return { position: '', positionType: 'other' };
+  }
+  return { position: now.toISOString(), positionType: 'timestamp' };
+}
+
+function credential(installation: IntegrationInstallation, key: string): string {
+  const value = installation.credentials[key];
+  if (!value) {
+    throw new Error(`Installation ${installation.id} has no ${key} credential`);
+  }
+  return value;
+}
+
+/**
+ * A repository installation polls itself; broader ones list their repositories or projects
+ */
+function accountList(installation: IntegrationInstallation, key: string): string[] {
+  if (installation.accountType === 'repository') {
+    return [installation.externalAccountId];
+  }
+  return requiredList(installation, key);
+}
+
+function requiredList(installation: IntegrationInstallation, key: string): string[] {
+  const values = list(installation.credentials[key]);
+  if (!values) {
+    throw new Error(`Installation ${installation.id} lists no ${key} to poll`);
+  }
+  return values;
+}
+
+function list(value: string | undefined): string[] | undefined {
+  const values = value?.split(',').map(entry => entry.trim()).filter(entry => entry.length > 0) ?? [];
+  return values.length > 0 ? values : undefined;
+}
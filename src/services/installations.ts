@@ -0,0 +1,332 @@
+/**
+ * Installation Service
+ *
+ * Registry of integration installations: which GitHub org or repo, GitLab
+ * group, Notion workspace, Figma team, Jira site, ... belongs to which
+ * company group. Incoming webhooks are resolved to an installation from
+ * their payload and verified with that installation's own secret, so one
+ * leaked secret never lets anyone post changes into another company group.
+ *
+ * Rotating a secret keeps the previous one valid for a grace period, long
+ * enough to update the webhook configuration in the tool.
+ */
+
+import { randomBytes, randomUUID } from 'crypto';
+import { SourceTool } from '../types/core';
+import { InstallationAccountType, IntegrationInstallation } from '../types/installations';
+import { InstallationRepository } from '../db/installation-repository';
+import { createGitHubWebhookVerifier } from '../integrations/github';
+import { createGitLabWebhookVerifier } from '../integrations/gitlab';
+import { createBitbucketWebhookVerifier } from '../integrations/bitbucket';
+import { createNotionWebhookVerifier } from '../integrations/notion';
+import { createFigmaWebhookVerifier } from '../integrations/figma';
+import { createJiraWebhookVerifier } from '../integrations/jira';
+import { createLinearWebhookVerifier } from '../integrations/linear';
+import { asRecord, optionalString } from '../integrations/payload';
+import { logger } from '../utils/logger';
+
+export type WebhookVerifier = (payload: unknown, signature?: string) => Promise<boolean>;
+
+/**
+ * Builds a tool's webhook verifier for one secret (the create*WebhookVerifier functions)
+ */
+export type WebhookVerifierFactory = (secret: string) => WebhookVerifier;
+
+export interface NewInstallation {
+  companyGroupId: string;
+  sourceTool: SourceTool;
+  accountType: InstallationAccountType;
+  externalAccountId: string;
+  webhookIds?: string[];
+  webhookSecret?: string; // Generated when left out
+  credentials?: Record<string, string>;
+}
+
+export interface InstallationUpdate {
+  webhookIds?: string[];
+  credentials?: Record<string, string>; // Replaces all credentials
+  isActive?: boolean;
+}
+
+export interface SecretRotation {
+  webhookSecret?: string; // Generated when left out
+  gracePeriodMs?: number; // How long the previous secret keeps working; 0 revokes it now
+}
+
+/**
+ * The accounts (most specific first) and webhook a payload came from
+ */
+export interface WebhookSource {
+  accounts: string[];
+  webhookId?: string;
+}
+
+export interface InstallationService {
+  /**
+   * Throws when the tool account is already installed
+   */
+  createInstallation(input: NewInstallation): Promise<IntegrationInstallation>;
+
+  getInstallation(installationId: string): Promise<IntegrationInstallation | null>;
+
+  listInstallations(companyGroupId?: string): Promise<IntegrationInstallation[]>;
+
+  updateInstallation(installationId: string, update: InstallationUpdate): Promise<IntegrationInstallation>;
+
+  deleteInstallation(installationId: string): Promise<boolean>;
+
+  rotateWebhookSecret(installationId: string, rotation?: SecretRotation): Promise<IntegrationInstallation>;
+
+  /**
+   * The active installation a webhook payload belongs to
+   */
+  resolveWebhook(sourceTool: SourceTool, payload: unknown): Promise<IntegrationInstallation | null>;
+
+  /**
+   * Verify a webhook with the secret of the installation it belongs to
+   * The previous secret is accepted until its grace period ends.
+   */
+  verifyWebhook(sourceTool: SourceTool, payload: unknown, signature?: string): Promise<boolean>;
+}
+
+export interface InstallationServiceConfig {
+  verifiers: Map<SourceTool, WebhookVerifierFactory>;
+  gracePeriodMs: number; // Default for secret rotation
+  now: () => Date;
+}
+
+export const DEFAULT_WEBHOOK_VERIFIERS = new Map<SourceTool, WebhookVerifierFactory>([
+  ['github', secret => createGitHubWebhookVerifier(secret)],
+  ['gitlab', secret => createGitLabWebhookVerifier(secret)],
+  ['bitbucket', secret => createBitbucketWebhookVerifier(secret)],
+  ['notion', secret => createNotionWebhookVerifier(secret)],
+  ['figma', secret => createFigmaWebhookVerifier(secret)],
+  ['jira', secret => createJiraWebhookVerifier(secret)],
+  ['linear', secret => createLinearWebhookVerifier(secret)],
+]);
+
+const DEFAULT_CONFIG: InstallationServiceConfig = {
+  verifiers: DEFAULT_WEBHOOK_VERIFIERS,
+  gracePeriodMs: 24 * 60 * 60 * 1000,
+  now: () => new Date(),
+};
+
+/**
+ * Implementation of InstallationService
+ */
+export class InstallationServiceImpl implements InstallationService {
+  private config: InstallationServiceConfig;
+
+  constructor(
+    private repository: InstallationRepository,
+    config: Partial<InstallationServiceConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  async createInstallation(input: NewInstallation): Promise<IntegrationInstallation> {
+    const externalAccountId = accountKey(input.externalAccountId);
+    if (this.repository.findByAccount(input.sourceTool, externalAccountId)) {
+      throw new Error(`Installation already exists for ${input.sourceTool} account ${externalAccountId}`);
+    }
+
+    const now = this.config.now();
+    return this.repository.saveInstallation({
+      id: randomUUID(),
+      companyGroupId: input.companyGroupId,
+      sourceTool: input.sourceTool,
+      accountType: input.accountType,
+      externalAccountId,
+      webhookIds: input.webhookIds ?? [],
+      webhookSecret: input.webhookSecret ?? generateSecret(),
+      credentials: input.credentials ?? {},
+      isActive: true,
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+
+  async getInstallation(installationId: string): Promise<IntegrationInstallation | null> {
+    return this.repository.getInstallation(installationId);
+  }
+
+  async listInstallations(companyGroupId?: string): Promise<IntegrationInstallation[]> {
+    return this.repository.listInstallations(companyGroupId);
+  }
+
+  async updateInstallation(installationId: string, update: InstallationUpdate): Promise<IntegrationInstallation> {
+    const installation = this.getExisting(installationId);
+
+    return this.repository.saveInstallation({
+      ...installation,
+      webhookIds: update.webhookIds ?? installation.webhookIds,
+      credentials: update.credentials ?? installation.credentials,
+      isActive: update.isActive ?? installation.isActive,
+      updatedAt: this.config.now(),
+    });
+  }
+
+  async deleteInstallation(installationId: string): Promise<boolean> {
+    return this.repository.deleteInstallation(installationId);
+  }
+
+  async rotateWebhookSecret(installationId: string, rotation: SecretRotation = {}): Promise<IntegrationInstallation> {
+    const installation = this.getExisting(installationId);
+    const now = this.config.now();
+    const gracePeriodMs = rotation.gracePeriodMs ?? this.config.gracePeriodMs;
+
+    const rotated = this.repository.saveInstallation({
+      ...installation,
+      webhookSecret: rotation.webhookSecret ?? generateSecret(),
+      previousWebhookSecret: gracePeriodMs > 0 ? installation.webhookSecret : undefined,
+      previousSecretExpiresAt: gracePeriodMs > 0 ? new Date(now.getTime() + gracePeriodMs) : undefined,
+      secretRotatedAt: now,
+      updatedAt: now,
+    });
+
+    logger.info(`Rotated webhook secret`, {
+      installationId,
+      sourceTool: installation.sourceTool,
+      previousSecretExpiresAt: rotated.previousSecretExpiresAt,
+    });
+
+    return rotated;
+  }
+
+  async resolveWebhook(sourceTool: SourceTool, payload: unknown): Promise<IntegrationInstallation | null> {
+    const source = webhookSource(sourceTool, payload);
+    const candidates = [
+      source.webhookId ? this.repository.findByWebhookId(sourceTool, source.webhookId) : null,
+      ...source.accounts.map(account => this.repository.findByAccount(sourceTool, accountKey(account))),
+    ];
+
+    return candidates.find(installation => installation?.isActive) ?? null;
+  }
+
+  async verifyWebhook(sourceTool: SourceTool, payload: unknown, signature?: string): Promise<boolean> {
+    const installation = await this.resolveWebhook(sourceTool, payload);
+    if (!installation) {
+      logger.warn(`No installation found for ${sourceTool} webhook`, { source: webhookSource(sourceTool, payload) });
+      return false;
+    }
+
+    const createVerifier = this.config.verifiers.get(sourceTool);
+    if (!createVerifier) {
+      throw new Error(`No webhook verifier configured for tool: ${sourceTool}`);
+    }
+
+    if (await createVerifier(installation.webhookSecret)(payload, signature)) {
+      return true;
+    }
+
+    const { previousWebhookSecret, previousSecretExpiresAt } = installation;
+    if (previousWebhookSecret && previousSecretExpiresAt && previousSecretExpiresAt > this.config.now()
+      && await createVerifier(previousWebhookSecret)(payload, signature)) {
+      logger.info(`Accepted webhook signed with the previous secret`, {
+        installationId: installation.id,
+        previousSecretExpiresAt,
+      });
+      return true;
+    }
+
+    return false;
+  }
+
+  private getExisting(installationId: string): IntegrationInstallation {
+    const installation = this.repository.getInstallation(installationId);
+    if (!installation) {
+      throw new Error(`Installation not found: ${installationId}`);
+    }
+    return installation;
+  }
+}
+
+/**
+ * Verifiers for ChangeDetectionServiceImpl's webhookVerifiers map that check
+ * every webhook against the secret of its own installation
+ */
+export function createInstallationWebhookVerifiers(
+  installations: InstallationService,
+  tools: Iterable<SourceTool> = DEFAULT_WEBHOOK_VERIFIERS.keys()
+): Map<SourceTool, WebhookVerifier> {
+  return new Map(Array.from(tools, tool => [
+    tool,
+    (payload: unknown, signature?: string) => installations.verifyWebhook(tool, payload, signature),
+  ]));
+}
+
+/**
+ * Read which account and webhook a payload came from
+ * Payloads may be the raw request body; it is parsed as JSON.
+ */
+export function webhookSource(sourceTool: SourceTool, payload: unknown): WebhookSource {
+  const data = asRecord(typeof payload === 'string' ? parseJson(payload) : payload);
+  if (!data) return { accounts: [] };
+
+  const repository = asRecord(data.repository);
+  switch (sourceTool) {
+    case 'github': {
+      const owner = asRecord(data.organization)?.login ?? asRecord(repository?.owner)?.login;
+      return { accounts: present(repository?.full_name, owner) };
+    }
+    case 'gitlab': {
+      const project = optionalString(asRecord(data.project)?.path_with_namespace);
+      return { accounts: project ? namespaces(project) : [] };
+    }
+    case 'bitbucket': {
+      const fullName = optionalString(repository?.full_name);
+      const workspace = asRecord(repository?.workspace)?.slug ?? fullName?.split('/')[0];
+      return { accounts: present(fullName, workspace) };
+    }
+    case 'notion':
+      return { accounts: present(data.workspace_id) };
+    case 'figma':
+      return { accounts: present(data.team_id), webhookId: optionalString(data.webhook_id) };
+    case 'jira': {
+      const self = optionalString(asRecord(data.issue)?.self) ?? optionalString(asRecord(data.user)?.self);
+      return { accounts: self ? present(urlHost(self)) : [] };
+    }
+    case 'linear': {
+      const url = optionalString(data.url) ?? optionalString(asRecord(data.data)?.url);
+      return { accounts: present(data.organizationId, url?.match(/^https:\/\/linear\.app\/([^/]+)/)?.[1]) };
+    }
+    default:
+      return { accounts: [] };
+  }
+}
+
+function namespaces(path: string): string[] {
+  const segments = path.split('/');
+  return segments.map((_, index) => segments.slice(0, segments.length - index).join('/'));
+}
+
+function present(...values: unknown[]): string[] {
+  return values.map(optionalString).filter((value): value is string => value !== undefined);
+}
+
+function urlHost(url: string): string | undefined {
+  try {
+    return new URL(url).host;
+  } catch {
+    return undefined;
+  }
+}
+
+function parseJson(body: string): unknown {
+  try {
+    return JSON.parse(body);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Tool account names are case-insensitive
+ */
+function accountKey(externalAccountId: string): string {
+  return externalAccountId.trim().toLowerCase();
+}
+
+function generateSecret(): string {
+  return randomBytes(32).toString('hex');
+}
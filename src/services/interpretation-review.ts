@@ -0,0 +1,241 @@
+/**
+ * Interpretation Review Service
+ *
+ * Confidence gate in front of routing: interpretations below the configured
+ * confidence are held in a triage queue instead of being routed. A reviewer
+ * corrects classification, intent and affected roles (or confirms them) and
+ * the change is routed with the corrected interpretation, or dismisses it.
+ *
+ * Every resolved review is kept as a labeled example; the examples of a
+ * company group are given to the interpreter as few-shot context, so later
+ * interpretations of similar changes learn from the corrections.
+ */
+
+import { randomUUID } from 'crypto';
+import { ChangeEvent, ConfidenceLevel } from '../types/core';
+import {
+  HeldInterpretation,
+  InterpretationLabel,
+  InterpretationReview,
+  LabeledExample,
+  ReviewQuery,
+  ReviewRepository,
+} from '../db/review-repository';
+import { ChangeEventRepository } from '../db/change-event-repository';
+import { describeChangeInput } from './ai-interpretation';
+
+export interface InterpretationReviewService {
+  /**
+   * Whether an interpretation with this confidence must wait for a reviewer
+   */
+  needsReview(confidence: ConfidenceLevel): boolean;
+
+  hold(
+    companyGroupId: string,
+    changeEvent: ChangeEvent,
+    interpretation: HeldInterpretation,
+    correlationSummary?: string
+  ): Promise<InterpretationReview>;
+
+  getReview(reviewId: string): Promise<InterpretationReview | null>;
+
+  listReviews(query?: ReviewQuery): Promise<InterpretationReview[]>;
+
+  /**
+   * Close a pending review with the reviewer's corrections
+   * Fields left out keep the interpreter's value. Throws when the review
+   * doesn't exist or was already closed.
+   */
+  resolve(reviewId: string, reviewerId: string, correction: Partial<InterpretationLabel>): Promise<InterpretationReview>;
+
+  /**
+   * Close a pending review without routing the change
+   */
+  dismiss(reviewId: string, reviewerId: string, reason?: string): Promise<InterpretationReview>;
+
+  /**
+   * Labeled examples to show the interpreter for a change, most similar first
+   */
+  getExamples(companyGroupId: string, changeEvent: ChangeEvent): Promise<LabeledExample[]>;
+}
+
+export interface InterpretationReviewConfig {
+  minimumConfidence: ConfidenceLevel; // Interpretations below this are held
+  maxExamples: number;
+}
+
+const DEFAULT_CONFIG: InterpretationReviewConfig = {
+  minimumConfidence: 'medium',
+  maxExamples: 5,
+};
+
+const CONFIDENCE_RANK: Record<ConfidenceLevel, number> = {
+  low: 0,
+  medium: 1,
+  high: 2,
+  'very-high': 3,
+};
+
+const MAX_EXAMPLE_INPUT_LENGTH = 1500;
+
+/**
+ * Implementation of InterpretationReviewService
+ */
+export class InterpretationReviewServiceImpl implements InterpretationReviewService {
+  private config: InterpretationReviewConfig;
+
+  constructor(
+    private repository: ReviewRepository,
+    private changeEvents?: ChangeEventRepository,
+    config: Partial<InterpretationReviewConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  needsReview(confidence: ConfidenceLevel): boolean {
+    return CONFIDENCE_RANK[confidence] < CONFIDENCE_RANK[this.config.minimumConfidence];
+  }
+
+  async hold(
+    companyGroupId: string,
+    changeEvent: ChangeEvent,
+    interpretation: HeldInterpretation,
+    correlationSummary?: string
+  ): Promise<InterpretationReview> {
+    const review = this.repository.saveReview({
+      id: randomUUID(),
+      companyGroupId,
+      changeEvent,
+      interpretation,
+      correlationSummary,
+      status: 'pending',
+      createdAt: new Date(),
+    });
+
+    this.changeEvents?.appendTimeline({
+      changeEventId: changeEvent.id,
+      kind: 'held_for_review',
+      details: {
+        reviewId: review.id,
+        confidence: interpretation.confidence,
+        minimumConfidence: this.config.minimumConfidence,
+      },
+    });
+
+    return review;
+  }
+
+  async getReview(reviewId: string): Promise<InterpretationReview | null> {
+    return this.repository.getReview(reviewId);
+  }
+
+  async listReviews(query: ReviewQuery = {}): Promise<InterpretationReview[]> {
+    return this.repository.listReviews(query);
+  }
+
+  async resolve(
+    reviewId: string,
+    reviewerId: string,
+    correction: Partial<InterpretationLabel>
+  ): Promise<InterpretationReview> {
+    const pending = this.getPending(reviewId);
+    const label: InterpretationLabel = {
+      classification: correction.classification ?? pending.interpretation.classification,
+      intent: correction.intent ?? pending.interpretation.intent,
+      affectedRoles: correction.affectedRoles ?? pending.interpretation.affectedRoles,
+    };
+
+    const review = this.repository.closeReview(reviewId, 'resolved', reviewerId, label);
+    if (!review) {
+      throw new Error(`Review ${reviewId} was closed by someone else`);
+    }
+
+    this.repository.saveExample({
+      id: randomUUID(),
+      companyGroupId: review.companyGroupId,
+      changeEventId: review.changeEvent.id,
+      sourceTool: review.changeEvent.sourceTool,
+      sourceResourceType: review.changeEvent.sourceResourceType,
+      input: describeChangeInput(review.changeEvent).slice(0, MAX_EXAMPLE_INPUT_LENGTH),
+      label,
+      createdAt: new Date(),
+    });
+
+    this.changeEvents?.appendTimeline({
+      changeEventId: review.changeEvent.id,
+      kind: 'review_resolved',
+      actor: reviewerId,
+      details: {
+        reviewId,
+        corrected: (Object.keys(label) as Array<keyof InterpretationLabel>)
+          .filter(field => JSON.stringify(label[field]) !== JSON.stringify(pending.interpretation[field])),
+        ...label,
+      },
+    });
+
+    return review;
+  }
+
+  async dismiss(reviewId: string, reviewerId: string, reason?: string): Promise<InterpretationReview> {
+    this.getPending(reviewId);
+
+    const review = this.repository.closeReview(reviewId, 'dismissed', reviewerId);
+    if (!review) {
+      throw new Error(`Review ${reviewId} was closed by someone else`);
+    }
+
+    this.changeEvents?.appendTimeline({
+      changeEventId: review.changeEvent.id,
+      kind: 'review_dismissed',
+      actor: reviewerId,
+      details: { reviewId, reason },
+    });
+
+    return review;
+  }
+
+  async getExamples(companyGroupId: string, changeEvent: ChangeEvent): Promise<LabeledExample[]> {
+    const { maxExamples } = this.config;
+    const similar = this.repository.listExamples(companyGroupId, {
+      sourceTool: changeEvent.sourceTool,
+      sourceResourceType: changeEvent.sourceResourceType,
+      limit: maxExamples,
+    });
+    if (similar.length >= maxExamples) {
+      return similar;
+    }
+
+    // Top up with the group's other recent corrections
+    const others = this.repository.listExamples(companyGroupId, { limit: maxExamples * 2 })
+      .filter(example => !similar.some(chosen => chosen.id === example.id));
+    return [...similar, ...others].slice(0, maxExamples);
+  }
+
+  private getPending(reviewId: string): InterpretationReview {
+    const review = this.repository.getReview(reviewId);
+    if (!review) {
+      throw new Error(`Review not found: ${reviewId}`);
+    }
+    if (review.status !== 'pending') {
+      throw new Error(`Review ${reviewId} is already ${review.status}`);
+    }
+    return review;
+  }
+}
+
+/**
+ * The held change event with a resolved review's corrections applied
+ * A reviewer stands behind the corrected interpretation, so it is routed as high confidence.
+ */
+export function correctedChangeEvent(review: InterpretationReview): ChangeEvent {
+  if (review.status !== 'resolved' || !review.correction) {
+    throw new Error(`Review ${review.id} is not resolved`);
+  }
+
+  return {
+    ...review.changeEvent,
+    ...review.correction,
+    confidence: 'high',
+    evidence: [...(review.changeEvent.evidence ?? []), `Interpretation reviewed by ${review.reviewedBy}`],
+  };
+}
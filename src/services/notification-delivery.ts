@@ -0,0 +1,202 @@
+/**
+ * Notification Delivery Service
+ *
+ * Delivers approved notifications to every target configured on their
+ * channel (Slack, email, signed webhook, Microsoft Teams) through pluggable
+ * adapters. Each target is retried with exponential backoff; targets that
+ * still fail are moved to the dead-letter list and can be retried later.
+ *
+ * Only approved notifications reach this service - approval stays with
+ * NotificationService.
+ */
+
+import { Channel, DeliveryTarget, Notification } from '../types/core';
+import { DeadLetter, DeadLetterRepository } from '../db/dead-letter-repository';
+import { logger } from '../utils/logger';
+
+/**
+ * Delivers a notification to one kind of target, in the target's native format
+ */
+export interface DeliveryAdapter {
+  deliver(notification: Notification, target: DeliveryTarget, channel: Channel): Promise<void>;
+}
+
+export interface DeliveryReport {
+  delivered: DeliveryTarget[];
+  deadLettered: DeadLetter[];
+}
+
+export interface NotificationDeliveryService {
+  /**
+   * Deliver to every target of the notification's channel
+   * A channel without targets is in-app only, so nothing is delivered.
+   */
+  deliver(notification: Notification): Promise<DeliveryReport>;
+
+  /**
+   * Try a dead-lettered delivery again
+   * Returns true when it was delivered this time.
+   */
+  retryDeadLetter(deadLetterId: string): Promise<boolean>;
+
+  listDeadLetters(unresolvedOnly?: boolean): Promise<DeadLetter[]>;
+}
+
+export interface DeliveryRetryOptions {
+  maxAttempts?: number;
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+/**
+ * The labelled parts every adapter renders, in display order
+ * Suggested action is omitted when there is none.
+ */
+export function notificationSections(notification: Notification): Array<{ label: string; text: string }> {
+  const sections = [
+    { label: 'Impact', text: notification.impact },
+    { label: 'Why you are seeing this', text: notification.relevance },
+  ];
+  if (notification.suggestedAction) {
+    sections.push({ label: 'Suggested action', text: notification.suggestedAction });
+  }
+  return sections;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_INITIAL_DELAY_MS = 1000;
+const DEFAULT_MAX_DELAY_MS = 30000;
+
+/**
+ * Implementation of NotificationDeliveryService
+ */
+export class NotificationDeliveryServiceImpl implements NotificationDeliveryService {
+  constructor(
+    private adapters: Map<DeliveryTarget['adapter'], DeliveryAdapter>,
+    private channelLookup: (channelId: string) => Promise<Channel | null>,
+    private deadLetters: DeadLetterRepository,
+    private retry: DeliveryRetryOptions = {}
+  ) {}
+
+  async deliver(notification: Notification): Promise<DeliveryReport> {
+    const channel = await this.channelLookup(notification.channelId);
+    if (!channel) {
+      throw new Error(`Channel not found: ${notification.channelId}`);
+    }
+
+    const report: DeliveryReport = { delivered: [], deadLettered: [] };
+
+    for (const target of channel.delivery ?? []) {
+      const { attempts, error } = await this.attempt(notification, target, channel);
+
+      if (!error) {
+        report.delivered.push(target);
+        continue;
+      }
+
+      const deadLetter = this.deadLetters.addDeadLetter({
+        notificationId: notification.id,
+        channelId: channel.id,
+        target,
+        notification,
+        attempts,
+        lastError: error,
+        failedAt: new Date(),
+      });
+      report.deadLettered.push(deadLetter);
+
+      logger.error(`Notification delivery failed; moved to dead letters`, {
+        notificationId: notification.id,
+        channelId: channel.id,
+        adapter: target.adapter,
+        attempts,
+        error,
+      });
+    }
+
+    logger.info(`Delivered notification`, {
+      notificationId: notification.id,
+      channelId: channel.id,
+      delivered: report.delivered.map(target => target.adapter),
+      deadLettered: report.deadLettered.length,
+    });
+
+    return report;
+  }
+
+  async retryDeadLetter(deadLetterId: string): Promise<boolean> {
+    const deadLetter = this.deadLetters.getDeadLetter(deadLetterId);
+    if (!deadLetter) {
+      throw new Error(`Dead letter not found: ${deadLetterId}`);
+    }
+    if (deadLetter.resolvedAt) {
+      return true;
+    }
+
+    // The channel may have been deleted since; the stored target is what was approved
+    const channel = await this.channelLookup(deadLetter.channelId) ?? {
+      id: deadLetter.channelId,
+      companyGroupId: '',
+      type: 'role',
+      name: deadLetter.channelId,
+      createdAt: new Date(0),
+    };
+
+    const { attempts, error } = await this.attempt(deadLetter.notification, deadLetter.target, channel);
+    if (error) {
+      this.deadLetters.recordFailure(deadLetterId, deadLetter.attempts + attempts, error, new Date());
+      return false;
+    }
+
+    this.deadLetters.markResolved(deadLetterId, new Date());
+    logger.info(`Redelivered dead-lettered notification`, {
+      deadLetterId,
+      notificationId: deadLetter.notificationId,
+      adapter: deadLetter.target.adapter,
+    });
+    return true;
+  }
+
+  async listDeadLetters(unresolvedOnly: boolean = true): Promise<DeadLetter[]> {
+    return this.deadLetters.listDeadLetters({ unresolvedOnly });
+  }
+
+  /**
+   * Deliver to a single target, retrying with exponential backoff
+   */
+  private async attempt(
+    notification: Notification,
+    target: DeliveryTarget,
+    channel: Channel
+  ): Promise<{ attempts: number; error?: string }> {
+    const adapter = this.adapters.get(target.adapter);
+    if (!adapter) {
+      return { attempts: 0, error: `No delivery adapter configured for: ${target.adapter}` };
+    }
+
+    const maxAttempts = this.retry.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+    let delay = this.retry.initialDelayMs ?? DEFAULT_INITIAL_DELAY_MS;
+    let lastError = '';
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      try {
+        await adapter.deliver(notification, target, channel);
+        return { attempts: attempt };
+      } catch (error) {
+        lastError = error instanceof Error ? error.message : String(error);
+        logger.warn(`Delivery attempt ${attempt}/${maxAttempts} failed`, {
+          notificationId: notification.id,
+          adapter: target.adapter,
+          error: lastError,
+        });
+      }
+
+      if (attempt < maxAttempts && delay > 0) {
+        await new Promise(resolve => setTimeout(resolve, delay));
+        delay = Math.min(delay * 2, this.retry.maxDelayMs ?? DEFAULT_MAX_DELAY_MS);
+      }
+    }
+
+    return { attempts: maxAttempts, error: lastError };
+  }
+}
@@ -0,0 +1,274 @@
+/**
+ * Notification Digest Service
+ *
+ * Channels with a `digest` frequency don't get approved notifications one by
+ * one. Instead they are held in the channel's open digest, coalesced per
+ * source resource (ten pushes to one PR become one entry), and delivered
+ * together once the hour, day or week is over. Breaking changes skip the
+ * digest and are delivered right away.
+ *
+ * Approval is unchanged: only approved notifications are held, and they
+ * are marked sent when their digest goes out.
+ */
+
+import { Channel, DigestFrequency, Notification } from '../types/core';
+import { DigestRepository, NotificationDigest } from '../db/digest-repository';
+import { NotificationRepository } from '../db/notification-repository';
+import { ChangeEventRepository } from '../db/change-event-repository';
+import { DeliveryReport, NotificationDeliveryService } from './notification-delivery';
+import { logger } from '../utils/logger';
+
+export interface NotificationDigestService {
+  /**
+   * Hold an approved notification for its channel's next digest
+   * Returns false when it should be delivered now: the channel has no
+   * digest, or the change is breaking.
+   */
+  hold(notification: Notification): Promise<boolean>;
+
+  /**
+   * Deliver every open digest that is due, marking its notifications sent
+   * A digest whose delivery failed on every target stays open for the next flush.
+   */
+  flushDue(now?: Date): Promise<NotificationDigest[]>;
+
+  listDigests(filter?: { channelId?: string; status?: NotificationDigest['status']; limit?: number }): Promise<NotificationDigest[]>;
+}
+
+const FREQUENCY_LABELS: Record<DigestFrequency, string> = {
+  hourly: 'Hourly',
+  daily: 'Daily',
+  weekly: 'Weekly',
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * End of the digest window `from` falls in (UTC): the next full hour,
+ * the next midnight, or the next Monday at midnight
+ */
+export function digestDueAt(frequency: DigestFrequency, from: Date): Date {
+  const time = from.getTime();
+
+  switch (frequency) {
+    case 'hourly':
+      return new Date(Math.floor(time / HOUR_MS) * HOUR_MS + HOUR_MS);
+    case 'daily':
+      return new Date(Math.floor(time / DAY_MS) * DAY_MS + DAY_MS);
+    case 'weekly': {
+      const midnight = Math.floor(time / DAY_MS) * DAY_MS;
+      const daysToMonday = (8 - new Date(midnight).getUTCDay()) % 7 || 7;
+      return new Date(midnight + daysToMonday * DAY_MS);
+    }
+  }
+}
+
+/**
+ * Render a digest as one notification, so every delivery adapter can send it as is
+ */
+export function digestToNotification(digest: NotificationDigest, channel: Channel): Notification {
+  const updates = digest.entries.reduce((sum, entry) => sum + entry.notificationIds.length, 0);
+
+  return {
+    id: digest.id,
+    changeEventId: digest.entries[0].changeEventIds[0],
+    channelId: channel.id,
+    role: channel.role,
+    summary: `${FREQUENCY_LABELS[digest.frequency]} digest for ${channel.name}: ${digest.entries.length} ${digest.entries.length === 1 ? 'change' : 'changes'}`,
+    impact: digest.entries
+      .map(entry => {
+        const count = entry.notificationIds.length > 1 ? ` (${entry.notificationIds.length} updates)` : '';
+        const link = entry.resourceUrl ? ` ${entry.resourceUrl}` : '';
+        return `- ${entry.summary}${count}${link}\n  ${entry.impact}`;
+      })
+      .join('\n'),
+    relevance: `${channel.name} receives a ${digest.frequency} digest (${updates} approved ${updates === 1 ? 'update' : 'updates'}); breaking changes are still sent right away`,
+    status: 'approved',
+    createdAt: digest.createdAt,
+  };
+}
+
+/**
+ * Flush due digests every `intervalMs` until stopped
+ */
+export function startDigestFlush(
+  digests: NotificationDigestService,
+  intervalMs: number = 60 * 1000
+): { stop(): void } {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const tick = () => {
+    digests.flushDue()
+      .catch(error => {
+        logger.error(`Digest flush failed`, {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      })
+      .finally(() => {
+        if (timer) {
+          timer = setTimeout(tick, intervalMs);
+        }
+      });
+  };
+
+  timer = setTimeout(tick, intervalMs);
+  return {
+    stop: () => {
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+    },
+  };
+}
+
+/**
+ * Implementation of NotificationDigestService
+ */
+export class NotificationDigestServiceImpl implements NotificationDigestService {
+  constructor(
+    private repository: DigestRepository,
+    private notifications: NotificationRepository,
+    private changeEvents: ChangeEventRepository,
+    private channelLookup: (channelId: string) => Promise<Channel | null>,
+    private delivery?: NotificationDeliveryService
+  ) {}
+
+  async hold(notification: Notification): Promise<boolean> {
+    const channel = await this.channelLookup(notification.channelId);
+    if (!channel?.digest) {
+      return false;
+    }
+
+    const changeEvent = this.changeEvents.getChangeEvent(notification.changeEventId);
+    if (changeEvent?.classification === 'breaking') {
+      return false;
+    }
+
+    const now = new Date();
+    const digest = this.repository.addNotification(channel.id, channel.digest, digestDueAt(channel.digest, now), {
+      notificationId: notification.id,
+      changeEventId: notification.changeEventId,
+      resourceKey: changeEvent
+        ? `${changeEvent.sourceTool}:${changeEvent.sourceResourceId}`
+        : `change-event:${notification.changeEventId}`,
+      resourceUrl: changeEvent?.sourceResourceUrl,
+      summary: notification.summary,
+      impact: notification.impact,
+      at: now,
+    });
+
+    this.changeEvents.appendTimeline({
+      changeEventId: notification.changeEventId,
+      kind: 'notification_digested',
+      occurredAt: now,
+      notificationId: notification.id,
+      details: { channelId: channel.id, digestId: digest.id, dueAt: digest.dueAt.toISOString() },
+    });
+
+    logger.info(`Held notification for digest`, {
+      notificationId: notification.id,
+      channelId: channel.id,
+      digestId: digest.id,
+      dueAt: digest.dueAt.toISOString(),
+    });
+
+    return true;
+  }
+
+  async flushDue(now: Date = new Date()): Promise<NotificationDigest[]> {
+    const sent: NotificationDigest[] = [];
+
+    for (const digest of this.repository.listDueDigests(now)) {
+      try {
+        if (await this.send(digest)) {
+          sent.push(this.repository.getDigest(digest.id)!);
+        }
+      } catch (error) {
+        logger.error(`Digest delivery failed; will retry on the next flush`, {
+          digestId: digest.id,
+          channelId: digest.channelId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return sent;
+  }
+
+  async listDigests(
+    filter: { channelId?: string; status?: NotificationDigest['status']; limit?: number } = {}
+  ): Promise<NotificationDigest[]> {
+    return this.repository.listDigests(filter);
+  }
+
+  private async send(digest: NotificationDigest): Promise<boolean> {
+    const channel = await this.channelLookup(digest.channelId);
+    if (!channel) {
+      throw new Error(`Channel not found: ${digest.channelId}`);
+    }
+
+    // Without delivery (or delivery targets) digests are in-app only
+    const report: DeliveryReport | undefined = this.delivery
+      ? await this.delivery.deliver(digestToNotification(digest, channel))
+      : undefined;
+    if (report && report.delivered.length === 0 && report.deadLettered.length > 0) {
+      throw new Error(`Delivery failed for digest ${digest.id}; ${report.deadLettered.length} target(s) moved to dead letters`);
+    }
+
+    const sentAt = new Date();
+    if (!this.repository.markSent(digest.id, sentAt)) {
+      return false;
+    }
+
+    for (const entry of digest.entries) {
+      for (const notificationId of entry.notificationIds) {
+        this.markNotificationSent(notificationId, digest, sentAt, report);
+      }
+    }
+
+    logger.info(`Sent notification digest`, {
+      digestId: digest.id,
+      channelId: channel.id,
+      entries: digest.entries.length,
+    });
+    return true;
+  }
+
+  private markNotificationSent(
+    notificationId: string,
+    digest: NotificationDigest,
+    sentAt: Date,
+    report?: DeliveryReport
+  ): void {
+    const notification = this.notifications.getNotification(notificationId);
+    if (!notification || notification.status !== 'approved') {
+      return;
+    }
+
+    const updated = this.notifications.updateStatus(
+      { ...notification, status: 'sent', sentAt },
+      notification.version ?? 1,
+      { reason: `Sent in digest ${digest.id}` }
+    );
+    if (!updated) {
+      logger.warn(`Notification changed while its digest was sent`, { notificationId, digestId: digest.id });
+      return;
+    }
+
+    this.changeEvents.appendTimeline({
+      changeEventId: notification.changeEventId,
+      kind: 'notification_sent',
+      occurredAt: sentAt,
+      notificationId,
+      details: {
+        channelId: notification.channelId,
+        role: notification.role,
+        digestId: digest.id,
+        delivered: report?.delivered.map(target => target.adapter) ?? [],
+        deadLettered: report?.deadLettered.map(deadLetter => deadLetter.id) ?? [],
+      },
+    });
+  }
+}
@@ -0,0 +1,253 @@
+/**
+ * Notification Preference Service
+ *
+ * Per-user preferences layered on top of role routing: mute repositories,
+ * components or tools, skip changes below a classification, hold
+ * notifications during quiet hours, and follow specific resources.
+ *
+ * Fan-out starts from the users the role guardrails allow (members with the
+ * channel's role, or everyone for the company-wide channel) and only ever
+ * removes or delays from there. Following a resource overrides the user's
+ * own mutes and minimum classification, never the guardrails.
+ */
+
+import {
+  ChangeClassification,
+  ChangeEvent,
+  Channel,
+  FollowedResource,
+  Notification,
+  NotificationPreferences,
+  QuietHours,
+  User,
+} from '../types/core';
+import { PreferenceRepository } from '../db/preference-repository';
+import { NotificationRecipient } from '../db/notification-repository';
+import { ChangeEventRepository } from '../db/change-event-repository';
+
+/**
+ * Fields of NotificationPreferences a user edits directly
+ * `null` clears the minimum classification or quiet hours.
+ */
+export interface PreferencesUpdate {
+  mutedRepositories?: string[];
+  mutedComponents?: string[];
+  mutedTools?: NotificationPreferences['mutedTools'];
+  minimumClassification?: ChangeClassification | null;
+  quietHours?: QuietHours | null;
+}
+
+export interface FanOutResult {
+  recipients: NotificationRecipient[];
+  suppressed: Array<{ userId: string; reason: string }>;
+}
+
+/**
+ * Decides which users receive a sent notification, and when
+ */
+export interface NotificationFanOut {
+  fanOut(notification: Notification, now?: Date): Promise<FanOutResult>;
+}
+
+export interface NotificationPreferenceService extends NotificationFanOut {
+  /**
+   * Stored preferences, or the defaults (nothing muted) when the user has none
+   */
+  getPreferences(userId: string, companyGroupId: string): Promise<NotificationPreferences>;
+
+  updatePreferences(userId: string, companyGroupId: string, update: PreferencesUpdate): Promise<NotificationPreferences>;
+
+  follow(userId: string, companyGroupId: string, resource: FollowedResource): Promise<NotificationPreferences>;
+
+  /**
+   * Throws when the user doesn't follow the resource
+   */
+  unfollow(userId: string, companyGroupId: string, resource: FollowedResource): Promise<NotificationPreferences>;
+}
+
+const CLASSIFICATION_RANK: Record<ChangeClassification, number> = {
+  cosmetic: 0,
+  functional: 1,
+  breaking: 2,
+};
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MINUTES = 24 * 60;
+
+/**
+ * Implementation of NotificationPreferenceService
+ */
+export class NotificationPreferenceServiceImpl implements NotificationPreferenceService {
+  constructor(
+    private repository: PreferenceRepository,
+    private changeEvents: ChangeEventRepository,
+    private channelLookup: (channelId: string) => Promise<Channel | null>,
+    private userProvider: (companyGroupId: string) => Promise<User[]>
+  ) {}
+
+  async getPreferences(userId: string, companyGroupId: string): Promise<NotificationPreferences> {
+    const stored = this.repository.getPreferences(userId);
+    if (stored && stored.companyGroupId !== companyGroupId) {
+      throw new Error(`User ${userId} has preferences in another company group`);
+    }
+    return stored ?? defaultPreferences(userId, companyGroupId);
+  }
+
+  async updatePreferences(
+    userId: string,
+    companyGroupId: string,
+    update: PreferencesUpdate
+  ): Promise<NotificationPreferences> {
+    const current = await this.getPreferences(userId, companyGroupId);
+
+    return this.repository.savePreferences({
+      ...current,
+      mutedRepositories: update.mutedRepositories ?? current.mutedRepositories,
+      mutedComponents: update.mutedComponents ?? current.mutedComponents,
+      mutedTools: update.mutedTools ?? current.mutedTools,
+      minimumClassification: update.minimumClassification === null
+        ? undefined
+        : update.minimumClassification ?? current.minimumClassification,
+      quietHours: update.quietHours === null ? undefined : update.quietHours ?? current.quietHours,
+      updatedAt: new Date(),
+    });
+  }
+
+  async follow(userId: string, companyGroupId: string, resource: FollowedResource): Promise<NotificationPreferences> {
+    const current = await this.getPreferences(userId, companyGroupId);
+    if (current.follows.some(follow => sameResource(follow, resource))) {
+      return current;
+    }
+
+    return this.repository.savePreferences({
+      ...current,
+      follows: [...current.follows, resource],
+      updatedAt: new Date(),
+    });
+  }
+
+  async unfollow(userId: string, companyGroupId: string, resource: FollowedResource): Promise<NotificationPreferences> {
+    const current = await this.getPreferences(userId, companyGroupId);
+    if (!current.follows.some(follow => sameResource(follow, resource))) {
+      throw new Error(`User ${userId} does not follow ${resource.tool}:${resource.resourceId}`);
+    }
+
+    return this.repository.savePreferences({
+      ...current,
+      follows: current.follows.filter(follow => !sameResource(follow, resource)),
+      updatedAt: new Date(),
+    });
+  }
+
+  async fanOut(notification: Notification, now: Date = new Date()): Promise<FanOutResult> {
+    const result: FanOutResult = { recipients: [], suppressed: [] };
+
+    const channel = await this.channelLookup(notification.channelId);
+    if (!channel) {
+      return result;
+    }
+
+    // The guardrail: only users the channel's role already covers
+    const users = (await this.userProvider(channel.companyGroupId))
+      .filter(user => channel.type === 'everyone' || (channel.role !== undefined && user.roles.includes(channel.role)));
+    const changeEvent = this.changeEvents.getChangeEvent(notification.changeEventId);
+
+    for (const user of users) {
+      const preferences = this.repository.getPreferences(user.id);
+      const reason = preferences && changeEvent ? suppressionReason(preferences, changeEvent) : undefined;
+
+      if (reason) {
+        result.suppressed.push({ userId: user.id, reason });
+      } else {
+        result.recipients.push({ userId: user.id, deliverAt: quietHoursEnd(preferences?.quietHours, now) ?? now });
+      }
+    }
+
+    return result;
+  }
+}
+
+function defaultPreferences(userId: string, companyGroupId: string): NotificationPreferences {
+  return {
+    userId,
+    companyGroupId,
+    mutedRepositories: [],
+    mutedComponents: [],
+    mutedTools: [],
+    follows: [],
+    updatedAt: new Date(0),
+  };
+}
+
+/**
+ * Why the user's own preferences keep this change from them, if they do
+ */
+function suppressionReason(preferences: NotificationPreferences, changeEvent: ChangeEvent): string | undefined {
+  const resources = [
+    { tool: changeEvent.sourceTool, resourceId: changeEvent.sourceResourceId },
+    ...(changeEvent.relatedResources ?? []),
+  ];
+  if (preferences.follows.some(follow => resources.some(resource => sameResource(follow, resource)))) {
+    return undefined;
+  }
+
+  if (preferences.mutedTools.includes(changeEvent.sourceTool)) {
+    return `Muted tool ${changeEvent.sourceTool}`;
+  }
+
+  const repository = (changeEvent.rawChangeData as Record<string, unknown> | undefined)?.repository;
+  if (typeof repository === 'string' && preferences.mutedRepositories.includes(repository)) {
+    return `Muted repository ${repository}`;
+  }
+
+  // Only when every impacted component is muted; one unmuted component still concerns the user
+  const components = changeEvent.impactedComponents ?? [];
+  if (components.length > 0 && components.every(component => preferences.mutedComponents.includes(component))) {
+    return `Muted ${components.length === 1 ? 'component' : 'components'} ${components.join(', ')}`;
+  }
+
+  if (
+    preferences.minimumClassification &&
+    changeEvent.classification &&
+    CLASSIFICATION_RANK[changeEvent.classification] < CLASSIFICATION_RANK[preferences.minimumClassification]
+  ) {
+    return `Below minimum classification ${preferences.minimumClassification}`;
+  }
+
+  return undefined;
+}
+
+/**
+ * When quiet hours covering `now` end, or undefined outside quiet hours
+ */
+function quietHoursEnd(quietHours: QuietHours | undefined, now: Date): Date | undefined {
+  if (!quietHours) return undefined;
+
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+  const local = localMinutes(now, quietHours.timeZone);
+
+  const quiet = start < end
+    ? local >= start && local < end
+    : start > end && (local >= start || local < end);
+  if (!quiet) return undefined;
+
+  const minuteStart = Math.floor(now.getTime() / MINUTE_MS) * MINUTE_MS;
+  return new Date(minuteStart + ((end - local + DAY_MINUTES) % DAY_MINUTES) * MINUTE_MS);
+}
+
+function localMinutes(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-GB', { timeZone, hour: '2-digit', minute: '2-digit', hourCycle: 'h23' })
+    .formatToParts(date);
+  const part = (type: string) => Number(parts.find(candidate => candidate.type === type)?.value ?? 0);
+  return part('hour') * 60 + part('minute');
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function sameResource(a: FollowedResource, b: { tool: string; resourceId: string }): boolean {
+  return a.tool === b.tool && a.resourceId === b.resourceId;
+}
@@ -1,60 +1,142 @@
 /**
  * Notification Service
- * 
+ *
  * Handles notification delivery with strict role relevance checks.
  * All notifications require explicit human approval before sending.
+ * Notifications and their status history are persisted; approvals,
+ * rejections and sends are also recorded on the change event's timeline
+ * when a ChangeEventRepository is given. Approved notifications are
+ * delivered through NotificationDeliveryService when one is given, or held
+ * for a digest when their channel is in digest mode. With a
+ * NotificationFanOut, sent notifications also reach individual users'
+ * inboxes according to their preferences.
  */
 
-import { Notification, Channel, User } from '../types/core';
+import { Notification, Role } from '../types/core';
+import { NotificationRepository, NotificationStatusChange, UserNotification } from '../db/notification-repository';
+import { ChangeEventRepository } from '../db/change-event-repository';
+import { NotificationDeliveryService } from './notification-delivery';
+import { NotificationDigestService } from './notification-digest';
+import { NotificationFanOut } from './notification-preferences';
 import { logger } from '../utils/logger';
 import { randomUUID } from 'crypto';
 
 export interface NotificationService {
   /**
    * Create notification (in pending status, awaiting approval)
+   * A channel is notified about a change event once; creating the same
+   * notification again returns the existing one.
    */
-  createNotification(notification: Omit<Notification, 'id' | 'createdAt'>): Promise<Notification>;
+  createNotification(notification: Omit<Notification, 'id' | 'createdAt' | 'version'>): Promise<Notification>;
+
+  getNotification(notificationId: string): Promise<Notification | null>;
+
+  /**
+   * The notification a channel got for a change event, if any
+   */
+  findNotification(changeEventId: string, channelId: string): Promise<Notification | null>;
 
   /**
    * Approve notification for sending
+   * Pass the version the approver saw to refuse the approval if anyone acted on it since.
    */
-  approveNotification(notificationId: string, approvedBy: string): Promise<void>;
+  approveNotification(notificationId: string, approvedBy: string, expectedVersion?: number): Promise<Notification>;
 
   /**
    * Reject notification
    */
-  rejectNotification(notificationId: string, rejectedBy: string, reason?: string): Promise<void>;
+  rejectNotification(
+    notificationId: string,
+    rejectedBy: string,
+    reason?: string,
+    expectedVersion?: number
+  ): Promise<Notification>;
+
+  /**
+   * Approve several notifications; each one succeeds or fails on its own
+   */
+  bulkApprove(notificationIds: string[], approvedBy: string): Promise<BulkNotificationResult>;
 
   /**
-   * Send approved notification to channel
-   * This should integrate with the actual notification delivery mechanism
+   * Reject several notifications; each one succeeds or fails on its own
+   */
+  bulkReject(notificationIds: string[], rejectedBy: string, reason?: string): Promise<BulkNotificationResult>;
+
+  /**
+   * Deliver an approved notification to its channel's targets
+   * Fails (leaving it approved) when every target was dead-lettered.
+   * Channels in digest mode hold it (still approved) for their next digest,
+   * unless the change is breaking. Users' inboxes get it either way.
    */
   sendNotification(notificationId: string): Promise<void>;
 
+  /**
+   * A user's inbox, newest first, leaving out what their quiet hours still hold back
+   */
+  getUserNotifications(userId: string, options?: { limit?: number; offset?: number }): Promise<UserNotification[]>;
+
   /**
    * Get pending notifications awaiting approval
    */
   getPendingNotifications(channelId?: string): Promise<Notification[]>;
+
+  /**
+   * Pending notifications, oldest first
+   */
+  getApprovalQueue(filter?: ApprovalQueueFilter): Promise<Notification[]>;
+
+  /**
+   * Every status the notification has been through, oldest first
+   */
+  getStatusHistory(notificationId: string): Promise<NotificationStatusChange[]>;
+}
+
+export interface ApprovalQueueFilter {
+  channelId?: string;
+  role?: Role;
+  olderThan?: Date; // Created at or before
+  newerThan?: Date; // Created at or after
+  limit?: number;
+  offset?: number;
+}
+
+export interface BulkNotificationResult {
+  succeeded: Notification[];
+  failed: Array<{ notificationId: string; error: string }>;
 }
 
 /**
  * Implementation of NotificationService
  */
 export class NotificationServiceImpl implements NotificationService {
-  private notifications: Map<string, Notification> = new Map();
+  constructor(
+    private repository: NotificationRepository,
+    private changeEvents?: ChangeEventRepository,
+    private delivery?: NotificationDeliveryService,
+    private digests?: NotificationDigestService,
+    private fanOut?: NotificationFanOut
+  ) {}
 
   async createNotification(
-    notification: Omit<Notification, 'id' | 'createdAt'>
+    notification: Omit<Notification, 'id' | 'createdAt' | 'version'>
   ): Promise<Notification> {
+    const existing = this.repository.findNotification(notification.changeEventId, notification.channelId);
+    if (existing) {
+      logger.debug(`Notification already exists`, {
+        notificationId: existing.id,
+        changeEventId: notification.changeEventId,
+        channelId: notification.channelId,
+      });
+      return existing;
+    }
+
     const id = randomUUID();
-    const fullNotification: Notification = {
+    const fullNotification = this.repository.createNotification({
       ...notification,
       id,
       status: 'pending', // Always start as pending
       createdAt: new Date(),
-    };
-
-    this.notifications.set(id, fullNotification);
+    });
 
     logger.info(`Created notification`, {
       notificationId: id,
@@ -66,54 +148,70 @@ export class NotificationServiceImpl implements NotificationService {
     return fullNotification;
   }
 
-  async approveNotification(notificationId: string, approvedBy: string): Promise<void> {
-    const notification = this.notifications.get(notificationId);
-    if (!notification) {
-      throw new Error(`Notification not found: ${notificationId}`);
-    }
+  async getNotification(notificationId: string): Promise<Notification | null> {
+    return this.repository.getNotification(notificationId);
+  }
 
-    if (notification.status !== 'pending') {
-      throw new Error(`Notification ${notificationId} is not pending approval`);
-    }
+  async findNotification(changeEventId: string, channelId: string): Promise<Notification | null> {
+    return this.repository.findNotification(changeEventId, channelId);
+  }
 
-    const updated: Notification = {
+  async approveNotification(
+    notificationId: string,
+    approvedBy: string,
+    expectedVersion?: number
+  ): Promise<Notification> {
+    const notification = this.getPendingNotification(notificationId, expectedVersion);
+
+    const updated = this.updateStatus(notification, {
       ...notification,
       status: 'approved',
       approvedBy,
       approvedAt: new Date(),
-    };
+    }, { actor: approvedBy });
 
-    this.notifications.set(notificationId, updated);
+    this.changeEvents?.appendTimeline({
+      changeEventId: notification.changeEventId,
+      kind: 'notification_approved',
+      occurredAt: updated.approvedAt,
+      actor: approvedBy,
+      notificationId,
+      details: { channelId: notification.channelId },
+    });
 
     logger.info(`Approved notification`, {
       notificationId,
       approvedBy,
       changeEventId: notification.changeEventId,
     });
+
+    return updated;
   }
 
   async rejectNotification(
     notificationId: string,
     rejectedBy: string,
-    reason?: string
-  ): Promise<void> {
-    const notification = this.notifications.get(notificationId);
-    if (!notification) {
-      throw new Error(`Notification not found: ${notificationId}`);
-    }
-
-    if (notification.status !== 'pending') {
-      throw new Error(`Notification ${notificationId} is not pending approval`);
-    }
+    reason?: string,
+    expectedVersion?: number
+  ): Promise<Notification> {
+    const notification = this.getPendingNotification(notificationId, expectedVersion);
 
-    const updated: Notification = {
+    const updated = this.updateStatus(notification, {
       ...notification,
       status: 'rejected',
-      approvedBy: rejectedBy, // Reusing field for audit trail
-      approvedAt: new Date(),
-    };
+      rejectedBy,
+      rejectedAt: new Date(),
+      rejectionReason: reason,
+    }, { actor: rejectedBy, reason });
 
-    this.notifications.set(notificationId, updated);
+    this.changeEvents?.appendTimeline({
+      changeEventId: notification.changeEventId,
+      kind: 'notification_rejected',
+      occurredAt: updated.rejectedAt,
+      actor: rejectedBy,
+      notificationId,
+      details: { channelId: notification.channelId, reason },
+    });
 
     logger.info(`Rejected notification`, {
       notificationId,
@@ -121,10 +219,20 @@ export class NotificationServiceImpl implements NotificationService {
       reason,
       changeEventId: notification.changeEventId,
     });
+
+    return updated;
+  }
+
+  async bulkApprove(notificationIds: string[], approvedBy: string): Promise<BulkNotificationResult> {
+    return this.forEachNotification(notificationIds, id => this.approveNotification(id, approvedBy));
+  }
+
+  async bulkReject(notificationIds: string[], rejectedBy: string, reason?: string): Promise<BulkNotificationResult> {
+    return this.forEachNotification(notificationIds, id => this.rejectNotification(id, rejectedBy, reason));
   }
 
   async sendNotification(notificationId: string): Promise<void> {
-    const notification = this.notifications.get(notificationId);
+    const notification = this.repository.getNotification(notificationId);
     if (!notification) {
       throw new Error(`Notification not found: ${notificationId}`);
     }
@@ -133,19 +241,40 @@ export class NotificationServiceImpl implements NotificationService {
       throw new Error(`Notification ${notificationId} is not approved`);
     }
 
-    // TODO: Integrate with actual notification delivery
-    // - Slack API
-    // - Email
-    // - In-app notifications
-    // - Desktop notifications (Tauri)
+    if (this.fanOut) {
+      await this.fanOutToUsers(notification);
+    }
+
+    if (this.digests && await this.digests.hold(notification)) {
+      return;
+    }
 
-    const updated: Notification = {
+    // Without delivery (or delivery targets) notifications are in-app only
+    const report = this.delivery ? await this.delivery.deliver(notification) : undefined;
+    if (report && report.delivered.length === 0 && report.deadLettered.length > 0) {
+      throw new Error(
+        `Delivery failed for notification ${notificationId}; ${report.deadLettered.length} target(s) moved to dead letters`
+      );
+    }
+
+    const updated = this.updateStatus(notification, {
       ...notification,
       status: 'sent',
       sentAt: new Date(),
-    };
+    }, {});
 
-    this.notifications.set(notificationId, updated);
+    this.changeEvents?.appendTimeline({
+      changeEventId: notification.changeEventId,
+      kind: 'notification_sent',
+      occurredAt: updated.sentAt,
+      notificationId,
+      details: {
+        channelId: notification.channelId,
+        role: notification.role,
+        delivered: report?.delivered.map(target => target.adapter) ?? [],
+        deadLettered: report?.deadLettered.map(deadLetter => deadLetter.id) ?? [],
+      },
+    });
 
     logger.info(`Sent notification`, {
       notificationId,
@@ -154,11 +283,111 @@ export class NotificationServiceImpl implements NotificationService {
     });
   }
 
+  async getUserNotifications(
+    userId: string,
+    options: { limit?: number; offset?: number } = {}
+  ): Promise<UserNotification[]> {
+    return this.repository.listUserNotifications(userId, { ...options, deliverableAt: new Date() });
+  }
+
   async getPendingNotifications(channelId?: string): Promise<Notification[]> {
-    const pending = Array.from(this.notifications.values()).filter(
-      n => n.status === 'pending' && (!channelId || n.channelId === channelId)
-    );
+    return this.getApprovalQueue({ channelId });
+  }
+
+  async getApprovalQueue(filter: ApprovalQueueFilter = {}): Promise<Notification[]> {
+    return this.repository.listNotifications({
+      status: 'pending',
+      channelId: filter.channelId,
+      role: filter.role,
+      createdBefore: filter.olderThan,
+      createdAfter: filter.newerThan,
+      limit: filter.limit,
+      offset: filter.offset,
+    });
+  }
+
+  async getStatusHistory(notificationId: string): Promise<NotificationStatusChange[]> {
+    return this.repository.getStatusHistory(notificationId);
+  }
+
+  /**
+   * Record which users get the notification; who was left out, and why, goes on the timeline
+   */
+  private async fanOutToUsers(notification: Notification): Promise<void> {
+    const now = new Date();
+    const { recipients, suppressed } = await this.fanOut!.fanOut(notification, now);
+    this.repository.addRecipients(notification.id, recipients);
+
+    this.changeEvents?.appendTimeline({
+      changeEventId: notification.changeEventId,
+      kind: 'notification_fanned_out',
+      occurredAt: now,
+      notificationId: notification.id,
+      details: {
+        channelId: notification.channelId,
+        recipients: recipients.map(recipient => recipient.userId),
+        deferred: recipients
+          .filter(recipient => recipient.deliverAt > now)
+          .map(recipient => ({ userId: recipient.userId, deliverAt: recipient.deliverAt.toISOString() })),
+        suppressed,
+      },
+    });
+  }
+
+  /**
+   * Load a notification that must still be pending (and at the expected version, if given)
+   */
+  private getPendingNotification(notificationId: string, expectedVersion?: number): Notification {
+    const notification = this.repository.getNotification(notificationId);
+    if (!notification) {
+      throw new Error(`Notification not found: ${notificationId}`);
+    }
+
+    if (expectedVersion !== undefined && notification.version !== expectedVersion) {
+      throw new Error(
+        `Notification ${notificationId} was modified (version ${notification.version}, expected ${expectedVersion})`
+      );
+    }
+
+    if (notification.status !== 'pending') {
+      throw new Error(`Notification ${notificationId} is not pending approval`);
+    }
+
+    return notification;
+  }
+
+  /**
+   * Write a status change, failing if someone else changed the notification after it was read
+   */
+  private updateStatus(
+    current: Notification,
+    updated: Notification,
+    change: { actor?: string; reason?: string }
+  ): Notification {
+    const saved = this.repository.updateStatus(updated, current.version ?? 1, change);
+    if (!saved) {
+      throw new Error(`Notification ${current.id} was modified concurrently; reload and try again`);
+    }
+    return saved;
+  }
+
+  private async forEachNotification(
+    notificationIds: string[],
+    action: (notificationId: string) => Promise<Notification>
+  ): Promise<BulkNotificationResult> {
+    const result: BulkNotificationResult = { succeeded: [], failed: [] };
+
+    for (const notificationId of new Set(notificationIds)) {
+      try {
+        result.succeeded.push(await action(notificationId));
+      } catch (error) {
+        result.failed.push({
+          notificationId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
 
-    return pending;
+    return result;
   }
 }
@@ -4,12 +4,24 @@
  * Handles first-time user setup:
  * 1. Unique Identity (display name + tag)
  * 2. Role Selection
- * 3. Company Group (join or create)
+ * 3. Company Group (join with an invite, or create)
+ *
+ * and membership afterwards: group admins invite people, change members'
+ * roles and appoint other admins. Every role change goes into an audit
+ * trail, and a member gaining a role gets that role's channel created.
  */
 
 import { User, UserIdentity, CompanyGroup, Channel, Role } from '../types/core';
+import { ChannelRepository, SqliteChannelRepository } from '../db/channel-repository';
+import { GroupInvite, GroupMember, RoleChange, SqliteUserRepository, UserRepository } from '../db/user-repository';
+import { openSyncDatabase } from '../db/database';
 import { logger } from '../utils/logger';
-import { randomUUID } from 'crypto';
+import { randomBytes, randomUUID } from 'crypto';
+
+export interface InviteOptions {
+  maxUses?: number; // Unlimited when omitted
+  expiresInMs?: number; // Never expires when omitted
+}
 
 export interface OnboardingService {
   /**
@@ -28,10 +40,13 @@ export interface OnboardingService {
    */
   createCompanyGroup(name: string, createdBy: string): Promise<CompanyGroup>;
 
+  getCompanyGroup(companyGroupId: string): Promise<CompanyGroup | null>;
+
   /**
-   * Join an existing company group
+   * Join a company group with an invite code
+   * Throws when the invite is unknown, expired, revoked or used up.
    */
-  joinCompanyGroup(userId: string, groupSlug: string): Promise<void>;
+  joinCompanyGroup(userId: string, inviteCode: string): Promise<GroupMember>;
 
   /**
    * Complete onboarding - creates user with identity, roles, and company group
@@ -39,26 +54,61 @@ export interface OnboardingService {
    */
   completeOnboarding(data: {
     displayName: string;
-    tag: string;
     roles: Role[];
-    companyGroupName: string;
-    isCreatingNewGroup: boolean;
-    existingGroupSlug?: string;
+    companyGroupName?: string;
+    isCreatingNewGroup?: boolean;
+    inviteCode?: string;
   }): Promise<{
     user: User;
-    companyGroup: CompanyGroup;
-    channels: Channel[];
+    companyGroup?: CompanyGroup;
+    channels?: Channel[];
   }>;
+
+  /**
+   * Create an invite to a company group (admins only)
+   */
+  createInvite(companyGroupId: string, createdBy: string, options?: InviteOptions): Promise<GroupInvite>;
+
+  getInvite(code: string): Promise<GroupInvite | null>;
+
+  /**
+   * Stop an invite from being used (admins only)
+   */
+  revokeInvite(code: string, revokedBy: string): Promise<GroupInvite>;
+
+  listMembers(companyGroupId: string): Promise<GroupMember[]>;
+
+  /**
+   * Replace a member's roles (admins only)
+   * Creates channels for new roles and records the change.
+   */
+  setMemberRoles(companyGroupId: string, userId: string, roles: Role[], changedBy: string): Promise<GroupMember>;
+
+  /**
+   * Appoint or remove a group admin (admins only)
+   * A group always keeps at least one admin.
+   */
+  setAdmin(companyGroupId: string, userId: string, isAdmin: boolean, changedBy: string): Promise<GroupMember>;
+
+  /**
+   * Role change audit trail, oldest first
+   */
+  getRoleChanges(companyGroupId: string, userId?: string): Promise<RoleChange[]>;
 }
 
 /**
  * Implementation of OnboardingService
+ * Without repositories, users, groups and channels live in an in-memory database.
  */
 export class OnboardingServiceImpl implements OnboardingService {
-  private users: Map<string, User> = new Map();
-  private identities: Map<string, UserIdentity> = new Map();
-  private companyGroups: Map<string, CompanyGroup> = new Map();
-  private channels: Map<string, Channel> = new Map();
+  private channelRepository: ChannelRepository;
+  private userRepository: UserRepository;
+
+  constructor(channelRepository?: ChannelRepository, userRepository?: UserRepository) {
+    const db = channelRepository && userRepository ? undefined : openSyncDatabase(':memory:');
+    this.channelRepository = channelRepository ?? new SqliteChannelRepository(db!);
+    this.userRepository = userRepository ?? new SqliteUserRepository(db!);
+  }
 
   async createIdentity(displayName: string): Promise<UserIdentity> {
     // Generate unique hexadecimal tag
@@ -78,7 +128,7 @@ export class OnboardingServiceImpl implements OnboardingService {
       }
     } while (
       // Check if tag is already taken
-      Array.from(this.identities.values()).some(i => i.tag === tag)
+      this.userRepository.isTagTaken(tag)
     );
 
     const identity: UserIdentity = {
@@ -89,7 +139,7 @@ export class OnboardingServiceImpl implements OnboardingService {
       createdAt: new Date(),
     };
 
-    this.identities.set(identity.id, identity);
+    this.userRepository.saveIdentity(identity);
 
     logger.info(`Created user identity`, {
       identityId: identity.id,
@@ -104,12 +154,12 @@ export class OnboardingServiceImpl implements OnboardingService {
       throw new Error('User must have at least one role');
     }
 
-    const identity = this.identities.get(identityId);
+    const identity = this.userRepository.getIdentity(identityId);
     if (!identity) {
       throw new Error(`Identity not found: ${identityId}`);
     }
 
-    // Store roles with identity (in real implementation, would be in database)
+    this.userRepository.setSelectedRoles(identityId, roles);
     logger.info(`Selected roles for identity`, {
       identityId,
       roles,
@@ -124,10 +174,7 @@ export class OnboardingServiceImpl implements OnboardingService {
       .replace(/^-+|-+$/g, '');
 
     // Check if slug is taken
-    const existingGroup = Array.from(this.companyGroups.values()).find(
-      g => g.slug === slug
-    );
-    if (existingGroup) {
+    if (this.userRepository.findGroupBySlug(slug)) {
       throw new Error(`Company group with slug "${slug}" already exists`);
     }
 
@@ -139,7 +186,7 @@ export class OnboardingServiceImpl implements OnboardingService {
       updatedAt: new Date(),
     };
 
-    this.companyGroups.set(group.id, group);
+    this.userRepository.saveGroup(group, createdBy);
 
     // Create default channels for the group
     await this.createDefaultChannels(group.id);
@@ -154,31 +201,44 @@ export class OnboardingServiceImpl implements OnboardingService {
     return group;
   }
 
-  async joinCompanyGroup(userId: string, groupSlug: string): Promise<void> {
-    const group = Array.from(this.companyGroups.values()).find(
-      g => g.slug === groupSlug
-    );
-    if (!group) {
-      throw new Error(`Company group not found: ${groupSlug}`);
-    }
+  async getCompanyGroup(companyGroupId: string): Promise<CompanyGroup | null> {
+    return this.userRepository.getGroup(companyGroupId);
+  }
+
+  async joinCompanyGroup(userId: string, inviteCode: string): Promise<GroupMember> {
+    const group = this.invitedGroup(inviteCode);
 
-    const user = this.users.get(userId);
-    if (!user) {
+    const identity = this.userRepository.getIdentity(userId);
+    if (!identity) {
       throw new Error(`User not found: ${userId}`);
     }
+    const current = this.userRepository.getMember(userId);
+    if (current?.companyGroupId === group.id) {
+      return current;
+    }
+    const roles = current?.roles ?? this.userRepository.getSelectedRoles(userId);
+    if (roles.length === 0) {
+      throw new Error('User must have at least one role');
+    }
+
+    this.useInvite(inviteCode);
 
-    // Update user's company group
-    const updatedUser: User = {
-      ...user,
+    // Admin rights don't carry over from a previous group
+    const member = this.userRepository.saveMember({
+      ...identity,
+      roles,
       companyGroupId: group.id,
-    };
-    this.users.set(userId, updatedUser);
+      isAdmin: false,
+    });
+    await this.recordRoleChange(group.id, userId, [], roles, userId);
 
     logger.info(`User joined company group`, {
       userId,
       groupId: group.id,
-      groupSlug,
+      groupSlug: group.slug,
     });
+
+    return member;
   }
 
   async completeOnboarding(data: {
@@ -186,12 +246,17 @@ export class OnboardingServiceImpl implements OnboardingService {
     roles: Role[];
     companyGroupName?: string;
     isCreatingNewGroup?: boolean;
-    existingGroupSlug?: string;
+    inviteCode?: string;
   }): Promise<{
     user: User;
     companyGroup?: CompanyGroup;
     channels?: Channel[];
   }> {
+    // Check the invite first, so a bad code doesn't leave an identity behind
+    const invitedGroup = !data.isCreatingNewGroup && data.inviteCode
+      ? this.invitedGroup(data.inviteCode)
+      : undefined;
+
     // 1. Create identity (tag is auto-generated)
     const identity = await this.createIdentity(data.displayName);
 
@@ -201,40 +266,27 @@ export class OnboardingServiceImpl implements OnboardingService {
     // 3. Create a default company group if none provided
     // (Company groups can be handled later in a separate flow)
     let companyGroup: CompanyGroup | undefined;
-    let channels: Channel[] = [];
     
     if (data.isCreatingNewGroup && data.companyGroupName) {
       companyGroup = await this.createCompanyGroup(data.companyGroupName, identity.id);
-      channels = Array.from(this.channels.values()).filter(
-        c => c.companyGroupId === companyGroup!.id
-      );
-    } else if (data.existingGroupSlug) {
-      const group = Array.from(this.companyGroups.values()).find(
-        g => g.slug === data.existingGroupSlug
-      );
-      if (group) {
-        companyGroup = group;
-        channels = Array.from(this.channels.values()).filter(
-          c => c.companyGroupId === companyGroup!.id
-        );
-      }
+    } else if (invitedGroup && data.inviteCode) {
+      this.useInvite(data.inviteCode);
+      companyGroup = invitedGroup;
     }
     
     // If no company group, create a placeholder (user can join later)
     if (!companyGroup) {
       companyGroup = await this.createCompanyGroup(`${data.displayName}'s Group`, identity.id);
-      channels = Array.from(this.channels.values()).filter(
-        c => c.companyGroupId === companyGroup!.id
-      );
     }
 
-    // 4. Create user
-    const user: User = {
+    // 4. Create user; whoever creates a group is its first admin
+    const user = this.userRepository.saveMember({
       ...identity,
       roles: data.roles,
       companyGroupId: companyGroup.id,
-    };
-    this.users.set(user.id, user);
+      isAdmin: !invitedGroup,
+    });
+    await this.recordRoleChange(companyGroup.id, user.id, [], data.roles, user.id);
 
     logger.info(`Completed onboarding`, {
       userId: user.id,
@@ -246,10 +298,107 @@ export class OnboardingServiceImpl implements OnboardingService {
     return {
       user,
       companyGroup,
-      channels,
+      channels: this.channelRepository.listChannels(companyGroup.id),
     };
   }
 
+  async createInvite(companyGroupId: string, createdBy: string, options: InviteOptions = {}): Promise<GroupInvite> {
+    this.requireAdmin(companyGroupId, createdBy, 'create invites');
+
+    const now = new Date();
+    const invite = this.userRepository.saveInvite({
+      code: randomBytes(16).toString('hex'),
+      companyGroupId,
+      createdBy,
+      maxUses: options.maxUses,
+      uses: 0,
+      expiresAt: options.expiresInMs !== undefined ? new Date(now.getTime() + options.expiresInMs) : undefined,
+      createdAt: now,
+    });
+
+    logger.info(`Created company group invite`, {
+      companyGroupId,
+      createdBy,
+      maxUses: invite.maxUses,
+      expiresAt: invite.expiresAt,
+    });
+
+    return invite;
+  }
+
+  async getInvite(code: string): Promise<GroupInvite | null> {
+    return this.userRepository.getInvite(code);
+  }
+
+  async revokeInvite(code: string, revokedBy: string): Promise<GroupInvite> {
+    const invite = this.userRepository.getInvite(code);
+    if (!invite) {
+      throw new Error(`Invite not found: ${code}`);
+    }
+    this.requireAdmin(invite.companyGroupId, revokedBy, 'revoke invites');
+
+    this.userRepository.revokeInvite(code, new Date());
+
+    logger.info(`Revoked company group invite`, {
+      companyGroupId: invite.companyGroupId,
+      revokedBy,
+    });
+
+    return this.userRepository.getInvite(code)!;
+  }
+
+  async listMembers(companyGroupId: string): Promise<GroupMember[]> {
+    return this.userRepository.listMembers(companyGroupId);
+  }
+
+  async setMemberRoles(companyGroupId: string, userId: string, roles: Role[], changedBy: string): Promise<GroupMember> {
+    this.requireAdmin(companyGroupId, changedBy, 'change roles');
+    if (roles.length === 0) {
+      throw new Error('User must have at least one role');
+    }
+    const member = this.groupMember(companyGroupId, userId);
+
+    const updated = this.userRepository.saveMember({ ...member, roles });
+    await this.recordRoleChange(companyGroupId, userId, member.roles, roles, changedBy);
+
+    logger.info(`Changed member roles`, {
+      companyGroupId,
+      userId,
+      previousRoles: member.roles,
+      roles,
+      changedBy,
+    });
+
+    return updated;
+  }
+
+  async setAdmin(companyGroupId: string, userId: string, isAdmin: boolean, changedBy: string): Promise<GroupMember> {
+    this.requireAdmin(companyGroupId, changedBy, 'appoint admins');
+    const member = this.groupMember(companyGroupId, userId);
+
+    if (member.isAdmin && !isAdmin) {
+      const admins = this.userRepository.listMembers(companyGroupId).filter(m => m.isAdmin);
+      if (admins.length === 1) {
+        throw new Error('A company group needs at least one admin');
+      }
+    }
+
+    const updated = this.userRepository.saveMember({ ...member, isAdmin });
+
+    logger.info(`Changed group admin`, {
+      companyGroupId,
+      userId,
+      isAdmin,
+      changedBy,
+    });
+
+    return updated;
+  }
+
+  async getRoleChanges(companyGroupId: string, userId?: string): Promise<RoleChange[]> {
+    return this.userRepository.listRoleChanges(companyGroupId, userId);
+  }
+
   /**
    * Create default channels for a company group
    * - Everyone channel (company-wide)
@@ -265,11 +414,10 @@ export class OnboardingServiceImpl implements OnboardingService {
       description: 'Company-wide channel for major cross-cutting impacts',
       createdAt: new Date(),
     };
-    this.channels.set(everyoneChannel.id, everyoneChannel);
+    this.channelRepository.saveChannel(everyoneChannel);
 
-    // Note: Role-specific channels are typically created on-demand
-    // or when first user with that role joins
-    // For now, we just create the everyone channel
+    // Role-specific channels are created as members with those roles
+    // join or are given them (see ensureRoleChannel)
 
     logger.info(`Created default channels for company group`, {
       companyGroupId,
@@ -280,9 +428,7 @@ export class OnboardingServiceImpl implements OnboardingService {
    * Ensure role-specific channel exists for a role
    */
   async ensureRoleChannel(companyGroupId: string, role: Role): Promise<Channel> {
-    const existing = Array.from(this.channels.values()).find(
-      c => c.companyGroupId === companyGroupId && c.type === 'role' && c.role === role
-    );
+    const existing = this.channelRepository.findRoleChannel(companyGroupId, role);
 
     if (existing) {
       return existing;
@@ -298,7 +444,7 @@ export class OnboardingServiceImpl implements OnboardingService {
       createdAt: new Date(),
     };
 
-    this.channels.set(channel.id, channel);
+    this.channelRepository.saveChannel(channel);
 
     logger.info(`Created role channel`, {
       channelId: channel.id,
@@ -308,4 +454,76 @@ export class OnboardingServiceImpl implements OnboardingService {
 
     return channel;
   }
+
+  /**
+   * Audit a role change and make sure every role has its channel
+   */
+  private async recordRoleChange(
+    companyGroupId: string,
+    userId: string,
+    previousRoles: Role[],
+    roles: Role[],
+    changedBy: string
+  ): Promise<void> {
+    this.userRepository.appendRoleChange({
+      companyGroupId,
+      userId,
+      changedBy,
+      previousRoles,
+      roles,
+      changedAt: new Date(),
+    });
+    for (const role of roles) {
+      await this.ensureRoleChannel(companyGroupId, role);
+    }
+  }
+
+  /**
+   * The group an invite leads to; throws unless the invite can still be used
+   */
+  private invitedGroup(code: string): CompanyGroup {
+    const invite = this.userRepository.getInvite(code);
+    if (!invite) {
+      throw new Error(`Invite not found: ${code}`);
+    }
+    if (!isInviteUsable(invite)) {
+      throw new Error('Invite is no longer valid');
+    }
+
+    const group = this.userRepository.getGroup(invite.companyGroupId);
+    if (!group) {
+      throw new Error(`Company group not found: ${invite.companyGroupId}`);
+    }
+    return group;
+  }
+
+  private useInvite(code: string): void {
+    if (!this.userRepository.useInvite(code, new Date())) {
+      throw new Error('Invite is no longer valid');
+    }
+  }
+
+  private groupMember(companyGroupId: string, userId: string): GroupMember {
+    const member = this.userRepository.getMember(userId);
+    if (!member || member.companyGroupId !== companyGroupId) {
+      throw new Error(`Member not found: ${userId}`);
+    }
+    return member;
+  }
+
+  private requireAdmin(companyGroupId: string, userId: string, action: string): void {
+    const member = this.userRepository.getMember(userId);
+    if (!member || member.companyGroupId !== companyGroupId || !member.isAdmin) {
+      throw new Error(`Only group admins can ${action}`);
+    }
+  }
+}
+
+/**
+ * Whether an invite can still be used: not revoked, expired or used up
+ */
+export function isInviteUsable(invite: GroupInvite, now: Date = new Date()): boolean {
+  return !invite.revokedAt
+    && (!invite.expiresAt || invite.expiresAt > now)
+    && (invite.maxUses === undefined || invite.uses < invite.maxUses);
 }
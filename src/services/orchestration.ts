@@ -4,19 +4,46 @@
  * Main orchestrator that ties together all services:
  * 1. Change Detection (webhooks + cursors)
  * 2. Change Normalization
- * 3. AI Interpretation
- * 4. Role-Based Routing
- * 5. Notification Creation
+ * 3. Cross-tool Correlation
+ * 4. AI Interpretation
+ * 5. Role-Based Routing
+ * 6. Notification Creation
  * 
  * This is the central service that processes change events end-to-end.
+ * When a ChangeEventRepository is given, every event and each step taken
+ * for it is persisted as an auditable timeline. When an OwnershipService is
+ * given, affected roles, teams and components come from file ownership.
+ * When a CodeChangeProposalService is given, code changes also get
+ * proposals (PR summaries, migration checklists, ...) awaiting approval.
+ * When an InterpretationReviewService is given, low-confidence
+ * interpretations wait for a reviewer before they are routed, and reviewers'
+ * past corrections are given to the interpreter as examples.
+ * Every change is scanned for secrets and PII right after normalization;
+ * both are redacted, and a change that carried a secret is never routed.
+ * When an InstallationService is given, webhooks are routed to the company
+ * group that installed the tool account they came from.
+ * When a PipelineJobRepository is given, normalized changes are queued for
+ * interpretation, routing and proposals instead of running them inline; a
+ * PipelineWorker runs the queued stages and retries them on failure.
+ * A channel is notified about a change event once, so a retried stage never
+ * notifies anyone twice.
  */
 
-import { ChangeEvent, Channel, Notification } from '../types/core';
+import { ChangeEvent, Channel, Notification, SourceTool, SourceToolSchema } from '../types/core';
 import { ChangeDetectionService, RawChangeData } from './change-detection';
 import { ChangeNormalizationService } from './change-normalization';
 import { AIInterpretationService } from './ai-interpretation';
+import { CorrelationService } from './correlation';
 import { RoleBasedRoutingService } from './role-based-routing';
 import { NotificationService } from './notification';
+import { OwnershipService } from './ownership';
+import { CodeChangeProposalService } from './proposals';
+import { InterpretationReviewService, correctedChangeEvent } from './interpretation-review';
+import { SecretScanningService, SecretScanningServiceImpl, SensitiveDataLocation } from './secret-scanning';
+import { InstallationService } from './installations';
+import { NewPipelineJob, PipelineJob, PipelineJobRepository } from '../db/pipeline-job-repository';
+import { InterpretationReview } from '../db/review-repository';
+import { ChangeEventRepository } from '../db/change-event-repository';
 import { logger } from '../utils/logger';
 
 export interface OrchestrationService {
@@ -33,30 +60,97 @@ export interface OrchestrationService {
   /**
    * Process cursor-based poll result
    * Full pipeline for each detected change
+   * onChangeEvent is called for every change that was normalized and routed,
+   * so callers (e.g. the polling scheduler) can advance cursors past it
    */
   processPolledChanges(
     companyGroupId: string,
-    rawChanges: RawChangeData[]
+    rawChanges: RawChangeData[],
+    options?: ProcessChangesOptions
   ): Promise<Notification[]>;
 
   /**
    * Get all channels for a company group
    */
   getChannelsForGroup(companyGroupId: string): Promise<Channel[]>;
+
+  /**
+   * Route a change event a reviewer resolved, with their corrections applied
+   */
+  routeReviewedChange(review: InterpretationReview): Promise<Notification[]>;
+
+  /**
+   * Run one queued stage for a change event and return the stages to queue after it
+   * Throws when the stage fails, so the worker can retry it.
+   */
+  runPipelineJob(job: PipelineJob): Promise<PipelineJobResult>;
+}
+
+export interface PipelineJobResult {
+  notifications: Notification[]; // Created by this stage
+  next: NewPipelineJob[]; // Queued by the worker as it completes the job
+}
+
+const CODE_CHANGE_TYPES = ['pull_request', 'commit'];
+
+export interface ProcessChangesOptions {
+  onChangeEvent?: (changeEvent: ChangeEvent) => void;
+
+  /**
+   * Rethrow the first change that fails instead of skipping it, so nothing after it is processed
+   */
+  stopOnFailure?: boolean;
+}
+
+/**
+ * Optional pipeline steps; see the module comment for what each one adds
+ */
+export interface OrchestrationOptions {
+  correlation?: CorrelationService;
+  changeEvents?: ChangeEventRepository;
+  ownership?: OwnershipService;
+  proposals?: CodeChangeProposalService;
+  reviews?: InterpretationReviewService;
+  secretScanning?: SecretScanningService; // Defaults to the built-in scanner
+  installations?: InstallationService;
+  jobs?: PipelineJobRepository;
 }
 
 /**
  * Implementation of OrchestrationService
  */
 export class OrchestrationServiceImpl implements OrchestrationService {
+  private correlation?: CorrelationService;
+  private changeEvents?: ChangeEventRepository;
+  private ownership?: OwnershipService;
+  private proposals?: CodeChangeProposalService;
+  private reviews?: InterpretationReviewService;
+  private secretScanning: SecretScanningService;
+  private installations?: InstallationService;
+  private jobs?: PipelineJobRepository;
+
   constructor(
     private changeDetection: ChangeDetectionService,
     private normalization: ChangeNormalizationService,
     private aiInterpretation: AIInterpretationService,
     private routing: RoleBasedRoutingService,
     private notification: NotificationService,
-    private channelProvider: (companyGroupId: string) => Promise<Channel[]>
-  ) {}
+    private channelProvider: (companyGroupId: string) => Promise<Channel[]>,
+    options: OrchestrationOptions = {}
+  ) {
+    if (options.jobs && !options.changeEvents) {
+      throw new Error('A pipeline job queue needs a ChangeEventRepository to load queued change events');
+    }
+
+    this.correlation = options.correlation;
+    this.changeEvents = options.changeEvents;
+    this.ownership = options.ownership;
+    this.proposals = options.proposals;
+    this.reviews = options.reviews;
+    this.secretScanning = options.secretScanning ?? new SecretScanningServiceImpl();
+    this.installations = options.installations;
+    this.jobs = options.jobs;
+  }
 
   async processWebhook(
     sourceTool: string,
@@ -66,9 +160,13 @@ export class OrchestrationServiceImpl implements OrchestrationService {
     try {
       logger.info(`Processing webhook from ${sourceTool}`);
 
+      if (!isSourceTool(sourceTool)) {
+        throw new Error(`Unknown source tool: ${sourceTool}`);
+      }
+
       // 1. Detect changes from webhook
       const rawChanges = await this.changeDetection.processWebhook(
-        sourceTool as any,
+        sourceTool,
         payload,
         signature
       );
@@ -78,15 +176,14 @@ export class OrchestrationServiceImpl implements OrchestrationService {
         return [];
       }
 
-      // Extract company group ID from webhook payload
-      // In real implementation, this would come from webhook configuration
+      // The company group that installed the account the webhook came from
       const companyGroupId = await this.extractCompanyGroupId(sourceTool, payload);
       if (!companyGroupId) {
         throw new Error(`Could not determine company group from ${sourceTool} webhook`);
       }
 
-      // Process all detected changes
-      return this.processRawChanges(companyGroupId, rawChanges);
+      // Process all detected changes; a change that can't be stored fails the delivery so the tool redelivers it
+      return this.processRawChanges(companyGroupId, rawChanges, { stopOnFailure: true });
     } catch (error) {
       logger.error(`Error processing webhook from ${sourceTool}`, {
         error: error instanceof Error ? error.message : String(error),
@@ -97,7 +194,8 @@ export class OrchestrationServiceImpl implements OrchestrationService {
 
   async processPolledChanges(
     companyGroupId: string,
-    rawChanges: RawChangeData[]
+    rawChanges: RawChangeData[],
+    options: ProcessChangesOptions = {}
   ): Promise<Notification[]> {
     if (rawChanges.length === 0) {
       return [];
@@ -105,7 +203,7 @@ export class OrchestrationServiceImpl implements OrchestrationService {
 
     logger.info(`Processing ${rawChanges.length} polled changes for company group ${companyGroupId}`);
 
-    return this.processRawChanges(companyGroupId, rawChanges);
+    return this.processRawChanges(companyGroupId, rawChanges, options);
   }
 
   /**
@@ -113,7 +211,8 @@ export class OrchestrationServiceImpl implements OrchestrationService {
    */
   private async processRawChanges(
     companyGroupId: string,
-    rawChanges: RawChangeData[]
+    rawChanges: RawChangeData[],
+    options: ProcessChangesOptions = {}
   ): Promise<Notification[]> {
     const allNotifications: Notification[] = [];
 
@@ -123,51 +222,55 @@ export class OrchestrationServiceImpl implements OrchestrationService {
     // Process each raw change
     for (const rawChange of rawChanges) {
       try {
-        // 1. Normalize change event
-        const changeEvent = await this.normalization.normalize(rawChange);
+        const settle = (event: ChangeEvent) => {
+          // Without a repository nothing can be replayed, so the change is only safe once handled
+          if (!this.changeEvents) {
+            rawChange.onPersisted?.();
+          }
+          options.onChangeEvent?.(event);
+        };
 
-        // 2. AI interpretation (adds semantic metadata)
-        const interpretation = await this.aiInterpretation.interpretChangeEvent(changeEvent);
+        const { changeEvent, correlationSummary, blocked } = await this.detectChange(companyGroupId, rawChange);
+        if (this.changeEvents) {
+          rawChange.onPersisted?.();
+        }
+        if (blocked) {
+          settle(changeEvent);
+          continue;
+        }
 
-        // Enrich change event with interpretation
-        const enrichedEvent: ChangeEvent = {
-          ...changeEvent,
-          classification: interpretation.classification,
-          intent: interpretation.intent,
-          confidence: interpretation.confidence,
-          affectedRoles: interpretation.affectedRoles,
-          evidence: interpretation.evidence,
-        };
+        // Interpretation and routing run later, from the queue detectChange put the change on
+        if (this.jobs) {
+          settle(changeEvent);
+          continue;
+        }
 
-        // 3. Role-based routing (determines which channels should receive notification)
-        const routedNotifications = await this.routing.routeChange(enrichedEvent, channels);
-
-        // 4. Create notifications (all start in "pending" status)
-        for (const routedNotification of routedNotifications) {
-          const notification = await this.notification.createNotification({
-            changeEventId: enrichedEvent.id,
-            channelId: routedNotification.channelId,
-            role: routedNotification.role,
-            summary: routedNotification.summary,
-            impact: routedNotification.impact,
-            relevance: routedNotification.relevance,
-            suggestedAction: routedNotification.suggestedAction,
-            status: 'pending',
-          });
-
-          allNotifications.push(notification);
+        const enrichedEvent = await this.interpretChange(companyGroupId, changeEvent, correlationSummary);
+        if (!enrichedEvent) {
+          settle(changeEvent);
+          continue;
         }
 
+        // 4-6. Routing, notifications and proposals
+        const routedNotifications = await this.routeChangeEvent(enrichedEvent, channels, correlationSummary);
+        allNotifications.push(...routedNotifications);
+        await this.proposeChanges(enrichedEvent);
+
+        settle(enrichedEvent);
+
         logger.info(`Processed change event`, {
           changeEventId: enrichedEvent.id,
           notificationsCreated: routedNotifications.length,
-          affectedRoles: interpretation.affectedRoles,
+          affectedRoles: enrichedEvent.affectedRoles,
         });
       } catch (error) {
         logger.error(`Error processing raw change`, {
           error: error instanceof Error ? error.message : String(error),
           rawChange,
         });
+        if (options.stopOnFailure) {
+          throw error;
+        }
         // Continue processing other changes even if one fails
       }
     }
@@ -175,25 +278,305 @@ export class OrchestrationServiceImpl implements OrchestrationService {
     return allNotifications;
   }
 
+  /**
+   * Steps 1-2: normalize, scan for secrets and correlate a raw change, and store it as detected
+   * With a job queue the change is queued for interpretation in the same transaction.
+   */
+  private async detectChange(
+    companyGroupId: string,
+    rawChange: RawChangeData
+  ): Promise<{ changeEvent: ChangeEvent; correlationSummary?: string; blocked: boolean }> {
+    // 1. Normalize change event, with secrets and PII redacted
+    const scan = this.secretScanning.scanChangeEvent(await this.normalization.normalize(rawChange));
+    const normalizedEvent = scan.changeEvent;
+
+    if (scan.blocked) {
+      this.blockChangeEvent(companyGroupId, scan.changeEvent, scan.findings);
+      return { changeEvent: scan.changeEvent, blocked: true };
+    }
+
+    // 2. Link to related PRs, tickets, specs and designs seen earlier
+    const correlation = this.correlation
+      ? await this.correlation.correlate(companyGroupId, normalizedEvent)
+      : undefined;
+    const changeEvent = correlation?.changeEvent ?? normalizedEvent;
+
+    const changeEvents = this.changeEvents;
+    changeEvents?.transaction(() => {
+      changeEvents.saveChangeEvent(companyGroupId, changeEvent);
+      changeEvents.appendTimeline({
+        changeEventId: changeEvent.id,
+        kind: 'detected',
+        occurredAt: changeEvent.normalizedAt,
+        details: {
+          detectionMethod: changeEvent.detectionMethod,
+          sourceTool: changeEvent.sourceTool,
+          sourceResourceId: changeEvent.sourceResourceId,
+        },
+      });
+      if (correlation && correlation.relatedEvents.length > 0) {
+        changeEvents.appendTimeline({
+          changeEventId: changeEvent.id,
+          kind: 'correlated',
+          details: {
+            relatedEvents: correlation.relatedEvents,
+            summary: correlation.summary,
+          },
+        });
+      }
+      this.jobs?.enqueue({
+        companyGroupId,
+        changeEventId: changeEvent.id,
+        stage: 'interpret',
+        correlationSummary: correlation?.summary,
+      });
+    });
+
+    return { changeEvent, correlationSummary: correlation?.summary, blocked: false };
+  }
+
+  /**
+   * Step 3: interpret a change event and apply file ownership
+   * Returns null when the interpretation is held for a reviewer.
+   */
+  private async interpretChange(
+    companyGroupId: string,
+    changeEvent: ChangeEvent,
+    correlationSummary?: string
+  ): Promise<ChangeEvent | null> {
+    // 3. AI interpretation (adds semantic metadata); a replayed event is interpreted afresh
+    const examples = this.reviews ? await this.reviews.getExamples(companyGroupId, changeEvent) : undefined;
+    const interpretation = await this.aiInterpretation.interpretChangeEvent(changeEvent, { examples, force: true });
+
+    // Enrich change event with interpretation
+    const interpretedEvent: ChangeEvent = {
+      ...changeEvent,
+      classification: interpretation.classification,
+      intent: interpretation.intent,
+      confidence: interpretation.confidence,
+      affectedRoles: interpretation.affectedRoles,
+      evidence: interpretation.evidence,
+      summary: interpretation.summary,
+      impact: interpretation.impact,
+      suggestedAction: interpretation.suggestedAction,
+    };
+
+    // Real file ownership beats the interpreter's guess at who is affected
+    const enrichedEvent = this.ownership
+      ? await this.ownership.applyOwnership(companyGroupId, interpretedEvent)
+      : interpretedEvent;
+
+    if (this.changeEvents) {
+      this.changeEvents.saveChangeEvent(companyGroupId, enrichedEvent);
+      this.changeEvents.appendTimeline({
+        changeEventId: enrichedEvent.id,
+        kind: 'interpreted',
+        details: {
+          classification: interpretation.classification,
+          intent: interpretation.intent,
+          confidence: interpretation.confidence,
+          affectedRoles: enrichedEvent.affectedRoles,
+          dependentTeams: enrichedEvent.dependentTeams,
+          impactedComponents: enrichedEvent.impactedComponents,
+          evidence: enrichedEvent.evidence,
+        },
+      });
+    }
+
+    // Below the confidence threshold a reviewer decides before anyone is notified
+    if (this.reviews?.needsReview(interpretation.confidence)) {
+      await this.reviews.hold(companyGroupId, enrichedEvent, {
+        classification: interpretation.classification,
+        intent: interpretation.intent,
+        confidence: interpretation.confidence,
+        affectedRoles: enrichedEvent.affectedRoles ?? interpretation.affectedRoles,
+        summary: interpretation.summary,
+        impact: interpretation.impact,
+        evidence: interpretation.evidence,
+      }, correlationSummary);
+      return null;
+    }
+
+    return enrichedEvent;
+  }
+
+  /**
+   * Keep a change that carried a secret out of the pipeline
+   * It is stored redacted so the block itself is auditable.
+   */
+  private blockChangeEvent(companyGroupId: string, changeEvent: ChangeEvent, findings: SensitiveDataLocation[]) {
+    logger.warn(`Blocked change event with secrets from routing`, {
+      changeEventId: changeEvent.id,
+      sourceTool: changeEvent.sourceTool,
+      sourceResourceId: changeEvent.sourceResourceId,
+      types: [...new Set(findings.map(finding => finding.type))],
+    });
+
+    if (this.changeEvents) {
+      this.changeEvents.saveChangeEvent(companyGroupId, changeEvent);
+      this.changeEvents.appendTimeline({
+        changeEventId: changeEvent.id,
+        kind: 'detected',
+        occurredAt: changeEvent.normalizedAt,
+        details: {
+          detectionMethod: changeEvent.detectionMethod,
+          sourceTool: changeEvent.sourceTool,
+          sourceResourceId: changeEvent.sourceResourceId,
+        },
+      });
+      this.changeEvents.appendTimeline({
+        changeEventId: changeEvent.id,
+        kind: 'blocked_sensitive_data',
+        details: { findings },
+      });
+    }
+  }
+
   async getChannelsForGroup(companyGroupId: string): Promise<Channel[]> {
     return this.channelProvider(companyGroupId);
   }
 
+  async routeReviewedChange(review: InterpretationReview): Promise<Notification[]> {
+    const changeEvent = correctedChangeEvent(review);
+    this.changeEvents?.saveChangeEvent(review.companyGroupId, changeEvent);
+
+    const channels = await this.channelProvider(review.companyGroupId);
+    const notifications = await this.routeChangeEvent(changeEvent, channels, review.correlationSummary);
+    await this.proposeChanges(changeEvent);
+    return notifications;
+  }
+
+  async runPipelineJob(job: PipelineJob): Promise<PipelineJobResult> {
+    const stored = this.changeEvents?.getChangeEvent(job.changeEventId);
+    if (!stored) {
+      throw new Error(`Change event not found: ${job.changeEventId}`);
+    }
+    const { companyGroupId, ...changeEvent } = stored;
+    const nextStage = (stage: NewPipelineJob['stage']): NewPipelineJob => ({
+      companyGroupId,
+      changeEventId: changeEvent.id,
+      stage,
+      correlationSummary: job.correlationSummary,
+    });
+
+    switch (job.stage) {
+      case 'interpret': {
+        const enrichedEvent = await this.interpretChange(companyGroupId, changeEvent, job.correlationSummary);
+        return { notifications: [], next: enrichedEvent ? [nextStage('route')] : [] };
+      }
+
+      case 'route': {
+        const channels = await this.channelProvider(companyGroupId);
+        const notifications = await this.routeChangeEvent(changeEvent, channels, job.correlationSummary);
+        logger.info(`Processed change event`, {
+          changeEventId: changeEvent.id,
+          notificationsCreated: notifications.length,
+          affectedRoles: changeEvent.affectedRoles,
+        });
+        return { notifications, next: this.needsProposals(changeEvent) ? [nextStage('propose')] : [] };
+      }
+
+      case 'propose':
+        await this.proposeChanges(changeEvent);
+        return { notifications: [], next: [] };
+    }
+  }
+
+  /**
+   * Steps 4-5 for an interpreted change event
+   * Channels already notified about the event are skipped, so routing can be retried.
+   */
+  private async routeChangeEvent(
+    enrichedEvent: ChangeEvent,
+    channels: Channel[],
+    correlationSummary?: string
+  ): Promise<Notification[]> {
+    // 4. Role-based routing (determines which channels should receive notification)
+    const routedNotifications = await this.routing.routeChange(enrichedEvent, channels);
+
+    // Channels that were not routed to are recorded too, so "why didn't we hear about this?" has an answer
+    this.changeEvents?.appendTimeline({
+      changeEventId: enrichedEvent.id,
+      kind: 'routed',
+      details: {
+        routed: routedNotifications.map(routed => ({
+          channelId: routed.channelId,
+          role: routed.role,
+          relevance: routed.relevance,
+        })),
+        skippedChannelIds: channels
+          .filter(channel => !routedNotifications.some(routed => routed.channelId === channel.id))
+          .map(channel => channel.id),
+      },
+    });
+
+    // 5. Create notifications (all start in "pending" status)
+    // Cross-tool context goes into the summary, so one notification tells the whole story
+    const notifications: Notification[] = [];
+    for (const routedNotification of routedNotifications) {
+      if (await this.notification.findNotification(enrichedEvent.id, routedNotification.channelId)) {
+        continue;
+      }
+
+      const notification = await this.notification.createNotification({
+        changeEventId: enrichedEvent.id,
+        channelId: routedNotification.channelId,
+        role: routedNotification.role,
+        summary: correlationSummary
+          ? `${routedNotification.summary}. ${correlationSummary}`
+          : routedNotification.summary,
+        impact: routedNotification.impact,
+        relevance: routedNotification.relevance,
+        suggestedAction: routedNotification.suggestedAction,
+        status: 'pending',
+      });
+
+      this.changeEvents?.appendTimeline({
+        changeEventId: enrichedEvent.id,
+        kind: 'notification_created',
+        notificationId: notification.id,
+        details: {
+          channelId: notification.channelId,
+          role: notification.role,
+          status: notification.status,
+        },
+      });
+
+      notifications.push(notification);
+    }
+
+    return notifications;
+  }
+
+  private needsProposals(changeEvent: ChangeEvent): boolean {
+    return !!this.proposals && CODE_CHANGE_TYPES.includes(changeEvent.sourceResourceType);
+  }
+
+  /**
+   * Step 6: engineering proposals for code changes (also pending approval)
+   */
+  private async proposeChanges(changeEvent: ChangeEvent): Promise<void> {
+    if (!this.proposals || !this.needsProposals(changeEvent)) {
+      return;
+    }
+
+    const codeInterpretation = await this.aiInterpretation.interpretCodeChange(changeEvent);
+    await this.proposals.generateProposals(changeEvent, codeInterpretation);
+  }
+
   /**
    * Extract company group ID from webhook payload
-   * This is tool-specific and depends on webhook configuration
+   * Looked up in the installation registry; null when the account isn't installed
    */
   private async extractCompanyGroupId(
-    sourceTool: string,
+    sourceTool: SourceTool,
     payload: unknown
   ): Promise<string | null> {
-    // TODO: Implement tool-specific extraction
-    // This would typically come from:
-    // - Webhook configuration mapping
-    // - Repository/organization to company group mapping
-    // - Payload metadata
-    
-    // Placeholder
-    return null;
+    const installation = await this.installations?.resolveWebhook(sourceTool, payload);
+    return installation?.companyGroupId ?? null;
   }
 }
+
+function isSourceTool(value: string): value is SourceTool {
+  return SourceToolSchema.safeParse(value).success;
+}
@@ -0,0 +1,375 @@
+/**
+ * Ownership Registry
+ *
+ * Resolves who owns the files a code change touches by merging:
+ * 1. Manual path-glob rules (path → roles, teams, component) per company group
+ * 2. The repository's CODEOWNERS file (last matching entry wins, as on GitHub)
+ * 3. Historical commit authorship, for paths nothing else claims
+ *
+ * CODEOWNERS owners and commit authors are turned into roles and teams through
+ * owner mappings ("@acme/payments" → engineering-backend, team "payments").
+ * The result replaces guessed affectedRoles on a change event and fills
+ * dependentTeams and impactedComponents.
+ */
+
+import { randomUUID } from 'crypto';
+import { ChangeEvent, Role } from '../types/core';
+import { CodeOwnership, OwnerMapping, OwnershipRule } from '../types/code-changes';
+import { OwnershipRepository } from '../db/ownership-repository';
+import { GitHubIntegration, GitHubIntegrationImpl } from '../integrations/github';
+import { logger } from '../utils/logger';
+
+export interface OwnershipMatch {
+  path: string;
+  source: 'manual' | 'codeowners' | 'authorship';
+  pattern?: string; // Rule or CODEOWNERS pattern that matched
+  ruleId?: string;
+  owners: string[]; // CODEOWNERS owners or frequent authors
+  component?: string;
+  roles: Role[];
+  teams: string[];
+}
+
+export interface OwnershipResolution {
+  roles: Role[];
+  teams: string[];
+  components: string[];
+  matches: OwnershipMatch[];
+  unownedPaths: string[];
+}
+
+export type OwnershipRuleInput = Omit<OwnershipRule, 'id' | 'createdAt' | 'updatedAt'>;
+
+export interface OwnershipService {
+  createRule(input: OwnershipRuleInput): Promise<OwnershipRule>;
+
+  /**
+   * Change a rule's pattern, repository, component, roles or teams
+   */
+  updateRule(
+    ruleId: string,
+    changes: Partial<Omit<OwnershipRuleInput, 'companyGroupId'>>
+  ): Promise<OwnershipRule>;
+
+  deleteRule(ruleId: string): Promise<boolean>;
+
+  listRules(companyGroupId: string): Promise<OwnershipRule[]>;
+
+  /**
+   * Set the roles and teams behind a CODEOWNERS owner or commit author
+   */
+  setOwnerMapping(
+    companyGroupId: string,
+    owner: string,
+    mapping: { roles: Role[]; teams: string[] }
+  ): Promise<OwnerMapping>;
+
+  listOwnerMappings(companyGroupId: string): Promise<OwnerMapping[]>;
+
+  deleteOwnerMapping(companyGroupId: string, owner: string): Promise<boolean>;
+
+  /**
+   * Parse and store a repository's CODEOWNERS file, replacing the previous import
+   */
+  importCodeOwners(companyGroupId: string, repository: string, content: string): Promise<CodeOwnership[]>;
+
+  /**
+   * Who owns these paths, and why
+   */
+  resolve(companyGroupId: string, repository: string | undefined, paths: string[]): Promise<OwnershipResolution>;
+
+  /**
+   * Fill affectedRoles, dependentTeams and impactedComponents from ownership
+   * Commits are also counted towards authorship of the files they touch.
+   */
+  applyOwnership(companyGroupId: string, changeEvent: ChangeEvent): Promise<ChangeEvent>;
+}
+
+export interface OwnershipConfig {
+  minAuthorCommits?: number; // Commits before an author counts as an owner (default 2)
+  minAuthorShare?: number; // Share of a path's commits (default 0.25)
+  maxAuthors?: number; // Frequent authors considered per path (default 3)
+}
+
+/**
+ * Implementation of OwnershipService
+ */
+export class OwnershipServiceImpl implements OwnershipService {
+  private minAuthorCommits: number;
+  private minAuthorShare: number;
+  private maxAuthors: number;
+
+  constructor(
+    private repository: OwnershipRepository,
+    private github: GitHubIntegration = new GitHubIntegrationImpl(),
+    config: OwnershipConfig = {}
+  ) {
+    this.minAuthorCommits = config.minAuthorCommits ?? 2;
+    this.minAuthorShare = config.minAuthorShare ?? 0.25;
+    this.maxAuthors = config.maxAuthors ?? 3;
+  }
+
+  async createRule(input: OwnershipRuleInput): Promise<OwnershipRule> {
+    const now = new Date();
+    const rule = this.repository.saveRule({ ...input, id: randomUUID(), createdAt: now, updatedAt: now });
+
+    logger.info(`Created ownership rule`, {
+      ruleId: rule.id,
+      companyGroupId: rule.companyGroupId,
+      pattern: rule.pattern,
+    });
+
+    return rule;
+  }
+
+  async updateRule(
+    ruleId: string,
+    changes: Partial<Omit<OwnershipRuleInput, 'companyGroupId'>>
+  ): Promise<OwnershipRule> {
+    const rule = this.repository.getRule(ruleId);
+    if (!rule) {
+      throw new Error(`Ownership rule not found: ${ruleId}`);
+    }
+
+    return this.repository.saveRule({ ...rule, ...changes, updatedAt: new Date() });
+  }
+
+  async deleteRule(ruleId: string): Promise<boolean> {
+    return this.repository.deleteRule(ruleId);
+  }
+
+  async listRules(companyGroupId: string): Promise<OwnershipRule[]> {
+    return this.repository.listRules(companyGroupId);
+  }
+
+  async setOwnerMapping(
+    companyGroupId: string,
+    owner: string,
+    mapping: { roles: Role[]; teams: string[] }
+  ): Promise<OwnerMapping> {
+    return this.repository.saveOwnerMapping({
+      companyGroupId,
+      owner,
+      roles: mapping.roles,
+      teams: mapping.teams,
+      updatedAt: new Date(),
+    });
+  }
+
+  async listOwnerMappings(companyGroupId: string): Promise<OwnerMapping[]> {
+    return this.repository.listOwnerMappings(companyGroupId);
+  }
+
+  async deleteOwnerMapping(companyGroupId: string, owner: string): Promise<boolean> {
+    return this.repository.deleteOwnerMapping(companyGroupId, owner);
+  }
+
+  async importCodeOwners(companyGroupId: string, repository: string, content: string): Promise<CodeOwnership[]> {
+    const entries = await this.github.parseCODEOWNERS(content);
+    this.repository.saveCodeOwners({ companyGroupId, repository, entries, importedAt: new Date() });
+
+    logger.info(`Imported CODEOWNERS`, { companyGroupId, repository, entries: entries.length });
+
+    return entries;
+  }
+
+  async resolve(
+    companyGroupId: string,
+    repository: string | undefined,
+    paths: string[]
+  ): Promise<OwnershipResolution> {
+    const rules = this.repository.listRules(companyGroupId, repository);
+    const codeOwners = repository ? this.repository.getCodeOwners(companyGroupId, repository)?.entries ?? [] : [];
+    const matches: OwnershipMatch[] = [];
+    const unownedPaths: string[] = [];
+
+    for (const path of paths) {
+      const explicit: OwnershipMatch[] = rules
+        .filter(rule => matchesOwnershipPattern(rule.pattern, path))
+        .map(rule => ({
+          path,
+          source: 'manual' as const,
+          pattern: rule.pattern,
+          ruleId: rule.id,
+          owners: [],
+          component: rule.component,
+          roles: rule.roles,
+          teams: rule.teams,
+        }));
+
+      // CODEOWNERS precedence: the last matching entry is the one that applies
+      const entry = [...codeOwners].reverse().find(candidate => matchesOwnershipPattern(candidate.path, path));
+      if (entry) {
+        explicit.push({
+          path,
+          source: 'codeowners',
+          pattern: entry.path,
+          owners: entry.owners.map(owner => owner.identifier),
+          component: entry.path,
+          ...this.rolesAndTeamsOf(companyGroupId, entry.owners),
+        });
+      }
+
+      const authored = explicit.length === 0 && repository
+        ? this.resolveByAuthorship(companyGroupId, repository, path)
+        : null;
+
+      if (explicit.length > 0) {
+        matches.push(...explicit);
+      } else if (authored) {
+        matches.push(authored);
+      } else {
+        unownedPaths.push(path);
+      }
+    }
+
+    return {
+      roles: unique(matches.flatMap(match => match.roles)),
+      teams: unique(matches.flatMap(match => match.teams)),
+      components: unique(matches.map(match => match.component).filter((component): component is string => !!component)),
+      matches,
+      unownedPaths,
+    };
+  }
+
+  async applyOwnership(companyGroupId: string, changeEvent: ChangeEvent): Promise<ChangeEvent> {
+    const raw = changeEvent.rawChangeData ?? {};
+    const files = Array.isArray(raw.files) ? raw.files as Array<{ path?: unknown }> : [];
+    const paths = files.map(file => file.path).filter((path): path is string => typeof path === 'string');
+    if (paths.length === 0) {
+      return changeEvent;
+    }
+
+    const repository = typeof raw.repository === 'string' ? raw.repository : undefined;
+    const resolution = await this.resolve(companyGroupId, repository, paths);
+
+    if (repository && changeEvent.sourceResourceType === 'commit') {
+      this.repository.recordAuthorship(companyGroupId, repository, paths, changeEvent.changedBy, changeEvent.changedAt);
+    }
+
+    if (resolution.matches.length === 0) {
+      return changeEvent;
+    }
+
+    return {
+      ...changeEvent,
+      // Ownership replaces the interpreter's guess; without owned roles the guess stands
+      affectedRoles: resolution.roles.length > 0 ? resolution.roles : changeEvent.affectedRoles,
+      dependentTeams: unique([...(changeEvent.dependentTeams ?? []), ...resolution.teams]),
+      impactedComponents: unique([...(changeEvent.impactedComponents ?? []), ...resolution.components]),
+      evidence: [...(changeEvent.evidence ?? []), ...describeMatches(resolution.matches)],
+    };
+  }
+
+  private rolesAndTeamsOf(
+    companyGroupId: string,
+    owners: CodeOwnership['owners']
+  ): { roles: Role[]; teams: string[] } {
+    const roles: Role[] = [];
+    const teams: string[] = [];
+
+    for (const owner of owners) {
+      const mapping = this.repository.getOwnerMapping(companyGroupId, owner.identifier);
+      roles.push(...(owner.roles ?? []), ...(mapping?.roles ?? []));
+      teams.push(...(mapping?.teams ?? []));
+      if (owner.type === 'team') {
+        teams.push(owner.identifier);
+      }
+    }
+
+    return { roles: unique(roles), teams: unique(teams) };
+  }
+
+  /**
+   * Frequent authors of a path stand in as its owners
+   */
+  private resolveByAuthorship(companyGroupId: string, repository: string, path: string): OwnershipMatch | null {
+    const authors = this.repository.getPathAuthors(companyGroupId, repository, path);
+    const total = authors.reduce((sum, author) => sum + author.commits, 0);
+    const frequent = authors
+      .filter(author => author.commits >= this.minAuthorCommits && author.commits / total >= this.minAuthorShare)
+      .slice(0, this.maxAuthors);
+
+    if (frequent.length === 0) {
+      return null;
+    }
+
+    const owners = frequent.map(author => author.author);
+    const mapped = this.rolesAndTeamsOf(
+      companyGroupId,
+      owners.map(identifier => ({ type: 'user' as const, identifier }))
+    );
+
+    return { path, source: 'authorship', owners, ...mapped };
+  }
+}
+
+/**
+ * Match a path against a CODEOWNERS-style pattern
+ * - "/docs/" is anchored to the repository root; "docs/" matches a docs directory anywhere
+ * - "*" stays within a path segment, "**" crosses segments
+ * - A pattern that names a directory also matches everything inside it
+ */
+export function matchesOwnershipPattern(pattern: string, path: string): boolean {
+  const normalizedPath = path.replace(/^\.?\//, '');
+  let glob = pattern.trim();
+  if (!glob) {
+    return false;
+  }
+
+  // A slash at the start or in the middle anchors the pattern to the root
+  const anchored = glob.startsWith('/') || glob.slice(0, -1).includes('/');
+  glob = glob.replace(/^\//, '');
+  const directoryOnly = glob.endsWith('/');
+  glob = glob.replace(/\/$/, '');
+
+  let source = '';
+  for (let index = 0; index < glob.length; index++) {
+    const char = glob[index];
+    if (char === '*' && glob[index + 1] === '*') {
+      const followedBySlash = glob[index + 2] === '/';
+      source += followedBySlash ? '(?:.*/)?' : '.*';
+      index += followedBySlash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  const prefix = anchored ? '^' : '^(?:.*/)?';
+  const suffix = directoryOnly ? '/.*$' : '(?:/.*)?$';
+  return new RegExp(`${prefix}${source}${suffix}`).test(normalizedPath);
+}
+
+/**
+ * One evidence line per rule, CODEOWNERS entry or author group (not per file)
+ */
+function describeMatches(matches: OwnershipMatch[]): string[] {
+  const groups = new Map<string, { match: OwnershipMatch; paths: string[] }>();
+  for (const match of matches) {
+    const key = `${match.source}:${match.ruleId ?? match.pattern ?? ''}:${match.owners.join(',')}`;
+    const group = groups.get(key) ?? { match, paths: [] };
+    group.paths.push(match.path);
+    groups.set(key, group);
+  }
+
+  return Array.from(groups.values()).map(({ match, paths }) => {
+    const files = paths.length > 3
+      ? `${paths.slice(0, 3).join(', ')} and ${paths.length - 3} more`
+      : paths.join(', ');
+    if (match.source === 'manual') {
+      return `Ownership rule ${match.pattern} covers ${files}`;
+    }
+    if (match.source === 'codeowners') {
+      return `CODEOWNERS ${match.pattern} assigns ${files} to ${match.owners.join(', ')}`;
+    }
+    return `${match.owners.join(', ')} most often commit to ${files}`;
+  });
+}
+
+function unique<T>(values: T[]): T[] {
+  return Array.from(new Set(values));
+}
@@ -0,0 +1,273 @@
+/**
+ * Pipeline Worker
+ *
+ * Runs the queued interpretation, routing and proposal stages:
+ * 1. Claim due jobs from the pipeline queue
+ * 2. Run each through the Orchestration Service, queueing the next stage as the job completes
+ * 3. Retry failures with exponential backoff
+ * 4. Dead-letter jobs that fail on every attempt
+ *
+ * Dead-lettered changes stay on their change event timeline and can be
+ * replayed, as can any change event that should be interpreted again.
+ */
+
+import { ChangeEventRepository } from '../db/change-event-repository';
+import {
+  PipelineDeadLetter,
+  PipelineJob,
+  PipelineJobRepository,
+  PipelineStage,
+} from '../db/pipeline-job-repository';
+import { OrchestrationService } from './orchestration';
+import { computeBackoffMs } from './polling-scheduler';
+import { logger } from '../utils/logger';
+
+export interface PipelineWorker {
+  /**
+   * Start running jobs on the configured tick
+   */
+  start(): void;
+
+  /**
+   * Stop claiming new jobs (running jobs finish)
+   */
+  stop(): Promise<void>;
+
+  /**
+   * Claim and run one batch of due jobs
+   */
+  runOnce(now?: Date): Promise<PipelineRunSummary>;
+
+  /**
+   * Queue a change event to run again from a stage (default: interpretation)
+   * Unreplayed dead letters of the change event are marked replayed.
+   */
+  replayChangeEvent(changeEventId: string, stage?: PipelineStage): Promise<PipelineJob>;
+
+  /**
+   * Queue a dead-lettered job again
+   */
+  retryDeadLetter(deadLetterId: string): Promise<PipelineJob>;
+
+  listDeadLetters(filter?: { changeEventId?: string; unreplayedOnly?: boolean }): Promise<PipelineDeadLetter[]>;
+}
+
+export interface PipelineWorkerConfig {
+  /** How often the worker looks for due jobs */
+  tickMs: number;
+  /** Max jobs claimed (and run concurrently) per tick */
+  batchSize: number;
+  /** Attempts before a job is dead-lettered */
+  maxAttempts: number;
+  /** Delay before the first retry; doubles per failed attempt */
+  backoffBaseMs: number;
+  backoffMaxMs: number;
+  /** A job locked for longer than this is assumed abandoned and claimed again */
+  lockTimeoutMs: number;
+}
+
+export interface PipelineRunSummary {
+  jobsRun: number;
+  succeeded: number;
+  retried: number;
+  deadLettered: number;
+  notificationsCreated: number;
+}
+
+const DEFAULT_CONFIG: PipelineWorkerConfig = {
+  tickMs: 1000,
+  batchSize: 10,
+  maxAttempts: 5,
+  backoffBaseMs: 5 * 1000,
+  backoffMaxMs: 10 * 60 * 1000,
+  lockTimeoutMs: 10 * 60 * 1000,
+};
+
+/**
+ * Implementation of PipelineWorker
+ */
+export class PipelineWorkerImpl implements PipelineWorker {
+  private config: PipelineWorkerConfig;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private currentRun: Promise<PipelineRunSummary> | null = null;
+
+  constructor(
+    private jobs: PipelineJobRepository,
+    private changeEvents: ChangeEventRepository,
+    private orchestration: OrchestrationService,
+    config: Partial<PipelineWorkerConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    logger.info(`Starting pipeline worker`, {
+      tickMs: this.config.tickMs,
+      batchSize: this.config.batchSize,
+    });
+
+    const tick = () => {
+      this.currentRun = this.runOnce()
+        .catch(error => {
+          logger.error(`Pipeline run failed`, {
+            error: error instanceof Error ? error.message : String(error),
+          });
+          return this.emptySummary();
+        })
+        .finally(() => {
+          this.currentRun = null;
+          if (this.timer) {
+            this.timer = setTimeout(tick, this.config.tickMs);
+          }
+        });
+    };
+
+    this.timer = setTimeout(tick, 0);
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.currentRun) {
+      await this.currentRun;
+    }
+    logger.info(`Stopped pipeline worker`);
+  }
+
+  async runOnce(now: Date = new Date()): Promise<PipelineRunSummary> {
+    const summary = this.emptySummary();
+    const staleBefore = new Date(now.getTime() - this.config.lockTimeoutMs);
+    const claimed = this.jobs.claimDueJobs(now, this.config.batchSize, staleBefore);
+
+    await Promise.all(claimed.map(job => this.runJob(job, now, summary)));
+
+    if (summary.jobsRun > 0) {
+      logger.info(`Pipeline run complete`, { ...summary });
+    }
+
+    return summary;
+  }
+
+  async replayChangeEvent(changeEventId: string, stage: PipelineStage = 'interpret'): Promise<PipelineJob> {
+    const changeEvent = this.changeEvents.getChangeEvent(changeEventId);
+    if (!changeEvent) {
+      throw new Error(`Change event not found: ${changeEventId}`);
+    }
+
+    const deadLetters = this.jobs.listDeadLetters({ changeEventId, unreplayedOnly: true });
+    const job = this.jobs.enqueue({
+      companyGroupId: changeEvent.companyGroupId,
+      changeEventId,
+      stage,
+      correlationSummary: deadLetters.find(deadLetter => deadLetter.correlationSummary)?.correlationSummary,
+    });
+    this.markReplayed(deadLetters, job);
+
+    return job;
+  }
+
+  async retryDeadLetter(deadLetterId: string): Promise<PipelineJob> {
+    const deadLetter = this.jobs.getDeadLetter(deadLetterId);
+    if (!deadLetter) {
+      throw new Error(`Dead letter not found: ${deadLetterId}`);
+    }
+    if (deadLetter.replayedAt) {
+      throw new Error(`Dead letter already replayed: ${deadLetterId}`);
+    }
+
+    const job = this.jobs.enqueue({
+      companyGroupId: deadLetter.companyGroupId,
+      changeEventId: deadLetter.changeEventId,
+      stage: deadLetter.stage,
+      correlationSummary: deadLetter.correlationSummary,
+    });
+    this.markReplayed([deadLetter], job);
+
+    return job;
+  }
+
+  async listDeadLetters(filter: { changeEventId?: string; unreplayedOnly?: boolean } = {}): Promise<PipelineDeadLetter[]> {
+    return this.jobs.listDeadLetters(filter);
+  }
+
+  /**
+   * Run a claimed job; failures are retried later or dead-lettered, never thrown
+   */
+  private async runJob(job: PipelineJob, now: Date, summary: PipelineRunSummary): Promise<void> {
+    summary.jobsRun++;
+    const attempts = job.attempts + 1;
+
+    try {
+      const { notifications, next } = await this.orchestration.runPipelineJob(job);
+      this.jobs.completeJob(job.id, next);
+      summary.succeeded++;
+      summary.notificationsCreated += notifications.length;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+
+      if (attempts < this.config.maxAttempts) {
+        const runAt = new Date(now.getTime() + computeBackoffMs(attempts, this.config));
+        this.jobs.retryJob(job.id, attempts, message, runAt);
+        summary.retried++;
+        logger.warn(`Pipeline job failed, retrying`, {
+          jobId: job.id,
+          changeEventId: job.changeEventId,
+          stage: job.stage,
+          attempt: attempts,
+          maxAttempts: this.config.maxAttempts,
+          runAt,
+          error: message,
+        });
+        return;
+      }
+
+      const deadLetter = this.jobs.deadLetterJob(job.id, attempts, message, now);
+      summary.deadLettered++;
+      logger.error(`Pipeline job dead-lettered`, {
+        jobId: job.id,
+        deadLetterId: deadLetter.id,
+        changeEventId: job.changeEventId,
+        stage: job.stage,
+        attempts,
+        error: message,
+      });
+
+      // The change stays visible: its timeline says where it stopped and why
+      if (this.changeEvents.getChangeEvent(job.changeEventId)) {
+        this.changeEvents.appendTimeline({
+          changeEventId: job.changeEventId,
+          kind: 'pipeline_dead_lettered',
+          details: { deadLetterId: deadLetter.id, stage: job.stage, attempts, error: message },
+        });
+      }
+    }
+  }
+
+  private markReplayed(deadLetters: PipelineDeadLetter[], job: PipelineJob): void {
+    const replayedAt = new Date();
+    for (const deadLetter of deadLetters) {
+      this.jobs.markReplayed(deadLetter.id, replayedAt);
+    }
+
+    this.changeEvents.appendTimeline({
+      changeEventId: job.changeEventId,
+      kind: 'pipeline_replayed',
+      details: { jobId: job.id, stage: job.stage, deadLetterIds: deadLetters.map(deadLetter => deadLetter.id) },
+    });
+    logger.info(`Replaying change event`, {
+      changeEventId: job.changeEventId,
+      stage: job.stage,
+      deadLetters: deadLetters.length,
+    });
+  }
+
+  private emptySummary(): PipelineRunSummary {
+    return { jobsRun: 0, succeeded: 0, retried: 0, deadLettered: 0, notificationsCreated: 0 };
+  }
+}
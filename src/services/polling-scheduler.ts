@@ -0,0 +1,353 @@
+/**
+ * Polling Scheduler
+ *
+ * Drives every active Cursor on a schedule:
+ * 1. Load active cursors, grouped by company group
+ * 2. Poll each due cursor through the Change Detection Service
+ * 3. Follow `hasMore` pages until the tool is drained
+ * 4. Feed each page into the Orchestration Service
+ * 5. Advance the cursor past the page once every change in it was processed
+ *
+ * A change that fails stops the drain with the cursor left before its page,
+ * so the page is fetched again on the next poll. Changes before the failed
+ * one are processed again then: delivery is at least once, never lossy.
+ *
+ * Cursors with consecutive errors are backed off exponentially, and each
+ * tool has its own concurrency cap so one slow API cannot starve the rest.
+ */
+
+import { SourceTool } from '../types/core';
+import { Cursor } from '../types/cursors';
+import { CursorRepository } from '../db/cursor-repository';
+import { ChangeDetectionService } from './change-detection';
+import { OrchestrationService } from './orchestration';
+import { logger } from '../utils/logger';
+
+export interface PollingScheduler {
+  /**
+   * Start polling on the configured tick
+   */
+  start(): void;
+
+  /**
+   * Stop scheduling new polls (in-flight polls finish)
+   */
+  stop(): Promise<void>;
+
+  /**
+   * Run a single scheduling pass over all due cursors
+   */
+  runOnce(now?: Date): Promise<PollingRunSummary>;
+
+  /**
+   * Pause a cursor - it is skipped until resumed
+   */
+  pauseCursor(cursorId: string): Promise<Cursor>;
+
+  /**
+   * Resume a paused (or error-deactivated) cursor
+   */
+  resumeCursor(cursorId: string): Promise<Cursor>;
+}
+
+export interface PollingSchedulerConfig {
+  /** How often the scheduler looks for due cursors */
+  tickMs: number;
+  /** Default time between polls of the same cursor */
+  intervalMs: number;
+  /** Per-tool overrides for intervalMs */
+  toolIntervals?: Partial<Record<SourceTool, number>>;
+  /** Max cursors polled at once per tool */
+  maxConcurrentPerTool: number;
+  /** Per-tool overrides for maxConcurrentPerTool */
+  toolConcurrency?: Partial<Record<SourceTool, number>>;
+  /** Safety limit on `hasMore` pages followed in one run */
+  maxPagesPerRun: number;
+  /** Backoff after the first error; doubles per consecutive error */
+  backoffBaseMs: number;
+  backoffMaxMs: number;
+  /** Restrict polling to these company groups (all groups if omitted) */
+  companyGroupIds?: string[];
+}
+
+export interface PollingRunSummary {
+  cursorsPolled: number;
+  cursorsSkipped: number;
+  pagesFetched: number;
+  changesProcessed: number;
+  errors: number;
+}
+
+const DEFAULT_CONFIG: PollingSchedulerConfig = {
+  tickMs: 15 * 1000,
+  intervalMs: 5 * 60 * 1000,
+  maxConcurrentPerTool: 2,
+  maxPagesPerRun: 20,
+  backoffBaseMs: 30 * 1000,
+  backoffMaxMs: 60 * 60 * 1000,
+};
+
+/**
+ * Exponential backoff delay for a cursor's current error streak
+ */
+export function computeBackoffMs(
+  consecutiveErrors: number,
+  config: Pick<PollingSchedulerConfig, 'backoffBaseMs' | 'backoffMaxMs'>
+): number {
+  if (consecutiveErrors <= 0) {
+    return 0;
+  }
+  const delay = config.backoffBaseMs * Math.pow(2, consecutiveErrors - 1);
+  return Math.min(delay, config.backoffMaxMs);
+}
+
+/**
+ * Minimal counting semaphore for per-tool concurrency caps
+ */
+class Semaphore {
+  private active = 0;
+  private waiters: Array<() => void> = [];
+
+  constructor(private limit: number) {}
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    if (this.active >= this.limit) {
+      await new Promise<void>(resolve => this.waiters.push(resolve));
+    }
+    this.active++;
+    try {
+      return await task();
+    } finally {
+      this.active--;
+      this.waiters.shift()?.();
+    }
+  }
+}
+
+/**
+ * Implementation of PollingScheduler
+ */
+export class PollingSchedulerImpl implements PollingScheduler {
+  private config: PollingSchedulerConfig;
+  private semaphores: Map<SourceTool, Semaphore> = new Map();
+  private inFlight: Set<string> = new Set();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private currentRun: Promise<PollingRunSummary> | null = null;
+
+  constructor(
+    private cursorRepository: CursorRepository,
+    private changeDetection: ChangeDetectionService,
+    private orchestration: OrchestrationService,
+    config: Partial<PollingSchedulerConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    logger.info(`Starting polling scheduler`, {
+      tickMs: this.config.tickMs,
+      intervalMs: this.config.intervalMs,
+    });
+
+    const tick = () => {
+      this.currentRun = this.runOnce()
+        .catch(error => {
+          logger.error(`Polling run failed`, {
+            error: error instanceof Error ? error.message : String(error),
+          });
+          return this.emptySummary();
+        })
+        .finally(() => {
+          this.currentRun = null;
+          if (this.timer) {
+            this.timer = setTimeout(tick, this.config.tickMs);
+          }
+        });
+    };
+
+    this.timer = setTimeout(tick, 0);
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.currentRun) {
+      await this.currentRun;
+    }
+    logger.info(`Stopped polling scheduler`);
+  }
+
+  async runOnce(now: Date = new Date()): Promise<PollingRunSummary> {
+    const summary = this.emptySummary();
+    const cursorsByGroup = this.loadActiveCursorsByGroup();
+
+    const polls: Promise<void>[] = [];
+    for (const [companyGroupId, cursors] of cursorsByGroup) {
+      for (const cursor of cursors) {
+        if (!this.isDue(cursor, now) || this.inFlight.has(cursor.id)) {
+          summary.cursorsSkipped++;
+          continue;
+        }
+
+        this.inFlight.add(cursor.id);
+        polls.push(
+          this.semaphoreFor(cursor.sourceTool)
+            .run(() => this.drainCursor(companyGroupId, cursor, summary))
+            .finally(() => this.inFlight.delete(cursor.id))
+        );
+      }
+    }
+
+    await Promise.all(polls);
+
+    if (summary.cursorsPolled > 0) {
+      logger.info(`Polling run complete`, { ...summary });
+    }
+
+    return summary;
+  }
+
+  async pauseCursor(cursorId: string): Promise<Cursor> {
+    const cursor = this.cursorRepository.setActive(cursorId, false);
+    logger.info(`Paused cursor`, { cursorId, sourceTool: cursor.sourceTool });
+    return cursor;
+  }
+
+  async resumeCursor(cursorId: string): Promise<Cursor> {
+    const cursor = this.cursorRepository.setActive(cursorId, true);
+    logger.info(`Resumed cursor`, { cursorId, sourceTool: cursor.sourceTool });
+    return cursor;
+  }
+
+  /**
+   * Poll one cursor page by page until the tool reports no more changes
+   */
+  private async drainCursor(
+    companyGroupId: string,
+    initialCursor: Cursor,
+    summary: PollingRunSummary
+  ): Promise<void> {
+    summary.cursorsPolled++;
+    let cursor = initialCursor;
+
+    for (let page = 0; page < this.config.maxPagesPerRun; page++) {
+      const result = await this.changeDetection.pollWithCursor(cursor);
+      summary.pagesFetched++;
+
+      // pollWithCursor swallows poller errors and reports them on the cursor
+      if (result.cursor.consecutiveErrors > 0) {
+        summary.errors++;
+        return;
+      }
+
+      const rawChanges = result.changes;
+      let lastChangeEventId: string | undefined;
+
+      if (rawChanges.length > 0) {
+        try {
+          await this.orchestration.processPolledChanges(companyGroupId, rawChanges, {
+            onChangeEvent: changeEvent => {
+              lastChangeEventId = changeEvent.id;
+            },
+            stopOnFailure: true,
+          });
+        } catch (error) {
+          // Keep the cursor before this page so the failed change is retried
+          summary.errors++;
+          logger.warn(`Not advancing cursor - a change in the page failed`, {
+            cursorId: cursor.id,
+            changeCount: rawChanges.length,
+            error: error instanceof Error ? error.message : String(error),
+          });
+          return;
+        }
+        summary.changesProcessed += rawChanges.length;
+      }
+
+      // Empty pages are advanced past too, or the next run fetches them again
+      if (result.nextPosition) {
+        await this.changeDetection.advanceCursor({
+          cursorId: cursor.id,
+          newPosition: result.nextPosition,
+          changeEventId: lastChangeEventId,
+          advancedAt: new Date(),
+        });
+      }
+
+      if (!result.hasMore || !result.nextPosition) {
+        return;
+      }
+
+      cursor = this.cursorRepository.getCursor(cursor.id) ?? result.cursor;
+    }
+
+    logger.warn(`Cursor still has more pages after page limit`, {
+      cursorId: cursor.id,
+      maxPagesPerRun: this.config.maxPagesPerRun,
+    });
+  }
+
+  private loadActiveCursorsByGroup(): Map<string, Cursor[]> {
+    const groups = new Map<string, Cursor[]>();
+    const groupFilter = this.config.companyGroupIds;
+
+    const cursors = groupFilter
+      ? groupFilter.flatMap(companyGroupId =>
+          this.cursorRepository.listCursors({ companyGroupId, activeOnly: true })
+        )
+      : this.cursorRepository.listCursors({ activeOnly: true });
+
+    for (const cursor of cursors) {
+      const list = groups.get(cursor.companyGroupId) ?? [];
+      list.push(cursor);
+      groups.set(cursor.companyGroupId, list);
+    }
+
+    return groups;
+  }
+
+  /**
+   * A cursor is due once its interval has elapsed and any error backoff has expired
+   */
+  private isDue(cursor: Cursor, now: Date): boolean {
+    const interval = this.config.toolIntervals?.[cursor.sourceTool] ?? this.config.intervalMs;
+    if (now.getTime() - cursor.lastPolledAt.getTime() < interval) {
+      return false;
+    }
+
+    if (cursor.consecutiveErrors > 0 && cursor.lastErrorAt) {
+      const backoff = computeBackoffMs(cursor.consecutiveErrors, this.config);
+      if (now.getTime() - cursor.lastErrorAt.getTime() < backoff) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  private semaphoreFor(tool: SourceTool): Semaphore {
+    let semaphore = this.semaphores.get(tool);
+    if (!semaphore) {
+      const limit = this.config.toolConcurrency?.[tool] ?? this.config.maxConcurrentPerTool;
+      semaphore = new Semaphore(Math.max(1, limit));
+      this.semaphores.set(tool, semaphore);
+    }
+    return semaphore;
+  }
+
+  private emptySummary(): PollingRunSummary {
+    return {
+      cursorsPolled: 0,
+      cursorsSkipped: 0,
+      pagesFetched: 0,
+      changesProcessed: 0,
+      errors: 0,
+    };
+  }
+}
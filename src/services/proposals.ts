@@ -0,0 +1,377 @@
+/**
+ * Code Change Proposal Service
+ *
+ * Turns interpreted code changes into engineering proposals (PR summaries,
+ * review routing, migration checklists, documentation and spec/design
+ * alignment reminders) and runs them through pending → approved → applied.
+ *
+ * Nothing is written to a tool before a human approves it. On approval the
+ * proposal is applied through the ProposalApplier registered for its target
+ * tool (e.g. a GitHub comment or issue); if that fails it stays approved
+ * with the error recorded and can be applied again.
+ */
+
+import { randomUUID } from 'crypto';
+import { ChangeEvent } from '../types/core';
+import { CodeChangeInterpretation, CodeChangeProposal } from '../types/code-changes';
+import { ProposalFilter, ProposalRepository } from '../db/proposal-repository';
+import { ChangeEventRepository } from '../db/change-event-repository';
+import { analyzeChangeEvent, DiffFinding } from './diff-analysis';
+import { logger } from '../utils/logger';
+
+export type ProposalType = CodeChangeProposal['type'];
+export type ProposalTarget = NonNullable<CodeChangeProposal['targetResource']>;
+
+/**
+ * Writes an approved proposal to its target tool
+ */
+export interface ProposalApplier {
+  /**
+   * Returns the URL of what was created (comment, issue, review request), if any
+   */
+  apply(proposal: CodeChangeProposal): Promise<{ resourceUrl?: string }>;
+}
+
+export interface CodeChangeProposalService {
+  /**
+   * Draft and store proposals for an interpreted code change (all pending)
+   */
+  generateProposals(
+    changeEvent: ChangeEvent,
+    interpretation: CodeChangeInterpretation
+  ): Promise<CodeChangeProposal[]>;
+
+  getProposal(proposalId: string): Promise<CodeChangeProposal | null>;
+
+  listProposals(filter?: ProposalFilter): Promise<CodeChangeProposal[]>;
+
+  /**
+   * Approve a pending proposal and apply it to its target
+   * Returns the proposal as applied, or still approved with lastApplyError set.
+   */
+  approveProposal(proposalId: string, approvedBy: string): Promise<CodeChangeProposal>;
+
+  rejectProposal(proposalId: string, rejectedBy: string, reason?: string): Promise<CodeChangeProposal>;
+
+  /**
+   * Apply an approved proposal again (after a failed attempt)
+   */
+  applyProposal(proposalId: string): Promise<CodeChangeProposal>;
+}
+
+const MAX_EVIDENCE_ITEMS = 10;
+const DOCUMENTATION_FILE = /(^|\/)(docs?|documentation)\/|(^|\/)(README|CHANGELOG)[^/]*$|\.mdx?$/i;
+
+/**
+ * Implementation of CodeChangeProposalService
+ */
+export class CodeChangeProposalServiceImpl implements CodeChangeProposalService {
+  constructor(
+    private repository: ProposalRepository,
+    private appliers: Map<string, ProposalApplier>, // Keyed by target tool ("github")
+    private changeEvents?: ChangeEventRepository
+  ) {}
+
+  async generateProposals(
+    changeEvent: ChangeEvent,
+    interpretation: CodeChangeInterpretation
+  ): Promise<CodeChangeProposal[]> {
+    const drafts = draftProposals(changeEvent, interpretation);
+    const proposals = drafts.map(draft => this.repository.createProposal({
+      ...draft,
+      id: randomUUID(),
+      changeEventId: changeEvent.id,
+      status: 'pending',
+      createdAt: new Date(),
+    }));
+
+    for (const proposal of proposals) {
+      this.changeEvents?.appendTimeline({
+        changeEventId: changeEvent.id,
+        kind: 'proposal_created',
+        details: { proposalId: proposal.id, type: proposal.type, target: proposal.targetResource },
+      });
+    }
+
+    if (proposals.length > 0) {
+      logger.info(`Created code change proposals`, {
+        changeEventId: changeEvent.id,
+        types: proposals.map(proposal => proposal.type),
+      });
+    }
+
+    return proposals;
+  }
+
+  async getProposal(proposalId: string): Promise<CodeChangeProposal | null> {
+    return this.repository.getProposal(proposalId);
+  }
+
+  async listProposals(filter: ProposalFilter = {}): Promise<CodeChangeProposal[]> {
+    return this.repository.listProposals(filter);
+  }
+
+  async approveProposal(proposalId: string, approvedBy: string): Promise<CodeChangeProposal> {
+    const proposal = this.getProposalIn(proposalId, 'pending');
+    const approved = this.update({
+      ...proposal,
+      status: 'approved',
+      approvedBy,
+      approvedAt: new Date(),
+    }, 'pending');
+
+    this.changeEvents?.appendTimeline({
+      changeEventId: proposal.changeEventId,
+      kind: 'proposal_approved',
+      occurredAt: approved.approvedAt,
+      actor: approvedBy,
+      details: { proposalId, type: proposal.type },
+    });
+
+    logger.info(`Approved code change proposal`, { proposalId, approvedBy, type: proposal.type });
+
+    return this.apply(approved);
+  }
+
+  async rejectProposal(proposalId: string, rejectedBy: string, reason?: string): Promise<CodeChangeProposal> {
+    const proposal = this.getProposalIn(proposalId, 'pending');
+    const rejected = this.update({
+      ...proposal,
+      status: 'rejected',
+      rejectedBy,
+      rejectedAt: new Date(),
+      rejectionReason: reason,
+    }, 'pending');
+
+    this.changeEvents?.appendTimeline({
+      changeEventId: proposal.changeEventId,
+      kind: 'proposal_rejected',
+      occurredAt: rejected.rejectedAt,
+      actor: rejectedBy,
+      details: { proposalId, type: proposal.type, reason },
+    });
+
+    logger.info(`Rejected code change proposal`, { proposalId, rejectedBy, reason });
+
+    return rejected;
+  }
+
+  async applyProposal(proposalId: string): Promise<CodeChangeProposal> {
+    return this.apply(this.getProposalIn(proposalId, 'approved'));
+  }
+
+  /**
+   * Apply an approved proposal; failures are recorded rather than thrown
+   */
+  private async apply(proposal: CodeChangeProposal): Promise<CodeChangeProposal> {
+    try {
+      const target = proposal.targetResource;
+      if (!target) {
+        throw new Error(`Proposal ${proposal.id} has no target to apply to`);
+      }
+
+      const applier = this.appliers.get(target.tool);
+      if (!applier) {
+        throw new Error(`No proposal applier configured for ${target.tool}`);
+      }
+
+      const result = await applier.apply(proposal);
+      const applied = this.update({
+        ...proposal,
+        status: 'applied',
+        appliedAt: new Date(),
+        appliedResourceUrl: result.resourceUrl,
+        lastApplyError: undefined,
+      }, 'approved');
+
+      this.changeEvents?.appendTimeline({
+        changeEventId: proposal.changeEventId,
+        kind: 'proposal_applied',
+        occurredAt: applied.appliedAt,
+        details: { proposalId: proposal.id, type: proposal.type, resourceUrl: result.resourceUrl },
+      });
+
+      logger.info(`Applied code change proposal`, { proposalId: proposal.id, resourceUrl: result.resourceUrl });
+
+      return applied;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error(`Failed to apply code change proposal`, { proposalId: proposal.id, error: message });
+      return this.update({ ...proposal, lastApplyError: message }, 'approved');
+    }
+  }
+
+  private getProposalIn(proposalId: string, status: CodeChangeProposal['status']): CodeChangeProposal {
+    const proposal = this.repository.getProposal(proposalId);
+    if (!proposal) {
+      throw new Error(`Proposal not found: ${proposalId}`);
+    }
+    if (proposal.status !== status) {
+      throw new Error(`Proposal ${proposalId} is ${proposal.status}, not ${status}`);
+    }
+    return proposal;
+  }
+
+  private update(proposal: CodeChangeProposal, expectedStatus: CodeChangeProposal['status']): CodeChangeProposal {
+    if (!this.repository.updateProposal(proposal, expectedStatus)) {
+      throw new Error(`Proposal ${proposal.id} was modified concurrently; reload and try again`);
+    }
+    return proposal;
+  }
+}
+
+type ProposalDraft = Pick<CodeChangeProposal, 'type' | 'title' | 'content' | 'targetResource'>;
+
+/**
+ * Draft the proposals an interpreted code change calls for
+ */
+function draftProposals(changeEvent: ChangeEvent, interpretation: CodeChangeInterpretation): ProposalDraft[] {
+  const raw = changeEvent.rawChangeData ?? {};
+  const repository = typeof raw.repository === 'string' ? raw.repository : undefined;
+  if (!repository) {
+    return [];
+  }
+
+  const isPullRequest = changeEvent.sourceResourceType === 'pull_request' && typeof raw.number === 'number';
+  const title = typeof raw.title === 'string' ? raw.title
+    : typeof raw.message === 'string' ? raw.message.split('\n')[0]
+    : changeEvent.sourceResourceId;
+  const pullRequest: ProposalTarget | undefined = isPullRequest
+    ? { tool: changeEvent.sourceTool, resourceId: `${repository}#${raw.number}`, resourceUrl: changeEvent.sourceResourceUrl }
+    : undefined;
+  const repositoryTarget: ProposalTarget = { tool: changeEvent.sourceTool, resourceId: repository };
+
+  const files = Array.isArray(raw.files) ? raw.files as Array<{ path?: unknown }> : [];
+  const paths = files.map(file => file.path).filter((path): path is string => typeof path === 'string');
+  const contractChanges = interpretation.apiContractChanges ?? [];
+  const drafts: ProposalDraft[] = [];
+
+  if (pullRequest) {
+    drafts.push({
+      type: 'pr-summary',
+      title: 'Change summary',
+      content: formatPullRequestSummary(interpretation),
+      targetResource: pullRequest,
+    });
+
+    const teams = Array.from(new Set([...(interpretation.dependentTeams ?? []), ...(changeEvent.dependentTeams ?? [])]));
+    const reviewers = teams.filter(team => team.startsWith('@'));
+    if (reviewers.length > 0) {
+      drafts.push({
+        type: 'review-routing',
+        title: 'Suggested reviewers',
+        content: [
+          'Request reviews from the owners of the changed files:',
+          '',
+          ...reviewers.map(reviewer => `- ${reviewer}`),
+        ].join('\n'),
+        targetResource: pullRequest,
+      });
+    }
+
+    if (contractChanges.length > 0 && !paths.some(path => DOCUMENTATION_FILE.test(path))) {
+      drafts.push({
+        type: 'documentation-suggestion',
+        title: 'Documentation may need an update',
+        content: [
+          'This change alters API contracts but touches no documentation:',
+          '',
+          ...contractChanges.map(change => `- ${change}`),
+        ].join('\n'),
+        targetResource: pullRequest,
+      });
+    }
+
+    if (interpretation.relatedSpecs?.length) {
+      drafts.push({
+        type: 'spec-alignment-check',
+        title: 'Check the linked spec',
+        content: formatAlignmentCheck('spec', interpretation.relatedSpecs, [...contractChanges, ...(interpretation.uiBehaviorChanges ?? [])]),
+        targetResource: pullRequest,
+      });
+    }
+
+    if (interpretation.relatedDesigns?.length) {
+      drafts.push({
+        type: 'design-alignment-check',
+        title: 'Check the linked design',
+        content: formatAlignmentCheck('design', interpretation.relatedDesigns, interpretation.uiBehaviorChanges ?? []),
+        targetResource: pullRequest,
+      });
+    }
+  }
+
+  if (interpretation.migrationRisk) {
+    drafts.push({
+      type: 'migration-checklist',
+      title: `Migration checklist: ${title}`,
+      content: formatMigrationChecklist(changeEvent, analyzeChangeEvent(changeEvent).findings),
+      targetResource: repositoryTarget,
+    });
+  }
+
+  return drafts;
+}
+
+function formatPullRequestSummary(interpretation: CodeChangeInterpretation): string {
+  const lines = [
+    `**Classification:** ${interpretation.classification} · **Intent:** ${interpretation.intent.replace('-', ' ')} · **Confidence:** ${interpretation.confidence}`,
+  ];
+  if (interpretation.rolloutRisk) {
+    lines.push(`**Rollout risk:** ${interpretation.rolloutRisk}${interpretation.migrationRisk ? ' (includes a migration)' : ''}`);
+  }
+
+  const section = (heading: string, items?: string[]) => {
+    if (items?.length) {
+      lines.push('', `**${heading}**`, ...items.map(item => `- ${item}`));
+    }
+  };
+  section('API contract changes', interpretation.apiContractChanges);
+  section('UI behavior changes', interpretation.uiBehaviorChanges);
+  section('Impacted components', interpretation.impactedComponents);
+  section('Affected roles', interpretation.affectedRoles);
+  section('Evidence', interpretation.evidence
+    .slice(0, MAX_EVIDENCE_ITEMS)
+    .map(item => `${item.relevance} (\`${item.value.replace(/`/g, "'")}\`)`));
+
+  return lines.join('\n');
+}
+
+function formatAlignmentCheck(kind: 'spec' | 'design', resources: string[], changes: string[]): string {
+  return [
+    `This change is linked to the following ${kind}${resources.length > 1 ? 's' : ''}:`,
+    '',
+    ...resources.map(resource => `- ${resource}`),
+    '',
+    changes.length > 0
+      ? `Confirm the ${kind} still matches these changes:`
+      : `Confirm the ${kind} still matches the implemented behavior.`,
+    ...changes.map(change => `- ${change}`),
+  ].join('\n');
+}
+
+function formatMigrationChecklist(changeEvent: ChangeEvent, findings: DiffFinding[]): string {
+  const items: string[] = [];
+
+  for (const finding of findings) {
+    if (finding.kind === 'sql-migration') {
+      items.push(finding.breaking
+        ? `Back up \`${finding.subject}\` before running \`${finding.line}\` (${finding.path})`
+        : `Run ${finding.path} on staging and check it completes without locking \`${finding.subject}\``);
+    } else if (finding.kind === 'env-var') {
+      items.push(`Set \`${finding.subject}\` in every environment before deploying`);
+    } else if (finding.kind === 'feature-flag') {
+      items.push(`Confirm the rollout plan for feature flag \`${finding.subject}\``);
+    } else if (finding.breaking) {
+      items.push(`Coordinate consumers of: ${finding.description} (${finding.path})`);
+    }
+  }
+
+  items.push('Plan and test the rollback');
+
+  return [
+    `Changes in ${changeEvent.sourceResourceUrl ?? changeEvent.sourceResourceId} need a migration.`,
+    '',
+    ...Array.from(new Set(items)).map(item => `- [ ] ${item}`),
+  ].join('\n');
+}
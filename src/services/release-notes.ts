@@ -0,0 +1,440 @@
+/**
+ * Release Notes Service
+ *
+ * Compiles the pull requests merged into a repository between two tags (or
+ * two dates) into release notes, grouped into breaking changes, features and
+ * fixes, and rendered once per audience:
+ * - engineering: full changelog with PR links, authors and contract changes
+ * - customer: what customers will notice, in plain language (no PR numbers,
+ *   ticket keys, code or file paths)
+ * - executive: counts, highlights and risks
+ *
+ * What each audience may see comes from CodeChangeRoleGuardrails, so customer
+ * notes follow the same rules as notifications to sales and marketing.
+ * Every audience is rendered as Markdown and HTML.
+ */
+
+import { ChangeEvent, Role } from '../types/core';
+import { CodeChangeInterpretation, TagDateLookup } from '../types/code-changes';
+import { ChangeEventRepository, StoredChangeEvent } from '../db/change-event-repository';
+import { AIInterpretationService, AIInterpretationServiceImpl } from './ai-interpretation';
+import { CodeChangeRoleGuardrails } from './role-based-routing';
+
+export type ReleaseNotesAudience = 'engineering' | 'customer' | 'executive';
+
+export type ReleaseNoteCategory = 'breaking' | 'feature' | 'fix' | 'other';
+
+/**
+ * Tags are exclusive of `fromTag` and inclusive of `toTag`;
+ * dates are inclusive of `since` and exclusive of `until`
+ */
+export type ReleaseRange =
+  | { fromTag: string; toTag: string }
+  | { since: Date; until: Date };
+
+export interface ReleaseNotesRequest {
+  companyGroupId: string;
+  repository: string; // "owner/repo"
+  range: ReleaseRange;
+  title?: string; // Defaults to the tag or date range
+}
+
+export interface ReleaseNoteItem {
+  changeEventId: string;
+  number?: number;
+  title: string;
+  url?: string;
+  author: string;
+  mergedAt: Date;
+  category: ReleaseNoteCategory;
+  customerFacing: boolean;
+}
+
+export interface RenderedReleaseNotes {
+  markdown: string;
+  html: string;
+}
+
+export interface ReleaseNotes {
+  repository: string;
+  title: string;
+  since: Date;
+  until: Date;
+  items: ReleaseNoteItem[]; // Oldest merge first
+  audiences: Record<ReleaseNotesAudience, RenderedReleaseNotes>;
+}
+
+export interface ReleaseNotesService {
+  compileReleaseNotes(request: ReleaseNotesRequest): Promise<ReleaseNotes>;
+}
+
+// Role whose guardrails each audience follows
+const AUDIENCE_ROLES: Record<ReleaseNotesAudience, Role> = {
+  engineering: 'engineering-fullstack',
+  customer: 'marketing',
+  executive: 'ceo',
+};
+
+const PAGE_SIZE = 500;
+const MAX_HIGHLIGHTS = 5;
+const EXCLUDED_LABELS = new Set(['internal', 'chore', 'skip-changelog', 'no-changelog', 'skip-release-notes']);
+const BREAKING_LABELS = new Set(['breaking', 'breaking-change']);
+const FEATURE_LABELS = new Set(['feature', 'enhancement']);
+const FIX_LABELS = new Set(['bug', 'bugfix', 'fix']);
+
+/**
+ * Implementation of ReleaseNotesService
+ */
+export class ReleaseNotesServiceImpl implements ReleaseNotesService {
+  constructor(
+    private changeEvents: ChangeEventRepository,
+    private interpretation: AIInterpretationService = new AIInterpretationServiceImpl(),
+    private tagDates?: TagDateLookup
+  ) {}
+
+  async compileReleaseNotes(request: ReleaseNotesRequest): Promise<ReleaseNotes> {
+    const { since, until } = await this.resolveRange(request.repository, request.range);
+    if (since >= until) {
+      throw new Error(`Empty release range: ${since.toISOString()} is not before ${until.toISOString()}`);
+    }
+
+    const entries: ReleaseEntry[] = [];
+    for (const changeEvent of this.mergedPullRequests(request.companyGroupId, request.repository, since, until)) {
+      // Already interpreted events are returned as stored, without another LLM call
+      const interpretation = await this.interpretation.interpretCodeChange(changeEvent);
+      entries.push(toEntry(changeEvent, interpretation));
+    }
+    entries.sort((a, b) => a.item.mergedAt.getTime() - b.item.mergedAt.getTime());
+
+    const title = request.title ?? describeRange(request.repository, request.range);
+    const context: RenderContext = { title, since, until, entries };
+
+    return {
+      repository: request.repository,
+      title,
+      since,
+      until,
+      items: entries.map(entry => entry.item),
+      audiences: {
+        engineering: renderDocument(engineeringChangelog(context)),
+        customer: renderDocument(customerNotes(context)),
+        executive: renderDocument(executiveSummary(context)),
+      },
+    };
+  }
+
+  private async resolveRange(repository: string, range: ReleaseRange): Promise<{ since: Date; until: Date }> {
+    if ('since' in range) {
+      return { since: range.since, until: range.until };
+    }
+
+    if (!this.tagDates) {
+      throw new Error('Tag ranges need a tag date lookup');
+    }
+    const [from, to] = await Promise.all([
+      this.tagDates(repository, range.fromTag),
+      this.tagDates(repository, range.toTag),
+    ]);
+    return { since: new Date(from.getTime() + 1), until: new Date(to.getTime() + 1) };
+  }
+
+  /**
+   * Latest merged event per pull request in the range
+   */
+  private mergedPullRequests(companyGroupId: string, repository: string, since: Date, until: Date): StoredChangeEvent[] {
+    const latest = new Map<string, StoredChangeEvent>();
+
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const page = this.changeEvents.listChangeEvents({ companyGroupId, since, until, limit: PAGE_SIZE, offset });
+      for (const changeEvent of page) {
+        const raw = changeEvent.rawChangeData as Record<string, unknown>;
+        if (changeEvent.sourceResourceType !== 'pull_request') continue;
+        if (raw.repository !== repository || raw.state !== 'merged') continue;
+        // Newest first, so the first event seen for a pull request wins
+        if (!latest.has(changeEvent.sourceResourceId)) {
+          latest.set(changeEvent.sourceResourceId, changeEvent);
+        }
+      }
+      if (page.length < PAGE_SIZE) break;
+    }
+
+    return Array.from(latest.values());
+  }
+}
+
+interface ReleaseEntry {
+  item: ReleaseNoteItem;
+  changeEvent: ChangeEvent;
+  interpretation: CodeChangeInterpretation;
+  plainTitle: string; // Jargon-free title for customer and executive notes
+}
+
+interface RenderContext {
+  title: string;
+  since: Date;
+  until: Date;
+  entries: ReleaseEntry[];
+}
+
+interface NoteLine {
+  text: string;
+  url?: string;
+  suffix?: string;
+  details?: string[];
+}
+
+interface NoteSection {
+  heading: string;
+  lines: NoteLine[];
+}
+
+interface NoteDocument {
+  title: string;
+  intro?: string;
+  sections: NoteSection[];
+}
+
+function toEntry(changeEvent: ChangeEvent, interpretation: CodeChangeInterpretation): ReleaseEntry {
+  const raw = changeEvent.rawChangeData as Record<string, unknown>;
+  const title = typeof raw.title === 'string' ? raw.title : changeEvent.sourceResourceId;
+  const labels = Array.isArray(raw.labels) ? raw.labels.map(label => String(label).toLowerCase()) : [];
+  const category = categorize(title, labels, interpretation);
+  const releaseNote = typeof raw.body === 'string' ? extractReleaseNote(raw.body) : undefined;
+  const plainTitle = plainLanguage(releaseNote ?? title);
+
+  return {
+    item: {
+      changeEventId: changeEvent.id,
+      number: typeof raw.number === 'number' ? raw.number : undefined,
+      title,
+      url: changeEvent.sourceResourceUrl,
+      author: changeEvent.changedBy,
+      mergedAt: changeEvent.changedAt,
+      category,
+      customerFacing: plainTitle.length > 0
+        && !labels.some(label => EXCLUDED_LABELS.has(label))
+        && isCustomerFacing(category, interpretation),
+    },
+    changeEvent,
+    interpretation,
+    plainTitle,
+  };
+}
+
+/**
+ * Interpretation first; labels and conventional commit prefixes only when it says "other"
+ */
+function categorize(title: string, labels: string[], interpretation: CodeChangeInterpretation): ReleaseNoteCategory {
+  const prefix = /^(\w+)(?:\([^)]*\))?(!)?:/.exec(title);
+
+  if (interpretation.classification === 'breaking' || prefix?.[2] || labels.some(label => BREAKING_LABELS.has(label))) {
+    return 'breaking';
+  }
+  if (interpretation.intent === 'feature-addition') return 'feature';
+  if (interpretation.intent === 'bug-fix') return 'fix';
+  if (interpretation.intent !== 'other') return 'other';
+
+  const type = prefix?.[1].toLowerCase();
+  if (type === 'feat' || labels.some(label => FEATURE_LABELS.has(label))) return 'feature';
+  if (type === 'fix' || labels.some(label => FIX_LABELS.has(label))) return 'fix';
+  return 'other';
+}
+
+/**
+ * Same customer-impact rule as CodeChangeRoleGuardrails.shouldNotifyRole for
+ * sales and marketing, plus fixes, which customers notice too
+ */
+function isCustomerFacing(category: ReleaseNoteCategory, interpretation: CodeChangeInterpretation): boolean {
+  if (interpretation.uiBehaviorChanges && interpretation.uiBehaviorChanges.length > 0) return true;
+  return category === 'feature' || category === 'fix';
+}
+
+/**
+ * Text of a "Release note:" line or "## Release notes" section in a PR body
+ */
+function extractReleaseNote(body: string): string | undefined {
+  const match = /^(?:#+\s*)?release[ -]?notes?\s*:?[ \t]*(.*)$/im.exec(body);
+  if (!match) return undefined;
+
+  const inline = match[1].trim();
+  if (inline) return inline;
+
+  const following = body.slice(match.index + match[0].length).split('\n').map(line => line.trim());
+  const next = following.find(line => line.length > 0);
+  return next && !next.startsWith('#') ? next.replace(/^[-*]\s+/, '') : undefined;
+}
+
+/**
+ * Strip engineering jargon from a title: conventional commit prefixes,
+ * ticket keys, PR references, inline code and file paths
+ */
+function plainLanguage(text: string): string {
+  const plain = text
+    .replace(/^\w+(?:\([^)]*\))?!?:\s*/, '')
+    .replace(/\[[A-Z][A-Z0-9]+-\d+\]|\b[A-Z][A-Z0-9]+-\d+\b:?/g, '')
+    .replace(/\(?#\d+\)?/g, '')
+    .replace(/`[^`]*`/g, '')
+    .replace(/\S*\/\S*|\S+\.(?:ts|tsx|js|jsx|py|go|rb|rs|java|sql|ya?ml|json)\b/g, '')
+    .replace(/\b(?:WIP|wip)\b/g, '')
+    .replace(/\(\s*\)|\[\s*\]/g, '')
+    .replace(/\s+/g, ' ')
+    .replace(/^[\s:;,.-]+|[\s:;,-]+$/g, '');
+
+  return plain ? plain[0].toUpperCase() + plain.slice(1) : '';
+}
+
+function engineeringChangelog(context: RenderContext): NoteDocument {
+  const line = (entry: ReleaseEntry): NoteLine => {
+    const rules = guardrails('engineering', entry);
+    const { number, url, author } = entry.item;
+    return {
+      text: entry.item.title,
+      url: rules.includeDiffs ? url : undefined,
+      suffix: [number !== undefined ? `#${number}` : undefined, `@${author}`].filter(Boolean).join(', '),
+      details: rules.includeTechnicalDetails
+        ? [
+          ...(entry.interpretation.apiContractChanges ?? []),
+          ...(entry.interpretation.migrationRisk ? ['Includes a migration'] : []),
+        ]
+        : [],
+    };
+  };
+
+  return {
+    title: `Changelog: ${context.title}`,
+    intro: `${context.entries.length} pull ${plural(context.entries.length, 'request', 'requests')} merged`,
+    sections: [
+      { heading: 'Breaking changes', lines: byCategory(context, 'breaking').map(line) },
+      { heading: 'Features', lines: byCategory(context, 'feature').map(line) },
+      { heading: 'Fixes', lines: byCategory(context, 'fix').map(line) },
+      { heading: 'Other changes', lines: byCategory(context, 'other').map(line) },
+    ],
+  };
+}
+
+function customerNotes(context: RenderContext): NoteDocument {
+  const line = (entry: ReleaseEntry): NoteLine => {
+    const rules = guardrails('customer', entry);
+    return {
+      text: rules.summaryType === 'technical' ? entry.item.title : entry.plainTitle,
+      url: rules.includeDiffs ? entry.item.url : undefined,
+      details: rules.includeTechnicalDetails ? entry.interpretation.apiContractChanges : undefined,
+    };
+  };
+  const visible = (category: ReleaseNoteCategory) =>
+    byCategory(context, category).filter(entry => entry.item.customerFacing).map(line);
+
+  return {
+    title: `What's new: ${context.title}`,
+    sections: [
+      { heading: 'Changes that may need your attention', lines: visible('breaking') },
+      { heading: 'New', lines: visible('feature') },
+      { heading: 'Fixed', lines: visible('fix') },
+      { heading: 'Improved', lines: visible('other') },
+    ],
+  };
+}
+
+function executiveSummary(context: RenderContext): NoteDocument {
+  const count = (category: ReleaseNoteCategory) => byCategory(context, category).length;
+  const features = count('feature');
+  const fixes = count('fix');
+  const breaking = count('breaking');
+  const migrations = context.entries.filter(entry => entry.interpretation.migrationRisk).length;
+  const highRisk = context.entries.filter(entry => entry.interpretation.rolloutRisk === 'high').length;
+
+  const highlights = byCategory(context, 'feature')
+    .filter(entry => entry.item.customerFacing)
+    .slice(0, MAX_HIGHLIGHTS)
+    .map(entry => ({ text: entry.plainTitle }));
+
+  const risks: NoteLine[] = [
+    ...byCategory(context, 'breaking').map(entry => ({ text: `Breaking: ${entry.plainTitle || entry.item.title}` })),
+    ...(migrations > 0 ? [{ text: `${migrations} ${plural(migrations, 'change includes', 'changes include')} a data migration` }] : []),
+    ...(highRisk > 0 ? [{ text: `${highRisk} ${plural(highRisk, 'change has', 'changes have')} a high rollout risk` }] : []),
+  ];
+
+  return {
+    title: `Release summary: ${context.title}`,
+    intro: [
+      `${context.entries.length} ${plural(context.entries.length, 'change', 'changes')} shipped between ${formatDate(context.since)} and ${formatDate(context.until)}:`,
+      `${features} ${plural(features, 'feature', 'features')}, ${fixes} ${plural(fixes, 'fix', 'fixes')}`,
+      `and ${breaking} breaking ${plural(breaking, 'change', 'changes')}.`,
+    ].join(' '),
+    sections: [
+      { heading: 'Highlights', lines: highlights },
+      { heading: 'Risks', lines: risks },
+    ],
+  };
+}
+
+function guardrails(audience: ReleaseNotesAudience, entry: ReleaseEntry) {
+  return CodeChangeRoleGuardrails.getRoleSpecificContent(AUDIENCE_ROLES[audience], entry.changeEvent, entry.interpretation);
+}
+
+function byCategory(context: RenderContext, category: ReleaseNoteCategory): ReleaseEntry[] {
+  return context.entries.filter(entry => entry.item.category === category);
+}
+
+/**
+ * Empty sections are left out; a document with no sections says so
+ */
+function renderDocument(document: NoteDocument): RenderedReleaseNotes {
+  const sections = document.sections.filter(section => section.lines.length > 0);
+
+  const markdown = [`# ${document.title}`, ''];
+  const html = [`<h1>${escapeHtml(document.title)}</h1>`];
+
+  if (document.intro) {
+    markdown.push(document.intro, '');
+    html.push(`<p>${escapeHtml(document.intro)}</p>`);
+  }
+  if (sections.length === 0) {
+    markdown.push('No notable changes.', '');
+    html.push('<p>No notable changes.</p>');
+  }
+
+  for (const section of sections) {
+    markdown.push(`## ${section.heading}`, '');
+    html.push(`<h2>${escapeHtml(section.heading)}</h2>`, '<ul>');
+
+    for (const line of section.lines) {
+      const suffix = line.suffix ? ` (${line.suffix})` : '';
+      markdown.push(`- ${line.url ? `[${line.text}](${line.url})` : line.text}${suffix}`);
+      markdown.push(...(line.details ?? []).map(detail => `  - ${detail}`));
+
+      const text = line.url ? `<a href="${escapeHtml(line.url)}">${escapeHtml(line.text)}</a>` : escapeHtml(line.text);
+      const details = line.details && line.details.length > 0
+        ? `<ul>${line.details.map(detail => `<li>${escapeHtml(detail)}</li>`).join('')}</ul>`
+        : '';
+      html.push(`<li>${text}${escapeHtml(suffix)}${details}</li>`);
+    }
+
+    markdown.push('');
+    html.push('</ul>');
+  }
+
+  return { markdown: markdown.join('\n').trimEnd() + '\n', html: html.join('\n') + '\n' };
+}
+
+function describeRange(repository: string, range: ReleaseRange): string {
+  return 'since' in range
+    ? `${repository} ${formatDate(range.since)} to ${formatDate(range.until)}`
+    : `${repository} ${range.toTag}`;
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function plural(count: number, singular: string, pluralForm: string): string {
+  return count === 1 ? singular : pluralForm;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -5,12 +5,21 @@
  * are relevant to the information.
  * 
  * This service determines which channels should receive notifications for
- * each change event based on strict role relevance guardrails.
+ * each change event based on strict role relevance guardrails. A company
+ * group's routing policy can hold affected roles back and decides the
+ * company-wide channel; without one the default rules apply.
  */
 
 import { ChangeEvent, Role, Channel, User, Notification } from '../types/core';
 import { CodeChangeInterpretation } from '../types/code-changes';
 import { logger } from '../utils/logger';
+import {
+  RoutingPolicyService,
+  RoutingExplanation,
+  defaultRoutingPolicy,
+  evaluateRoutingPolicy,
+  roleDecision,
+} from './routing-policy';
 import { randomUUID } from 'crypto';
 
 export interface RoleBasedRoutingService {
@@ -36,7 +45,8 @@ export class RoleBasedRoutingServiceImpl implements RoleBasedRoutingService {
       impact: string;
       relevance: Record<Role, string>;
       suggestedAction?: string;
-    }>
+    }>,
+    private policies?: RoutingPolicyService
   ) {}
 
   async routeChange(changeEvent: ChangeEvent, channels: Channel[]): Promise<Notification[]> {
@@ -46,6 +56,12 @@ export class RoleBasedRoutingServiceImpl implements RoleBasedRoutingService {
     // Extract affected roles from interpretation
     const affectedRoles = interpretation.affectedRoles || [];
 
+    const explanation = await this.explainPolicy(changeEvent, channels, {
+      affectedRoles,
+      summary: interpretation.summary,
+      impact: interpretation.impact,
+    });
+
     // Filter channels to only those relevant to affected roles
     const relevantChannels = this.filterRelevantChannels(channels, affectedRoles, changeEvent);
 
@@ -65,6 +81,16 @@ export class RoleBasedRoutingServiceImpl implements RoleBasedRoutingService {
           continue;
         }
 
+        const decision = roleDecision(explanation, channel.role);
+        if (!decision.notify) {
+          logger.info(`Skipping channel ${channel.name} - held back by routing policy`, {
+            channelId: channel.id,
+            changeEventId: changeEvent.id,
+            ruleId: decision.ruleId,
+          });
+          continue;
+        }
+
         const relevance = interpretation.relevance[channel.role] || 
           `Change affects ${channel.role} work`;
 
@@ -82,7 +108,7 @@ export class RoleBasedRoutingServiceImpl implements RoleBasedRoutingService {
         });
       } else if (channel.type === 'everyone') {
         // Company-wide channel - only use for major cross-cutting impacts
-        if (this.isMajorCrossCuttingImpact(changeEvent, interpretation, affectedRoles)) {
+        if (explanation.everyone.notify) {
           notifications.push({
             id: randomUUID(),
             changeEventId: changeEvent.id,
@@ -98,6 +124,7 @@ export class RoleBasedRoutingServiceImpl implements RoleBasedRoutingService {
           logger.info(`Skipping company-wide channel - not major cross-cutting impact`, {
             channelId: channel.id,
             changeEventId: changeEvent.id,
+            reason: explanation.everyone.reason,
           });
         }
       }
@@ -147,55 +174,19 @@ export class RoleBasedRoutingServiceImpl implements RoleBasedRoutingService {
   }
 
   /**
-   * Determine if change is a major cross-cutting impact worthy of company-wide channel
-   * 
-   * Company-wide channel is reserved for:
-   * - Breaking changes affecting multiple teams
-   * - Major releases
-   * - Critical infrastructure changes
-   * - High-confidence, high-impact changes only
+   * Evaluate the routing policy of the company group the channels belong to
    */
-  private isMajorCrossCuttingImpact(
+  private async explainPolicy(
     changeEvent: ChangeEvent,
-    interpretation: {
-      affectedRoles: Role[];
-      summary: string;
-      impact: string;
-    },
-    affectedRoles: Role[]
-  ): boolean {
-    // Must affect multiple roles (at least 3)
-    if (affectedRoles.length < 3) {
-      return false;
-    }
-
-    // Must be high confidence
-    if (changeEvent.confidence && ['low', 'medium'].includes(changeEvent.confidence)) {
-      return false;
-    }
-
-    // Must be breaking or major functional change
-    if (changeEvent.classification === 'breaking') {
-      return true;
-    }
-
-    // Must have high-impact indicators
-    const impactIndicators = [
-      'release',
-      'breaking',
-      'infrastructure',
-      'security',
-      'migration',
-    ];
-
-    const summaryLower = interpretation.summary.toLowerCase();
-    const impactLower = interpretation.impact.toLowerCase();
-
-    const hasHighImpactKeyword = impactIndicators.some(
-      keyword => summaryLower.includes(keyword) || impactLower.includes(keyword)
-    );
+    channels: Channel[],
+    interpretation: { affectedRoles: Role[]; summary: string; impact: string }
+  ): Promise<RoutingExplanation> {
+    const subject = { changeEvent, ...interpretation };
+    const companyGroupId = channels[0]?.companyGroupId;
 
-    return hasHighImpactKeyword;
+    return this.policies && companyGroupId
+      ? this.policies.explain(companyGroupId, subject)
+      : evaluateRoutingPolicy(defaultRoutingPolicy(companyGroupId ?? ''), subject);
   }
 }
 
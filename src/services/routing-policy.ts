@@ -0,0 +1,254 @@
+/**
+ * Routing Policy Service
+ *
+ * Evaluates a company group's declarative routing policy against an
+ * interpreted ChangeEvent. Groups without a policy of their own get the
+ * default rules, which send major cross-cutting changes company-wide.
+ *
+ * Underneath every policy sits a base layer of guardrails that no rule can
+ * switch off: role channels only hear about changes that affect their role,
+ * low and medium confidence changes never go company-wide, and every routed
+ * notification still waits for human approval. Rules can hold affected roles
+ * back and decide the company-wide channel, nothing more.
+ */
+
+import { ChangeEvent, ConfidenceLevel, Role } from '../types/core';
+import { PolicyCondition, PolicyRule, RoutingPolicy } from '../types/routing';
+import { RoutingPolicyRepository } from '../db/routing-policy-repository';
+import { matchesOwnershipPattern } from './ownership';
+
+/**
+ * What a policy is evaluated against: the change plus its interpretation
+ */
+export interface PolicySubject {
+  changeEvent: ChangeEvent;
+  affectedRoles: Role[];
+  summary: string;
+  impact: string;
+}
+
+export interface RoutingDecision {
+  notify: boolean;
+  ruleId?: string; // The rule that decided, if one did
+  guardrail?: string; // The base guardrail that overrode the rules, if one did
+  reason: string;
+}
+
+export interface RoutingExplanation {
+  companyGroupId: string;
+  policyVersion: number;
+  matchedRuleIds: string[];
+  roles: Array<RoutingDecision & { role: Role }>; // One per affected role
+  everyone: RoutingDecision;
+}
+
+export interface RoutingPolicyService {
+  /**
+   * Stored policy, or the default policy (version 0) when the group has none
+   */
+  getPolicy(companyGroupId: string): Promise<RoutingPolicy>;
+
+  setPolicy(companyGroupId: string, rules: PolicyRule[], updatedBy?: string): Promise<RoutingPolicy>;
+
+  /**
+   * Drop the group's policy and go back to the defaults
+   */
+  resetPolicy(companyGroupId: string): Promise<RoutingPolicy>;
+
+  /**
+   * Dry run: which rules fire for the subject, and what each channel would get
+   * Pass `rules` to try a draft instead of the stored policy.
+   */
+  explain(companyGroupId: string, subject: PolicySubject, rules?: PolicyRule[]): Promise<RoutingExplanation>;
+}
+
+/**
+ * The unremovable base layer, in the words explanations use
+ */
+export const BASE_GUARDRAILS = {
+  roleRelevance: 'Role channels only hear about changes that affect their role',
+  companyWideConfidence: 'Low and medium confidence changes never go company-wide',
+  humanApproval: 'Every routed notification waits for human approval',
+} as const;
+
+/**
+ * Company-wide channel is reserved for breaking changes, major releases and
+ * critical infrastructure, security or migration work that reaches several teams
+ */
+export const DEFAULT_ROUTING_RULES: PolicyRule[] = [
+  {
+    id: 'breaking-cross-cutting',
+    description: 'Breaking changes affecting at least three roles go company-wide',
+    when: { classification: ['breaking'], affectedRoles: { minCount: 3 } },
+    then: { everyone: 'notify' },
+  },
+  {
+    id: 'major-cross-cutting',
+    description: 'Releases, infrastructure, security and migration changes affecting at least three roles go company-wide',
+    when: {
+      keywords: ['release', 'breaking', 'infrastructure', 'security', 'migration'],
+      affectedRoles: { minCount: 3 },
+    },
+    then: { everyone: 'notify' },
+  },
+];
+
+const CONFIDENCE_RANK: Record<ConfidenceLevel, number> = {
+  low: 0,
+  medium: 1,
+  high: 2,
+  'very-high': 3,
+};
+
+/**
+ * Implementation of RoutingPolicyService
+ */
+export class RoutingPolicyServiceImpl implements RoutingPolicyService {
+  constructor(private repository: RoutingPolicyRepository) {}
+
+  async getPolicy(companyGroupId: string): Promise<RoutingPolicy> {
+    return this.repository.getPolicy(companyGroupId) ?? defaultRoutingPolicy(companyGroupId);
+  }
+
+  async setPolicy(companyGroupId: string, rules: PolicyRule[], updatedBy?: string): Promise<RoutingPolicy> {
+    const duplicate = rules.find((rule, index) => rules.findIndex(other => other.id === rule.id) !== index);
+    if (duplicate) {
+      throw new Error(`Duplicate rule id ${duplicate.id}`);
+    }
+
+    const current = await this.getPolicy(companyGroupId);
+    return this.repository.savePolicy({
+      companyGroupId,
+      version: current.version + 1,
+      rules,
+      updatedBy,
+      updatedAt: new Date(),
+    });
+  }
+
+  async resetPolicy(companyGroupId: string): Promise<RoutingPolicy> {
+    this.repository.deletePolicy(companyGroupId);
+    return defaultRoutingPolicy(companyGroupId);
+  }
+
+  async explain(companyGroupId: string, subject: PolicySubject, rules?: PolicyRule[]): Promise<RoutingExplanation> {
+    const policy = rules
+      ? { ...defaultRoutingPolicy(companyGroupId), rules }
+      : await this.getPolicy(companyGroupId);
+    return evaluateRoutingPolicy(policy, subject);
+  }
+}
+
+export function defaultRoutingPolicy(companyGroupId: string): RoutingPolicy {
+  return {
+    companyGroupId,
+    version: 0,
+    rules: DEFAULT_ROUTING_RULES,
+    updatedAt: new Date(0),
+  };
+}
+
+/**
+ * Evaluate every rule in order, then apply the base guardrails
+ * - A role is held back by the first matching rule that skips it
+ * - The company-wide channel follows the first matching rule that decides it, and stays quiet otherwise
+ */
+export function evaluateRoutingPolicy(policy: RoutingPolicy, subject: PolicySubject): RoutingExplanation {
+  const matched = policy.rules.filter(rule => matchesCondition(rule.when, subject));
+
+  const roles = subject.affectedRoles.map(role => {
+    const skippedBy = matched.find(rule => rule.then.skipRoles?.includes(role));
+    return skippedBy
+      ? { role, notify: false, ruleId: skippedBy.id, reason: skippedBy.description ?? `Rule ${skippedBy.id} holds ${role} back` }
+      : { role, notify: true, reason: `Change affects ${role}` };
+  });
+
+  const decidedBy = matched.find(rule => rule.then.everyone !== undefined);
+  let everyone: RoutingDecision = decidedBy
+    ? {
+      notify: decidedBy.then.everyone === 'notify',
+      ruleId: decidedBy.id,
+      reason: decidedBy.description ?? `Rule ${decidedBy.id} decides the company-wide channel`,
+    }
+    : { notify: false, reason: 'No rule sends this change company-wide' };
+
+  const confidence = subject.changeEvent.confidence;
+  if (everyone.notify && confidence && CONFIDENCE_RANK[confidence] < CONFIDENCE_RANK.high) {
+    everyone = {
+      ...everyone,
+      notify: false,
+      guardrail: BASE_GUARDRAILS.companyWideConfidence,
+      reason: `${BASE_GUARDRAILS.companyWideConfidence} (confidence is ${confidence})`,
+    };
+  }
+
+  return {
+    companyGroupId: policy.companyGroupId,
+    policyVersion: policy.version,
+    matchedRuleIds: matched.map(rule => rule.id),
+    roles,
+    everyone,
+  };
+}
+
+/**
+ * Decision for a role channel; roles the change doesn't affect are skipped by the base layer
+ */
+export function roleDecision(explanation: RoutingExplanation, role: Role): RoutingDecision {
+  return explanation.roles.find(decision => decision.role === role) ?? {
+    notify: false,
+    guardrail: BASE_GUARDRAILS.roleRelevance,
+    reason: `${role} is not affected by this change`,
+  };
+}
+
+function matchesCondition(condition: PolicyCondition, subject: PolicySubject): boolean {
+  const { changeEvent, affectedRoles } = subject;
+
+  if (condition.classification && !(changeEvent.classification && condition.classification.includes(changeEvent.classification))) {
+    return false;
+  }
+  if (condition.intent && !(changeEvent.intent && condition.intent.includes(changeEvent.intent))) {
+    return false;
+  }
+  if (condition.tool && !condition.tool.includes(changeEvent.sourceTool)) {
+    return false;
+  }
+
+  if (condition.paths) {
+    const paths = changedPaths(changeEvent);
+    if (!paths.some(path => condition.paths!.some(pattern => matchesOwnershipPattern(pattern, path)))) {
+      return false;
+    }
+  }
+
+  const roles = condition.affectedRoles;
+  if (roles) {
+    if (roles.any && !roles.any.some(role => affectedRoles.includes(role))) return false;
+    if (roles.all && !roles.all.every(role => affectedRoles.includes(role))) return false;
+    if (roles.minCount !== undefined && affectedRoles.length < roles.minCount) return false;
+  }
+
+  // Unknown confidence never meets a minimum
+  if (condition.minConfidence && !(
+    changeEvent.confidence && CONFIDENCE_RANK[changeEvent.confidence] >= CONFIDENCE_RANK[condition.minConfidence]
+  )) {
+    return false;
+  }
+
+  if (condition.keywords) {
+    const text = `${subject.summary}\n${subject.impact}`.toLowerCase();
+    if (!condition.keywords.some(keyword => text.includes(keyword.toLowerCase()))) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+function changedPaths(changeEvent: ChangeEvent): string[] {
+  const files = changeEvent.rawChangeData?.files;
+  return Array.isArray(files)
+    ? files.map(file => (file as { path?: unknown }).path).filter((path): path is string => typeof path === 'string')
+    : [];
+}
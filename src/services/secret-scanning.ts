@@ -0,0 +1,112 @@
+/**
+ * Secret Scanning Service
+ *
+ * Runs every normalized change through the shared sensitive-data scanner
+ * before anything else sees it. Secrets and PII are redacted from the diff
+ * and the tool's raw data, so neither the interpreter's prompt nor the
+ * stored event ever contains them. A change that carried a secret (a leaked
+ * key in a diff, a token pasted into a ticket) is blocked from routing
+ * entirely: notifying people about it would spread it further. PII alone is
+ * redacted and the change routed as usual.
+ */
+
+import { ChangeEvent } from '../types/core';
+import { SensitiveFindingSchema } from '../types/code-changes';
+import { SensitiveCategory, redact } from '../utils/sensitive-data.cjs';
+
+export interface SensitiveDataLocation {
+  field: string; // e.g. "diff", "rawChangeData.body", "rawChangeData.files.1.patch"
+  type: string;
+  category: SensitiveCategory;
+  line: number;
+}
+
+export interface ChangeScanResult {
+  changeEvent: ChangeEvent; // With secrets and PII redacted
+  findings: SensitiveDataLocation[];
+  blocked: boolean; // A secret was found; the change must not be routed
+}
+
+export interface SecretScanningService {
+  scanChangeEvent(changeEvent: ChangeEvent): ChangeScanResult;
+}
+
+export interface SecretScanningConfig {
+  allowlist: Array<string | RegExp>; // Known test fixtures and placeholders
+}
+
+/**
+ * Identifiers, URLs and paths are random-looking by nature, so they are
+ * never scanned (a Google Docs ID would otherwise read as a secret)
+ */
+const UNSCANNED_FIELD = /(?:^id|Id|Ids|url|Url|Urls|path|Path|sha|Sha|hash|Hash|version|Version)$/;
+
+/**
+ * Implementation of SecretScanningService
+ */
+export class SecretScanningServiceImpl implements SecretScanningService {
+  private config: SecretScanningConfig;
+
+  constructor(config: Partial<SecretScanningConfig> = {}) {
+    this.config = { allowlist: [], ...config };
+  }
+
+  scanChangeEvent(changeEvent: ChangeEvent): ChangeScanResult {
+    const findings: SensitiveDataLocation[] = [];
+    const scanned: ChangeEvent = { ...changeEvent };
+
+    if (changeEvent.diff) {
+      scanned.diff = this.redactField(changeEvent.diff, 'diff', findings);
+    }
+    if (changeEvent.rawChangeData) {
+      scanned.rawChangeData = this.redactValue(changeEvent.rawChangeData, 'rawChangeData', findings) as Record<string, unknown>;
+    }
+
+    return {
+      changeEvent: scanned,
+      findings,
+      blocked: findings.some(finding => finding.category === 'secret'),
+    };
+  }
+
+  private redactField(text: string, field: string, findings: SensitiveDataLocation[]): string {
+    const result = redact(text, { allowlist: this.config.allowlist });
+    findings.push(...result.findings.map(({ type, category, line }) => ({ field, type, category, line })));
+    return result.text;
+  }
+
+  private redactValue(value: unknown, field: string, findings: SensitiveDataLocation[]): unknown {
+    if (typeof value === 'string') {
+      return this.redactField(value, field, findings);
+    }
+    if (Array.isArray(value)) {
+      return value.map((item, index) => this.redactValue(item, `${field}.${index}`, findings));
+    }
+    if (!value || typeof value !== 'object' || value instanceof Date) {
+      return value;
+    }
+
+    const redacted: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      if (key === 'findings') {
+        // Patches the integration already redacted: its findings still count
+        findings.push(...recordedFindings(entry, `${field}.patch`));
+        redacted[key] = entry;
+      } else {
+        redacted[key] = UNSCANNED_FIELD.test(key) ? entry : this.redactValue(entry, `${field}.${key}`, findings);
+      }
+    }
+    return redacted;
+  }
+}
+
+function recordedFindings(value: unknown, field: string): SensitiveDataLocation[] {
+  if (!Array.isArray(value)) return [];
+
+  return value.flatMap(entry => {
+    const parsed = SensitiveFindingSchema.safeParse(entry);
+    return parsed.success
+      ? [{ field, type: parsed.data.type, category: parsed.data.category, line: parsed.data.line }]
+      : [];
+  });
+}
@@ -32,6 +32,20 @@ export const PRStateSchema = z.enum([
 
 export type PRState = z.infer<typeof PRStateSchema>;
 
+/**
+ * Where a secret or PII was found (see utils/sensitive-data.cjs)
+ * Never carries the sensitive value itself
+ */
+export const SensitiveFindingSchema = z.object({
+  type: z.string(), // Detector, e.g. "github_token", "credit_card"
+  category: z.enum(['secret', 'pii']),
+  start: z.number().int().min(0), // Offsets into the unredacted text
+  end: z.number().int().min(0),
+  line: z.number().int().positive(),
+});
+
+export type SensitiveFindingSummary = z.infer<typeof SensitiveFindingSchema>;
+
 /**
  * File-level diff with secret redaction
  */
@@ -42,8 +56,9 @@ export const FileDiffSchema = z.object({
   deletions: z.number().int().min(0),
   changes: z.number().int().min(0),
   patch: z.string().optional(), // Diff content (may be redacted)
-  isRedacted: z.boolean().default(false), // True if secrets were detected and redacted
+  isRedacted: z.boolean().default(false), // True if secrets or PII were detected and redacted
   detectedSecrets: z.array(z.string()).optional(), // Types of secrets detected
+  findings: z.array(SensitiveFindingSchema).optional(), // Where, in the unredacted patch
 });
 
 export type FileDiff = z.infer<typeof FileDiffSchema>;
@@ -109,6 +124,46 @@ export const CommitSchema = z.object({
 
 export type Commit = z.infer<typeof CommitSchema>;
 
+/**
+ * Release / tag data structure
+ */
+export const ReleaseSchema = z.object({
+  id: z.string(),
+  tagName: z.string(),
+  name: z.string().optional(),
+  body: z.string().optional(),
+  repository: z.string(),
+  author: z.string(),
+  url: z.string().url(),
+  isDraft: z.boolean(),
+  isPrerelease: z.boolean(),
+  targetBranch: z.string().optional(),
+  createdAt: z.date(),
+  publishedAt: z.date().optional(),
+});
+
+export type Release = z.infer<typeof ReleaseSchema>;
+
+/**
+ * Resolve a tag to the date of the commit it points to
+ */
+export type TagDateLookup = (repository: string, tag: string) => Promise<Date>;
+
+/**
+ * Pull Request review data structure
+ */
+export const PullRequestReviewSchema = z.object({
+  id: z.string(),
+  pullRequest: PullRequestSchema,
+  reviewer: z.string(),
+  state: z.enum(['approved', 'changes-requested', 'commented', 'dismissed']),
+  body: z.string().optional(),
+  url: z.string().url(),
+  submittedAt: z.date(),
+});
+
+export type PullRequestReview = z.infer<typeof PullRequestReviewSchema>;
+
 /**
  * CODEOWNERS or repository ownership metadata
  */
@@ -123,6 +178,38 @@ export const CodeOwnershipSchema = z.object({
 
 export type CodeOwnership = z.infer<typeof CodeOwnershipSchema>;
 
+/**
+ * Manually maintained path ownership for a company group
+ * Patterns use CODEOWNERS syntax ("/src/payments/", "*.graphql", "docs/**")
+ */
+export const OwnershipRuleSchema = z.object({
+  id: z.string().uuid(),
+  companyGroupId: z.string().uuid(),
+  repository: z.string().optional(), // "owner/repo"; applies to every repository when omitted
+  pattern: z.string().min(1),
+  component: z.string().optional(), // e.g. "checkout-api"
+  roles: z.array(RoleSchema),
+  teams: z.array(z.string()),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export type OwnershipRule = z.infer<typeof OwnershipRuleSchema>;
+
+/**
+ * Roles and teams behind a CODEOWNERS owner or commit author
+ * Owners are "@user", "@org/team" or an email address
+ */
+export const OwnerMappingSchema = z.object({
+  companyGroupId: z.string().uuid(),
+  owner: z.string().min(1),
+  roles: z.array(RoleSchema),
+  teams: z.array(z.string()),
+  updatedAt: z.date(),
+});
+
+export type OwnerMapping = z.infer<typeof OwnerMappingSchema>;
+
 /**
  * Semantic code change interpretation
  * 
@@ -179,6 +266,7 @@ export const CodeChangeProposalSchema = z.object({
     'integration-task',
   ]),
   
+  title: z.string().optional(), // Issue title, comment heading
   content: z.string(), // Generated content/suggestion
   targetResource: z.object({
     tool: z.string(),
@@ -189,6 +277,14 @@ export const CodeChangeProposalSchema = z.object({
   status: z.enum(['pending', 'approved', 'rejected', 'applied']),
   approvedBy: z.string().uuid().optional(),
   approvedAt: z.date().optional(),
+  rejectedBy: z.string().uuid().optional(),
+  rejectedAt: z.date().optional(),
+  rejectionReason: z.string().optional(),
+  
+  // Set once the integration target accepted it
+  appliedAt: z.date().optional(),
+  appliedResourceUrl: z.string().url().optional(), // The comment, issue or review request created
+  lastApplyError: z.string().optional(), // Approved but not applied yet
   
   createdAt: z.date(),
 });
@@ -132,6 +132,40 @@ export const ChannelTypeSchema = z.enum(['everyone', 'role']);
 
 export type ChannelType = z.infer<typeof ChannelTypeSchema>;
 
+/**
+ * Where a channel's approved notifications are delivered
+ * A channel can deliver to several targets (e.g. a Slack channel and a mailing list)
+ */
+export const DeliveryTargetSchema = z.discriminatedUnion('adapter', [
+  z.object({
+    adapter: z.literal('slack'),
+    slackChannelId: z.string(), // C0123456789
+  }),
+  z.object({
+    adapter: z.literal('email'),
+    to: z.array(z.string().email()).min(1),
+  }),
+  z.object({
+    adapter: z.literal('webhook'),
+    url: z.string().url(),
+    secret: z.string().min(1), // Signs each request (X-Zinc-Signature)
+  }),
+  z.object({
+    adapter: z.literal('teams'),
+    webhookUrl: z.string().url(), // Incoming webhook / Workflows URL
+  }),
+]);
+
+export type DeliveryTarget = z.infer<typeof DeliveryTargetSchema>;
+
+/**
+ * How often a channel in digest mode receives its batched notifications
+ * Breaking changes are always delivered immediately.
+ */
+export const DigestFrequencySchema = z.enum(['hourly', 'daily', 'weekly']);
+
+export type DigestFrequency = z.infer<typeof DigestFrequencySchema>;
+
 /**
  * Channel - receives notifications based on role relevance
  * Role channels must NEVER receive unrelated technical or business noise
@@ -143,6 +177,8 @@ export const ChannelSchema = z.object({
   name: z.string(), // "everyone" or role name like "engineering-frontend"
   role: RoleSchema.optional(), // Required if type is "role"
   description: z.string().optional(),
+  delivery: z.array(DeliveryTargetSchema).optional(), // In-app only when omitted
+  digest: DigestFrequencySchema.optional(), // Delivered one by one when omitted
   createdAt: z.date(),
 });
 
@@ -153,6 +189,8 @@ export type Channel = z.infer<typeof ChannelSchema>;
  */
 export const SourceToolSchema = z.enum([
   'github',
+  'gitlab',
+  'bitbucket',
   'notion',
   'figma',
   'jira',
@@ -230,6 +268,9 @@ export const ChangeEventSchema = z.object({
   intent: ChangeIntentSchema.optional(),
   confidence: ConfidenceLevelSchema.optional(),
   evidence: z.array(z.string()).optional(), // Citations for interpretation
+  summary: z.string().optional(), // What changed, for the notification
+  impact: z.string().optional(),
+  suggestedAction: z.string().optional(),
   
   // Impact analysis
   impactedComponents: z.array(z.string()).optional(),
@@ -251,6 +292,10 @@ export const ChangeEventSchema = z.object({
 
 export type ChangeEvent = z.infer<typeof ChangeEventSchema>;
 
+export const NotificationStatusSchema = z.enum(['pending', 'approved', 'rejected', 'sent']);
+
+export type NotificationStatus = z.infer<typeof NotificationStatusSchema>;
+
 /**
  * Notification that will be sent to a channel
  * Includes routing decision and explanation
@@ -268,12 +313,67 @@ export const NotificationSchema = z.object({
   suggestedAction: z.string().optional(), // What (if anything) should happen next
   
   // Status
-  status: z.enum(['pending', 'approved', 'rejected', 'sent']),
+  status: NotificationStatusSchema,
   approvedBy: z.string().uuid().optional(),
   approvedAt: z.date().optional(),
+  rejectedBy: z.string().uuid().optional(),
+  rejectedAt: z.date().optional(),
+  rejectionReason: z.string().optional(),
   sentAt: z.date().optional(),
+  version: z.number().int().min(1).optional(), // Incremented on every status change (optimistic concurrency)
   
   createdAt: z.date(),
 });
 
 export type Notification = z.infer<typeof NotificationSchema>;
+
+/**
+ * Quiet hours in the user's time zone ("22:00"-"07:00" spans midnight)
+ * Notifications that arrive during quiet hours are delivered when they end.
+ */
+export const QuietHoursSchema = z.object({
+  start: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Use HH:MM'),
+  end: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Use HH:MM'),
+  timeZone: z.string().refine(isTimeZone, 'Unknown time zone'),
+});
+
+export type QuietHours = z.infer<typeof QuietHoursSchema>;
+
+/**
+ * A resource a user follows (a PR, spec, design file, ticket)
+ */
+export const FollowedResourceSchema = z.object({
+  tool: SourceToolSchema,
+  resourceId: z.string().min(1),
+});
+
+export type FollowedResource = z.infer<typeof FollowedResourceSchema>;
+
+/**
+ * Per-user narrowing of what their role channels send them
+ * Preferences only ever remove or delay notifications the user's roles
+ * already receive; following a resource overrides the user's own mutes,
+ * never the role guardrails.
+ */
+export const NotificationPreferencesSchema = z.object({
+  userId: z.string().uuid(),
+  companyGroupId: z.string().uuid(),
+  mutedRepositories: z.array(z.string()), // "owner/repo"
+  mutedComponents: z.array(z.string()),
+  mutedTools: z.array(SourceToolSchema),
+  minimumClassification: ChangeClassificationSchema.optional(),
+  quietHours: QuietHoursSchema.optional(),
+  follows: z.array(FollowedResourceSchema),
+  updatedAt: z.date(),
+});
+
+export type NotificationPreferences = z.infer<typeof NotificationPreferencesSchema>;
+
+function isTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -23,6 +23,7 @@ export const CursorSchema = z.object({
   id: z.string().uuid(),
   companyGroupId: z.string().uuid(),
   sourceTool: SourceToolSchema,
+  installationId: z.string().uuid().optional(), // Tool account polled, with its credentials
   
   // Cursor position - tool-specific
   // Could be: timestamp, version ID, change token, sequence number, etc.
@@ -57,7 +58,12 @@ export const CursorPollResultSchema = z.object({
   hasMore: z.boolean(), // Whether there might be more changes to fetch
 });
 
-export type CursorPollResult = z.infer<typeof CursorPollResultSchema>;
+/**
+ * Pollers type `TChange` as the raw changes the pipeline takes
+ */
+export type CursorPollResult<TChange = unknown> = Omit<z.infer<typeof CursorPollResultSchema>, 'changes'> & {
+  changes: TChange[];
+};
 
 /**
  * Cursor advance operation (after successful normalization)
@@ -65,7 +71,7 @@ export type CursorPollResult = z.infer<typeof CursorPollResultSchema>;
 export const CursorAdvanceSchema = z.object({
   cursorId: z.string().uuid(),
   newPosition: z.string(),
-  changeEventId: z.string().uuid(), // Most recent ChangeEvent that advanced cursor
+  changeEventId: z.string().uuid().optional(), // Most recent ChangeEvent that advanced cursor; none past an empty page
   advancedAt: z.date(),
   advancedBy: z.string().uuid().optional(), // User/system that triggered advance
 });
@@ -5,3 +5,6 @@
 export * from './core';
 export * from './cursors';
 export * from './code-changes';
+export * from './issues';
+export * from './routing';
+export * from './installations';
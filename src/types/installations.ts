@@ -0,0 +1,45 @@
+/**
+ * Integration installation types
+ *
+ * An installation connects one account in a tool (a GitHub org or repo, a
+ * Notion workspace, a Figma team, a Jira site, ...) to a CompanyGroup, with
+ * the webhook secret and credentials used for that account alone.
+ */
+
+import { z } from 'zod';
+import { SourceToolSchema } from './core';
+
+/**
+ * What the external account is; repository installations beat organization ones
+ */
+export const InstallationAccountTypeSchema = z.enum([
+  'organization', // GitHub org, GitLab group, Bitbucket workspace, Linear org
+  'repository', // GitHub/Bitbucket repo, GitLab project
+  'workspace', // Notion workspace
+  'team', // Figma team
+  'site', // Jira Cloud site
+]);
+
+export type InstallationAccountType = z.infer<typeof InstallationAccountTypeSchema>;
+
+export const IntegrationInstallationSchema = z.object({
+  id: z.string().uuid(),
+  companyGroupId: z.string().uuid(),
+  sourceTool: SourceToolSchema,
+  accountType: InstallationAccountTypeSchema,
+  externalAccountId: z.string().min(1), // "acme", "acme/web-app", "acme.atlassian.net", workspace ID
+  webhookIds: z.array(z.string().min(1)).default([]), // For tools whose payloads only name the webhook (Figma)
+
+  // Secrets (never returned by the API)
+  webhookSecret: z.string().min(1),
+  previousWebhookSecret: z.string().min(1).optional(), // Still accepted until previousSecretExpiresAt
+  previousSecretExpiresAt: z.date().optional(),
+  credentials: z.record(z.string()).default({}), // e.g. { token: "..." } for polling
+
+  isActive: z.boolean().default(true),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+  secretRotatedAt: z.date().optional(),
+});
+
+export type IntegrationInstallation = z.infer<typeof IntegrationInstallationSchema>;
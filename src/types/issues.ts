@@ -0,0 +1,62 @@
+/**
+ * Issue tracker types
+ *
+ * Shared shapes for Jira and Linear so detection and normalization
+ * do not care which tracker an issue came from.
+ */
+
+import { z } from 'zod';
+import { SourceToolSchema } from './core';
+
+/**
+ * Coarse workflow stage, mapped from each tracker's own status categories
+ */
+export const IssueStateCategorySchema = z.enum(['backlog', 'todo', 'in-progress', 'done', 'canceled']);
+
+export type IssueStateCategory = z.infer<typeof IssueStateCategorySchema>;
+
+/**
+ * Issue data structure
+ */
+export const IssueSchema = z.object({
+  id: z.string(),
+  key: z.string(), // Human-readable key, e.g. "PAY-142" or "ENG-88"
+  title: z.string(),
+  description: z.string().optional(),
+  state: z.string(), // Tracker's own status name
+  stateCategory: IssueStateCategorySchema.optional(),
+  priority: z.string().optional(),
+  assignee: z.string().optional(),
+  reporter: z.string().optional(),
+  issueType: z.string(), // "Bug", "Story", "Epic", "Issue", "Project"...
+  isEpic: z.boolean(),
+  project: z.string(), // Jira project key or Linear team key
+  labels: z.array(z.string()),
+  url: z.string().url(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export type Issue = z.infer<typeof IssueSchema>;
+
+/**
+ * A single tracked field change on an issue
+ */
+export const IssueFieldChangeSchema = z.object({
+  field: z.enum(['state', 'priority', 'assignee']),
+  from: z.string().optional(),
+  to: z.string().optional(),
+});
+
+export type IssueFieldChange = z.infer<typeof IssueFieldChangeSchema>;
+
+/**
+ * Pull request that references an issue
+ */
+export const LinkedPullRequestSchema = z.object({
+  tool: SourceToolSchema,
+  resourceId: z.string(),
+  resourceUrl: z.string().url().optional(),
+});
+
+export type LinkedPullRequest = z.infer<typeof LinkedPullRequestSchema>;
@@ -0,0 +1,75 @@
+/**
+ * Routing policy types
+ *
+ * A company group's routing policy is an ordered list of declarative rules
+ * evaluated against each interpreted ChangeEvent. Rules can hold role channels
+ * back and decide whether the company-wide channel hears about a change; they
+ * sit on top of the non-negotiable role guardrails, never instead of them.
+ */
+
+import { z } from 'zod';
+import {
+  ChangeClassificationSchema,
+  ChangeIntentSchema,
+  ConfidenceLevelSchema,
+  RoleSchema,
+  SourceToolSchema,
+} from './core';
+
+/**
+ * When a rule applies
+ * Every field given must match; list fields match when any entry does.
+ */
+export const PolicyConditionSchema = z.object({
+  classification: z.array(ChangeClassificationSchema).min(1).optional(),
+  intent: z.array(ChangeIntentSchema).min(1).optional(),
+  tool: z.array(SourceToolSchema).min(1).optional(),
+  paths: z.array(z.string().min(1)).min(1).optional(), // CODEOWNERS-style globs, any changed file
+  affectedRoles: z.object({
+    any: z.array(RoleSchema).min(1).optional(),
+    all: z.array(RoleSchema).min(1).optional(),
+    minCount: z.number().int().positive().optional(),
+  }).optional(),
+  minConfidence: ConfidenceLevelSchema.optional(),
+  keywords: z.array(z.string().min(1)).min(1).optional(), // Case-insensitive, in the summary or impact
+}).strict();
+
+export type PolicyCondition = z.infer<typeof PolicyConditionSchema>;
+
+/**
+ * What a matching rule does
+ * Rules can only narrow role channels; the company-wide channel is opt-in.
+ */
+export const PolicyEffectSchema = z.object({
+  skipRoles: z.array(RoleSchema).min(1).optional(),
+  everyone: z.enum(['notify', 'skip']).optional(),
+}).strict().refine(effect => effect.skipRoles !== undefined || effect.everyone !== undefined, {
+  message: 'A rule needs skipRoles or everyone',
+});
+
+export type PolicyEffect = z.infer<typeof PolicyEffectSchema>;
+
+export const PolicyRuleSchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]+$/, 'Rule id must be lowercase alphanumeric with hyphens'),
+  description: z.string().optional(),
+  when: PolicyConditionSchema,
+  then: PolicyEffectSchema,
+});
+
+export type PolicyRule = z.infer<typeof PolicyRuleSchema>;
+
+/**
+ * Rules of one company group, in evaluation order
+ */
+export const RoutingPolicySchema = z.object({
+  companyGroupId: z.string().uuid(),
+  version: z.number().int().nonnegative(), // 0 for the built-in default policy
+  rules: z.array(PolicyRuleSchema).refine(
+    rules => new Set(rules.map(rule => rule.id)).size === rules.length,
+    { message: 'Rule ids must be unique' }
+  ),
+  updatedBy: z.string().optional(),
+  updatedAt: z.date(),
+});
+
+export type RoutingPolicy = z.infer<typeof RoutingPolicySchema>;
@@ -0,0 +1,29 @@
+/**
+ * Types for sensitive-data.cjs
+ */
+
+export type SensitiveCategory = 'secret' | 'pii';
+
+export interface SensitiveFinding {
+  type: string; // Detector, e.g. "github_token", "credit_card"
+  category: SensitiveCategory;
+  start: number; // UTF-16 offsets into the scanned text
+  end: number;
+  line: number; // 1-based
+  replacement: string; // e.g. "[REDACTED-GITHUB-TOKEN]"
+}
+
+export interface ScanOptions {
+  categories?: SensitiveCategory[]; // Both by default
+  allowlist?: Array<string | RegExp>; // Matched against the finding's text
+}
+
+export function scanText(text: string, options?: ScanOptions): SensitiveFinding[];
+
+export function redact(text: string, options?: ScanOptions): { text: string; findings: SensitiveFinding[] };
+
+export function redactText(text: string, options?: ScanOptions): string;
+
+export function containsSensitiveData(text: string, options?: ScanOptions): { hasSensitive: boolean; types: string[] };
+
+export const DETECTOR_TYPES: string[];
@@ -0,0 +1,164 @@
+/**
+ * Test LLM-backed interpretation
+ * Verifies schema validation, evidence grounding and the heuristic fallback
+ */
+
+import { describe, it, expect } from 'vitest';
+import { randomUUID } from 'crypto';
+import { AIInterpretationServiceImpl, JsonGenerator } from '../src/services/ai-interpretation';
+import { ChangeEvent } from '../src/types/core';
+
+const prEvent: ChangeEvent = {
+  id: randomUUID(),
+  changedBy: 'alice',
+  changedAt: new Date('2024-06-05T10:00:00Z'),
+  sourceTool: 'github',
+  sourceResourceId: 'PR_kwDOA1',
+  sourceResourceType: 'pull_request',
+  diff: 'src/api/checkout.ts: +12/-3\nsrc/web/CartPage.tsx: +4/-1',
+  rawChangeData: {
+    title: 'Require idempotency keys on checkout',
+    body: 'Retries were creating duplicate orders.',
+    files: [
+      {
+        path: 'src/api/checkout.ts',
+        additions: 12,
+        deletions: 3,
+        changes: 15,
+        patch: "+  if (!req.headers['idempotency-key']) {\n+    return reply.status(400).send({ error: 'Idempotency-Key required' });",
+      },
+      { path: 'src/web/CartPage.tsx', additions: 4, deletions: 1, changes: 5 },
+    ],
+    labels: ['breaking'],
+  },
+  normalizedAt: new Date(),
+  detectionMethod: 'webhook',
+};
+
+function llmAnswer(overrides: Record<string, unknown> = {}) {
+  return {
+    classification: 'breaking',
+    intent: 'bug-fix',
+    confidence: 'high',
+    summary: 'Checkout now rejects requests without an Idempotency-Key header',
+    impact: 'Clients that do not send the header will get 400 responses',
+    suggestedAction: 'Send the header from every checkout client',
+    apiContractChanges: ['POST /checkout requires Idempotency-Key'],
+    impactedComponents: ['src/api/checkout.ts', 'payments-service'],
+    affectedRoles: ['engineering-backend', 'engineering-frontend'],
+    evidence: [
+      { type: 'file-path', value: 'src/api/checkout.ts', relevance: 'Checkout handler changed' },
+      { type: 'api-signature', value: "Idempotency-Key required", relevance: 'New 400 response' },
+    ],
+    ...overrides,
+  };
+}
+
+function generator(data: unknown, calls: string[] = []): JsonGenerator {
+  return async prompt => {
+    calls.push(prompt);
+    return { success: true, data };
+  };
+}
+
+describe('AI Interpretation Service', () => {
+  it('should use a grounded LLM interpretation', async () => {
+    const calls: string[] = [];
+    const service = new AIInterpretationServiceImpl(generator(llmAnswer(), calls));
+
+    const result = await service.interpretChangeEvent(prEvent);
+
+    expect(calls[0]).toContain("+  if (!req.headers['idempotency-key']) {");
+    expect(result.classification).toBe('breaking');
+    expect(result.confidence).toBe('high');
+    expect(result.summary).toBe('Checkout now rejects requests without an Idempotency-Key header');
+    expect(result.evidence).toEqual([
+      'Checkout handler changed (file-path: src/api/checkout.ts)',
+      'New 400 response (api-signature: Idempotency-Key required)',
+    ]);
+    expect(Object.keys(result.relevance)).toEqual(['engineering-backend', 'engineering-frontend']);
+  });
+
+  it('should drop uncited evidence and claims and lower confidence', async () => {
+    const service = new AIInterpretationServiceImpl(generator(llmAnswer({
+      evidence: [
+        { type: 'file-path', value: 'src/api/checkout.ts', relevance: 'Checkout handler changed' },
+        { type: 'function-name', value: 'chargeCustomerTwice', relevance: 'Made up' },
+      ],
+    })));
+
+    const result = await service.interpretCodeChange(prEvent);
+
+    expect(result.confidence).toBe('medium');
+    expect(result.evidence.map(item => item.value)).toEqual(['src/api/checkout.ts']);
+    // "payments-service" and the invented endpoint description appear nowhere in the change
+    expect(result.impactedComponents).toEqual(['src/api/checkout.ts']);
+    expect(result.apiContractChanges).toEqual([]);
+  });
+
+  it('should lower very-high confidence by one level when evidence is dropped', async () => {
+    const service = new AIInterpretationServiceImpl(generator(llmAnswer({
+      confidence: 'very-high',
+      evidence: [
+        { type: 'file-path', value: 'src/api/checkout.ts', relevance: 'Checkout handler changed' },
+        { type: 'function-name', value: 'chargeCustomerTwice', relevance: 'Made up' },
+      ],
+    })));
+
+    expect((await service.interpretCodeChange(prEvent)).confidence).toBe('high');
+  });
+
+  it('should fall back to heuristics when nothing the model cites is in the change', async () => {
+    const service = new AIInterpretationServiceImpl(generator(llmAnswer({
+      evidence: [{ type: 'file-path', value: 'src/billing/refunds.ts', relevance: 'Invented' }],
+    })));
+
+    const result = await service.interpretChangeEvent(prEvent);
+
+    expect(result.summary).toBe('github pull_request changed by alice');
+    expect(result.evidence).toEqual(['PR labeled or titled as breaking change']);
+  });
+
+  it('should match citations and claims on whole tokens only', async () => {
+    const service = new AIInterpretationServiceImpl(generator(llmAnswer({
+      impactedComponents: ['src/api/checkout.ts', 'heck', 'Cart'],
+      evidence: [
+        { type: 'file-path', value: 'src/api/checkout.ts', relevance: 'Checkout handler changed' },
+        { type: 'comment', value: 'key required', relevance: 'Only part of a token sequence in the patch' },
+        { type: 'comment', value: 'dempotency', relevance: 'Part of a word' },
+      ],
+    })));
+
+    const result = await service.interpretCodeChange(prEvent);
+
+    expect(result.evidence.map(item => item.value)).toEqual(['src/api/checkout.ts', 'key required']);
+    // "heck" is inside "checkout" and "Cart" inside "CartPage"
+    expect(result.impactedComponents).toEqual(['src/api/checkout.ts']);
+  });
+
+  it('should fall back to heuristics when the summary names code the evidence does not cite', async () => {
+    const service = new AIInterpretationServiceImpl(generator(llmAnswer({
+      summary: 'Checkout now calls `chargeCustomerTwice` in src/api/checkout.ts',
+    })));
+
+    const result = await service.interpretChangeEvent(prEvent);
+
+    expect(result.summary).toBe('github pull_request changed by alice');
+
+    const cited = new AIInterpretationServiceImpl(generator(llmAnswer({
+      summary: 'Checkout in src/api/checkout.ts now rejects requests without an Idempotency-Key header',
+    })));
+    expect((await cited.interpretChangeEvent(prEvent)).summary).toContain('src/api/checkout.ts');
+  });
+
+  it('should fall back to heuristics when the model fails or breaks the schema', async () => {
+    const failing = new AIInterpretationServiceImpl(async () => ({ success: false, data: null, error: 'Rate limited' }));
+    const invalid = new AIInterpretationServiceImpl(generator(llmAnswer({ classification: 'catastrophic' })));
+    const throwing = new AIInterpretationServiceImpl(async () => { throw new Error('socket hang up'); });
+
+    for (const service of [failing, invalid, throwing]) {
+      const result = await service.interpretChangeEvent(prEvent);
+      expect(result.summary).toBe('github pull_request changed by alice');
+    }
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Test the change event store
+ * Events are queryable and every step taken for them shows up on their timeline
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { randomUUID } from 'crypto';
+import Fastify from 'fastify';
+import { openSyncDatabase } from '../src/db/database';
+import { SqliteChangeEventRepository } from '../src/db/change-event-repository';
+import { SqliteNotificationRepository } from '../src/db/notification-repository';
+import { registerChangeEventRoutes } from '../src/api/change-events';
+import { JiraIntegrationImpl } from '../src/integrations/jira';
+import { ChangeDetectionServiceImpl } from '../src/services/change-detection';
+import { ChangeNormalizationServiceImpl, Normalizers } from '../src/services/change-normalization';
+import { AIInterpretationServiceImpl } from '../src/services/ai-interpretation';
+import { RoleBasedRoutingServiceImpl } from '../src/services/role-based-routing';
+import { NotificationServiceImpl } from '../src/services/notification';
+import { OrchestrationServiceImpl } from '../src/services/orchestration';
+import { ChangeEvent, Channel, Role } from '../src/types/core';
+
+function event(overrides: Partial<ChangeEvent>): ChangeEvent {
+  return {
+    id: randomUUID(),
+    changedBy: 'someone',
+    changedAt: new Date('2024-06-05T10:00:00Z'),
+    sourceTool: 'github',
+    sourceResourceId: 'resource',
+    sourceResourceType: 'pull_request',
+    normalizedAt: new Date(),
+    detectionMethod: 'webhook',
+    ...overrides,
+  };
+}
+
+function channel(companyGroupId: string, role: Role): Channel {
+  return { id: randomUUID(), companyGroupId, type: 'role', name: role, role, createdAt: new Date() };
+}
+
+describe('Change Event Repository', () => {
+  it('should filter by tool, resource, classification, role, group and time range', () => {
+    const repo = new SqliteChangeEventRepository(openSyncDatabase(':memory:'));
+    const groupA = randomUUID();
+    const groupB = randomUUID();
+
+    const breakingPr = repo.saveChangeEvent(groupA, event({
+      sourceResourceId: 'PR_1',
+      classification: 'breaking',
+      affectedRoles: ['engineering-backend', 'product'],
+    }));
+    const spec = repo.saveChangeEvent(groupA, event({
+      sourceTool: 'notion',
+      sourceResourceId: 'page-1',
+      sourceResourceType: 'page',
+      changedAt: new Date('2024-06-03T10:00:00Z'),
+      classification: 'functional',
+      affectedRoles: ['product'],
+    }));
+    repo.saveChangeEvent(groupB, event({ sourceResourceId: 'PR_2', classification: 'cosmetic' }));
+
+    const ids = (events: ChangeEvent[]) => events.map(e => e.id);
+
+    expect(ids(repo.listChangeEvents({ companyGroupId: groupA }))).toEqual([breakingPr.id, spec.id]);
+    expect(ids(repo.listChangeEvents({ sourceTool: 'notion' }))).toEqual([spec.id]);
+    expect(ids(repo.listChangeEvents({ sourceResourceId: 'PR_1' }))).toEqual([breakingPr.id]);
+    expect(ids(repo.listChangeEvents({ classification: 'breaking' }))).toEqual([breakingPr.id]);
+    expect(ids(repo.listChangeEvents({ affectedRole: 'product' }))).toEqual([breakingPr.id, spec.id]);
+    expect(ids(repo.listChangeEvents({ affectedRole: 'sales' }))).toEqual([]);
+    expect(ids(repo.listChangeEvents({
+      since: new Date('2024-06-01T00:00:00Z'),
+      until: new Date('2024-06-04T00:00:00Z'),
+    }))).toEqual([spec.id]);
+
+    const stored = repo.getChangeEvent(spec.id);
+    expect(stored?.companyGroupId).toBe(groupA);
+    expect(stored?.changedAt).toEqual(new Date('2024-06-03T10:00:00Z'));
+  });
+});
+
+describe('Change event history', () => {
+  it('should record interpretation, routing, notifications and approvals', async () => {
+    const db = openSyncDatabase(':memory:');
+    const repo = new SqliteChangeEventRepository(db);
+    const notifications = new NotificationServiceImpl(new SqliteNotificationRepository(db), repo);
+    const companyGroupId = randomUUID();
+    const productChannel = channel(companyGroupId, 'product-manager');
+    const salesChannel = channel(companyGroupId, 'sales');
+
+    const orchestration = new OrchestrationServiceImpl(
+      new ChangeDetectionServiceImpl(new Map(), new Map()),
+      new ChangeNormalizationServiceImpl(new Map([
+        ['jira', raw => Normalizers.normalizeIssueChange(raw, 'cursor-polling')],
+      ])),
+      new AIInterpretationServiceImpl(),
+      new RoleBasedRoutingServiceImpl(async () => ({
+        affectedRoles: ['product-manager'] as Role[],
+        summary: 'PAY-142 moved to In Review',
+        impact: 'Ready for product review',
+        relevance: { 'product-manager': 'Product owns this ticket' } as Record<Role, string>,
+      })),
+      notifications,
+      async () => [productChannel, salesChannel],
+      { changeEvents: repo }
+    );
+
+    const payload = JSON.parse(readFileSync(new URL('./fixtures/jira/issue_updated.json', import.meta.url), 'utf8'));
+    const rawChanges = await new JiraIntegrationImpl().extractRawChanges(payload);
+    const [notification] = await orchestration.processPolledChanges(companyGroupId, rawChanges);
+
+    const approverId = randomUUID();
+    await notifications.approveNotification(notification.id, approverId);
+    await notifications.sendNotification(notification.id);
+
+    const app = Fastify();
+    registerChangeEventRoutes(app, repo);
+
+    const list = await app.inject({
+      method: 'GET',
+      url: `/api/change-events?companyGroupId=${companyGroupId}&tool=jira&role=product-manager`,
+    });
+    expect(list.statusCode).toBe(200);
+    const [changeEvent] = list.json().changeEvents;
+    expect(changeEvent.id).toBe(notification.changeEventId);
+    expect(changeEvent.sourceResourceId).toBe('PAY-142');
+
+    const timeline = await app.inject({
+      method: 'GET',
+      url: `/api/change-events/${changeEvent.id}/timeline?companyGroupId=${companyGroupId}`,
+    });
+    const entries = timeline.json().timeline;
+    expect(entries.map((entry: { kind: string }) => entry.kind)).toEqual([
+      'detected',
+      'interpreted',
+      'routed',
+      'notification_created',
+      'notification_approved',
+      'notification_sent',
+    ]);
+    expect(entries[2].details).toEqual({
+      routed: [{ channelId: productChannel.id, role: 'product-manager', relevance: 'Product owns this ticket' }],
+      skippedChannelIds: [salesChannel.id],
+    });
+    expect(entries[4].actor).toBe(approverId);
+
+    expect((await app.inject({ method: 'GET', url: `/api/change-events/${randomUUID()}?companyGroupId=${companyGroupId}` })).statusCode).toBe(404);
+    expect((await app.inject({ method: 'GET', url: `/api/change-events?companyGroupId=${companyGroupId}&tool=myspace` })).statusCode).toBe(400);
+
+    // Other company groups see none of it
+    const otherGroupId = randomUUID();
+    expect((await app.inject({ method: 'GET', url: '/api/change-events' })).statusCode).toBe(400);
+    expect((await app.inject({ method: 'GET', url: `/api/change-events?companyGroupId=${otherGroupId}` })).json().changeEvents).toEqual([]);
+    expect((await app.inject({ method: 'GET', url: `/api/change-events/${changeEvent.id}?companyGroupId=${otherGroupId}` })).statusCode).toBe(404);
+    expect((await app.inject({ method: 'GET', url: `/api/change-events/${changeEvent.id}/timeline` })).statusCode).toBe(400);
+    await app.close();
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Test cross-tool correlation
+ * A spec, a ticket and a PR that reference each other should end up linked
+ */
+
+import { describe, it, expect } from 'vitest';
+import { randomUUID } from 'crypto';
+import { CorrelationServiceImpl, extractReferences, categorizeRelatedResources } from '../src/services/correlation';
+import { ChangeEvent } from '../src/types/core';
+import { openSyncDatabase } from '../src/db/database';
+import { SqliteCorrelationIndex } from '../src/db/correlation-repository';
+
+const SPEC_ID = '8c1f2e4a-93b7-4d0c-a5e1-0b6f7d2c9e31';
+const GROUP_ID = 'acme';
+
+function event(overrides: Partial<ChangeEvent>): ChangeEvent {
+  return {
+    id: randomUUID(),
+    changedBy: 'someone',
+    changedAt: new Date('2024-06-05T10:00:00Z'),
+    sourceTool: 'github',
+    sourceResourceId: 'resource',
+    sourceResourceType: 'pull_request',
+    normalizedAt: new Date(),
+    detectionMethod: 'webhook',
+    ...overrides,
+  };
+}
+
+const specEvent = event({
+  sourceTool: 'notion',
+  sourceResourceId: SPEC_ID,
+  sourceResourceType: 'page',
+  sourceResourceUrl: 'https://www.notion.so/Saved-searches-8c1f2e4a93b74d0ca5e10b6f7d2c9e31',
+  changedAt: new Date('2024-06-04T15:00:00Z'),
+  diff: '+ [paragraph] Tracked in LIN-123, designs in https://www.figma.com/design/F1gKey/Search',
+  rawChangeData: { title: 'Saved searches spec' },
+});
+
+const ticketEvent = event({
+  sourceTool: 'linear',
+  sourceResourceId: 'LIN-123',
+  sourceResourceType: 'issue',
+  sourceResourceUrl: 'https://linear.app/acme/issue/LIN-123/saved-searches',
+  changedAt: new Date('2024-06-04T16:30:00Z'),
+  rawChangeData: { title: 'Saved searches' },
+});
+
+const prEvent = event({
+  sourceResourceId: 'PR_kwDOA1',
+  sourceResourceUrl: 'https://github.com/acme/web-app/pull/42',
+  rawChangeData: {
+    title: 'Add saved searches',
+    body: 'Spec: https://www.notion.so/acme/Saved-searches-8c1f2e4a93b74d0ca5e10b6f7d2c9e31\nSupports UTF-8 names.',
+    headBranch: 'feature/lin-123-saved-searches',
+  },
+});
+
+describe('Correlation Service', () => {
+  it('should extract issue keys, spec links and design links', () => {
+    const references = extractReferences(prEvent);
+
+    expect(references.map(ref => ref.key)).toEqual([
+      `notion:${SPEC_ID}`,
+      'issue:LIN-123',
+    ]);
+    expect(extractReferences(specEvent).map(ref => ref.key)).toEqual(['figma:F1gKey', 'issue:LIN-123']);
+  });
+
+  it('should honour configured issue key prefixes', () => {
+    const commit = event({
+      sourceResourceType: 'commit',
+      rawChangeData: { message: 'PAY-7: retry webhooks (see OPS-2)', branch: 'main' },
+    });
+
+    const references = extractReferences(commit, { issueKeyPrefixes: { PAY: 'jira' } });
+    expect(references).toEqual([{ key: 'issue:PAY-7', kind: 'issue', tool: 'jira', resourceId: 'PAY-7' }]);
+  });
+
+  it('should link a PR to the ticket and spec it implements', async () => {
+    const correlation = new CorrelationServiceImpl();
+    await correlation.correlate(GROUP_ID, specEvent);
+    await correlation.correlate(GROUP_ID, ticketEvent);
+
+    const result = await correlation.correlate(GROUP_ID, prEvent);
+
+    expect(result.relatedEvents.map(related => related.changeEventId)).toEqual([ticketEvent.id, specEvent.id]);
+    expect(result.changeEvent.relatedResources).toEqual([
+      { tool: 'notion', resourceId: SPEC_ID, resourceUrl: 'https://www.notion.so/acme/Saved-searches-8c1f2e4a93b74d0ca5e10b6f7d2c9e31' },
+      { tool: 'linear', resourceId: 'LIN-123', resourceUrl: 'https://linear.app/acme/issue/LIN-123/saved-searches' },
+    ]);
+    expect(result.summary).toBe('Implements LIN-123 (updated yesterday); the spec "Saved searches spec" changed yesterday');
+
+    expect(categorizeRelatedResources(result.changeEvent.relatedResources)).toEqual({
+      relatedSpecs: [SPEC_ID],
+      relatedDesigns: [],
+      relatedTickets: ['LIN-123'],
+    });
+  });
+
+  it('should link back from a ticket to PRs attached to it', async () => {
+    const correlation = new CorrelationServiceImpl();
+    await correlation.correlate(GROUP_ID, prEvent);
+
+    // Jira/Linear integrations attach PRs they know about as related resources
+    const ticketUpdate = event({
+      sourceTool: 'jira',
+      sourceResourceId: 'PAY-9',
+      sourceResourceType: 'issue',
+      changedAt: new Date('2024-06-08T09:00:00Z'),
+      relatedResources: [{ tool: 'github', resourceId: 'PR_kwDOA1', resourceUrl: 'https://github.com/acme/web-app/pull/42' }],
+    });
+
+    const result = await correlation.correlate(GROUP_ID, ticketUpdate);
+    expect(result.relatedEvents).toHaveLength(1);
+    expect(result.changeEvent.relatedResources).toHaveLength(1);
+    expect(result.summary).toBe('Github pull request "Add saved searches" changed 3 days ago');
+  });
+
+  it('should not correlate an event with earlier events on the same resource', async () => {
+    const correlation = new CorrelationServiceImpl();
+    await correlation.correlate(GROUP_ID, prEvent);
+
+    const result = await correlation.correlate(GROUP_ID, { ...prEvent, id: randomUUID() });
+    expect(result.relatedEvents).toHaveLength(0);
+  });
+
+  it('should keep correlations within a company group', async () => {
+    const correlation = new CorrelationServiceImpl(new SqliteCorrelationIndex(openSyncDatabase(':memory:')));
+    await correlation.correlate('other-company', specEvent);
+    await correlation.correlate(GROUP_ID, ticketEvent);
+
+    const result = await correlation.correlate(GROUP_ID, prEvent);
+    expect(result.relatedEvents.map(related => related.changeEventId)).toEqual([ticketEvent.id]);
+    expect(result.summary).toBe('Implements LIN-123 (updated yesterday)');
+
+    const otherResult = await correlation.correlate('other-company', { ...ticketEvent, id: randomUUID() });
+    expect(otherResult.relatedEvents.map(related => related.changeEventId)).toEqual([specEvent.id]);
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Test cursor persistence
+ * Verifies advances are idempotent, monotonic, replayable and audited
+ */
+
+import { describe, it, expect } from 'vitest';
+import { randomUUID } from 'crypto';
+import { openSyncDatabase } from '../src/db/database';
+import { SqliteCursorRepository } from '../src/db/cursor-repository';
+import { ChangeDetectionServiceImpl } from '../src/services/change-detection';
+
+function createRepository() {
+  return new SqliteCursorRepository(openSyncDatabase(':memory:'));
+}
+
+describe('Cursor Repository', () => {
+  it('should advance a cursor and record the advance', () => {
+    const repo = createRepository();
+    const cursor = repo.createCursor({
+      companyGroupId: randomUUID(),
+      sourceTool: 'github',
+      position: '2024-01-01T00:00:00Z',
+      positionType: 'timestamp',
+    });
+
+    const changeEventId = randomUUID();
+    const { cursor: advanced, applied } = repo.advance({
+      cursorId: cursor.id,
+      newPosition: '2024-01-02T00:00:00Z',
+      changeEventId,
+      advancedAt: new Date(),
+    });
+
+    expect(applied).toBe(true);
+    expect(advanced.position).toBe('2024-01-02T00:00:00Z');
+    expect(repo.getCursor(cursor.id)?.lastChangeEventId).toBe(changeEventId);
+
+    const history = repo.getAdvanceHistory(cursor.id);
+    expect(history).toHaveLength(1);
+    expect(history[0].previousPosition).toBe('2024-01-01T00:00:00Z');
+  });
+
+  it('should treat a repeated advance as a no-op', () => {
+    const repo = createRepository();
+    const cursor = repo.createCursor({
+      companyGroupId: randomUUID(),
+      sourceTool: 'github',
+      position: '10',
+      positionType: 'sequence',
+    });
+
+    const advance = {
+      cursorId: cursor.id,
+      newPosition: '20',
+      changeEventId: randomUUID(),
+      advancedAt: new Date(),
+    };
+
+    repo.advance(advance);
+    const second = repo.advance(advance);
+
+    expect(second.applied).toBe(false);
+    expect(repo.getAdvanceHistory(cursor.id)).toHaveLength(1);
+  });
+
+  it('should refuse to move a cursor backwards', () => {
+    const repo = createRepository();
+    const cursor = repo.createCursor({
+      companyGroupId: randomUUID(),
+      sourceTool: 'github',
+      position: '20',
+      positionType: 'sequence',
+    });
+
+    expect(() => repo.advance({
+      cursorId: cursor.id,
+      newPosition: '5',
+      changeEventId: randomUUID(),
+      advancedAt: new Date(),
+    })).toThrow(/backwards/);
+    expect(repo.getCursor(cursor.id)?.position).toBe('20');
+  });
+
+  it('should refuse to return to an earlier opaque position', () => {
+    const repo = createRepository();
+    const cursor = repo.createCursor({
+      companyGroupId: randomUUID(),
+      sourceTool: 'figma',
+      position: 'v1',
+      positionType: 'version-id',
+    });
+
+    repo.advance({ cursorId: cursor.id, newPosition: 'v2', changeEventId: randomUUID(), advancedAt: new Date() });
+
+    expect(() => repo.advance({
+      cursorId: cursor.id,
+      newPosition: 'v1',
+      changeEventId: randomUUID(),
+      advancedAt: new Date(),
+    })).toThrow(/earlier position/);
+  });
+
+  it('should replay from an earlier position and advance again', () => {
+    const repo = createRepository();
+    const cursor = repo.createCursor({
+      companyGroupId: randomUUID(),
+      sourceTool: 'github',
+      position: '10',
+      positionType: 'sequence',
+    });
+
+    const advance = { cursorId: cursor.id, newPosition: '20', changeEventId: randomUUID(), advancedAt: new Date() };
+    repo.advance(advance);
+
+    const replayed = repo.replayFrom(cursor.id, '10', 'operator');
+    expect(replayed.position).toBe('10');
+
+    // Same advance is applied again in the new pass
+    expect(repo.advance(advance).applied).toBe(true);
+
+    const kinds = repo.getAdvanceHistory(cursor.id).map(entry => entry.kind);
+    expect(kinds).toEqual(['advance', 'replay', 'advance']);
+  });
+
+  it('should persist poll errors through the change detection service', async () => {
+    const repo = createRepository();
+    const cursor = repo.createCursor({
+      companyGroupId: randomUUID(),
+      sourceTool: 'github',
+      position: '2024-01-01T00:00:00Z',
+      positionType: 'timestamp',
+    });
+
+    const detection = new ChangeDetectionServiceImpl(
+      new Map(),
+      new Map([['github', async () => { throw new Error('rate limited'); }]]),
+      repo
+    );
+
+    await detection.pollWithCursor(cursor);
+
+    const stored = repo.getCursor(cursor.id);
+    expect(stored?.consecutiveErrors).toBe(1);
+    expect(stored?.lastError).toBe('rate limited');
+    expect(stored?.position).toBe('2024-01-01T00:00:00Z');
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Test static diff analysis
+ * Verifies contract, migration, env var, dependency and feature-flag detection
+ */
+
+import { describe, it, expect } from 'vitest';
+import { randomUUID } from 'crypto';
+import { analyzeDiff } from '../src/services/diff-analysis';
+import { AIInterpretationServiceImpl } from '../src/services/ai-interpretation';
+import { FileDiff } from '../src/types/code-changes';
+import { ChangeEvent } from '../src/types/core';
+
+function file(path: string, patch: string): FileDiff {
+  return { path, additions: 1, deletions: 1, changes: 2, patch, isRedacted: false };
+}
+
+describe('Diff Analysis', () => {
+  it('should flag removed and incompatible exports but not optional parameters', () => {
+    const analysis = analyzeDiff([
+      file('src/orders.ts', [
+        '@@ -1,6 +1,6 @@',
+        '-export function createOrder(cart: Cart): Promise<Order> {',
+        '+export function createOrder(cart: Cart, options?: OrderOptions): Promise<Order> {',
+        '-export async function cancelOrder(id: string): Promise<void> {',
+        '+export async function cancelOrder(id: string, reason: string): Promise<void> {',
+        '-export const LEGACY_LIMIT = 10;',
+        '+export interface OrderOptions {',
+      ].join('\n')),
+    ]);
+
+    expect(analysis.findings.map(finding => [finding.description, finding.breaking])).toEqual([
+      ['Changed signature of createOrder', false],
+      ['Changed signature of cancelOrder', true],
+      ['Removed export LEGACY_LIMIT', true],
+      ['Added export OrderOptions', false],
+    ]);
+    expect(analysis.breaking).toBe(true);
+    expect(analysis.rolloutRisk).toBe('high');
+    expect(analysis.apiContractChanges).toContain('Removed export LEGACY_LIMIT (src/orders.ts)');
+    expect(analysis.evidence[2]).toEqual({
+      type: 'api-signature',
+      value: 'export const LEGACY_LIMIT = 10;',
+      relevance: 'Removed export LEGACY_LIMIT (breaking)',
+    });
+  });
+
+  it('should compare exports that span several lines as whole statements', () => {
+    const analysis = analyzeDiff([
+      file('src/payments.ts', [
+        '@@ -10,14 +10,15 @@ import { Money } from "./money";',
+        ' export async function capturePayment(',
+        '   paymentId: string,',
+        '-  amount: Money',
+        '+  amount: Money,',
+        '+  currency: string',
+        ' ): Promise<Receipt> {',
+        '   return gateway.capture(paymentId, amount);',
+        ' }',
+        ' ',
+        ' export function refundPayment(',
+        '   paymentId: string,',
+        '   onDone: (receipt: Receipt, error?: Error) => void,',
+        '+  reason?: string,',
+        ' ): void {',
+        '@@ -40,3 +41,3 @@',
+        ' export type PaymentStatus =',
+        "   | 'pending'",
+        "-  | 'settled';",
+        "+  | 'captured';",
+      ].join('\n')),
+    ]);
+
+    expect(analysis.findings.map(finding => [finding.description, finding.breaking])).toEqual([
+      ['Changed signature of capturePayment', true],
+      ['Changed signature of refundPayment', false],
+      ['Changed signature of PaymentStatus', true],
+    ]);
+    expect(analysis.findings[0].line).toBe(
+      'export async function capturePayment( paymentId: string, amount: Money, currency: string ): Promise<Receipt> {'
+    );
+  });
+
+  it('should detect OpenAPI and GraphQL schema changes', () => {
+    const analysis = analyzeDiff([
+      file('api/openapi.yaml', [
+        '@@ -10,8 +10,8 @@ paths:',
+        '-  /orders/{id}/cancel:',
+        '+  /orders/{id}/refunds:',
+        '       - name: reason',
+        '-        required: false',
+        '+        required: true',
+      ].join('\n')),
+      file('schema/orders.graphql', [
+        '@@ -1,5 +1,5 @@',
+        ' type Order {',
+        '-  total: Int',
+        '+  total: Money!',
+        '-  legacyId: String',
+        '+  currency: String',
+      ].join('\n')),
+    ]);
+
+    expect(analysis.findings.map(finding => `${finding.kind}: ${finding.description}`)).toEqual([
+      'openapi: Removed API path /orders/{id}/cancel',
+      'openapi: Added API path /orders/{id}/refunds',
+      'openapi: Made a parameter required',
+      'graphql: Changed GraphQL field total from Int to Money!',
+      'graphql: Removed GraphQL field legacyId',
+      'graphql: Added GraphQL field currency',
+    ]);
+    expect(analysis.findings.filter(finding => finding.breaking)).toHaveLength(4);
+  });
+
+  it('should detect migrations, env vars, dependency bumps and flag toggles', () => {
+    const analysis = analyzeDiff([
+      file('db/migrations/0042_orders.sql', '+ALTER TABLE orders ADD COLUMN currency TEXT;'),
+      file('src/config.ts', "+  stripeKey: process.env.STRIPE_API_KEY,\n   port: process.env.PORT,"),
+      file('package.json', '-    "stripe": "^11.2.0",\n+    "stripe": "^14.0.0",\n+    "zod": "^3.22.4",'),
+      file('config/feature-flags.json', '-  "new-checkout": false,\n+  "new-checkout": true,'),
+    ]);
+
+    expect(analysis.findings.map(finding => finding.description)).toEqual([
+      'Database migration 0042_orders.sql',
+      'New environment variable STRIPE_API_KEY',
+      'Major upgrade stripe ^11.2.0 → ^14.0.0',
+      'Added dependency zod@^3.22.4',
+      'Feature flag new-checkout enabled',
+    ]);
+    expect(analysis.breaking).toBe(false);
+    expect(analysis.migrationRisk).toBe(true);
+    expect(analysis.rolloutRisk).toBe('medium');
+    expect(analysis.evidence.find(item => item.type === 'import')?.value).toBe('"stripe": "^14.0.0",');
+  });
+
+  it('should mark destructive migrations as breaking', () => {
+    const analysis = analyzeDiff([
+      file('migrations/20240605_drop_legacy.sql', '+-- cleanup\n+ALTER TABLE orders DROP COLUMN legacy_id;'),
+    ]);
+
+    expect(analysis.findings).toEqual([expect.objectContaining({
+      subject: 'orders',
+      description: 'Destructive migration: DROP COLUMN',
+      breaking: true,
+    })]);
+  });
+
+  it('should flag breaking code changes without an LLM', async () => {
+    const changeEvent: ChangeEvent = {
+      id: randomUUID(),
+      changedBy: 'alice',
+      changedAt: new Date('2024-06-05T10:00:00Z'),
+      sourceTool: 'github',
+      sourceResourceId: 'PR_kwDOA2',
+      sourceResourceType: 'pull_request',
+      rawChangeData: {
+        title: 'Tidy up order helpers',
+        files: [file('src/orders.ts', '-export function cancelOrder(id: string): Promise<void> {')],
+      },
+      normalizedAt: new Date(),
+      detectionMethod: 'webhook',
+    };
+
+    const result = await new AIInterpretationServiceImpl().interpretCodeChange(changeEvent);
+
+    expect(result.classification).toBe('breaking');
+    expect(result.rolloutRisk).toBe('high');
+    expect(result.apiContractChanges).toEqual(['Removed export cancelOrder (src/orders.ts)']);
+    expect(result.evidence).toContainEqual(expect.objectContaining({
+      type: 'api-signature',
+      value: 'export function cancelOrder(id: string): Promise<void> {',
+    }));
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Test Figma integration against recorded payload fixtures
+ * API responses are served by a fake HttpClient keyed by path and query
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { randomUUID } from 'crypto';
+import { FigmaIntegrationImpl, createFigmaWebhookVerifier } from '../src/integrations/figma';
+import { HttpClient } from '../src/integrations/http-client';
+import { ChangeDetectionServiceImpl, RawChangeData } from '../src/services/change-detection';
+import { Normalizers } from '../src/services/change-normalization';
+import { Cursor } from '../src/types/cursors';
+
+function fixture(name: string): string {
+  return readFileSync(new URL(`./fixtures/figma/${name}`, import.meta.url), 'utf8');
+}
+
+const responses = JSON.parse(fixture('api-responses.json')) as Record<string, unknown>;
+const httpClient: HttpClient = {
+  request: async <T>(_method: string, url: string, options?: { query?: Record<string, unknown> }) => {
+    const version = options?.query?.version;
+    const key = `${new URL(url).pathname}${version ? `?version=${version}` : ''}`;
+    if (!(key in responses)) throw new Error(`Unexpected request: ${key}`);
+    return { status: 200, headers: {}, data: responses[key] as T };
+  },
+};
+
+const config = { token: 'figd_test', fileKeys: ['k3yDesignSystem'] };
+
+function cursorAt(position: string): Cursor {
+  return {
+    id: randomUUID(),
+    companyGroupId: randomUUID(),
+    sourceTool: 'figma',
+    position,
+    positionType: 'version-id',
+    lastPolledAt: new Date(),
+    consecutiveErrors: 0,
+    isActive: true,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+}
+
+describe('Figma Integration', () => {
+  const figma = new FigmaIntegrationImpl(httpClient);
+
+  it('should verify the webhook passcode', async () => {
+    const body = fixture('file_version_update.json');
+
+    expect(await figma.verifyWebhook(body, 'figma-pass')).toBe(true);
+    expect(await figma.verifyWebhook(body, 'other-pass')).toBe(false);
+  });
+
+  it('should diff components against the previous named version', async () => {
+    const [change] = await figma.extractRawChanges(JSON.parse(fixture('file_version_update.json')), config);
+    const event = await Normalizers.normalizeFigmaFile(change, 'webhook');
+
+    // Version 250 is an autosave, so 300 is compared with 200
+    expect(event.rawChangeData?.previousVersionId).toBe('200');
+    expect(event.sourceResourceType).toBe('component');
+    expect(event.changedBy).toBe('Dana Reyes');
+    expect(event.version).toBe('300');
+    expect(event.rawChangeData?.summary).toBe(
+      '1 component added, 1 component removed, 1 component renamed, 1 style added'
+    );
+    expect(event.diff?.split('\n')).toEqual([
+      '+ component: PaymentMethodPicker',
+      '- component: Card',
+      '~ component: Button → Button/Primary',
+      '+ style: Text/Body/Small',
+    ]);
+  });
+
+  it('should take library publish changes from the payload', async () => {
+    const detection = new ChangeDetectionServiceImpl(
+      new Map([['figma', createFigmaWebhookVerifier('figma-pass')]]),
+      new Map()
+    );
+
+    const [change] = await detection.processWebhook('figma', fixture('library_publish.json'));
+    const event = await Normalizers.normalizeFigmaFile(change, 'webhook');
+
+    expect(event.sourceResourceType).toBe('component');
+    expect(event.tags).toEqual(['library-publish']);
+    expect(event.rawChangeData?.summary).toBe('1 component added, 1 component modified, 1 style modified');
+  });
+
+  it('should poll named versions after the cursor oldest first', async () => {
+    const result = await figma.pollChanges(cursorAt(JSON.stringify({ k3yDesignSystem: '100' })), config);
+    const changes = result.changes as RawChangeData[];
+
+    expect(changes.map(change => change.rawData.versionId)).toEqual(['200', '300']);
+    expect(changes[0].rawData.diff).toBe('+ component: Tooltip');
+    expect(JSON.parse(result.nextPosition ?? '{}')).toEqual({ k3yDesignSystem: '300' });
+
+    const idle = await figma.pollChanges(cursorAt(result.nextPosition ?? ''), config);
+    expect(idle.changes).toHaveLength(0);
+    expect(idle.nextPosition).toBeUndefined();
+  });
+
+  it('should start new files from their latest named version', async () => {
+    const result = await figma.pollChanges(cursorAt(''), config);
+    const changes = result.changes as RawChangeData[];
+
+    expect(changes).toHaveLength(1);
+    expect(changes[0].rawData.previousVersionId).toBe('200');
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Test GitLab and Bitbucket integrations against recorded payload fixtures
+ * Both must produce the same PullRequest/Commit shapes as GitHub
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { createHmac } from 'crypto';
+import { GitLabIntegrationImpl, createGitLabWebhookVerifier } from '../src/integrations/gitlab';
+import { BitbucketIntegrationImpl } from '../src/integrations/bitbucket';
+import { ChangeDetectionServiceImpl } from '../src/services/change-detection';
+import { Normalizers } from '../src/services/change-normalization';
+
+function fixture(path: string): string {
+  return readFileSync(new URL(`./fixtures/${path}`, import.meta.url), 'utf8');
+}
+
+describe('GitLab Integration', () => {
+  const gitlab = new GitLabIntegrationImpl();
+
+  it('should verify the webhook token', async () => {
+    expect(await gitlab.verifyWebhook('s3cret', 's3cret')).toBe(true);
+    expect(await gitlab.verifyWebhook('guess', 's3cret')).toBe(false);
+  });
+
+  it('should parse a merged merge request', async () => {
+    const mr = await gitlab.extractMergeRequestFromWebhook(JSON.parse(fixture('gitlab/merge_request.merge.json')));
+
+    expect(mr?.state).toBe('merged');
+    expect(mr?.number).toBe(58);
+    expect(mr?.repository).toBe('platform/billing-service');
+    expect(mr?.labels).toEqual(['backend', 'breaking']);
+    expect(mr?.linkedIssues).toEqual(['#12']);
+    expect(mr?.updatedAt.toISOString()).toBe('2024-05-02T11:30:45.000Z');
+  });
+
+  it('should parse pushes and tag pushes', async () => {
+    const pushChanges = await gitlab.extractRawChanges(JSON.parse(fixture('gitlab/push.json')));
+    const tagChanges = await gitlab.extractRawChanges(JSON.parse(fixture('gitlab/tag_push.json')));
+
+    expect(pushChanges).toHaveLength(1);
+    expect(pushChanges[0].resourceType).toBe('commit');
+    expect(tagChanges[0].resourceType).toBe('release');
+
+    const event = await Normalizers.normalizeGitChange(tagChanges[0], 'webhook');
+    expect(event.sourceTool).toBe('gitlab');
+    expect(event.version).toBe('v3.1.0');
+  });
+
+  it('should plug into change detection as a webhook handler', async () => {
+    const detection = new ChangeDetectionServiceImpl(
+      new Map([['gitlab', createGitLabWebhookVerifier('s3cret')]]),
+      new Map()
+    );
+
+    const changes = await detection.processWebhook('gitlab', fixture('gitlab/merge_request.merge.json'), 's3cret');
+    expect(changes[0].tool).toBe('gitlab');
+  });
+});
+
+describe('Bitbucket Integration', () => {
+  const bitbucket = new BitbucketIntegrationImpl();
+
+  it('should verify HMAC-SHA256 webhook signatures', async () => {
+    const body = fixture('bitbucket/repo.push.json');
+    const signature = `sha256=${createHmac('sha256', 'hook').update(body).digest('hex')}`;
+
+    expect(await bitbucket.verifyWebhook(body, signature, 'hook')).toBe(true);
+    expect(await bitbucket.verifyWebhook(body, signature, 'other')).toBe(false);
+  });
+
+  it('should parse a merged pull request', async () => {
+    const pr = await bitbucket.extractPRFromWebhook(JSON.parse(fixture('bitbucket/pullrequest.fulfilled.json')));
+
+    expect(pr?.state).toBe('merged');
+    expect(pr?.author).toBe('samlee');
+    expect(pr?.headBranch).toBe('bugfix/MOB-77-login-crash');
+    expect(pr?.url).toBe('https://bitbucket.org/acme/mobile-app/pull-requests/311');
+  });
+
+  it('should split pushes into commits and tags', async () => {
+    const changes = await bitbucket.extractRawChanges(JSON.parse(fixture('bitbucket/repo.push.json')));
+
+    expect(changes.map(c => c.resourceType)).toEqual(['commit', 'release']);
+
+    const commitEvent = await Normalizers.normalizeGitChange(changes[0], 'webhook');
+    expect(commitEvent.sourceTool).toBe('bitbucket');
+    expect(commitEvent.rawChangeData?.branch).toBe('develop');
+  });
+});
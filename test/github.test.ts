@@ -0,0 +1,172 @@
+/**
+ * Test GitHub integration against recorded payload fixtures
+ * Runs fully offline
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { createHmac, randomUUID } from 'crypto';
+import { GitHubIntegrationImpl, createGitHubWebhookVerifier } from '../src/integrations/github';
+import { HttpClient } from '../src/integrations/http-client';
+import { ChangeDetectionServiceImpl } from '../src/services/change-detection';
+import { Normalizers } from '../src/services/change-normalization';
+import { Cursor } from '../src/types/cursors';
+
+function fixture(name: string): string {
+  return readFileSync(new URL(`./fixtures/github/${name}`, import.meta.url), 'utf8');
+}
+
+function sign(body: string, secret: string): string {
+  return `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+}
+
+describe('GitHub Integration', () => {
+  const github = new GitHubIntegrationImpl();
+
+  it('should verify HMAC-SHA256 webhook signatures', async () => {
+    const body = fixture('push.json');
+
+    expect(await github.verifyWebhook(body, sign(body, 'topsecret'), 'topsecret')).toBe(true);
+    expect(await github.verifyWebhook(body, sign(body, 'wrong'), 'topsecret')).toBe(false);
+    expect(await github.verifyWebhook(body, 'sha1=abc', 'topsecret')).toBe(false);
+  });
+
+  it('should parse an opened pull request', async () => {
+    const pr = await github.extractPRFromWebhook(JSON.parse(fixture('pull_request.opened.json')));
+
+    expect(pr?.state).toBe('opened');
+    expect(pr?.author).toBe('alice');
+    expect(pr?.repository).toBe('acme/web-app');
+    expect(pr?.headBranch).toBe('feature/LIN-123-saved-searches');
+    expect(pr?.labels).toEqual(['feature', 'frontend']);
+    expect(pr?.reviewers).toEqual(['bob']);
+    expect(pr?.linkedIssues).toEqual(['#31', 'acme/api#7']);
+  });
+
+  it('should mark closed pull requests with merged_at as merged', async () => {
+    const pr = await github.extractPRFromWebhook(JSON.parse(fixture('pull_request.merged.json')));
+
+    expect(pr?.state).toBe('merged');
+    expect(pr?.mergedAt?.toISOString()).toBe('2024-05-03T16:40:11.000Z');
+  });
+
+  it('should parse push commits with touched files', async () => {
+    const commits = await github.extractCommitsFromWebhook(JSON.parse(fixture('push.json')));
+
+    expect(commits).toHaveLength(2);
+    expect(commits[0].branch).toBe('main');
+    expect(commits[1].files.map(f => f.path)).toEqual([
+      'db/migrations/20240503_saved_searches.sql',
+      'db/legacy/searches.sql',
+    ]);
+  });
+
+  it('should turn release and review payloads into raw changes', async () => {
+    const [release] = await github.extractRawChanges(JSON.parse(fixture('release.published.json')));
+    const [review] = await github.extractRawChanges(JSON.parse(fixture('pull_request_review.submitted.json')));
+
+    expect(release.resourceType).toBe('release');
+    expect(review.resourceType).toBe('pull_request_review');
+
+    const event = await Normalizers.normalizeGitChange(review, 'webhook');
+    expect(event.rawChangeData?.state).toBe('changes-requested');
+    expect(event.relatedResources?.[0].resourceUrl).toBe('https://github.com/acme/web-app/pull/42');
+  });
+
+  it('should verify and extract webhooks through change detection', async () => {
+    const body = fixture('pull_request.merged.json');
+    const detection = new ChangeDetectionServiceImpl(
+      new Map([['github', createGitHubWebhookVerifier('topsecret')]]),
+      new Map()
+    );
+
+    const changes = await detection.processWebhook('github', body, sign(body, 'topsecret'));
+    expect(changes).toHaveLength(1);
+    await expect(detection.processWebhook('github', body, sign(body, 'nope'))).rejects.toThrow(/signature/);
+  });
+
+  it('should poll commits and pull requests since the cursor', async () => {
+    const responses = JSON.parse(fixture('poll-responses.json')) as Record<string, unknown>;
+    const requested: string[] = [];
+    const httpClient: HttpClient = {
+      request: async <T>(_method: string, url: string) => {
+        const path = new URL(url).pathname;
+        requested.push(path);
+        return { status: 200, headers: {}, data: responses[path] as T };
+      },
+    };
+
+    const cursor: Cursor = {
+      id: randomUUID(),
+      companyGroupId: randomUUID(),
+      sourceTool: 'github',
+      position: '2024-05-03T00:00:00Z',
+      positionType: 'timestamp',
+      lastPolledAt: new Date(),
+      consecutiveErrors: 0,
+      isActive: true,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    const result = await new GitHubIntegrationImpl(httpClient).pollChanges(cursor, {
+      token: 'test',
+      repositories: ['acme/web-app'],
+    });
+
+    expect(result.changes).toHaveLength(2);
+    expect(result.nextPosition).toBe('2024-05-03T16:40:11.000Z');
+    expect(result.hasMore).toBe(false);
+    expect(requested).toContain('/repos/acme/web-app/pulls/42/files');
+
+    // Secrets in polled patches are redacted before leaving the integration
+    const commit = (result.changes[0] as { rawData: { commit: { files: Array<{ isRedacted: boolean; patch?: string }> } } })
+      .rawData.commit;
+    expect(commit.files[1].isRedacted).toBe(true);
+    expect(commit.files[1].patch).not.toContain('sk_live_');
+  });
+
+  it('should read the oldest commit pages first when more are pending than one poll reads', async () => {
+    // Twelve pages of one commit each, newest first: page 1 is 12:00, page 12 is 01:00
+    const commitDate = (page: number) => `2024-05-03T${String(13 - page).padStart(2, '0')}:00:00Z`;
+    const pagesRead: number[] = [];
+    const httpClient: HttpClient = {
+      request: async <T>(_method: string, url: string, options?: { query?: Record<string, unknown> }) => {
+        const path = new URL(url).pathname;
+        if (path === '/repos/acme/web-app/commits') {
+          const page = Number(options?.query?.page);
+          pagesRead.push(page);
+          return {
+            status: 200,
+            headers: { link: '<https://api.github.com/repositories/1/commits?page=12>; rel="last"' },
+            data: [{ sha: `sha${page}` }] as T,
+          };
+        }
+        if (path.startsWith('/repos/acme/web-app/commits/sha')) {
+          const page = Number(path.split('sha')[1]);
+          const signature = { name: 'Alice', date: commitDate(page) };
+          return { status: 200, headers: {}, data: { sha: `sha${page}`, commit: { message: 'wip', author: signature, committer: signature }, files: [] } as T };
+        }
+        return { status: 200, headers: {}, data: { total_count: 0, items: [] } as T };
+      },
+    };
+
+    const result = await new GitHubIntegrationImpl(httpClient).pollChanges({
+      id: randomUUID(),
+      companyGroupId: randomUUID(),
+      sourceTool: 'github',
+      position: '2024-05-03T00:00:00Z',
+      positionType: 'timestamp',
+      lastPolledAt: new Date(),
+      consecutiveErrors: 0,
+      isActive: true,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    }, { token: 'test', repositories: ['acme/web-app'], pageSize: 1 });
+
+    expect(pagesRead).toEqual([1, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12]);
+    expect(result.changes).toHaveLength(10);
+    expect(result.nextPosition).toBe('2024-05-03T10:00:00.000Z');
+    expect(result.hasMore).toBe(true);
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * Test the integration installation registry
+ * Verifies installation CRUD, webhook routing to the installing company group and secret rotation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { createHmac, randomUUID } from 'crypto';
+import Fastify from 'fastify';
+import { openSyncDatabase } from '../src/db/database';
+import { SqliteInstallationRepository } from '../src/db/installation-repository';
+import { SqliteNotificationRepository } from '../src/db/notification-repository';
+import { registerInstallationRoutes } from '../src/api/installations';
+import { registerWebhookRoutes } from '../src/api/webhooks';
+import { createJiraWebhookVerifier } from '../src/integrations/jira';
+import { InstallationServiceImpl, createInstallationWebhookVerifiers } from '../src/services/installations';
+import { ChangeDetectionServiceImpl } from '../src/services/change-detection';
+import { ChangeNormalizationServiceImpl, Normalizers } from '../src/services/change-normalization';
+import { AIInterpretationServiceImpl } from '../src/services/ai-interpretation';
+import { RoleBasedRoutingServiceImpl } from '../src/services/role-based-routing';
+import { NotificationServiceImpl } from '../src/services/notification';
+import { OrchestrationServiceImpl } from '../src/services/orchestration';
+import { Channel, Role } from '../src/types/core';
+
+const HOUR = 60 * 60 * 1000;
+
+function githubPayload(repository = 'acme/web-app') {
+  const payload = JSON.parse(readFileSync(new URL('./fixtures/github/pull_request.merged.json', import.meta.url), 'utf8'));
+  const [owner] = repository.split('/');
+  payload.repository.full_name = repository;
+  payload.repository.owner.login = owner;
+  payload.organization.login = owner;
+  return payload;
+}
+
+function sign(payload: unknown, secret: string): string {
+  return `sha256=${createHmac('sha256', secret).update(JSON.stringify(payload)).digest('hex')}`;
+}
+
+describe('Integration Installations', () => {
+  it('should manage installations without ever returning their secrets', async () => {
+    const installations = new InstallationServiceImpl(new SqliteInstallationRepository(openSyncDatabase(':memory:')));
+    const app = Fastify();
+    registerInstallationRoutes(app, installations);
+    const companyGroupId = randomUUID();
+
+    const created = await app.inject({
+      method: 'POST',
+      url: '/api/installations',
+      payload: {
+        companyGroupId,
+        sourceTool: 'github',
+        accountType: 'organization',
+        externalAccountId: 'Acme',
+        credentials: { token: 'ghs_installation_token' },
+      },
+    });
+    expect(created.statusCode).toBe(201);
+    const { installation, webhookSecret } = created.json();
+    expect(webhookSecret).toMatch(/^[0-9a-f]{64}$/);
+    expect(installation).toMatchObject({ externalAccountId: 'acme', credentialKeys: ['token'], isActive: true });
+
+    const duplicate = await app.inject({
+      method: 'POST',
+      url: '/api/installations',
+      payload: { companyGroupId: randomUUID(), sourceTool: 'github', accountType: 'organization', externalAccountId: 'acme' },
+    });
+    expect(duplicate.statusCode).toBe(409);
+    const invalid = await app.inject({
+      method: 'POST',
+      url: '/api/installations',
+      payload: { companyGroupId, sourceTool: 'github', accountType: 'organization', externalAccountId: 'x', webhookSecret: 'short' },
+    });
+    expect(invalid.statusCode).toBe(400);
+
+    const listed = await app.inject({ method: 'GET', url: `/api/installations?companyGroupId=${companyGroupId}` });
+    expect(listed.json().installations.map((entry: any) => entry.id)).toEqual([installation.id]);
+    expect(listed.body).not.toContain(webhookSecret);
+    expect(listed.body).not.toContain('ghs_installation_token');
+
+    const updated = await app.inject({
+      method: 'PATCH',
+      url: `/api/installations/${installation.id}`,
+      payload: { isActive: false },
+    });
+    expect(updated.json().installation.isActive).toBe(false);
+
+    expect((await app.inject({ method: 'DELETE', url: `/api/installations/${installation.id}` })).statusCode).toBe(204);
+    expect((await app.inject({ method: 'GET', url: `/api/installations/${installation.id}` })).statusCode).toBe(404);
+  });
+
+  it('should route webhooks to the company group that installed the account', async () => {
+    const db = openSyncDatabase(':memory:');
+    const installations = new InstallationServiceImpl(new SqliteInstallationRepository(db));
+    const acmeGroupId = randomUUID();
+    const globexGroupId = randomUUID();
+    const acme = await installations.createInstallation({
+      companyGroupId: acmeGroupId,
+      sourceTool: 'github',
+      accountType: 'organization',
+      externalAccountId: 'acme',
+    });
+    // A repository installation beats its organization's
+    const sharedRepo = await installations.createInstallation({
+      companyGroupId: globexGroupId,
+      sourceTool: 'github',
+      accountType: 'repository',
+      externalAccountId: 'acme/shared-ui',
+    });
+
+    const channels = new Map<string, Channel[]>([acmeGroupId, globexGroupId].map(companyGroupId => [companyGroupId, [{
+      id: randomUUID(),
+      companyGroupId,
+      type: 'role',
+      name: 'engineering-frontend',
+      role: 'engineering-frontend',
+      createdAt: new Date(),
+    }]]));
+    const orchestration = new OrchestrationServiceImpl(
+      new ChangeDetectionServiceImpl(createInstallationWebhookVerifiers(installations), new Map()),
+      new ChangeNormalizationServiceImpl(new Map([
+        ['github', raw => Normalizers.normalizeGitChange(raw, 'webhook')],
+      ])),
+      new AIInterpretationServiceImpl(),
+      new RoleBasedRoutingServiceImpl(async () => ({
+        affectedRoles: ['engineering-frontend'] as Role[],
+        summary: 'Saved searches merged',
+        impact: 'New dashboard feature',
+        relevance: { 'engineering-frontend': 'Frontend owns the dashboard' } as Record<Role, string>,
+      })),
+      new NotificationServiceImpl(new SqliteNotificationRepository(db)),
+      async companyGroupId => channels.get(companyGroupId) ?? [],
+      { installations }
+    );
+
+    const acmePayload = githubPayload();
+    const [acmeNotification] = await orchestration.processWebhook('github', acmePayload, sign(acmePayload, acme.webhookSecret));
+    expect(acmeNotification.channelId).toBe(channels.get(acmeGroupId)![0].id);
+
+    const sharedPayload = githubPayload('acme/shared-ui');
+    const [sharedNotification] = await orchestration.processWebhook(
+      'github',
+      sharedPayload,
+      sign(sharedPayload, sharedRepo.webhookSecret)
+    );
+    expect(sharedNotification.channelId).toBe(channels.get(globexGroupId)![0].id);
+
+    // Another installation's secret, and accounts nobody installed, are rejected
+    await expect(orchestration.processWebhook('github', sharedPayload, sign(sharedPayload, acme.webhookSecret)))
+      .rejects.toThrow('Invalid webhook signature');
+    const unknownPayload = githubPayload('initech/tps');
+    await expect(orchestration.processWebhook('github', unknownPayload, sign(unknownPayload, acme.webhookSecret)))
+      .rejects.toThrow('Invalid webhook signature');
+  });
+
+  it('should answer 422 for a verified webhook from an account nobody installed', async () => {
+    const orchestration = new OrchestrationServiceImpl(
+      new ChangeDetectionServiceImpl(new Map([['jira', createJiraWebhookVerifier('jira-secret')]]), new Map()),
+      new ChangeNormalizationServiceImpl(new Map()),
+      new AIInterpretationServiceImpl(),
+      new RoleBasedRoutingServiceImpl(async () => {
+        throw new Error('not routed');
+      }),
+      new NotificationServiceImpl(new SqliteNotificationRepository(openSyncDatabase(':memory:'))),
+      async () => [],
+      { installations: new InstallationServiceImpl(new SqliteInstallationRepository(openSyncDatabase(':memory:'))) }
+    );
+    const app = Fastify();
+    registerWebhookRoutes(app, orchestration);
+
+    const body = readFileSync(new URL('./fixtures/jira/issue_updated.json', import.meta.url), 'utf8');
+    const response = await app.inject({
+      method: 'POST',
+      url: '/webhooks/jira',
+      headers: {
+        'content-type': 'application/json',
+        'x-hub-signature': `sha256=${createHmac('sha256', 'jira-secret').update(body).digest('hex')}`,
+      },
+      payload: body,
+    });
+    expect(response.statusCode).toBe(422);
+    expect(response.json().error).toBe('No active jira installation covers this account');
+  });
+
+  it('should accept the previous secret only during the grace period', async () => {
+    let now = new Date('2024-06-01T00:00:00Z');
+    const installations = new InstallationServiceImpl(new SqliteInstallationRepository(openSyncDatabase(':memory:')), {
+      now: () => now,
+    });
+    const figma = await installations.createInstallation({
+      companyGroupId: randomUUID(),
+      sourceTool: 'figma',
+      accountType: 'team',
+      externalAccountId: '1229812',
+      webhookIds: ['1042'],
+      webhookSecret: 'old-figma-passcode',
+    });
+
+    const app = Fastify();
+    registerInstallationRoutes(app, installations);
+    const rotated = await app.inject({
+      method: 'POST',
+      url: `/api/installations/${figma.id}/rotate-secret`,
+      payload: { gracePeriodHours: 2 },
+    });
+    expect(rotated.statusCode).toBe(200);
+    const { webhookSecret, installation } = rotated.json();
+    expect(installation.previousSecretExpiresAt).toBe('2024-06-01T02:00:00.000Z');
+    expect(rotated.body).not.toContain('old-figma-passcode');
+
+    // Figma payloads only name the webhook, and carry the passcode in the body
+    const event = (passcode: string) => ({ event_type: 'FILE_UPDATE', webhook_id: '1042', file_key: 'k3y', passcode });
+    expect(await installations.verifyWebhook('figma', event(webhookSecret))).toBe(true);
+    expect(await installations.verifyWebhook('figma', event('old-figma-passcode'))).toBe(true);
+
+    now = new Date(now.getTime() + 2 * HOUR + 1);
+    expect(await installations.verifyWebhook('figma', event('old-figma-passcode'))).toBe(false);
+    expect(await installations.verifyWebhook('figma', event(webhookSecret))).toBe(true);
+
+    // Without a grace period the old secret stops working at once
+    await installations.rotateWebhookSecret(figma.id, { webhookSecret: 'newest-figma-passcode', gracePeriodMs: 0 });
+    expect(await installations.verifyWebhook('figma', event(webhookSecret))).toBe(false);
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Test the interpretation review queue
+ * Verifies low-confidence changes wait for a reviewer, and corrections become few-shot examples
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { randomUUID } from 'crypto';
+import Fastify from 'fastify';
+import { openSyncDatabase } from '../src/db/database';
+import { SqliteChangeEventRepository } from '../src/db/change-event-repository';
+import { SqliteNotificationRepository } from '../src/db/notification-repository';
+import { SqliteReviewRepository } from '../src/db/review-repository';
+import { registerReviewRoutes } from '../src/api/reviews';
+import { JiraIntegrationImpl } from '../src/integrations/jira';
+import { ChangeDetectionServiceImpl } from '../src/services/change-detection';
+import { ChangeNormalizationServiceImpl, Normalizers } from '../src/services/change-normalization';
+import { AIInterpretationServiceImpl, JsonGenerator } from '../src/services/ai-interpretation';
+import { RoleBasedRoutingServiceImpl } from '../src/services/role-based-routing';
+import { NotificationServiceImpl } from '../src/services/notification';
+import { OrchestrationServiceImpl } from '../src/services/orchestration';
+import { InterpretationReviewServiceImpl } from '../src/services/interpretation-review';
+import { Channel, Role } from '../src/types/core';
+
+const payload = JSON.parse(readFileSync(new URL('./fixtures/jira/issue_updated.json', import.meta.url), 'utf8'));
+
+function channel(companyGroupId: string, role: Role): Channel {
+  return { id: randomUUID(), companyGroupId, type: 'role', name: role, role, createdAt: new Date() };
+}
+
+function setup(generateJson?: JsonGenerator) {
+  const db = openSyncDatabase(':memory:');
+  const changeEvents = new SqliteChangeEventRepository(db);
+  // Jira heuristics interpret with medium confidence, so everything is held
+  const reviews = new InterpretationReviewServiceImpl(new SqliteReviewRepository(db), changeEvents, {
+    minimumConfidence: 'high',
+  });
+  const aiInterpretation = new AIInterpretationServiceImpl(generateJson);
+  const channels = new Map<string, Channel[]>();
+
+  const orchestration = new OrchestrationServiceImpl(
+    new ChangeDetectionServiceImpl(new Map(), new Map()),
+    new ChangeNormalizationServiceImpl(new Map([
+      ['jira', raw => Normalizers.normalizeIssueChange(raw, 'cursor-polling')],
+    ])),
+    aiInterpretation,
+    new RoleBasedRoutingServiceImpl(event => aiInterpretation.interpretChangeEvent(event)),
+    new NotificationServiceImpl(new SqliteNotificationRepository(db), changeEvents),
+    async companyGroupId => channels.get(companyGroupId) ?? [],
+    { changeEvents, reviews }
+  );
+
+  const process = async (companyGroupId: string) => orchestration.processPolledChanges(
+    companyGroupId,
+    await new JiraIntegrationImpl().extractRawChanges(payload)
+  );
+
+  return { changeEvents, reviews, orchestration, channels, process };
+}
+
+describe('Interpretation Review Queue', () => {
+  it('should hold low-confidence interpretations until a reviewer corrects them', async () => {
+    const { changeEvents, reviews, orchestration, channels, process } = setup();
+    const companyGroupId = randomUUID();
+    const product = channel(companyGroupId, 'product-manager');
+    const sales = channel(companyGroupId, 'sales');
+    channels.set(companyGroupId, [product, sales]);
+
+    const advanced: string[] = [];
+    const held = await orchestration.processPolledChanges(
+      companyGroupId,
+      await new JiraIntegrationImpl().extractRawChanges(payload),
+      { onChangeEvent: changeEvent => advanced.push(changeEvent.id) }
+    );
+    expect(held).toEqual([]);
+
+    const [review] = await reviews.listReviews({ companyGroupId });
+    expect(review.interpretation).toMatchObject({ confidence: 'medium', classification: 'functional', intent: 'other' });
+    expect(advanced).toEqual([review.changeEvent.id]);
+
+    const app = Fastify();
+    registerReviewRoutes(app, reviews, orchestration);
+    const reviewerId = randomUUID();
+
+    const resolved = await app.inject({
+      method: 'POST',
+      url: `/api/reviews/${review.id}/resolve`,
+      payload: { reviewedBy: reviewerId, classification: 'breaking', affectedRoles: ['sales'] },
+    });
+    expect(resolved.statusCode).toBe(200);
+    expect(resolved.json().review).toMatchObject({
+      status: 'resolved',
+      reviewedBy: reviewerId,
+      correction: { classification: 'breaking', intent: 'other', affectedRoles: ['sales'] },
+    });
+    expect(resolved.json().notifications.map((notification: any) => [notification.channelId, notification.status]))
+      .toEqual([[sales.id, 'pending']]);
+
+    const stored = changeEvents.getChangeEvent(review.changeEvent.id);
+    expect(stored).toMatchObject({ classification: 'breaking', confidence: 'high', affectedRoles: ['sales'] });
+    const timeline = changeEvents.getTimeline(review.changeEvent.id);
+    expect(timeline.map(entry => entry.kind)).toEqual([
+      'detected',
+      'interpreted',
+      'held_for_review',
+      'review_resolved',
+      'routed',
+      'notification_created',
+    ]);
+    expect(timeline[3]).toMatchObject({ actor: reviewerId, details: { corrected: ['classification', 'affectedRoles'] } });
+
+    const again = await app.inject({ method: 'POST', url: `/api/reviews/${review.id}/resolve`, payload: { reviewedBy: reviewerId } });
+    expect(again.statusCode).toBe(409);
+  });
+
+  it('should show reviewer corrections to the interpreter as few-shot examples', async () => {
+    const prompts: string[] = [];
+    const { reviews, process } = setup(async prompt => {
+      prompts.push(prompt);
+      return { success: false, data: null, error: 'offline' };
+    });
+    const companyGroupId = randomUUID();
+
+    await process(companyGroupId);
+    expect(prompts[0]).not.toContain('Reviewers corrected');
+    const [review] = await reviews.listReviews({ companyGroupId });
+    await reviews.resolve(review.id, randomUUID(), { intent: 'bug-fix', affectedRoles: ['engineering-backend'] });
+
+    await process(companyGroupId);
+    expect(prompts[1]).toContain('Reviewers corrected these earlier interpretations');
+    expect(prompts[1]).toContain('Source: jira issue PAY-142');
+    expect(prompts[1]).toContain(
+      'Correct interpretation: {"classification":"functional","intent":"bug-fix","affectedRoles":["engineering-backend"]}'
+    );
+
+    // Another company group's corrections never leak into the prompt
+    await process(randomUUID());
+    expect(prompts[2]).not.toContain('Reviewers corrected');
+  });
+
+  it('should dismiss held changes without routing them', async () => {
+    const { reviews, orchestration, process } = setup();
+    const companyGroupId = randomUUID();
+    await process(companyGroupId);
+    const [review] = await reviews.listReviews({ companyGroupId });
+
+    const app = Fastify();
+    registerReviewRoutes(app, reviews, orchestration);
+
+    expect((await app.inject({ method: 'GET', url: `/api/reviews/${randomUUID()}` })).statusCode).toBe(404);
+    const invalid = await app.inject({ method: 'POST', url: `/api/reviews/${review.id}/dismiss`, payload: {} });
+    expect(invalid.statusCode).toBe(400);
+
+    const dismissed = await app.inject({
+      method: 'POST',
+      url: `/api/reviews/${review.id}/dismiss`,
+      payload: { reviewedBy: randomUUID(), reason: 'Board housekeeping' },
+    });
+    expect(dismissed.json().review.status).toBe('dismissed');
+
+    const pending = await app.inject({ method: 'GET', url: `/api/reviews?companyGroupId=${companyGroupId}` });
+    expect(pending.json().reviews).toEqual([]);
+    const closed = await app.inject({ method: 'GET', url: `/api/reviews?companyGroupId=${companyGroupId}&status=dismissed` });
+    expect(closed.json().reviews.map((entry: any) => entry.id)).toEqual([review.id]);
+
+    expect(reviews.needsReview('medium')).toBe(true);
+    expect(reviews.needsReview('high')).toBe(false);
+    await expect(orchestration.routeReviewedChange(dismissed.json().review)).rejects.toThrow('is not resolved');
+  });
+});
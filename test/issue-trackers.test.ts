@@ -0,0 +1,176 @@
+/**
+ * Test Jira and Linear integrations against recorded payload fixtures
+ * Both must produce the same Issue/IssueFieldChange shapes
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { createHmac, randomUUID } from 'crypto';
+import { JiraIntegrationImpl, createJiraWebhookVerifier, formatJqlDate } from '../src/integrations/jira';
+import { LinearIntegrationImpl } from '../src/integrations/linear';
+import { GitHubIntegrationImpl, createGitHubPullRequestLookup } from '../src/integrations/github';
+import { HttpClient } from '../src/integrations/http-client';
+import { ChangeDetectionServiceImpl, RawChangeData } from '../src/services/change-detection';
+import { Normalizers } from '../src/services/change-normalization';
+import { Cursor } from '../src/types/cursors';
+
+function fixture(path: string): string {
+  return readFileSync(new URL(`./fixtures/${path}`, import.meta.url), 'utf8');
+}
+
+function fakeClient(respond: (url: string, body?: unknown) => unknown, requested: string[] = []): HttpClient {
+  return {
+    request: async <T>(_method: string, url: string, options?: { query?: Record<string, unknown>; body?: unknown }) => {
+      requested.push(options?.query?.jql ? String(options.query.jql) : url);
+      return { status: 200, headers: {}, data: respond(url, options?.body) as T };
+    },
+  };
+}
+
+function cursorAt(sourceTool: 'jira' | 'linear', position: string): Cursor {
+  return {
+    id: randomUUID(),
+    companyGroupId: randomUUID(),
+    sourceTool,
+    position,
+    positionType: 'timestamp',
+    lastPolledAt: new Date(),
+    consecutiveErrors: 0,
+    isActive: true,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+}
+
+describe('Jira Integration', () => {
+  it('should normalize state and priority changes and ignore untracked fields', async () => {
+    // PRs that mention the issue key are found through GitHub search
+    const github = fakeClient(() => ({
+      items: [{ node_id: 'PR_kwDOAbc', html_url: 'https://github.com/acme/web-app/pull/42' }],
+    }));
+    const jira = new JiraIntegrationImpl(
+      undefined,
+      createGitHubPullRequestLookup({ token: 'test', repositories: ['acme/web-app'] }, new GitHubIntegrationImpl(github))
+    );
+
+    const [change] = await jira.extractRawChanges(JSON.parse(fixture('jira/issue_updated.json')));
+    const event = await Normalizers.normalizeIssueChange(change, 'webhook');
+
+    expect(event.sourceTool).toBe('jira');
+    expect(event.sourceResourceType).toBe('issue');
+    expect(event.sourceResourceId).toBe('PAY-142');
+    expect(event.sourceResourceUrl).toBe('https://acme.atlassian.net/browse/PAY-142');
+    expect(event.changedBy).toBe('Priya Natarajan');
+    expect(event.diff?.split('\n')).toEqual([
+      '~ state: In Progress → In Review',
+      '~ priority: Medium → Highest',
+    ]);
+    expect(event.tags).toEqual(['state-change', 'priority-change', 'state:In Review']);
+    expect(event.relatedResources).toEqual([
+      { tool: 'github', resourceId: 'PR_kwDOAbc', resourceUrl: 'https://github.com/acme/web-app/pull/42' },
+    ]);
+  });
+
+  it('should report new epics and skip other new issues', async () => {
+    const jira = new JiraIntegrationImpl();
+    const [epic] = await jira.extractRawChanges(JSON.parse(fixture('jira/issue_created_epic.json')));
+    const event = await Normalizers.normalizeIssueChange(epic, 'webhook');
+
+    expect(event.tags).toEqual(['new-epic']);
+    expect(event.diff).toBe('+ epic: Wallet payments');
+
+    const story = JSON.parse(fixture('jira/issue_created_epic.json'));
+    story.issue.fields.issuetype = { name: 'Story', hierarchyLevel: 0 };
+    expect(await jira.extractRawChanges(story)).toHaveLength(0);
+  });
+
+  it('should verify webhooks through change detection', async () => {
+    const body = fixture('jira/issue_updated.json');
+    const signature = `sha256=${createHmac('sha256', 'jira-secret').update(body).digest('hex')}`;
+    const detection = new ChangeDetectionServiceImpl(
+      new Map([['jira', createJiraWebhookVerifier('jira-secret')]]),
+      new Map()
+    );
+
+    const changes = await detection.processWebhook('jira', body, signature);
+    expect(changes).toHaveLength(1);
+    await expect(detection.processWebhook('jira', body, 'sha256=bad')).rejects.toThrow(/signature/);
+  });
+
+  it('should poll changelog entries after the cursor', async () => {
+    const requested: string[] = [];
+    const jira = new JiraIntegrationImpl(fakeClient(() => JSON.parse(fixture('jira/search.json')), requested));
+
+    const result = await jira.pollChanges(cursorAt('jira', '2024-06-04T11:20:00.000Z'), {
+      baseUrl: 'https://acme.atlassian.net',
+      email: 'bot@acme.test',
+      apiToken: 'token',
+      projects: ['PAY'],
+      timeZone: 'America/New_York',
+    });
+    const changes = result.changes as RawChangeData[];
+
+    // JQL dates are minute precision in the API user's time zone
+    expect(requested[0]).toBe('updated >= "2024/06/04 07:20" AND project in ("PAY") ORDER BY updated ASC');
+    expect(changes.map(change => (change.rawData.changes as Array<{ field: string }>).map(c => c.field))).toEqual([
+      ['assignee'],
+      ['state'],
+    ]);
+    expect(result.nextPosition).toBe('2024-06-05T08:15:00.000Z');
+  });
+
+  it('should format JQL dates in the given time zone', () => {
+    expect(formatJqlDate(new Date('2024-01-15T23:30:00Z'), 'UTC')).toBe('2024/01/15 23:30');
+    expect(formatJqlDate(new Date('2024-01-15T23:30:00Z'), 'Asia/Tokyo')).toBe('2024/01/16 08:30');
+  });
+});
+
+describe('Linear Integration', () => {
+  const linear = new LinearIntegrationImpl();
+
+  it('should verify the Linear-Signature header', async () => {
+    const body = fixture('linear/issue.update.json');
+    const signature = createHmac('sha256', 'lin-secret').update(body).digest('hex');
+
+    expect(await linear.verifyWebhook(body, signature, 'lin-secret')).toBe(true);
+    expect(await linear.verifyWebhook(body, signature, 'other')).toBe(false);
+  });
+
+  it('should normalize issue updates from updatedFrom', async () => {
+    const [change] = await linear.extractRawChanges(JSON.parse(fixture('linear/issue.update.json')));
+    const event = await Normalizers.normalizeIssueChange(change, 'webhook');
+
+    expect(event.sourceTool).toBe('linear');
+    expect(event.sourceResourceId).toBe('ENG-88');
+    expect(event.changedBy).toBe('Jordan Kim');
+    expect(event.rawChangeData?.changes).toEqual([
+      { field: 'state', to: 'In Progress' },
+      { field: 'priority', from: 'Medium', to: 'Urgent' },
+    ]);
+    expect(event.rawChangeData?.stateCategory).toBe('in-progress');
+  });
+
+  it('should treat new projects as epics', async () => {
+    const [change] = await linear.extractRawChanges(JSON.parse(fixture('linear/project.create.json')));
+    const event = await Normalizers.normalizeIssueChange(change, 'webhook');
+
+    expect(event.tags).toEqual(['new-epic']);
+    expect(event.rawChangeData?.isEpic).toBe(true);
+  });
+
+  it('should poll issue history and projects oldest first', async () => {
+    const poller = new LinearIntegrationImpl(fakeClient(() => JSON.parse(fixture('linear/poll.json'))));
+    const result = await poller.pollChanges(cursorAt('linear', '2024-06-03T00:00:00.000Z'), { apiKey: 'lin_api_test' });
+    const changes = result.changes as RawChangeData[];
+
+    expect(changes.map(change => change.rawData.event)).toEqual(['issue_updated', 'epic_created', 'issue_updated']);
+    expect(result.nextPosition).toBe('2024-06-05T09:30:00.000Z');
+
+    // Linear's GitHub attachments become related resources
+    const event = await Normalizers.normalizeIssueChange(changes[2], 'cursor-polling');
+    expect(event.relatedResources).toEqual([
+      { tool: 'github', resourceId: 'https://github.com/acme/api/pull/512', resourceUrl: 'https://github.com/acme/api/pull/512' },
+    ]);
+    expect(event.tags).toEqual(['state-change', 'state:Done']);
+  });
+});
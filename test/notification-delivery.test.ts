@@ -0,0 +1,215 @@
+/**
+ * Test notification delivery
+ * Verifies each adapter's native format, retries and the dead-letter list
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createServer, Server } from 'net';
+import { AddressInfo } from 'net';
+import { randomUUID } from 'crypto';
+import { openSyncDatabase } from '../src/db/database';
+import { SqliteDeadLetterRepository } from '../src/db/dead-letter-repository';
+import { SqliteNotificationRepository } from '../src/db/notification-repository';
+import { NotificationDeliveryServiceImpl, DeliveryAdapter } from '../src/services/notification-delivery';
+import { NotificationServiceImpl } from '../src/services/notification';
+import { SlackDeliveryAdapter } from '../src/integrations/slack-delivery';
+import { TeamsDeliveryAdapter } from '../src/integrations/teams-delivery';
+import { WebhookDeliveryAdapter, signWebhookBody } from '../src/integrations/webhook-delivery';
+import { EmailDeliveryAdapter, SmtpEmailTransport } from '../src/integrations/email-delivery';
+import { HttpClient } from '../src/integrations/http-client';
+import { Channel, DeliveryTarget, Notification } from '../src/types/core';
+
+const notification: Notification = {
+  id: randomUUID(),
+  changeEventId: randomUUID(),
+  channelId: randomUUID(),
+  role: 'engineering-frontend',
+  summary: 'Checkout API now requires an <Idempotency-Key>',
+  impact: 'Requests without the header get 400',
+  relevance: 'You own the checkout client',
+  suggestedAction: 'Send the header from the cart page',
+  status: 'approved',
+  approvedBy: randomUUID(),
+  approvedAt: new Date('2024-06-05T10:00:00Z'),
+  createdAt: new Date('2024-06-05T09:00:00Z'),
+};
+
+function channelWith(delivery: DeliveryTarget[]): Channel {
+  return {
+    id: notification.channelId,
+    companyGroupId: randomUUID(),
+    type: 'role',
+    name: 'engineering-frontend',
+    role: 'engineering-frontend',
+    delivery,
+    createdAt: new Date(),
+  };
+}
+
+function recordingClient(requests: Array<{ url: string; headers?: Record<string, string>; body?: unknown }>): HttpClient {
+  return {
+    request: async <T>(_method: string, url: string, options?: { headers?: Record<string, string>; body?: unknown }) => {
+      requests.push({ url, headers: options?.headers, body: options?.body });
+      return { status: 200, headers: {}, data: '1' as T };
+    },
+  };
+}
+
+describe('Delivery adapters', () => {
+  it('should post Block Kit messages to Slack', async () => {
+    const posted: any[] = [];
+    const client = { chat: { postMessage: async (args: any) => { posted.push(args); return { ok: true }; } } };
+    const target: DeliveryTarget = { adapter: 'slack', slackChannelId: 'C0FRONTEND' };
+
+    await new SlackDeliveryAdapter(client as any).deliver(notification, target, channelWith([target]));
+
+    expect(posted[0].channel).toBe('C0FRONTEND');
+    expect(posted[0].text).toBe(notification.summary);
+    expect(posted[0].blocks.map((block: any) => block.text?.text ?? block.type)).toEqual([
+      '*Checkout API now requires an &lt;Idempotency-Key&gt;*',
+      '*Impact*\nRequests without the header get 400',
+      '*Why you are seeing this*\nYou own the checkout client',
+      '*Suggested action*\nSend the header from the cart page',
+      'context',
+    ]);
+  });
+
+  it('should sign outbound webhooks and post Adaptive Cards to Teams', async () => {
+    const requests: Array<{ url: string; headers?: Record<string, string>; body?: unknown }> = [];
+    const webhook: DeliveryTarget = { adapter: 'webhook', url: 'https://hooks.acme.test/zinc', secret: 'shh' };
+    const teams: DeliveryTarget = { adapter: 'teams', webhookUrl: 'https://acme.webhook.office.com/webhookb2/x' };
+
+    await new WebhookDeliveryAdapter(recordingClient(requests)).deliver(notification, webhook, channelWith([webhook]));
+    await new TeamsDeliveryAdapter(recordingClient(requests)).deliver(notification, teams, channelWith([teams]));
+
+    const [signed, card] = requests;
+    const timestamp = signed.headers!['X-Zinc-Timestamp'];
+    expect(signed.headers!['X-Zinc-Signature']).toBe(signWebhookBody(signed.body as string, timestamp, 'shh'));
+    expect(JSON.parse(signed.body as string).notification.summary).toBe(notification.summary);
+
+    const content = (card.body as any).attachments[0].content;
+    expect(content.type).toBe('AdaptiveCard');
+    expect(content.body.map((block: any) => block.text)).toContain('Why you are seeing this');
+  });
+
+  it('should send multipart email over SMTP, never authenticating in plain text', async () => {
+    const received: string[] = [];
+    const server: Server = createServer(socket => {
+      let inData = false;
+      let buffered = '';
+      socket.write('220 mail.acme.test ESMTP\r\n');
+      socket.on('data', chunk => {
+        buffered += chunk.toString();
+        let newline: number;
+        while ((newline = buffered.indexOf('\r\n')) >= 0) {
+          const line = buffered.slice(0, newline);
+          buffered = buffered.slice(newline + 2);
+          received.push(line);
+
+          if (inData) {
+            if (line === '.') {
+              inData = false;
+              socket.write('250 queued\r\n');
+            }
+          } else if (line.startsWith('EHLO')) {
+            socket.write('250-mail.acme.test\r\n250-AUTH PLAIN\r\n250 8BITMIME\r\n');
+          } else if (line.startsWith('AUTH')) {
+            socket.write('235 ok\r\n');
+          } else if (line === 'DATA') {
+            inData = true;
+            socket.write('354 go ahead\r\n');
+          } else if (line === 'QUIT') {
+            socket.end('221 bye\r\n');
+          } else {
+            socket.write('250 ok\r\n');
+          }
+        }
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+    const target: DeliveryTarget = { adapter: 'email', to: ['frontend@acme.test', 'lead@acme.test'] };
+    const config = { host: '127.0.0.1', port: 0, from: 'zinc@acme.test' };
+    try {
+      config.port = (server.address() as AddressInfo).port;
+
+      // The server offers no STARTTLS, so credentials must not be sent
+      const authenticated = new SmtpEmailTransport({ ...config, username: 'zinc', password: 'secret' });
+      await expect(new EmailDeliveryAdapter(authenticated).deliver(notification, target, channelWith([target])))
+        .rejects.toThrow('refusing to send credentials in plain text');
+      expect(received.some(line => line.startsWith('AUTH') || line.startsWith('MAIL FROM'))).toBe(false);
+
+      received.length = 0;
+      await new EmailDeliveryAdapter(new SmtpEmailTransport(config)).deliver(notification, target, channelWith([target]));
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+
+    expect(received.some(line => line.startsWith('AUTH'))).toBe(false);
+    expect(received.filter(line => line.startsWith('RCPT TO'))).toEqual([
+      'RCPT TO:<frontend@acme.test>',
+      'RCPT TO:<lead@acme.test>',
+    ]);
+    expect(received).toContain('Subject: [engineering-frontend] Checkout API now requires an <Idempotency-Key>');
+    expect(received.some(line => line.startsWith('Content-Type: multipart/alternative'))).toBe(true);
+    expect(received[received.length - 1]).toBe('QUIT');
+  });
+});
+
+describe('Notification Delivery Service', () => {
+  it('should retry, dead-letter failed targets and redeliver them later', async () => {
+    const db = openSyncDatabase(':memory:');
+    const deadLetters = new SqliteDeadLetterRepository(db);
+    const slackTarget: DeliveryTarget = { adapter: 'slack', slackChannelId: 'C0FRONTEND' };
+    const teamsTarget: DeliveryTarget = { adapter: 'teams', webhookUrl: 'https://acme.webhook.office.com/webhookb2/x' };
+    const channel = channelWith([slackTarget, teamsTarget]);
+
+    let teamsCalls = 0;
+    let teamsDown = true;
+    const adapters = new Map<DeliveryTarget['adapter'], DeliveryAdapter>([
+      ['slack', { deliver: async () => undefined }],
+      ['teams', {
+        deliver: async () => {
+          teamsCalls++;
+          if (teamsDown) throw new Error('HTTP POST failed (503): busy');
+        },
+      }],
+    ]);
+    const delivery = new NotificationDeliveryServiceImpl(
+      adapters,
+      async id => (id === channel.id ? channel : null),
+      deadLetters,
+      { maxAttempts: 3, initialDelayMs: 0 }
+    );
+
+    const report = await delivery.deliver(notification);
+    expect(report.delivered).toEqual([slackTarget]);
+    expect(teamsCalls).toBe(3);
+    expect(report.deadLettered[0]).toMatchObject({ target: teamsTarget, attempts: 3, lastError: 'HTTP POST failed (503): busy' });
+
+    teamsDown = false;
+    const [deadLetter] = await delivery.listDeadLetters();
+    expect(await delivery.retryDeadLetter(deadLetter.id)).toBe(true);
+    expect(await delivery.listDeadLetters()).toHaveLength(0);
+  });
+
+  it('should keep a notification approved when every target failed', async () => {
+    const db = openSyncDatabase(':memory:');
+    const target: DeliveryTarget = { adapter: 'webhook', url: 'https://hooks.acme.test/zinc', secret: 'shh' };
+    const channel = channelWith([target]);
+    const delivery = new NotificationDeliveryServiceImpl(
+      new Map([['webhook', { deliver: async () => { throw new Error('connection refused'); } }]]),
+      async () => channel,
+      new SqliteDeadLetterRepository(db),
+      { maxAttempts: 2, initialDelayMs: 0 }
+    );
+    const notifications = new NotificationServiceImpl(new SqliteNotificationRepository(db), undefined, delivery);
+
+    const created = await notifications.createNotification({ ...notification, status: 'pending' });
+    await notifications.approveNotification(created.id, randomUUID());
+
+    await expect(notifications.sendNotification(created.id)).rejects.toThrow(/dead letters/);
+    expect((await notifications.getNotification(created.id))?.status).toBe('approved');
+    expect(await delivery.listDeadLetters()).toHaveLength(1);
+  });
+});
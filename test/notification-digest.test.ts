@@ -0,0 +1,155 @@
+/**
+ * Test notification digests
+ * Verifies that digest channels batch and coalesce approved notifications, and breaking changes skip the batch
+ */
+
+import { describe, it, expect } from 'vitest';
+import { randomUUID } from 'crypto';
+import { openSyncDatabase } from '../src/db/database';
+import { SqliteNotificationRepository } from '../src/db/notification-repository';
+import { SqliteDeadLetterRepository } from '../src/db/dead-letter-repository';
+import { SqliteChangeEventRepository } from '../src/db/change-event-repository';
+import { SqliteDigestRepository } from '../src/db/digest-repository';
+import { NotificationServiceImpl } from '../src/services/notification';
+import { NotificationDeliveryServiceImpl, DeliveryAdapter } from '../src/services/notification-delivery';
+import { NotificationDigestServiceImpl, digestDueAt } from '../src/services/notification-digest';
+import { ChangeEvent, Channel, ChangeClassification, DigestFrequency, Notification } from '../src/types/core';
+
+const companyGroupId = randomUUID();
+const approver = randomUUID();
+
+function channel(digest?: DigestFrequency): Channel {
+  return {
+    id: randomUUID(),
+    companyGroupId,
+    type: 'role',
+    name: 'engineering-backend',
+    role: 'engineering-backend',
+    delivery: [{ adapter: 'email', to: ['backend@acme.test'] }],
+    digest,
+    createdAt: new Date(),
+  };
+}
+
+function setup(channels: Channel[]) {
+  const db = openSyncDatabase(':memory:');
+  const notificationRepository = new SqliteNotificationRepository(db);
+  const changeEvents = new SqliteChangeEventRepository(db);
+  const delivered: Notification[] = [];
+  const adapter: DeliveryAdapter = { deliver: async notification => { delivered.push(notification); } };
+  const channelLookup = async (channelId: string) => channels.find(candidate => candidate.id === channelId) ?? null;
+  const delivery = new NotificationDeliveryServiceImpl(
+    new Map([['email', adapter]]),
+    channelLookup,
+    new SqliteDeadLetterRepository(db),
+    { initialDelayMs: 0 }
+  );
+  const digests = new NotificationDigestServiceImpl(
+    new SqliteDigestRepository(db),
+    notificationRepository,
+    changeEvents,
+    channelLookup,
+    delivery
+  );
+  const notifications = new NotificationServiceImpl(notificationRepository, changeEvents, delivery, digests);
+
+  // Approve and send one notification about `resource`, as the approval flow would
+  const notify = async (target: Channel, resource: string, summary: string, classification: ChangeClassification = 'functional') => {
+    const changeEvent: ChangeEvent = {
+      id: randomUUID(),
+      changedBy: 'alice',
+      changedAt: new Date(),
+      sourceTool: 'github',
+      sourceResourceId: resource,
+      sourceResourceUrl: `https://github.com/acme/shop/pull/${resource}`,
+      sourceResourceType: 'pull_request',
+      classification,
+      normalizedAt: new Date(),
+      detectionMethod: 'webhook',
+    };
+    changeEvents.saveChangeEvent(companyGroupId, changeEvent);
+
+    const created = await notifications.createNotification({
+      changeEventId: changeEvent.id,
+      channelId: target.id,
+      role: target.role,
+      summary,
+      impact: `${summary} impact`,
+      relevance: 'You own the orders service',
+      status: 'pending',
+    });
+    await notifications.approveNotification(created.id, approver);
+    await notifications.sendNotification(created.id);
+    return { notification: (await notifications.getNotification(created.id))!, changeEvent };
+  };
+
+  return { notifications, digests, changeEvents, delivered, notify };
+}
+
+describe('Notification Digests', () => {
+  it('should coalesce approved notifications per resource until the digest is due', async () => {
+    const daily = channel('daily');
+    const { notifications, digests, changeEvents, delivered, notify } = setup([daily]);
+
+    const first = await notify(daily, '42', 'PR #42 pushed');
+    await notify(daily, '42', 'PR #42 pushed again');
+    await notify(daily, '42', 'PR #42 ready for review');
+    await notify(daily, '43', 'PR #43 opened');
+
+    expect(delivered).toHaveLength(0);
+    expect(first.notification.status).toBe('approved');
+    expect(changeEvents.getTimeline(first.changeEvent.id).map(entry => entry.kind)).toContain('notification_digested');
+
+    const [open] = await digests.listDigests({ channelId: daily.id, status: 'open' });
+    expect(open.entries.map(entry => [entry.resourceKey, entry.notificationIds.length, entry.summary])).toEqual([
+      ['github:42', 3, 'PR #42 ready for review'],
+      ['github:43', 1, 'PR #43 opened'],
+    ]);
+
+    expect(await digests.flushDue(new Date(open.dueAt.getTime() - 1))).toEqual([]);
+
+    const sent = await digests.flushDue(open.dueAt);
+    expect(sent.map(digest => digest.status)).toEqual(['sent']);
+    expect(delivered).toHaveLength(1);
+    expect(delivered[0].summary).toBe('Daily digest for engineering-backend: 2 changes');
+    expect(delivered[0].impact).toBe([
+      '- PR #42 ready for review (3 updates) https://github.com/acme/shop/pull/42',
+      '  PR #42 ready for review impact',
+      '- PR #43 opened https://github.com/acme/shop/pull/43',
+      '  PR #43 opened impact',
+    ].join('\n'));
+
+    expect((await notifications.getNotification(first.notification.id))!.status).toBe('sent');
+    expect(changeEvents.getTimeline(first.changeEvent.id).at(-1)).toMatchObject({
+      kind: 'notification_sent',
+      details: { digestId: open.id, delivered: ['email'] },
+    });
+
+    // Nothing left to send, and the next notification opens a new digest
+    expect(await digests.flushDue(open.dueAt)).toEqual([]);
+    await notify(daily, '44', 'PR #44 opened');
+    expect(await digests.listDigests({ channelId: daily.id, status: 'open' })).toHaveLength(1);
+  });
+
+  it('should deliver breaking changes and non-digest channels right away', async () => {
+    const weekly = channel('weekly');
+    const immediate = channel();
+    const { delivered, notify } = setup([weekly, immediate]);
+
+    const breaking = await notify(weekly, '50', 'Orders API drops v1', 'breaking');
+    const routine = await notify(immediate, '51', 'PR #51 opened');
+
+    expect(delivered.map(notification => notification.summary)).toEqual(['Orders API drops v1', 'PR #51 opened']);
+    expect(breaking.notification.status).toBe('sent');
+    expect(routine.notification.status).toBe('sent');
+  });
+
+  it('should close digest windows on UTC hour, day and week boundaries', () => {
+    const wednesday = new Date('2024-06-05T10:15:00Z');
+
+    expect(digestDueAt('hourly', wednesday).toISOString()).toBe('2024-06-05T11:00:00.000Z');
+    expect(digestDueAt('daily', wednesday).toISOString()).toBe('2024-06-06T00:00:00.000Z');
+    expect(digestDueAt('weekly', wednesday).toISOString()).toBe('2024-06-10T00:00:00.000Z');
+    expect(digestDueAt('weekly', new Date('2024-06-10T00:00:00Z')).toISOString()).toBe('2024-06-17T00:00:00.000Z');
+  });
+});
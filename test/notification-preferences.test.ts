@@ -0,0 +1,183 @@
+/**
+ * Test per-user notification preferences
+ * Verifies mutes, minimum classification, quiet hours and follows, all within the role guardrails
+ */
+
+import { describe, it, expect } from 'vitest';
+import { randomUUID } from 'crypto';
+import Fastify from 'fastify';
+import { openSyncDatabase } from '../src/db/database';
+import { SqliteNotificationRepository } from '../src/db/notification-repository';
+import { SqliteChangeEventRepository } from '../src/db/change-event-repository';
+import { SqlitePreferenceRepository } from '../src/db/preference-repository';
+import { NotificationServiceImpl } from '../src/services/notification';
+import { NotificationPreferenceServiceImpl } from '../src/services/notification-preferences';
+import { registerPreferenceRoutes } from '../src/api/preferences';
+import { registerNotificationRoutes } from '../src/api/notifications';
+import { ChangeEvent, ChangeClassification, Channel, Role, User } from '../src/types/core';
+
+const companyGroupId = randomUUID();
+
+function user(tag: string, role: Role): User {
+  return {
+    id: randomUUID(),
+    displayName: tag,
+    tag,
+    fullIdentifier: `${tag}#${tag}`,
+    roles: [role],
+    companyGroupId,
+    createdAt: new Date(),
+  };
+}
+
+const alice = user('alice', 'engineering-backend');
+const bob = user('bob', 'engineering-backend');
+const carol = user('carol', 'engineering-backend');
+const dave = user('dave', 'design');
+
+const backend: Channel = {
+  id: randomUUID(),
+  companyGroupId,
+  type: 'role',
+  name: 'engineering-backend',
+  role: 'engineering-backend',
+  createdAt: new Date(),
+};
+
+async function setup() {
+  const db = openSyncDatabase(':memory:');
+  const changeEvents = new SqliteChangeEventRepository(db);
+  const preferences = new NotificationPreferenceServiceImpl(
+    new SqlitePreferenceRepository(db),
+    changeEvents,
+    async channelId => (channelId === backend.id ? backend : null),
+    async () => [alice, bob, carol, dave]
+  );
+  const notifications = new NotificationServiceImpl(
+    new SqliteNotificationRepository(db),
+    changeEvents,
+    undefined,
+    undefined,
+    preferences
+  );
+
+  await preferences.updatePreferences(alice.id, companyGroupId, {
+    mutedRepositories: ['acme/legacy'],
+    minimumClassification: 'functional',
+  });
+  await preferences.updatePreferences(bob.id, companyGroupId, {
+    quietHours: { start: '22:00', end: '07:00', timeZone: 'Europe/Berlin' },
+  });
+  await preferences.updatePreferences(carol.id, companyGroupId, { mutedTools: ['github'] });
+  await preferences.follow(carol.id, companyGroupId, { tool: 'github', resourceId: 'PR_9' });
+  // Following can't get dave past the role guardrail
+  await preferences.follow(dave.id, companyGroupId, { tool: 'github', resourceId: 'PR_9' });
+
+  const notify = async (resourceId: string, repository: string, classification: ChangeClassification) => {
+    const changeEvent: ChangeEvent = {
+      id: randomUUID(),
+      changedBy: 'erin',
+      changedAt: new Date(),
+      sourceTool: 'github',
+      sourceResourceId: resourceId,
+      sourceResourceType: 'pull_request',
+      rawChangeData: { repository },
+      classification,
+      normalizedAt: new Date(),
+      detectionMethod: 'webhook',
+    };
+    changeEvents.saveChangeEvent(companyGroupId, changeEvent);
+    return notifications.createNotification({
+      changeEventId: changeEvent.id,
+      channelId: backend.id,
+      role: 'engineering-backend',
+      summary: `${resourceId} changed`,
+      impact: 'Orders service behaviour changes',
+      relevance: 'You own the orders service',
+      status: 'pending',
+    });
+  };
+
+  return { preferences, notifications, changeEvents, notify };
+}
+
+describe('Notification Preferences', () => {
+  it('should narrow role fan-out by mutes, classification, quiet hours and follows', async () => {
+    const { preferences, notify } = await setup();
+    const lateEvening = new Date('2024-06-05T21:30:00Z'); // 23:30 in Berlin
+
+    const legacy = await preferences.fanOut(await notify('PR_9', 'acme/legacy', 'cosmetic'), lateEvening);
+    expect(legacy.suppressed).toEqual([{ userId: alice.id, reason: 'Muted repository acme/legacy' }]);
+    expect(legacy.recipients).toEqual([
+      { userId: bob.id, deliverAt: new Date('2024-06-06T05:00:00Z') },
+      { userId: carol.id, deliverAt: lateEvening },
+    ]);
+
+    const midday = new Date('2024-06-05T10:00:00Z');
+    const shop = await preferences.fanOut(await notify('PR_10', 'acme/shop', 'cosmetic'), midday);
+    expect(shop.suppressed).toEqual([
+      { userId: alice.id, reason: 'Below minimum classification functional' },
+      { userId: carol.id, reason: 'Muted tool github' },
+    ]);
+    expect(shop.recipients).toEqual([{ userId: bob.id, deliverAt: midday }]);
+  });
+
+  it('should fill user inboxes when notifications are sent', async () => {
+    const { notifications, changeEvents, notify } = await setup();
+    const app = Fastify();
+    registerNotificationRoutes(app, notifications);
+
+    const notification = await notify('PR_11', 'acme/shop', 'functional');
+    await notifications.approveNotification(notification.id, randomUUID());
+    await notifications.sendNotification(notification.id);
+
+    const inbox = await app.inject({ method: 'GET', url: `/api/users/${alice.id}/notifications` });
+    expect(inbox.json().notifications.map((entry: any) => entry.notification.id)).toEqual([notification.id]);
+    expect((await notifications.getUserNotifications(carol.id))).toEqual([]);
+    expect((await notifications.getUserNotifications(dave.id))).toEqual([]);
+
+    const fannedOut = changeEvents.getTimeline(notification.changeEventId).find(entry => entry.kind === 'notification_fanned_out');
+    expect(fannedOut?.details.suppressed).toEqual([{ userId: carol.id, reason: 'Muted tool github' }]);
+    expect((fannedOut?.details.recipients as string[]).sort()).toEqual([alice.id, bob.id].sort());
+  });
+
+  it('should edit preferences and follows over the API', async () => {
+    const { preferences } = await setup();
+    const app = Fastify();
+    registerPreferenceRoutes(app, preferences);
+
+    const updated = await app.inject({
+      method: 'PUT',
+      url: `/api/users/${alice.id}/preferences`,
+      payload: { companyGroupId, minimumClassification: null, mutedComponents: ['billing'] },
+    });
+    expect(updated.json().preferences).toMatchObject({
+      mutedRepositories: ['acme/legacy'],
+      mutedComponents: ['billing'],
+    });
+    expect(updated.json().preferences.minimumClassification).toBeUndefined();
+
+    const invalid = await app.inject({
+      method: 'PUT',
+      url: `/api/users/${alice.id}/preferences`,
+      payload: { companyGroupId, quietHours: { start: '22:00', end: '7am', timeZone: 'Mars/Olympus' } },
+    });
+    expect(invalid.statusCode).toBe(400);
+    expect(invalid.json().details).toEqual(['quietHours.end: Use HH:MM', 'quietHours.timeZone: Unknown time zone']);
+
+    const followed = await app.inject({
+      method: 'POST',
+      url: `/api/users/${alice.id}/follows`,
+      payload: { companyGroupId, tool: 'jira', resourceId: 'PAY-123' },
+    });
+    expect(followed.statusCode).toBe(201);
+    expect(followed.json().preferences.follows).toEqual([{ tool: 'jira', resourceId: 'PAY-123' }]);
+
+    const unfollowUrl = `/api/users/${alice.id}/follows?companyGroupId=${companyGroupId}&tool=jira&resourceId=PAY-123`;
+    expect((await app.inject({ method: 'DELETE', url: unfollowUrl })).json().preferences.follows).toEqual([]);
+    expect((await app.inject({ method: 'DELETE', url: unfollowUrl })).statusCode).toBe(404);
+
+    const defaults = await app.inject({ method: 'GET', url: `/api/users/${randomUUID()}/preferences?companyGroupId=${companyGroupId}` });
+    expect(defaults.json().preferences).toMatchObject({ mutedRepositories: [], mutedTools: [], follows: [] });
+  });
+});
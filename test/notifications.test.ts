@@ -0,0 +1,146 @@
+/**
+ * Test notification persistence and the approval queue
+ * Verifies status history, queue filters, bulk actions and concurrent approvals
+ */
+
+import { describe, it, expect } from 'vitest';
+import { randomUUID } from 'crypto';
+import Fastify from 'fastify';
+import { openSyncDatabase } from '../src/db/database';
+import { SqliteNotificationRepository } from '../src/db/notification-repository';
+import { NotificationServiceImpl } from '../src/services/notification';
+import { registerNotificationRoutes } from '../src/api/notifications';
+import { Role } from '../src/types/core';
+
+function createService() {
+  const repository = new SqliteNotificationRepository(openSyncDatabase(':memory:'));
+  return { repository, service: new NotificationServiceImpl(repository) };
+}
+
+function pending(channelId: string, role: Role) {
+  return {
+    changeEventId: randomUUID(),
+    channelId,
+    role,
+    summary: 'Checkout API now requires an idempotency key',
+    impact: 'Clients without the header get 400',
+    relevance: 'You own the checkout client',
+    status: 'pending' as const,
+  };
+}
+
+describe('Notification Service', () => {
+  it('should persist the full status history with rejection reasons', async () => {
+    const { repository, service } = createService();
+    const reviewer = randomUUID();
+
+    const approved = await service.createNotification(pending(randomUUID(), 'engineering-frontend'));
+    await service.approveNotification(approved.id, reviewer);
+    await service.sendNotification(approved.id);
+
+    const rejected = await service.createNotification(pending(randomUUID(), 'sales'));
+    await service.rejectNotification(rejected.id, reviewer, 'Not customer facing');
+
+    // A second service over the same database sees the same state
+    const reloaded = new NotificationServiceImpl(repository);
+    expect((await reloaded.getNotification(approved.id))?.status).toBe('sent');
+    expect((await reloaded.getStatusHistory(approved.id)).map(change => [change.fromStatus, change.toStatus])).toEqual([
+      [undefined, 'pending'],
+      ['pending', 'approved'],
+      ['approved', 'sent'],
+    ]);
+
+    const rejectedNow = await reloaded.getNotification(rejected.id);
+    expect(rejectedNow).toMatchObject({
+      status: 'rejected',
+      rejectedBy: reviewer,
+      rejectionReason: 'Not customer facing',
+      version: 2,
+    });
+    expect(rejectedNow?.approvedBy).toBeUndefined();
+    expect((await reloaded.getStatusHistory(rejected.id))[1]).toMatchObject({
+      actor: reviewer,
+      reason: 'Not customer facing',
+    });
+  });
+
+  it('should refuse to act on a notification someone else already handled', async () => {
+    const { service } = createService();
+    const notification = await service.createNotification(pending(randomUUID(), 'product'));
+
+    await service.approveNotification(notification.id, randomUUID(), notification.version);
+
+    await expect(service.rejectNotification(notification.id, randomUUID(), 'dupe', notification.version))
+      .rejects.toThrow(/was modified/);
+    await expect(service.approveNotification(notification.id, randomUUID()))
+      .rejects.toThrow(/not pending/);
+    expect(await service.getStatusHistory(notification.id)).toHaveLength(2);
+  });
+
+  it('should report bulk results per notification', async () => {
+    const { service } = createService();
+    const channelId = randomUUID();
+    const first = await service.createNotification(pending(channelId, 'product'));
+    const second = await service.createNotification(pending(channelId, 'product'));
+    await service.rejectNotification(second.id, randomUUID());
+
+    const result = await service.bulkApprove([first.id, second.id, first.id, 'missing'], randomUUID());
+
+    expect(result.succeeded.map(n => n.id)).toEqual([first.id]);
+    expect(result.failed).toEqual([
+      { notificationId: second.id, error: `Notification ${second.id} is not pending approval` },
+      { notificationId: 'missing', error: 'Notification not found: missing' },
+    ]);
+  });
+});
+
+describe('Approval queue API', () => {
+  it('should filter the queue and map conflicts to 409', async () => {
+    const { service } = createService();
+    const channelId = randomUUID();
+    const product = await service.createNotification(pending(channelId, 'product'));
+    await service.createNotification(pending(channelId, 'design'));
+    await service.createNotification(pending(randomUUID(), 'product'));
+
+    const app = Fastify();
+    registerNotificationRoutes(app, service);
+
+    const queue = await app.inject({ method: 'GET', url: `/api/notifications/queue?channelId=${channelId}&role=product` });
+    expect(queue.json().notifications.map((n: { id: string }) => n.id)).toEqual([product.id]);
+
+    const fresh = await app.inject({ method: 'GET', url: '/api/notifications/queue?minAgeMinutes=60' });
+    expect(fresh.json().notifications).toHaveLength(0);
+
+    const approverId = randomUUID();
+    const approve = () => app.inject({
+      method: 'POST',
+      url: `/api/notifications/${product.id}/approve`,
+      payload: { approvedBy: approverId, expectedVersion: 1 },
+    });
+    expect((await approve()).statusCode).toBe(200);
+    expect((await approve()).statusCode).toBe(409);
+
+    const detail = await app.inject({ method: 'GET', url: `/api/notifications/${product.id}` });
+    expect(detail.json().notification.status).toBe('approved');
+    expect(detail.json().history).toHaveLength(2);
+
+    const bulk = await app.inject({
+      method: 'POST',
+      url: '/api/notifications/bulk/reject',
+      payload: { notificationIds: [product.id], rejectedBy: approverId, reason: 'Too late' },
+    });
+    expect(bulk.json().failed).toHaveLength(1);
+
+    expect((await app.inject({
+      method: 'POST',
+      url: `/api/notifications/${randomUUID()}/reject`,
+      payload: { rejectedBy: approverId },
+    })).statusCode).toBe(404);
+    expect((await app.inject({
+      method: 'POST',
+      url: `/api/notifications/${product.id}/approve`,
+      payload: {},
+    })).statusCode).toBe(400);
+    await app.close();
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Test onboarding and company group membership
+ * Verifies persistence across service instances, joining with invites,
+ * and admin role changes with their channels and audit trail
+ */
+
+import { describe, it, expect } from 'vitest';
+import Fastify from 'fastify';
+import { openSyncDatabase } from '../src/db/database';
+import { SqliteChannelRepository } from '../src/db/channel-repository';
+import { SqliteUserRepository } from '../src/db/user-repository';
+import { OnboardingServiceImpl } from '../src/services/onboarding';
+import { registerOnboardingRoutes } from '../src/api/onboarding';
+import { registerMemberRoutes } from '../src/api/members';
+
+const HOUR = 60 * 60 * 1000;
+
+function setup() {
+  const db = openSyncDatabase(':memory:');
+  const channels = new SqliteChannelRepository(db);
+  const create = () => new OnboardingServiceImpl(channels, new SqliteUserRepository(db));
+  const onboarding = create();
+
+  const app = Fastify();
+  registerOnboardingRoutes(app, onboarding, { inviteBaseUrl: 'https://sync.example.com/join/' });
+  registerMemberRoutes(app, onboarding);
+
+  return { channels, onboarding, create, app };
+}
+
+describe('Onboarding Service', () => {
+  it('should keep identities, roles, groups and channels across service instances', async () => {
+    const { channels, onboarding, create } = setup();
+    const { user, companyGroup } = await onboarding.completeOnboarding({
+      displayName: 'Ada',
+      roles: ['engineering-backend'],
+      companyGroupName: 'Acme',
+      isCreatingNewGroup: true,
+    });
+
+    const restarted = create();
+    expect(await restarted.getCompanyGroup(companyGroup!.id)).toMatchObject({ name: 'Acme', slug: 'acme' });
+    expect(await restarted.listMembers(companyGroup!.id)).toEqual([{ ...user, isAdmin: true }]);
+    expect(channels.listChannels(companyGroup!.id).map(channel => channel.role ?? channel.type))
+      .toEqual(['everyone', 'engineering-backend']);
+    await expect(restarted.createCompanyGroup('ACME', user.id)).rejects.toThrow('already exists');
+
+    // Roles chosen before joining a group are kept with the identity
+    const identity = await restarted.createIdentity('Grace');
+    await restarted.selectRoles(identity.id, ['design']);
+    const invite = await restarted.createInvite(companyGroup!.id, user.id);
+    expect(await create().joinCompanyGroup(identity.id, invite.code)).toMatchObject({ roles: ['design'], isAdmin: false });
+  });
+
+  it('should join groups with invites until they expire, run out or are revoked', async () => {
+    const { onboarding, app } = setup();
+    const { user: admin, companyGroup } = await onboarding.completeOnboarding({ displayName: 'Ada', roles: ['product'] });
+
+    const created = await app.inject({
+      method: 'POST',
+      url: `/api/company-groups/${companyGroup!.id}/invites`,
+      payload: { createdBy: admin.id, maxUses: 1, expiresInHours: 24 },
+    });
+    expect(created.statusCode).toBe(201);
+    const { invite, link } = created.json();
+    expect(link).toBe(`https://sync.example.com/join/${invite.code}`);
+    expect((await app.inject({ method: 'GET', url: `/api/invites/${invite.code}` })).json())
+      .toMatchObject({ companyGroup: { name: "Ada's Group" }, valid: true });
+
+    const joined = await app.inject({
+      method: 'POST',
+      url: '/api/onboarding/complete',
+      payload: { displayName: 'Grace', roles: ['design'], inviteCode: invite.code },
+    });
+    expect(joined.statusCode).toBe(201);
+    expect(joined.json().companyGroup.id).toBe(companyGroup!.id);
+
+    // Used up
+    const late = await app.inject({
+      method: 'POST',
+      url: '/api/onboarding/complete',
+      payload: { displayName: 'Linus', roles: ['design'], inviteCode: invite.code },
+    });
+    expect(late.statusCode).toBe(409);
+    expect((await app.inject({ method: 'GET', url: `/api/invites/${invite.code}` })).json().valid).toBe(false);
+
+    const expired = await onboarding.createInvite(companyGroup!.id, admin.id, { expiresInMs: -HOUR });
+    await expect(onboarding.completeOnboarding({ displayName: 'Linus', roles: ['engineering-qa'], inviteCode: expired.code }))
+      .rejects.toThrow('no longer valid');
+
+    const member = joined.json().user;
+    const forbidden = await app.inject({
+      method: 'POST',
+      url: `/api/company-groups/${companyGroup!.id}/invites`,
+      payload: { createdBy: member.id },
+    });
+    expect(forbidden.statusCode).toBe(403);
+
+    const open = await onboarding.createInvite(companyGroup!.id, admin.id);
+    const revoked = await app.inject({ method: 'POST', url: `/api/invites/${open.code}/revoke`, payload: { revokedBy: admin.id } });
+    expect(revoked.json().invite.revokedAt).toBeDefined();
+    const { user: linus } = await onboarding.completeOnboarding({ displayName: 'Linus', roles: ['engineering-qa'] });
+    const accepted = await app.inject({ method: 'POST', url: `/api/invites/${open.code}/accept`, payload: { userId: linus.id } });
+    expect(accepted.statusCode).toBe(409);
+    expect((await app.inject({ method: 'GET', url: '/api/invites/unknown' })).statusCode).toBe(404);
+    expect((await onboarding.listMembers(companyGroup!.id)).map(entry => entry.displayName)).toEqual(['Ada', 'Grace']);
+  });
+
+  it('should let admins change roles, creating role channels and an audit trail', async () => {
+    const { channels, onboarding, app } = setup();
+    const { user: admin, companyGroup } = await onboarding.completeOnboarding({ displayName: 'Ada', roles: ['product'] });
+    const groupId = companyGroup!.id;
+    const invite = await onboarding.createInvite(groupId, admin.id);
+    const { user: member } = await onboarding.completeOnboarding({ displayName: 'Grace', roles: ['design'], inviteCode: invite.code });
+
+    const changed = await app.inject({
+      method: 'PUT',
+      url: `/api/company-groups/${groupId}/members/${member.id}/roles`,
+      payload: { roles: ['design', 'engineering-frontend'], changedBy: admin.id },
+    });
+    expect(changed.statusCode).toBe(200);
+    expect(channels.findRoleChannel(groupId, 'engineering-frontend')).not.toBeNull();
+
+    const byMember = await app.inject({
+      method: 'PUT',
+      url: `/api/company-groups/${groupId}/members/${member.id}/roles`,
+      payload: { roles: ['product'], changedBy: member.id },
+    });
+    expect(byMember.statusCode).toBe(403);
+
+    const trail = await app.inject({ method: 'GET', url: `/api/company-groups/${groupId}/role-changes?userId=${member.id}` });
+    expect(trail.json().roleChanges.map((entry: any) => [entry.changedBy, entry.previousRoles, entry.roles])).toEqual([
+      [member.id, [], ['design']],
+      [admin.id, ['design'], ['design', 'engineering-frontend']],
+    ]);
+
+    const demoteLast = await app.inject({
+      method: 'PUT',
+      url: `/api/company-groups/${groupId}/members/${admin.id}/admin`,
+      payload: { isAdmin: false, changedBy: admin.id },
+    });
+    expect(demoteLast.statusCode).toBe(409);
+    await onboarding.setAdmin(groupId, member.id, true, admin.id);
+    await onboarding.setAdmin(groupId, admin.id, false, member.id);
+    const members = await app.inject({ method: 'GET', url: `/api/company-groups/${groupId}/members` });
+    expect(members.json().members.map((entry: any) => [entry.displayName, entry.isAdmin])).toEqual([
+      ['Ada', false],
+      ['Grace', true],
+    ]);
+  });
+});
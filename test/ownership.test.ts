@@ -0,0 +1,177 @@
+/**
+ * Test the ownership registry
+ * Verifies CODEOWNERS matching, manual rules, authorship fallback and the editing API
+ */
+
+import { describe, it, expect } from 'vitest';
+import { randomUUID } from 'crypto';
+import Fastify from 'fastify';
+import { openSyncDatabase } from '../src/db/database';
+import { SqliteOwnershipRepository } from '../src/db/ownership-repository';
+import { OwnershipServiceImpl, matchesOwnershipPattern } from '../src/services/ownership';
+import { registerOwnershipRoutes } from '../src/api/ownership';
+import { ChangeEvent } from '../src/types/core';
+
+const CODEOWNERS = `
+# Default reviewers
+*                  @acme/platform
+/src/payments/     @acme/payments @alice   # money moves here
+*.graphql          @acme/api-guild
+docs/              docs@acme.test
+`;
+
+function createService() {
+  return new OwnershipServiceImpl(new SqliteOwnershipRepository(openSyncDatabase(':memory:')));
+}
+
+function codeChange(sourceResourceType: 'pull_request' | 'commit', paths: string[], changedBy = 'bob'): ChangeEvent {
+  return {
+    id: randomUUID(),
+    changedBy,
+    changedAt: new Date('2024-06-05T10:00:00Z'),
+    sourceTool: 'github',
+    sourceResourceId: randomUUID(),
+    sourceResourceType,
+    rawChangeData: {
+      repository: 'acme/shop',
+      files: paths.map(path => ({ path, additions: 1, deletions: 0, changes: 1 })),
+    },
+    classification: 'functional',
+    intent: 'feature-addition',
+    affectedRoles: ['engineering-frontend', 'engineering-backend'],
+    evidence: ['PR title suggests new feature'],
+    normalizedAt: new Date(),
+    detectionMethod: 'webhook',
+  };
+}
+
+describe('Ownership patterns', () => {
+  it('should follow CODEOWNERS matching rules', () => {
+    expect(matchesOwnershipPattern('*', 'src/index.ts')).toBe(true);
+    expect(matchesOwnershipPattern('/src/payments/', 'src/payments/stripe/charge.ts')).toBe(true);
+    expect(matchesOwnershipPattern('/src/payments/', 'lib/src/payments/charge.ts')).toBe(false);
+    expect(matchesOwnershipPattern('docs/', 'packages/web/docs/intro.md')).toBe(true);
+    expect(matchesOwnershipPattern('*.graphql', 'schema/orders.graphql')).toBe(true);
+    expect(matchesOwnershipPattern('src/*.ts', 'src/utils/logger.ts')).toBe(false);
+    expect(matchesOwnershipPattern('src/**/*.ts', 'src/utils/logger.ts')).toBe(true);
+    expect(matchesOwnershipPattern('/apps/web', 'apps/web/pages/cart.tsx')).toBe(true);
+  });
+});
+
+describe('Ownership Service', () => {
+  it('should merge CODEOWNERS and manual rules into roles, teams and components', async () => {
+    const service = createService();
+    const companyGroupId = randomUUID();
+
+    const entries = await service.importCodeOwners(companyGroupId, 'acme/shop', CODEOWNERS);
+    expect(entries[1].owners).toEqual([
+      { type: 'team', identifier: '@acme/payments', roles: undefined },
+      { type: 'user', identifier: '@alice', roles: undefined },
+    ]);
+
+    await service.setOwnerMapping(companyGroupId, '@acme/payments', { roles: ['engineering-backend'], teams: ['payments'] });
+    await service.setOwnerMapping(companyGroupId, '@acme/platform', { roles: ['engineering-infrastructure'], teams: [] });
+    await service.createRule({
+      companyGroupId,
+      pattern: 'src/payments/refunds/',
+      component: 'refunds',
+      roles: ['support-customer'],
+      teams: [],
+    });
+
+    const enriched = await service.applyOwnership(companyGroupId, codeChange('pull_request', [
+      'src/payments/refunds/policy.ts',
+      'src/payments/stripe.ts',
+    ]));
+
+    // The last matching CODEOWNERS line wins over "*"
+    expect(enriched.affectedRoles).toEqual(['support-customer', 'engineering-backend']);
+    expect(enriched.dependentTeams).toEqual(['payments', '@acme/payments']);
+    expect(enriched.impactedComponents).toEqual(['refunds', '/src/payments/']);
+    expect(enriched.evidence).toEqual([
+      'PR title suggests new feature',
+      'Ownership rule src/payments/refunds/ covers src/payments/refunds/policy.ts',
+      'CODEOWNERS /src/payments/ assigns src/payments/refunds/policy.ts, src/payments/stripe.ts to @acme/payments, @alice',
+    ]);
+  });
+
+  it('should fall back to frequent commit authors for unowned paths', async () => {
+    const service = createService();
+    const companyGroupId = randomUUID();
+    await service.setOwnerMapping(companyGroupId, 'carol', { roles: ['engineering-mobile'], teams: ['apps'] });
+
+    for (const author of ['carol', 'carol', 'carol', 'dave']) {
+      await service.applyOwnership(companyGroupId, codeChange('commit', ['ios/Cart.swift'], author));
+    }
+
+    const resolution = await service.resolve(companyGroupId, 'acme/shop', ['ios/Cart.swift', 'README.md']);
+    expect(resolution.matches).toEqual([{
+      path: 'ios/Cart.swift',
+      source: 'authorship',
+      owners: ['carol'],
+      roles: ['engineering-mobile'],
+      teams: ['apps'],
+    }]);
+    expect(resolution.unownedPaths).toEqual(['README.md']);
+
+    // Nothing owned: the interpreter's roles stand
+    const unowned = await service.applyOwnership(companyGroupId, codeChange('pull_request', ['README.md']));
+    expect(unowned.affectedRoles).toEqual(['engineering-frontend', 'engineering-backend']);
+  });
+});
+
+describe('Ownership API', () => {
+  it('should edit rules and owner mappings and explain resolution', async () => {
+    const app = Fastify();
+    registerOwnershipRoutes(app, createService());
+    const companyGroupId = randomUUID();
+
+    const created = await app.inject({
+      method: 'POST',
+      url: '/api/ownership/rules',
+      payload: { companyGroupId, pattern: '/apps/web/', roles: ['engineering-frontend'], teams: ['web'] },
+    });
+    expect(created.statusCode).toBe(201);
+    const ruleId = created.json().rule.id;
+
+    const updated = await app.inject({
+      method: 'PATCH',
+      url: `/api/ownership/rules/${ruleId}`,
+      payload: { component: 'storefront' },
+    });
+    expect(updated.json().rule).toMatchObject({ pattern: '/apps/web/', component: 'storefront' });
+
+    await app.inject({
+      method: 'PUT',
+      url: '/api/ownership/owners',
+      payload: { companyGroupId, owner: '@acme/design-systems', roles: ['design-ui'] },
+    });
+    await app.inject({
+      method: 'PUT',
+      url: '/api/ownership/codeowners',
+      payload: { companyGroupId, repository: 'acme/shop', content: '/packages/ui/ @acme/design-systems' },
+    });
+
+    const resolved = await app.inject({
+      method: 'GET',
+      url: `/api/ownership/resolve?companyGroupId=${companyGroupId}&repository=acme/shop&path=apps/web/cart.tsx&path=packages/ui/Button.tsx`,
+    });
+    expect(resolved.json()).toMatchObject({
+      roles: ['engineering-frontend', 'design-ui'],
+      teams: ['web', '@acme/design-systems'],
+      components: ['storefront', '/packages/ui/'],
+      unownedPaths: [],
+    });
+
+    const listing = await app.inject({ method: 'GET', url: `/api/ownership?companyGroupId=${companyGroupId}` });
+    expect(listing.json().owners.map((owner: { owner: string }) => owner.owner)).toEqual(['@acme/design-systems']);
+
+    expect((await app.inject({ method: 'DELETE', url: `/api/ownership/rules/${ruleId}` })).statusCode).toBe(204);
+    expect((await app.inject({ method: 'PATCH', url: `/api/ownership/rules/${ruleId}`, payload: {} })).statusCode).toBe(404);
+    expect((await app.inject({
+      method: 'POST',
+      url: '/api/ownership/rules',
+      payload: { companyGroupId, pattern: '*.md', roles: [], teams: [] },
+    })).statusCode).toBe(400);
+  });
+});
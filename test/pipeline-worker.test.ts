@@ -0,0 +1,214 @@
+/**
+ * Test the pipeline job queue
+ * Verifies queued interpretation and routing, retries with backoff,
+ * dead-lettering, replay and recovery of jobs abandoned by a crashed worker
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { createHmac, randomUUID } from 'crypto';
+import Fastify from 'fastify';
+import { openSyncDatabase } from '../src/db/database';
+import { SqliteChangeEventRepository } from '../src/db/change-event-repository';
+import { SqliteNotificationRepository } from '../src/db/notification-repository';
+import { SqlitePipelineJobRepository } from '../src/db/pipeline-job-repository';
+import { SqliteInstallationRepository } from '../src/db/installation-repository';
+import { registerPipelineRoutes } from '../src/api/pipeline';
+import { JiraIntegrationImpl } from '../src/integrations/jira';
+import { InstallationServiceImpl, createInstallationWebhookVerifiers } from '../src/services/installations';
+import { ChangeDetectionServiceImpl, RawChangeData } from '../src/services/change-detection';
+import { ChangeNormalizationServiceImpl, Normalizers } from '../src/services/change-normalization';
+import { AIInterpretationServiceImpl, JsonGenerator } from '../src/services/ai-interpretation';
+import { RoleBasedRoutingServiceImpl } from '../src/services/role-based-routing';
+import { NotificationServiceImpl } from '../src/services/notification';
+import { OrchestrationServiceImpl } from '../src/services/orchestration';
+import { PipelineWorkerImpl } from '../src/services/pipeline-worker';
+import { Channel, Role } from '../src/types/core';
+
+const SECOND = 1000;
+
+async function jiraChanges(): Promise<RawChangeData[]> {
+  const payload = JSON.parse(readFileSync(new URL('./fixtures/jira/issue_updated.json', import.meta.url), 'utf8'));
+  return new JiraIntegrationImpl().extractRawChanges(payload);
+}
+
+function setup(options: { routingFails?: () => boolean; generateJson?: JsonGenerator } = {}) {
+  const db = openSyncDatabase(':memory:');
+  const changeEvents = new SqliteChangeEventRepository(db);
+  const jobs = new SqlitePipelineJobRepository(db);
+  const companyGroupId = randomUUID();
+  const channel: Channel = {
+    id: randomUUID(),
+    companyGroupId,
+    type: 'role',
+    name: 'engineering-frontend',
+    role: 'engineering-frontend',
+    createdAt: new Date(),
+  };
+
+  const notifications = new NotificationServiceImpl(new SqliteNotificationRepository(db));
+  const orchestration = new OrchestrationServiceImpl(
+    new ChangeDetectionServiceImpl(new Map(), new Map()),
+    new ChangeNormalizationServiceImpl(new Map([
+      ['jira', raw => Normalizers.normalizeIssueChange(raw, 'cursor-polling')],
+    ])),
+    new AIInterpretationServiceImpl(options.generateJson),
+    new RoleBasedRoutingServiceImpl(async () => {
+      if (options.routingFails?.()) {
+        throw new Error('model overloaded');
+      }
+      return {
+        affectedRoles: ['engineering-frontend'] as Role[],
+        summary: 'PAY-142 moved to In Review',
+        impact: 'Ready for frontend review',
+        relevance: { 'engineering-frontend': 'Frontend owns this ticket' } as Record<Role, string>,
+      };
+    }),
+    notifications,
+    async () => [channel],
+    { changeEvents, jobs }
+  );
+  const worker = new PipelineWorkerImpl(jobs, changeEvents, orchestration, {
+    maxAttempts: 3,
+    backoffBaseMs: SECOND,
+    lockTimeoutMs: 60 * SECOND,
+  });
+
+  return { companyGroupId, changeEvents, jobs, notifications, orchestration, worker };
+}
+
+describe('Pipeline Worker', () => {
+  it('should queue interpretation and routing instead of running them inline', async () => {
+    const { companyGroupId, jobs, orchestration, worker } = setup();
+
+    const processed: string[] = [];
+    let persisted = 0;
+    const changes = (await jiraChanges()).map(change => ({ ...change, onPersisted: () => persisted++ }));
+    const inline = await orchestration.processPolledChanges(companyGroupId, changes, {
+      onChangeEvent: changeEvent => processed.push(changeEvent.id),
+    });
+    expect(inline).toEqual([]);
+    expect(persisted).toBe(1);
+    expect(jobs.listJobs().map(job => [job.changeEventId, job.stage])).toEqual([[processed[0], 'interpret']]);
+
+    expect(await worker.runOnce()).toMatchObject({ jobsRun: 1, succeeded: 1, notificationsCreated: 0 });
+    expect(jobs.listJobs().map(job => job.stage)).toEqual(['route']);
+
+    expect(await worker.runOnce()).toMatchObject({ jobsRun: 1, succeeded: 1, notificationsCreated: 1 });
+    expect(jobs.listJobs()).toEqual([]);
+  });
+
+  it('should retry failed stages with backoff, then dead-letter them until retried', async () => {
+    let failing = true;
+    const { companyGroupId, changeEvents, jobs, orchestration, worker } = setup({ routingFails: () => failing });
+    await orchestration.processPolledChanges(companyGroupId, await jiraChanges());
+    await worker.runOnce();
+    const now = Date.now();
+
+    // 1s, then 2s between attempts
+    expect(await worker.runOnce(new Date(now))).toMatchObject({ retried: 1 });
+    expect(await worker.runOnce(new Date(now + 0.5 * SECOND))).toMatchObject({ jobsRun: 0 });
+    expect(await worker.runOnce(new Date(now + SECOND))).toMatchObject({ retried: 1 });
+    expect(await worker.runOnce(new Date(now + 2.5 * SECOND))).toMatchObject({ jobsRun: 0 });
+    expect(await worker.runOnce(new Date(now + 3 * SECOND))).toMatchObject({ deadLettered: 1 });
+    expect(jobs.listJobs()).toEqual([]);
+
+    const [deadLetter] = await worker.listDeadLetters();
+    expect(deadLetter).toMatchObject({ stage: 'route', attempts: 3, lastError: 'model overloaded' });
+    expect(changeEvents.getTimeline(deadLetter.changeEventId).map(entry => entry.kind)).toContain('pipeline_dead_lettered');
+
+    const app = Fastify();
+    registerPipelineRoutes(app, worker);
+    failing = false;
+    const retried = await app.inject({ method: 'POST', url: `/api/pipeline/dead-letters/${deadLetter.id}/retry` });
+    expect(retried.statusCode).toBe(202);
+    expect(retried.json().job).toMatchObject({ stage: 'route', attempts: 0 });
+    expect((await app.inject({ method: 'POST', url: `/api/pipeline/dead-letters/${deadLetter.id}/retry` })).statusCode).toBe(409);
+
+    expect(await worker.runOnce()).toMatchObject({ succeeded: 1, notificationsCreated: 1 });
+    expect((await app.inject({ method: 'GET', url: '/api/pipeline/dead-letters' })).json().deadLetters).toEqual([]);
+  });
+
+  it('should take over jobs abandoned by a crashed worker and replay change events', async () => {
+    const { companyGroupId, jobs, notifications, orchestration, worker } = setup();
+    await orchestration.processPolledChanges(companyGroupId, await jiraChanges());
+
+    // A worker claimed the job and died
+    const now = Date.now();
+    const [abandoned] = jobs.claimDueJobs(new Date(now), 10, new Date(0));
+    expect(await worker.runOnce(new Date(now + SECOND))).toMatchObject({ jobsRun: 0 });
+    expect(await worker.runOnce(new Date(now + 60 * SECOND))).toMatchObject({ jobsRun: 1, succeeded: 1 });
+    expect(jobs.getJob(abandoned.id)).toBeNull();
+    await worker.runOnce();
+
+    const app = Fastify();
+    registerPipelineRoutes(app, worker);
+    const replayed = await app.inject({
+      method: 'POST',
+      url: `/api/change-events/${abandoned.changeEventId}/replay`,
+      payload: { stage: 'route' },
+    });
+    expect(replayed.statusCode).toBe(202);
+
+    // The channel was notified the first time round and is not notified again
+    expect(await worker.runOnce()).toMatchObject({ succeeded: 1, notificationsCreated: 0 });
+    expect(await notifications.getPendingNotifications()).toHaveLength(1);
+
+    const missing = await app.inject({ method: 'POST', url: `/api/change-events/${randomUUID()}/replay`, payload: {} });
+    expect(missing.statusCode).toBe(404);
+  });
+
+  it('should fail a webhook whose change could not be stored so the tool redelivers it', async () => {
+    const db = openSyncDatabase(':memory:');
+    const changeEvents = new SqliteChangeEventRepository(db);
+    const jobs = new SqlitePipelineJobRepository(db);
+    const installations = new InstallationServiceImpl(new SqliteInstallationRepository(db));
+    const jira = await installations.createInstallation({
+      companyGroupId: randomUUID(),
+      sourceTool: 'jira',
+      accountType: 'site',
+      externalAccountId: 'acme.atlassian.net',
+    });
+    const orchestration = new OrchestrationServiceImpl(
+      new ChangeDetectionServiceImpl(createInstallationWebhookVerifiers(installations), new Map()),
+      new ChangeNormalizationServiceImpl(new Map([
+        ['jira', async () => {
+          throw new Error('changelog item without a field');
+        }],
+      ])),
+      new AIInterpretationServiceImpl(),
+      new RoleBasedRoutingServiceImpl(async () => {
+        throw new Error('not routed');
+      }),
+      new NotificationServiceImpl(new SqliteNotificationRepository(db)),
+      async () => [],
+      { changeEvents, jobs, installations }
+    );
+
+    const body = readFileSync(new URL('./fixtures/jira/issue_updated.json', import.meta.url), 'utf8');
+    const signature = `sha256=${createHmac('sha256', jira.webhookSecret).update(body).digest('hex')}`;
+    await expect(orchestration.processWebhook('jira', body, signature)).rejects.toThrow('changelog item without a field');
+    expect(changeEvents.listChangeEvents()).toEqual([]);
+    expect(jobs.listJobs()).toEqual([]);
+  });
+
+  it('should ask the model again when a change event is replayed through interpretation', async () => {
+    const prompts: string[] = [];
+    const { companyGroupId, changeEvents, jobs, orchestration, worker } = setup({
+      generateJson: async prompt => {
+        prompts.push(prompt);
+        return { success: false, data: null, error: 'model overloaded' };
+      },
+    });
+    await orchestration.processPolledChanges(companyGroupId, await jiraChanges());
+    const [job] = jobs.listJobs();
+    await worker.runOnce();
+    await worker.runOnce();
+    expect(prompts).toHaveLength(1);
+
+    await worker.replayChangeEvent(job.changeEventId);
+    expect(await worker.runOnce()).toMatchObject({ succeeded: 1 });
+    expect(prompts).toHaveLength(2);
+    expect(changeEvents.getTimeline(job.changeEventId).filter(entry => entry.kind === 'interpreted')).toHaveLength(2);
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * Test cursor polling scheduler
+ * Verifies paging, cursor advances, retries of failed pages, backoff and pause/resume
+ */
+
+import { describe, it, expect } from 'vitest';
+import { randomUUID } from 'crypto';
+import { openSyncDatabase } from '../src/db/database';
+import { SqliteCursorRepository } from '../src/db/cursor-repository';
+import { ChangeDetectionServiceImpl, RawChangeData } from '../src/services/change-detection';
+import { OrchestrationService } from '../src/services/orchestration';
+import { PollingSchedulerImpl, computeBackoffMs } from '../src/services/polling-scheduler';
+import { Cursor, CursorPollResult } from '../src/types/cursors';
+
+function rawChange(id: string): RawChangeData {
+  return {
+    tool: 'github',
+    resourceId: id,
+    resourceType: 'commit',
+    rawData: {},
+    timestamp: new Date(),
+  };
+}
+
+function fakeOrchestration(processed: string[], failing: Set<string> = new Set()): OrchestrationService {
+  return {
+    processWebhook: async () => [],
+    getChannelsForGroup: async () => [],
+    routeReviewedChange: async () => [],
+    runPipelineJob: async () => ({ notifications: [], next: [] }),
+    processPolledChanges: async (_groupId, rawChanges, options) => {
+      for (const change of rawChanges) {
+        if (failing.has(change.resourceId)) {
+          if (options?.stopOnFailure) {
+            throw new Error(`Could not process ${change.resourceId}`);
+          }
+          continue;
+        }
+        processed.push(change.resourceId);
+        options?.onChangeEvent?.({
+          id: randomUUID(),
+          changedBy: 'alice',
+          changedAt: new Date(),
+          sourceTool: 'github',
+          sourceResourceId: change.resourceId,
+          sourceResourceType: 'commit',
+          normalizedAt: new Date(),
+          detectionMethod: 'cursor-polling',
+        });
+      }
+      return [];
+    },
+  };
+}
+
+describe('Polling Scheduler', () => {
+  it('should follow hasMore pages and advance the cursor', async () => {
+    const repo = new SqliteCursorRepository(openSyncDatabase(':memory:'));
+    const cursor = repo.createCursor({
+      companyGroupId: randomUUID(),
+      sourceTool: 'github',
+      position: '0',
+      positionType: 'sequence',
+    });
+
+    const pages: Record<string, RawChangeData[]> = {
+      '0': [rawChange('c1'), rawChange('c2')],
+      '2': [rawChange('c3')],
+    };
+    const poller = async (c: Cursor): Promise<CursorPollResult<RawChangeData>> => {
+      const changes = pages[c.position] ?? [];
+      const next = String(Number(c.position) + changes.length);
+      return { cursor: c, changes, nextPosition: changes.length ? next : undefined, hasMore: c.position === '0' };
+    };
+
+    const detection = new ChangeDetectionServiceImpl(new Map(), new Map([['github', poller]]), repo);
+    const processed: string[] = [];
+    const scheduler = new PollingSchedulerImpl(repo, detection, fakeOrchestration(processed), { intervalMs: 0 });
+
+    const summary = await scheduler.runOnce(new Date(Date.now() + 1000));
+
+    expect(processed).toEqual(['c1', 'c2', 'c3']);
+    expect(summary.pagesFetched).toBe(2);
+    expect(repo.getCursor(cursor.id)?.position).toBe('3');
+  });
+
+  it('should retry a page with a failed change and move past empty pages', async () => {
+    const repo = new SqliteCursorRepository(openSyncDatabase(':memory:'));
+    const cursor = repo.createCursor({
+      companyGroupId: randomUUID(),
+      sourceTool: 'github',
+      position: '0',
+      positionType: 'sequence',
+    });
+
+    // An empty page that still points further, then a page with a change that fails once
+    const pages: Record<string, { changes: RawChangeData[]; next: string }> = {
+      '0': { changes: [], next: '5' },
+      '5': { changes: [rawChange('c1'), rawChange('c2')], next: '7' },
+    };
+    const poller = async (c: Cursor): Promise<CursorPollResult<RawChangeData>> => {
+      const page = pages[c.position];
+      return page
+        ? { cursor: c, changes: page.changes, nextPosition: page.next, hasMore: true }
+        : { cursor: c, changes: [], hasMore: false };
+    };
+
+    const detection = new ChangeDetectionServiceImpl(new Map(), new Map([['github', poller]]), repo);
+    const processed: string[] = [];
+    const failing = new Set(['c2']);
+    const scheduler = new PollingSchedulerImpl(repo, detection, fakeOrchestration(processed, failing), { intervalMs: 0 });
+
+    const failed = await scheduler.runOnce(new Date(Date.now() + 1000));
+    expect(failed).toMatchObject({ pagesFetched: 2, errors: 1 });
+    expect(repo.getCursor(cursor.id)?.position).toBe('5');
+
+    failing.clear();
+    await scheduler.runOnce(new Date(Date.now() + 2000));
+    expect(processed).toEqual(['c1', 'c1', 'c2']);
+    expect(repo.getCursor(cursor.id)?.position).toBe('7');
+  });
+
+  it('should back off cursors with consecutive errors', async () => {
+    const repo = new SqliteCursorRepository(openSyncDatabase(':memory:'));
+    repo.createCursor({
+      companyGroupId: randomUUID(),
+      sourceTool: 'github',
+      position: '0',
+      positionType: 'sequence',
+    });
+
+    let calls = 0;
+    const detection = new ChangeDetectionServiceImpl(
+      new Map(),
+      new Map([['github', async () => { calls++; throw new Error('boom'); }]]),
+      repo
+    );
+    const scheduler = new PollingSchedulerImpl(repo, detection, fakeOrchestration([]), {
+      intervalMs: 0,
+      backoffBaseMs: 60_000,
+    });
+
+    await scheduler.runOnce(new Date(Date.now() + 1000));
+    await scheduler.runOnce(new Date(Date.now() + 2000));
+
+    expect(calls).toBe(1);
+    expect(computeBackoffMs(3, { backoffBaseMs: 1000, backoffMaxMs: 3000 })).toBe(3000);
+  });
+
+  it('should skip paused cursors until resumed', async () => {
+    const repo = new SqliteCursorRepository(openSyncDatabase(':memory:'));
+    const cursor = repo.createCursor({
+      companyGroupId: randomUUID(),
+      sourceTool: 'github',
+      position: '0',
+      positionType: 'sequence',
+    });
+
+    let calls = 0;
+    const detection = new ChangeDetectionServiceImpl(
+      new Map(),
+      new Map([['github', async (c: Cursor) => { calls++; return { cursor: c, changes: [], hasMore: false }; }]]),
+      repo
+    );
+    const scheduler = new PollingSchedulerImpl(repo, detection, fakeOrchestration([]), { intervalMs: 0 });
+
+    await scheduler.pauseCursor(cursor.id);
+    await scheduler.runOnce(new Date(Date.now() + 1000));
+    expect(calls).toBe(0);
+
+    await scheduler.resumeCursor(cursor.id);
+    await scheduler.runOnce(new Date(Date.now() + 1000));
+    expect(calls).toBe(1);
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Test code change proposals
+ * Verifies generation from interpreted changes, approval, GitHub application and retries
+ */
+
+import { describe, it, expect } from 'vitest';
+import { randomUUID } from 'crypto';
+import Fastify from 'fastify';
+import { openSyncDatabase } from '../src/db/database';
+import { SqliteProposalRepository } from '../src/db/proposal-repository';
+import { SqliteChangeEventRepository } from '../src/db/change-event-repository';
+import { CodeChangeProposalServiceImpl, ProposalApplier } from '../src/services/proposals';
+import { AIInterpretationServiceImpl } from '../src/services/ai-interpretation';
+import { GitHubProposalApplier, parseReviewers } from '../src/integrations/github-proposals';
+import { registerProposalRoutes } from '../src/api/proposals';
+import { HttpClient } from '../src/integrations/http-client';
+import { ChangeEvent } from '../src/types/core';
+
+function pullRequestEvent(): ChangeEvent {
+  return {
+    id: randomUUID(),
+    changedBy: 'alice',
+    changedAt: new Date('2024-06-05T10:00:00Z'),
+    sourceTool: 'github',
+    sourceResourceId: 'PR_kwDOA3',
+    sourceResourceUrl: 'https://github.com/acme/shop/pull/42',
+    sourceResourceType: 'pull_request',
+    rawChangeData: {
+      number: 42,
+      title: 'Store order currency',
+      repository: 'acme/shop',
+      files: [
+        { path: 'db/migrations/0042_currency.sql', additions: 1, deletions: 0, changes: 1, patch: '+ALTER TABLE orders ADD COLUMN currency TEXT;' },
+        { path: 'src/config.ts', additions: 1, deletions: 0, changes: 1, patch: '+  fxApiKey: process.env.FX_API_KEY,' },
+        { path: 'src/orders.ts', additions: 1, deletions: 1, changes: 2, patch: '-export function totalOf(order: Order): number {\n+export function totalOf(order: Order): Money {' },
+      ],
+    },
+    classification: 'functional',
+    intent: 'feature-addition',
+    confidence: 'medium',
+    affectedRoles: ['engineering-backend'],
+    dependentTeams: ['@acme/payments', 'payments'],
+    relatedResources: [{ tool: 'notion', resourceId: 'a1b2c3d4e5f60718293a4b5c6d7e8f90' }],
+    evidence: ['PR title suggests new feature'],
+    normalizedAt: new Date(),
+    detectionMethod: 'webhook',
+  };
+}
+
+function recordingClient(requests: Array<{ method: string; url: string; body?: unknown }>): HttpClient {
+  return {
+    request: async <T>(method: string, url: string, options?: { body?: unknown }) => {
+      requests.push({ method, url, body: options?.body });
+      return { status: 201, headers: {}, data: { html_url: `https://github.com/acme/shop/x/${requests.length}` } as T };
+    },
+  };
+}
+
+async function setup(appliers: Map<string, ProposalApplier>) {
+  const db = openSyncDatabase(':memory:');
+  const changeEvents = new SqliteChangeEventRepository(db);
+  const service = new CodeChangeProposalServiceImpl(new SqliteProposalRepository(db), appliers, changeEvents);
+  const changeEvent = pullRequestEvent();
+  changeEvents.saveChangeEvent(randomUUID(), changeEvent);
+
+  const interpretation = await new AIInterpretationServiceImpl().interpretCodeChange(changeEvent);
+  const proposals = await service.generateProposals(changeEvent, interpretation);
+  return { service, changeEvents, changeEvent, proposals };
+}
+
+describe('Code Change Proposal Service', () => {
+  it('should draft proposals from an interpreted pull request', async () => {
+    const { proposals, changeEvents, changeEvent } = await setup(new Map());
+
+    expect(proposals.map(proposal => proposal.type)).toEqual([
+      'pr-summary',
+      'review-routing',
+      'documentation-suggestion',
+      'spec-alignment-check',
+      'migration-checklist',
+    ]);
+    expect(proposals.every(proposal => proposal.status === 'pending')).toBe(true);
+
+    const [summary, routing, , , checklist] = proposals;
+    expect(summary.targetResource).toEqual({
+      tool: 'github',
+      resourceId: 'acme/shop#42',
+      resourceUrl: 'https://github.com/acme/shop/pull/42',
+    });
+    expect(summary.content).toContain('**Rollout risk:** high (includes a migration)');
+    expect(summary.content).toContain('- Changed signature of totalOf (src/orders.ts)');
+    expect(routing.content).toContain('- @acme/payments');
+    expect(checklist.targetResource).toEqual({ tool: 'github', resourceId: 'acme/shop' });
+    expect(checklist.title).toBe('Migration checklist: Store order currency');
+    expect(checklist.content.split('\n').filter(line => line.startsWith('- [ ]'))).toEqual([
+      '- [ ] Run db/migrations/0042_currency.sql on staging and check it completes without locking `orders`',
+      '- [ ] Set `FX_API_KEY` in every environment before deploying',
+      '- [ ] Coordinate consumers of: Changed signature of totalOf (src/orders.ts)',
+      '- [ ] Plan and test the rollback',
+    ]);
+
+    expect(changeEvents.getTimeline(changeEvent.id).filter(entry => entry.kind === 'proposal_created')).toHaveLength(5);
+  });
+
+  it('should apply approved proposals to GitHub', async () => {
+    const requests: Array<{ method: string; url: string; body?: unknown }> = [];
+    const github = new GitHubProposalApplier({ token: 'ghp_test' }, recordingClient(requests));
+    const { service, proposals, changeEvents, changeEvent } = await setup(new Map([['github', github]]));
+    const approver = randomUUID();
+    const [summary, routing, , , checklist] = proposals;
+
+    const applied = await service.approveProposal(summary.id, approver);
+    await service.approveProposal(routing.id, approver);
+    await service.approveProposal(checklist.id, approver);
+
+    expect(applied).toMatchObject({ status: 'applied', approvedBy: approver, appliedResourceUrl: 'https://github.com/acme/shop/x/1' });
+    expect(requests.map(request => `${request.method} ${request.url}`)).toEqual([
+      'POST https://api.github.com/repos/acme/shop/issues/42/comments',
+      'POST https://api.github.com/repos/acme/shop/pulls/42/requested_reviewers',
+      'POST https://api.github.com/repos/acme/shop/issues',
+    ]);
+    expect((requests[0].body as { body: string }).body).toMatch(/^### Change summary\n\n\*\*Classification:\*\* breaking/);
+    expect(requests[1].body).toEqual({ reviewers: [], team_reviewers: ['payments'] });
+    expect(requests[2].body).toMatchObject({ title: 'Migration checklist: Store order currency' });
+
+    await expect(service.approveProposal(summary.id, approver)).rejects.toThrow('is applied, not pending');
+    expect(changeEvents.getTimeline(changeEvent.id).map(entry => entry.kind)).toContain('proposal_applied');
+  });
+
+  it('should keep proposals approved when applying fails and retry later', async () => {
+    let down = true;
+    const flaky: ProposalApplier = {
+      apply: async () => {
+        if (down) throw new Error('HTTP POST failed (502): bad gateway');
+        return { resourceUrl: 'https://github.com/acme/shop/pull/42#issuecomment-1' };
+      },
+    };
+    const { service, proposals } = await setup(new Map([['github', flaky]]));
+    const app = Fastify();
+    registerProposalRoutes(app, service);
+    const [summary, routing] = proposals;
+
+    const approved = await app.inject({
+      method: 'POST',
+      url: `/api/proposals/${summary.id}/approve`,
+      payload: { approvedBy: randomUUID() },
+    });
+    expect(approved.json().proposal).toMatchObject({ status: 'approved', lastApplyError: 'HTTP POST failed (502): bad gateway' });
+
+    down = false;
+    const retried = await app.inject({ method: 'POST', url: `/api/proposals/${summary.id}/apply` });
+    expect(retried.json().proposal).toMatchObject({ status: 'applied', appliedResourceUrl: 'https://github.com/acme/shop/pull/42#issuecomment-1' });
+    expect(retried.json().proposal.lastApplyError).toBeUndefined();
+
+    const rejected = await app.inject({
+      method: 'POST',
+      url: `/api/proposals/${routing.id}/reject`,
+      payload: { rejectedBy: randomUUID(), reason: 'Payments is on holiday' },
+    });
+    expect(rejected.json().proposal).toMatchObject({ status: 'rejected', rejectionReason: 'Payments is on holiday' });
+    expect((await app.inject({ method: 'POST', url: `/api/proposals/${routing.id}/apply` })).statusCode).toBe(409);
+
+    const pending = await app.inject({ method: 'GET', url: '/api/proposals?status=pending' });
+    expect(pending.json().proposals.map((proposal: { type: string }) => proposal.type)).toEqual([
+      'documentation-suggestion',
+      'spec-alignment-check',
+      'migration-checklist',
+    ]);
+    expect((await app.inject({ method: 'GET', url: `/api/proposals/${randomUUID()}` })).statusCode).toBe(404);
+  });
+
+  it('should read reviewers from approved content', () => {
+    expect(parseReviewers('Request reviews:\n\n- @alice\n- @acme/payments\n- not a reviewer')).toEqual({
+      reviewers: ['alice'],
+      team_reviewers: ['payments'],
+    });
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Test release notes
+ * Verifies merged PR selection by tag and date range, grouping, and per-audience rendering
+ */
+
+import { describe, it, expect } from 'vitest';
+import { randomUUID } from 'crypto';
+import Fastify from 'fastify';
+import { openSyncDatabase } from '../src/db/database';
+import { SqliteChangeEventRepository } from '../src/db/change-event-repository';
+import { ReleaseNotesServiceImpl } from '../src/services/release-notes';
+import { registerReleaseNotesRoutes } from '../src/api/release-notes';
+import { createGitHubTagDateLookup, GitHubIntegrationImpl } from '../src/integrations/github';
+import { HttpClient } from '../src/integrations/http-client';
+import { ChangeEvent } from '../src/types/core';
+
+const companyGroupId = randomUUID();
+
+function mergedPullRequest(
+  number: number,
+  title: string,
+  changedAt: string,
+  overrides: Partial<ChangeEvent> = {},
+  raw: Record<string, unknown> = {}
+): ChangeEvent {
+  return {
+    id: randomUUID(),
+    changedBy: 'alice',
+    changedAt: new Date(changedAt),
+    sourceTool: 'github',
+    sourceResourceId: `PR_${number}`,
+    sourceResourceUrl: `https://github.com/acme/shop/pull/${number}`,
+    sourceResourceType: 'pull_request',
+    rawChangeData: { number, title, repository: 'acme/shop', state: 'merged', files: [], labels: [], ...raw },
+    classification: 'functional',
+    intent: 'feature-addition',
+    confidence: 'high',
+    affectedRoles: ['engineering-backend'],
+    normalizedAt: new Date(),
+    detectionMethod: 'webhook',
+    ...overrides,
+  };
+}
+
+function setup() {
+  const db = openSyncDatabase(':memory:');
+  const changeEvents = new SqliteChangeEventRepository(db);
+  const events = [
+    mergedPullRequest(41, 'feat(checkout): add Apple Pay (#41)', '2024-06-03T09:00:00Z', {}, {
+      body: 'Wires the PSP.\n\n## Release notes\n\nPay with Apple Pay at checkout',
+    }),
+    mergedPullRequest(42, 'fix(orders): correct totals for discounted items (PAY-123)', '2024-06-04T09:00:00Z', { intent: 'bug-fix' }),
+    mergedPullRequest(43, 'Return Money from `totalOf`', '2024-06-05T09:00:00Z', { classification: 'breaking', intent: 'refactor' }, {
+      files: [{ path: 'src/orders.ts', additions: 1, deletions: 1, changes: 2, patch: '-export function totalOf(order: Order): number {\n+export function totalOf(order: Order): Money {' }],
+    }),
+    mergedPullRequest(44, 'chore: tidy logging', '2024-06-06T09:00:00Z', { classification: 'cosmetic', intent: 'refactor' }),
+    // Still open, another repository, and after the range
+    mergedPullRequest(45, 'Add gift cards', '2024-06-06T10:00:00Z', {}, { state: 'opened' }),
+    mergedPullRequest(46, 'Add CLI', '2024-06-06T11:00:00Z', {}, { repository: 'acme/cli' }),
+    mergedPullRequest(47, 'Add wishlists', '2024-06-20T09:00:00Z'),
+  ];
+  for (const changeEvent of events) {
+    changeEvents.saveChangeEvent(companyGroupId, changeEvent);
+  }
+  return { changeEvents };
+}
+
+describe('Release Notes Service', () => {
+  it('should group merged pull requests in a date range', async () => {
+    const { changeEvents } = setup();
+    const service = new ReleaseNotesServiceImpl(changeEvents);
+
+    const notes = await service.compileReleaseNotes({
+      companyGroupId,
+      repository: 'acme/shop',
+      range: { since: new Date('2024-06-01T00:00:00Z'), until: new Date('2024-06-10T00:00:00Z') },
+      title: 'Sprint 23',
+    });
+
+    expect(notes.items.map(item => [item.number, item.category, item.customerFacing])).toEqual([
+      [41, 'feature', true],
+      [42, 'fix', true],
+      [43, 'breaking', false],
+      [44, 'other', false],
+    ]);
+
+    expect(notes.audiences.engineering.markdown).toBe([
+      '# Changelog: Sprint 23',
+      '',
+      '4 pull requests merged',
+      '',
+      '## Breaking changes',
+      '',
+      '- [Return Money from `totalOf`](https://github.com/acme/shop/pull/43) (#43, @alice)',
+      '  - Changed signature of totalOf (src/orders.ts)',
+      '',
+      '## Features',
+      '',
+      '- [feat(checkout): add Apple Pay (#41)](https://github.com/acme/shop/pull/41) (#41, @alice)',
+      '',
+      '## Fixes',
+      '',
+      '- [fix(orders): correct totals for discounted items (PAY-123)](https://github.com/acme/shop/pull/42) (#42, @alice)',
+      '',
+      '## Other changes',
+      '',
+      '- [chore: tidy logging](https://github.com/acme/shop/pull/44) (#44, @alice)',
+      '',
+    ].join('\n'));
+
+    expect(notes.audiences.customer.markdown).toBe([
+      "# What's new: Sprint 23",
+      '',
+      '## New',
+      '',
+      '- Pay with Apple Pay at checkout',
+      '',
+      '## Fixed',
+      '',
+      '- Correct totals for discounted items',
+      '',
+    ].join('\n'));
+    expect(notes.audiences.customer.html).not.toMatch(/github\.com|#4\d|PAY-123|totalOf/);
+
+    expect(notes.audiences.executive.markdown).toContain(
+      '4 changes shipped between 2024-06-01 and 2024-06-10: 1 feature, 1 fix and 1 breaking change.'
+    );
+    expect(notes.audiences.executive.markdown).toContain('## Highlights\n\n- Pay with Apple Pay at checkout');
+    expect(notes.audiences.executive.markdown).toContain('## Risks\n\n- Breaking: Return Money from');
+    expect(notes.audiences.executive.html).toContain('<h2>Highlights</h2>\n<ul>\n<li>Pay with Apple Pay at checkout</li>\n</ul>');
+  });
+
+  it('should resolve tag ranges through GitHub', async () => {
+    const { changeEvents } = setup();
+    const requests: string[] = [];
+    const tagDates: Record<string, string> = { 'v1.4.0': '2024-06-03T09:00:00Z', 'v1.5.0': '2024-06-05T09:00:00Z' };
+    const httpClient: HttpClient = {
+      request: async <T>(_method: string, url: string) => {
+        requests.push(url);
+        const tag = decodeURIComponent(url.split('/').pop()!);
+        return { status: 200, headers: {}, data: { commit: { committer: { date: tagDates[tag] } } } as T };
+      },
+    };
+    const lookup = createGitHubTagDateLookup(
+      { token: 'ghp_test', repositories: ['acme/shop'] },
+      new GitHubIntegrationImpl(httpClient)
+    );
+    const service = new ReleaseNotesServiceImpl(changeEvents, undefined, lookup);
+
+    const notes = await service.compileReleaseNotes({
+      companyGroupId,
+      repository: 'acme/shop',
+      range: { fromTag: 'v1.4.0', toTag: 'v1.5.0' },
+    });
+
+    expect(requests).toContain('https://api.github.com/repos/acme/shop/commits/v1.4.0');
+    // v1.4.0 itself shipped #41; #43 was merged at v1.5.0
+    expect(notes.items.map(item => item.number)).toEqual([42, 43]);
+    expect(notes.title).toBe('acme/shop v1.5.0');
+    expect(notes.audiences.customer.markdown).toContain("# What's new: acme/shop v1.5.0");
+
+    await expect(new ReleaseNotesServiceImpl(changeEvents).compileReleaseNotes({
+      companyGroupId,
+      repository: 'acme/shop',
+      range: { fromTag: 'v1.4.0', toTag: 'v1.5.0' },
+    })).rejects.toThrow('Tag ranges need a tag date lookup');
+  });
+
+  it('should serve one audience as Markdown or HTML', async () => {
+    const { changeEvents } = setup();
+    const app = Fastify();
+    registerReleaseNotesRoutes(app, new ReleaseNotesServiceImpl(changeEvents));
+    const base = `/api/release-notes?companyGroupId=${companyGroupId}&repository=acme/shop&since=2024-06-01&until=2024-06-10`;
+
+    const html = await app.inject({ method: 'GET', url: `${base}&audience=customer&format=html` });
+    expect(html.headers['content-type']).toBe('text/html; charset=utf-8');
+    expect(html.body).toContain("<h1>What's new: acme/shop 2024-06-01 to 2024-06-10</h1>");
+
+    const json = await app.inject({ method: 'GET', url: `${base}&audience=executive` });
+    expect(Object.keys(json.json().releaseNotes.audiences)).toEqual(['executive']);
+
+    const invalid = await app.inject({ method: 'GET', url: `${base}&fromTag=v1.4.0&toTag=v1.5.0` });
+    expect(invalid.statusCode).toBe(400);
+    expect((await app.inject({ method: 'GET', url: `${base}&format=html` })).statusCode).toBe(400);
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Test declarative routing policies
+ * Verifies per-group rules, the default rules and the guardrails no policy can remove
+ */
+
+import { describe, it, expect } from 'vitest';
+import { randomUUID } from 'crypto';
+import Fastify from 'fastify';
+import { openSyncDatabase } from '../src/db/database';
+import { SqliteRoutingPolicyRepository } from '../src/db/routing-policy-repository';
+import { RoutingPolicyServiceImpl } from '../src/services/routing-policy';
+import { RoleBasedRoutingServiceImpl } from '../src/services/role-based-routing';
+import { registerRoutingPolicyRoutes } from '../src/api/routing-policies';
+import { ChangeEvent, Channel, ConfidenceLevel, Role } from '../src/types/core';
+import { PolicyRule } from '../src/types/routing';
+
+function changeEvent(overrides: Partial<ChangeEvent> = {}): ChangeEvent {
+  return {
+    id: randomUUID(),
+    changedBy: 'alice',
+    changedAt: new Date(),
+    sourceTool: 'github',
+    sourceResourceId: 'PR_7',
+    sourceResourceType: 'pull_request',
+    rawChangeData: { repository: 'acme/shop', files: [{ path: 'src/billing/invoice.ts' }] },
+    classification: 'functional',
+    intent: 'refactor',
+    confidence: 'high',
+    normalizedAt: new Date(),
+    detectionMethod: 'webhook',
+    ...overrides,
+  };
+}
+
+function channels(companyGroupId: string): Channel[] {
+  const roleChannel = (role: Role): Channel => ({
+    id: randomUUID(),
+    companyGroupId,
+    type: 'role',
+    name: role,
+    role,
+    createdAt: new Date(),
+  });
+  return [
+    roleChannel('engineering-backend'),
+    roleChannel('sales'),
+    { id: randomUUID(), companyGroupId, type: 'everyone', name: 'everyone', createdAt: new Date() },
+  ];
+}
+
+const billingRules: PolicyRule[] = [
+  {
+    id: 'quiet-refactors',
+    description: 'Sales only hears about refactors when they ship features',
+    when: { intent: ['refactor', 'documentation'] },
+    then: { skipRoles: ['sales'] },
+  },
+  {
+    id: 'billing-company-wide',
+    when: { paths: ['src/billing/**'], affectedRoles: { minCount: 2 }, minConfidence: 'high' },
+    then: { everyone: 'notify' },
+  },
+];
+
+describe('Routing Policies', () => {
+  it('should route each company group by its own rules', async () => {
+    const policies = new RoutingPolicyServiceImpl(new SqliteRoutingPolicyRepository(openSyncDatabase(':memory:')));
+    const routing = new RoleBasedRoutingServiceImpl(async () => ({
+      affectedRoles: ['engineering-backend', 'sales'] as Role[],
+      summary: 'Invoice totals are computed in one place',
+      impact: 'No visible change',
+      relevance: {} as Record<Role, string>,
+    }), policies);
+
+    const billingGroup = randomUUID();
+    await policies.setPolicy(billingGroup, billingRules, 'ops@acme.test');
+    const billingChannels = channels(billingGroup);
+    const routed = await routing.routeChange(changeEvent(), billingChannels);
+    expect(routed.map(notification => notification.channelId)).toEqual([billingChannels[0].id, billingChannels[2].id]);
+
+    // The same change in a group on the defaults: two roles aren't cross-cutting enough
+    const otherChannels = channels(randomUUID());
+    const defaults = await routing.routeChange(changeEvent(), otherChannels);
+    expect(defaults.map(notification => notification.channelId)).toEqual([otherChannels[0].id, otherChannels[1].id]);
+    expect(defaults.every(notification => notification.status === 'pending')).toBe(true);
+  });
+
+  it('should keep the base guardrails under any policy', async () => {
+    const policies = new RoutingPolicyServiceImpl(new SqliteRoutingPolicyRepository(openSyncDatabase(':memory:')));
+    const companyGroupId = randomUUID();
+    await policies.setPolicy(companyGroupId, [
+      { id: 'everything-company-wide', when: {}, then: { everyone: 'notify' } },
+    ]);
+
+    const explain = (confidence: ConfidenceLevel) => policies.explain(companyGroupId, {
+      changeEvent: changeEvent({ confidence }),
+      affectedRoles: ['engineering-backend'],
+      summary: 'Retry failed invoice webhooks',
+      impact: 'Fewer missed invoices',
+    });
+
+    expect((await explain('very-high')).everyone).toEqual({
+      notify: true,
+      ruleId: 'everything-company-wide',
+      reason: 'Rule everything-company-wide decides the company-wide channel',
+    });
+    expect((await explain('medium')).everyone).toMatchObject({
+      notify: false,
+      ruleId: 'everything-company-wide',
+      guardrail: 'Low and medium confidence changes never go company-wide',
+    });
+
+    // No rule can reach a role the change doesn't affect
+    const routing = new RoleBasedRoutingServiceImpl(async () => ({
+      affectedRoles: ['engineering-backend'] as Role[],
+      summary: 'Retry failed invoice webhooks',
+      impact: 'Fewer missed invoices',
+      relevance: {} as Record<Role, string>,
+    }), policies);
+    const groupChannels = channels(companyGroupId);
+    const routed = await routing.routeChange(changeEvent({ confidence: 'medium' }), groupChannels);
+    expect(routed.map(notification => notification.channelId)).toEqual([groupChannels[0].id]);
+  });
+
+  it('should edit, explain and reset policies over the API', async () => {
+    const policies = new RoutingPolicyServiceImpl(new SqliteRoutingPolicyRepository(openSyncDatabase(':memory:')));
+    const app = Fastify();
+    registerRoutingPolicyRoutes(app, policies);
+    const companyGroupId = randomUUID();
+    const url = `/api/routing-policies/${companyGroupId}`;
+
+    const defaults = await app.inject({ method: 'GET', url });
+    expect(defaults.json().policy.version).toBe(0);
+    expect(defaults.json().policy.rules.map((rule: PolicyRule) => rule.id)).toEqual([
+      'breaking-cross-cutting',
+      'major-cross-cutting',
+    ]);
+
+    const invalid = await app.inject({
+      method: 'PUT',
+      url,
+      payload: { rules: [{ id: 'Loud', when: { confidence: 'high' }, then: {} }] },
+    });
+    expect(invalid.statusCode).toBe(400);
+    expect(invalid.json().details).toEqual([
+      'rules.0.id: Rule id must be lowercase alphanumeric with hyphens',
+      "rules.0.when: Unrecognized key(s) in object: 'confidence'",
+      'rules.0.then: A rule needs skipRoles or everyone',
+    ]);
+
+    const saved = await app.inject({ method: 'PUT', url, payload: { rules: billingRules, updatedBy: 'ops@acme.test' } });
+    expect(saved.json().policy).toMatchObject({ version: 1, updatedBy: 'ops@acme.test' });
+
+    const explained = await app.inject({
+      method: 'POST',
+      url: `${url}/explain`,
+      payload: { changeEvent: changeEvent({ affectedRoles: ['engineering-backend', 'sales'] }) },
+    });
+    expect(explained.json().explanation).toMatchObject({
+      policyVersion: 1,
+      matchedRuleIds: ['quiet-refactors', 'billing-company-wide'],
+      roles: [
+        { role: 'engineering-backend', notify: true },
+        { role: 'sales', notify: false, ruleId: 'quiet-refactors' },
+      ],
+      everyone: { notify: true, ruleId: 'billing-company-wide' },
+    });
+
+    // Draft rules are tried without being saved
+    const draft = await app.inject({
+      method: 'POST',
+      url: `${url}/explain`,
+      payload: {
+        changeEvent: changeEvent({ classification: 'breaking' }),
+        affectedRoles: ['engineering-backend', 'sales', 'product'],
+        rules: [],
+      },
+    });
+    expect(draft.json().explanation.everyone).toEqual({ notify: false, reason: 'No rule sends this change company-wide' });
+    expect((await policies.getPolicy(companyGroupId)).version).toBe(1);
+
+    const reset = await app.inject({ method: 'DELETE', url });
+    expect(reset.json().policy.version).toBe(0);
+    expect(reset.json().guardrails).toHaveLength(3);
+  });
+});
@@ -0,0 +1,264 @@
+/**
+ * Test the sync server
+ * Verifies raw-body webhook ingress, onboarding and channel management,
+ * polling cursors for installations, and that channels and the approval
+ * queue survive a restart
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createHmac, randomUUID } from 'crypto';
+import { buildSyncServer } from '../src/server';
+
+function githubPayload() {
+  const payload = JSON.parse(readFileSync(new URL('./fixtures/github/pull_request.merged.json', import.meta.url), 'utf8'));
+  payload.repository.full_name = 'acme/web-app';
+  payload.repository.owner.login = 'acme';
+  payload.organization.login = 'acme';
+  return payload;
+}
+
+function sign(body: string, secret: string): string {
+  return `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+}
+
+async function onboard(app: ReturnType<typeof buildSyncServer>['app']) {
+  const response = await app.inject({
+    method: 'POST',
+    url: '/api/onboarding/complete',
+    payload: { displayName: 'Ada', roles: ['engineering-frontend'], companyGroupName: 'Acme', isCreatingNewGroup: true },
+  });
+  expect(response.statusCode).toBe(201);
+  return response.json();
+}
+
+describe('Sync Server', () => {
+  it('should verify webhook signatures against the raw request body', async () => {
+    const { app } = buildSyncServer({ dbPath: ':memory:' });
+    const { companyGroup } = await onboard(app);
+    const installed = await app.inject({
+      method: 'POST',
+      url: '/api/installations',
+      payload: { companyGroupId: companyGroup.id, sourceTool: 'github', accountType: 'organization', externalAccountId: 'acme' },
+    });
+    const { webhookSecret } = installed.json();
+
+    // Pretty-printed JSON signs differently from its re-serialized form
+    const body = JSON.stringify(githubPayload(), null, 2);
+    const headers = { 'content-type': 'application/json', 'x-github-event': 'pull_request' };
+
+    const forged = await app.inject({
+      method: 'POST',
+      url: '/webhooks/github',
+      headers: { ...headers, 'x-hub-signature-256': sign(body, 'not-the-secret') },
+      payload: body,
+    });
+    expect(forged.statusCode).toBe(401);
+    expect((await app.inject({ method: 'POST', url: '/webhooks/myspace', headers, payload: body })).statusCode).toBe(404);
+
+    const accepted = await app.inject({
+      method: 'POST',
+      url: '/webhooks/github',
+      headers: { ...headers, 'x-hub-signature-256': sign(body, webhookSecret) },
+      payload: body,
+    });
+    expect(accepted.statusCode).toBe(202);
+
+    const events = await app.inject({ method: 'GET', url: `/api/change-events?companyGroupId=${companyGroup.id}` });
+    expect(events.json().changeEvents).toHaveLength(1);
+    await app.close();
+  });
+
+  it('should create a group with its everyone and role channels and manage role channels', async () => {
+    const { app } = buildSyncServer({ dbPath: ':memory:' });
+    const { companyGroup, channels } = await onboard(app);
+    expect(channels.map((channel: any) => channel.type)).toEqual(['everyone', 'role']);
+
+    const invalid = await app.inject({
+      method: 'POST',
+      url: '/api/onboarding/complete',
+      payload: { displayName: 'Grace', roles: [] },
+    });
+    expect(invalid.statusCode).toBe(400);
+
+    const roleChannel = { companyGroupId: companyGroup.id, type: 'role', name: 'design', role: 'design' };
+    const created = await app.inject({
+      method: 'POST',
+      url: '/api/channels',
+      payload: {
+        ...roleChannel,
+        delivery: [{ adapter: 'webhook', url: 'https://hooks.acme.dev/design', secret: 'design-hook-secret' }],
+      },
+    });
+    expect(created.statusCode).toBe(201);
+    expect(created.body).not.toContain('design-hook-secret');
+    const { channel } = created.json();
+
+    expect((await app.inject({ method: 'POST', url: '/api/channels', payload: roleChannel })).statusCode).toBe(409);
+    const roleless = await app.inject({ method: 'POST', url: '/api/channels', payload: { ...roleChannel, role: undefined } });
+    expect(roleless.statusCode).toBe(400);
+
+    const updated = await app.inject({
+      method: 'PATCH',
+      url: `/api/channels/${channel.id}`,
+      payload: { digest: 'daily', delivery: null },
+    });
+    expect(updated.json().channel).toMatchObject({ name: 'design', digest: 'daily' });
+    expect(updated.json().channel.delivery).toBeUndefined();
+
+    const listed = await app.inject({ method: 'GET', url: `/api/channels?companyGroupId=${companyGroup.id}` });
+    expect(listed.json().channels.map((entry: any) => entry.name)).toEqual(['everyone', 'engineering frontend', 'design']);
+
+    expect((await app.inject({ method: 'DELETE', url: `/api/channels/${channel.id}` })).statusCode).toBe(204);
+    expect((await app.inject({ method: 'GET', url: `/api/channels/${channel.id}` })).statusCode).toBe(404);
+    await app.close();
+  });
+
+  it('should poll installations through cursors', async () => {
+    const { app, scheduler } = buildSyncServer({ dbPath: ':memory:' });
+    const { companyGroup } = await onboard(app);
+    const installed = await app.inject({
+      method: 'POST',
+      url: '/api/installations',
+      payload: {
+        companyGroupId: companyGroup.id,
+        sourceTool: 'github',
+        accountType: 'organization',
+        externalAccountId: 'acme',
+        credentials: { token: 'ghp_test' },
+      },
+    });
+    const { installation } = installed.json();
+
+    const created = await app.inject({ method: 'POST', url: `/api/installations/${installation.id}/cursor`, payload: {} });
+    expect(created.statusCode).toBe(201);
+    const { cursor } = created.json();
+    expect(cursor).toMatchObject({ installationId: installation.id, sourceTool: 'github', positionType: 'timestamp' });
+    expect((await app.inject({ method: 'POST', url: `/api/installations/${installation.id}/cursor`, payload: {} })).statusCode).toBe(409);
+    expect((await app.inject({ method: 'POST', url: `/api/installations/${randomUUID()}/cursor`, payload: {} })).statusCode).toBe(404);
+    expect((await app.inject({ method: 'GET', url: '/api/cursors' })).statusCode).toBe(400);
+
+    // An organization installation lists the repositories it polls
+    const summary = await scheduler.runOnce(new Date(Date.now() + 60 * 60 * 1000));
+    expect(summary).toMatchObject({ cursorsPolled: 1, errors: 1 });
+    const listed = await app.inject({ method: 'GET', url: `/api/cursors?companyGroupId=${companyGroup.id}` });
+    expect(listed.json().cursors[0].lastError).toContain('lists no repositories');
+
+    const paused = await app.inject({ method: 'POST', url: `/api/cursors/${cursor.id}/pause` });
+    expect(paused.json().cursor.isActive).toBe(false);
+    const resumed = await app.inject({ method: 'POST', url: `/api/cursors/${cursor.id}/resume` });
+    expect(resumed.json().cursor).toMatchObject({ isActive: true, consecutiveErrors: 0 });
+    expect((await app.inject({ method: 'POST', url: `/api/cursors/${randomUUID()}/pause` })).statusCode).toBe(404);
+
+    await app.close();
+  });
+
+  it('should notify with the summary the model gave when the change was interpreted', async () => {
+    const prompts: string[] = [];
+    const { app, worker } = buildSyncServer({
+      dbPath: ':memory:',
+      generateJson: async prompt => {
+        prompts.push(prompt);
+        return {
+          success: true,
+          data: {
+            classification: 'functional',
+            intent: 'feature-addition',
+            confidence: 'high',
+            summary: 'Dashboard users can now save their searches',
+            impact: 'Saved searches appear on the dashboard for every user',
+            suggestedAction: 'Check the dashboard layout with saved searches',
+            impactedComponents: [],
+            affectedRoles: ['engineering-frontend'],
+            evidence: [{ type: 'commit-message', value: 'add saved searches to the dashboard', relevance: 'PR title' }],
+          },
+        };
+      },
+    });
+    const { companyGroup, channels } = await onboard(app);
+    const channel = channels.find((entry: any) => entry.role === 'engineering-frontend');
+    const installed = await app.inject({
+      method: 'POST',
+      url: '/api/installations',
+      payload: { companyGroupId: companyGroup.id, sourceTool: 'github', accountType: 'organization', externalAccountId: 'acme' },
+    });
+
+    const body = JSON.stringify(githubPayload());
+    await app.inject({
+      method: 'POST',
+      url: '/webhooks/github',
+      headers: {
+        'content-type': 'application/json',
+        'x-github-event': 'pull_request',
+        'x-hub-signature-256': sign(body, installed.json().webhookSecret),
+      },
+      payload: body,
+    });
+    await worker.runOnce();
+    expect((await worker.runOnce()).notificationsCreated).toBe(1);
+    // Routing reads the stored interpretation instead of asking the model again
+    expect(prompts).toHaveLength(1);
+
+    const queue = await app.inject({ method: 'GET', url: `/api/notifications/queue?channelId=${channel.id}` });
+    expect(queue.json().notifications[0]).toMatchObject({
+      summary: 'Dashboard users can now save their searches. Implements LIN-123',
+      impact: 'Saved searches appear on the dashboard for every user',
+      suggestedAction: 'Check the dashboard layout with saved searches',
+    });
+    await app.close();
+  });
+
+  it('should keep channels and pending notifications across restarts', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'sync-server-'));
+    const dbPath = join(dir, 'sync.db');
+    try {
+      const first = buildSyncServer({ dbPath });
+      const { companyGroup, channels } = await onboard(first.app);
+      const channel = channels.find((entry: any) => entry.role === 'engineering-frontend');
+      const installed = await first.app.inject({
+        method: 'POST',
+        url: '/api/installations',
+        payload: { companyGroupId: companyGroup.id, sourceTool: 'github', accountType: 'organization', externalAccountId: 'acme' },
+      });
+
+      const body = JSON.stringify(githubPayload());
+      const delivered = await first.app.inject({
+        method: 'POST',
+        url: '/webhooks/github',
+        headers: {
+          'content-type': 'application/json',
+          'x-github-event': 'pull_request',
+          'x-hub-signature-256': sign(body, installed.json().webhookSecret),
+        },
+        payload: body,
+      });
+      expect(delivered.statusCode).toBe(202);
+      // Interpretation, then routing
+      await first.worker.runOnce();
+      expect((await first.worker.runOnce()).notificationsCreated).toBe(1);
+      await first.app.close();
+
+      const second = buildSyncServer({ dbPath });
+      const listed = await second.app.inject({ method: 'GET', url: `/api/channels?companyGroupId=${companyGroup.id}` });
+      expect(listed.json().channels.map((entry: any) => entry.name)).toEqual(['everyone', 'engineering frontend']);
+
+      const queue = await second.app.inject({ method: 'GET', url: `/api/notifications/queue?channelId=${channel.id}` });
+      const [pending] = queue.json().notifications;
+      expect(pending.status).toBe('pending');
+      const approved = await second.app.inject({
+        method: 'POST',
+        url: `/api/notifications/${pending.id}/approve`,
+        payload: { approvedBy: randomUUID() },
+      });
+      expect(approved.statusCode).toBe(200);
+      // No delivery targets on the channel: sent in-app on approval
+      expect(approved.json().notification.status).toBe('sent');
+      expect((await second.app.inject({ method: 'GET', url: '/api/notifications/queue' })).json().notifications).toEqual([]);
+      await second.app.close();
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});